@@ -1,6 +1,8 @@
 "use server";
 
-import { createSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
+import { createUserSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
+import { getSessionHost } from "@/infrastructure/auth/sessionHost";
+import { GitHost } from "@/domain/value-objects/GitHost";
 import { ok, err, type Result } from "@/lib/result";
 
 /**
@@ -12,7 +14,7 @@ import { ok, err, type Result } from "@/lib/result";
 export interface Repository {
   id: number;
   name: string;
-  fullName: string; // owner/repo format
+  fullName: string; // Repository identifier: owner/repo, or host/owner/repo on GHES
   description: string | null;
   isPrivate: boolean;
   updatedAt: string;
@@ -20,6 +22,14 @@ export interface Repository {
   language: string | null;
 }
 
+/**
+ * Build the repository identifier for a repository on the given host
+ * GHES repositories carry their host so they can coexist with github.com ones
+ */
+function toRepositoryIdentifier(host: GitHost, fullName: string): string {
+  return host.isEnterprise ? `${host.hostname}/${fullName}` : fullName;
+}
+
 /**
  * Fetch user's repositories from GitHub API
  *
@@ -28,7 +38,7 @@ export interface Repository {
  */
 export async function fetchUserRepositories(): Promise<Result<Repository[]>> {
   try {
-    const sessionProvider = createSessionProvider();
+    const sessionProvider = createUserSessionProvider();
     const tokenResult = await sessionProvider.getAccessToken();
 
     if (!tokenResult.ok) {
@@ -36,11 +46,12 @@ export async function fetchUserRepositories(): Promise<Result<Repository[]>> {
     }
 
     const token = tokenResult.value;
+    const host = await getSessionHost();
 
     // Fetch repositories using GitHub REST API
     // Using REST API instead of GraphQL for simpler pagination
     const response = await fetch(
-      "https://api.github.com/user/repos?sort=updated&per_page=100&affiliation=owner,collaborator,organization_member",
+      `${host.apiUrl}/user/repos?sort=updated&per_page=100&affiliation=owner,collaborator,organization_member`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -70,7 +81,7 @@ export async function fetchUserRepositories(): Promise<Result<Repository[]>> {
     const repositories: Repository[] = data.map((repo) => ({
       id: repo.id,
       name: repo.name,
-      fullName: repo.full_name,
+      fullName: toRepositoryIdentifier(host, repo.full_name),
       description: repo.description,
       isPrivate: repo.private,
       updatedAt: repo.updated_at,
@@ -102,7 +113,7 @@ export async function searchRepositories(
   }
 
   try {
-    const sessionProvider = createSessionProvider();
+    const sessionProvider = createUserSessionProvider();
     const tokenResult = await sessionProvider.getAccessToken();
 
     if (!tokenResult.ok) {
@@ -110,10 +121,11 @@ export async function searchRepositories(
     }
 
     const token = tokenResult.value;
+    const host = await getSessionHost();
 
     // Search repositories using GitHub Search API
     const response = await fetch(
-      `https://api.github.com/search/repositories?q=${encodeURIComponent(query)}+user:@me&sort=stars&per_page=10`,
+      `${host.apiUrl}/search/repositories?q=${encodeURIComponent(query)}+user:@me&sort=stars&per_page=10`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -145,7 +157,7 @@ export async function searchRepositories(
     const repositories: Repository[] = data.items.map((repo) => ({
       id: repo.id,
       name: repo.name,
-      fullName: repo.full_name,
+      fullName: toRepositoryIdentifier(host, repo.full_name),
       description: repo.description,
       isPrivate: repo.private,
       updatedAt: repo.updated_at,
@@ -0,0 +1,34 @@
+import { cache } from "react";
+import type { ChangeFailureRules } from "@/domain/value-objects/ChangeFailureRules";
+import { getChangeFailureRulesRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result } from "@/lib/result";
+import { getCachedRepositoryAccess } from "./repository-access";
+
+/**
+ * Cached Change Failure Rules Fetcher
+ *
+ * Purpose: Load the change failure rules saved for a repository
+ * Used by: DORAMetricsWidget
+ *
+ * Rules are stored under the normalized repository identifier and shared
+ * by every user of the deployment, so they are only read for signed-in
+ * users who can read the repository.
+ *
+ * Example:
+ * ```typescript
+ * const result = await getCachedChangeFailureRules("owner/repo");
+ * const rules =
+ *   (result.ok && result.value) || ChangeFailureRules.defaults();
+ * ```
+ */
+export const getCachedChangeFailureRules = cache(
+  async (repositoryId: string): Promise<Result<ChangeFailureRules | null>> => {
+    const urlResult = await getCachedRepositoryAccess(repositoryId);
+    if (!urlResult.ok) {
+      return urlResult;
+    }
+    return await getChangeFailureRulesRepository().getRules(
+      urlResult.value.identifier,
+    );
+  },
+);
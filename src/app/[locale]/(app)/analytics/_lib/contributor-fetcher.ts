@@ -1,18 +1,20 @@
 import { cache } from "react";
 import type { DateRange } from "@/domain/value-objects/DateRange";
 import type { ContributorDto } from "@/application/dto/ContributorDto";
-import { AnalyzeRepository } from "@/application/use-cases/AnalyzeRepository";
-import { FetchGitData } from "@/application/use-cases/FetchGitData";
-import { CalculateMetrics } from "@/application/use-cases/CalculateMetrics";
-import { CalculateThroughputMetrics } from "@/application/use-cases/CalculateThroughputMetrics";
-import { CalculateChangesTimeseries } from "@/application/use-cases/CalculateChangesTimeseries";
-import { CalculateDeploymentFrequency } from "@/application/use-cases/CalculateDeploymentFrequency";
-import { OctokitAdapter } from "@/infrastructure/github/OctokitAdapter";
+import type { ContributorAnalysisDto } from "@/application/dto/AnalysisResult";
+import { createContributorAnalysisService } from "@/application/services/analytics";
 import { ContributorMapper } from "@/application/mappers/ContributorMapper";
-import { createSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
 import { Result, ok, err } from "@/lib/result";
 import { getMergePreferences } from "@/lib/utils/mergeCookie";
 import { ContributorService } from "@/domain/services/ContributorService";
+import type { Team } from "@/domain/value-objects/Team";
+import { getCachedTeam } from "./team-fetcher";
+
+/**
+ * Pseudo email domain of contributors known only by their username
+ * (see ContributorMetricsAggregator)
+ */
+const USERNAME_EMAIL_DOMAIN = "@github.local";
 
 /**
  * Cached Contributor Analysis Fetcher
@@ -22,13 +24,16 @@ import { ContributorService } from "@/domain/services/ContributorService";
  * Features:
  * - React cache() for per-request memoization
  * - Full contributor analysis (implementation + review activity)
- * - Reuses existing use cases from dashboard
+ * - Results are kept in the response cache, so an analysis streamed
+ *   from /api/analysis/progress is not run again
+ * - A partial analysis (rate limit exhausted) lists its incomplete sections
+ * - With a team, only contributors matching a member are listed
  *
  * Usage:
  * ```tsx
  * const result = await getCachedContributors("owner/repo", dateRange);
  * if (result.ok) {
- *   const contributors = result.value;
+ *   const { contributors, incomplete } = result.value;
  * }
  * ```
  */
@@ -36,50 +41,17 @@ export const getCachedContributors = cache(
   async (
     repositoryId: string,
     dateRange: DateRange,
-  ): Promise<Result<ContributorDto[]>> => {
+    team?: string,
+  ): Promise<Result<ContributorAnalysisDto>> => {
     try {
-      // Parse owner/repo from repositoryId
-      const [owner, repo] = repositoryId.split("/");
-      if (!owner || !repo) {
-        return err(new Error(`Invalid repository ID: ${repositoryId}`));
-      }
-
-      // Build repository URL
-      const repositoryUrl = `https://github.com/${repositoryId}`;
-
-      // Initialize dependencies
-      const sessionProvider = createSessionProvider();
-      const githubAdapter = new OctokitAdapter(sessionProvider);
-      const fetchGitData = new FetchGitData(githubAdapter);
-      const calculateMetrics = new CalculateMetrics();
-      const calculateThroughputMetrics = new CalculateThroughputMetrics();
-      const calculateChangesTimeseries = new CalculateChangesTimeseries();
-      const calculateDeploymentFrequency = new CalculateDeploymentFrequency(
-        githubAdapter,
-      );
-      const analyzeRepository = new AnalyzeRepository(
-        fetchGitData,
-        calculateMetrics,
-        calculateThroughputMetrics,
-        calculateChangesTimeseries,
-        calculateDeploymentFrequency,
+      const result = await createContributorAnalysisService().getContributors(
+        repositoryId,
+        dateRange,
       );
-
-      // Execute analysis
-      const result = await analyzeRepository.execute({
-        repositoryUrl,
-        dateRangeStart: dateRange.start,
-        dateRangeEnd: dateRange.end,
-      });
-
       if (!result.ok) {
         return err(result.error);
       }
-
-      // Map to DTOs
-      let contributorDtos = result.value.analysis.contributors.map(
-        (contributor) => ContributorMapper.toDto(contributor),
-      );
+      let contributorDtos = result.value.contributors;
 
       // Apply merge preferences from cookie
       const mergePreferences = await getMergePreferences(repositoryId);
@@ -90,7 +62,17 @@ export const getCachedContributors = cache(
         );
       }
 
-      return ok(contributorDtos);
+      if (team) {
+        const teamResult = await getCachedTeam(repositoryId, team);
+        if (!teamResult.ok) {
+          return teamResult;
+        }
+        contributorDtos = contributorDtos.filter((contributor) =>
+          isTeamContributor(contributor, teamResult.value),
+        );
+      }
+
+      return ok({ ...result.value, contributors: contributorDtos });
     } catch (error) {
       const errorObj =
         error instanceof Error
@@ -101,6 +83,37 @@ export const getCachedContributors = cache(
   },
 );
 
+/**
+ * Whether the Team tab can render without running an analysis
+ * When false, the page shows the live progress panel instead.
+ */
+export const hasCachedContributors = cache(
+  async (repositoryId: string, dateRange: DateRange): Promise<boolean> => {
+    try {
+      return await createContributorAnalysisService().hasCachedContributors(
+        repositoryId,
+        dateRange,
+      );
+    } catch {
+      return false;
+    }
+  },
+);
+
+/**
+ * Whether any identity of a (possibly merged) contributor is a member
+ */
+function isTeamContributor(contributor: ContributorDto, team: Team): boolean {
+  return (
+    team.includesLogin(contributor.displayName) ||
+    [contributor.primaryEmail, ...contributor.mergedEmails].some((email) =>
+      email.endsWith(USERNAME_EMAIL_DOMAIN)
+        ? team.includesLogin(email.slice(0, -USERNAME_EMAIL_DOMAIN.length))
+        : team.includesEmail(email),
+    )
+  );
+}
+
 /**
  * Apply merge preferences to contributors list
  * Merges contributors according to saved preferences from cookie
@@ -1,6 +1,34 @@
 import { cache } from "react";
-import { createAnalyticsDataService } from "@/application/services/analytics";
+import {
+  createAnalyticsDataService,
+  createPortfolioService,
+} from "@/application/services/analytics";
 import type { DateRange } from "@/domain/value-objects/DateRange";
+import type { PeriodComparison } from "@/application/services/analytics";
+import type { DeploymentSources } from "@/domain/value-objects/DeploymentEvent";
+import type { TokenCapabilities } from "@/domain/value-objects/TokenCapabilities";
+import type { PortfolioResult } from "@/application/dto/PortfolioResult";
+import type { TeamComparisonResult } from "@/application/dto/TeamResult";
+import type {
+  Deployment,
+  GitCommit,
+  PullRequest,
+  Release,
+  Tag,
+} from "@/domain/interfaces/IGitHubRepository";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "@/domain/value-objects/PullRequestDateFilter";
+import type { Team } from "@/domain/value-objects/Team";
+import { CompareTeams } from "@/application/use-cases/CompareTeams";
+import { getCachedDoraBenchmark } from "./dora-benchmark-fetcher";
+import {
+  RateLimitExhaustedError,
+  recoverPartial,
+} from "@/lib/errors/RateLimitExhaustedError";
+import { Result, ok, err } from "@/lib/result";
+import { getCachedTeam, getCachedTeams } from "./team-fetcher";
 
 /**
  * Cached Data Fetchers for Analytics Page
@@ -23,43 +51,421 @@ import type { DateRange } from "@/domain/value-objects/DateRange";
  * - Lower rate limit consumption
  *
  * Example:
- * - HeroMetrics calls getCachedCommits("owner/repo", dateRange)
+ * - HeroMetrics calls getCachedCommitPeriods("owner/repo", dateRange)
  * - Multiple widgets call getCachedPRs("owner/repo", dateRange)
  * - Only ONE actual API call is made per unique function+args, result is shared
+ *
+ * Periods:
+ * - The Overview tab compares the range with its previous period
+ * - Each data type is fetched once for both periods and split in memory
+ * - Single-range fetchers read the current period from that fetch, so
+ *   HeroMetrics and the widgets share it
+ *
+ * Teams:
+ * - PR, commit and deployment fetchers take an optional team id
+ * - Team-scoped results are filtered from the repository-wide fetch
+ *   (see Team), so switching teams costs no API calls
+ */
+
+/**
+ * Restrict items to a team, including the partial items of a fetch the
+ * rate limit cut short
+ */
+function scopeItems<T>(
+  result: Result<T[]>,
+  teamResult: Result<Team>,
+  scope: (team: Team, items: T[]) => T[],
+): Result<T[]> {
+  if (!teamResult.ok) {
+    return teamResult;
+  }
+  if (result.ok) {
+    return ok(scope(teamResult.value, result.value));
+  }
+  if (result.error instanceof RateLimitExhaustedError) {
+    return err(
+      result.error.withPartial(
+        scope(teamResult.value, result.error.partial as T[]),
+      ),
+    );
+  }
+  return result;
+}
+
+/**
+ * Restrict deployment sources to those that shipped a team commit
+ * Needs the commits of the same period (all authors); partial commits are
+ * used as far as they go.
  */
+function scopeDeploymentSources(
+  sourcesResult: Result<DeploymentSources>,
+  commitsResult: Result<GitCommit[]>,
+  teamResult: Result<Team>,
+): Result<DeploymentSources> {
+  if (!teamResult.ok) {
+    return teamResult;
+  }
+  if (!sourcesResult.ok) {
+    return sourcesResult;
+  }
+  const commits = recoverPartial(commitsResult, () => {});
+  if (!commits.ok) {
+    return commits;
+  }
+  return ok(
+    teamResult.value.filterDeploymentSources(
+      sourcesResult.value,
+      commits.value,
+    ),
+  );
+}
+
+/**
+ * Cached PR activity fetcher for the range and its previous period
+ * Used by: getCachedPRs, HeroMetrics
+ *
+ * With a team, only PRs authored by members (and their reviews) are kept.
+ */
+export const getCachedPRPeriods = cache(
+  async (
+    repositoryId: string,
+    dateRange: DateRange,
+    team?: string,
+  ): Promise<PeriodComparison<Result<PullRequest[]>>> => {
+    if (team) {
+      const [periods, teamResult] = await Promise.all([
+        getCachedPRPeriods(repositoryId, dateRange),
+        getCachedTeam(repositoryId, team),
+      ]);
+      const scope = (result: Result<PullRequest[]>) =>
+        scopeItems(result, teamResult, (t, prs) => t.filterPullRequests(prs));
+      return {
+        current: scope(periods.current),
+        previous: scope(periods.previous),
+      };
+    }
+
+    const service = createAnalyticsDataService();
+    return await service.getPRPeriods(repositoryId, dateRange);
+  },
+);
 
 /**
  * Cached PR fetcher
- * Used by: HeroMetrics, PRTrendsWidget
+ * Widgets pass the date semantics of their metric; all semantics share
+ * one activity fetch.
+ * Used by: PRTrendsWidget, CycleTimeWidget, DORAMetricsWidget
  */
 export const getCachedPRs = cache(
+  async (
+    repositoryId: string,
+    dateRange: DateRange,
+    semantics: PullRequestDateSemantics = PullRequestDateSemantics.ACTIVITY,
+    team?: string,
+  ): Promise<Result<PullRequest[]>> => {
+    const { current: result } = await getCachedPRPeriods(
+      repositoryId,
+      dateRange,
+      team,
+    );
+    if (!result.ok) {
+      return result;
+    }
+
+    return ok(
+      PullRequestDateFilter.create(
+        semantics,
+        dateRange.start,
+        dateRange.end,
+      ).apply(result.value),
+    );
+  },
+);
+
+/**
+ * Cached Deployment fetcher for the range and its previous period
+ * Used by: getCachedDeployments, getCachedDeploymentSourcePeriods
+ */
+const getCachedDeploymentPeriods = cache(
   async (repositoryId: string, dateRange: DateRange) => {
     const service = createAnalyticsDataService();
-    return await service.getPRs(repositoryId, dateRange);
+    return await service.getDeploymentPeriods(repositoryId, dateRange);
   },
 );
 
 /**
  * Cached Deployment fetcher
- * Used by: HeroMetrics, DORAMetricsWidget, DeploymentFrequencyWidget
+ * Used by: getCachedDeploymentSources, TimeToRestoreWidget
  */
 export const getCachedDeployments = cache(
+  async (repositoryId: string, dateRange: DateRange) =>
+    (await getCachedDeploymentPeriods(repositoryId, dateRange)).current,
+);
+
+/**
+ * Cached Release fetcher for the range and its previous period
+ * Used by: getCachedReleases, getCachedDeploymentSourcePeriods
+ */
+const getCachedReleasePeriods = cache(
+  async (repositoryId: string, dateRange: DateRange) => {
+    const service = createAnalyticsDataService();
+    return await service.getReleasePeriods(repositoryId, dateRange);
+  },
+);
+
+/**
+ * Cached Release fetcher
+ * Used by: getCachedDeploymentSources
+ */
+export const getCachedReleases = cache(
+  async (repositoryId: string, dateRange: DateRange) =>
+    (await getCachedReleasePeriods(repositoryId, dateRange)).current,
+);
+
+/**
+ * Cached Tag fetcher for the range and its previous period
+ * Used by: getCachedTags, getCachedDeploymentSourcePeriods
+ */
+const getCachedTagPeriods = cache(
   async (repositoryId: string, dateRange: DateRange) => {
     const service = createAnalyticsDataService();
-    return await service.getDeployments(repositoryId, dateRange);
+    return await service.getTagPeriods(repositoryId, dateRange);
+  },
+);
+
+/**
+ * Cached Tag fetcher
+ * Used by: getCachedDeploymentSources
+ */
+export const getCachedTags = cache(
+  async (repositoryId: string, dateRange: DateRange) =>
+    (await getCachedTagPeriods(repositoryId, dateRange)).current,
+);
+
+/**
+ * Cached Commit fetcher for the range and its previous period
+ * Used by: getCachedCommits, HeroMetrics
+ *
+ * With a team, only commits authored by members are kept.
+ */
+export const getCachedCommitPeriods = cache(
+  async (
+    repositoryId: string,
+    dateRange: DateRange,
+    team?: string,
+  ): Promise<PeriodComparison<Result<GitCommit[]>>> => {
+    if (team) {
+      const [periods, teamResult] = await Promise.all([
+        getCachedCommitPeriods(repositoryId, dateRange),
+        getCachedTeam(repositoryId, team),
+      ]);
+      const scope = (result: Result<GitCommit[]>) =>
+        scopeItems(result, teamResult, (t, commits) =>
+          t.filterCommits(commits),
+        );
+      return {
+        current: scope(periods.current),
+        previous: scope(periods.previous),
+      };
+    }
+
+    const service = createAnalyticsDataService();
+    return await service.getCommitPeriods(repositoryId, dateRange);
   },
 );
 
 /**
  * Cached Commit fetcher
- * Used by: HeroMetrics
+ * Used by: DORAMetricsWidget
  *
  * IMPORTANT: This function is called by multiple components
  * Without cache(), this would result in duplicate API calls
  */
 export const getCachedCommits = cache(
-  async (repositoryId: string, dateRange: DateRange) => {
+  async (repositoryId: string, dateRange: DateRange, team?: string) =>
+    (await getCachedCommitPeriods(repositoryId, dateRange, team)).current,
+);
+
+/**
+ * Combine deployment, release and tag results into deployment sources
+ * Fails only when deployments cannot be fetched; releases and tags fall
+ * back to empty lists.
+ */
+function toDeploymentSources(
+  deploymentsResult: Result<Deployment[]>,
+  releasesResult: Result<Release[]>,
+  tagsResult: Result<Tag[]>,
+): Result<DeploymentSources> {
+  if (!deploymentsResult.ok) {
+    return deploymentsResult;
+  }
+
+  return ok({
+    releases: releasesResult.ok ? releasesResult.value : [],
+    deployments: deploymentsResult.value,
+    tags: tagsResult.ok ? tagsResult.value : [],
+  });
+}
+
+/**
+ * Cached deployment source fetcher (deployments, releases and tags)
+ * Used by: DORAMetricsWidget, DeploymentFrequencyWidget
+ *
+ * All DORA widgets count the same deduplicated events built from these
+ * sources (DeploymentEvent.fromSources). With a team, only the sources
+ * that shipped a member commit are kept.
+ */
+export const getCachedDeploymentSources = cache(
+  async (
+    repositoryId: string,
+    dateRange: DateRange,
+    team?: string,
+  ): Promise<Result<DeploymentSources>> => {
+    if (team) {
+      const [sourcesResult, commitsResult, teamResult] = await Promise.all([
+        getCachedDeploymentSources(repositoryId, dateRange),
+        getCachedCommits(repositoryId, dateRange),
+        getCachedTeam(repositoryId, team),
+      ]);
+      return scopeDeploymentSources(sourcesResult, commitsResult, teamResult);
+    }
+
+    const [deploymentsResult, releasesResult, tagsResult] = await Promise.all([
+      getCachedDeployments(repositoryId, dateRange),
+      getCachedReleases(repositoryId, dateRange),
+      getCachedTags(repositoryId, dateRange),
+    ]);
+
+    return toDeploymentSources(deploymentsResult, releasesResult, tagsResult);
+  },
+);
+
+/**
+ * Cached deployment source fetcher for the range and its previous period
+ * Used by: HeroMetrics
+ */
+export const getCachedDeploymentSourcePeriods = cache(
+  async (
+    repositoryId: string,
+    dateRange: DateRange,
+    team?: string,
+  ): Promise<PeriodComparison<Result<DeploymentSources>>> => {
+    if (team) {
+      const [sources, commits, teamResult] = await Promise.all([
+        getCachedDeploymentSourcePeriods(repositoryId, dateRange),
+        getCachedCommitPeriods(repositoryId, dateRange),
+        getCachedTeam(repositoryId, team),
+      ]);
+      return {
+        current: scopeDeploymentSources(
+          sources.current,
+          commits.current,
+          teamResult,
+        ),
+        previous: scopeDeploymentSources(
+          sources.previous,
+          commits.previous,
+          teamResult,
+        ),
+      };
+    }
+
+    const [deployments, releases, tags] = await Promise.all([
+      getCachedDeploymentPeriods(repositoryId, dateRange),
+      getCachedReleasePeriods(repositoryId, dateRange),
+      getCachedTagPeriods(repositoryId, dateRange),
+    ]);
+
+    return {
+      current: toDeploymentSources(
+        deployments.current,
+        releases.current,
+        tags.current,
+      ),
+      previous: toDeploymentSources(
+        deployments.previous,
+        releases.previous,
+        tags.previous,
+      ),
+    };
+  },
+);
+
+/**
+ * Cached token capability fetcher
+ * Used by: widgets explaining missing permissions (see WidgetPermissions)
+ *
+ * Probes are also reused across requests for a few minutes per token and
+ * repository, so widgets may call this on every render.
+ */
+export const getCachedTokenCapabilities = cache(
+  async (repositoryId: string): Promise<TokenCapabilities> => {
     const service = createAnalyticsDataService();
-    return await service.getCommits(repositoryId, dateRange);
+    return await service.getTokenCapabilities(repositoryId);
+  },
+);
+
+/**
+ * Cached portfolio fetcher (metrics combined across repositories)
+ * Used by: PortfolioView
+ *
+ * Takes the comma-separated identifiers rather than an array, so React's
+ * cache() can match the arguments.
+ */
+export const getCachedPortfolio = cache(
+  async (
+    repositoryIds: string,
+    dateRange: DateRange,
+  ): Promise<Result<PortfolioResult>> => {
+    const service = createPortfolioService();
+    return await service.getPortfolio(repositoryIds.split(","), dateRange);
+  },
+);
+
+/**
+ * Cached team comparison fetcher
+ * Used by: TeamsTab
+ *
+ * Compares every team of the repository's owner on the repository-wide
+ * fetches the Overview tab shares; partial data is compared as far as it
+ * goes, and deployments count as none when they cannot be fetched.
+ */
+export const getCachedTeamComparison = cache(
+  async (
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<Result<TeamComparisonResult>> => {
+    const [teamsResult, prsResult, commitsResult, sourcesResult, benchmark] =
+      await Promise.all([
+        getCachedTeams(repositoryId),
+        getCachedPRs(repositoryId, dateRange),
+        getCachedCommits(repositoryId, dateRange),
+        getCachedDeploymentSources(repositoryId, dateRange),
+        getCachedDoraBenchmark(repositoryId),
+      ]);
+    if (!teamsResult.ok) {
+      return teamsResult;
+    }
+    const pullRequests = recoverPartial(prsResult, () => {});
+    if (!pullRequests.ok) {
+      return pullRequests;
+    }
+    const commits = recoverPartial(commitsResult, () => {});
+    if (!commits.ok) {
+      return commits;
+    }
+
+    return ok(
+      new CompareTeams().execute({
+        teams: teamsResult.value,
+        pullRequests: pullRequests.value,
+        commits: commits.value,
+        deploymentSources: sourcesResult.ok
+          ? sourcesResult.value
+          : { releases: [], deployments: [], tags: [] },
+        dateRange,
+        benchmark,
+      }),
+    );
   },
 );
@@ -0,0 +1,62 @@
+import { cache } from "react";
+import { DORABenchmark } from "@/domain/value-objects/DORABenchmark";
+import { getDoraBenchmarkRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { getCachedRepositoryAccess } from "./repository-access";
+
+/**
+ * Cached DORA Benchmark Fetchers
+ *
+ * Purpose: Load the benchmark edition selected for a repository's owner
+ * Used by: HeroMetrics, the DORA widgets, PortfolioView and
+ * getCachedTeamComparison
+ *
+ * Editions are stored per owner ("owner" or "host/owner") and shared by
+ * every user of the deployment. The default edition applies when none was
+ * selected, when the user cannot read the repository or when the stored
+ * edition cannot be loaded.
+ *
+ * Example:
+ * ```typescript
+ * const benchmark = await getCachedDoraBenchmark("owner/repo");
+ * DORAClassificationService.classifyDeploymentFrequency(perYear, count, benchmark);
+ * ```
+ */
+export const getCachedDoraBenchmark = cache(
+  async (repositoryId: string): Promise<DORABenchmark> => {
+    const urlResult = await getCachedRepositoryAccess(repositoryId);
+    if (!urlResult.ok) {
+      return DORABenchmark.forEdition();
+    }
+    const editionResult = await getDoraBenchmarkRepository().getEdition(
+      urlResult.value.ownerIdentifier,
+    );
+    return DORABenchmark.forEdition(
+      (editionResult.ok && editionResult.value) || undefined,
+    );
+  },
+);
+
+/**
+ * Cached portfolio benchmark fetcher
+ *
+ * Repositories of one owner use its edition; a portfolio spanning owners
+ * uses the default, so no owner's selection applies to another's
+ * repositories. Takes the comma-separated identifiers (see
+ * getCachedPortfolio).
+ */
+export const getCachedPortfolioDoraBenchmark = cache(
+  async (repositoryIds: string): Promise<DORABenchmark> => {
+    const ids = repositoryIds.split(",");
+    const urlResults = await Promise.all(
+      ids.map((id) => getCachedRepositoryAccess(id)),
+    );
+    const owners = new Set(
+      urlResults.map((result) =>
+        result.ok ? result.value.ownerIdentifier.toLowerCase() : null,
+      ),
+    );
+    return owners.size === 1 && !owners.has(null)
+      ? await getCachedDoraBenchmark(ids[0] ?? "")
+      : DORABenchmark.forEdition();
+  },
+);
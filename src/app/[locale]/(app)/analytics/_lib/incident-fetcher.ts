@@ -0,0 +1,36 @@
+import { cache } from "react";
+import type { Incident } from "@/domain/value-objects/Incident";
+import { getIncidentRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result } from "@/lib/result";
+import { getCachedRepositoryAccess } from "./repository-access";
+
+/**
+ * Cached Imported Incident Fetcher
+ *
+ * Purpose: Load incidents imported by file upload or the incident webhook
+ * Used by: TimeToRestoreWidget
+ *
+ * Incidents are stored under the normalized repository identifier, so
+ * "owner/repo" and "github.com/owner/repo" share the same incidents.
+ * They are shared by every user of the deployment, so they are only read
+ * for signed-in users who can read the repository.
+ *
+ * Example:
+ * ```typescript
+ * const result = await getCachedIncidents("owner/repo");
+ * if (result.ok) {
+ *   const incidents = result.value;
+ * }
+ * ```
+ */
+export const getCachedIncidents = cache(
+  async (repositoryId: string): Promise<Result<Incident[]>> => {
+    const urlResult = await getCachedRepositoryAccess(repositoryId);
+    if (!urlResult.ok) {
+      return urlResult;
+    }
+    return await getIncidentRepository().getIncidents(
+      urlResult.value.identifier,
+    );
+  },
+);
@@ -0,0 +1,20 @@
+import { cache } from "react";
+import { authorizeRepository } from "@/app/actions/authorization";
+
+/**
+ * Cached Repository Access Check
+ *
+ * Purpose: Check once per request that the signed-in user can read a
+ * repository before data shared by the deployment is shown for it
+ * Used by: getCachedIncidents, getCachedChangeFailureRules, getCachedTeams,
+ * getCachedDoraBenchmark
+ *
+ * Example:
+ * ```typescript
+ * const result = await getCachedRepositoryAccess("owner/repo");
+ * if (result.ok) {
+ *   const identifier = result.value.identifier;
+ * }
+ * ```
+ */
+export const getCachedRepositoryAccess = cache(authorizeRepository);
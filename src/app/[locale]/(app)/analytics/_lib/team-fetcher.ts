@@ -0,0 +1,48 @@
+import { cache } from "react";
+import type { Team } from "@/domain/value-objects/Team";
+import { getTeamRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result, ok, err } from "@/lib/result";
+import { getCachedRepositoryAccess } from "./repository-access";
+
+/**
+ * Cached Team Fetchers
+ *
+ * Purpose: Load the team definitions of a repository's owner
+ * Used by: TeamFilter, TeamsTab and the team-scoped data fetchers
+ *
+ * Teams are stored per owner ("owner" or "host/owner"), so every
+ * repository of an organization offers the same teams. They are only read
+ * for signed-in users who can read the repository.
+ *
+ * Example:
+ * ```typescript
+ * const result = await getCachedTeam("owner/repo", "platform");
+ * if (result.ok) {
+ *   const prs = result.value.filterPullRequests(allPrs);
+ * }
+ * ```
+ */
+export const getCachedTeams = cache(
+  async (repositoryId: string): Promise<Result<Team[]>> => {
+    const urlResult = await getCachedRepositoryAccess(repositoryId);
+    if (!urlResult.ok) {
+      return urlResult;
+    }
+    return await getTeamRepository().getTeams(urlResult.value.ownerIdentifier);
+  },
+);
+
+/**
+ * Cached single team fetcher
+ * Fails when the owner has no team with the id.
+ */
+export const getCachedTeam = cache(
+  async (repositoryId: string, teamId: string): Promise<Result<Team>> => {
+    const teamsResult = await getCachedTeams(repositoryId);
+    if (!teamsResult.ok) {
+      return teamsResult;
+    }
+    const team = teamsResult.value.find((candidate) => candidate.id === teamId);
+    return team ? ok(team) : err(new Error(`Team not found: ${teamId}`));
+  },
+);
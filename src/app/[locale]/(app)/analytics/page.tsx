@@ -1,16 +1,28 @@
 import { Suspense } from "react";
 import { getTranslations } from "next-intl/server";
 import { DateRange } from "@/domain/value-objects/DateRange";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import {
+  GITHUB_DOTCOM_HOST,
+  GitProvider,
+} from "@/domain/value-objects/GitHost";
+import { getAllowedHosts } from "@/infrastructure/hostConfig";
 import { AppFooter } from "@/presentation/components/layout";
 import {
   HeroMetrics,
   HeroMetricsSkeleton,
   TeamTabSkeleton,
   OverviewTab,
-  TeamTab,
+  TeamTabLoader,
   AnalyticsEmptyState,
   AnalyticsRedirect,
+  PortfolioView,
+  TeamFilter,
+  TeamsTab,
 } from "@/presentation/components/features/analytics";
+import { MAX_PORTFOLIO_REPOSITORIES } from "@/application/services/analytics";
+import { SkeletonChart } from "@/presentation/components/shared/SkeletonChart";
+import { getCachedTeams } from "./_lib/team-fetcher";
 
 /**
  * Analytics Page
@@ -22,35 +34,47 @@ import {
  * - Each widget wrapped in individual Suspense boundary
  * - Independent loading states via skeletons
  * - Failed widgets don't break the page
+ * - Team tab streams analysis progress until its result is cached
  * - No client-side serialization needed (pure Server Components)
  * - Hero metrics always visible, content switched by sidebar navigation
+ * - Several repositories combine into a portfolio view (`repos`)
+ * - Overview and Team tabs can be scoped to a team of the repository's
+ *   owner (`team`); unknown team ids are ignored
  *
  * URL Parameters:
- * - repo: Repository URL (required)
+ * - repo: Repository URL (required unless repos is given)
+ * - repos: Comma-separated repository URLs to combine (portfolio view)
  * - start: Start date ISO string (optional)
  * - end: End date ISO string (optional)
  * - range: Preset range like "7d", "30d", "90d" (optional)
- * - tab: Section to display - "overview" (default) or "team"
+ * - tab: Section to display - "overview" (default), "team" or "teams"
+ * - team: Team id to scope the Overview and Team tabs to (optional)
  *
  * Navigation:
  * - Sidebar controls tab switching (no in-page tabs)
  * - Hero metrics shown only on Overview tab
  * - Overview: Main analytics widgets and charts with hero metrics
  * - Team: Detailed contributor analysis without hero metrics
+ * - Teams: Side-by-side comparison of the owner's teams
  *
  * Example URLs:
  * - /analytics?repo=facebook/react&range=30d (defaults to overview)
  * - /analytics?repo=facebook/react&range=30d&tab=overview
  * - /analytics?repo=facebook/react&range=30d&tab=team
+ * - /analytics?repo=facebook/react&range=30d&team=core (scoped to a team)
+ * - /analytics?repo=facebook/react&range=30d&tab=teams
+ * - /analytics?repos=acme/api,acme/web&range=30d (portfolio)
  */
 
 interface AnalyticsPageProps {
   searchParams: Promise<{
     repo?: string;
+    repos?: string;
     start?: string;
     end?: string;
     range?: string;
     tab?: string;
+    team?: string;
   }>;
 }
 
@@ -60,6 +84,34 @@ export default async function AnalyticsPage({
   const t = await getTranslations("analytics");
   const params = await searchParams;
 
+  // Combine several repositories when a set is given
+  const portfolioIds = parsePortfolioIds(params.repos);
+  if (portfolioIds.length > 0) {
+    const dateRange = parseDateRangeFromParams(params);
+    return (
+      <div className="flex flex-col min-h-full">
+        <div className="flex-1 p-8">
+          <div className="max-w-7xl mx-auto space-y-6">
+            <Suspense
+              fallback={
+                <div className="space-y-6">
+                  <HeroMetricsSkeleton />
+                  <SkeletonChart height="h-96" />
+                </div>
+              }
+            >
+              <PortfolioView
+                repositoryIds={portfolioIds}
+                dateRange={dateRange}
+              />
+            </Suspense>
+          </div>
+        </div>
+        <AppFooter />
+      </div>
+    );
+  }
+
   // Check if repository URL is provided and valid
   const repoUrl = params.repo;
   if (
@@ -83,28 +135,62 @@ export default async function AnalyticsPage({
   // Parse date range from URL parameters
   const dateRange = parseDateRangeFromParams(params);
 
-  // Parse repository URL to extract owner and repo
-  const { owner, repo } = parseRepositoryUrl(repoUrl);
-  const repositoryId = `${owner}/${repo}`;
+  // Parse repository URL into an identifier carrying the host
+  const repositoryId = parseRepositoryId(repoUrl);
+
+  // Teams of the repository's owner; an unknown team shows everyone
+  const teamsResult = await getCachedTeams(repositoryId);
+  const teams = teamsResult.ok ? teamsResult.value : [];
+  const team = teams.find((candidate) => candidate.id === params.team)?.id;
+  const manageTeamsHref = getTeamsPageHref(repositoryId);
 
   return (
     <div className="flex flex-col min-h-full">
       <div className="flex-1 p-8">
         <div className="max-w-7xl mx-auto space-y-6">
+          {/* Team filter - Overview and Team tabs */}
+          {params.tab !== "teams" && (
+            <TeamFilter
+              teams={teams.map(({ id, name }) => ({ id, name }))}
+              selected={team}
+              manageHref={manageTeamsHref}
+            />
+          )}
+
           {/* Hero Metrics - Only on Overview Tab */}
-          {params.tab !== "team" && (
+          {params.tab !== "team" && params.tab !== "teams" && (
             <Suspense fallback={<HeroMetricsSkeleton />}>
-              <HeroMetrics repositoryId={repositoryId} dateRange={dateRange} />
+              <HeroMetrics
+                repositoryId={repositoryId}
+                dateRange={dateRange}
+                team={team}
+              />
             </Suspense>
           )}
 
           {/* Content - Switched by sidebar navigation */}
           {params.tab === "team" ? (
             <Suspense fallback={<TeamTabSkeleton />}>
-              <TeamTab repositoryId={repositoryId} dateRange={dateRange} />
+              <TeamTabLoader
+                repositoryId={repositoryId}
+                dateRange={dateRange}
+                team={team}
+              />
+            </Suspense>
+          ) : params.tab === "teams" ? (
+            <Suspense fallback={<SkeletonChart height="h-96" />}>
+              <TeamsTab
+                repositoryId={repositoryId}
+                dateRange={dateRange}
+                manageHref={manageTeamsHref}
+              />
             </Suspense>
           ) : (
-            <OverviewTab repositoryId={repositoryId} dateRange={dateRange} />
+            <OverviewTab
+              repositoryId={repositoryId}
+              dateRange={dateRange}
+              team={team}
+            />
           )}
         </div>
       </div>
@@ -160,33 +246,85 @@ function parseDateRangeFromParams(params: {
 }
 
 /**
- * Parse repository URL to extract owner and repo
+ * Parse the comma-separated repositories of a portfolio
+ * Duplicates are dropped and at most MAX_PORTFOLIO_REPOSITORIES are kept.
+ *
+ * @returns Repository identifiers (see parseRepositoryId), empty without repos
+ */
+function parsePortfolioIds(repos: string | undefined): string[] {
+  if (!repos || typeof repos !== "string") {
+    return [];
+  }
+
+  const ids = repos
+    .split(",")
+    .map((repo) => repo.trim())
+    .filter((repo) => repo.length > 0)
+    .map(parseRepositoryId);
+  return [...new Set(ids)].slice(0, MAX_PORTFOLIO_REPOSITORIES);
+}
+
+/**
+ * Parse repository URL into a repository identifier
  *
  * Supports formats:
  * - https://github.com/owner/repo
  * - github.com/owner/repo
  * - owner/repo
+ * - https://ghe.example.com/owner/repo (configured GitHub Enterprise host)
+ * - ghe.example.com/owner/repo
+ * - https://gitlab.example.com/group/subgroup/project (configured GitLab host)
+ *
+ * @returns "owner/repo" for github.com, "host/owner/repo" for other hosts
  */
-function parseRepositoryUrl(url: string): { owner: string; repo: string } {
+function parseRepositoryId(url: string): string {
   // Validate input
   if (!url || typeof url !== "string" || url.trim() === "") {
     throw new Error(`Invalid repository URL: ${url}`);
   }
 
-  // Remove protocol and domain if present
-  const cleanUrl = url
-    .trim()
-    .replace(/^https?:\/\//, "")
-    .replace(/^github\.com\//, "");
+  // Remove protocol if present
+  const cleanUrl = url.trim().replace(/^https?:\/\//, "");
 
-  // Extract owner and repo
+  // Extract host (optional), owner and repo
+  const allowedHosts = getAllowedHosts();
   const parts = cleanUrl.split("/").filter((part) => part.length > 0);
-  if (parts.length < 2) {
+  const host = allowedHosts.find(
+    (allowed) => allowed.hostname === parts[0]?.toLowerCase(),
+  );
+  const path = host ? parts.slice(1) : parts;
+  // GitLab project paths may include nested groups and end before "/-/" pages
+  const gitLabPathEnd = path.indexOf("-");
+  const pathSegments =
+    host?.provider === GitProvider.GITLAB
+      ? path.slice(0, gitLabPathEnd === -1 ? path.length : gitLabPathEnd)
+      : path.slice(0, 2);
+  if (pathSegments.length < 2) {
+    throw new Error(`Invalid repository URL: ${url}`);
+  }
+
+  const urlResult = RepositoryUrl.fromIdentifier(
+    `${host?.hostname ?? GITHUB_DOTCOM_HOST}/${pathSegments.join("/").replace(/\.git$/, "")}`, // Remove .git suffix if present
+    allowedHosts,
+  );
+  if (!urlResult.ok) {
     throw new Error(`Invalid repository URL: ${url}`);
   }
 
-  return {
-    owner: parts[0]!,
-    repo: parts[1]!.replace(/\.git$/, ""), // Remove .git suffix if present
-  };
+  return urlResult.value.identifier;
+}
+
+/**
+ * Team management page of a repository's owner
+ * (teams are defined per owner on the organization page)
+ */
+function getTeamsPageHref(repositoryId: string): string {
+  const urlResult = RepositoryUrl.fromIdentifier(
+    repositoryId,
+    getAllowedHosts(),
+  );
+  const owner = urlResult.ok
+    ? urlResult.value.owner
+    : (repositoryId.split("/").at(-2) ?? "");
+  return `/org/${encodeURIComponent(owner)}/teams`;
 }
@@ -0,0 +1,91 @@
+import { cache } from "react";
+import { authorizeOwner } from "@/app/actions/authorization";
+import { createAnalyticsDataService } from "@/application/services/analytics";
+import { SummarizeRepositoryHealth } from "@/application/use-cases/SummarizeRepositoryHealth";
+import type { OrganizationOverviewResult } from "@/application/dto/RepositoryHealthResult";
+import {
+  DEFAULT_DORA_BENCHMARK_EDITION,
+  DORABenchmark,
+  DORABenchmarkEdition,
+} from "@/domain/value-objects/DORABenchmark";
+import type { Team } from "@/domain/value-objects/Team";
+import {
+  getDoraBenchmarkRepository,
+  getTeamRepository,
+} from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result, ok } from "@/lib/result";
+
+/**
+ * Cached Data Fetchers for Organization Page
+ *
+ * Purpose: Prevent duplicate API calls during Server Component rendering
+ * (see analytics/_lib/data-fetchers.ts)
+ */
+
+/**
+ * Cached DORA benchmark edition fetcher
+ * Used by: getCachedOrganizationOverview, TeamManagement
+ *
+ * Editions are stored per owner and shared by every user of the
+ * deployment; the default applies when none was selected or the stored
+ * edition cannot be loaded.
+ *
+ * @param ownerId Owner identifier ("owner" or "host/owner")
+ */
+export const getCachedDoraBenchmarkEdition = cache(
+  async (ownerId: string): Promise<DORABenchmarkEdition> => {
+    const result = await getDoraBenchmarkRepository().getEdition(ownerId);
+    return (result.ok && result.value) || DEFAULT_DORA_BENCHMARK_EDITION;
+  },
+);
+
+/**
+ * Cached organization overview fetcher
+ * Used by: OrganizationOverview
+ *
+ * Lists every repository of the owner (cached across requests per owner)
+ * and summarizes their health against the owner's DORA benchmark.
+ *
+ * @param ownerId Owner identifier ("owner" or "host/owner")
+ */
+export const getCachedOrganizationOverview = cache(
+  async (ownerId: string): Promise<Result<OrganizationOverviewResult>> => {
+    const service = createAnalyticsDataService();
+    const [repositoriesResult, edition] = await Promise.all([
+      service.getOwnerRepositories(
+        ownerId,
+        SummarizeRepositoryHealth.windowStart(),
+      ),
+      getCachedDoraBenchmarkEdition(ownerId),
+    ]);
+    if (!repositoriesResult.ok) {
+      return repositoriesResult;
+    }
+
+    return ok(
+      new SummarizeRepositoryHealth().execute(
+        ownerId,
+        repositoriesResult.value,
+        DORABenchmark.forEdition(edition),
+      ),
+    );
+  },
+);
+
+/**
+ * Cached team definitions fetcher
+ * Used by: TeamManagement
+ *
+ * Only the owner and its members manage teams, so others get an error.
+ *
+ * @param ownerId Owner identifier ("owner" or "host/owner")
+ */
+export const getCachedTeams = cache(
+  async (ownerId: string): Promise<Result<Team[]>> => {
+    const accessResult = await authorizeOwner(ownerId);
+    if (!accessResult.ok) {
+      return accessResult;
+    }
+    return await getTeamRepository().getTeams(ownerId);
+  },
+);
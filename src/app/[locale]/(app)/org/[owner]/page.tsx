@@ -0,0 +1,50 @@
+import { Suspense } from "react";
+import { getSessionHost } from "@/infrastructure/auth/sessionHost";
+import { AppFooter } from "@/presentation/components/layout";
+import {
+  OrganizationOverview,
+  OrganizationOverviewSkeleton,
+} from "@/presentation/components/features/organization";
+
+/**
+ * Organization Page
+ *
+ * Purpose: Health overview of every repository of an organization or user
+ *
+ * Architecture:
+ * - Server Component; the repository list streams in behind a skeleton
+ * - Repositories are listed on the host of the session token
+ *   (GitHub Enterprise Server owners are identified as "host/owner")
+ * - Sorting and filtering happen client-side on the summarized list
+ *
+ * Example URLs:
+ * - /org/vercel
+ */
+
+interface OrganizationPageProps {
+  params: Promise<{
+    owner: string;
+  }>;
+}
+
+export default async function OrganizationPage({
+  params,
+}: OrganizationPageProps) {
+  const { owner } = await params;
+  const host = await getSessionHost();
+  const login = decodeURIComponent(owner);
+  const ownerId = host.isEnterprise ? `${host.hostname}/${login}` : login;
+
+  return (
+    <div className="flex flex-col min-h-full">
+      <div className="flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <Suspense fallback={<OrganizationOverviewSkeleton />}>
+            <OrganizationOverview ownerId={ownerId} owner={login} />
+          </Suspense>
+        </div>
+      </div>
+      <AppFooter />
+    </div>
+  );
+}
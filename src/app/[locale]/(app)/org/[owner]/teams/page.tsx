@@ -0,0 +1,53 @@
+import { Suspense } from "react";
+import { getSessionHost } from "@/infrastructure/auth/sessionHost";
+import { AppFooter } from "@/presentation/components/layout";
+import {
+  OrganizationOverviewSkeleton,
+  TeamManagement,
+} from "@/presentation/components/features/organization";
+
+/**
+ * Teams Page
+ *
+ * Purpose: Define the teams of an organization or user, by hand or
+ * imported from the organization's teams on GitHub, and select the DORA
+ * benchmark edition its repositories are classified against
+ *
+ * Architecture:
+ * - Server Component; editing happens in client dialogs calling the team
+ *   Server Actions, which refresh the page
+ * - Teams and the benchmark edition are stored per owner on the host of
+ *   the session token
+ *   (GitHub Enterprise Server owners are identified as "host/owner")
+ * - The analytics page offers the teams of a repository's owner as a
+ *   filter and compares them in its Teams tab
+ *
+ * Example URLs:
+ * - /org/vercel/teams
+ */
+
+interface TeamsPageProps {
+  params: Promise<{
+    owner: string;
+  }>;
+}
+
+export default async function TeamsPage({ params }: TeamsPageProps) {
+  const { owner } = await params;
+  const host = await getSessionHost();
+  const login = decodeURIComponent(owner);
+  const ownerId = host.isEnterprise ? `${host.hostname}/${login}` : login;
+
+  return (
+    <div className="flex flex-col min-h-full">
+      <div className="flex-1 p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Suspense fallback={<OrganizationOverviewSkeleton />}>
+            <TeamManagement ownerId={ownerId} owner={login} />
+          </Suspense>
+        </div>
+      </div>
+      <AppFooter />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { getTranslations } from "next-intl/server";
 import { AppFooter } from "@/presentation/components/layout";
 import { LocaleSwitcher } from "@/presentation/components/shared/LocaleSwitcher";
+import { CacheSettings } from "@/presentation/components/features/settings/CacheSettings";
 import {
   Card,
   CardContent,
@@ -8,7 +9,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Globe } from "lucide-react";
+import { Database, Globe } from "lucide-react";
 
 /**
  * Settings Page
@@ -17,6 +18,7 @@ import { Globe } from "lucide-react";
  *
  * Features:
  * - Language/locale selection
+ * - Cache statistics and clearing cached GitHub data
  * - Theme preferences (handled by ThemeToggle in header)
  * - Future: Additional user preferences
  *
@@ -63,6 +65,20 @@ export default async function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Cache Settings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5" />
+                {t("cache.title")}
+              </CardTitle>
+              <CardDescription>{t("cache.description")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CacheSettings />
+            </CardContent>
+          </Card>
+
           {/* Future settings sections can be added here */}
         </div>
       </div>
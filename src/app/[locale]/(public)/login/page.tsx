@@ -8,6 +8,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { isEnvTokenMode } from "@/infrastructure/auth/env.schema";
+import { getEnterpriseHost } from "@/infrastructure/hostConfig";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 
@@ -17,6 +18,7 @@ import { Button } from "@/components/ui/button";
  * Dedicated page for user authentication.
  * Supports two modes:
  * - OAuth Mode: Displays GitHub OAuth sign-in button
+ *   (plus GitHub Enterprise Server sign-in when configured)
  * - Environment Token Mode (dev-only): Shows authenticated status
  *
  * Features:
@@ -38,6 +40,10 @@ export default async function LoginPage({
   const callbackUrl = params.callbackUrl;
   const t = await getTranslations("auth");
   const isEnvToken = isEnvTokenMode();
+  const enterpriseHost = process.env.AUTH_GITHUB_ENTERPRISE_ID
+    ? getEnterpriseHost()
+    : null;
+  const hasGitHubOAuth = !!process.env.AUTH_GITHUB_ID || !enterpriseHost;
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
@@ -69,7 +75,13 @@ export default async function LoginPage({
               <p className="text-sm text-muted-foreground text-center">
                 {t("helpText")}
               </p>
-              <SignInButton />
+              {hasGitHubOAuth && <SignInButton />}
+              {enterpriseHost && (
+                <SignInButton
+                  provider="github-enterprise"
+                  host={enterpriseHost.hostname}
+                />
+              )}
               {callbackUrl && (
                 <p className="text-xs text-muted-foreground text-center">
                   {t("redirectNotice")}
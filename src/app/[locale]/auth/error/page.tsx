@@ -4,7 +4,6 @@ import { useEffect } from "react";
 import { useSearchParams } from "next/navigation";
 import { useRouter } from "@/i18n/navigation";
 import { useTranslations } from "next-intl";
-import { signOut } from "next-auth/react";
 import {
   Card,
   CardContent,
@@ -15,6 +14,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { signOutUser } from "@/presentation/components/auth/signOutUser";
 
 /**
  * Authentication Error Page
@@ -48,7 +48,7 @@ export default function AuthErrorPage() {
 
   // Auto sign-out to clear invalid session and prevent redirect loops
   useEffect(() => {
-    signOut({ redirect: false });
+    signOutUser({ redirect: false });
   }, []);
 
   // Get user-friendly error message based on error code
@@ -12,13 +12,15 @@ import { CalculateMetrics } from "@/application/use-cases/CalculateMetrics";
 import { CalculateThroughputMetrics } from "@/application/use-cases/CalculateThroughputMetrics";
 import { CalculateChangesTimeseries } from "@/application/use-cases/CalculateChangesTimeseries";
 import { CalculateDeploymentFrequency } from "@/application/use-cases/CalculateDeploymentFrequency";
-import { OctokitAdapter } from "@/infrastructure/github/OctokitAdapter";
+import { createGitRepository } from "@/infrastructure/GitRepositoryFactory";
 import { ContributorMapper } from "@/application/mappers/ContributorMapper";
 import { getErrorMessage } from "@/lib/utils/errorUtils";
 import { Result } from "@/lib/result";
 import { logger } from "@/lib/utils/logger";
 import { mapErrorCode } from "./errorMapping";
-import { createSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
+import { getAllowedHosts } from "@/infrastructure/hostConfig";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { getDoraBenchmarkRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
 
 /**
  * Server Action for analyzing a GitHub repository
@@ -46,6 +48,22 @@ export async function analyzeRepository(
       };
     }
 
+    // Resolve the repository host (github.com or a configured GHES host)
+    const allowedHosts = getAllowedHosts();
+    const repositoryUrlResult = RepositoryUrl.create(
+      request.repositoryUrl,
+      allowedHosts,
+    );
+    if (!repositoryUrlResult.ok) {
+      return {
+        ok: false,
+        error: {
+          code: AnalysisErrorCode.INVALID_URL,
+          message: repositoryUrlResult.error.message,
+        },
+      };
+    }
+
     // Parse date range if provided
     let dateRangeStart: Date | undefined;
     let dateRangeEnd: Date | undefined;
@@ -89,15 +107,12 @@ export async function analyzeRepository(
       }
     }
 
-    // Initialize session provider (auto-selects based on environment)
-    const sessionProvider = createSessionProvider();
-
     // Initialize infrastructure dependencies
-    // OctokitAdapter implements IGitHubRepository (unified GitHub operations)
-    const githubAdapter = new OctokitAdapter(sessionProvider);
+    // OctokitAdapter or GitLabAdapter, selected by the repository host
+    const githubAdapter = createGitRepository(repositoryUrlResult.value.host);
 
     // Initialize use cases
-    const fetchGitData = new FetchGitData(githubAdapter);
+    const fetchGitData = new FetchGitData(githubAdapter, allowedHosts);
     const calculateMetrics = new CalculateMetrics();
     const calculateThroughputMetrics = new CalculateThroughputMetrics();
     const calculateChangesTimeseries = new CalculateChangesTimeseries();
@@ -110,6 +125,12 @@ export async function analyzeRepository(
       calculateThroughputMetrics,
       calculateChangesTimeseries,
       calculateDeploymentFrequency,
+      allowedHosts,
+    );
+
+    // DORA levels use the edition selected for the repository's owner
+    const editionResult = await getDoraBenchmarkRepository().getEdition(
+      repositoryUrlResult.value.ownerIdentifier,
     );
 
     // Execute analysis
@@ -117,6 +138,7 @@ export async function analyzeRepository(
       repositoryUrl: request.repositoryUrl,
       dateRangeStart,
       dateRangeEnd,
+      benchmarkEdition: (editionResult.ok && editionResult.value) || undefined,
     });
 
     if (!result.ok) {
@@ -170,7 +192,15 @@ export async function analyzeRepository(
           start: analysis.dateRange.start.toISOString(),
           end: analysis.dateRange.end.toISOString(),
         },
-        status: "completed",
+        ...(analysis.incomplete
+          ? {
+              status: "partial",
+              incomplete: {
+                sections: analysis.incomplete.sections,
+                resumeAt: analysis.incomplete.resumeAt.toISOString(),
+              },
+            }
+          : { status: "completed" }),
       },
       contributors: contributorDtos,
       summary: {
@@ -0,0 +1,42 @@
+import { createAnalyticsDataService } from "@/application/services/analytics";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { isAuthenticated } from "@/infrastructure/auth/sessionGuard";
+import { Result, err } from "@/lib/result";
+
+/**
+ * Check that the signed-in user may use data stored for a repository
+ *
+ * Imported incidents and change failure rules are shared by every user of
+ * the deployment, so they are only read or changed for signed-in users
+ * whose token can read the repository.
+ *
+ * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
+ * @returns Result containing the parsed repository URL or error
+ */
+export async function authorizeRepository(
+  repositoryId: string,
+): Promise<Result<RepositoryUrl>> {
+  if (!(await isAuthenticated())) {
+    return err(new Error("Authentication required"));
+  }
+  return await createAnalyticsDataService().verifyRepositoryAccess(
+    repositoryId,
+  );
+}
+
+/**
+ * Check that the signed-in user may manage data stored for an owner
+ *
+ * Teams and the DORA benchmark edition are shared by every user of the
+ * deployment, so they are only managed by signed-in users who are the
+ * owner or belong to it.
+ *
+ * @param ownerId Owner identifier ("owner" or "host/owner")
+ * @returns Result that fails for anonymous users and non-members
+ */
+export async function authorizeOwner(ownerId: string): Promise<Result<void>> {
+  if (!(await isAuthenticated())) {
+    return err(new Error("Authentication required"));
+  }
+  return await createAnalyticsDataService().verifyOwnerAccess(ownerId);
+}
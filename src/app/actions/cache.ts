@@ -0,0 +1,65 @@
+"use server";
+
+import { CacheStats } from "@/domain/interfaces/ICacheRepository";
+import { createSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
+import {
+  getCacheNamespaceForSession,
+  getServerCacheForSession,
+  getServerCacheRepository,
+  getServerSyncStorage,
+} from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+const EMPTY_STATS: CacheStats = {
+  totalEntries: 0,
+  totalSizeBytes: 0,
+  oldestEntry: null,
+  newestEntry: null,
+};
+
+/**
+ * Server Action for reading server-side cache statistics
+ * Statistics cover the cache partition of the signed-in user only
+ */
+export async function getCacheStats(): Promise<Result<CacheStats>> {
+  try {
+    const cache = await getServerCacheForSession(createSessionProvider());
+    if (!cache) {
+      return ok(EMPTY_STATS);
+    }
+    return ok(await cache.getStats());
+  } catch (error) {
+    logger.error("Server Action: getCacheStats failed", error);
+    return err(
+      new Error(`Failed to read cache statistics: ${getErrorMessage(error)}`),
+    );
+  }
+}
+
+/**
+ * Server Action for clearing the server-side cache
+ * Clears cached responses and incremental sync state of the signed-in user
+ * (in GitHub App mode, sync state belongs to the installations and is kept)
+ */
+export async function clearCache(): Promise<Result<void>> {
+  try {
+    const namespace = await getCacheNamespaceForSession(
+      createSessionProvider(),
+    );
+    if (namespace) {
+      await getServerCacheRepository(namespace).clearAll();
+
+      const syncResult = await getServerSyncStorage(namespace).clear();
+      if (!syncResult.ok) {
+        return err(syncResult.error);
+      }
+    }
+    logger.info("Server Action: clearCache completed");
+    return ok(undefined);
+  } catch (error) {
+    logger.error("Server Action: clearCache failed", error);
+    return err(new Error(`Failed to clear cache: ${getErrorMessage(error)}`));
+  }
+}
@@ -0,0 +1,84 @@
+"use server";
+
+import {
+  ChangeFailureRules,
+  ChangeFailureRulesProps,
+} from "@/domain/value-objects/ChangeFailureRules";
+import { getChangeFailureRulesRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { authorizeRepository } from "./authorization";
+
+/**
+ * Server Action for saving a repository's change failure rules
+ * Rules are validated and normalized before being stored per repository
+ */
+export async function updateChangeFailureRules(
+  repositoryId: string,
+  props: ChangeFailureRulesProps,
+): Promise<Result<ChangeFailureRulesProps>> {
+  if (!ChangeFailureRules.isProps(props)) {
+    return err(new Error("Invalid change failure rules"));
+  }
+
+  const urlResult = await authorizeRepository(repositoryId);
+  if (!urlResult.ok) {
+    return urlResult;
+  }
+
+  try {
+    const rulesResult = ChangeFailureRules.create(props);
+    if (!rulesResult.ok) {
+      return err(rulesResult.error);
+    }
+
+    const saveResult = await getChangeFailureRulesRepository().saveRules(
+      urlResult.value.identifier,
+      rulesResult.value,
+    );
+    if (!saveResult.ok) {
+      return saveResult;
+    }
+    logger.info("Server Action: updateChangeFailureRules completed", {
+      repositoryId: urlResult.value.identifier,
+    });
+    return ok(rulesResult.value.toProps());
+  } catch (error) {
+    logger.error("Server Action: updateChangeFailureRules failed", error);
+    return err(
+      new Error(
+        `Failed to save change failure rules: ${getErrorMessage(error)}`,
+      ),
+    );
+  }
+}
+
+/**
+ * Server Action for restoring a repository's default change failure rules
+ */
+export async function resetChangeFailureRules(
+  repositoryId: string,
+): Promise<Result<ChangeFailureRulesProps>> {
+  const urlResult = await authorizeRepository(repositoryId);
+  if (!urlResult.ok) {
+    return urlResult;
+  }
+
+  try {
+    const removeResult = await getChangeFailureRulesRepository().removeRules(
+      urlResult.value.identifier,
+    );
+    if (!removeResult.ok) {
+      return removeResult;
+    }
+    return ok(ChangeFailureRules.defaults().toProps());
+  } catch (error) {
+    logger.error("Server Action: resetChangeFailureRules failed", error);
+    return err(
+      new Error(
+        `Failed to reset change failure rules: ${getErrorMessage(error)}`,
+      ),
+    );
+  }
+}
@@ -0,0 +1,54 @@
+"use server";
+
+import {
+  DEFAULT_DORA_BENCHMARK_EDITION,
+  DORABenchmark,
+  DORABenchmarkEdition,
+} from "@/domain/value-objects/DORABenchmark";
+import { getDoraBenchmarkRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { authorizeOwner } from "./authorization";
+
+/**
+ * Server Action for selecting an owner's DORA benchmark edition
+ * All DORA levels of the owner's repositories are classified against the
+ * selected edition. The edition is shared by every user of the deployment,
+ * so only the owner or its members may change it (as for teams); the
+ * default edition removes the stored one.
+ */
+export async function updateDoraBenchmark(
+  ownerId: string,
+  edition: string,
+): Promise<Result<DORABenchmarkEdition>> {
+  if (!DORABenchmark.isEdition(edition)) {
+    return err(new Error(`Unknown DORA benchmark edition: ${edition}`));
+  }
+
+  const accessResult = await authorizeOwner(ownerId);
+  if (!accessResult.ok) {
+    return accessResult;
+  }
+
+  try {
+    const repository = getDoraBenchmarkRepository();
+    const saveResult =
+      edition === DEFAULT_DORA_BENCHMARK_EDITION
+        ? await repository.removeEdition(ownerId)
+        : await repository.saveEdition(ownerId, edition);
+    if (!saveResult.ok) {
+      return saveResult;
+    }
+    logger.info("Server Action: updateDoraBenchmark completed", {
+      ownerId,
+      edition,
+    });
+    return ok(edition);
+  } catch (error) {
+    logger.error("Server Action: updateDoraBenchmark failed", error);
+    return err(
+      new Error(`Failed to save DORA benchmark: ${getErrorMessage(error)}`),
+    );
+  }
+}
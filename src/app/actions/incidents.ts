@@ -0,0 +1,85 @@
+"use server";
+
+import {
+  IncidentImportFormat,
+  IncidentImportResult,
+} from "@/application/dto/IncidentImport";
+import { IncidentImportMapper } from "@/application/mappers/IncidentImportMapper";
+import { ImportIncidents } from "@/application/use-cases/ImportIncidents";
+import { getIncidentRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { authorizeRepository } from "./authorization";
+
+/**
+ * Maximum accepted upload size (1 MB)
+ */
+const MAX_IMPORT_SIZE = 1024 * 1024;
+
+/**
+ * Server Action for importing incidents from a JSON or CSV export
+ * Incidents with an id that was imported before are updated
+ */
+export async function importIncidents(
+  repositoryId: string,
+  content: string,
+  format: IncidentImportFormat,
+): Promise<Result<IncidentImportResult>> {
+  if (content.length > MAX_IMPORT_SIZE) {
+    return err(new Error("Incident file is too large (max 1 MB)"));
+  }
+
+  const urlResult = await authorizeRepository(repositoryId);
+  if (!urlResult.ok) {
+    return urlResult;
+  }
+  const repositoryIdentifier = urlResult.value.identifier;
+
+  const recordsResult = IncidentImportMapper.parse(content, format);
+  if (!recordsResult.ok) {
+    return recordsResult;
+  }
+
+  try {
+    const result = await new ImportIncidents(getIncidentRepository()).execute(
+      repositoryIdentifier,
+      recordsResult.value,
+    );
+    if (result.ok) {
+      logger.info("Server Action: importIncidents completed", {
+        repositoryId: repositoryIdentifier,
+        ...result.value,
+      });
+    }
+    return result;
+  } catch (error) {
+    logger.error("Server Action: importIncidents failed", error);
+    return err(
+      new Error(`Failed to import incidents: ${getErrorMessage(error)}`),
+    );
+  }
+}
+
+/**
+ * Server Action for removing all imported incidents of a repository
+ * Incidents derived from deployment statuses are not affected
+ */
+export async function clearIncidents(
+  repositoryId: string,
+): Promise<Result<void>> {
+  const urlResult = await authorizeRepository(repositoryId);
+  if (!urlResult.ok) {
+    return urlResult;
+  }
+  const repositoryIdentifier = urlResult.value.identifier;
+
+  try {
+    return await getIncidentRepository().clearIncidents(repositoryIdentifier);
+  } catch (error) {
+    logger.error("Server Action: clearIncidents failed", error);
+    return err(
+      new Error(`Failed to clear incidents: ${getErrorMessage(error)}`),
+    );
+  }
+}
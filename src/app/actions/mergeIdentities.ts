@@ -15,6 +15,8 @@ import { Result, ok } from "@/lib/result";
 import { logger } from "@/lib/utils/logger";
 import { getErrorMessage } from "@/lib/utils/errorUtils";
 import { saveMergePreference } from "@/lib/utils/mergeCookie";
+import { getAllowedHosts } from "@/infrastructure/hostConfig";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
 
 /**
  * Server Action for merging contributor identities
@@ -110,7 +112,11 @@ export async function mergeIdentities(
     };
 
     // Initialize use case with no-op storage
-    const mergeIdentitiesUseCase = new MergeIdentities(noOpStorage);
+    const allowedHosts = getAllowedHosts();
+    const mergeIdentitiesUseCase = new MergeIdentities(
+      noOpStorage,
+      allowedHosts,
+    );
 
     // Execute merge
     const result = await mergeIdentitiesUseCase.execute({
@@ -159,10 +165,14 @@ export async function mergeIdentities(
     };
 
     // Save merge preference to cookie for persistence across page reloads
-    // Extract repository ID from URL (owner/repo format)
-    const repositoryId = request.repositoryUrl
-      .replace(/^https?:\/\/github\.com\//, "")
-      .replace(/\.git$/, "");
+    // Extract repository ID from URL (owner/repo, or host/owner/repo on GHES)
+    const repositoryUrlResult = RepositoryUrl.create(
+      request.repositoryUrl,
+      allowedHosts,
+    );
+    const repositoryId = repositoryUrlResult.ok
+      ? repositoryUrlResult.value.identifier
+      : request.repositoryUrl;
 
     try {
       await saveMergePreference(repositoryId, {
@@ -0,0 +1,42 @@
+"use server";
+
+import { createContributorAnalysisService } from "@/application/services/analytics";
+import { DateRange } from "@/domain/value-objects/DateRange";
+import { Result, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+/**
+ * Server Action for resuming a partial Team tab analysis
+ *
+ * Drops the cached partial result; the next page render streams a new
+ * analysis, which continues from the checkpoints saved when the rate
+ * limit ran out.
+ */
+export async function resumeAnalysis(
+  repositoryId: string,
+  start: string,
+  end: string,
+): Promise<Result<void>> {
+  const dateRangeResult = DateRange.create(new Date(start), new Date(end));
+  if (!dateRangeResult.ok) {
+    return dateRangeResult;
+  }
+
+  try {
+    const result =
+      await createContributorAnalysisService().invalidateContributors(
+        repositoryId,
+        dateRangeResult.value,
+      );
+    if (result.ok) {
+      logger.info("Server Action: resumeAnalysis completed", { repositoryId });
+    }
+    return result;
+  } catch (error) {
+    logger.error("Server Action: resumeAnalysis failed", error);
+    return err(
+      new Error(`Failed to resume analysis: ${getErrorMessage(error)}`),
+    );
+  }
+}
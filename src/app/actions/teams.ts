@@ -0,0 +1,169 @@
+"use server";
+
+import { createAnalyticsDataService } from "@/application/services/analytics";
+import {
+  TeamImportError,
+  TeamImportResult,
+} from "@/application/dto/TeamResult";
+import { ImportTeams } from "@/application/use-cases/ImportTeams";
+import { SaveTeam, SaveTeamInput } from "@/application/use-cases/SaveTeam";
+import { TeamProps } from "@/domain/value-objects/Team";
+import {
+  TokenCapabilities,
+  TokenKind,
+} from "@/domain/value-objects/TokenCapabilities";
+import { createSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
+import { getTeamRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { MissingScopeError } from "@/lib/errors/MissingScopeError";
+import { authorizeOwner } from "./authorization";
+
+/**
+ * Owner identifiers: "owner", "host/owner" or a nested GitLab group
+ */
+const OWNER_ID = /^[\w.-]+(\/[\w.-]+)*$/;
+
+function validateOwnerId(ownerId: string): Result<string> {
+  return OWNER_ID.test(ownerId)
+    ? ok(ownerId)
+    : err(new Error(`Invalid owner: ${ownerId}`));
+}
+
+/**
+ * Server Action for creating or updating a team defined by hand
+ * Teams are shared by every user of the deployment, so only the owner or
+ * its members may change them (as for deleting and importing).
+ */
+export async function saveTeam(
+  ownerId: string,
+  input: SaveTeamInput,
+): Promise<Result<TeamProps>> {
+  const ownerResult = validateOwnerId(ownerId);
+  if (!ownerResult.ok) {
+    return ownerResult;
+  }
+
+  const accessResult = await authorizeOwner(ownerId);
+  if (!accessResult.ok) {
+    return accessResult;
+  }
+
+  try {
+    const result = await new SaveTeam(getTeamRepository()).execute(
+      ownerId,
+      input,
+    );
+    if (!result.ok) {
+      return result;
+    }
+    logger.info("Server Action: saveTeam completed", {
+      ownerId,
+      teamId: result.value.id,
+    });
+    return ok(result.value.toProps());
+  } catch (error) {
+    logger.error("Server Action: saveTeam failed", error);
+    return err(new Error(`Failed to save team: ${getErrorMessage(error)}`));
+  }
+}
+
+/**
+ * Server Action for deleting a team
+ * An imported team comes back with the next import unless it was removed
+ * on the git host.
+ */
+export async function deleteTeam(
+  ownerId: string,
+  teamId: string,
+): Promise<Result<void>> {
+  const ownerResult = validateOwnerId(ownerId);
+  if (!ownerResult.ok) {
+    return ownerResult;
+  }
+
+  const accessResult = await authorizeOwner(ownerId);
+  if (!accessResult.ok) {
+    return accessResult;
+  }
+
+  try {
+    const result = await getTeamRepository().updateTeams(ownerId, (teams) =>
+      ok(teams.filter((team) => team.id !== teamId)),
+    );
+    if (!result.ok) {
+      return result;
+    }
+    logger.info("Server Action: deleteTeam completed", { ownerId, teamId });
+    return ok(undefined);
+  } catch (error) {
+    logger.error("Server Action: deleteTeam failed", error);
+    return err(new Error(`Failed to delete team: ${getErrorMessage(error)}`));
+  }
+}
+
+/**
+ * Server Action for importing an organization's teams from GitHub
+ * Reading team members requires the read:org scope (or the Members
+ * permission of a GitHub App). It is not requested at sign-in, so a
+ * missing scope is reported with the token kind to explain how to grant it.
+ */
+export async function importGitHubTeams(
+  ownerId: string,
+): Promise<Result<TeamImportResult, TeamImportError>> {
+  const result = await importTeams(ownerId);
+  if (result.ok) {
+    return result;
+  }
+  if (!(result.error instanceof MissingScopeError)) {
+    return err({ message: result.error.message });
+  }
+
+  const tokenResult = await createSessionProvider().getAccessToken();
+  return err({
+    message: result.error.message,
+    missingScope: result.error.scope,
+    tokenKind: tokenResult.ok
+      ? TokenCapabilities.kindOf(tokenResult.value)
+      : TokenKind.UNKNOWN,
+  });
+}
+
+/**
+ * Import the organization's teams for a signed-in member of the owner
+ */
+async function importTeams(ownerId: string): Promise<Result<TeamImportResult>> {
+  const ownerResult = validateOwnerId(ownerId);
+  if (!ownerResult.ok) {
+    return ownerResult;
+  }
+
+  const accessResult = await authorizeOwner(ownerId);
+  if (!accessResult.ok) {
+    return accessResult;
+  }
+
+  try {
+    const teamsResult =
+      await createAnalyticsDataService().getOrganizationTeams(ownerId);
+    if (!teamsResult.ok) {
+      return teamsResult;
+    }
+
+    const result = await new ImportTeams(getTeamRepository()).execute(
+      ownerId,
+      teamsResult.value,
+    );
+    if (result.ok) {
+      logger.info("Server Action: importGitHubTeams completed", {
+        ownerId,
+        ...result.value,
+      });
+    }
+    return result;
+  } catch (error) {
+    logger.error("Server Action: importGitHubTeams failed", error);
+    return err(new Error(`Failed to import teams: ${getErrorMessage(error)}`));
+  }
+}
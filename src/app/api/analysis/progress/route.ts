@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createContributorAnalysisService } from "@/application/services/analytics";
+import type { AnalysisProgressEvent } from "@/domain/interfaces/IAnalysisProgress";
+import { DateRange } from "@/domain/value-objects/DateRange";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { isAuthenticated } from "@/infrastructure/auth/sessionGuard";
+import { getAllowedHosts } from "@/infrastructure/hostConfig";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Events sent to the browser
+ * - progress: AnalysisProgressEvent
+ * - done: the result is cached; reload the Team tab
+ * - error: `{ message }`; the analysis failed
+ */
+type StreamEvent =
+  | { event: "progress"; data: AnalysisProgressEvent }
+  | { event: "done"; data: { contributorCount: number } }
+  | { event: "error"; data: { message: string } };
+
+/**
+ * Encode an event in Server-Sent Events format
+ */
+function formatEvent({ event, data }: StreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Analysis Progress Route Handler (Server-Sent Events)
+ *
+ * GET /api/analysis/progress?repository={owner/repo | host/owner/repo}&start={ISO}&end={ISO}
+ *
+ * Runs the Team tab's contributor analysis and streams its progress
+ * (stages, pages fetched, PRs processed, rate limit waits). The result is
+ * stored in the response cache, so the Team tab renders it after `done`.
+ *
+ * Closing the connection (EventSource.close()) cancels the analysis:
+ * the abort reaches the GitHub adapter's pagination loops and waits.
+ *
+ * Requires a signed-in user (the middleware does not cover /api).
+ */
+export async function GET(request: NextRequest) {
+  if (!(await isAuthenticated())) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  const repositoryId = params.get("repository") ?? "";
+  const urlResult = RepositoryUrl.fromIdentifier(
+    repositoryId,
+    getAllowedHosts(),
+  );
+  if (!urlResult.ok) {
+    return NextResponse.json(
+      { error: `Invalid repository: ${repositoryId}` },
+      { status: 400 },
+    );
+  }
+
+  const dateRangeResult = DateRange.create(
+    new Date(params.get("start") ?? ""),
+    new Date(params.get("end") ?? ""),
+  );
+  if (!dateRangeResult.ok) {
+    return NextResponse.json(
+      { error: dateRangeResult.error.message },
+      { status: 400 },
+    );
+  }
+
+  const abortController = new AbortController();
+  request.signal.addEventListener("abort", () => abortController.abort());
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // A stale cached result is revalidated in the background after the
+      // stream has closed; its progress is not sent anywhere
+      let closed = false;
+      const send = (event: StreamEvent) => {
+        if (!closed && !abortController.signal.aborted) {
+          controller.enqueue(encoder.encode(formatEvent(event)));
+        }
+      };
+
+      try {
+        const result = await createContributorAnalysisService().getContributors(
+          urlResult.value.identifier,
+          dateRangeResult.value,
+          {
+            signal: abortController.signal,
+            onProgress: (data) => send({ event: "progress", data }),
+          },
+        );
+
+        if (result.ok) {
+          send({
+            event: "done",
+            data: { contributorCount: result.value.contributors.length },
+          });
+        } else if (!abortController.signal.aborted) {
+          send({ event: "error", data: { message: result.error.message } });
+        }
+      } catch (error) {
+        logger.error("Analysis progress stream failed", {
+          error: getErrorMessage(error),
+        });
+        send({ event: "error", data: { message: getErrorMessage(error) } });
+      } finally {
+        if (abortController.signal.aborted) {
+          logger.info("Analysis cancelled by client", {
+            repositoryId: urlResult.value.identifier,
+          });
+        } else {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { IncidentImportMapper } from "@/application/mappers/IncidentImportMapper";
+import { ImportIncidents } from "@/application/use-cases/ImportIncidents";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { getAllowedHosts } from "@/infrastructure/hostConfig";
+import { getIncidentRepository } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+/**
+ * Check the bearer token against INCIDENT_WEBHOOK_SECRET in constant time
+ */
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const header = request.headers.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Incident Webhook Route Handler
+ *
+ * POST /api/incidents?repository={owner/repo | host/owner/repo}
+ * Authorization: Bearer {INCIDENT_WEBHOOK_SECRET}
+ *
+ * Accepts a single incident, an array, or `{ "incidents": [...] }` with
+ * open and resolve timestamps (e.g. forwarded from PagerDuty or Opsgenie).
+ * Incidents are upserted by id: send `openedAt` when an incident starts
+ * and `resolvedAt` with the same id when it is resolved.
+ *
+ * The endpoint is disabled (404) unless INCIDENT_WEBHOOK_SECRET is set.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.INCIDENT_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const repositoryId = request.nextUrl.searchParams.get("repository") ?? "";
+  const urlResult = RepositoryUrl.fromIdentifier(
+    repositoryId,
+    getAllowedHosts(),
+  );
+  if (!urlResult.ok) {
+    return NextResponse.json(
+      { error: `Invalid repository: ${repositoryId}` },
+      { status: 400 },
+    );
+  }
+
+  const recordsResult = IncidentImportMapper.fromJson(await request.text());
+  if (!recordsResult.ok) {
+    return NextResponse.json(
+      { error: recordsResult.error.message },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await new ImportIncidents(getIncidentRepository()).execute(
+      urlResult.value.identifier,
+      recordsResult.value,
+    );
+    if (!result.ok) {
+      logger.error("Incident webhook failed", { error: result.error.message });
+      return NextResponse.json(
+        { error: result.error.message },
+        { status: 500 },
+      );
+    }
+    return NextResponse.json(result.value);
+  } catch (error) {
+    logger.error("Incident webhook failed", { error: getErrorMessage(error) });
+    return NextResponse.json(
+      { error: "Failed to store incidents" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { Result, err } from "@/lib/result";
+import {
+  GitCommit,
+  PullRequest,
+  ReviewComment,
+} from "@/domain/interfaces/IGitHubRepository";
+import { Contributor } from "@/domain/entities/Contributor";
+import { Email } from "@/domain/value-objects/Email";
+import { ImplementationActivity } from "@/domain/value-objects/ImplementationActivity";
+import { ReviewActivity } from "@/domain/value-objects/ReviewActivity";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Running totals of one contributor
+ */
+interface ContributorTally {
+  displayName?: string; // Author name of the first commit
+  commitCount: number;
+  linesAdded: number;
+  linesDeleted: number;
+  filesChanged: number;
+  authoredPRs: Set<number>;
+  reviewedPRs: Set<number>; // PRs with a submitted review by the contributor
+  commentsByPR: Map<number, number>; // Review comments per PR
+}
+
+/**
+ * Incremental contributor metrics
+ *
+ * Commits, PRs and review comments are added one at a time (in any order)
+ * and folded into per-contributor totals, so a streamed history never has
+ * to be held in memory. Contributors are keyed by commit email or by
+ * GitHub username.
+ *
+ * Usage:
+ * ```typescript
+ * const aggregator = new ContributorMetricsAggregator();
+ * for await (const commit of repository.streamLog(url)) {
+ *   aggregator.addCommit(commit);
+ * }
+ * const contributors = aggregator.build();
+ * ```
+ */
+export class ContributorMetricsAggregator {
+  private readonly tallies = new Map<string, ContributorTally>();
+
+  /**
+   * Number of contributors seen so far
+   */
+  get size(): number {
+    return this.tallies.size;
+  }
+
+  addCommit(commit: GitCommit): void {
+    const tally = this.tally(commit.email);
+    tally.displayName ??= commit.author;
+    tally.commitCount++;
+    tally.linesAdded += commit.linesAdded;
+    tally.linesDeleted += commit.linesDeleted;
+    tally.filesChanged += commit.filesChanged;
+  }
+
+  /**
+   * Add a PR for its author and its reviewers
+   * Reviews on one's own PR are not counted.
+   */
+  addPullRequest(pr: PullRequest): void {
+    this.tally(pr.author).authoredPRs.add(pr.number);
+
+    for (const review of pr.reviews ?? []) {
+      if (review.author.toLowerCase() !== pr.author.toLowerCase()) {
+        this.tally(review.author).reviewedPRs.add(pr.number);
+      }
+    }
+  }
+
+  addReviewComment(comment: ReviewComment): void {
+    const { commentsByPR } = this.tally(comment.author);
+    commentsByPR.set(
+      comment.pullRequestNumber,
+      (commentsByPR.get(comment.pullRequestNumber) ?? 0) + 1,
+    );
+  }
+
+  /**
+   * Create contributors from the totals so far
+   * Contributors that fail validation are logged and skipped.
+   */
+  build(): Contributor[] {
+    const contributors: Contributor[] = [];
+
+    for (const [key, tally] of this.tallies) {
+      const contributorResult = this.createContributor(key, tally);
+      if (contributorResult.ok) {
+        contributors.push(contributorResult.value);
+      } else {
+        logger.warn(`Failed to create contributor for ${key}`, {
+          error: contributorResult.error.message,
+        });
+      }
+    }
+
+    return contributors;
+  }
+
+  private tally(identifier: string): ContributorTally {
+    const key = identifier.toLowerCase();
+    let tally = this.tallies.get(key);
+    if (!tally) {
+      tally = {
+        commitCount: 0,
+        linesAdded: 0,
+        linesDeleted: 0,
+        filesChanged: 0,
+        authoredPRs: new Set(),
+        reviewedPRs: new Set(),
+        commentsByPR: new Map(),
+      };
+      this.tallies.set(key, tally);
+    }
+    return tally;
+  }
+
+  /**
+   * Create a Contributor entity from a contributor's totals
+   */
+  private createContributor(
+    identifier: string,
+    tally: ContributorTally,
+  ): Result<Contributor> {
+    // Use email if it looks like an email, otherwise use as display name
+    const isEmail = identifier.includes("@");
+    const emailStr = isEmail ? identifier : `${identifier}@github.local`;
+    const displayName = isEmail ? tally.displayName || identifier : identifier;
+
+    const emailResult = Email.create(emailStr);
+    if (!emailResult.ok) {
+      return err(emailResult.error);
+    }
+
+    const implActivityResult = ImplementationActivity.create({
+      commitCount: tally.commitCount,
+      linesAdded: tally.linesAdded,
+      linesDeleted: tally.linesDeleted,
+      linesModified: 0,
+      filesChanged: tally.filesChanged,
+    });
+    if (!implActivityResult.ok) {
+      return err(implActivityResult.error);
+    }
+
+    const reviewActivityResult = this.calculateReviewActivity(tally);
+    if (!reviewActivityResult.ok) {
+      return err(reviewActivityResult.error);
+    }
+
+    return Contributor.create({
+      id: `contributor-${identifier.replace(/[^a-zA-Z0-9]/g, "-")}`,
+      primaryEmail: emailResult.value,
+      mergedEmails: [],
+      displayName,
+      implementationActivity: implActivityResult.value,
+      reviewActivity: reviewActivityResult.value,
+      activityTimeline: [], // Timeline can be added later if needed
+    });
+  }
+
+  /**
+   * Calculate review activity from PRs, submitted reviews and comments
+   * Excludes comments on user's own PRs from review metrics
+   *
+   * A PR counts as reviewed when the user submitted a review on it (e.g. an
+   * approval without comments) or commented on it. Comments are still needed
+   * for providers that do not report reviews.
+   */
+  private calculateReviewActivity(
+    tally: ContributorTally,
+  ): Result<ReviewActivity> {
+    const reviewedPRs = new Set(tally.reviewedPRs);
+    let reviewCommentCount = 0;
+
+    for (const [prNumber, count] of tally.commentsByPR) {
+      if (!tally.authoredPRs.has(prNumber)) {
+        reviewCommentCount += count;
+        reviewedPRs.add(prNumber);
+      }
+    }
+
+    return ReviewActivity.create({
+      pullRequestCount: tally.authoredPRs.size,
+      reviewCommentCount,
+      pullRequestsReviewed: reviewedPRs.size,
+    });
+  }
+}
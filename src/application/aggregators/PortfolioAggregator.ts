@@ -0,0 +1,316 @@
+import { format, startOfWeek } from "date-fns";
+import { GitCommit, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import { Email } from "@/domain/value-objects/Email";
+import type { DateRange } from "@/domain/value-objects/DateRange";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "@/domain/value-objects/PullRequestDateFilter";
+import type { AnalysisSection } from "@/domain/types";
+import type {
+  PortfolioContributor,
+  PortfolioResult,
+  PortfolioWeek,
+  RepositoryBreakdown,
+} from "@/application/dto/PortfolioResult";
+
+/**
+ * Activity of one repository within the portfolio's date range
+ */
+export interface RepositoryActivity {
+  repositoryId: string;
+  pullRequests: PullRequest[]; // Opened, merged or closed in the range
+  commits: GitCommit[];
+  deployments: DeploymentEvent[];
+  incompleteSections: AnalysisSection[];
+}
+
+/**
+ * Running totals of one contributor identity
+ */
+interface IdentityTally {
+  displayName: string;
+  names: Set<string>; // Lowercased commit author names
+  commitCount: number;
+  pullRequests: Set<string>; // "repositoryId#number"
+  linesAdded: number;
+  linesDeleted: number;
+  repositories: Set<string>;
+}
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Metrics combined across a set of repositories
+ *
+ * Repositories are added one at a time (in portfolio order) and folded
+ * into totals, weekly buckets and contributor identities. Contributors are
+ * matched across repositories by:
+ * - commit email (case-insensitive)
+ * - GitHub username, including the one in noreply commit emails
+ * - commit author name equal to a GitHub username seen in any repository
+ *
+ * Repositories that failed are listed in the breakdown and left out of
+ * the totals.
+ *
+ * Usage:
+ * ```typescript
+ * const aggregator = new PortfolioAggregator(dateRange);
+ * aggregator.addRepository({ repositoryId, pullRequests, commits, deployments, incompleteSections: [] });
+ * aggregator.addFailure("owner/other", "Repository not found");
+ * const portfolio = aggregator.build();
+ * ```
+ */
+export class PortfolioAggregator {
+  private readonly repositories: Array<
+    Omit<RepositoryBreakdown, "contributors">
+  > = [];
+  private readonly weeks = new Map<string, PortfolioWeek>();
+  private readonly identities = new Map<string, IdentityTally>();
+  private openedPullRequests = 0;
+  private openedAndMerged = 0;
+  private activity = 0;
+  private readonly weekCount: number;
+
+  constructor(private readonly dateRange: DateRange) {
+    const durationDays = Math.max(
+      1,
+      Math.ceil(
+        (dateRange.end.getTime() - dateRange.start.getTime()) /
+          (1000 * 60 * 60 * 24),
+      ),
+    );
+    this.weekCount = Math.max(1, durationDays / 7);
+
+    // Every week in the range, so quiet weeks show as zero
+    let week = startOfWeek(dateRange.start, { weekStartsOn: 1 });
+    const lastWeek = startOfWeek(dateRange.end, { weekStartsOn: 1 });
+    while (week <= lastWeek) {
+      const weekStart = format(week, "yyyy-MM-dd");
+      this.weeks.set(weekStart, {
+        weekStart,
+        deploymentCount: 0,
+        mergedPullRequests: 0,
+      });
+      week = new Date(week);
+      week.setDate(week.getDate() + 7);
+    }
+  }
+
+  addRepository(activity: RepositoryActivity): void {
+    const { repositoryId, pullRequests, commits, deployments } = activity;
+    const merged = PullRequestDateFilter.create(
+      PullRequestDateSemantics.MERGED,
+      this.dateRange.start,
+      this.dateRange.end,
+    ).apply(pullRequests);
+    const opened = PullRequestDateFilter.create(
+      PullRequestDateSemantics.CREATED,
+      this.dateRange.start,
+      this.dateRange.end,
+    ).apply(pullRequests);
+    const openedAndMerged = opened.filter((pr) => pr.state === "merged").length;
+
+    this.openedPullRequests += opened.length;
+    this.openedAndMerged += openedAndMerged;
+    this.activity += commits.length + pullRequests.length;
+
+    for (const deployment of deployments) {
+      this.week(deployment.timestamp).deploymentCount++;
+    }
+    for (const pr of merged) {
+      if (pr.mergedAt) {
+        this.week(pr.mergedAt).mergedPullRequests++;
+      }
+    }
+
+    for (const commit of commits) {
+      const tally = this.tally(this.commitIdentity(commit), commit.author);
+      tally.names.add(commit.author.toLowerCase());
+      tally.commitCount++;
+      tally.linesAdded += commit.linesAdded;
+      tally.linesDeleted += commit.linesDeleted;
+      tally.repositories.add(repositoryId);
+    }
+    for (const pr of pullRequests) {
+      const tally = this.tally(pr.author.toLowerCase(), pr.author);
+      tally.pullRequests.add(`${repositoryId}#${pr.number}`);
+      tally.repositories.add(repositoryId);
+    }
+
+    this.repositories.push({
+      repositoryId,
+      deployments: deployments.length,
+      deploymentsPerWeek: round1(deployments.length / this.weekCount),
+      mergedPullRequests: merged.length,
+      mergeRate:
+        opened.length > 0
+          ? Math.round((openedAndMerged / opened.length) * 100)
+          : 0,
+      commits: commits.length,
+      incompleteSections: activity.incompleteSections,
+    });
+  }
+
+  /**
+   * Record a repository that could not be fetched
+   */
+  addFailure(repositoryId: string, error: string): void {
+    this.repositories.push({
+      repositoryId,
+      deployments: 0,
+      deploymentsPerWeek: 0,
+      mergedPullRequests: 0,
+      mergeRate: 0,
+      commits: 0,
+      incompleteSections: [],
+      error,
+    });
+  }
+
+  build(): PortfolioResult {
+    const contributors = this.matchIdentities();
+    const weeks = [...this.weeks.values()].sort((a, b) =>
+      a.weekStart.localeCompare(b.weekStart),
+    );
+    const deployments = this.repositories.reduce(
+      (sum, repository) => sum + repository.deployments,
+      0,
+    );
+    const mergedPullRequests = this.repositories.reduce(
+      (sum, repository) => sum + repository.mergedPullRequests,
+      0,
+    );
+
+    return {
+      totals: {
+        deployments,
+        deploymentsPerWeek: round1(deployments / this.weekCount),
+        mergedPullRequests,
+        mergeRate:
+          this.openedPullRequests > 0
+            ? Math.round((this.openedAndMerged / this.openedPullRequests) * 100)
+            : 0,
+        activity: this.activity,
+        activityPerWeek: round1(this.activity / this.weekCount),
+        contributors: contributors.length,
+      },
+      weeks,
+      contributors,
+      repositories: this.repositories.map((repository) => ({
+        ...repository,
+        contributors: contributors.filter((contributor) =>
+          contributor.repositories.includes(repository.repositoryId),
+        ).length,
+      })),
+    };
+  }
+
+  /**
+   * Identity of a commit author: the GitHub username of noreply emails,
+   * otherwise the lowercased email
+   */
+  private commitIdentity(commit: GitCommit): string {
+    const email = Email.create(commit.email);
+    return (email.ok && email.value.noreplyLogin) || commit.email.toLowerCase();
+  }
+
+  /**
+   * Fold email identities into the GitHub username their commits are
+   * authored under, then list contributors (most active first)
+   */
+  private matchIdentities(): PortfolioContributor[] {
+    const matched = new Map(
+      [...this.identities].map(([key, tally]) => [
+        key,
+        {
+          ...tally,
+          names: new Set(tally.names),
+          pullRequests: new Set(tally.pullRequests),
+          repositories: new Set(tally.repositories),
+        },
+      ]),
+    );
+
+    for (const [key, tally] of this.identities) {
+      if (!key.includes("@")) {
+        continue;
+      }
+      const login = [...tally.names].find(
+        (name) => !name.includes("@") && this.identities.has(name),
+      );
+      const target = login ? matched.get(login) : undefined;
+      if (!target) {
+        continue;
+      }
+
+      target.commitCount += tally.commitCount;
+      target.linesAdded += tally.linesAdded;
+      target.linesDeleted += tally.linesDeleted;
+      tally.names.forEach((name) => target.names.add(name));
+      tally.pullRequests.forEach((pr) => target.pullRequests.add(pr));
+      tally.repositories.forEach((repository) =>
+        target.repositories.add(repository),
+      );
+      matched.delete(key);
+    }
+
+    const order = this.repositories.map(
+      (repository) => repository.repositoryId,
+    );
+    return [...matched.entries()]
+      .map(([id, tally]) => ({
+        id,
+        displayName: tally.displayName,
+        commitCount: tally.commitCount,
+        pullRequestCount: tally.pullRequests.size,
+        linesAdded: tally.linesAdded,
+        linesDeleted: tally.linesDeleted,
+        repositories: order.filter((repository) =>
+          tally.repositories.has(repository),
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          b.commitCount +
+          b.pullRequestCount -
+          (a.commitCount + a.pullRequestCount),
+      );
+  }
+
+  private tally(key: string, displayName: string): IdentityTally {
+    let tally = this.identities.get(key);
+    if (!tally) {
+      tally = {
+        displayName,
+        names: new Set(),
+        commitCount: 0,
+        pullRequests: new Set(),
+        linesAdded: 0,
+        linesDeleted: 0,
+        repositories: new Set(),
+      };
+      this.identities.set(key, tally);
+    }
+    return tally;
+  }
+
+  private week(date: Date): PortfolioWeek {
+    const weekStart = format(
+      startOfWeek(date, { weekStartsOn: 1 }),
+      "yyyy-MM-dd",
+    );
+    let week = this.weeks.get(weekStart);
+    if (!week) {
+      week = { weekStart, deploymentCount: 0, mergedPullRequests: 0 };
+      this.weeks.set(weekStart, week);
+    }
+    return week;
+  }
+}
@@ -0,0 +1,46 @@
+import { Result, err } from "@/lib/result";
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { PRThroughput, DateRange } from "@/domain/entities/PRThroughput";
+import { PRThroughputData } from "@/domain/value-objects/PRThroughputData";
+
+/**
+ * Incremental PR throughput (lead times and size buckets)
+ *
+ * Merged PRs are added one at a time; only their throughput data (number,
+ * title, author, dates and change counts) is kept, not the PRs themselves.
+ * Lead time medians and the scatter plot need every merged PR, so this
+ * is the smallest state the throughput analysis can be built from.
+ *
+ * The first invalid merged PR fails the build, as PRThroughput.create does.
+ */
+export class ThroughputAggregator {
+  private readonly prData: PRThroughputData[] = [];
+  private error?: Error;
+
+  add(pr: PullRequest): void {
+    if (this.error) {
+      return;
+    }
+
+    const prDataResult = PRThroughput.toThroughputData(pr);
+    if (!prDataResult.ok) {
+      this.error = prDataResult.error;
+    } else if (prDataResult.value) {
+      this.prData.push(prDataResult.value);
+    }
+  }
+
+  /**
+   * Create the throughput analysis from the merged PRs so far
+   *
+   * @param repositoryUrl - Repository URL for context
+   * @param dateRange - Date range of analysis
+   * @returns Result with PRThroughput entity or error
+   */
+  build(repositoryUrl: string, dateRange: DateRange): Result<PRThroughput> {
+    if (this.error) {
+      return err(this.error);
+    }
+    return PRThroughput.fromData(repositoryUrl, [...this.prData], dateRange);
+  }
+}
@@ -0,0 +1,52 @@
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import {
+  WeeklyAggregate,
+  WeeklyChangeTotals,
+} from "@/domain/value-objects/WeeklyAggregate";
+
+/**
+ * Incremental weekly PR change totals
+ *
+ * Merged PRs are added one at a time and summed per ISO week (Monday start)
+ * of their merge date; only the totals of each week are kept.
+ * PRs without mergedAt, additions, deletions or changedFiles are ignored.
+ */
+export class WeeklyChangesAggregator {
+  private readonly weeks = new Map<string, WeeklyChangeTotals>();
+
+  add(pr: PullRequest): void {
+    if (
+      !pr.mergedAt ||
+      pr.additions === undefined ||
+      pr.deletions === undefined ||
+      pr.changedFiles === undefined
+    ) {
+      return;
+    }
+
+    const weekKey = WeeklyAggregate.getWeekStart(pr.mergedAt).toISOString();
+    const totals = this.weeks.get(weekKey) ?? {
+      additions: 0,
+      deletions: 0,
+      changedFiles: 0,
+      prCount: 0,
+    };
+
+    totals.additions += pr.additions;
+    totals.deletions += pr.deletions;
+    totals.changedFiles += pr.changedFiles;
+    totals.prCount++;
+    this.weeks.set(weekKey, totals);
+  }
+
+  /**
+   * Weekly aggregates so far, in chronological order
+   */
+  build(): WeeklyAggregate[] {
+    return Array.from(this.weeks.keys())
+      .sort()
+      .map((weekKey) =>
+        WeeklyAggregate.fromTotals(new Date(weekKey), this.weeks.get(weekKey)!),
+      );
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { ContributorMetricsAggregator } from "../ContributorMetricsAggregator";
+import {
+  GitCommit,
+  PullRequest,
+  ReviewComment,
+  ReviewState,
+} from "@/domain/interfaces/IGitHubRepository";
+
+function createCommit(overrides: Partial<GitCommit> = {}): GitCommit {
+  return {
+    hash: "abc123",
+    author: "Alice",
+    email: "alice@example.com",
+    date: new Date("2024-01-01"),
+    message: "Commit",
+    filesChanged: 2,
+    linesAdded: 10,
+    linesDeleted: 5,
+    ...overrides,
+  };
+}
+
+function createPR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    number: 1,
+    title: "PR",
+    author: "alice",
+    createdAt: new Date("2024-01-01"),
+    state: "open",
+    reviewCommentCount: 0,
+    ...overrides,
+  };
+}
+
+function createComment(overrides: Partial<ReviewComment> = {}): ReviewComment {
+  return {
+    id: 1,
+    author: "bob",
+    createdAt: new Date("2024-01-02"),
+    body: "Looks good",
+    pullRequestNumber: 1,
+    ...overrides,
+  };
+}
+
+describe("ContributorMetricsAggregator", () => {
+  it("should sum commits by email", () => {
+    const aggregator = new ContributorMetricsAggregator();
+    aggregator.addCommit(createCommit());
+    aggregator.addCommit(
+      createCommit({ hash: "def456", email: "ALICE@example.com" }),
+    );
+
+    const [contributor] = aggregator.build();
+
+    expect(aggregator.size).toBe(1);
+    expect(contributor?.displayName).toBe("Alice");
+    expect(contributor?.implementationActivity.commitCount).toBe(2);
+    expect(contributor?.implementationActivity.linesAdded).toBe(20);
+    expect(contributor?.implementationActivity.filesChanged).toBe(4);
+  });
+
+  it("should exclude comments on own PRs whichever arrives first", () => {
+    const aggregator = new ContributorMetricsAggregator();
+    aggregator.addReviewComment(
+      createComment({ author: "bob", pullRequestNumber: 2 }),
+    );
+    aggregator.addReviewComment(
+      createComment({ id: 2, author: "bob", pullRequestNumber: 1 }),
+    );
+    aggregator.addPullRequest(createPR({ number: 2, author: "bob" }));
+
+    const bob = aggregator.build().find((c) => c.displayName === "bob");
+
+    expect(bob?.reviewActivity.pullRequestCount).toBe(1);
+    expect(bob?.reviewActivity.reviewCommentCount).toBe(1);
+    expect(bob?.reviewActivity.pullRequestsReviewed).toBe(1);
+  });
+
+  it("should count submitted reviews on others' PRs as reviewed", () => {
+    const aggregator = new ContributorMetricsAggregator();
+    aggregator.addPullRequest(
+      createPR({
+        number: 3,
+        author: "alice",
+        reviews: [
+          {
+            author: "carol",
+            state: ReviewState.APPROVED,
+            submittedAt: new Date("2024-01-03"),
+          },
+          {
+            author: "alice",
+            state: ReviewState.COMMENTED,
+            submittedAt: new Date("2024-01-03"),
+          },
+        ],
+      }),
+    );
+
+    const contributors = aggregator.build();
+    const alice = contributors.find((c) => c.displayName === "alice");
+    const carol = contributors.find((c) => c.displayName === "carol");
+
+    expect(alice?.reviewActivity.pullRequestsReviewed).toBe(0);
+    expect(carol?.reviewActivity.pullRequestsReviewed).toBe(1);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import { PortfolioAggregator } from "../PortfolioAggregator";
+import { GitCommit, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { DateRange } from "@/domain/value-objects/DateRange";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import { AnalysisSection } from "@/domain/types";
+
+const RANGE = DateRange.create(
+  new Date("2024-01-01T00:00:00Z"),
+  new Date("2024-01-15T00:00:00Z"),
+);
+
+function dateRange(): DateRange {
+  if (!RANGE.ok) {
+    throw RANGE.error;
+  }
+  return RANGE.value;
+}
+
+function createCommit(overrides: Partial<GitCommit> = {}): GitCommit {
+  return {
+    hash: "abc123",
+    author: "Alice",
+    email: "alice@example.com",
+    date: new Date("2024-01-03T10:00:00Z"),
+    message: "Commit",
+    filesChanged: 1,
+    linesAdded: 10,
+    linesDeleted: 5,
+    ...overrides,
+  };
+}
+
+function createPR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    number: 1,
+    title: "PR",
+    author: "alice",
+    createdAt: new Date("2024-01-02T10:00:00Z"),
+    mergedAt: new Date("2024-01-03T10:00:00Z"),
+    state: "merged",
+    reviewCommentCount: 0,
+    ...overrides,
+  };
+}
+
+function createDeployment(id: string, createdAt: string): DeploymentEvent {
+  return DeploymentEvent.fromDeployment({
+    id,
+    createdAt,
+    environment: "production",
+    state: "active",
+    ref: null,
+    latestStatus: null,
+  });
+}
+
+describe("PortfolioAggregator", () => {
+  it("should combine totals and break them down per repository", () => {
+    const aggregator = new PortfolioAggregator(dateRange());
+    aggregator.addRepository({
+      repositoryId: "acme/api",
+      pullRequests: [
+        createPR(),
+        createPR({ number: 2, state: "open", mergedAt: undefined }),
+      ],
+      commits: [createCommit()],
+      deployments: [
+        createDeployment("1", "2024-01-02T12:00:00Z"),
+        createDeployment("2", "2024-01-09T12:00:00Z"),
+      ],
+      incompleteSections: [],
+    });
+    aggregator.addRepository({
+      repositoryId: "acme/web",
+      pullRequests: [createPR({ author: "bob" })],
+      commits: [],
+      deployments: [createDeployment("3", "2024-01-10T12:00:00Z")],
+      incompleteSections: [AnalysisSection.COMMITS],
+    });
+    aggregator.addFailure("acme/gone", "Repository not found");
+
+    const portfolio = aggregator.build();
+
+    expect(portfolio.totals).toEqual({
+      deployments: 3,
+      deploymentsPerWeek: 1.5,
+      mergedPullRequests: 2,
+      mergeRate: 67,
+      activity: 4,
+      activityPerWeek: 2,
+      contributors: 2,
+    });
+    expect(
+      portfolio.weeks.map((week) => [
+        week.weekStart,
+        week.deploymentCount,
+        week.mergedPullRequests,
+      ]),
+    ).toEqual([
+      ["2024-01-01", 1, 2],
+      ["2024-01-08", 2, 0],
+      ["2024-01-15", 0, 0],
+    ]);
+    expect(portfolio.repositories).toEqual([
+      expect.objectContaining({
+        repositoryId: "acme/api",
+        deployments: 2,
+        mergedPullRequests: 1,
+        mergeRate: 50,
+        commits: 1,
+        contributors: 1,
+      }),
+      expect.objectContaining({
+        repositoryId: "acme/web",
+        deployments: 1,
+        contributors: 1,
+        incompleteSections: [AnalysisSection.COMMITS],
+      }),
+      expect.objectContaining({
+        repositoryId: "acme/gone",
+        error: "Repository not found",
+        contributors: 0,
+      }),
+    ]);
+  });
+
+  it("should match contributors across repositories", () => {
+    const aggregator = new PortfolioAggregator(dateRange());
+    aggregator.addRepository({
+      repositoryId: "acme/api",
+      pullRequests: [createPR({ author: "alice" })],
+      commits: [
+        createCommit({ author: "alice", email: "alice@work.example" }),
+        createCommit({
+          hash: "def",
+          author: "Bob",
+          email: "1234+bob@users.noreply.github.com",
+        }),
+      ],
+      deployments: [],
+      incompleteSections: [],
+    });
+    aggregator.addRepository({
+      repositoryId: "acme/web",
+      pullRequests: [createPR({ number: 1, author: "Bob" })],
+      commits: [createCommit({ author: "alice", email: "ALICE@work.example" })],
+      deployments: [],
+      incompleteSections: [],
+    });
+
+    const portfolio = aggregator.build();
+
+    expect(portfolio.totals.contributors).toBe(2);
+    expect(
+      portfolio.contributors.map((contributor) => ({
+        id: contributor.id,
+        commits: contributor.commitCount,
+        pullRequests: contributor.pullRequestCount,
+        repositories: contributor.repositories,
+      })),
+    ).toEqual([
+      {
+        id: "alice",
+        commits: 2,
+        pullRequests: 1,
+        repositories: ["acme/api", "acme/web"],
+      },
+      {
+        id: "bob",
+        commits: 1,
+        pullRequests: 1,
+        repositories: ["acme/api", "acme/web"],
+      },
+    ]);
+    expect(portfolio.repositories.map((r) => r.contributors)).toEqual([2, 2]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { ThroughputAggregator } from "../ThroughputAggregator";
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { SizeBucketType } from "@/domain/value-objects/SizeBucket";
+
+const dateRange = {
+  start: new Date("2024-01-01T00:00:00Z"),
+  end: new Date("2024-01-31T00:00:00Z"),
+};
+
+function createPR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    number: 1,
+    title: "PR",
+    author: "alice",
+    createdAt: new Date("2024-01-02T00:00:00Z"),
+    state: "merged",
+    reviewCommentCount: 0,
+    mergedAt: new Date("2024-01-03T00:00:00Z"),
+    additions: 20,
+    deletions: 10,
+    changedFiles: 2,
+    ...overrides,
+  };
+}
+
+describe("ThroughputAggregator", () => {
+  it("should build size buckets from merged PRs only", () => {
+    const aggregator = new ThroughputAggregator();
+    aggregator.add(createPR({ number: 1 }));
+    aggregator.add(createPR({ number: 2, additions: 400 }));
+    aggregator.add(createPR({ number: 3, state: "open", mergedAt: undefined }));
+
+    const result = aggregator.build("https://github.com/owner/repo", dateRange);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.totalMergedPRs).toBe(2);
+      const counts = result.value.sizeBuckets.map((b) => [b.bucket, b.prCount]);
+      expect(counts).toEqual([
+        [SizeBucketType.S, 1],
+        [SizeBucketType.M, 0],
+        [SizeBucketType.L, 1],
+        [SizeBucketType.XL, 0],
+      ]);
+      expect(result.value.averageLeadTimeHours).toBe(24);
+    }
+  });
+
+  it("should fail the build on a merged PR without change counts", () => {
+    const aggregator = new ThroughputAggregator();
+    aggregator.add(createPR({ number: 7, additions: undefined }));
+    aggregator.add(createPR({ number: 8 }));
+
+    const result = aggregator.build("https://github.com/owner/repo", dateRange);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toContain("PR #7 is missing additions");
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { WeeklyChangesAggregator } from "../WeeklyChangesAggregator";
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+
+function createMergedPR(mergedAt: string, additions: number): PullRequest {
+  return {
+    number: 1,
+    title: "PR",
+    author: "alice",
+    createdAt: new Date("2024-01-01T00:00:00"),
+    state: "merged",
+    reviewCommentCount: 0,
+    mergedAt: new Date(mergedAt),
+    additions,
+    deletions: 10,
+    changedFiles: 2,
+  };
+}
+
+describe("WeeklyChangesAggregator", () => {
+  it("should sum merged PRs per week in chronological order", () => {
+    const aggregator = new WeeklyChangesAggregator();
+    aggregator.add(createMergedPR("2024-01-17T12:00:00", 30)); // Week of Jan 15
+    aggregator.add(createMergedPR("2024-01-09T12:00:00", 100)); // Week of Jan 8
+    aggregator.add(createMergedPR("2024-01-21T12:00:00", 50)); // Sunday, week of Jan 15
+
+    const weeks = aggregator.build();
+
+    expect(weeks).toHaveLength(2);
+    expect(weeks[0]?.weekStart).toEqual(new Date("2024-01-08T00:00:00"));
+    expect(weeks[0]?.prCount).toBe(1);
+    expect(weeks[1]?.weekStart).toEqual(new Date("2024-01-15T00:00:00"));
+    expect(weeks[1]?.additions).toBe(80);
+    expect(weeks[1]?.totalChanges).toBe(100);
+    expect(weeks[1]?.averagePRSize).toBe(50);
+    expect(weeks[1]?.changedFilesTotal).toBe(4);
+  });
+
+  it("should ignore PRs without merge date or change counts", () => {
+    const aggregator = new WeeklyChangesAggregator();
+    aggregator.add({
+      ...createMergedPR("2024-01-09T12:00:00", 10),
+      mergedAt: undefined,
+    });
+    aggregator.add({
+      ...createMergedPR("2024-01-09T12:00:00", 10),
+      additions: undefined,
+    });
+
+    expect(aggregator.build()).toEqual([]);
+  });
+});
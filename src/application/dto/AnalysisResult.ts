@@ -2,6 +2,15 @@ import { ContributorDto } from "./ContributorDto";
 import { ThroughputResult } from "./ThroughputResult";
 import { TimeseriesResult } from "./TimeseriesResult";
 import { DeploymentFrequencyResult } from "./DeploymentFrequencyResult";
+import { AnalysisSection } from "@/domain/types";
+
+/**
+ * Sections a partial analysis is missing and when it can be resumed
+ */
+export interface IncompleteAnalysisDto {
+  sections: AnalysisSection[];
+  resumeAt: string; // ISO 8601 timestamp (rate limit reset)
+}
 
 /**
  * DTO for successful repository analysis response
@@ -16,7 +25,8 @@ export interface AnalysisResult {
       start: string;
       end: string;
     };
-    status: "completed";
+    status: "completed" | "partial";
+    incomplete?: IncompleteAnalysisDto; // Set when status is "partial"
   };
   contributors: ContributorDto[];
   summary: {
@@ -31,6 +41,14 @@ export interface AnalysisResult {
   deploymentFrequency?: DeploymentFrequencyResult; // Optional deployment frequency analysis
 }
 
+/**
+ * Contributors of an analysis as shown on the Team tab
+ */
+export interface ContributorAnalysisDto {
+  contributors: ContributorDto[];
+  incomplete?: IncompleteAnalysisDto; // Set when the analysis is partial
+}
+
 /**
  * Error codes for analysis failures
  */
@@ -0,0 +1,22 @@
+/**
+ * Change Failure Result DTO
+ *
+ * Data Transfer Object for DORA change failure rate analysis results.
+ * All nested objects are plain objects for Next.js serialization.
+ */
+
+import { DORALevel } from "@/domain/value-objects/DORAPerformanceLevel";
+import { FailureSignal } from "@/domain/value-objects/ChangeFailureRate";
+
+export interface FailedDeploymentDto {
+  displayName: string;
+  timestamp: string; // ISO 8601 format
+  signals: FailureSignal[];
+}
+
+export interface ChangeFailureResult {
+  level: DORALevel;
+  failureRate: number | null; // 0-100, null if there were no deployments
+  totalDeployments: number;
+  failedDeployments: FailedDeploymentDto[]; // Newest first
+}
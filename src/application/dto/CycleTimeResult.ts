@@ -0,0 +1,33 @@
+import { CyclePhase } from "@/domain/value-objects/PRCycleTime";
+
+/**
+ * Distribution of a single cycle-time phase
+ */
+export interface CyclePhaseStatsDto {
+  phase: CyclePhase;
+  medianHours: number | null; // null if no PR has this phase
+  p85Hours: number | null;
+  sampleSize: number; // PRs for which the phase could be measured
+}
+
+/**
+ * Median hours per phase for PRs merged in one week
+ */
+export interface WeeklyCycleTimeDto {
+  weekStart: string; // ISO 8601 date string (Monday)
+  prCount: number;
+  coding: number | null;
+  pickup: number | null;
+  review: number | null;
+  merge: number | null;
+}
+
+/**
+ * DTO for PR cycle-time breakdown results
+ * All nested objects are plain objects (not class instances) for Next.js serialization
+ */
+export interface CycleTimeResult {
+  totalMergedPRs: number;
+  phases: CyclePhaseStatsDto[]; // Chronological order: coding, pickup, review, merge
+  weeklyData: WeeklyCycleTimeDto[]; // Chronological order
+}
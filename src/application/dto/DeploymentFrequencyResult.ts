@@ -11,6 +11,7 @@ import {
   MonthlyDeploymentData,
   TrendAnalysis,
 } from "@/domain/value-objects/DeploymentFrequency";
+import type { PermissionCheck } from "@/domain/value-objects/TokenCapabilities";
 
 export interface DeploymentEventSummary {
   displayName: string;
@@ -19,6 +20,12 @@ export interface DeploymentEventSummary {
   environment?: string;
 }
 
+export interface UnavailableDeploymentSource {
+  source: DeploymentEventSummary["source"];
+  error: string;
+  missingPermission?: PermissionCheck; // Set when the token may not read the source
+}
+
 export interface DORALevelInfo {
   level: "elite" | "high" | "medium" | "low" | "insufficient_data";
   deploymentsPerYear: number;
@@ -39,4 +46,5 @@ export interface DeploymentFrequencyResult {
   monthlyData: MonthlyDeploymentData[];
   recentDeployments: DeploymentEventSummary[];
   trendAnalysis?: TrendAnalysis; // Optional trend analysis
+  unavailableSources: UnavailableDeploymentSource[]; // Sources that failed and were counted as empty
 }
@@ -0,0 +1,28 @@
+/**
+ * Incident Import DTOs
+ *
+ * Incident records parsed from JSON/CSV uploads and webhook payloads.
+ * Fields missing from a record are taken from the stored incident with the
+ * same id, so a "resolve" event only needs the id and resolvedAt.
+ */
+
+export const IncidentImportFormat = {
+  JSON: "json",
+  CSV: "csv",
+} as const;
+export type IncidentImportFormat =
+  (typeof IncidentImportFormat)[keyof typeof IncidentImportFormat];
+
+export interface IncidentRecord {
+  id: string;
+  title?: string;
+  openedAt?: Date;
+  resolvedAt?: Date;
+  url?: string;
+}
+
+export interface IncidentImportResult {
+  imported: number; // Records created or updated
+  skipped: number; // Records that could not be stored (e.g. no open time)
+  total: number; // Incidents stored for the repository after the import
+}
@@ -0,0 +1,18 @@
+/**
+ * Lead Time Result DTO
+ *
+ * Data Transfer Object for DORA lead time for changes analysis results.
+ * All nested objects are plain objects for Next.js serialization.
+ */
+
+import { DORALevel } from "@/domain/value-objects/DORAPerformanceLevel";
+import { LeadTimeDistributionBucket } from "@/domain/value-objects/LeadTimeForChanges";
+
+export interface LeadTimeResult {
+  level: DORALevel;
+  medianHours: number | null; // null if no commit was deployed
+  p85Hours: number | null;
+  deployedCommits: number;
+  undeployedCommits: number; // Commits after the last deployment
+  distribution: LeadTimeDistributionBucket[];
+}
@@ -0,0 +1,61 @@
+/**
+ * Portfolio Result DTO
+ *
+ * Data Transfer Object for metrics combined across a set of repositories
+ * (e.g. every service a team owns), with a per-repository breakdown.
+ */
+
+import type { AnalysisSection } from "@/domain/types";
+
+/**
+ * Metrics of one repository in the portfolio
+ */
+export interface RepositoryBreakdown {
+  repositoryId: string;
+  deployments: number;
+  deploymentsPerWeek: number;
+  mergedPullRequests: number; // Merged within the range
+  mergeRate: number; // Percent of PRs opened in the range that were merged
+  commits: number;
+  contributors: number; // Portfolio contributors active in the repository
+  incompleteSections: AnalysisSection[]; // Cut short by the rate limit
+  error?: string; // Set when the repository could not be fetched (excluded from totals)
+}
+
+/**
+ * A contributor matched across repositories
+ */
+export interface PortfolioContributor {
+  id: string; // Commit email or GitHub username
+  displayName: string;
+  commitCount: number;
+  pullRequestCount: number; // Authored PRs active in the range
+  linesAdded: number;
+  linesDeleted: number;
+  repositories: string[]; // Repository identifiers, in portfolio order
+}
+
+/**
+ * Deployments and merged PRs of one week across all repositories
+ */
+export interface PortfolioWeek {
+  weekStart: string; // yyyy-MM-dd (Monday)
+  deploymentCount: number;
+  mergedPullRequests: number;
+}
+
+export interface PortfolioResult {
+  totals: {
+    deployments: number;
+    deploymentsPerWeek: number;
+    mergedPullRequests: number;
+    mergeRate: number;
+    activity: number; // Commits + PRs
+    activityPerWeek: number;
+    contributors: number; // Matched across repositories
+  };
+  weeks: PortfolioWeek[];
+  contributors: PortfolioContributor[]; // Most active first
+  repositories: RepositoryBreakdown[]; // In portfolio order
+  resumeAt?: string; // ISO 8601; set when the rate limit cut any repository short
+}
@@ -0,0 +1,47 @@
+/**
+ * Repository Health Result DTO
+ *
+ * Data Transfer Object for the organization overview: a light health
+ * summary of every repository of an organization or user.
+ */
+
+import type { DORALevel } from "@/domain/value-objects/DORABenchmark";
+
+/**
+ * Overall state of a repository
+ * - active: pushed recently and no long-waiting PRs
+ * - attention: pushed recently, but a PR has been open too long
+ * - stale: no push for a long time
+ * - archived: archived on the host
+ */
+export type RepositoryHealthStatus =
+  | "active"
+  | "attention"
+  | "stale"
+  | "archived";
+
+export interface RepositoryHealthSummary {
+  repositoryId: string; // Identifier for the analytics page
+  name: string;
+  description: string | null;
+  language: string | null;
+  isPrivate: boolean;
+  isArchived: boolean;
+  isFork: boolean;
+  status: RepositoryHealthStatus;
+  lastPushAt: string | null; // ISO 8601
+  daysSinceLastPush: number | null;
+  openPullRequests: number;
+  oldestOpenPullRequestDays: number | null;
+  mergedPullRequests: number; // Merged within the window
+  latestRelease: { tagName: string; publishedAt: string | null } | null;
+  deployments: number; // Deployment events within the window
+  deploymentsCapped: boolean; // More may have happened than were read
+  deploymentLevel: DORALevel;
+}
+
+export interface OrganizationOverviewResult {
+  owner: string;
+  windowDays: number; // Window of merged PRs and deployments
+  repositories: RepositoryHealthSummary[]; // Most recently pushed first
+}
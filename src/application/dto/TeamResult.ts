@@ -0,0 +1,55 @@
+/**
+ * Team DTOs
+ *
+ * Results of importing team definitions from the git host and of
+ * comparing teams on the same repository and range.
+ */
+
+import type { DORALevel } from "@/domain/value-objects/DORABenchmark";
+import type { TokenKind } from "@/domain/value-objects/TokenCapabilities";
+
+export interface TeamImportResult {
+  imported: number; // Teams created or updated from the git host
+  skipped: number; // Teams whose id is taken by a manual team, or invalid
+  total: number; // Teams stored for the owner after the import
+}
+
+/**
+ * Failed team import
+ * missingScope is set when the token may not read the organization's
+ * teams; tokenKind decides how the user can grant it.
+ */
+export interface TeamImportError {
+  message: string;
+  missingScope?: string;
+  tokenKind?: TokenKind;
+}
+
+/**
+ * Metrics of one team within the range
+ */
+export interface TeamComparisonRow {
+  teamId: string;
+  name: string;
+  memberCount: number;
+  activeMembers: number; // Members with a commit, PR or review in the range
+  mergedPullRequests: number; // Authored by members, merged within the range
+  medianHoursToMerge: number | null; // PR opened to merged (null without merges)
+  commits: number;
+  reviews: number; // Reviews members gave on PRs of other authors
+  deployments: number; // Deployments shipping at least one member commit
+  deploymentLevel: DORALevel;
+}
+
+/**
+ * Merged PRs of one week, per team id
+ */
+export interface TeamComparisonWeek {
+  weekStart: string; // yyyy-MM-dd (Monday)
+  mergedPullRequests: Record<string, number>;
+}
+
+export interface TeamComparisonResult {
+  teams: TeamComparisonRow[]; // In team definition order
+  weeks: TeamComparisonWeek[];
+}
@@ -0,0 +1,37 @@
+/**
+ * Time To Restore Result DTO
+ *
+ * Data Transfer Object for DORA time to restore service analysis results.
+ * All nested objects are plain objects for Next.js serialization.
+ */
+
+import { DORALevel } from "@/domain/value-objects/DORAPerformanceLevel";
+import { IncidentSource } from "@/domain/value-objects/Incident";
+
+export interface IncidentDto {
+  id: string;
+  title: string;
+  source: IncidentSource;
+  openedAt: string; // ISO 8601 format
+  resolvedAt: string | null; // null while unresolved
+  restoreHours: number | null;
+  url?: string;
+}
+
+/**
+ * Median restore time of incidents resolved in one week
+ */
+export interface WeeklyRestoreTimeDto {
+  weekStart: string; // ISO 8601 date string (Monday)
+  medianHours: number;
+  incidentCount: number;
+}
+
+export interface TimeToRestoreResult {
+  level: DORALevel;
+  medianHours: number | null; // null if no incident was resolved
+  totalIncidents: number;
+  unresolvedIncidents: number;
+  incidents: IncidentDto[]; // Newest first
+  weeklyData: WeeklyRestoreTimeDto[]; // Chronological order
+}
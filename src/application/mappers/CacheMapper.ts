@@ -0,0 +1,174 @@
+import {
+  PullRequest,
+  PullRequestReview,
+  GitCommit,
+  Deployment,
+  Release,
+  Tag,
+  OwnerRepository,
+} from "@/domain/interfaces/IGitHubRepository";
+import type { ContributorDto } from "@/application/dto/ContributorDto";
+import type { ContributorAnalysisDto } from "@/application/dto/AnalysisResult";
+
+/**
+ * Serialized pull request (Dates as ISO strings)
+ */
+export interface CachedPullRequest extends Omit<
+  PullRequest,
+  | "createdAt"
+  | "mergedAt"
+  | "closedAt"
+  | "reviews"
+  | "firstCommitAt"
+  | "readyForReviewAt"
+> {
+  createdAt: string;
+  mergedAt?: string;
+  closedAt?: string;
+  reviews?: CachedPullRequestReview[];
+  firstCommitAt?: string;
+  readyForReviewAt?: string;
+}
+
+/**
+ * Serialized pull request review (Dates as ISO strings)
+ */
+export interface CachedPullRequestReview extends Omit<
+  PullRequestReview,
+  "submittedAt"
+> {
+  submittedAt: string;
+}
+
+/**
+ * Serialized commit (Dates as ISO strings)
+ */
+export interface CachedGitCommit extends Omit<
+  GitCommit,
+  "date" | "committedAt"
+> {
+  date: string;
+  committedAt?: string;
+}
+
+/**
+ * Codec for a cached data type
+ */
+export interface CacheCodec<T> {
+  serialize(value: T): unknown;
+  deserialize(data: unknown): T;
+}
+
+/**
+ * Mapper to convert GitHub data to and from JSON-safe cache payloads
+ *
+ * Cache stores (file, IndexedDB) hold plain JSON, so Date fields are
+ * converted to ISO strings on write and revived on read.
+ */
+export class CacheMapper {
+  static toCachedPullRequests(prs: PullRequest[]): CachedPullRequest[] {
+    return prs.map((pr) => ({
+      ...pr,
+      createdAt: pr.createdAt.toISOString(),
+      mergedAt: pr.mergedAt?.toISOString(),
+      closedAt: pr.closedAt?.toISOString(),
+      reviews: pr.reviews?.map((review) => ({
+        ...review,
+        submittedAt: review.submittedAt.toISOString(),
+      })),
+      firstCommitAt: pr.firstCommitAt?.toISOString(),
+      readyForReviewAt: pr.readyForReviewAt?.toISOString(),
+    }));
+  }
+
+  static fromCachedPullRequests(cached: CachedPullRequest[]): PullRequest[] {
+    return cached.map((pr) => ({
+      ...pr,
+      createdAt: new Date(pr.createdAt),
+      mergedAt: pr.mergedAt ? new Date(pr.mergedAt) : undefined,
+      closedAt: pr.closedAt ? new Date(pr.closedAt) : undefined,
+      reviews: pr.reviews?.map((review) => ({
+        ...review,
+        submittedAt: new Date(review.submittedAt),
+      })),
+      firstCommitAt: pr.firstCommitAt ? new Date(pr.firstCommitAt) : undefined,
+      readyForReviewAt: pr.readyForReviewAt
+        ? new Date(pr.readyForReviewAt)
+        : undefined,
+    }));
+  }
+
+  static toCachedCommits(commits: GitCommit[]): CachedGitCommit[] {
+    return commits.map((commit) => ({
+      ...commit,
+      date: commit.date.toISOString(),
+      committedAt: commit.committedAt?.toISOString(),
+    }));
+  }
+
+  static fromCachedCommits(cached: CachedGitCommit[]): GitCommit[] {
+    return cached.map((commit) => ({
+      ...commit,
+      date: new Date(commit.date),
+      committedAt: commit.committedAt
+        ? new Date(commit.committedAt)
+        : undefined,
+    }));
+  }
+
+  static readonly pullRequests: CacheCodec<PullRequest[]> = {
+    serialize: (value) => CacheMapper.toCachedPullRequests(value),
+    deserialize: (data) =>
+      CacheMapper.fromCachedPullRequests(data as CachedPullRequest[]),
+  };
+
+  static readonly commits: CacheCodec<GitCommit[]> = {
+    serialize: (value) => CacheMapper.toCachedCommits(value),
+    deserialize: (data) =>
+      CacheMapper.fromCachedCommits(data as CachedGitCommit[]),
+  };
+
+  /**
+   * Deployments are already JSON-safe (dates are ISO strings)
+   */
+  static readonly deployments: CacheCodec<Deployment[]> = {
+    serialize: (value) => value,
+    deserialize: (data) => data as Deployment[],
+  };
+
+  /**
+   * Releases are already JSON-safe (dates are ISO strings)
+   */
+  static readonly releases: CacheCodec<Release[]> = {
+    serialize: (value) => value,
+    deserialize: (data) => data as Release[],
+  };
+
+  /**
+   * Tags are already JSON-safe (dates are ISO strings)
+   */
+  static readonly tags: CacheCodec<Tag[]> = {
+    serialize: (value) => value,
+    deserialize: (data) => data as Tag[],
+  };
+
+  /**
+   * Owner repositories are already JSON-safe (dates are ISO strings)
+   */
+  static readonly ownerRepositories: CacheCodec<OwnerRepository[]> = {
+    serialize: (value) => value,
+    deserialize: (data) => data as OwnerRepository[],
+  };
+
+  /**
+   * Contributor DTOs are already JSON-safe (dates are ISO strings)
+   * Entries cached before partial results existed are plain arrays.
+   */
+  static readonly contributors: CacheCodec<ContributorAnalysisDto> = {
+    serialize: (value) => value,
+    deserialize: (data) =>
+      Array.isArray(data)
+        ? { contributors: data as ContributorDto[] }
+        : (data as ContributorAnalysisDto),
+  };
+}
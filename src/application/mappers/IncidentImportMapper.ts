@@ -0,0 +1,224 @@
+import { Result, ok, err } from "@/lib/result";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import {
+  IncidentImportFormat,
+  IncidentRecord,
+} from "@/application/dto/IncidentImport";
+
+/**
+ * Accepted field names per incident field
+ * Names are compared lowercased without separators, so "opened_at",
+ * "openedAt" and "Opened At" all match. Aliases cover common incident
+ * tool exports (e.g. PagerDuty "incident_number"/"created_at", Opsgenie
+ * "tinyId"/"message"/"closedAt").
+ */
+const FIELD_ALIASES = {
+  id: ["id", "incidentid", "incidentnumber", "number", "tinyid", "key"],
+  title: ["title", "summary", "message", "name", "description"],
+  openedAt: ["openedat", "createdat", "triggeredat", "startedat", "opened"],
+  resolvedAt: ["resolvedat", "closedat", "endedat", "resolved", "closed"],
+  url: ["url", "htmlurl", "link"],
+} as const;
+
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Split CSV content into rows of fields (RFC 4180 quoting)
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Incident Import Mapper
+ *
+ * Converts JSON and CSV incident exports into IncidentRecords.
+ * JSON may be a single incident, an array, or an object with an
+ * `incidents` array. CSV needs a header row.
+ */
+export class IncidentImportMapper {
+  /**
+   * Parse incident records in the given format
+   */
+  static parse(
+    content: string,
+    format: IncidentImportFormat,
+  ): Result<IncidentRecord[]> {
+    return format === IncidentImportFormat.CSV
+      ? IncidentImportMapper.fromCsv(content)
+      : IncidentImportMapper.fromJson(content);
+  }
+
+  /**
+   * Parse incident records from JSON
+   */
+  static fromJson(content: string): Result<IncidentRecord[]> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      return err(new Error(`Invalid JSON: ${getErrorMessage(error)}`));
+    }
+
+    const items =
+      parsed !== null &&
+      typeof parsed === "object" &&
+      !Array.isArray(parsed) &&
+      Array.isArray((parsed as { incidents?: unknown }).incidents)
+        ? (parsed as { incidents: unknown[] }).incidents
+        : Array.isArray(parsed)
+          ? parsed
+          : [parsed];
+
+    const records: IncidentRecord[] = [];
+    for (const [index, item] of items.entries()) {
+      if (item === null || typeof item !== "object" || Array.isArray(item)) {
+        return err(new Error(`Incident ${index + 1} is not an object`));
+      }
+      const recordResult = IncidentImportMapper.fromFields(
+        item as Record<string, unknown>,
+        index + 1,
+      );
+      if (!recordResult.ok) {
+        return recordResult;
+      }
+      records.push(recordResult.value);
+    }
+    return ok(records);
+  }
+
+  /**
+   * Parse incident records from CSV with a header row
+   */
+  static fromCsv(content: string): Result<IncidentRecord[]> {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ""));
+    if (!header) {
+      return err(new Error("CSV file is empty"));
+    }
+
+    const records: IncidentRecord[] = [];
+    for (const [index, row] of rows.entries()) {
+      const fields: Record<string, unknown> = {};
+      header.forEach((name, column) => {
+        fields[name] = row[column];
+      });
+
+      const recordResult = IncidentImportMapper.fromFields(fields, index + 1);
+      if (!recordResult.ok) {
+        return recordResult;
+      }
+      records.push(recordResult.value);
+    }
+    return ok(records);
+  }
+
+  /**
+   * Map raw fields of one incident to an IncidentRecord
+   *
+   * @param fields Field values by (any-cased) name
+   * @param position 1-based position of the incident, for error messages
+   */
+  private static fromFields(
+    fields: Record<string, unknown>,
+    position: number,
+  ): Result<IncidentRecord> {
+    const values = new Map<string, unknown>();
+    for (const [name, value] of Object.entries(fields)) {
+      values.set(normalizeFieldName(name), value);
+    }
+
+    const read = (field: keyof typeof FIELD_ALIASES): string | undefined => {
+      for (const alias of FIELD_ALIASES[field]) {
+        const value = values.get(alias);
+        if (typeof value === "number") {
+          return String(value);
+        }
+        if (typeof value === "string" && value.trim() !== "") {
+          return value.trim();
+        }
+      }
+      return undefined;
+    };
+
+    const readDate = (
+      field: "openedAt" | "resolvedAt",
+    ): Result<Date | undefined> => {
+      const value = read(field);
+      if (value === undefined) {
+        return ok(undefined);
+      }
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return err(
+          new Error(`Incident ${position} has an invalid ${field}: ${value}`),
+        );
+      }
+      return ok(date);
+    };
+
+    const id = read("id");
+    if (!id) {
+      return err(new Error(`Incident ${position} has no id`));
+    }
+
+    const openedAt = readDate("openedAt");
+    if (!openedAt.ok) {
+      return openedAt;
+    }
+    const resolvedAt = readDate("resolvedAt");
+    if (!resolvedAt.ok) {
+      return resolvedAt;
+    }
+
+    return ok({
+      id,
+      title: read("title"),
+      openedAt: openedAt.value,
+      resolvedAt: resolvedAt.value,
+      url: read("url"),
+    });
+  }
+}
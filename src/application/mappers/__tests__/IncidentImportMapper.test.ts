@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { IncidentImportMapper } from "../IncidentImportMapper";
+
+describe("IncidentImportMapper", () => {
+  describe("fromJson", () => {
+    it("should accept an incidents array with tool-specific field names", () => {
+      const result = IncidentImportMapper.fromJson(
+        JSON.stringify({
+          incidents: [
+            {
+              incident_number: 42,
+              summary: "Checkout is down",
+              created_at: "2024-01-01T00:00:00Z",
+              resolved_at: "2024-01-01T02:00:00Z",
+              html_url: "https://example.pagerduty.com/incidents/42",
+            },
+          ],
+        }),
+      );
+
+      expect(result).toEqual({
+        ok: true,
+        value: [
+          {
+            id: "42",
+            title: "Checkout is down",
+            openedAt: new Date("2024-01-01T00:00:00Z"),
+            resolvedAt: new Date("2024-01-01T02:00:00Z"),
+            url: "https://example.pagerduty.com/incidents/42",
+          },
+        ],
+      });
+    });
+
+    it("should accept a single resolve event without an open time", () => {
+      const result = IncidentImportMapper.fromJson(
+        '{"id":"INC-1","resolvedAt":"2024-01-01T02:00:00Z"}',
+      );
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value[0]?.openedAt).toBeUndefined();
+      expect(result.value[0]?.resolvedAt).toEqual(
+        new Date("2024-01-01T02:00:00Z"),
+      );
+    });
+
+    it("should reject incidents without an id or with invalid dates", () => {
+      expect(IncidentImportMapper.fromJson('[{"title":"x"}]').ok).toBe(false);
+      expect(
+        IncidentImportMapper.fromJson('[{"id":"1","openedAt":"yesterday"}]').ok,
+      ).toBe(false);
+      expect(IncidentImportMapper.fromJson("not json").ok).toBe(false);
+    });
+  });
+
+  describe("fromCsv", () => {
+    it("should parse quoted fields and skip blank lines", () => {
+      const csv = [
+        "tinyId,Message,Created At,Closed At",
+        '7,"Database failover, replica lag ""high""",2024-01-01T00:00:00Z,2024-01-01T00:30:00Z',
+        "",
+        "8,Cache outage,2024-01-02T00:00:00Z,",
+      ].join("\r\n");
+
+      const result = IncidentImportMapper.fromCsv(csv);
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value).toHaveLength(2);
+      expect(result.value[0]?.title).toBe(
+        'Database failover, replica lag "high"',
+      );
+      expect(result.value[1]?.resolvedAt).toBeUndefined();
+    });
+  });
+});
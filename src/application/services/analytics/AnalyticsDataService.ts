@@ -1,22 +1,55 @@
-import { OctokitAdapter } from "@/infrastructure/github/OctokitAdapter";
 import { createSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
+import { createGitRepository } from "@/infrastructure/GitRepositoryFactory";
+import { getServerCacheForSession } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { ResponseCacheService } from "@/application/services/cache";
+import { CacheMapper, CacheCodec } from "@/application/mappers/CacheMapper";
+import { getAllowedHosts } from "@/infrastructure/hostConfig";
+import { DataType } from "@/domain/interfaces/ICacheRepository";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
 import type { DateRange } from "@/domain/value-objects/DateRange";
-import type { Result } from "@/lib/result";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "@/domain/value-objects/PullRequestDateFilter";
+import { TokenCapabilities } from "@/domain/value-objects/TokenCapabilities";
+import { Result, ok, err } from "@/lib/result";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
 import type {
+  IGitHubRepository,
   PullRequest,
   Deployment,
   GitCommit,
+  Release,
+  Tag,
+  OwnerRepository,
+  OrganizationTeam,
 } from "@/domain/interfaces/IGitHubRepository";
 
+/**
+ * Data of a date range and of the equal period before it
+ */
+export interface PeriodComparison<T> {
+  current: T;
+  previous: T;
+}
+
 /**
  * Analytics Data Service
  *
- * Purpose: Centralized service for fetching analytics data from GitHub API
+ * Purpose: Centralized service for fetching analytics data from GitHub and GitLab APIs
  *
  * Responsibilities:
- * - Fetch PRs, deployments, and commits for a repository
- * - Parse repository identifiers
- * - Delegate to infrastructure adapters (OctokitAdapter)
+ * - Fetch PRs, deployments, releases, tags, and commits for a repository
+ * - Parse repository identifiers (github.com, GitHub Enterprise Server and GitLab)
+ * - Delegate to infrastructure adapters (OctokitAdapter, GitLabAdapter)
+ * - Serve responses from the persistent cache (stale-while-revalidate)
+ * - Fetch a range and its previous period in one request, split in memory
+ * - Probe which data the session token may read (token capabilities)
+ * - Verify the session token can read a repository (stored repository data)
+ * - Verify the session token's user belongs to an owner (stored teams)
+ * - List an organization's or user's repositories with recent activity
+ * - List an organization's teams (team import)
  *
  * Design:
  * - Part of application layer (depends on infrastructure and domain)
@@ -25,12 +58,23 @@ import type {
  * - Provides factory function for easy instantiation
  */
 export class AnalyticsDataService {
-  constructor(private githubAdapter: OctokitAdapter) {}
+  /**
+   * @param createAdapter Creates the repository adapter for a host
+   * @param resolveCache Resolves the response cache for the current session.
+   *   When omitted or resolving to null, data is always fetched from the API.
+   * @param allowedHosts Hosts repository identifiers may point to (default: github.com only)
+   */
+  constructor(
+    private createAdapter: (host: GitHost) => IGitHubRepository,
+    private resolveCache?: () => Promise<ResponseCacheService | null>,
+    private allowedHosts: GitHost[] = [GitHost.dotcom()],
+  ) {}
 
   /**
    * Fetch pull requests for a repository
+   * Returns every PR opened, merged or closed within the date range.
    *
-   * @param repositoryId Repository identifier in "owner/repo" format
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
    * @param dateRange Date range for filtering PRs
    * @returns Result containing PRs or error
    */
@@ -38,21 +82,26 @@ export class AnalyticsDataService {
     repositoryId: string,
     dateRange: DateRange,
   ): Promise<Result<PullRequest[]>> {
-    const [owner, repo] = repositoryId.split("/");
-    if (!owner || !repo) {
-      throw new Error(`Invalid repository ID: ${repositoryId}`);
-    }
-    return await this.githubAdapter.getPullRequests(
-      owner,
-      repo,
-      dateRange.start,
+    const { url, adapter } = this.resolveRepository(repositoryId);
+    return await this.withCache(
+      url.identifier,
+      DataType.PULL_REQUESTS,
+      dateRange,
+      CacheMapper.pullRequests,
+      () =>
+        adapter.getPullRequests(
+          url.owner,
+          url.repo,
+          dateRange.start,
+          dateRange.end,
+        ),
     );
   }
 
   /**
    * Fetch deployments for a repository
    *
-   * @param repositoryId Repository identifier in "owner/repo" format
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
    * @param dateRange Date range for filtering deployments
    * @returns Result containing deployments or error
    */
@@ -60,21 +109,75 @@ export class AnalyticsDataService {
     repositoryId: string,
     dateRange: DateRange,
   ): Promise<Result<Deployment[]>> {
-    const [owner, repo] = repositoryId.split("/");
-    if (!owner || !repo) {
-      throw new Error(`Invalid repository ID: ${repositoryId}`);
-    }
-    return await this.githubAdapter.getDeployments(
-      owner,
-      repo,
-      dateRange.start,
+    const { url, adapter } = this.resolveRepository(repositoryId);
+    return await this.withCache(
+      url.identifier,
+      DataType.DEPLOYMENTS,
+      dateRange,
+      CacheMapper.deployments,
+      () =>
+        adapter.getDeployments(
+          url.owner,
+          url.repo,
+          dateRange.start,
+          dateRange.end,
+        ),
+    );
+  }
+
+  /**
+   * Fetch releases for a repository
+   *
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
+   * @param dateRange Date range for filtering releases
+   * @returns Result containing releases or error
+   */
+  async getReleases(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<Result<Release[]>> {
+    const { url, adapter } = this.resolveRepository(repositoryId);
+    return await this.withCache(
+      url.identifier,
+      DataType.RELEASES,
+      dateRange,
+      CacheMapper.releases,
+      () =>
+        adapter.getReleases(
+          url.owner,
+          url.repo,
+          dateRange.start,
+          dateRange.end,
+        ),
+    );
+  }
+
+  /**
+   * Fetch tags for a repository
+   *
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
+   * @param dateRange Date range for filtering tags
+   * @returns Result containing tags or error
+   */
+  async getTags(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<Result<Tag[]>> {
+    const { url, adapter } = this.resolveRepository(repositoryId);
+    return await this.withCache(
+      url.identifier,
+      DataType.TAGS,
+      dateRange,
+      CacheMapper.tags,
+      () =>
+        adapter.getTags(url.owner, url.repo, dateRange.start, dateRange.end),
     );
   }
 
   /**
    * Fetch commits for a repository
    *
-   * @param repositoryId Repository identifier in "owner/repo" format
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
    * @param dateRange Date range for filtering commits
    * @returns Result containing commits or error
    */
@@ -82,12 +185,350 @@ export class AnalyticsDataService {
     repositoryId: string,
     dateRange: DateRange,
   ): Promise<Result<GitCommit[]>> {
-    const githubUrl = `https://github.com/${repositoryId}`;
-    return await this.githubAdapter.getLog(
-      githubUrl,
-      dateRange.start,
-      dateRange.end,
+    const { url, adapter } = this.resolveRepository(repositoryId);
+    return await this.withCache(
+      url.identifier,
+      DataType.COMMITS,
+      dateRange,
+      CacheMapper.commits,
+      () => adapter.getLog(url.value, dateRange.start, dateRange.end),
+    );
+  }
+
+  /**
+   * Fetch pull requests for a date range and its previous period
+   * Both periods come from one fetch of the combined window.
+   *
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
+   * @param dateRange Current period
+   * @returns PRs opened, merged or closed in each period
+   */
+  async getPRPeriods(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<PeriodComparison<Result<PullRequest[]>>> {
+    return this.splitPeriods(
+      dateRange,
+      await this.getPRs(repositoryId, dateRange.withPreviousPeriod()),
+      (prs, range) =>
+        PullRequestDateFilter.create(
+          PullRequestDateSemantics.ACTIVITY,
+          range.start,
+          range.end,
+        ).apply(prs),
+    );
+  }
+
+  /**
+   * Fetch deployments for a date range and its previous period
+   */
+  async getDeploymentPeriods(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<PeriodComparison<Result<Deployment[]>>> {
+    return this.splitPeriods(
+      dateRange,
+      await this.getDeployments(repositoryId, dateRange.withPreviousPeriod()),
+      (deployments, range) =>
+        deployments.filter((deployment) =>
+          range.contains(new Date(deployment.createdAt)),
+        ),
+    );
+  }
+
+  /**
+   * Fetch releases for a date range and its previous period
+   */
+  async getReleasePeriods(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<PeriodComparison<Result<Release[]>>> {
+    return this.splitPeriods(
+      dateRange,
+      await this.getReleases(repositoryId, dateRange.withPreviousPeriod()),
+      (releases, range) =>
+        releases.filter((release) =>
+          range.contains(new Date(release.publishedAt ?? release.createdAt)),
+        ),
+    );
+  }
+
+  /**
+   * Fetch tags for a date range and its previous period
+   */
+  async getTagPeriods(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<PeriodComparison<Result<Tag[]>>> {
+    return this.splitPeriods(
+      dateRange,
+      await this.getTags(repositoryId, dateRange.withPreviousPeriod()),
+      (tags, range) =>
+        tags.filter((tag) =>
+          range.contains(
+            new Date(tag.target.tagger?.date ?? tag.target.committedDate ?? ""),
+          ),
+        ),
+    );
+  }
+
+  /**
+   * Fetch commits for a date range and its previous period
+   */
+  async getCommitPeriods(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<PeriodComparison<Result<GitCommit[]>>> {
+    return this.splitPeriods(
+      dateRange,
+      await this.getCommits(repositoryId, dateRange.withPreviousPeriod()),
+      (commits, range) =>
+        commits.filter((commit) => range.contains(commit.date)),
+    );
+  }
+
+  /**
+   * Probe what the session token can read in a repository
+   * Never fails: hosts that cannot be probed and failed probes report
+   * unknown capabilities, so widgets fall back to their error messages.
+   *
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
+   */
+  async getTokenCapabilities(repositoryId: string): Promise<TokenCapabilities> {
+    try {
+      const { url, adapter } = this.resolveRepository(repositoryId);
+      if (!adapter.getTokenCapabilities) {
+        return TokenCapabilities.unknown();
+      }
+      const result = await adapter.getTokenCapabilities(url.owner, url.repo);
+      return result.ok ? result.value : TokenCapabilities.unknown();
+    } catch {
+      return TokenCapabilities.unknown();
+    }
+  }
+
+  /**
+   * Check that the session token can read a repository
+   * Required before reading or changing data stored per repository
+   * (imported incidents, change failure rules), which is shared by every
+   * user of the deployment.
+   *
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
+   * @returns Result containing the parsed repository URL or error
+   */
+  async verifyRepositoryAccess(
+    repositoryId: string,
+  ): Promise<Result<RepositoryUrl>> {
+    const urlResult = RepositoryUrl.fromIdentifier(
+      repositoryId,
+      this.allowedHosts,
+    );
+    if (!urlResult.ok) {
+      return err(new Error(`Invalid repository ID: ${repositoryId}`));
+    }
+    const url = urlResult.value;
+
+    const accessResult = await this.createAdapter(url.host).validateAccess(
+      url.owner,
+      url.repo,
+    );
+    if (!accessResult.ok) {
+      return accessResult;
+    }
+    if (!accessResult.value) {
+      return err(
+        new Error(`Repository not found or access denied: ${url.identifier}`),
+      );
+    }
+    return ok(url);
+  }
+
+  /**
+   * List every repository of an organization or user with recent activity
+   * Cached per owner (stale-while-revalidate), as paging through a large
+   * organization takes many requests.
+   *
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @param mergedSince Start of the merged pull request count (a cached
+   *   list keeps the count of the date it was fetched with)
+   * @returns Result containing the owner's repositories or error
+   */
+  async getOwnerRepositories(
+    ownerId: string,
+    mergedSince: Date,
+  ): Promise<Result<OwnerRepository[]>> {
+    const ownerResult = this.resolveOwner(ownerId);
+    if (!ownerResult.ok) {
+      return ownerResult;
+    }
+    const { host, owner } = ownerResult.value;
+
+    const adapter = this.createAdapter(host);
+    if (!adapter.getOwnerRepositories) {
+      return err(
+        new Error(`Listing repositories is not supported on ${host.hostname}`),
+      );
+    }
+    const getOwnerRepositories = adapter.getOwnerRepositories.bind(adapter);
+
+    const cache = this.resolveCache ? await this.resolveCache() : null;
+    if (!cache) {
+      return await getOwnerRepositories(owner, mergedSince);
+    }
+    return await cache.getOrFetch({
+      repositoryId: `${host.hostname}/${owner}`.toLowerCase(),
+      dataType: DataType.REPOSITORIES,
+      codec: CacheMapper.ownerRepositories,
+      fetcher: () => getOwnerRepositories(owner, mergedSince),
+    });
+  }
+
+  /**
+   * List the teams of an organization with their members (team import)
+   * Not cached: teams are imported on request and stored as definitions.
+   *
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @returns Result containing the organization's teams or error
+   */
+  async getOrganizationTeams(
+    ownerId: string,
+  ): Promise<Result<OrganizationTeam[]>> {
+    const ownerResult = this.resolveOwner(ownerId);
+    if (!ownerResult.ok) {
+      return ownerResult;
+    }
+    const { host, owner } = ownerResult.value;
+
+    const adapter = this.createAdapter(host);
+    if (!adapter.getOrganizationTeams) {
+      return err(
+        new Error(`Listing teams is not supported on ${host.hostname}`),
+      );
+    }
+    return await adapter.getOrganizationTeams(owner);
+  }
+
+  /**
+   * Check that the session token's user is the owner or belongs to it
+   * Required before changing data stored per owner (teams, the DORA
+   * benchmark edition), which is shared by every user of the deployment.
+   *
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @returns Result that fails for invalid owners and non-members
+   */
+  async verifyOwnerAccess(ownerId: string): Promise<Result<void>> {
+    const ownerResult = this.resolveOwner(ownerId);
+    if (!ownerResult.ok) {
+      return ownerResult;
+    }
+    const { host, owner } = ownerResult.value;
+
+    const adapter = this.createAdapter(host);
+    if (!adapter.isOwnerMember) {
+      return err(
+        new Error(`Checking membership is not supported on ${host.hostname}`),
+      );
+    }
+    const memberResult = await adapter.isOwnerMember(owner);
+    if (!memberResult.ok) {
+      return memberResult;
+    }
+    if (!memberResult.value) {
+      return err(new Error(`Only members of ${owner} can manage its settings`));
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * Parse an owner identifier ("owner" on github.com or "host/owner")
+   */
+  private resolveOwner(
+    ownerId: string,
+  ): Result<{ host: GitHost; owner: string }> {
+    const [first, second] = ownerId.split("/");
+    const host = second
+      ? this.allowedHosts.find(
+          (allowed) => allowed.hostname === first?.toLowerCase(),
+        )
+      : GitHost.dotcom();
+    const owner = second ?? first;
+    if (!host || !owner) {
+      return err(new Error(`Invalid owner: ${ownerId}`));
+    }
+    return ok({ host, owner });
+  }
+
+  /**
+   * Split the result for a combined window into the current and previous period
+   * Partial results (rate limit exhausted) are split the same way.
+   */
+  private splitPeriods<T>(
+    dateRange: DateRange,
+    result: Result<T[]>,
+    slice: (items: T[], range: DateRange) => T[],
+  ): PeriodComparison<Result<T[]>> {
+    const sliceTo = (range: DateRange): Result<T[]> => {
+      if (result.ok) {
+        return ok(slice(result.value, range));
+      }
+      if (result.error instanceof RateLimitExhaustedError) {
+        return err(
+          result.error.withPartial(slice(result.error.partial as T[], range)),
+        );
+      }
+      return result;
+    };
+
+    return {
+      current: sliceTo(dateRange),
+      previous: sliceTo(dateRange.previousPeriod()),
+    };
+  }
+
+  /**
+   * Parse a repository identifier and create the adapter for its host
+   * @throws Error if the identifier is invalid or its host is not allowed
+   */
+  private resolveRepository(repositoryId: string): {
+    url: RepositoryUrl;
+    adapter: IGitHubRepository;
+  } {
+    const urlResult = RepositoryUrl.fromIdentifier(
+      repositoryId,
+      this.allowedHosts,
     );
+    if (!urlResult.ok) {
+      throw new Error(
+        `Invalid repository ID: ${repositoryId} (${urlResult.error.message})`,
+      );
+    }
+    return {
+      url: urlResult.value,
+      adapter: this.createAdapter(urlResult.value.host),
+    };
+  }
+
+  /**
+   * Fetch through the response cache when one is available
+   */
+  private async withCache<T>(
+    repositoryId: string,
+    dataType: DataType,
+    dateRange: DateRange,
+    codec: CacheCodec<T>,
+    fetcher: () => Promise<Result<T>>,
+  ): Promise<Result<T>> {
+    const cache = this.resolveCache ? await this.resolveCache() : null;
+    if (!cache) {
+      return await fetcher();
+    }
+    return await cache.getOrFetch({
+      repositoryId,
+      dataType,
+      dateRange: { start: dateRange.start, end: dateRange.end },
+      codec,
+      fetcher,
+    });
   }
 }
 
@@ -96,7 +537,8 @@ export class AnalyticsDataService {
  *
  * Creates service with all required dependencies:
  * - SessionProvider for authentication
- * - OctokitAdapter for GitHub API access
+ * - Repository adapter per host (OctokitAdapter or GitLabAdapter)
+ * - Persistent response cache scoped to the session's token
  *
  * Usage:
  * ```typescript
@@ -106,6 +548,12 @@ export class AnalyticsDataService {
  */
 export function createAnalyticsDataService(): AnalyticsDataService {
   const sessionProvider = createSessionProvider();
-  const githubAdapter = new OctokitAdapter(sessionProvider);
-  return new AnalyticsDataService(githubAdapter);
+  return new AnalyticsDataService(
+    createGitRepository,
+    async () => {
+      const repository = await getServerCacheForSession(sessionProvider);
+      return repository ? new ResponseCacheService(repository) : null;
+    },
+    getAllowedHosts(),
+  );
 }
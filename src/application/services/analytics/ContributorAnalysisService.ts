@@ -0,0 +1,211 @@
+import { createGitRepository } from "@/infrastructure/GitRepositoryFactory";
+import { createSessionProvider } from "@/infrastructure/auth/SessionProviderFactory";
+import { getServerCacheForSession } from "@/infrastructure/storage/CacheRepositoryFactory";
+import { getAllowedHosts } from "@/infrastructure/hostConfig";
+import { RequestPriority } from "@/infrastructure/github/RequestScheduler";
+import { ResponseCacheService } from "@/application/services/cache";
+import { CacheMapper } from "@/application/mappers/CacheMapper";
+import { ContributorMapper } from "@/application/mappers/ContributorMapper";
+import type { ContributorAnalysisDto } from "@/application/dto/AnalysisResult";
+import { AnalyzeRepository } from "@/application/use-cases/AnalyzeRepository";
+import { FetchGitData } from "@/application/use-cases/FetchGitData";
+import { CalculateMetrics } from "@/application/use-cases/CalculateMetrics";
+import { CalculateThroughputMetrics } from "@/application/use-cases/CalculateThroughputMetrics";
+import { CalculateChangesTimeseries } from "@/application/use-cases/CalculateChangesTimeseries";
+import { CalculateDeploymentFrequency } from "@/application/use-cases/CalculateDeploymentFrequency";
+import { DataType } from "@/domain/interfaces/ICacheRepository";
+import type { IGitHubRepository } from "@/domain/interfaces/IGitHubRepository";
+import type { AnalysisProgressListener } from "@/domain/interfaces/IAnalysisProgress";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import type { DateRange } from "@/domain/value-objects/DateRange";
+import { Result, ok, err } from "@/lib/result";
+
+/**
+ * Options for a single contributor analysis
+ */
+export interface ContributorAnalysisOptions {
+  signal?: AbortSignal; // Cancels the analysis
+  onProgress?: AnalysisProgressListener;
+}
+
+/**
+ * Contributor Analysis Service
+ *
+ * Purpose: Run the full contributor analysis for the Team tab and keep its
+ * result in the persistent response cache
+ *
+ * A long analysis can be started from the progress stream (with progress
+ * events and cancellation); the Team tab then renders from the cached
+ * result instead of analyzing again.
+ *
+ * An analysis stopped by the rate limit is cached as partial. Resuming
+ * invalidates it; the next analysis continues from the adapter's checkpoints.
+ */
+export class ContributorAnalysisService {
+  /**
+   * @param createAdapter Creates the repository adapter for a host and analysis
+   * @param resolveCache Resolves the response cache for the current session.
+   *   When omitted or resolving to null, every call runs the analysis.
+   * @param allowedHosts Hosts repository identifiers may point to (default: github.com only)
+   */
+  constructor(
+    private createAdapter: (
+      host: GitHost,
+      options: ContributorAnalysisOptions,
+    ) => IGitHubRepository,
+    private resolveCache?: () => Promise<ResponseCacheService | null>,
+    private allowedHosts: GitHost[] = [GitHost.dotcom()],
+  ) {}
+
+  /**
+   * Get contributors of a repository, analyzing it on a cache miss
+   *
+   * @param repositoryId Repository identifier ("owner/repo" or "host/owner/repo")
+   * @param dateRange Date range to analyze
+   * @param options Cancellation signal and progress listener
+   * @returns Result containing contributor DTOs (without merge preferences)
+   *   and the incomplete sections of a partial analysis
+   */
+  async getContributors(
+    repositoryId: string,
+    dateRange: DateRange,
+    options: ContributorAnalysisOptions = {},
+  ): Promise<Result<ContributorAnalysisDto>> {
+    const urlResult = RepositoryUrl.fromIdentifier(
+      repositoryId,
+      this.allowedHosts,
+    );
+    if (!urlResult.ok) {
+      return err(new Error(`Invalid repository ID: ${repositoryId}`));
+    }
+    const url = urlResult.value;
+
+    const cache = this.resolveCache ? await this.resolveCache() : null;
+    if (!cache) {
+      return await this.analyze(url, dateRange, options);
+    }
+    return await cache.getOrFetch({
+      repositoryId: url.identifier,
+      dataType: DataType.CONTRIBUTORS,
+      dateRange: { start: dateRange.start, end: dateRange.end },
+      codec: CacheMapper.contributors,
+      fetcher: () => this.analyze(url, dateRange, options),
+    });
+  }
+
+  /**
+   * Whether a result (fresh or stale) is cached, i.e. getContributors()
+   * returns without a full analysis
+   */
+  async hasCachedContributors(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<boolean> {
+    const urlResult = RepositoryUrl.fromIdentifier(
+      repositoryId,
+      this.allowedHosts,
+    );
+    const cache = this.resolveCache ? await this.resolveCache() : null;
+    if (!urlResult.ok || !cache) {
+      return false;
+    }
+    return await cache.has(urlResult.value.identifier, DataType.CONTRIBUTORS, {
+      start: dateRange.start,
+      end: dateRange.end,
+    });
+  }
+
+  /**
+   * Drop the cached result so the next getContributors() analyzes again
+   * Used to resume a partial analysis once the rate limit has reset.
+   */
+  async invalidateContributors(
+    repositoryId: string,
+    dateRange: DateRange,
+  ): Promise<Result<void>> {
+    const urlResult = RepositoryUrl.fromIdentifier(
+      repositoryId,
+      this.allowedHosts,
+    );
+    if (!urlResult.ok) {
+      return err(new Error(`Invalid repository ID: ${repositoryId}`));
+    }
+    const cache = this.resolveCache ? await this.resolveCache() : null;
+    await cache?.invalidate(urlResult.value.identifier, DataType.CONTRIBUTORS, {
+      start: dateRange.start,
+      end: dateRange.end,
+    });
+    return ok(undefined);
+  }
+
+  /**
+   * Run the repository analysis and map its contributors to DTOs
+   */
+  private async analyze(
+    url: RepositoryUrl,
+    dateRange: DateRange,
+    options: ContributorAnalysisOptions,
+  ): Promise<Result<ContributorAnalysisDto>> {
+    const adapter = this.createAdapter(url.host, options);
+    const analyzeRepository = new AnalyzeRepository(
+      new FetchGitData(adapter, this.allowedHosts),
+      new CalculateMetrics(),
+      new CalculateThroughputMetrics(),
+      new CalculateChangesTimeseries(),
+      new CalculateDeploymentFrequency(adapter),
+      this.allowedHosts,
+    );
+
+    const result = await analyzeRepository.execute({
+      repositoryUrl: url.value,
+      dateRangeStart: dateRange.start,
+      dateRangeEnd: dateRange.end,
+      signal: options.signal,
+      onProgress: options.onProgress,
+    });
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    const { contributors, incomplete } = result.value.analysis;
+    return ok({
+      contributors: contributors.map((contributor) =>
+        ContributorMapper.toDto(contributor),
+      ),
+      ...(incomplete && {
+        incomplete: {
+          sections: incomplete.sections,
+          resumeAt: incomplete.resumeAt.toISOString(),
+        },
+      }),
+    });
+  }
+}
+
+/**
+ * Factory function to create ContributorAnalysisService instance
+ * Analyses run in the background lane, so dashboard widgets sharing the
+ * token are served first.
+ *
+ * Usage:
+ * ```typescript
+ * const service = createContributorAnalysisService();
+ * const result = await service.getContributors(repositoryId, dateRange);
+ * ```
+ */
+export function createContributorAnalysisService(): ContributorAnalysisService {
+  const sessionProvider = createSessionProvider();
+  return new ContributorAnalysisService(
+    (host, options) =>
+      createGitRepository(host, {
+        ...options,
+        priority: RequestPriority.BACKGROUND,
+      }),
+    async () => {
+      const repository = await getServerCacheForSession(sessionProvider);
+      return repository ? new ResponseCacheService(repository) : null;
+    },
+    getAllowedHosts(),
+  );
+}
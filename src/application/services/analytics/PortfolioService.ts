@@ -0,0 +1,179 @@
+import type { DateRange } from "@/domain/value-objects/DateRange";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import { AnalysisSection } from "@/domain/types";
+import {
+  PortfolioAggregator,
+  RepositoryActivity,
+} from "@/application/aggregators/PortfolioAggregator";
+import type { PortfolioResult } from "@/application/dto/PortfolioResult";
+import { Result, ok, err } from "@/lib/result";
+import { recoverPartial } from "@/lib/errors/RateLimitExhaustedError";
+import { mapWithConcurrency } from "@/lib/utils/collection";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import {
+  AnalyticsDataService,
+  createAnalyticsDataService,
+} from "./AnalyticsDataService";
+
+/**
+ * Most repositories one portfolio may combine
+ */
+export const MAX_PORTFOLIO_REPOSITORIES = 30;
+
+/**
+ * Repositories fetched at the same time
+ * Requests of all repositories share the token's request scheduler and
+ * rate limit budget; this only bounds how many repositories hold pages in
+ * memory at once.
+ */
+const MAX_PARALLEL_REPOSITORIES = 4;
+
+/**
+ * Portfolio Service
+ *
+ * Purpose: Combine analytics across a set of repositories (e.g. every
+ * service a team owns)
+ *
+ * Responsibilities:
+ * - Fetch PRs, commits and deployment sources of each repository in
+ *   parallel, through the cached AnalyticsDataService
+ * - Continue with partial data when the rate limit runs out
+ * - Report repositories that cannot be fetched without failing the others
+ * - Combine hero metrics, weekly throughput and deployments, and
+ *   contributors matched across repositories (PortfolioAggregator)
+ */
+export class PortfolioService {
+  constructor(
+    private dataService: AnalyticsDataService,
+    private maxParallelRepositories: number = MAX_PARALLEL_REPOSITORIES,
+  ) {}
+
+  /**
+   * Combine the metrics of repositories over a date range
+   *
+   * @param repositoryIds Repository identifiers ("owner/repo" or "host/owner/repo")
+   * @param dateRange Date range to combine
+   * @returns Combined metrics with a per-repository breakdown, or an error
+   *   when no repository is given or too many are
+   */
+  async getPortfolio(
+    repositoryIds: string[],
+    dateRange: DateRange,
+  ): Promise<Result<PortfolioResult>> {
+    if (repositoryIds.length === 0) {
+      return err(new Error("At least one repository is required"));
+    }
+    if (repositoryIds.length > MAX_PORTFOLIO_REPOSITORIES) {
+      return err(
+        new Error(
+          `A portfolio may combine at most ${MAX_PORTFOLIO_REPOSITORIES} repositories`,
+        ),
+      );
+    }
+
+    let resumeAt: Date | undefined;
+    const activities = await mapWithConcurrency(
+      repositoryIds,
+      this.maxParallelRepositories,
+      async (repositoryId) => {
+        try {
+          return await this.fetchRepository(repositoryId, dateRange, (at) => {
+            if (!resumeAt || at > resumeAt) {
+              resumeAt = at;
+            }
+          });
+        } catch (error: unknown) {
+          return err(new Error(getErrorMessage(error)));
+        }
+      },
+    );
+
+    const aggregator = new PortfolioAggregator(dateRange);
+    activities.forEach((activity, index) => {
+      const repositoryId = repositoryIds[index] as string;
+      if (activity.ok) {
+        aggregator.addRepository(activity.value);
+      } else {
+        logger.warn("Portfolio repository could not be fetched", {
+          repositoryId,
+          error: activity.error.message,
+        });
+        aggregator.addFailure(repositoryId, activity.error.message);
+      }
+    });
+
+    const portfolio = aggregator.build();
+    return ok(
+      resumeAt ? { ...portfolio, resumeAt: resumeAt.toISOString() } : portfolio,
+    );
+  }
+
+  /**
+   * Fetch the activity of one repository
+   * Reads the current period of the same fetches as the single-repository
+   * Overview tab, so both views share cached responses. Releases and tags
+   * fall back to empty lists, as on the Overview tab.
+   *
+   * @param onPartial Called with the reset time when data was cut short
+   */
+  private async fetchRepository(
+    repositoryId: string,
+    dateRange: DateRange,
+    onPartial: (resetAt: Date) => void,
+  ): Promise<Result<RepositoryActivity>> {
+    const [prPeriods, commitPeriods, deploymentPeriods, releases, tags] =
+      await Promise.all([
+        this.dataService.getPRPeriods(repositoryId, dateRange),
+        this.dataService.getCommitPeriods(repositoryId, dateRange),
+        this.dataService.getDeploymentPeriods(repositoryId, dateRange),
+        this.dataService.getReleasePeriods(repositoryId, dateRange),
+        this.dataService.getTagPeriods(repositoryId, dateRange),
+      ]);
+
+    const incompleteSections: AnalysisSection[] = [];
+    const recover = <T>(result: Result<T[]>, section: AnalysisSection) =>
+      recoverPartial(result, (resetAt) => {
+        incompleteSections.push(section);
+        onPartial(resetAt);
+      });
+    const prs = recover(prPeriods.current, AnalysisSection.PULL_REQUESTS);
+    const commits = recover(commitPeriods.current, AnalysisSection.COMMITS);
+    const deployments = deploymentPeriods.current;
+
+    if (!prs.ok) {
+      return prs;
+    }
+    if (!commits.ok) {
+      return commits;
+    }
+    if (!deployments.ok) {
+      return deployments;
+    }
+
+    return ok({
+      repositoryId,
+      pullRequests: prs.value,
+      commits: commits.value,
+      deployments: DeploymentEvent.fromSources({
+        deployments: deployments.value,
+        releases: releases.current.ok ? releases.current.value : [],
+        tags: tags.current.ok ? tags.current.value : [],
+      }),
+      incompleteSections,
+    });
+  }
+}
+
+/**
+ * Factory function to create PortfolioService instance
+ *
+ * Usage:
+ * ```typescript
+ * const service = createPortfolioService();
+ * const result = await service.getPortfolio(["acme/api", "acme/web"], dateRange);
+ * ```
+ */
+export function createPortfolioService(): PortfolioService {
+  return new PortfolioService(createAnalyticsDataService());
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import { AnalyticsDataService } from "../AnalyticsDataService";
+import { IGitHubRepository } from "@/domain/interfaces/IGitHubRepository";
+import { err, ok } from "@/lib/result";
+
+// The service factories resolve the session through next-auth
+vi.mock("@/infrastructure/auth/SessionProviderFactory", () => ({
+  createSessionProvider: vi.fn(),
+}));
+
+function createAdapter(
+  validateAccess: IGitHubRepository["validateAccess"],
+  isOwnerMember?: IGitHubRepository["isOwnerMember"],
+): IGitHubRepository {
+  return {
+    validateAccess: vi.fn(validateAccess),
+    isOwnerMember: isOwnerMember && vi.fn(isOwnerMember),
+    getLog: vi.fn(),
+    getPullRequests: vi.fn(),
+    streamLog: vi.fn(),
+    streamPullRequests: vi.fn(),
+    getReviewComments: vi.fn(),
+    getRateLimitStatus: vi.fn(),
+    getReleases: vi.fn(),
+    getDeployments: vi.fn(),
+    getTags: vi.fn(),
+  };
+}
+
+describe("AnalyticsDataService", () => {
+  describe("verifyRepositoryAccess", () => {
+    it("should return the repository URL when the token can read it", async () => {
+      const adapter = createAdapter(async () => ok(true));
+      const service = new AnalyticsDataService(() => adapter);
+
+      const result = await service.verifyRepositoryAccess(
+        "github.com/acme/api",
+      );
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.identifier).toBe("acme/api");
+      expect(adapter.validateAccess).toHaveBeenCalledWith("acme", "api");
+    });
+
+    it("should fail when the token cannot read the repository", async () => {
+      const service = new AnalyticsDataService(() =>
+        createAdapter(async () => err(new Error("Repository not found"))),
+      );
+
+      const result = await service.verifyRepositoryAccess("acme/private");
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject invalid identifiers without calling the API", async () => {
+      const adapter = createAdapter(async () => ok(true));
+      const service = new AnalyticsDataService(() => adapter);
+
+      const result = await service.verifyRepositoryAccess("evil.example/a/b");
+
+      expect(result.ok).toBe(false);
+      expect(adapter.validateAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyOwnerAccess", () => {
+    it("should accept members of the owner", async () => {
+      const adapter = createAdapter(
+        async () => ok(true),
+        async () => ok(true),
+      );
+      const service = new AnalyticsDataService(() => adapter);
+
+      const result = await service.verifyOwnerAccess("acme");
+
+      expect(result.ok).toBe(true);
+      expect(adapter.isOwnerMember).toHaveBeenCalledWith("acme");
+    });
+
+    it("should reject non-members", async () => {
+      const service = new AnalyticsDataService(() =>
+        createAdapter(
+          async () => ok(true),
+          async () => ok(false),
+        ),
+      );
+
+      const result = await service.verifyOwnerAccess("acme");
+
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error.message).toBe(
+        "Only members of acme can manage its settings",
+      );
+    });
+
+    it("should reject hosts that cannot check membership", async () => {
+      const service = new AnalyticsDataService(() =>
+        createAdapter(async () => ok(true)),
+      );
+
+      const result = await service.verifyOwnerAccess("acme");
+
+      expect(result.ok).toBe(false);
+    });
+  });
+});
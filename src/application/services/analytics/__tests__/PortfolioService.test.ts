@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import { PortfolioService } from "../PortfolioService";
+import { AnalyticsDataService } from "../AnalyticsDataService";
+import {
+  IGitHubRepository,
+  PullRequest,
+} from "@/domain/interfaces/IGitHubRepository";
+import { DateRange } from "@/domain/value-objects/DateRange";
+import { AnalysisSection } from "@/domain/types";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
+import { err, ok } from "@/lib/result";
+
+// The service factories resolve the session through next-auth
+vi.mock("@/infrastructure/auth/SessionProviderFactory", () => ({
+  createSessionProvider: vi.fn(),
+}));
+
+const RESET_AT = new Date("2024-01-20T00:00:00Z");
+
+function dateRange(): DateRange {
+  const result = DateRange.create(
+    new Date("2024-01-01T00:00:00Z"),
+    new Date("2024-01-15T00:00:00Z"),
+  );
+  if (!result.ok) {
+    throw result.error;
+  }
+  return result.value;
+}
+
+function createPR(author: string): PullRequest {
+  return {
+    number: 1,
+    title: "PR",
+    author,
+    createdAt: new Date("2024-01-02T10:00:00Z"),
+    mergedAt: new Date("2024-01-03T10:00:00Z"),
+    state: "merged",
+    reviewCommentCount: 0,
+  };
+}
+
+/**
+ * Adapter serving one merged PR per repository, except for "gone"
+ * (not found) and "limited" (rate limit exhausted after one PR)
+ */
+function createAdapter(onFetch: (repo: string) => Promise<void>) {
+  const adapter: IGitHubRepository = {
+    validateAccess: vi.fn(),
+    getLog: vi.fn().mockResolvedValue(ok([])),
+    getPullRequests: vi.fn(async (_owner: string, repo: string) => {
+      await onFetch(repo);
+      if (repo === "gone") {
+        return err(new Error("Repository not found"));
+      }
+      if (repo === "limited") {
+        return err(new RateLimitExhaustedError(RESET_AT, [createPR("carol")]));
+      }
+      return ok([createPR(repo === "api" ? "alice" : "bob")]);
+    }),
+    streamLog: vi.fn(),
+    streamPullRequests: vi.fn(),
+    getReviewComments: vi.fn(),
+    getRateLimitStatus: vi.fn(),
+    getReleases: vi.fn().mockResolvedValue(ok([])),
+    getDeployments: vi.fn().mockResolvedValue(ok([])),
+    getTags: vi.fn().mockResolvedValue(ok([])),
+  };
+  return adapter;
+}
+
+describe("PortfolioService", () => {
+  it("should combine repositories, flagging failed and partial ones", async () => {
+    const adapter = createAdapter(async () => {});
+    const service = new PortfolioService(
+      new AnalyticsDataService(() => adapter),
+    );
+
+    const result = await service.getPortfolio(
+      ["acme/api", "acme/gone", "acme/limited", "acme/web"],
+      dateRange(),
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.totals.mergedPullRequests).toBe(3);
+    expect(result.value.totals.contributors).toBe(3);
+    expect(result.value.resumeAt).toBe(RESET_AT.toISOString());
+    expect(
+      result.value.repositories.map((repository) => ({
+        id: repository.repositoryId,
+        error: repository.error,
+        incomplete: repository.incompleteSections,
+      })),
+    ).toEqual([
+      { id: "acme/api", error: undefined, incomplete: [] },
+      { id: "acme/gone", error: "Repository not found", incomplete: [] },
+      {
+        id: "acme/limited",
+        error: undefined,
+        incomplete: [AnalysisSection.PULL_REQUESTS],
+      },
+      { id: "acme/web", error: undefined, incomplete: [] },
+    ]);
+  });
+
+  it("should fetch at most the configured number of repositories at once", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const adapter = createAdapter(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+    const service = new PortfolioService(
+      new AnalyticsDataService(() => adapter),
+      2,
+    );
+
+    const result = await service.getPortfolio(
+      ["acme/a", "acme/b", "acme/c", "acme/d", "acme/e"],
+      dateRange(),
+    );
+
+    expect(result.ok && result.value.repositories).toHaveLength(5);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("should reject an empty portfolio", async () => {
+    const service = new PortfolioService(
+      new AnalyticsDataService(() => createAdapter(async () => {})),
+    );
+
+    const result = await service.getPortfolio([], dateRange());
+
+    expect(result.ok).toBe(false);
+  });
+});
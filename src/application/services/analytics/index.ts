@@ -1 +1,3 @@
 export * from "./AnalyticsDataService";
+export * from "./ContributorAnalysisService";
+export * from "./PortfolioService";
@@ -0,0 +1,241 @@
+import {
+  ICacheRepository,
+  CachedDataEntry,
+  CachedDateRange,
+  DataType,
+} from "@/domain/interfaces/ICacheRepository";
+import { CacheKey } from "@/domain/value-objects/CacheKey";
+import {
+  CacheEvictionService,
+  CacheFreshness,
+} from "@/domain/services/CacheEvictionService";
+import type { CacheCodec } from "@/application/mappers/CacheMapper";
+import { CACHE_CONFIG } from "@/config/cache";
+import { Result, ok } from "@/lib/result";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { logger } from "@/lib/utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parameters for a cached fetch
+ */
+export interface CachedFetchRequest<T> {
+  repositoryId: string;
+  dataType: DataType;
+  dateRange?: CachedDateRange;
+  codec: CacheCodec<T>;
+  fetcher: () => Promise<Result<T>>;
+}
+
+/**
+ * In-flight background revalidations, per cache repository
+ * Prevents refetching the same key concurrently
+ */
+const revalidations = new WeakMap<
+  ICacheRepository,
+  Map<string, Promise<void>>
+>();
+
+/**
+ * Response Cache Service
+ *
+ * Purpose: Serve GitHub data from a persistent cache using
+ * stale-while-revalidate
+ *
+ * Behavior:
+ * - Fresh hit: return cached data, no API call
+ * - Stale hit: return cached data immediately, refresh in the background
+ * - Miss: fetch, store, return
+ *
+ * Cache failures are logged and never fail the request; the service falls
+ * back to fetching directly from the API.
+ */
+export class ResponseCacheService {
+  constructor(private readonly cache: ICacheRepository) {}
+
+  async getOrFetch<T>(request: CachedFetchRequest<T>): Promise<Result<T>> {
+    const keyResult = CacheKey.create(
+      request.repositoryId,
+      request.dataType,
+      request.dateRange,
+    );
+    if (!keyResult.ok) {
+      logger.warn("Skipping cache for invalid key", {
+        error: keyResult.error.message,
+      });
+      return request.fetcher();
+    }
+    const key = keyResult.value.value;
+
+    const entry = await this.read(key);
+    if (entry) {
+      const freshness = CacheEvictionService.getFreshness(entry);
+      logger.debug(`Cache ${freshness} hit`, { key });
+
+      if (freshness === CacheFreshness.STALE) {
+        this.revalidate(key, request);
+      }
+
+      try {
+        return ok(request.codec.deserialize(entry.data));
+      } catch (error) {
+        logger.warn("Discarding unreadable cache entry", {
+          key,
+          error: getErrorMessage(error),
+        });
+      }
+    }
+
+    logger.debug("Cache miss", { key });
+    const result = await request.fetcher();
+    if (result.ok) {
+      await this.write(key, request, result.value);
+    }
+    return result;
+  }
+
+  /**
+   * Whether an entry (fresh or stale) is cached for the request
+   * Does not fetch or revalidate.
+   */
+  async has(
+    repositoryId: string,
+    dataType: DataType,
+    dateRange?: CachedDateRange,
+  ): Promise<boolean> {
+    const keyResult = CacheKey.create(repositoryId, dataType, dateRange);
+    if (!keyResult.ok) {
+      return false;
+    }
+    return (await this.read(keyResult.value.value)) !== null;
+  }
+
+  /**
+   * Drop the entry for the request so the next read fetches again
+   */
+  async invalidate(
+    repositoryId: string,
+    dataType: DataType,
+    dateRange?: CachedDateRange,
+  ): Promise<void> {
+    const keyResult = CacheKey.create(repositoryId, dataType, dateRange);
+    if (keyResult.ok) {
+      await this.cache.delete(keyResult.value.value);
+    }
+  }
+
+  /**
+   * Wait for all background revalidations to settle
+   */
+  async flush(): Promise<void> {
+    const pending = revalidations.get(this.cache);
+    if (pending) {
+      await Promise.all(pending.values());
+    }
+  }
+
+  private async read(key: string): Promise<CachedDataEntry | null> {
+    try {
+      return await this.cache.get(key);
+    } catch (error) {
+      logger.warn("Cache read failed", { key, error: getErrorMessage(error) });
+      return null;
+    }
+  }
+
+  private revalidate<T>(key: string, request: CachedFetchRequest<T>): void {
+    let pending = revalidations.get(this.cache);
+    if (!pending) {
+      pending = new Map();
+      revalidations.set(this.cache, pending);
+    }
+    if (pending.has(key)) {
+      return;
+    }
+
+    const task = (async () => {
+      try {
+        const result = await request.fetcher();
+        if (result.ok) {
+          await this.write(key, request, result.value);
+        } else {
+          logger.warn("Background revalidation failed", {
+            key,
+            error: result.error.message,
+          });
+        }
+      } catch (error) {
+        logger.warn("Background revalidation failed", {
+          key,
+          error: getErrorMessage(error),
+        });
+      } finally {
+        pending.delete(key);
+      }
+    })();
+
+    pending.set(key, task);
+  }
+
+  private async write<T>(
+    key: string,
+    request: CachedFetchRequest<T>,
+    value: T,
+  ): Promise<void> {
+    try {
+      const data = request.codec.serialize(value);
+      const now = new Date();
+      const dateRange = request.dateRange ?? { start: now, end: now };
+
+      await this.cache.set({
+        key,
+        repositoryId: request.repositoryId,
+        dataType: request.dataType,
+        dateRange,
+        data,
+        cachedAt: now,
+        expiresAt: new Date(now.getTime() + getTTL(dateRange.end, now)),
+        lastAccessedAt: now,
+        sizeBytes: JSON.stringify(data).length,
+        isRevalidating: false,
+      });
+
+      await this.evictIfNeeded();
+    } catch (error) {
+      logger.warn("Cache write failed", { key, error: getErrorMessage(error) });
+    }
+  }
+
+  private async evictIfNeeded(): Promise<void> {
+    const entries = await this.cache.getAll();
+    const totalSize = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+    const limits = {
+      maxSizeBytes: CACHE_CONFIG.MAX_CACHE_SIZE,
+      maxEntries: CACHE_CONFIG.MAX_ENTRIES,
+      evictionThreshold: CACHE_CONFIG.EVICTION_THRESHOLD,
+      evictionTarget: CACHE_CONFIG.EVICTION_TARGET,
+    };
+
+    if (!CacheEvictionService.shouldEvict(totalSize, entries.length, limits)) {
+      return;
+    }
+
+    const candidates = CacheEvictionService.calculateEvictionCandidates(
+      entries,
+      limits,
+    );
+    logger.info("Evicting cache entries", { count: candidates.length });
+    await this.cache.evict(candidates);
+  }
+}
+
+/**
+ * Historical ranges rarely change and are kept longer than recent ones
+ */
+function getTTL(rangeEnd: Date, now: Date): number {
+  const ageDays = (now.getTime() - rangeEnd.getTime()) / DAY_MS;
+  return ageDays > CACHE_CONFIG.HISTORICAL_THRESHOLD_DAYS
+    ? CACHE_CONFIG.HISTORICAL_DATA_TTL
+    : CACHE_CONFIG.ACTIVE_REPO_TTL;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ResponseCacheService } from "@/application/services/cache";
+import { CacheMapper } from "@/application/mappers/CacheMapper";
+import { InMemoryCacheAdapter } from "@/infrastructure/storage/InMemoryCacheAdapter";
+import { DataType } from "@/domain/interfaces/ICacheRepository";
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { Result, ok, err } from "@/lib/result";
+
+const dateRange = {
+  start: new Date("2024-01-01T00:00:00Z"),
+  end: new Date("2024-01-31T00:00:00Z"),
+};
+
+function createPR(number: number): PullRequest {
+  return {
+    number,
+    title: `PR ${number}`,
+    author: "alice",
+    createdAt: new Date("2024-01-10T00:00:00Z"),
+    state: "merged",
+    reviewCommentCount: 0,
+    mergedAt: new Date("2024-01-11T00:00:00Z"),
+  };
+}
+
+describe("ResponseCacheService", () => {
+  let cache: InMemoryCacheAdapter;
+  let service: ResponseCacheService;
+
+  beforeEach(() => {
+    cache = new InMemoryCacheAdapter();
+    service = new ResponseCacheService(cache);
+  });
+
+  const request = (fetcher: () => Promise<Result<PullRequest[]>>) => ({
+    repositoryId: "owner/repo",
+    dataType: DataType.PULL_REQUESTS,
+    dateRange,
+    codec: CacheMapper.pullRequests,
+    fetcher,
+  });
+
+  it("should fetch and store on cache miss", async () => {
+    const fetcher = vi.fn().mockResolvedValue(ok([createPR(1)]));
+
+    const result = await service.getOrFetch(request(fetcher));
+
+    expect(result.ok).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(await cache.getEntryCount()).toBe(1);
+  });
+
+  it("should serve fresh entries without fetching", async () => {
+    const fetcher = vi.fn().mockResolvedValue(ok([createPR(1)]));
+    await service.getOrFetch(request(fetcher));
+
+    const result = await service.getOrFetch(request(fetcher));
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0]!.createdAt).toBeInstanceOf(Date);
+      expect(result.value[0]!.mergedAt?.toISOString()).toBe(
+        "2024-01-11T00:00:00.000Z",
+      );
+    }
+  });
+
+  it("should serve stale entries and revalidate in the background", async () => {
+    await service.getOrFetch(
+      request(vi.fn().mockResolvedValue(ok([createPR(1)]))),
+    );
+    const [entry] = await cache.getAll();
+    entry!.expiresAt = new Date(Date.now() - 1000);
+
+    const fetcher = vi.fn().mockResolvedValue(ok([createPR(2)]));
+    const stale = await service.getOrFetch(request(fetcher));
+
+    expect(stale.ok && stale.value[0]!.number).toBe(1);
+
+    await service.flush();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    const refreshed = await service.getOrFetch(request(fetcher));
+    expect(refreshed.ok && refreshed.value[0]!.number).toBe(2);
+  });
+
+  it("should revalidate a stale key only once at a time", async () => {
+    await service.getOrFetch(
+      request(vi.fn().mockResolvedValue(ok([createPR(1)]))),
+    );
+    const [entry] = await cache.getAll();
+    entry!.expiresAt = new Date(Date.now() - 1000);
+
+    const fetcher = vi.fn().mockResolvedValue(ok([createPR(2)]));
+    await Promise.all([
+      service.getOrFetch(request(fetcher)),
+      service.getOrFetch(request(fetcher)),
+    ]);
+    await service.flush();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache failed fetches", async () => {
+    const fetcher = vi.fn().mockResolvedValue(err(new Error("API down")));
+
+    const result = await service.getOrFetch(request(fetcher));
+
+    expect(result.ok).toBe(false);
+    expect(await cache.getEntryCount()).toBe(0);
+  });
+
+  it("should fall back to fetching when the cache fails", async () => {
+    vi.spyOn(cache, "get").mockRejectedValue(new Error("disk error"));
+    vi.spyOn(cache, "set").mockRejectedValue(new Error("disk error"));
+    const fetcher = vi.fn().mockResolvedValue(ok([createPR(1)]));
+
+    const result = await service.getOrFetch(request(fetcher));
+
+    expect(result.ok).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
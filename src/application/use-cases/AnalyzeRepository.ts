@@ -1,17 +1,35 @@
 import { Result, ok, err } from "@/lib/result";
 import { RepositoryAnalysis } from "@/domain/entities/RepositoryAnalysis";
 import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { GitHost } from "@/domain/value-objects/GitHost";
 import { DateRange } from "@/domain/value-objects/DateRange";
+import {
+  AnalysisProgressListener,
+  AnalysisStage,
+  ProgressEventType,
+} from "@/domain/interfaces/IAnalysisProgress";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "@/domain/value-objects/PullRequestDateFilter";
+import {
+  DORABenchmark,
+  DORABenchmarkEdition,
+} from "@/domain/value-objects/DORABenchmark";
 import { FetchGitData, FetchGitDataInput } from "./FetchGitData";
-import { CalculateMetrics, CalculateMetricsInput } from "./CalculateMetrics";
+import { CalculateMetrics } from "./CalculateMetrics";
 import { CalculateThroughputMetrics } from "./CalculateThroughputMetrics";
 import { CalculateChangesTimeseries } from "./CalculateChangesTimeseries";
 import { CalculateDeploymentFrequency } from "./CalculateDeploymentFrequency";
 import { ThroughputResult } from "@/application/dto/ThroughputResult";
 import { TimeseriesResult } from "@/application/dto/TimeseriesResult";
 import { DeploymentFrequencyResult } from "@/application/dto/DeploymentFrequencyResult";
+import { ContributorMetricsAggregator } from "@/application/aggregators/ContributorMetricsAggregator";
+import { ThroughputAggregator } from "@/application/aggregators/ThroughputAggregator";
+import { WeeklyChangesAggregator } from "@/application/aggregators/WeeklyChangesAggregator";
 import { logger } from "@/lib/utils/logger";
 import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { isAbortError, throwIfAborted } from "@/lib/utils/abort";
 import { v4 as uuidv4 } from "uuid";
 
 /**
@@ -22,6 +40,9 @@ export interface AnalyzeRepositoryInput {
   repositoryUrl: string;
   dateRangeStart?: Date;
   dateRangeEnd?: Date;
+  benchmarkEdition?: DORABenchmarkEdition; // DORA benchmark (2023 when omitted)
+  signal?: AbortSignal; // Cancels the analysis
+  onProgress?: AnalysisProgressListener; // Receives stage changes
 }
 
 /**
@@ -46,6 +67,7 @@ export class AnalyzeRepository {
     private readonly calculateThroughputMetrics: CalculateThroughputMetrics,
     private readonly calculateChangesTimeseries: CalculateChangesTimeseries,
     private readonly calculateDeploymentFrequency: CalculateDeploymentFrequency,
+    private readonly allowedHosts: GitHost[] = [GitHost.dotcom()],
   ) {}
 
   async execute(
@@ -59,7 +81,10 @@ export class AnalyzeRepository {
       });
 
       // Step 1: Validate and parse repository URL
-      const urlResult = RepositoryUrl.create(input.repositoryUrl);
+      const urlResult = RepositoryUrl.create(
+        input.repositoryUrl,
+        this.allowedHosts,
+      );
       if (!urlResult.ok) {
         return err(urlResult.error);
       }
@@ -89,13 +114,46 @@ export class AnalyzeRepository {
 
       let analysis = analysisResult.value;
 
-      // Step 4: Fetch Git and GitHub data
+      // Step 4: Stream Git and GitHub data into the metric aggregators
+      // (histories are never held in memory as a whole)
       const fetchInput: FetchGitDataInput = {
         repositoryUrl: input.repositoryUrl,
         dateRange,
+        signal: input.signal,
+        onProgress: input.onProgress,
       };
 
-      const fetchResult = await this.fetchGitData.execute(fetchInput);
+      // Each metric sees the PRs that fall in the range under its semantics
+      const pullRequestFilter = (semantics: PullRequestDateSemantics) =>
+        PullRequestDateFilter.create(semantics, dateRange.start, dateRange.end);
+      const contributorPRs = pullRequestFilter(CalculateMetrics.dateSemantics);
+      const throughputPRs = pullRequestFilter(
+        CalculateThroughputMetrics.dateSemantics,
+      );
+      const timeseriesPRs = pullRequestFilter(
+        CalculateChangesTimeseries.dateSemantics,
+      );
+
+      const contributorMetrics = new ContributorMetricsAggregator();
+      const throughputMetrics = new ThroughputAggregator();
+      const weeklyChanges = new WeeklyChangesAggregator();
+
+      const fetchResult = await this.fetchGitData.stream(fetchInput, {
+        addCommit: (commit) => contributorMetrics.addCommit(commit),
+        addPullRequest: (pullRequest) => {
+          if (contributorPRs.matches(pullRequest)) {
+            contributorMetrics.addPullRequest(pullRequest);
+          }
+          if (throughputPRs.matches(pullRequest)) {
+            throughputMetrics.add(pullRequest);
+          }
+          if (timeseriesPRs.matches(pullRequest)) {
+            weeklyChanges.add(pullRequest);
+          }
+        },
+        addReviewComment: (comment) =>
+          contributorMetrics.addReviewComment(comment),
+      });
       if (!fetchResult.ok) {
         // Mark analysis as failed
         const failedResult = analysis.fail(fetchResult.error.message);
@@ -106,17 +164,17 @@ export class AnalyzeRepository {
         return err(fetchResult.error);
       }
 
-      const { commits, pullRequests, reviewComments } = fetchResult.value;
+      const { incomplete } = fetchResult.value;
 
-      // Step 6: Calculate contributor metrics
-      const calculateInput: CalculateMetricsInput = {
-        commits,
-        pullRequests,
-        reviewComments,
-      };
+      throwIfAborted(input.signal);
+      input.onProgress?.({
+        type: ProgressEventType.STAGE,
+        stage: AnalysisStage.CALCULATING,
+      });
 
+      // Step 6: Calculate contributor metrics
       const calculateResult =
-        await this.calculateMetrics.execute(calculateInput);
+        this.calculateMetrics.summarize(contributorMetrics);
       if (!calculateResult.ok) {
         const failedResult = analysis.fail(calculateResult.error.message);
         if (!failedResult.ok) {
@@ -130,9 +188,9 @@ export class AnalyzeRepository {
 
       // Step 7: Calculate PR throughput metrics
       let throughput: ThroughputResult | undefined;
-      const throughputResult = this.calculateThroughputMetrics.execute(
+      const throughputResult = this.calculateThroughputMetrics.summarize(
         input.repositoryUrl,
-        pullRequests,
+        throughputMetrics,
         dateRange,
       );
 
@@ -151,7 +209,7 @@ export class AnalyzeRepository {
       // Step 7.5: Calculate PR changes timeseries
       let timeseries: TimeseriesResult | undefined;
       try {
-        timeseries = this.calculateChangesTimeseries.execute(pullRequests);
+        timeseries = this.calculateChangesTimeseries.summarize(weeklyChanges);
         logger.info("PR changes timeseries calculated successfully", {
           weeklyDataPoints: timeseries.weeklyData.length,
           outlierWeeks: timeseries.outlierWeeks.length,
@@ -170,6 +228,7 @@ export class AnalyzeRepository {
           urlResult.value.owner,
           urlResult.value.repo,
           dateRange.start,
+          DORABenchmark.forEdition(input.benchmarkEdition),
         );
 
       if (deploymentFrequencyResult.ok) {
@@ -185,13 +244,21 @@ export class AnalyzeRepository {
         });
       }
 
-      // Step 8: Complete analysis
-      const completeResult = analysis.complete(contributors);
+      // Step 8: Complete analysis (partially if the rate limit ran out)
+      // (optional steps swallow errors, so check for cancellation here)
+      throwIfAborted(input.signal);
+      const completeResult = incomplete
+        ? analysis.completePartially(contributors, incomplete)
+        : analysis.complete(contributors);
       if (!completeResult.ok) {
         return err(completeResult.error);
       }
 
       analysis = completeResult.value;
+      input.onProgress?.({
+        type: ProgressEventType.STAGE,
+        stage: AnalysisStage.COMPLETED,
+      });
 
       const endTime = Date.now();
       const analysisTimeMs = endTime - startTime;
@@ -210,6 +277,11 @@ export class AnalyzeRepository {
         deploymentFrequency,
       });
     } catch (error) {
+      if (isAbortError(error)) {
+        logger.info("AnalyzeRepository use case cancelled");
+        return err(error as Error);
+      }
+
       logger.error("AnalyzeRepository use case failed", {
         error: getErrorMessage(error),
       });
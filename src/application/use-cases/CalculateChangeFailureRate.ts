@@ -0,0 +1,69 @@
+/**
+ * Calculate Change Failure Rate Use Case
+ *
+ * Computes the DORA change failure rate from already fetched data:
+ * 1. Converts releases, deployments, and tags to deduplicated DeploymentEvents
+ * 2. Marks deployments failed by status, revert and hotfix rules
+ * 3. Classifies the failure rate against the selected DORA benchmark
+ * 4. Returns result DTO for presentation layer
+ */
+
+import { GitCommit, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { ChangeFailureRate } from "@/domain/value-objects/ChangeFailureRate";
+import { ChangeFailureRules } from "@/domain/value-objects/ChangeFailureRules";
+import {
+  DeploymentEvent,
+  DeploymentSources,
+} from "@/domain/value-objects/DeploymentEvent";
+import { DORABenchmark } from "@/domain/value-objects/DORABenchmark";
+import { ChangeFailureResult } from "../dto/ChangeFailureResult";
+
+export class CalculateChangeFailureRate {
+  /**
+   * Revert and hotfix signals come from PRs merged within the range
+   */
+  static readonly dateSemantics = PullRequestDateSemantics.MERGED;
+
+  /**
+   * Execute the use case
+   * @param sources Releases, deployments and tags within the analyzed range
+   * @param commits Commits on the default branch within the analyzed range
+   * @param pullRequests Pull requests within the analyzed range
+   * @param rules Repository rules (defaults when omitted)
+   * @param benchmark DORA benchmark edition (2023 when omitted)
+   * @returns Change failure rate analysis
+   */
+  execute(
+    sources: DeploymentSources,
+    commits: GitCommit[],
+    pullRequests: PullRequest[],
+    rules: ChangeFailureRules = ChangeFailureRules.defaults(),
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+  ): ChangeFailureResult {
+    const events = DeploymentEvent.fromSources(sources);
+    const failureRate = ChangeFailureRate.calculate(
+      events,
+      commits,
+      pullRequests,
+      rules,
+    );
+
+    return {
+      level: DORAClassificationService.classifyChangeFailureRate(
+        failureRate.failureRate,
+        benchmark,
+      ),
+      failureRate: failureRate.failureRate,
+      totalDeployments: failureRate.totalDeployments,
+      failedDeployments: failureRate.failedDeployments.map(
+        ({ event, signals }) => ({
+          displayName: event.displayName,
+          timestamp: event.timestamp.toISOString(),
+          signals: signals.map((signal) => ({ ...signal })),
+        }),
+      ),
+    };
+  }
+}
@@ -1,7 +1,8 @@
 import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
-import { WeeklyAggregate } from "@/domain/value-objects/WeeklyAggregate";
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
 import { ChangeTrend } from "@/domain/value-objects/ChangeTrend";
 import { OutlierWeek } from "@/domain/value-objects/OutlierWeek";
+import { WeeklyChangesAggregator } from "@/application/aggregators/WeeklyChangesAggregator";
 import {
   TimeseriesResult,
   createTimeseriesResult,
@@ -17,14 +18,19 @@ import {
  * - Summary statistics
  *
  * This use case orchestrates the timeseries analysis by:
- * 1. Filtering merged PRs with valid change metrics
- * 2. Grouping PRs by ISO week (Monday-Sunday)
- * 3. Creating WeeklyAggregate instances for each week
- * 4. Analyzing trends (if >= 4 weeks of data)
- * 5. Detecting outlier weeks (statistical anomalies)
- * 6. Converting domain objects to presentation-friendly DTO
+ * 1. Summing merged PRs with valid change metrics by ISO week
+ *    (Monday-Sunday, see WeeklyChangesAggregator)
+ * 2. Creating WeeklyAggregate instances for each week
+ * 3. Analyzing trends (if >= 4 weeks of data)
+ * 4. Detecting outlier weeks (statistical anomalies)
+ * 5. Converting domain objects to presentation-friendly DTO
  */
 export class CalculateChangesTimeseries {
+  /**
+   * Weekly changes are grouped by merge week
+   */
+  static readonly dateSemantics = PullRequestDateSemantics.MERGED;
+
   /**
    * Execute the changes timeseries calculation
    *
@@ -32,46 +38,26 @@ export class CalculateChangesTimeseries {
    * @returns TimeseriesResult DTO
    */
   execute(pullRequests: PullRequest[]): TimeseriesResult {
-    // Filter to merged PRs with valid data
-    const mergedPRs = pullRequests.filter(
-      (pr) =>
-        pr.mergedAt &&
-        pr.additions !== undefined &&
-        pr.deletions !== undefined &&
-        pr.changedFiles !== undefined,
-    );
+    const aggregator = new WeeklyChangesAggregator();
+    pullRequests.forEach((pr) => aggregator.add(pr));
+    return this.summarize(aggregator);
+  }
+
+  /**
+   * Analyze weekly totals aggregated incrementally
+   * (e.g. from streamed pull requests)
+   *
+   * @param aggregator - Weekly totals of merged PRs
+   * @returns TimeseriesResult DTO
+   */
+  summarize(aggregator: WeeklyChangesAggregator): TimeseriesResult {
+    const weeklyData = aggregator.build();
 
     // If no merged PRs, return empty result
-    if (mergedPRs.length === 0) {
+    if (weeklyData.length === 0) {
       return createTimeseriesResult([], null, []);
     }
 
-    // Group PRs by ISO week
-    const weeklyMap = new Map<string, PullRequest[]>();
-
-    for (const pr of mergedPRs) {
-      if (!pr.mergedAt) continue; // Type guard (already filtered, but TypeScript needs this)
-
-      const weekStart = WeeklyAggregate.getWeekStart(pr.mergedAt);
-      const weekKey = weekStart.toISOString();
-
-      if (!weeklyMap.has(weekKey)) {
-        weeklyMap.set(weekKey, []);
-      }
-      weeklyMap.get(weekKey)!.push(pr);
-    }
-
-    // Create WeeklyAggregate instances for each week (chronological order)
-    const weeklyData: WeeklyAggregate[] = [];
-    const sortedWeekStarts = Array.from(weeklyMap.keys()).sort();
-
-    for (const weekKey of sortedWeekStarts) {
-      const weekStart = new Date(weekKey);
-      const prs = weeklyMap.get(weekKey)!;
-      const aggregate = WeeklyAggregate.fromPRs(weekStart, prs);
-      weeklyData.push(aggregate);
-    }
-
     // Calculate trend if sufficient data (>= 4 weeks)
     let trend: ChangeTrend | null = null;
     if (weeklyData.length >= 4) {
@@ -0,0 +1,91 @@
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+import {
+  CYCLE_PHASES,
+  CyclePhase,
+  PRCycleTime,
+} from "@/domain/value-objects/PRCycleTime";
+import { WeeklyAggregate } from "@/domain/value-objects/WeeklyAggregate";
+import {
+  CycleTimeResult,
+  CyclePhaseStatsDto,
+  WeeklyCycleTimeDto,
+} from "@/application/dto/CycleTimeResult";
+import { groupBy } from "@/lib/utils/collection";
+import { median, percentile } from "@/lib/utils/statistics";
+
+/**
+ * Collect the measured durations of a phase (PRs without it are skipped)
+ */
+function phaseSamples(cycleTimes: PRCycleTime[], phase: CyclePhase): number[] {
+  return cycleTimes
+    .map((cycleTime) => cycleTime.phaseHours(phase))
+    .filter((hours): hours is number => hours !== null);
+}
+
+/**
+ * Calculate PR Cycle Time Use Case
+ *
+ * Breaks merged PRs down into coding, pickup, review and merge phases:
+ * - Median and 85th percentile per phase over the whole range
+ * - Weekly median per phase, grouped by merge week (Monday start)
+ *
+ * Phases that cannot be measured for a PR (e.g. merged without review)
+ * are excluded from that phase's statistics only.
+ */
+export class CalculateCycleTime {
+  /**
+   * Cycle times are measured for PRs merged within the range
+   */
+  static readonly dateSemantics = PullRequestDateSemantics.MERGED;
+
+  /**
+   * Execute the cycle-time calculation
+   *
+   * @param pullRequests - Array of pull requests (non-merged PRs are ignored)
+   * @returns CycleTimeResult DTO
+   */
+  execute(pullRequests: PullRequest[]): CycleTimeResult {
+    const cycleTimes: PRCycleTime[] = [];
+    for (const pr of pullRequests) {
+      const result = PRCycleTime.fromPullRequest(pr);
+      if (result.ok) {
+        cycleTimes.push(result.value);
+      }
+    }
+
+    const phases: CyclePhaseStatsDto[] = CYCLE_PHASES.map((phase) => {
+      const samples = phaseSamples(cycleTimes, phase);
+      return {
+        phase,
+        medianHours: median(samples),
+        p85Hours: percentile(samples, 85),
+        sampleSize: samples.length,
+      };
+    });
+
+    const byWeek = groupBy(cycleTimes, (cycleTime) =>
+      WeeklyAggregate.getWeekStart(cycleTime.mergedAt).toISOString(),
+    );
+
+    const weeklyData: WeeklyCycleTimeDto[] = Array.from(byWeek.keys())
+      .sort()
+      .map((weekStart) => {
+        const weekCycleTimes = byWeek.get(weekStart) ?? [];
+        return {
+          weekStart,
+          prCount: weekCycleTimes.length,
+          coding: median(phaseSamples(weekCycleTimes, CyclePhase.CODING)),
+          pickup: median(phaseSamples(weekCycleTimes, CyclePhase.PICKUP)),
+          review: median(phaseSamples(weekCycleTimes, CyclePhase.REVIEW)),
+          merge: median(phaseSamples(weekCycleTimes, CyclePhase.MERGE)),
+        };
+      });
+
+    return {
+      totalMergedPRs: cycleTimes.length,
+      phases,
+      weeklyData,
+    };
+  }
+}
@@ -3,24 +3,41 @@
  *
  * Orchestrates the retrieval and analysis of deployment frequency data:
  * 1. Fetches releases, deployments, and tags from GitHub in parallel
+ *    (failed sources count as empty and are reported with the permission
+ *    the token lacks, if any)
  * 2. Converts them to DeploymentEvent value objects
  * 3. Deduplicates events by normalized tag name
  * 4. Aggregates into weekly and monthly frequencies
- * 5. Calculates DORA performance level
+ * 5. Classifies the DORA performance level against the selected benchmark
  * 6. Returns result DTO for presentation layer
  */
 
 import { IGitHubRepository } from "@/domain/interfaces/IGitHubRepository";
 import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
 import { DeploymentFrequency } from "@/domain/value-objects/DeploymentFrequency";
+import { DORABenchmark } from "@/domain/value-objects/DORABenchmark";
 import { DORAPerformanceLevel } from "@/domain/value-objects/DORAPerformanceLevel";
+import { RepositoryPermission } from "@/domain/value-objects/TokenCapabilities";
 import {
   DeploymentFrequencyResult,
   DeploymentEventSummary,
+  UnavailableDeploymentSource,
 } from "../dto/DeploymentFrequencyResult";
 import { Result, ok, err } from "@/lib/result";
 import { logger } from "@/lib/utils/logger";
 
+/**
+ * Permission the token needs to read each deployment source
+ */
+const SOURCE_PERMISSIONS: Record<
+  DeploymentEventSummary["source"],
+  RepositoryPermission
+> = {
+  release: RepositoryPermission.CONTENTS,
+  deployment: RepositoryPermission.DEPLOYMENTS,
+  tag: RepositoryPermission.CONTENTS,
+};
+
 export class CalculateDeploymentFrequency {
   constructor(private githubRepository: IGitHubRepository) {}
 
@@ -29,12 +46,14 @@ export class CalculateDeploymentFrequency {
    * @param owner Repository owner
    * @param repo Repository name
    * @param sinceDate Optional start date for analysis
+   * @param benchmark DORA benchmark edition (2023 when omitted)
    * @returns Result containing deployment frequency analysis
    */
   async execute(
     owner: string,
     repo: string,
     sinceDate?: Date,
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
   ): Promise<Result<DeploymentFrequencyResult>> {
     try {
       logger.info("Calculating deployment frequency", {
@@ -57,22 +76,16 @@ export class CalculateDeploymentFrequency {
       const deployments = deploymentsResult.ok ? deploymentsResult.value : [];
       const tags = tagsResult.ok ? tagsResult.value : [];
 
-      // Log warnings for failed sources
-      if (!releasesResult.ok) {
-        logger.warn("Failed to fetch releases", {
-          error: releasesResult.error.message,
-        });
-      }
-      if (!deploymentsResult.ok) {
-        logger.warn("Failed to fetch deployments", {
-          error: deploymentsResult.error.message,
-        });
-      }
-      if (!tagsResult.ok) {
-        logger.warn("Failed to fetch tags", {
-          error: tagsResult.error.message,
-        });
-      }
+      // Report failed sources, with the permission the token lacks if any
+      const unavailableSources = await this.describeUnavailableSources(
+        owner,
+        repo,
+        [
+          ["release", releasesResult],
+          ["deployment", deploymentsResult],
+          ["tag", tagsResult],
+        ],
+      );
 
       logger.debug("Fetched deployment sources", {
         releasesCount: releases.length,
@@ -90,7 +103,7 @@ export class CalculateDeploymentFrequency {
       const tagEvents = tags.map(DeploymentEvent.fromTag);
 
       // 4. Deduplicate by normalized tag name (priority: Releases > Deployments > Tags)
-      const uniqueEvents = this.deduplicateEvents(
+      const uniqueEvents = DeploymentEvent.deduplicate(
         releaseEvents,
         deploymentEvents,
         tagEvents,
@@ -106,7 +119,10 @@ export class CalculateDeploymentFrequency {
       const frequency = DeploymentFrequency.create(uniqueEvents);
 
       // 6. Calculate DORA performance level
-      const doraLevel = DORAPerformanceLevel.fromDeploymentFrequency(frequency);
+      const doraLevel = DORAPerformanceLevel.fromDeploymentFrequency(
+        frequency,
+        benchmark,
+      );
 
       // 7. Analyze deployment trends (if we have enough data)
       const trendAnalysis =
@@ -128,6 +144,7 @@ export class CalculateDeploymentFrequency {
           .getRecentDeployments(10)
           .map(this.eventToSummary),
         trendAnalysis,
+        unavailableSources,
       };
 
       logger.info("Deployment frequency calculation complete", {
@@ -150,41 +167,35 @@ export class CalculateDeploymentFrequency {
   }
 
   /**
-   * Deduplicate deployment events by normalized tag name
-   * Priority: Releases > Deployments > Tags
+   * Describe the sources that could not be fetched
+   * Probes the token's capabilities (when the repository supports it) to
+   * tell a missing permission apart from other failures.
    */
-  private deduplicateEvents(
-    releases: DeploymentEvent[],
-    deployments: DeploymentEvent[],
-    tags: DeploymentEvent[],
-  ): DeploymentEvent[] {
-    const eventMap = new Map<string, DeploymentEvent>();
-
-    // Process releases first (highest priority)
-    for (const event of releases) {
-      if (event.tagName) {
-        eventMap.set(event.tagName, event);
-      }
-    }
-
-    // Add deployments (only if no matching release)
-    for (const event of deployments) {
-      if (event.tagName && !eventMap.has(event.tagName)) {
-        eventMap.set(event.tagName, event);
-      }
-    }
-
-    // Add tags (only if no release/deployment)
-    for (const event of tags) {
-      if (event.tagName && !eventMap.has(event.tagName)) {
-        eventMap.set(event.tagName, event);
-      }
+  private async describeUnavailableSources(
+    owner: string,
+    repo: string,
+    results: Array<[DeploymentEventSummary["source"], Result<unknown>]>,
+  ): Promise<UnavailableDeploymentSource[]> {
+    const failed = results.flatMap(([source, result]) =>
+      result.ok ? [] : [{ source, error: result.error.message }],
+    );
+    if (failed.length === 0) {
+      return [];
     }
 
-    // Return all unique events sorted by timestamp (newest first)
-    return Array.from(eventMap.values()).sort(
-      DeploymentEvent.compareByTimestamp,
-    );
+    const capabilitiesResult = this.githubRepository.getTokenCapabilities
+      ? await this.githubRepository.getTokenCapabilities(owner, repo)
+      : null;
+    return failed.map(({ source, error }) => {
+      const [missingPermission] = capabilitiesResult?.ok
+        ? capabilitiesResult.value.missing([SOURCE_PERMISSIONS[source]])
+        : [];
+      logger.warn(`Failed to fetch ${source}s`, {
+        error,
+        missingPermission: missingPermission?.permission,
+      });
+      return { source, error, missingPermission };
+    });
   }
 
   /**
@@ -0,0 +1,51 @@
+/**
+ * Calculate Lead Time for Changes Use Case
+ *
+ * Computes the DORA lead time for changes from already fetched data:
+ * 1. Converts releases, deployments, and tags to DeploymentEvent value objects
+ * 2. Deduplicates events by normalized tag name
+ * 3. Matches each commit to the first deployment that contains it
+ * 4. Classifies the median lead time against the selected DORA benchmark
+ * 5. Returns result DTO for presentation layer
+ */
+
+import { GitCommit } from "@/domain/interfaces/IGitHubRepository";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import {
+  DeploymentEvent,
+  DeploymentSources,
+} from "@/domain/value-objects/DeploymentEvent";
+import { DORABenchmark } from "@/domain/value-objects/DORABenchmark";
+import { LeadTimeForChanges } from "@/domain/value-objects/LeadTimeForChanges";
+import { LeadTimeResult } from "../dto/LeadTimeResult";
+
+export class CalculateLeadTimeForChanges {
+  /**
+   * Execute the use case
+   * @param commits Commits on the default branch within the analyzed range,
+   *   newest first
+   * @param sources Releases, deployments and tags within the analyzed range
+   * @param benchmark DORA benchmark edition (2023 when omitted)
+   * @returns Lead time analysis
+   */
+  execute(
+    commits: GitCommit[],
+    sources: DeploymentSources,
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+  ): LeadTimeResult {
+    const events = DeploymentEvent.fromSources(sources);
+    const leadTime = LeadTimeForChanges.calculate(commits, events);
+
+    return {
+      level: DORAClassificationService.classifyLeadTime(
+        leadTime.medianHours,
+        benchmark,
+      ),
+      medianHours: leadTime.medianHours,
+      p85Hours: leadTime.p85Hours,
+      deployedCommits: leadTime.deployedCommitCount,
+      undeployedCommits: leadTime.undeployedCount,
+      distribution: leadTime.getDistribution(),
+    };
+  }
+}
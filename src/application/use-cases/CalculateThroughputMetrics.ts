@@ -1,6 +1,8 @@
 import { Result, ok, err } from "@/lib/result";
 import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
-import { PRThroughput, DateRange } from "@/domain/entities/PRThroughput";
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+import { DateRange } from "@/domain/entities/PRThroughput";
+import { ThroughputAggregator } from "@/application/aggregators/ThroughputAggregator";
 import {
   ThroughputResult,
   fromDomain,
@@ -16,9 +18,15 @@ import {
  *
  * This use case orchestrates the throughput analysis by:
  * 1. Creating the PRThroughput aggregate from pull request data
+ *    (see ThroughputAggregator)
  * 2. Converting the domain entity to a presentation-friendly DTO
  */
 export class CalculateThroughputMetrics {
+  /**
+   * Throughput counts PRs merged within the date range
+   */
+  static readonly dateSemantics = PullRequestDateSemantics.MERGED;
+
   /**
    * Execute the throughput metrics calculation
    *
@@ -49,12 +57,27 @@ export class CalculateThroughputMetrics {
       return err(new Error("Date range must have both start and end dates"));
     }
 
+    const aggregator = new ThroughputAggregator();
+    pullRequests.forEach((pr) => aggregator.add(pr));
+    return this.summarize(repositoryUrl, aggregator, dateRange);
+  }
+
+  /**
+   * Calculate throughput metrics from PRs aggregated incrementally
+   * (e.g. from streamed pull requests)
+   *
+   * @param repositoryUrl - Repository URL for context
+   * @param aggregator - Throughput data of the merged PRs
+   * @param dateRange - Date range of analysis
+   * @returns Result with ThroughputResult DTO or error
+   */
+  summarize(
+    repositoryUrl: string,
+    aggregator: ThroughputAggregator,
+    dateRange: DateRange,
+  ): Result<ThroughputResult> {
     // Create PRThroughput aggregate
-    const throughputResult = PRThroughput.create(
-      repositoryUrl,
-      pullRequests,
-      dateRange,
-    );
+    const throughputResult = aggregator.build(repositoryUrl, dateRange);
 
     if (!throughputResult.ok) {
       return err(throughputResult.error);
@@ -0,0 +1,88 @@
+/**
+ * Calculate Time To Restore Use Case
+ *
+ * Computes the DORA time to restore service from already fetched data:
+ * 1. Derives incidents from deployment status transitions
+ *    (failure → next success in the same environment)
+ * 2. Adds imported incidents opened within the analyzed range
+ * 3. Classifies the median restore time against the selected DORA benchmark
+ * 4. Groups resolved incidents by resolution week for the trend
+ * 5. Returns result DTO for presentation layer
+ */
+
+import { Deployment } from "@/domain/interfaces/IGitHubRepository";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { DORABenchmark } from "@/domain/value-objects/DORABenchmark";
+import { Incident } from "@/domain/value-objects/Incident";
+import { TimeToRestore } from "@/domain/value-objects/TimeToRestore";
+import { WeeklyAggregate } from "@/domain/value-objects/WeeklyAggregate";
+import { groupBy } from "@/lib/utils/collection";
+import { median } from "@/lib/utils/statistics";
+import {
+  TimeToRestoreResult,
+  WeeklyRestoreTimeDto,
+} from "../dto/TimeToRestoreResult";
+
+export class CalculateTimeToRestore {
+  /**
+   * Execute the use case
+   * @param deployments Deployments within the analyzed range
+   * @param importedIncidents All imported incidents of the repository
+   * @param dateRange Analyzed range (imported incidents are filtered by open time)
+   * @param benchmark DORA benchmark edition (2023 when omitted)
+   * @returns Time to restore analysis
+   */
+  execute(
+    deployments: Deployment[],
+    importedIncidents: Incident[],
+    dateRange: { start: Date; end: Date },
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+  ): TimeToRestoreResult {
+    const timeToRestore = TimeToRestore.calculate([
+      ...Incident.fromDeployments(deployments),
+      ...importedIncidents.filter((incident) =>
+        incident.isOpenedWithin(dateRange.start, dateRange.end),
+      ),
+    ]);
+
+    const resolved = timeToRestore.incidents.filter(
+      (incident) => incident.resolvedAt !== null,
+    );
+    const byWeek = groupBy(resolved, (incident) =>
+      WeeklyAggregate.getWeekStart(incident.resolvedAt!).toISOString(),
+    );
+
+    const weeklyData: WeeklyRestoreTimeDto[] = Array.from(byWeek.keys())
+      .sort()
+      .map((weekStart) => {
+        const weekIncidents = byWeek.get(weekStart) ?? [];
+        return {
+          weekStart,
+          medianHours:
+            median(weekIncidents.map((incident) => incident.restoreHours!)) ??
+            0,
+          incidentCount: weekIncidents.length,
+        };
+      });
+
+    return {
+      level: DORAClassificationService.classifyTimeToRestore(
+        timeToRestore.medianHours,
+        benchmark,
+      ),
+      medianHours: timeToRestore.medianHours,
+      totalIncidents: timeToRestore.incidents.length,
+      unresolvedIncidents: timeToRestore.unresolvedCount,
+      incidents: timeToRestore.incidents.map((incident) => ({
+        id: incident.id,
+        title: incident.title,
+        source: incident.source,
+        openedAt: incident.openedAt.toISOString(),
+        resolvedAt: incident.resolvedAt?.toISOString() ?? null,
+        restoreHours: incident.restoreHours,
+        ...(incident.url !== undefined && { url: incident.url }),
+      })),
+      weeklyData,
+    };
+  }
+}
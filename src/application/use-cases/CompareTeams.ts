@@ -0,0 +1,151 @@
+/**
+ * Compare Teams Use Case
+ *
+ * Scopes one repository's activity to each team and compares the teams:
+ * 1. Merged PRs authored by members and their median time to merge
+ * 2. Commits of members and reviews members gave to other authors
+ * 3. Deployments that shipped at least one member commit, classified
+ *    against the selected DORA benchmark
+ * 4. Merged PRs per week for each team
+ * 5. Returns result DTO for presentation layer
+ */
+
+import { format, startOfWeek } from "date-fns";
+import { GitCommit, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { DORABenchmark } from "@/domain/value-objects/DORABenchmark";
+import {
+  DeploymentEvent,
+  DeploymentSources,
+} from "@/domain/value-objects/DeploymentEvent";
+import { Team } from "@/domain/value-objects/Team";
+import { median } from "@/lib/utils/statistics";
+import {
+  TeamComparisonResult,
+  TeamComparisonRow,
+  TeamComparisonWeek,
+} from "../dto/TeamResult";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CompareTeamsInput {
+  teams: Team[];
+  /** PRs active within the range (all authors) */
+  pullRequests: PullRequest[];
+  /** Commits within the range (all authors), newest first */
+  commits: GitCommit[];
+  /** Releases, deployments and tags within the range */
+  deploymentSources: DeploymentSources;
+  dateRange: { start: Date; end: Date };
+  /** DORA benchmark edition (2023 when omitted) */
+  benchmark?: DORABenchmark;
+}
+
+export class CompareTeams {
+  /**
+   * Execute the use case
+   * @returns Metrics of each team, in the given order, and weekly merges
+   */
+  execute(input: CompareTeamsInput): TeamComparisonResult {
+    const { teams, dateRange } = input;
+    const inRange = (date: Date) =>
+      date >= dateRange.start && date <= dateRange.end;
+    const mergedPullRequests = input.pullRequests.filter(
+      (pr) => pr.mergedAt !== undefined && inRange(pr.mergedAt),
+    );
+
+    // Every week in the range, so quiet weeks show as zero
+    const weeks = new Map<string, TeamComparisonWeek>();
+    const weekOf = (date: Date) =>
+      format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+    for (
+      let week = startOfWeek(dateRange.start, { weekStartsOn: 1 });
+      week <= dateRange.end;
+      week = new Date(week.getFullYear(), week.getMonth(), week.getDate() + 7)
+    ) {
+      const weekStart = format(week, "yyyy-MM-dd");
+      weeks.set(weekStart, {
+        weekStart,
+        mergedPullRequests: Object.fromEntries(teams.map((t) => [t.id, 0])),
+      });
+    }
+
+    const rows = teams.map((team): TeamComparisonRow => {
+      const teamMerged = mergedPullRequests.filter((pr) =>
+        team.includesLogin(pr.author),
+      );
+      for (const pr of teamMerged) {
+        const week = weeks.get(weekOf(pr.mergedAt as Date));
+        if (week) {
+          week.mergedPullRequests[team.id] =
+            (week.mergedPullRequests[team.id] ?? 0) + 1;
+        }
+      }
+
+      const active = new Set<string>();
+      const commits = input.commits.filter((commit) => {
+        const member = team.commitMember(commit);
+        if (member) {
+          active.add(member);
+        }
+        return member !== null;
+      });
+
+      let reviews = 0;
+      for (const pr of input.pullRequests) {
+        if (team.includesLogin(pr.author)) {
+          active.add(pr.author.toLowerCase());
+        }
+        for (const review of pr.reviews ?? []) {
+          if (
+            team.includesLogin(review.author) &&
+            review.author.toLowerCase() !== pr.author.toLowerCase() &&
+            inRange(review.submittedAt)
+          ) {
+            active.add(review.author.toLowerCase());
+            reviews++;
+          }
+        }
+      }
+
+      const deployments = DeploymentEvent.fromSources(
+        team.filterDeploymentSources(input.deploymentSources, input.commits),
+      ).filter((event) => inRange(event.timestamp)).length;
+      const medianHoursToMerge = median(
+        teamMerged.map(
+          (pr) =>
+            ((pr.mergedAt as Date).getTime() - pr.createdAt.getTime()) /
+            HOUR_MS,
+        ),
+      );
+
+      return {
+        teamId: team.id,
+        name: team.name,
+        memberCount: team.members.length,
+        activeMembers: active.size,
+        mergedPullRequests: teamMerged.length,
+        medianHoursToMerge:
+          medianHoursToMerge === null
+            ? null
+            : Math.round(medianHoursToMerge * 10) / 10,
+        commits: commits.length,
+        reviews,
+        deployments,
+        deploymentLevel: DORAClassificationService.classifyDeploymentFrequency(
+          DORAClassificationService.toDeploymentsPerYear(
+            deployments,
+            dateRange,
+          ),
+          deployments,
+          input.benchmark,
+        ),
+      };
+    });
+
+    return {
+      teams: rows,
+      weeks: [...weeks.values()],
+    };
+  }
+}
@@ -6,9 +6,22 @@ import {
   ReviewComment,
 } from "@/domain/interfaces/IGitHubRepository";
 import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { GitHost } from "@/domain/value-objects/GitHost";
 import { DateRange } from "@/domain/value-objects/DateRange";
+import { IncompleteAnalysis } from "@/domain/entities/RepositoryAnalysis";
+import { AnalysisSection } from "@/domain/types";
+import {
+  AnalysisProgressListener,
+  AnalysisStage,
+  ProgressEventType,
+} from "@/domain/interfaces/IAnalysisProgress";
 import { logger } from "@/lib/utils/logger";
 import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { isAbortError, throwIfAborted } from "@/lib/utils/abort";
+import {
+  RateLimitExhaustedError,
+  recoverPartial,
+} from "@/lib/errors/RateLimitExhaustedError";
 
 /**
  * Input for FetchGitData use case
@@ -17,6 +30,8 @@ import { getErrorMessage } from "@/lib/utils/errorUtils";
 export interface FetchGitDataInput {
   repositoryUrl: string;
   dateRange: DateRange;
+  signal?: AbortSignal; // Stops between steps (the adapter stops mid-step)
+  onProgress?: AnalysisProgressListener; // Receives stage changes
 }
 
 /**
@@ -26,16 +41,89 @@ export interface FetchGitDataOutput {
   commits: GitCommit[];
   pullRequests: PullRequest[];
   reviewComments: ReviewComment[];
+  incomplete?: IncompleteAnalysis; // Set when the rate limit cut fetching short
+}
+
+/**
+ * Receives Git data as it is streamed (see FetchGitData.stream)
+ */
+export interface GitDataConsumer {
+  addCommit(commit: GitCommit): void;
+  addPullRequest(pullRequest: PullRequest): void;
+  addReviewComment(comment: ReviewComment): void;
+}
+
+/**
+ * Output from streaming Git data: what was passed to the consumer
+ */
+export interface StreamGitDataOutput {
+  commitCount: number;
+  pullRequestCount: number;
+  reviewCommentCount: number;
+  incomplete?: IncompleteAnalysis; // Set when the rate limit cut fetching short
 }
 
 /**
  * Use case for fetching Git and GitHub data
  * Fetches commit history, pull requests, and review comments from GitHub API
+ *
+ * Commits and pull requests are streamed; stream() hands them to a consumer
+ * one at a time (bounded memory), execute() collects them into arrays.
+ *
+ * When the rate limit runs out, the data fetched so far is returned with
+ * the incomplete sections listed; the adapter resumes them on the next run.
  */
 export class FetchGitData {
-  constructor(private readonly githubRepository: IGitHubRepository) {}
+  /**
+   * @param githubRepository GitHub data source
+   * @param allowedHosts Hosts repository URLs may point to (default: github.com only)
+   */
+  constructor(
+    private readonly githubRepository: IGitHubRepository,
+    private readonly allowedHosts: GitHost[] = [GitHost.dotcom()],
+  ) {}
 
   async execute(input: FetchGitDataInput): Promise<Result<FetchGitDataOutput>> {
+    const commits: GitCommit[] = [];
+    const pullRequests: PullRequest[] = [];
+    const reviewComments: ReviewComment[] = [];
+
+    const streamResult = await this.stream(input, {
+      addCommit: (commit) => commits.push(commit),
+      addPullRequest: (pullRequest) => pullRequests.push(pullRequest),
+      addReviewComment: (comment) => reviewComments.push(comment),
+    });
+    if (!streamResult.ok) {
+      return err(streamResult.error);
+    }
+
+    // Update PR review comment counts
+    const commentCountMap = new Map<number, number>();
+    for (const comment of reviewComments) {
+      const count = commentCountMap.get(comment.pullRequestNumber) || 0;
+      commentCountMap.set(comment.pullRequestNumber, count + 1);
+    }
+
+    for (const pr of pullRequests) {
+      pr.reviewCommentCount = commentCountMap.get(pr.number) || 0;
+    }
+
+    const { incomplete } = streamResult.value;
+    return ok(
+      incomplete
+        ? { commits, pullRequests, reviewComments, incomplete }
+        : { commits, pullRequests, reviewComments },
+    );
+  }
+
+  /**
+   * Stream commits, pull requests and review comments into a consumer
+   * Only the PR numbers are kept (to fetch review comments for them).
+   */
+  async stream(
+    input: FetchGitDataInput,
+    consumer: GitDataConsumer,
+  ): Promise<Result<StreamGitDataOutput>> {
     try {
       logger.info("Starting FetchGitData use case", {
         repositoryUrl: input.repositoryUrl,
@@ -46,7 +134,10 @@ export class FetchGitData {
       });
 
       // Validate repository URL
-      const urlResult = RepositoryUrl.create(input.repositoryUrl);
+      const urlResult = RepositoryUrl.create(
+        input.repositoryUrl,
+        this.allowedHosts,
+      );
       if (!urlResult.ok) {
         return err(urlResult.error);
       }
@@ -57,6 +148,10 @@ export class FetchGitData {
 
       // Step 1: Validate GitHub access
       logger.debug("Validating GitHub access");
+      input.onProgress?.({
+        type: ProgressEventType.STAGE,
+        stage: AnalysisStage.VALIDATING,
+      });
       const accessResult = await this.githubRepository.validateAccess(
         owner,
         repo,
@@ -66,18 +161,78 @@ export class FetchGitData {
         return err(accessResult.error);
       }
 
-      // Step 2 & 3: Fetch commit log and pull requests in parallel
-      logger.debug("Fetching commit log and pull requests in parallel");
+      const incomplete: IncompleteAnalysis = {
+        sections: [],
+        resumeAt: new Date(0),
+      };
+      const markIncomplete = (section: AnalysisSection, resetAt: Date) => {
+        incomplete.sections.push(section);
+        if (resetAt > incomplete.resumeAt) {
+          incomplete.resumeAt = resetAt;
+        }
+      };
+      // Keep the partial data of a section the rate limit cut short
+      const settle = <T>(result: Result<T[]>, section: AnalysisSection) =>
+        recoverPartial(result, (resetAt) => markIncomplete(section, resetAt));
+      // Hand streamed items to the consumer; items streamed before the
+      // rate limit ran out are kept
+      const drain = async <T>(
+        items: AsyncIterable<T>,
+        add: (item: T) => void,
+        section: AnalysisSection,
+      ): Promise<Result<number>> => {
+        let count = 0;
+        try {
+          for await (const item of items) {
+            throwIfAborted(input.signal);
+            add(item);
+            count++;
+          }
+          return ok(count);
+        } catch (error) {
+          if (error instanceof RateLimitExhaustedError) {
+            markIncomplete(section, error.resetAt);
+            return ok(count);
+          }
+          if (isAbortError(error)) {
+            throw error;
+          }
+          return err(
+            error instanceof Error ? error : new Error(getErrorMessage(error)),
+          );
+        }
+      };
+
+      // Step 2 & 3: Stream commit log and pull requests in parallel
+      throwIfAborted(input.signal);
+      logger.debug("Streaming commit log and pull requests in parallel");
+      input.onProgress?.({
+        type: ProgressEventType.STAGE,
+        stage: AnalysisStage.FETCHING,
+      });
+      const prNumbers: number[] = [];
       const [logResult, prsResult] = await Promise.all([
-        this.githubRepository.getLog(
-          input.repositoryUrl,
-          input.dateRange.start,
-          input.dateRange.end,
+        drain(
+          this.githubRepository.streamLog(
+            input.repositoryUrl,
+            input.dateRange.start,
+            input.dateRange.end,
+          ),
+          (commit) => consumer.addCommit(commit),
+          AnalysisSection.COMMITS,
         ),
-        this.githubRepository.getPullRequests(
-          owner,
-          repo,
-          input.dateRange.start,
+        drain(
+          this.githubRepository.streamPullRequests(
+            owner,
+            repo,
+            input.dateRange.start,
+            input.dateRange.end,
+          ),
+          (pullRequest) => {
+            prNumbers.push(pullRequest.number);
+            consumer.addPullRequest(pullRequest);
+          },
+          AnalysisSection.PULL_REQUESTS,
         ),
       ]);
 
@@ -89,47 +244,60 @@ export class FetchGitData {
         return err(prsResult.error);
       }
 
-      const commits = logResult.value;
-      const pullRequests = prsResult.value;
       logger.info(
-        `Fetched ${commits.length} commits and ${pullRequests.length} pull requests`,
+        `Fetched ${logResult.value} commits and ${prsResult.value} pull requests`,
       );
 
       // Step 4: Fetch review comments for all PRs
+      throwIfAborted(input.signal);
       logger.debug("Fetching review comments");
-      const prNumbers = pullRequests.map((pr) => pr.number);
-      const commentsResult = await this.githubRepository.getReviewComments(
-        owner,
-        repo,
-        prNumbers,
-      );
+      input.onProgress?.({
+        type: ProgressEventType.STAGE,
+        stage: AnalysisStage.REVIEW_COMMENTS,
+      });
+      let commentsResult: Result<ReviewComment[]>;
+      if (incomplete.sections.length > 0) {
+        // The limit is already exhausted; leave review comments for the resume
+        incomplete.sections.push(AnalysisSection.REVIEW_COMMENTS);
+        commentsResult = ok([]);
+      } else {
+        commentsResult = settle(
+          await this.githubRepository.getReviewComments(owner, repo, prNumbers),
+          AnalysisSection.REVIEW_COMMENTS,
+        );
+      }
 
       if (!commentsResult.ok) {
         return err(commentsResult.error);
       }
 
       const reviewComments = commentsResult.value;
+      reviewComments.forEach((comment) => consumer.addReviewComment(comment));
       logger.info(`Fetched ${reviewComments.length} review comments`);
 
-      // Update PR review comment counts
-      const commentCountMap = new Map<number, number>();
-      for (const comment of reviewComments) {
-        const count = commentCountMap.get(comment.pullRequestNumber) || 0;
-        commentCountMap.set(comment.pullRequestNumber, count + 1);
-      }
+      const output: StreamGitDataOutput = {
+        commitCount: logResult.value,
+        pullRequestCount: prsResult.value,
+        reviewCommentCount: reviewComments.length,
+      };
 
-      for (const pr of pullRequests) {
-        pr.reviewCommentCount = commentCountMap.get(pr.number) || 0;
+      if (incomplete.sections.length > 0) {
+        logger.warn("FetchGitData stopped early by the rate limit", {
+          sections: incomplete.sections,
+          resumeAt: incomplete.resumeAt.toISOString(),
+        });
+        return ok({ ...output, incomplete });
       }
 
       logger.info("FetchGitData use case completed successfully");
 
-      return ok({
-        commits,
-        pullRequests,
-        reviewComments,
-      });
+      return ok(output);
     } catch (error) {
+      if (isAbortError(error)) {
+        logger.info("FetchGitData use case cancelled");
+        return err(error as Error);
+      }
+
       logger.error("FetchGitData use case failed", {
         error: getErrorMessage(error),
       });
@@ -0,0 +1,82 @@
+import { Result, ok, err } from "@/lib/result";
+import { IIncidentRepository } from "@/domain/interfaces/IIncidentRepository";
+import { Incident, IncidentSource } from "@/domain/value-objects/Incident";
+import {
+  IncidentImportResult,
+  IncidentRecord,
+} from "@/application/dto/IncidentImport";
+
+/**
+ * Import Incidents Use Case
+ *
+ * Upserts incident records into a repository's stored incidents:
+ * - Records are matched to stored incidents by id
+ * - Fields missing from a record keep their stored value, so a webhook can
+ *   send an "open" event first and a "resolve" event later
+ * - Records that still lack an open time, or resolve before they open,
+ *   are skipped
+ */
+export class ImportIncidents {
+  constructor(private incidentRepository: IIncidentRepository) {}
+
+  /**
+   * Execute the import
+   *
+   * @param repositoryId Normalized repository identifier
+   * @param records Parsed incident records
+   * @returns Result with import counts
+   */
+  async execute(
+    repositoryId: string,
+    records: IncidentRecord[],
+  ): Promise<Result<IncidentImportResult>> {
+    const storedResult =
+      await this.incidentRepository.getIncidents(repositoryId);
+    if (!storedResult.ok) {
+      return err(storedResult.error);
+    }
+
+    const incidents = new Map(
+      storedResult.value.map((incident) => [incident.id, incident]),
+    );
+    let imported = 0;
+    let skipped = 0;
+
+    for (const record of records) {
+      const existing = incidents.get(record.id);
+      const openedAt = record.openedAt ?? existing?.openedAt;
+      if (!openedAt) {
+        skipped++;
+        continue;
+      }
+
+      const incidentResult = Incident.create({
+        id: record.id,
+        title: record.title ?? existing?.title ?? record.id,
+        openedAt,
+        resolvedAt: record.resolvedAt ?? existing?.resolvedAt ?? null,
+        source: IncidentSource.IMPORT,
+        url: record.url ?? existing?.url,
+      });
+      if (!incidentResult.ok) {
+        skipped++;
+        continue;
+      }
+
+      incidents.set(record.id, incidentResult.value);
+      imported++;
+    }
+
+    if (imported > 0) {
+      const saveResult = await this.incidentRepository.saveIncidents(
+        repositoryId,
+        Array.from(incidents.values()),
+      );
+      if (!saveResult.ok) {
+        return err(saveResult.error);
+      }
+    }
+
+    return ok({ imported, skipped, total: incidents.size });
+  }
+}
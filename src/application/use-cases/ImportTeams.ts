@@ -0,0 +1,67 @@
+import { Result, ok, err } from "@/lib/result";
+import { OrganizationTeam } from "@/domain/interfaces/IGitHubRepository";
+import { ITeamRepository } from "@/domain/interfaces/ITeamRepository";
+import { Team, TeamSource } from "@/domain/value-objects/Team";
+import { TeamImportResult } from "@/application/dto/TeamResult";
+
+/**
+ * Import Teams Use Case
+ *
+ * Replaces an owner's imported teams with the organization's current
+ * teams on the git host:
+ * - Teams are identified by their slug; members by their username
+ * - Teams defined by hand are kept and win over an imported team with the
+ *   same id (that team is skipped)
+ * - Imported teams that no longer exist on the host are removed
+ */
+export class ImportTeams {
+  constructor(private teamRepository: ITeamRepository) {}
+
+  /**
+   * Execute the import
+   *
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @param organizationTeams Teams listed on the git host
+   * @returns Result with import counts
+   */
+  async execute(
+    ownerId: string,
+    organizationTeams: OrganizationTeam[],
+  ): Promise<Result<TeamImportResult>> {
+    let imported = 0;
+    let skipped = 0;
+
+    const updateResult = await this.teamRepository.updateTeams(
+      ownerId,
+      (stored) => {
+        const teams = stored.filter(
+          (team) => team.source === TeamSource.MANUAL,
+        );
+        const takenIds = new Set(teams.map((team) => team.id));
+
+        for (const organizationTeam of organizationTeams) {
+          const teamResult = Team.create({
+            id: organizationTeam.slug,
+            name: organizationTeam.name,
+            members: organizationTeam.members,
+            source: TeamSource.GITHUB,
+          });
+          if (!teamResult.ok || takenIds.has(teamResult.value.id)) {
+            skipped++;
+            continue;
+          }
+
+          takenIds.add(teamResult.value.id);
+          teams.push(teamResult.value);
+          imported++;
+        }
+        return ok(teams);
+      },
+    );
+    if (!updateResult.ok) {
+      return err(updateResult.error);
+    }
+
+    return ok({ imported, skipped, total: updateResult.value.length });
+  }
+}
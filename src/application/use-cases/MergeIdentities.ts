@@ -2,6 +2,7 @@ import { Result, ok, err } from "@/lib/result";
 import { Contributor } from "@/domain/entities/Contributor";
 import { IdentityMerge } from "@/domain/entities/IdentityMerge";
 import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { GitHost } from "@/domain/value-objects/GitHost";
 import { ContributorService } from "@/domain/services/ContributorService";
 import { IStoragePort } from "@/domain/interfaces/IStoragePort";
 import { logger } from "@/lib/utils/logger";
@@ -30,7 +31,10 @@ export interface MergeIdentitiesOutput {
  * Combines metrics and persists merge preference for future analyses
  */
 export class MergeIdentities {
-  constructor(private readonly storage: IStoragePort) {}
+  constructor(
+    private readonly storage: IStoragePort,
+    private readonly allowedHosts: GitHost[] = [GitHost.dotcom()],
+  ) {}
 
   async execute(
     input: MergeIdentitiesInput,
@@ -43,7 +47,10 @@ export class MergeIdentities {
       });
 
       // Validate repository URL
-      const repoUrlResult = RepositoryUrl.create(input.repositoryUrl);
+      const repoUrlResult = RepositoryUrl.create(
+        input.repositoryUrl,
+        this.allowedHosts,
+      );
       if (!repoUrlResult.ok) {
         return err(
           new Error(`Invalid repository URL: ${repoUrlResult.error.message}`),
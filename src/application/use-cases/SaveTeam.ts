@@ -0,0 +1,77 @@
+import { Result, ok, err } from "@/lib/result";
+import { ITeamRepository } from "@/domain/interfaces/ITeamRepository";
+import { Team, TeamSource } from "@/domain/value-objects/Team";
+
+/**
+ * Team fields edited by hand
+ */
+export interface SaveTeamInput {
+  /** Id of the team to update; a new team is created when omitted */
+  id?: string;
+  name: string;
+  /** Usernames or commit emails */
+  members: string[];
+}
+
+/**
+ * Save Team Use Case
+ *
+ * Creates or updates a team defined by hand:
+ * - New teams get an id derived from their name, which must not be taken
+ * - Updated teams keep their id (and position), so links filtering by the
+ *   team keep working after a rename
+ * - Editing an imported team turns it into a manual team, so the next
+ *   import does not overwrite the edit
+ */
+export class SaveTeam {
+  constructor(private teamRepository: ITeamRepository) {}
+
+  /**
+   * Execute the use case
+   *
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @param input Team fields
+   * @returns Result with the saved team
+   */
+  async execute(ownerId: string, input: SaveTeamInput): Promise<Result<Team>> {
+    const teamResult = Team.create({
+      id: input.id ?? "",
+      name: input.name,
+      members: input.members,
+      source: TeamSource.MANUAL,
+    });
+    if (!teamResult.ok) {
+      return teamResult;
+    }
+    const team = teamResult.value;
+
+    // Read and write under the owner's update lock, so concurrent saves
+    // do not drop each other's teams
+    const updateResult = await this.teamRepository.updateTeams(
+      ownerId,
+      (stored) => {
+        const teams = [...stored];
+        const index = teams.findIndex((existing) => existing.id === team.id);
+
+        if (input.id === undefined) {
+          if (index !== -1) {
+            return err(
+              new Error(`A team named like this exists: ${team.name}`),
+            );
+          }
+          teams.push(team);
+        } else {
+          if (index === -1) {
+            return err(new Error(`Team not found: ${input.id}`));
+          }
+          teams[index] = team;
+        }
+        return ok(teams);
+      },
+    );
+    if (!updateResult.ok) {
+      return err(updateResult.error);
+    }
+    return ok(team);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Summarize Repository Health Use Case
+ *
+ * Computes a light health summary of every repository of an owner from
+ * the recent activity listed with it (no per-repository requests):
+ * 1. Last push and the age of the oldest open PR
+ * 2. PRs merged (counted by the adapter since windowStart) and deployment
+ *    events (deployments and releases) within the window, flagged when
+ *    more may exist than were read
+ * 3. DORA deployment frequency level against the selected benchmark
+ * 4. An overall status (active, attention, stale, archived)
+ * 5. Returns result DTO for presentation layer
+ */
+
+import { OwnerRepository } from "@/domain/interfaces/IGitHubRepository";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { DORABenchmark } from "@/domain/value-objects/DORABenchmark";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import {
+  OrganizationOverviewResult,
+  RepositoryHealthStatus,
+  RepositoryHealthSummary,
+} from "../dto/RepositoryHealthResult";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Window of merged PRs and deployments
+ */
+export const HEALTH_WINDOW_DAYS = 30;
+
+/**
+ * Repositories without a push for longer are stale
+ */
+const STALE_AFTER_DAYS = 90;
+
+/**
+ * An open PR older than this needs attention
+ */
+const OPEN_PR_ATTENTION_DAYS = 14;
+
+export class SummarizeRepositoryHealth {
+  /**
+   * Start of the window ending at now
+   * Pass it to getOwnerRepositories as the merged pull request count start.
+   */
+  static windowStart(now: Date = new Date()): Date {
+    return new Date(now.getTime() - HEALTH_WINDOW_DAYS * DAY_MS);
+  }
+
+  /**
+   * Execute the use case
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @param repositories The owner's repositories with recent activity
+   * @param benchmark DORA benchmark edition (2023 when omitted)
+   * @param now Clock (injectable for tests)
+   * @returns Health summary of each repository, in the given order
+   */
+  execute(
+    ownerId: string,
+    repositories: OwnerRepository[],
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+    now: Date = new Date(),
+  ): OrganizationOverviewResult {
+    const window = {
+      start: SummarizeRepositoryHealth.windowStart(now),
+      end: now,
+    };
+
+    return {
+      owner: ownerId,
+      windowDays: HEALTH_WINDOW_DAYS,
+      repositories: repositories.map((repository) =>
+        this.summarize(ownerId, repository, window, benchmark),
+      ),
+    };
+  }
+
+  private summarize(
+    ownerId: string,
+    repository: OwnerRepository,
+    window: { start: Date; end: Date },
+    benchmark: DORABenchmark,
+  ): RepositoryHealthSummary {
+    const inWindow = (date: Date) => date >= window.start && date <= window.end;
+    // The window may hold more items than were read when every item was in it
+    const capped = (dates: Date[]) =>
+      dates.length >= repository.recentItemLimit && dates.every(inWindow);
+
+    const events = DeploymentEvent.fromSources({
+      deployments: repository.recentDeployments,
+      releases: repository.recentReleases,
+      tags: [],
+    });
+    const deployments = events.filter((event) => inWindow(event.timestamp));
+
+    const daysSinceLastPush = this.daysSince(repository.pushedAt, window.end);
+    const oldestOpenPullRequestDays = this.daysSince(
+      repository.oldestOpenPullRequestAt,
+      window.end,
+    );
+
+    return {
+      repositoryId: `${ownerId}/${repository.name}`,
+      name: repository.name,
+      description: repository.description,
+      language: repository.primaryLanguage,
+      isPrivate: repository.isPrivate,
+      isArchived: repository.isArchived,
+      isFork: repository.isFork,
+      status: this.status(
+        repository,
+        daysSinceLastPush,
+        oldestOpenPullRequestDays,
+      ),
+      lastPushAt: repository.pushedAt,
+      daysSinceLastPush,
+      openPullRequests: repository.openPullRequestCount,
+      oldestOpenPullRequestDays,
+      mergedPullRequests: repository.mergedPullRequestCount,
+      latestRelease: repository.latestRelease,
+      deployments: deployments.length,
+      deploymentsCapped:
+        capped(
+          repository.recentDeployments.map(
+            (deployment) => new Date(deployment.createdAt),
+          ),
+        ) ||
+        capped(
+          repository.recentReleases.map(
+            (release) => new Date(release.publishedAt ?? release.createdAt),
+          ),
+        ),
+      deploymentLevel: DORAClassificationService.classifyDeploymentFrequency(
+        DORAClassificationService.toDeploymentsPerYear(
+          deployments.length,
+          window,
+        ),
+        deployments.length,
+        benchmark,
+      ),
+    };
+  }
+
+  private status(
+    repository: OwnerRepository,
+    daysSinceLastPush: number | null,
+    oldestOpenPullRequestDays: number | null,
+  ): RepositoryHealthStatus {
+    if (repository.isArchived) {
+      return "archived";
+    }
+    if (daysSinceLastPush === null || daysSinceLastPush > STALE_AFTER_DAYS) {
+      return "stale";
+    }
+    if (
+      oldestOpenPullRequestDays !== null &&
+      oldestOpenPullRequestDays > OPEN_PR_ATTENTION_DAYS
+    ) {
+      return "attention";
+    }
+    return "active";
+  }
+
+  /**
+   * Whole days from an ISO date to now (null without a date)
+   */
+  private daysSince(date: string | null, now: Date): number | null {
+    return date === null
+      ? null
+      : Math.max(
+          0,
+          Math.floor((now.getTime() - new Date(date).getTime()) / DAY_MS),
+        );
+  }
+}
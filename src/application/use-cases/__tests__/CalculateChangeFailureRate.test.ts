@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { CalculateChangeFailureRate } from "../CalculateChangeFailureRate";
+import { Deployment, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { DORALevel } from "@/domain/value-objects/DORAPerformanceLevel";
+
+function createDeployment(
+  id: string,
+  ref: string,
+  createdAt: string,
+  status: string,
+): Deployment {
+  return {
+    id,
+    createdAt,
+    environment: "production",
+    state: status,
+    ref,
+    latestStatus: { state: status, createdAt },
+  };
+}
+
+describe("CalculateChangeFailureRate", () => {
+  it("should list failed deployments with their reasons", () => {
+    const hotfix: PullRequest = {
+      number: 42,
+      title: "Fix crash on startup",
+      author: "ada",
+      createdAt: new Date("2024-01-03T00:00:00Z"),
+      state: "merged",
+      reviewCommentCount: 0,
+      mergedAt: new Date("2024-01-03T02:00:00Z"),
+      labels: [],
+      headRefName: "hotfix/startup",
+    };
+
+    const result = new CalculateChangeFailureRate().execute(
+      {
+        releases: [],
+        deployments: [
+          createDeployment("d1", "v1.0.0", "2024-01-01T00:00:00Z", "SUCCESS"),
+          createDeployment("d2", "v1.1.0", "2024-01-02T00:00:00Z", "FAILURE"),
+          createDeployment("d3", "v1.2.0", "2024-01-03T00:00:00Z", "SUCCESS"),
+          createDeployment("d4", "v1.3.0", "2024-01-10T00:00:00Z", "SUCCESS"),
+        ],
+        tags: [],
+      },
+      [],
+      [hotfix],
+    );
+
+    expect(result).toEqual({
+      level: DORALevel.LOW,
+      failureRate: 50,
+      totalDeployments: 4,
+      failedDeployments: [
+        {
+          displayName: "v1.2.0",
+          timestamp: "2024-01-03T00:00:00.000Z",
+          signals: [{ reason: "hotfix", detail: "#42 Fix crash on startup" }],
+        },
+        {
+          displayName: "v1.1.0",
+          timestamp: "2024-01-02T00:00:00.000Z",
+          signals: [{ reason: "deployment_status", detail: "FAILURE" }],
+        },
+      ],
+    });
+  });
+
+  it("should report insufficient data without deployments", () => {
+    const result = new CalculateChangeFailureRate().execute(
+      { releases: [], deployments: [], tags: [] },
+      [],
+      [],
+    );
+
+    expect(result.level).toBe(DORALevel.INSUFFICIENT_DATA);
+    expect(result.failureRate).toBeNull();
+    expect(result.failedDeployments).toEqual([]);
+  });
+});
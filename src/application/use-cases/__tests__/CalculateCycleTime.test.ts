@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { CalculateCycleTime } from "../CalculateCycleTime";
+import {
+  PullRequest,
+  ReviewState,
+} from "@/domain/interfaces/IGitHubRepository";
+import { CyclePhase } from "@/domain/value-objects/PRCycleTime";
+import { WeeklyAggregate } from "@/domain/value-objects/WeeklyAggregate";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Creates a merged PR opened at `createdAt` with one approval after
+ * `pickupHours`, merged `mergeHours` after the approval.
+ */
+function createReviewedPR(
+  number: number,
+  createdAt: Date,
+  pickupHours: number,
+  mergeHours: number,
+): PullRequest {
+  const approvedAt = new Date(createdAt.getTime() + pickupHours * HOUR);
+  return {
+    number,
+    title: `PR ${number}`,
+    author: "alice",
+    createdAt,
+    state: "merged",
+    reviewCommentCount: 0,
+    mergedAt: new Date(approvedAt.getTime() + mergeHours * HOUR),
+    firstCommitAt: new Date(createdAt.getTime() - 2 * HOUR),
+    reviews: [
+      { author: "bob", state: ReviewState.APPROVED, submittedAt: approvedAt },
+    ],
+  };
+}
+
+describe("CalculateCycleTime", () => {
+  describe("execute", () => {
+    it("should return empty statistics when there are no merged PRs", () => {
+      const useCase = new CalculateCycleTime();
+
+      const result = useCase.execute([
+        {
+          number: 1,
+          title: "Open PR",
+          author: "alice",
+          createdAt: new Date("2024-01-01T00:00:00Z"),
+          state: "open",
+          reviewCommentCount: 0,
+        },
+      ]);
+
+      expect(result.totalMergedPRs).toBe(0);
+      expect(result.weeklyData).toEqual([]);
+      expect(result.phases.map((p) => p.phase)).toEqual([
+        CyclePhase.CODING,
+        CyclePhase.PICKUP,
+        CyclePhase.REVIEW,
+        CyclePhase.MERGE,
+      ]);
+      expect(result.phases.every((p) => p.medianHours === null)).toBe(true);
+    });
+
+    it("should calculate median and p85 per phase", () => {
+      const useCase = new CalculateCycleTime();
+      const monday = new Date("2024-01-08T09:00:00Z");
+
+      const result = useCase.execute([
+        createReviewedPR(1, monday, 1, 1),
+        createReviewedPR(2, monday, 2, 1),
+        createReviewedPR(3, monday, 3, 1),
+        createReviewedPR(4, monday, 10, 1),
+      ]);
+
+      const pickup = result.phases.find((p) => p.phase === CyclePhase.PICKUP);
+      expect(result.totalMergedPRs).toBe(4);
+      expect(pickup?.medianHours).toBe(2.5);
+      expect(pickup?.p85Hours).toBeCloseTo(6.85);
+      expect(pickup?.sampleSize).toBe(4);
+    });
+
+    it("should exclude unmeasurable phases from that phase only", () => {
+      const useCase = new CalculateCycleTime();
+      const createdAt = new Date("2024-01-08T09:00:00Z");
+
+      const result = useCase.execute([
+        createReviewedPR(1, createdAt, 4, 2),
+        {
+          number: 2,
+          title: "Merged without review",
+          author: "alice",
+          createdAt,
+          state: "merged",
+          reviewCommentCount: 0,
+          mergedAt: new Date(createdAt.getTime() + HOUR),
+          firstCommitAt: new Date(createdAt.getTime() - 4 * HOUR),
+        },
+      ]);
+
+      const coding = result.phases.find((p) => p.phase === CyclePhase.CODING);
+      const merge = result.phases.find((p) => p.phase === CyclePhase.MERGE);
+      expect(coding?.sampleSize).toBe(2);
+      expect(coding?.medianHours).toBe(3);
+      expect(merge?.sampleSize).toBe(1);
+      expect(merge?.medianHours).toBe(2);
+    });
+
+    it("should group weekly medians by merge week in chronological order", () => {
+      const useCase = new CalculateCycleTime();
+      const week2 = new Date("2024-01-15T09:00:00Z");
+      const week1 = new Date("2024-01-08T09:00:00Z");
+
+      const result = useCase.execute([
+        createReviewedPR(1, week2, 6, 1),
+        createReviewedPR(2, week1, 2, 1),
+        createReviewedPR(3, week1, 4, 1),
+      ]);
+
+      expect(result.weeklyData).toHaveLength(2);
+      expect(result.weeklyData[0]).toMatchObject({
+        weekStart: WeeklyAggregate.getWeekStart(week1).toISOString(),
+        prCount: 2,
+        coding: 2,
+        pickup: 3,
+        review: 0,
+        merge: 1,
+      });
+      expect(result.weeklyData[1]).toMatchObject({
+        prCount: 1,
+        pickup: 6,
+      });
+    });
+  });
+});
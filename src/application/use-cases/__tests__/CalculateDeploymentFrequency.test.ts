@@ -10,6 +10,12 @@ import {
   Deployment,
   Tag,
 } from "@/domain/interfaces/IGitHubRepository";
+import {
+  PermissionStatus,
+  RepositoryPermission,
+  TokenCapabilities,
+  TokenKind,
+} from "@/domain/value-objects/TokenCapabilities";
 import { ok, err } from "@/lib/result";
 
 // Mock IGitHubRepository
@@ -22,6 +28,8 @@ class MockGitHubRepository implements IGitHubRepository {
   validateAccess = vi.fn();
   getLog = vi.fn();
   getPullRequests = vi.fn();
+  streamLog = vi.fn();
+  streamPullRequests = vi.fn();
   getReviewComments = vi.fn();
   getRateLimitStatus = vi.fn();
 }
@@ -198,6 +206,53 @@ describe("CalculateDeploymentFrequency", () => {
     expect(result.ok).toBe(true);
     if (result.ok) {
       expect(result.value.totalDeployments).toBe(1); // Only releases
+      expect(result.value.unavailableSources).toEqual([
+        { source: "deployment", error: "Deployments API failed" },
+        { source: "tag", error: "Tags API failed" },
+      ]);
+    }
+  });
+
+  it("should report the permission a failed source needs", async () => {
+    // Arrange
+    mockRepo.getReleases.mockResolvedValue(ok([]));
+    mockRepo.getDeployments.mockResolvedValue(
+      err(new Error("Resource not accessible by personal access token")),
+    );
+    mockRepo.getTags.mockResolvedValue(ok([]));
+    const getTokenCapabilities = vi.fn().mockResolvedValue(
+      ok(
+        TokenCapabilities.create(TokenKind.FINE_GRAINED, null, [
+          {
+            permission: RepositoryPermission.DEPLOYMENTS,
+            status: PermissionStatus.MISSING,
+            requiredGrant: "deployments=read",
+          },
+        ]),
+      ),
+    );
+    const probingUseCase = new CalculateDeploymentFrequency(
+      Object.assign(mockRepo, { getTokenCapabilities }),
+    );
+
+    // Act
+    const result = await probingUseCase.execute("owner", "repo");
+
+    // Assert
+    expect(getTokenCapabilities).toHaveBeenCalledWith("owner", "repo");
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.unavailableSources).toEqual([
+        {
+          source: "deployment",
+          error: "Resource not accessible by personal access token",
+          missingPermission: {
+            permission: RepositoryPermission.DEPLOYMENTS,
+            status: PermissionStatus.MISSING,
+            requiredGrant: "deployments=read",
+          },
+        },
+      ]);
     }
   });
 
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { CalculateLeadTimeForChanges } from "../CalculateLeadTimeForChanges";
+import { GitCommit, Release } from "@/domain/interfaces/IGitHubRepository";
+import { DORALevel } from "@/domain/value-objects/DORAPerformanceLevel";
+
+function createCommit(hash: string, date: string): GitCommit {
+  return {
+    hash,
+    author: "Ada",
+    email: "ada@example.com",
+    date: new Date(date),
+    message: `Commit ${hash}`,
+    filesChanged: 1,
+    linesAdded: 1,
+    linesDeleted: 0,
+  };
+}
+
+function createRelease(overrides: Partial<Release> = {}): Release {
+  return {
+    name: "v1.0.0",
+    tagName: "v1.0.0",
+    createdAt: "2024-01-01T12:00:00Z",
+    publishedAt: "2024-01-01T12:00:00Z",
+    isPrerelease: false,
+    isDraft: false,
+    ...overrides,
+  };
+}
+
+describe("CalculateLeadTimeForChanges", () => {
+  it("should calculate lead time across releases, deployments and tags", () => {
+    const useCase = new CalculateLeadTimeForChanges();
+
+    const result = useCase.execute(
+      [
+        createCommit("c", "2024-01-04T00:00:00Z"),
+        createCommit("b", "2024-01-02T00:00:00Z"),
+        createCommit("a", "2024-01-01T00:00:00Z"),
+      ],
+      {
+        releases: [createRelease({ commitOid: "a" })],
+        deployments: [
+          {
+            id: "d1",
+            createdAt: "2024-01-02T06:00:00Z",
+            environment: "production",
+            state: "ACTIVE",
+            ref: "v1.1.0",
+            latestStatus: null,
+            commitOid: "b",
+          },
+        ],
+        tags: [],
+      },
+    );
+
+    expect(result).toEqual({
+      level: DORALevel.ELITE,
+      medianHours: 9,
+      p85Hours: expect.closeTo(11.1, 5),
+      deployedCommits: 2,
+      undeployedCommits: 1,
+      distribution: expect.any(Array),
+    });
+  });
+
+  it("should ignore draft releases", () => {
+    const useCase = new CalculateLeadTimeForChanges();
+
+    const result = useCase.execute(
+      [createCommit("a", "2024-01-01T00:00:00Z")],
+      {
+        releases: [createRelease({ isDraft: true, commitOid: "a" })],
+        deployments: [],
+        tags: [],
+      },
+    );
+
+    expect(result.deployedCommits).toBe(0);
+    expect(result.level).toBe(DORALevel.INSUFFICIENT_DATA);
+  });
+});
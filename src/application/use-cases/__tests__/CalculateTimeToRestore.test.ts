@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { CalculateTimeToRestore } from "../CalculateTimeToRestore";
+import { Deployment } from "@/domain/interfaces/IGitHubRepository";
+import { Incident, IncidentSource } from "@/domain/value-objects/Incident";
+import { DORALevel } from "@/domain/value-objects/DORAPerformanceLevel";
+
+function createDeployment(id: string, at: string, status: string): Deployment {
+  return {
+    id,
+    createdAt: at,
+    environment: "production",
+    state: status,
+    ref: id,
+    latestStatus: { state: status, createdAt: at },
+  };
+}
+
+function createIncident(id: string, openedAt: string, resolvedAt: string) {
+  const result = Incident.create({
+    id,
+    title: `Incident ${id}`,
+    openedAt: new Date(openedAt),
+    resolvedAt: new Date(resolvedAt),
+    source: IncidentSource.IMPORT,
+  });
+  if (!result.ok) throw result.error;
+  return result.value;
+}
+
+describe("CalculateTimeToRestore", () => {
+  const dateRange = {
+    start: new Date("2024-01-01T00:00:00Z"),
+    end: new Date("2024-01-31T23:59:59Z"),
+  };
+
+  it("should combine deployment failures with imported incidents in range", () => {
+    const result = new CalculateTimeToRestore().execute(
+      [
+        createDeployment("d1", "2024-01-02T10:00:00Z", "FAILURE"),
+        createDeployment("d2", "2024-01-02T12:00:00Z", "SUCCESS"),
+      ],
+      [
+        createIncident("INC-1", "2024-01-10T00:00:00Z", "2024-01-10T06:00:00Z"),
+        // Opened before the analyzed range
+        createIncident("INC-0", "2023-12-20T00:00:00Z", "2023-12-21T00:00:00Z"),
+      ],
+      dateRange,
+    );
+
+    expect(result.level).toBe(DORALevel.HIGH);
+    expect(result.medianHours).toBe(4);
+    expect(result.totalIncidents).toBe(2);
+    expect(result.unresolvedIncidents).toBe(0);
+    expect(result.incidents.map((incident) => incident.id)).toEqual([
+      "INC-1",
+      "deployment-d1",
+    ]);
+    expect(result.weeklyData).toHaveLength(2);
+    expect(result.weeklyData.map((week) => week.medianHours)).toEqual([2, 6]);
+  });
+
+  it("should report insufficient data without incidents", () => {
+    const result = new CalculateTimeToRestore().execute([], [], dateRange);
+
+    expect(result.level).toBe(DORALevel.INSUFFICIENT_DATA);
+    expect(result.incidents).toEqual([]);
+    expect(result.weeklyData).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { CompareTeams } from "../CompareTeams";
+import {
+  GitCommit,
+  PullRequest,
+  ReviewState,
+} from "@/domain/interfaces/IGitHubRepository";
+import { DORALevel } from "@/domain/value-objects/DORABenchmark";
+import { Team, TeamSource } from "@/domain/value-objects/Team";
+
+function createTeam(name: string, members: string[]): Team {
+  const result = Team.create({
+    id: "",
+    name,
+    members,
+    source: TeamSource.MANUAL,
+  });
+  if (!result.ok) throw result.error;
+  return result.value;
+}
+
+function createPR(overrides: Partial<PullRequest>): PullRequest {
+  return {
+    number: 1,
+    title: "Change",
+    author: "alice",
+    createdAt: new Date(2024, 0, 2, 9),
+    state: "merged",
+    reviewCommentCount: 0,
+    ...overrides,
+  };
+}
+
+function createCommit(overrides: Partial<GitCommit>): GitCommit {
+  return {
+    hash: "abc",
+    author: "alice",
+    email: "alice@example.com",
+    date: new Date(2024, 0, 2, 9),
+    message: "Change",
+    filesChanged: 1,
+    linesAdded: 1,
+    linesDeleted: 0,
+    ...overrides,
+  };
+}
+
+describe("CompareTeams", () => {
+  const useCase = new CompareTeams();
+  // Monday January 1st to Sunday January 14th
+  const dateRange = {
+    start: new Date(2024, 0, 1),
+    end: new Date(2024, 0, 14, 23, 59),
+  };
+  const web = createTeam("Web", ["alice", "bob"]);
+  const mobile = createTeam("Mobile", ["carol"]);
+
+  it("should count merged PRs, commits and reviews of each team", () => {
+    const result = useCase.execute({
+      teams: [web, mobile],
+      pullRequests: [
+        createPR({
+          number: 1,
+          author: "Alice",
+          mergedAt: new Date(2024, 0, 2, 13),
+          reviews: [
+            {
+              author: "carol",
+              state: ReviewState.APPROVED,
+              submittedAt: new Date(2024, 0, 2, 12),
+            },
+            {
+              author: "alice",
+              state: ReviewState.COMMENTED,
+              submittedAt: new Date(2024, 0, 2, 12),
+            },
+          ],
+        }),
+        createPR({
+          number: 2,
+          author: "bob",
+          createdAt: new Date(2024, 0, 9, 9),
+          mergedAt: new Date(2024, 0, 9, 15),
+        }),
+        createPR({ number: 3, author: "carol", state: "open" }),
+        createPR({
+          number: 4,
+          author: "dave",
+          mergedAt: new Date(2024, 0, 3),
+        }),
+      ],
+      commits: [
+        createCommit({ hash: "a" }),
+        createCommit({ hash: "b", author: "Bob", email: "bob@example.com" }),
+        createCommit({ hash: "c", author: "dave", email: "dave@example.com" }),
+      ],
+      deploymentSources: { releases: [], deployments: [], tags: [] },
+      dateRange,
+    });
+
+    expect(result.teams).toEqual([
+      {
+        teamId: "web",
+        name: "Web",
+        memberCount: 2,
+        activeMembers: 2,
+        mergedPullRequests: 2,
+        medianHoursToMerge: 5,
+        commits: 2,
+        reviews: 0,
+        deployments: 0,
+        deploymentLevel: DORALevel.INSUFFICIENT_DATA,
+      },
+      {
+        teamId: "mobile",
+        name: "Mobile",
+        memberCount: 1,
+        activeMembers: 1,
+        mergedPullRequests: 0,
+        medianHoursToMerge: null,
+        commits: 0,
+        reviews: 1,
+        deployments: 0,
+        deploymentLevel: DORALevel.INSUFFICIENT_DATA,
+      },
+    ]);
+  });
+
+  it("should report merged PRs per week for every week of the range", () => {
+    const result = useCase.execute({
+      teams: [web, mobile],
+      pullRequests: [
+        createPR({ number: 1, mergedAt: new Date(2024, 0, 2, 13) }),
+        createPR({ number: 2, mergedAt: new Date(2024, 0, 3, 13) }),
+      ],
+      commits: [],
+      deploymentSources: { releases: [], deployments: [], tags: [] },
+      dateRange,
+    });
+
+    expect(result.weeks).toEqual([
+      { weekStart: "2024-01-01", mergedPullRequests: { web: 2, mobile: 0 } },
+      { weekStart: "2024-01-08", mergedPullRequests: { web: 0, mobile: 0 } },
+    ]);
+  });
+
+  it("should count deployments that shipped a member commit", () => {
+    const result = useCase.execute({
+      teams: [web, mobile],
+      pullRequests: [],
+      commits: [
+        createCommit({ hash: "a", date: new Date(2024, 0, 2) }),
+        createCommit({
+          hash: "b",
+          author: "carol",
+          email: "carol@example.com",
+          date: new Date(2024, 0, 4),
+        }),
+      ],
+      deploymentSources: {
+        releases: [],
+        deployments: [],
+        tags: [
+          {
+            name: "v1.0.0",
+            target: { committedDate: new Date(2024, 0, 3).toISOString() },
+          },
+          {
+            name: "v1.1.0",
+            target: { committedDate: new Date(2024, 0, 5).toISOString() },
+          },
+          {
+            name: "v1.2.0",
+            target: { committedDate: new Date(2024, 0, 6).toISOString() },
+          },
+        ],
+      },
+      dateRange,
+    });
+
+    expect(result.teams.map((team) => team.deployments)).toEqual([1, 1]);
+  });
+});
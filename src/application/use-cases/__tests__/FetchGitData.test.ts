@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MockSessionProvider } from "@/infrastructure/auth/__mocks__/MockSessionProvider";
+import { MockStoragePort } from "@/infrastructure/storage/__mocks__/MockStoragePort";
+
+vi.mock("@octokit/graphql");
+
+import { graphql, GraphqlResponseError } from "@octokit/graphql";
+import { FetchGitData } from "../FetchGitData";
+import { OctokitAdapter } from "@/infrastructure/github/OctokitAdapter";
+import { RetryPolicy } from "@/infrastructure/github/RetryPolicy";
+import { DateRange } from "@/domain/value-objects/DateRange";
+import { AnalysisSection } from "@/domain/types";
+
+const mockGraphql = vi.mocked(graphql);
+(mockGraphql as any).defaults = vi.fn().mockReturnValue(mockGraphql);
+
+const rateLimit = {
+  limit: 5000,
+  cost: 1,
+  remaining: 4999,
+  resetAt: new Date(Date.now() + 3600000).toISOString(),
+};
+
+function secondaryRateLimitError(): GraphqlResponseError<
+  Record<string, unknown>
+> {
+  const error = Object.create(GraphqlResponseError.prototype);
+  error.name = "GraphqlResponseError";
+  error.message = "You have exceeded a secondary rate limit";
+  error.errors = [];
+  error.request = { query: "", variables: {} };
+  error.headers = { status: "403" };
+  return error;
+}
+
+function commitsPage(oid: string, endCursor: string | null) {
+  return {
+    repository: {
+      defaultBranchRef: {
+        target: {
+          history: {
+            nodes: [
+              {
+                oid,
+                author: {
+                  name: "Ada",
+                  email: "ada@example.com",
+                  date: "2024-01-10T00:00:00Z",
+                },
+                committedDate: "2024-01-10T00:00:00Z",
+                message: `Commit ${oid}`,
+                additions: 1,
+                deletions: 0,
+                changedFilesIfAvailable: 1,
+                parents: { totalCount: 1 },
+              },
+            ],
+            pageInfo: { hasNextPage: endCursor !== null, endCursor },
+          },
+        },
+      },
+    },
+    rateLimit,
+  };
+}
+
+describe("FetchGitData", () => {
+  let storage: MockStoragePort;
+  let useCase: FetchGitData;
+  let dateRange: DateRange;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = new MockStoragePort();
+    useCase = new FetchGitData(
+      new OctokitAdapter(new MockSessionProvider("test-token"), {
+        syncStorage: () => storage,
+        retryPolicy: new RetryPolicy({
+          sleep: async () => {},
+          retryBudget: 0,
+        }),
+      }),
+    );
+    const rangeResult = DateRange.create(
+      new Date("2024-01-01T00:00:00Z"),
+      new Date("2024-01-31T00:00:00Z"),
+    );
+    if (!rangeResult.ok) throw rangeResult.error;
+    dateRange = rangeResult.value;
+  });
+
+  it("should resume streamed commits from the cursor saved at the rate limit", async () => {
+    let commitRequests = 0;
+    const commitCursors: Array<string | null | undefined> = [];
+    mockGraphql.mockImplementation((async (
+      query: string,
+      variables: { after?: string | null },
+    ) => {
+      if (query.includes("ValidateRepoAccess")) {
+        return { repository: { id: "1" } };
+      }
+      if (query.includes("GetCommits")) {
+        commitRequests++;
+        commitCursors.push(variables.after);
+        if (commitRequests === 1) {
+          return commitsPage("c2", "cursor1");
+        }
+        if (commitRequests === 2) {
+          throw secondaryRateLimitError();
+        }
+        return variables.after === "cursor1"
+          ? commitsPage("c1", null)
+          : commitsPage("c2", "cursor1");
+      }
+      return {
+        repository: {
+          pullRequests: {
+            nodes: [],
+            pageInfo: { hasNextPage: false, endCursor: null },
+          },
+        },
+        rateLimit,
+      };
+    }) as any);
+    const input = {
+      repositoryUrl: "https://github.com/owner/repo",
+      dateRange,
+    };
+
+    const partial = await useCase.execute(input);
+
+    expect(partial.ok).toBe(true);
+    if (partial.ok) {
+      expect(partial.value.commits.map((commit) => commit.hash)).toEqual([
+        "c2",
+      ]);
+      expect(partial.value.incomplete?.sections).toContain(
+        AnalysisSection.COMMITS,
+      );
+    }
+
+    const resumed = await useCase.execute(input);
+
+    expect(commitRequests).toBe(3);
+    expect(commitCursors[2]).toBe("cursor1");
+    expect(resumed.ok).toBe(true);
+    if (resumed.ok) {
+      expect(resumed.value.commits.map((commit) => commit.hash)).toEqual([
+        "c2",
+        "c1",
+      ]);
+      expect(resumed.value.incomplete).toBeUndefined();
+    }
+  });
+});
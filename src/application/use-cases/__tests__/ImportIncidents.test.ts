@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ImportIncidents } from "../ImportIncidents";
+import { IncidentStorageAdapter } from "@/infrastructure/storage/IncidentStorageAdapter";
+import { MockStoragePort } from "@/infrastructure/storage/__mocks__/MockStoragePort";
+
+describe("ImportIncidents", () => {
+  let repository: IncidentStorageAdapter;
+  let useCase: ImportIncidents;
+
+  beforeEach(() => {
+    repository = new IncidentStorageAdapter(new MockStoragePort());
+    useCase = new ImportIncidents(repository);
+  });
+
+  it("should resolve a previously opened incident by id", async () => {
+    await useCase.execute("owner/repo", [
+      {
+        id: "INC-1",
+        title: "API errors",
+        openedAt: new Date("2024-01-01T00:00:00Z"),
+      },
+    ]);
+    const result = await useCase.execute("owner/repo", [
+      { id: "INC-1", resolvedAt: new Date("2024-01-01T01:00:00Z") },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: { imported: 1, skipped: 0, total: 1 },
+    });
+
+    const stored = await repository.getIncidents("owner/repo");
+    expect(stored.ok).toBe(true);
+    if (!stored.ok) return;
+    expect(stored.value[0]?.title).toBe("API errors");
+    expect(stored.value[0]?.restoreHours).toBe(1);
+  });
+
+  it("should skip records without an open time or with inverted times", async () => {
+    const result = await useCase.execute("owner/repo", [
+      { id: "INC-2", resolvedAt: new Date("2024-01-01T01:00:00Z") },
+      {
+        id: "INC-3",
+        openedAt: new Date("2024-01-02T00:00:00Z"),
+        resolvedAt: new Date("2024-01-01T00:00:00Z"),
+      },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: { imported: 0, skipped: 2, total: 0 },
+    });
+  });
+
+  it("should keep incidents of other repositories separate", async () => {
+    await useCase.execute("owner/repo", [
+      { id: "INC-1", openedAt: new Date("2024-01-01T00:00:00Z") },
+    ]);
+
+    const other = await repository.getIncidents("owner/other");
+    expect(other).toEqual({ ok: true, value: [] });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ImportTeams } from "../ImportTeams";
+import { Team, TeamSource } from "@/domain/value-objects/Team";
+import { TeamStorageAdapter } from "@/infrastructure/storage/TeamStorageAdapter";
+import { MockStoragePort } from "@/infrastructure/storage/__mocks__/MockStoragePort";
+import { ok } from "@/lib/result";
+
+describe("ImportTeams", () => {
+  let repository: TeamStorageAdapter;
+  let useCase: ImportTeams;
+
+  beforeEach(() => {
+    repository = new TeamStorageAdapter(new MockStoragePort());
+    useCase = new ImportTeams(repository);
+  });
+
+  it("should import organization teams by slug", async () => {
+    const result = await useCase.execute("acme", [
+      { slug: "platform", name: "Platform", members: ["Alice", "bob"] },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: { imported: 1, skipped: 0, total: 1 },
+    });
+
+    const stored = await repository.getTeams("acme");
+    expect(stored.ok).toBe(true);
+    if (!stored.ok) return;
+    expect(stored.value.map((team) => team.toProps())).toEqual([
+      {
+        id: "platform",
+        name: "Platform",
+        members: ["alice", "bob"],
+        source: TeamSource.GITHUB,
+      },
+    ]);
+  });
+
+  it("should keep manual teams and skip imported teams with their id", async () => {
+    const manual = Team.create({
+      id: "platform",
+      name: "Platform",
+      members: ["carol"],
+      source: TeamSource.MANUAL,
+    });
+    if (!manual.ok) throw manual.error;
+    await repository.updateTeams("acme", () => ok([manual.value]));
+
+    const result = await useCase.execute("acme", [
+      { slug: "platform", name: "Platform", members: ["alice"] },
+      { slug: "mobile", name: "Mobile", members: ["bob"] },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: { imported: 1, skipped: 1, total: 2 },
+    });
+
+    const stored = await repository.getTeams("acme");
+    expect(stored.ok).toBe(true);
+    if (!stored.ok) return;
+    expect(stored.value[0]?.members).toEqual(["carol"]);
+  });
+
+  it("should remove imported teams that no longer exist", async () => {
+    await useCase.execute("acme", [
+      { slug: "platform", name: "Platform", members: [] },
+      { slug: "mobile", name: "Mobile", members: [] },
+    ]);
+    await useCase.execute("acme", [
+      { slug: "mobile", name: "Mobile", members: [] },
+    ]);
+
+    const stored = await repository.getTeams("acme");
+    expect(stored.ok).toBe(true);
+    if (!stored.ok) return;
+    expect(stored.value.map((team) => team.id)).toEqual(["mobile"]);
+  });
+});
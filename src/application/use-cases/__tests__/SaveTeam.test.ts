@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SaveTeam } from "../SaveTeam";
+import { Team, TeamSource } from "@/domain/value-objects/Team";
+import { TeamStorageAdapter } from "@/infrastructure/storage/TeamStorageAdapter";
+import { MockStoragePort } from "@/infrastructure/storage/__mocks__/MockStoragePort";
+import { ok } from "@/lib/result";
+
+describe("SaveTeam", () => {
+  let repository: TeamStorageAdapter;
+  let useCase: SaveTeam;
+
+  beforeEach(() => {
+    repository = new TeamStorageAdapter(new MockStoragePort());
+    useCase = new SaveTeam(repository);
+  });
+
+  it("should create a team with an id derived from its name", async () => {
+    const result = await useCase.execute("acme", {
+      name: "Web Frontend",
+      members: ["alice"],
+    });
+
+    expect(result.ok).toBe(true);
+    const stored = await repository.getTeams("ACME");
+    expect(stored.ok).toBe(true);
+    if (!stored.ok) return;
+    expect(stored.value.map((team) => team.toProps())).toEqual([
+      {
+        id: "web-frontend",
+        name: "Web Frontend",
+        members: ["alice"],
+        source: TeamSource.MANUAL,
+      },
+    ]);
+  });
+
+  it("should reject a new team whose id is taken", async () => {
+    await useCase.execute("acme", { name: "Web Frontend", members: [] });
+    const result = await useCase.execute("acme", {
+      name: "web frontend",
+      members: [],
+    });
+
+    expect(result.ok).toBe(false);
+  });
+
+  it("should keep every team of concurrent saves", async () => {
+    await Promise.all([
+      useCase.execute("acme", { name: "Web", members: [] }),
+      useCase.execute("ACME", { name: "Mobile", members: [] }),
+      useCase.execute("acme", { name: "Platform", members: [] }),
+    ]);
+
+    const stored = await repository.getTeams("acme");
+    expect(stored.ok).toBe(true);
+    if (!stored.ok) return;
+    expect(stored.value.map((team) => team.id)).toEqual([
+      "web",
+      "mobile",
+      "platform",
+    ]);
+  });
+
+  it("should keep the id and position of an updated team", async () => {
+    await useCase.execute("acme", { name: "Web", members: ["alice"] });
+    await useCase.execute("acme", { name: "Mobile", members: ["bob"] });
+    await useCase.execute("acme", {
+      id: "web",
+      name: "Web Platform",
+      members: ["alice", "carol"],
+    });
+
+    const stored = await repository.getTeams("acme");
+    expect(stored.ok).toBe(true);
+    if (!stored.ok) return;
+    expect(stored.value.map((team) => [team.id, team.name])).toEqual([
+      ["web", "Web Platform"],
+      ["mobile", "Mobile"],
+    ]);
+    expect(stored.value[0]?.members).toEqual(["alice", "carol"]);
+  });
+
+  it("should turn an edited imported team into a manual team", async () => {
+    const imported = Team.create({
+      id: "core",
+      name: "Core",
+      members: ["alice"],
+      source: TeamSource.GITHUB,
+    });
+    if (!imported.ok) throw imported.error;
+    await repository.updateTeams("acme", () => ok([imported.value]));
+
+    const result = await useCase.execute("acme", {
+      id: "core",
+      name: "Core",
+      members: ["alice", "bob"],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.source).toBe(TeamSource.MANUAL);
+  });
+
+  it("should fail to update a missing team", async () => {
+    const result = await useCase.execute("acme", {
+      id: "missing",
+      name: "Missing",
+      members: [],
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.message).toBe("Team not found: missing");
+  });
+});
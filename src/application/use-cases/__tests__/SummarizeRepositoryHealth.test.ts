@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import { SummarizeRepositoryHealth } from "../SummarizeRepositoryHealth";
+import {
+  Deployment,
+  OwnerRepository,
+} from "@/domain/interfaces/IGitHubRepository";
+import { DORALevel } from "@/domain/value-objects/DORABenchmark";
+
+const NOW = new Date("2024-03-31T00:00:00Z");
+
+function createRepository(
+  overrides: Partial<OwnerRepository> = {},
+): OwnerRepository {
+  return {
+    name: "api",
+    description: null,
+    isPrivate: false,
+    isArchived: false,
+    isFork: false,
+    primaryLanguage: "TypeScript",
+    pushedAt: "2024-03-30T00:00:00Z",
+    openPullRequestCount: 0,
+    oldestOpenPullRequestAt: null,
+    mergedPullRequestCount: 0,
+    latestRelease: null,
+    recentReleases: [],
+    recentDeployments: [],
+    recentItemLimit: 3,
+    ...overrides,
+  };
+}
+
+function createDeployment(id: string, at: string): Deployment {
+  return {
+    id,
+    createdAt: at,
+    environment: "production",
+    state: "SUCCESS",
+    ref: "main",
+    latestStatus: { state: "SUCCESS", createdAt: at },
+  };
+}
+
+function summarize(repository: OwnerRepository) {
+  const result = new SummarizeRepositoryHealth().execute(
+    "acme",
+    [repository],
+    undefined,
+    NOW,
+  );
+  return result.repositories[0]!;
+}
+
+describe("SummarizeRepositoryHealth", () => {
+  it("should identify repositories for the analytics page", () => {
+    const result = new SummarizeRepositoryHealth().execute(
+      "ghe.example.com/acme",
+      [createRepository({ name: "api" }), createRepository({ name: "web" })],
+      undefined,
+      NOW,
+    );
+
+    expect(result.owner).toBe("ghe.example.com/acme");
+    expect(result.windowDays).toBe(30);
+    expect(result.repositories.map((r) => r.repositoryId)).toEqual([
+      "ghe.example.com/acme/api",
+      "ghe.example.com/acme/web",
+    ]);
+  });
+
+  describe("status", () => {
+    it("should be active when pushed recently without long-waiting PRs", () => {
+      const summary = summarize(
+        createRepository({
+          openPullRequestCount: 2,
+          oldestOpenPullRequestAt: "2024-03-25T00:00:00Z",
+        }),
+      );
+
+      expect(summary.status).toBe("active");
+      expect(summary.daysSinceLastPush).toBe(1);
+      expect(summary.openPullRequests).toBe(2);
+      expect(summary.oldestOpenPullRequestDays).toBe(6);
+    });
+
+    it("should need attention when a PR has been open over two weeks", () => {
+      const summary = summarize(
+        createRepository({
+          openPullRequestCount: 1,
+          oldestOpenPullRequestAt: "2024-03-01T00:00:00Z",
+        }),
+      );
+
+      expect(summary.status).toBe("attention");
+      expect(summary.oldestOpenPullRequestDays).toBe(30);
+    });
+
+    it("should be stale without a push for 90 days or without any push", () => {
+      expect(
+        summarize(createRepository({ pushedAt: "2023-12-01T00:00:00Z" }))
+          .status,
+      ).toBe("stale");
+
+      const neverPushed = summarize(createRepository({ pushedAt: null }));
+      expect(neverPushed.status).toBe("stale");
+      expect(neverPushed.daysSinceLastPush).toBeNull();
+    });
+
+    it("should be archived regardless of activity", () => {
+      expect(summarize(createRepository({ isArchived: true })).status).toBe(
+        "archived",
+      );
+    });
+  });
+
+  describe("window counts", () => {
+    it("should report the merged PR count of the adapter", () => {
+      const summary = summarize(
+        createRepository({ mergedPullRequestCount: 42 }),
+      );
+
+      expect(summary.mergedPullRequests).toBe(42);
+    });
+
+    it("should start the window 30 days before now", () => {
+      expect(SummarizeRepositoryHealth.windowStart(NOW)).toEqual(
+        new Date("2024-03-01T00:00:00Z"),
+      );
+    });
+
+    it("should flag counts when every item read is within the window", () => {
+      const summary = summarize(
+        createRepository({
+          recentDeployments: [
+            createDeployment("d1", "2024-03-29T00:00:00Z"),
+            createDeployment("d2", "2024-03-19T00:00:00Z"),
+            createDeployment("d3", "2024-03-09T00:00:00Z"),
+          ],
+        }),
+      );
+
+      expect(summary.deployments).toBe(3);
+      expect(summary.deploymentsCapped).toBe(true);
+    });
+
+    it("should count deployments and published releases as deployment events", () => {
+      const summary = summarize(
+        createRepository({
+          recentDeployments: [
+            createDeployment("d1", "2024-03-29T00:00:00Z"),
+            createDeployment("d0", "2024-01-15T00:00:00Z"),
+          ],
+          recentReleases: [
+            {
+              name: "v1.1.0",
+              tagName: "v1.1.0",
+              createdAt: "2024-03-15T00:00:00Z",
+              publishedAt: "2024-03-15T00:00:00Z",
+              isPrerelease: false,
+              isDraft: false,
+            },
+            {
+              name: "v1.2.0",
+              tagName: "v1.2.0",
+              createdAt: "2024-03-20T00:00:00Z",
+              publishedAt: null,
+              isPrerelease: false,
+              isDraft: true,
+            },
+          ],
+          latestRelease: {
+            tagName: "v1.1.0",
+            publishedAt: "2024-03-15T00:00:00Z",
+          },
+        }),
+      );
+
+      expect(summary.deployments).toBe(2);
+      expect(summary.deploymentsCapped).toBe(false);
+      expect(summary.latestRelease?.tagName).toBe("v1.1.0");
+    });
+  });
+
+  describe("deployment level", () => {
+    it("should classify deployments in the window against the benchmark", () => {
+      const summary = summarize(
+        createRepository({
+          recentDeployments: [
+            createDeployment("d1", "2024-03-29T00:00:00Z"),
+            createDeployment("d2", "2024-03-19T00:00:00Z"),
+            createDeployment("d3", "2024-03-09T00:00:00Z"),
+          ],
+          recentItemLimit: 30,
+        }),
+      );
+
+      // 3 deployments in 30 days is about 36 per year
+      expect(summary.deploymentLevel).toBe(DORALevel.MEDIUM);
+    });
+
+    it("should report insufficient data without deployments", () => {
+      expect(summarize(createRepository()).deploymentLevel).toBe(
+        DORALevel.INSUFFICIENT_DATA,
+      );
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Cache Configuration
+ *
+ * Centralized TTL and size limits for the GitHub response cache.
+ * Values follow specs/007-progressive-loading/research.md.
+ */
+
+export const CACHE_CONFIG = {
+  /**
+   * TTL for ranges that end within HISTORICAL_THRESHOLD_DAYS (1 hour)
+   */
+  ACTIVE_REPO_TTL: 60 * 60 * 1000,
+
+  /**
+   * TTL for ranges that end before HISTORICAL_THRESHOLD_DAYS (7 days)
+   * Historical data rarely changes, so it can be kept much longer
+   */
+  HISTORICAL_DATA_TTL: 7 * 24 * 60 * 60 * 1000,
+
+  /**
+   * Ranges ending more than this many days ago are treated as historical
+   */
+  HISTORICAL_THRESHOLD_DAYS: 90,
+
+  /**
+   * Maximum total size of cached data (50 MB)
+   */
+  MAX_CACHE_SIZE: 50 * 1024 * 1024,
+
+  /**
+   * Maximum number of cache entries
+   */
+  MAX_ENTRIES: 1000,
+
+  /**
+   * Trigger eviction at 80% capacity
+   */
+  EVICTION_THRESHOLD: 0.8,
+
+  /**
+   * Evict down to 60% capacity
+   */
+  EVICTION_TARGET: 0.6,
+
+  /**
+   * Directory for the server-side file cache (relative to process.cwd())
+   * Override with the CACHE_DIR environment variable
+   */
+  SERVER_CACHE_DIR: ".cache/team-insights",
+
+  /**
+   * IndexedDB settings for the browser cache
+   */
+  DB_NAME: "team-insights-cache",
+  DB_VERSION: 1,
+  STORE_NAME: "cache-entries",
+} as const;
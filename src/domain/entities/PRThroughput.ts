@@ -32,60 +32,88 @@ export class PRThroughput {
     pullRequests: PullRequest[],
     dateRange: DateRange,
   ): Result<PRThroughput> {
-    // Validate repositoryUrl is not empty
-    if (!repositoryUrl || repositoryUrl.trim().length === 0) {
-      return err(new Error("Repository URL cannot be empty"));
+    // Convert merged PRs to PRThroughputData
+    const prDataResults: PRThroughputData[] = [];
+    for (const pr of pullRequests) {
+      const prDataResult = PRThroughput.toThroughputData(pr);
+      if (!prDataResult.ok) {
+        return err(prDataResult.error);
+      }
+      if (prDataResult.value) {
+        prDataResults.push(prDataResult.value);
+      }
     }
 
-    // Validate date range
-    if (dateRange.end < dateRange.start) {
-      return err(new Error("Date range end cannot be before start"));
+    return PRThroughput.fromData(repositoryUrl, prDataResults, dateRange);
+  }
+
+  /**
+   * Convert a merged pull request to throughput data
+   *
+   * @param pr - Pull request (including throughput fields when merged)
+   * @returns Result with the PR's throughput data, or null if it is not merged
+   */
+  static toThroughputData(pr: PullRequest): Result<PRThroughputData | null> {
+    // Merged PRs only
+    if (pr.state !== "merged" || !pr.mergedAt) {
+      return ok(null);
     }
 
-    // Filter merged PRs only
-    const mergedPRs = pullRequests.filter(
-      (pr) => pr.state === "merged" && pr.mergedAt,
-    );
+    // Validate required fields exist for merged PRs
+    if (pr.additions === undefined) {
+      return err(new Error(`PR #${pr.number} is missing additions field`));
+    }
+    if (pr.deletions === undefined) {
+      return err(new Error(`PR #${pr.number} is missing deletions field`));
+    }
+    if (pr.changedFiles === undefined) {
+      return err(new Error(`PR #${pr.number} is missing changedFiles field`));
+    }
 
-    // Convert to PRThroughputData
-    const prDataResults: PRThroughputData[] = [];
-    for (const pr of mergedPRs) {
-      // Validate required fields exist for merged PRs
-      if (!pr.mergedAt) {
-        return err(
-          new Error(`PR #${pr.number} is marked as merged but has no mergedAt`),
-        );
-      }
-      if (pr.additions === undefined) {
-        return err(new Error(`PR #${pr.number} is missing additions field`));
-      }
-      if (pr.deletions === undefined) {
-        return err(new Error(`PR #${pr.number} is missing deletions field`));
-      }
-      if (pr.changedFiles === undefined) {
-        return err(new Error(`PR #${pr.number} is missing changedFiles field`));
-      }
+    const prDataResult = PRThroughputData.create({
+      prNumber: pr.number,
+      title: pr.title,
+      author: pr.author,
+      createdAt: pr.createdAt,
+      mergedAt: pr.mergedAt,
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changedFiles: pr.changedFiles,
+    });
 
-      const prDataResult = PRThroughputData.create({
-        prNumber: pr.number,
-        title: pr.title,
-        author: pr.author,
-        createdAt: pr.createdAt,
-        mergedAt: pr.mergedAt,
-        additions: pr.additions,
-        deletions: pr.deletions,
-        changedFiles: pr.changedFiles,
-      });
+    if (!prDataResult.ok) {
+      return err(
+        new Error(
+          `Failed to create PRThroughputData for PR #${pr.number}: ${prDataResult.error.message}`,
+        ),
+      );
+    }
 
-      if (!prDataResult.ok) {
-        return err(
-          new Error(
-            `Failed to create PRThroughputData for PR #${pr.number}: ${prDataResult.error.message}`,
-          ),
-        );
-      }
+    return prDataResult;
+  }
 
-      prDataResults.push(prDataResult.value);
+  /**
+   * Factory method to create PRThroughput from throughput data of merged PRs
+   * (e.g. collected incrementally while PRs are streamed)
+   *
+   * @param repositoryUrl - Repository URL for context
+   * @param prDataResults - Throughput data of the merged PRs
+   * @param dateRange - Date range of analysis
+   * @returns Result with PRThroughput entity or error
+   */
+  static fromData(
+    repositoryUrl: string,
+    prDataResults: PRThroughputData[],
+    dateRange: DateRange,
+  ): Result<PRThroughput> {
+    // Validate repositoryUrl is not empty
+    if (!repositoryUrl || repositoryUrl.trim().length === 0) {
+      return err(new Error("Repository URL cannot be empty"));
+    }
+
+    // Validate date range
+    if (dateRange.end < dateRange.start) {
+      return err(new Error("Date range end cannot be before start"));
     }
 
     // Group by size bucket
@@ -1,9 +1,17 @@
 import { Result, ok, err } from "@/lib/result";
 import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
 import { DateRange } from "@/domain/value-objects/DateRange";
-import { AnalysisStatus } from "@/domain/types";
+import { AnalysisSection, AnalysisStatus } from "@/domain/types";
 import { Contributor } from "./Contributor";
 
+/**
+ * What a partial analysis is missing and when it can be resumed
+ */
+export interface IncompleteAnalysis {
+  sections: AnalysisSection[];
+  resumeAt: Date; // Rate limit reset
+}
+
 export class RepositoryAnalysis {
   private constructor(
     public readonly id: string,
@@ -13,6 +21,7 @@ export class RepositoryAnalysis {
     public readonly status: AnalysisStatus,
     public readonly contributors: Contributor[],
     public readonly errorMessage: string | null,
+    public readonly incomplete: IncompleteAnalysis | null,
   ) {}
 
   static create(params: {
@@ -23,6 +32,7 @@ export class RepositoryAnalysis {
     status: AnalysisStatus;
     contributors: Contributor[];
     errorMessage?: string | null;
+    incomplete?: IncompleteAnalysis | null;
   }): Result<RepositoryAnalysis> {
     // Validate ID
     if (!params.id || params.id.trim().length === 0) {
@@ -45,6 +55,16 @@ export class RepositoryAnalysis {
       );
     }
 
+    // Business rule: A partial analysis must say what is missing
+    if (
+      params.status === AnalysisStatus.PARTIAL &&
+      (!params.incomplete || params.incomplete.sections.length === 0)
+    ) {
+      return err(
+        new Error("Incomplete sections are required when status is partial"),
+      );
+    }
+
     // Business rule: Error message required if status is failed
     if (params.status === AnalysisStatus.FAILED && !params.errorMessage) {
       return err(new Error("Error message is required when status is failed"));
@@ -59,6 +79,7 @@ export class RepositoryAnalysis {
         params.status,
         params.contributors,
         params.errorMessage ?? null,
+        params.incomplete ?? null,
       ),
     );
   }
@@ -99,6 +120,30 @@ export class RepositoryAnalysis {
     });
   }
 
+  /**
+   * Complete with the data fetched before the rate limit ran out
+   * Contributors may be empty when the commits section is incomplete.
+   */
+  completePartially(
+    contributors: Contributor[],
+    incomplete: IncompleteAnalysis,
+  ): Result<RepositoryAnalysis> {
+    if (this.status !== AnalysisStatus.IN_PROGRESS) {
+      return err(new Error("Can only complete analysis that is in progress"));
+    }
+
+    return RepositoryAnalysis.create({
+      id: this.id,
+      repositoryUrl: this.repositoryUrl,
+      analyzedAt: this.analyzedAt,
+      dateRange: this.dateRange,
+      status: AnalysisStatus.PARTIAL,
+      contributors,
+      errorMessage: null,
+      incomplete,
+    });
+  }
+
   fail(errorMessage: string): Result<RepositoryAnalysis> {
     if (this.status !== AnalysisStatus.IN_PROGRESS) {
       return err(new Error("Can only fail analysis that is in progress"));
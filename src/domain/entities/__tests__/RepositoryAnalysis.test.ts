@@ -2,7 +2,7 @@ import { describe, it, expect } from "vitest";
 import { RepositoryAnalysis } from "@/domain/entities/RepositoryAnalysis";
 import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
 import { DateRange } from "@/domain/value-objects/DateRange";
-import { AnalysisStatus } from "@/domain/types";
+import { AnalysisSection, AnalysisStatus } from "@/domain/types";
 
 describe("RepositoryAnalysis", () => {
   const createValidParams = () => {
@@ -191,6 +191,40 @@ describe("RepositoryAnalysis", () => {
     });
   });
 
+  describe("completePartially", () => {
+    it("should keep the incomplete sections and allow no contributors", () => {
+      const analysisResult = RepositoryAnalysis.create(createValidParams());
+      expect(analysisResult.ok).toBe(true);
+
+      if (analysisResult.ok) {
+        const resumeAt = new Date("2024-01-01T01:00:00Z");
+        const partialResult = analysisResult.value.completePartially([], {
+          sections: [AnalysisSection.REVIEW_COMMENTS],
+          resumeAt,
+        });
+
+        expect(partialResult.ok).toBe(true);
+        if (partialResult.ok) {
+          expect(partialResult.value.status).toBe(AnalysisStatus.PARTIAL);
+          expect(partialResult.value.incomplete).toEqual({
+            sections: [AnalysisSection.REVIEW_COMMENTS],
+            resumeAt,
+          });
+        }
+      }
+    });
+
+    it("should reject a partial analysis without incomplete sections", () => {
+      const result = RepositoryAnalysis.create({
+        ...createValidParams(),
+        status: AnalysisStatus.PARTIAL,
+        incomplete: { sections: [], resumeAt: new Date() },
+      });
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
   describe("fail", () => {
     it("should transition from in-progress to failed", () => {
       const urlResult = RepositoryUrl.create("https://github.com/owner/repo");
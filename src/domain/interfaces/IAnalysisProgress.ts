@@ -0,0 +1,51 @@
+/**
+ * Stages of a repository analysis, in order
+ */
+export const AnalysisStage = {
+  VALIDATING: "validating",
+  FETCHING: "fetching", // Commits and pull requests
+  REVIEW_COMMENTS: "review_comments",
+  CALCULATING: "calculating",
+  COMPLETED: "completed",
+} as const;
+export type AnalysisStage = (typeof AnalysisStage)[keyof typeof AnalysisStage];
+
+/**
+ * Kinds of progress events
+ */
+export const ProgressEventType = {
+  STAGE: "stage",
+  PAGE_FETCHED: "page_fetched",
+  PULL_REQUESTS_PROCESSED: "pull_requests_processed",
+  RATE_LIMIT_WAIT: "rate_limit_wait",
+} as const;
+export type ProgressEventType =
+  (typeof ProgressEventType)[keyof typeof ProgressEventType];
+
+/**
+ * Progress event emitted while an analysis runs
+ *
+ * - STAGE: the analysis moved to a new stage
+ * - PAGE_FETCHED: one API page was fetched (items on that page)
+ * - PULL_REQUESTS_PROCESSED: a review comment batch finished
+ *   (cumulative count of PRs whose comments were fetched)
+ * - RATE_LIMIT_WAIT: requests are paused for a rate limit or retry backoff
+ */
+export type AnalysisProgressEvent =
+  | { type: typeof ProgressEventType.STAGE; stage: AnalysisStage }
+  | {
+      type: typeof ProgressEventType.PAGE_FETCHED;
+      resource: "pull_requests" | "commits";
+      items: number;
+    }
+  | {
+      type: typeof ProgressEventType.PULL_REQUESTS_PROCESSED;
+      processed: number;
+      total: number;
+    }
+  | { type: typeof ProgressEventType.RATE_LIMIT_WAIT; waitMs: number };
+
+/**
+ * Receives progress events; must not throw
+ */
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
@@ -0,0 +1,142 @@
+/**
+ * Kinds of GitHub data (and results derived from it) stored in the cache
+ */
+export const DataType = {
+  PULL_REQUESTS: "pull_requests",
+  DEPLOYMENTS: "deployments",
+  COMMITS: "commits",
+  RELEASES: "releases",
+  TAGS: "tags",
+  REPOSITORIES: "repositories",
+  CONTRIBUTORS: "contributors", // Contributor analysis results (Team tab)
+} as const;
+export type DataType = (typeof DataType)[keyof typeof DataType];
+
+/**
+ * Date range covered by a cache entry
+ */
+export interface CachedDateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Cached data with metadata for staleness detection and LRU eviction
+ */
+export interface CachedDataEntry {
+  key: string; // Format: "repo:{owner}/{name}:type:{dataType}:range:{start}:{end}"
+  repositoryId: string; // Format: "{owner}/{name}"
+  dataType: DataType;
+  dateRange: CachedDateRange;
+  data: unknown; // JSON-safe serialized PR/deployment/commit data
+  cachedAt: Date;
+  expiresAt: Date;
+  lastAccessedAt: Date;
+  sizeBytes: number;
+  isRevalidating: boolean;
+}
+
+/**
+ * Cache statistics for monitoring and the Settings page
+ */
+export interface CacheStats {
+  totalEntries: number;
+  totalSizeBytes: number;
+  oldestEntry: Date | null;
+  newestEntry: Date | null;
+}
+
+/**
+ * Abstraction for cache storage operations
+ *
+ * Stores GitHub data with the metadata needed for stale-while-revalidate
+ * and LRU eviction (see specs/007-progressive-loading/contracts/cache-api.ts).
+ *
+ * Implementations:
+ * - FileCacheAdapter: Server-side persistent store (JSON file)
+ * - IndexedDBAdapter: Browser persistent store (idb)
+ * - InMemoryCacheAdapter: Non-persistent fallback
+ */
+export interface ICacheRepository {
+  /**
+   * Retrieve cached data by key
+   * @param key Cache key
+   * @returns Entry if found (regardless of staleness), null otherwise
+   */
+  get(key: string): Promise<CachedDataEntry | null>;
+
+  /**
+   * Retrieve all cached entries for a repository
+   * @param repositoryId Repository identifier ("owner/repo")
+   */
+  getByRepository(repositoryId: string): Promise<CachedDataEntry[]>;
+
+  /**
+   * Retrieve cached data for a data type and exact date range
+   * @param repositoryId Repository identifier ("owner/repo")
+   * @param dataType Type of data
+   * @param range Date range (matched at day granularity)
+   */
+  getByDateRange(
+    repositoryId: string,
+    dataType: DataType,
+    range: CachedDateRange,
+  ): Promise<CachedDataEntry | null>;
+
+  /**
+   * Store an entry, replacing any entry with the same key
+   * @throws Error if the storage quota is exceeded
+   */
+  set(entry: CachedDataEntry): Promise<void>;
+
+  /**
+   * Store multiple entries at once
+   */
+  setMany(entries: CachedDataEntry[]): Promise<void>;
+
+  /**
+   * Remove entries by key
+   */
+  evict(keys: string[]): Promise<void>;
+
+  /**
+   * Remove all expired entries (expiresAt < now)
+   * @returns Number of entries removed
+   */
+  evictStale(): Promise<number>;
+
+  /**
+   * Remove a single entry by key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove all entries for a repository
+   */
+  clearRepository(repositoryId: string): Promise<void>;
+
+  /**
+   * Remove all cached data
+   */
+  clearAll(): Promise<void>;
+
+  /**
+   * Get all entries (used by LRU eviction)
+   */
+  getAll(): Promise<CachedDataEntry[]>;
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): Promise<CacheStats>;
+
+  /**
+   * Get total size of all cached data in bytes
+   */
+  getTotalSize(): Promise<number>;
+
+  /**
+   * Get total number of cached entries
+   */
+  getEntryCount(): Promise<number>;
+}
@@ -0,0 +1,30 @@
+import { Result } from "@/lib/result";
+import { ChangeFailureRules } from "@/domain/value-objects/ChangeFailureRules";
+
+/**
+ * Persistence for the change failure rules of a repository
+ */
+export interface IChangeFailureRulesRepository {
+  /**
+   * Load the stored rules of a repository
+   * @param repositoryId Normalized repository identifier
+   * @returns Result with rules, or null if the repository uses the defaults
+   */
+  getRules(repositoryId: string): Promise<Result<ChangeFailureRules | null>>;
+
+  /**
+   * Store the rules of a repository
+   * @param repositoryId Normalized repository identifier
+   * @param rules Rules to apply to the repository
+   */
+  saveRules(
+    repositoryId: string,
+    rules: ChangeFailureRules,
+  ): Promise<Result<void>>;
+
+  /**
+   * Remove the stored rules of a repository (back to defaults)
+   * @param repositoryId Normalized repository identifier
+   */
+  removeRules(repositoryId: string): Promise<Result<void>>;
+}
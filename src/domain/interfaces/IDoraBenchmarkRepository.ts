@@ -0,0 +1,30 @@
+import { Result } from "@/lib/result";
+import { DORABenchmarkEdition } from "@/domain/value-objects/DORABenchmark";
+
+/**
+ * Persistence for the DORA benchmark edition selected for an owner
+ */
+export interface IDoraBenchmarkRepository {
+  /**
+   * Load the edition selected for an owner
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @returns Result with edition, or null if the owner uses the default
+   */
+  getEdition(ownerId: string): Promise<Result<DORABenchmarkEdition | null>>;
+
+  /**
+   * Store the edition selected for an owner
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @param edition Edition to classify the owner's DORA levels against
+   */
+  saveEdition(
+    ownerId: string,
+    edition: DORABenchmarkEdition,
+  ): Promise<Result<void>>;
+
+  /**
+   * Remove the stored edition of an owner (back to the default)
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   */
+  removeEdition(ownerId: string): Promise<Result<void>>;
+}
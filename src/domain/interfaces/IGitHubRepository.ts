@@ -1,4 +1,6 @@
 import { Result } from "@/lib/result";
+import type { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+import type { TokenCapabilities } from "@/domain/value-objects/TokenCapabilities";
 
 /**
  * Git commit data structure
@@ -8,12 +10,35 @@ export interface GitCommit {
   author: string;
   email: string;
   date: Date;
+  /** Committer date: when the commit landed on the branch (undefined if unknown) */
+  committedAt?: Date;
   message: string;
   filesChanged: number;
   linesAdded: number;
   linesDeleted: number;
 }
 
+/**
+ * Submitted review states (pending reviews are not included)
+ */
+export const ReviewState = {
+  APPROVED: "APPROVED",
+  CHANGES_REQUESTED: "CHANGES_REQUESTED",
+  COMMENTED: "COMMENTED",
+  DISMISSED: "DISMISSED",
+} as const;
+
+export type ReviewState = (typeof ReviewState)[keyof typeof ReviewState];
+
+/**
+ * Pull request review data structure
+ */
+export interface PullRequestReview {
+  author: string;
+  state: ReviewState;
+  submittedAt: Date;
+}
+
 /**
  * Pull request data structure
  */
@@ -25,9 +50,23 @@ export interface PullRequest {
   state: "open" | "closed" | "merged";
   reviewCommentCount: number;
   mergedAt?: Date;
+  /** When the PR was closed or merged (undefined while open or unknown) */
+  closedAt?: Date;
   additions?: number;
   deletions?: number;
   changedFiles?: number;
+  /** Submitted reviews; undefined when the provider does not report reviews */
+  reviews?: PullRequestReview[];
+  /** Author date of the first commit on the PR branch */
+  firstCommitAt?: Date;
+  /** Last time the PR was marked ready for review (undefined if never a draft) */
+  readyForReviewAt?: Date;
+  /** Label names (undefined when the provider does not report labels) */
+  labels?: string[];
+  /** Source branch name (undefined when unknown) */
+  headRefName?: string;
+  /** Commit the PR landed as: merge or squash commit (undefined if unknown) */
+  mergeCommitOid?: string;
 }
 
 /**
@@ -60,6 +99,8 @@ export interface Release {
   publishedAt: string | null;
   isPrerelease: boolean;
   isDraft: boolean;
+  /** Commit the release's tag points at (undefined if unknown) */
+  commitOid?: string;
 }
 
 /**
@@ -75,6 +116,8 @@ export interface Deployment {
     state: string;
     createdAt: string;
   } | null;
+  /** Commit that was deployed (undefined if unknown) */
+  commitOid?: string;
 }
 
 /**
@@ -88,6 +131,38 @@ export interface Tag {
       date: string;
     } | null;
   };
+  /** Commit the tag points at, peeled for annotated tags (undefined if unknown) */
+  commitOid?: string;
+}
+
+/**
+ * Repository of an owner with the recent activity its health summary needs
+ * Each activity list holds only the most recent items (newest first).
+ */
+export interface OwnerRepository {
+  name: string;
+  description: string | null;
+  isPrivate: boolean;
+  isArchived: boolean;
+  isFork: boolean;
+  primaryLanguage: string | null;
+  pushedAt: string | null; // ISO 8601; null for empty repositories
+  openPullRequestCount: number;
+  oldestOpenPullRequestAt: string | null; // ISO 8601
+  mergedPullRequestCount: number; // PRs merged since the requested date
+  latestRelease: { tagName: string; publishedAt: string | null } | null;
+  recentReleases: Release[];
+  recentDeployments: Deployment[];
+  recentItemLimit: number; // Most items read per activity list
+}
+
+/**
+ * Team of an organization on the git host
+ */
+export interface OrganizationTeam {
+  slug: string;
+  name: string;
+  members: string[]; // Usernames of all members (including child teams)
 }
 
 /**
@@ -97,11 +172,17 @@ export interface Tag {
  * - Repository access validation
  * - Commit history fetching
  * - Pull request fetching
+ * - Streaming commits and pull requests (bounded memory for long histories)
  * - Review comment fetching
  * - Rate limit management
+ * - Token capability probing (which data the token may read)
+ * - Listing an owner's repositories with recent activity
+ * - Listing an organization's teams and their members
+ * - Checking the token's user belongs to an owner (team management)
  *
- * All operations use the GitHub API, making it suitable for serverless
- * environments where git binary is not available.
+ * API adapters (GitHub, GitLab) need no git binary, making them suitable for
+ * serverless environments. Self-hosted deployments can read commits and tags
+ * from local clones instead (LocalGitAdapter, in mixed mode).
  */
 export interface IGitHubRepository {
   /**
@@ -129,15 +210,58 @@ export interface IGitHubRepository {
    * Get pull requests from repository
    * @param owner Repository owner
    * @param repo Repository name
-   * @param sinceDate Optional date filter
+   * @param sinceDate Optional start of the window (inclusive)
+   * @param untilDate Optional end of the window (inclusive)
+   * @param semantics Which dates must fall in the window (default: PRs
+   *   opened, merged or closed within it)
    * @returns Result with array of pull requests
    */
   getPullRequests(
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
+    semantics?: PullRequestDateSemantics,
   ): Promise<Result<PullRequest[]>>;
 
+  /**
+   * Stream commit log from repository
+   * Commits are yielded as pages arrive, so callers can aggregate them
+   * without holding the whole history in memory. Adapters that sync
+   * incrementally yield the synced commits instead. When the rate limit
+   * runs out, the commits fetched so far are yielded before the
+   * RateLimitExhaustedError, and the next call resumes from the checkpoint.
+   * @param repoPath Repository URL
+   * @param sinceDate Optional date to filter commits (inclusive)
+   * @param untilDate Optional end date to filter commits (inclusive)
+   * @returns Commits; iteration throws the error getLog would return
+   */
+  streamLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): AsyncIterable<GitCommit>;
+
+  /**
+   * Stream pull requests from repository
+   * Same window, semantics, sync and rate limit behaviour as streamLog.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param sinceDate Optional start of the window (inclusive)
+   * @param untilDate Optional end of the window (inclusive)
+   * @param semantics Which dates must fall in the window (default: PRs
+   *   opened, merged or closed within it)
+   * @returns Pull requests; iteration throws the error getPullRequests
+   *   would return
+   */
+  streamPullRequests(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+    semantics?: PullRequestDateSemantics,
+  ): AsyncIterable<PullRequest>;
+
   /**
    * Get review comments for pull requests
    * @param owner Repository owner
@@ -161,38 +285,87 @@ export interface IGitHubRepository {
    * Get releases from repository
    * @param owner Repository owner
    * @param repo Repository name
-   * @param sinceDate Optional date filter
+   * @param sinceDate Optional start of the window (inclusive)
+   * @param untilDate Optional end of the window (inclusive)
    * @returns Result with array of releases
    */
   getReleases(
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
   ): Promise<Result<Release[]>>;
 
   /**
    * Get deployments from repository
    * @param owner Repository owner
    * @param repo Repository name
-   * @param sinceDate Optional date filter
+   * @param sinceDate Optional start of the window (inclusive)
+   * @param untilDate Optional end of the window (inclusive)
    * @returns Result with array of deployments
    */
   getDeployments(
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
   ): Promise<Result<Deployment[]>>;
 
   /**
    * Get tags from repository
    * @param owner Repository owner
    * @param repo Repository name
-   * @param sinceDate Optional date filter
+   * @param sinceDate Optional start of the window (inclusive)
+   * @param untilDate Optional end of the window (inclusive)
    * @returns Result with array of tags
    */
   getTags(
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
   ): Promise<Result<Tag[]>>;
+
+  /**
+   * Probe what the current token can read in a repository
+   * Optional: adapters that cannot tell report unknown capabilities.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @returns Result with the token's capabilities
+   */
+  getTokenCapabilities?(
+    owner: string,
+    repo: string,
+  ): Promise<Result<TokenCapabilities>>;
+
+  /**
+   * List every repository of an organization or user with recent activity
+   * Optional: adapters that cannot list owners leave it undefined.
+   * @param owner Organization or user login
+   * @param mergedSince Start of the merged pull request count
+   * @returns Result with the owner's repositories (most recently pushed first)
+   */
+  getOwnerRepositories?(
+    owner: string,
+    mergedSince: Date,
+  ): Promise<Result<OwnerRepository[]>>;
+
+  /**
+   * List the teams of an organization with their members
+   * Optional: adapters that cannot list teams leave it undefined.
+   * @param organization Organization login
+   * @returns Result with the organization's teams
+   */
+  getOrganizationTeams?(
+    organization: string,
+  ): Promise<Result<OrganizationTeam[]>>;
+
+  /**
+   * Check whether the token's user is the owner, or a member of (or has
+   * private repository access in) the owner organization or group
+   * Optional: adapters that cannot check membership leave it undefined.
+   * @param owner Organization, group or user login
+   * @returns Result with true for members, false for everyone else
+   */
+  isOwnerMember?(owner: string): Promise<Result<boolean>>;
 }
@@ -0,0 +1,31 @@
+import { Result } from "@/lib/result";
+import { Incident } from "@/domain/value-objects/Incident";
+
+/**
+ * Persistence for incidents imported from outside the git host
+ * (file uploads and the incident webhook)
+ */
+export interface IIncidentRepository {
+  /**
+   * Load all stored incidents of a repository
+   * @param repositoryId Normalized repository identifier
+   * @returns Result with incidents (empty if none were imported)
+   */
+  getIncidents(repositoryId: string): Promise<Result<Incident[]>>;
+
+  /**
+   * Replace the stored incidents of a repository
+   * @param repositoryId Normalized repository identifier
+   * @param incidents Complete incident list to store
+   */
+  saveIncidents(
+    repositoryId: string,
+    incidents: Incident[],
+  ): Promise<Result<void>>;
+
+  /**
+   * Remove all stored incidents of a repository
+   * @param repositoryId Normalized repository identifier
+   */
+  clearIncidents(repositoryId: string): Promise<Result<void>>;
+}
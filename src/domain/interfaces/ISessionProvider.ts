@@ -8,12 +8,21 @@ import { Result } from "@/lib/result";
  *
  * Implementations:
  * - NextAuthAdapter: Production implementation using NextAuth.js v5
+ * - GitHubAppAdapter: GitHub App installation tokens (shared deployments)
+ * - GitHubAppUserAdapter: installation tokens for repositories the
+ *   signed-in user can read
  * - MockSessionProvider: Test implementation for unit tests
  */
 export interface ISessionProvider {
   /**
    * Retrieve GitHub OAuth access token from current authenticated session.
    *
+   * @param owner Owner of the repository the token is for. Providers with
+   *   one token per owner (GitHub App installations) pick the matching
+   *   credentials; others ignore it.
+   * @param repo Repository the token is for. Providers sharing credentials
+   *   between users (GitHub App mode) check the user's access to it;
+   *   others ignore it.
    * @returns Result containing access token if authenticated, or error if:
    *   - No active session exists
    *   - Session has expired
@@ -29,5 +38,15 @@ export interface ISessionProvider {
    * const octokit = new Octokit({ auth: tokenResult.value });
    * ```
    */
-  getAccessToken(): Promise<Result<string>>;
+  getAccessToken(owner?: string, repo?: string): Promise<Result<string>>;
+
+  /**
+   * Stable identity of the credentials behind getAccessToken(owner, repo)
+   *
+   * Optional; providers whose tokens rotate (GitHub App installation tokens
+   * expire after an hour) implement it so that caches, sync state and
+   * request scheduling survive a new token. Without it, the access token
+   * itself identifies the credentials.
+   */
+  getCredentialId?(owner?: string, repo?: string): Promise<Result<string>>;
 }
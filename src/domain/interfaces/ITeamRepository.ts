@@ -0,0 +1,28 @@
+import { Result } from "@/lib/result";
+import { Team } from "@/domain/value-objects/Team";
+
+/**
+ * Persistence for team definitions of an organization (or user)
+ */
+export interface ITeamRepository {
+  /**
+   * Load all stored teams of an owner
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @returns Result with teams (empty if none were defined)
+   */
+  getTeams(ownerId: string): Promise<Result<Team[]>>;
+
+  /**
+   * Replace the stored teams of an owner with a list derived from them
+   * Updates of the same owner run one after another, so concurrent edits
+   * never overwrite each other.
+   * @param ownerId Owner identifier ("owner" or "host/owner")
+   * @param update Derives the complete team list to store from the stored
+   *   teams; an error leaves the stored teams unchanged
+   * @returns Result with the stored team list
+   */
+  updateTeams(
+    ownerId: string,
+    update: (teams: Team[]) => Result<Team[]>,
+  ): Promise<Result<Team[]>>;
+}
@@ -0,0 +1,92 @@
+import { CachedDataEntry } from "@/domain/interfaces/ICacheRepository";
+
+/**
+ * Capacity limits used for eviction decisions
+ */
+export interface CacheLimits {
+  maxSizeBytes: number;
+  maxEntries: number;
+  evictionThreshold: number; // Fraction of capacity that triggers eviction
+  evictionTarget: number; // Fraction of capacity to evict down to
+}
+
+/**
+ * Freshness state of a cache entry
+ *
+ * - fresh: within TTL, serve without refetching
+ * - stale: past TTL, serve immediately and revalidate in the background
+ */
+export const CacheFreshness = {
+  FRESH: "fresh",
+  STALE: "stale",
+} as const;
+export type CacheFreshness =
+  (typeof CacheFreshness)[keyof typeof CacheFreshness];
+
+export class CacheEvictionService {
+  /**
+   * Determine whether an entry has passed its expiry time
+   */
+  static getFreshness(
+    entry: CachedDataEntry,
+    now: Date = new Date(),
+  ): CacheFreshness {
+    return entry.expiresAt.getTime() > now.getTime()
+      ? CacheFreshness.FRESH
+      : CacheFreshness.STALE;
+  }
+
+  /**
+   * Check whether the cache has grown past the eviction threshold
+   */
+  static shouldEvict(
+    totalSizeBytes: number,
+    entryCount: number,
+    limits: CacheLimits,
+  ): boolean {
+    return (
+      totalSizeBytes >= limits.maxSizeBytes * limits.evictionThreshold ||
+      entryCount >= limits.maxEntries * limits.evictionThreshold
+    );
+  }
+
+  /**
+   * Select entries to evict so that the cache drops to the eviction target
+   *
+   * Expired entries are removed first, then least recently accessed ones (LRU).
+   *
+   * @returns Keys of entries to evict
+   */
+  static calculateEvictionCandidates(
+    entries: CachedDataEntry[],
+    limits: CacheLimits,
+    now: Date = new Date(),
+  ): string[] {
+    const targetSize = limits.maxSizeBytes * limits.evictionTarget;
+    const targetCount = Math.floor(limits.maxEntries * limits.evictionTarget);
+
+    const ordered = [...entries].sort((a, b) => {
+      const aStale = this.getFreshness(a, now) === CacheFreshness.STALE;
+      const bStale = this.getFreshness(b, now) === CacheFreshness.STALE;
+      if (aStale !== bStale) {
+        return aStale ? -1 : 1;
+      }
+      return a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime();
+    });
+
+    let remainingSize = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+    let remainingCount = entries.length;
+    const candidates: string[] = [];
+
+    for (const entry of ordered) {
+      if (remainingSize <= targetSize && remainingCount <= targetCount) {
+        break;
+      }
+      candidates.push(entry.key);
+      remainingSize -= entry.sizeBytes;
+      remainingCount--;
+    }
+
+    return candidates;
+  }
+}
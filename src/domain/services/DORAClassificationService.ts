@@ -0,0 +1,94 @@
+import {
+  DORABenchmark,
+  DORALevel,
+  DORAMetric,
+} from "@/domain/value-objects/DORABenchmark";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * DORA Classification Service
+ *
+ * Single place where DORA metric values are turned into performance
+ * levels. Every metric is classified against the same benchmark edition,
+ * so widgets, use cases and summaries agree on what "elite" means.
+ * Metrics without data are classified as insufficient_data.
+ */
+export class DORAClassificationService {
+  /**
+   * Annualize a deployment count over a date range
+   * Ranges shorter than a day count as one day.
+   */
+  static toDeploymentsPerYear(
+    deploymentCount: number,
+    dateRange: { start: Date; end: Date },
+  ): number {
+    const days = Math.max(
+      1,
+      (dateRange.end.getTime() - dateRange.start.getTime()) / MS_PER_DAY,
+    );
+    return (deploymentCount / days) * DAYS_PER_YEAR;
+  }
+
+  /**
+   * Classify deployment frequency
+   * @param deploymentsPerYear Annualized deployment count
+   * @param totalCount Deployments observed (0 means no data)
+   */
+  static classifyDeploymentFrequency(
+    deploymentsPerYear: number,
+    totalCount: number,
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+  ): DORALevel {
+    if (totalCount === 0) {
+      return DORALevel.INSUFFICIENT_DATA;
+    }
+    return benchmark.classify(
+      DORAMetric.DEPLOYMENT_FREQUENCY,
+      deploymentsPerYear,
+    );
+  }
+
+  /**
+   * Classify the median lead time for changes
+   * @param medianHours Median lead time (null if nothing was deployed)
+   */
+  static classifyLeadTime(
+    medianHours: number | null,
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+  ): DORALevel {
+    if (medianHours === null) {
+      return DORALevel.INSUFFICIENT_DATA;
+    }
+    return benchmark.classify(DORAMetric.LEAD_TIME, medianHours);
+  }
+
+  /**
+   * Classify the change failure rate
+   * @param failureRate Failure rate in percent (null without deployments)
+   */
+  static classifyChangeFailureRate(
+    failureRate: number | null,
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+  ): DORALevel {
+    if (failureRate === null) {
+      return DORALevel.INSUFFICIENT_DATA;
+    }
+    return benchmark.classify(DORAMetric.CHANGE_FAILURE_RATE, failureRate);
+  }
+
+  /**
+   * Classify the median time to restore service
+   * @param medianHours Median restore time (null if nothing was resolved)
+   */
+  static classifyTimeToRestore(
+    medianHours: number | null,
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
+  ): DORALevel {
+    if (medianHours === null) {
+      return DORALevel.INSUFFICIENT_DATA;
+    }
+    return benchmark.classify(DORAMetric.TIME_TO_RESTORE, medianHours);
+  }
+}
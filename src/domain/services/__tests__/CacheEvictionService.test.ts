@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  CacheEvictionService,
+  CacheFreshness,
+  CacheLimits,
+} from "@/domain/services/CacheEvictionService";
+import {
+  CachedDataEntry,
+  DataType,
+} from "@/domain/interfaces/ICacheRepository";
+
+const NOW = new Date("2024-06-01T12:00:00Z");
+
+function createEntry(
+  key: string,
+  overrides: Partial<CachedDataEntry> = {},
+): CachedDataEntry {
+  return {
+    key,
+    repositoryId: "owner/repo",
+    dataType: DataType.PULL_REQUESTS,
+    dateRange: { start: new Date("2024-05-01"), end: new Date("2024-06-01") },
+    data: [],
+    cachedAt: new Date("2024-06-01T11:00:00Z"),
+    expiresAt: new Date("2024-06-01T13:00:00Z"),
+    lastAccessedAt: new Date("2024-06-01T11:00:00Z"),
+    sizeBytes: 100,
+    isRevalidating: false,
+    ...overrides,
+  };
+}
+
+const limits: CacheLimits = {
+  maxSizeBytes: 1000,
+  maxEntries: 10,
+  evictionThreshold: 0.8,
+  evictionTarget: 0.6,
+};
+
+describe("CacheEvictionService", () => {
+  describe("getFreshness", () => {
+    it("should report fresh before expiry", () => {
+      expect(CacheEvictionService.getFreshness(createEntry("a"), NOW)).toBe(
+        CacheFreshness.FRESH,
+      );
+    });
+
+    it("should report stale after expiry", () => {
+      const entry = createEntry("a", {
+        expiresAt: new Date("2024-06-01T11:59:59Z"),
+      });
+
+      expect(CacheEvictionService.getFreshness(entry, NOW)).toBe(
+        CacheFreshness.STALE,
+      );
+    });
+  });
+
+  describe("shouldEvict", () => {
+    it("should not evict below threshold", () => {
+      expect(CacheEvictionService.shouldEvict(700, 7, limits)).toBe(false);
+    });
+
+    it("should evict when size reaches threshold", () => {
+      expect(CacheEvictionService.shouldEvict(800, 1, limits)).toBe(true);
+    });
+
+    it("should evict when entry count reaches threshold", () => {
+      expect(CacheEvictionService.shouldEvict(100, 8, limits)).toBe(true);
+    });
+  });
+
+  describe("calculateEvictionCandidates", () => {
+    it("should evict least recently accessed entries down to target", () => {
+      const entries = Array.from({ length: 9 }, (_, i) =>
+        createEntry(`key-${i}`, {
+          lastAccessedAt: new Date(NOW.getTime() - (9 - i) * 60_000),
+        }),
+      );
+
+      const candidates = CacheEvictionService.calculateEvictionCandidates(
+        entries,
+        limits,
+        NOW,
+      );
+
+      // 900 bytes / 9 entries -> 600 bytes / 6 entries
+      expect(candidates).toEqual(["key-0", "key-1", "key-2"]);
+    });
+
+    it("should evict expired entries before recently accessed ones", () => {
+      const entries = [
+        createEntry("old-fresh", {
+          lastAccessedAt: new Date("2024-06-01T08:00:00Z"),
+          sizeBytes: 400,
+        }),
+        createEntry("recent-stale", {
+          lastAccessedAt: new Date("2024-06-01T11:59:00Z"),
+          expiresAt: new Date("2024-06-01T10:00:00Z"),
+          sizeBytes: 400,
+        }),
+      ];
+
+      const candidates = CacheEvictionService.calculateEvictionCandidates(
+        entries,
+        limits,
+        NOW,
+      );
+
+      expect(candidates).toEqual(["recent-stale"]);
+    });
+
+    it("should return no candidates when under target", () => {
+      const candidates = CacheEvictionService.calculateEvictionCandidates(
+        [createEntry("a")],
+        limits,
+        NOW,
+      );
+
+      expect(candidates).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { DORAClassificationService } from "../DORAClassificationService";
+import {
+  DORABenchmark,
+  DORABenchmarkEdition,
+  DORALevel,
+} from "@/domain/value-objects/DORABenchmark";
+import { DORAPerformanceLevel } from "@/domain/value-objects/DORAPerformanceLevel";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import { DeploymentFrequency } from "@/domain/value-objects/DeploymentFrequency";
+
+const edition2021 = DORABenchmark.forEdition(DORABenchmarkEdition.EDITION_2021);
+const edition2022 = DORABenchmark.forEdition(DORABenchmarkEdition.EDITION_2022);
+const edition2023 = DORABenchmark.forEdition(DORABenchmarkEdition.EDITION_2023);
+
+describe("DORAClassificationService", () => {
+  describe("toDeploymentsPerYear", () => {
+    it("should annualize deployments over the date range", () => {
+      const perYear = DORAClassificationService.toDeploymentsPerYear(10, {
+        start: new Date("2024-01-01T00:00:00Z"),
+        end: new Date("2024-01-11T00:00:00Z"),
+      });
+
+      expect(perYear).toBe(365);
+    });
+
+    it("should count ranges shorter than a day as one day", () => {
+      const perYear = DORAClassificationService.toDeploymentsPerYear(1, {
+        start: new Date("2024-01-01T00:00:00Z"),
+        end: new Date("2024-01-01T01:00:00Z"),
+      });
+
+      expect(perYear).toBe(365);
+    });
+  });
+
+  describe("classifyDeploymentFrequency", () => {
+    it.each([
+      [edition2023, 800, DORALevel.ELITE],
+      [edition2023, 100, DORALevel.HIGH],
+      [edition2023, 20, DORALevel.MEDIUM],
+      [edition2023, 5, DORALevel.LOW],
+      [edition2022, 800, DORALevel.HIGH],
+      [edition2022, 100, DORALevel.MEDIUM],
+      [edition2022, 5, DORALevel.LOW],
+      [edition2021, 100, DORALevel.HIGH],
+      [edition2021, 5, DORALevel.MEDIUM],
+      [edition2021, 1, DORALevel.LOW],
+    ])(
+      "should classify deployments per year",
+      (benchmark, deploymentsPerYear, expected) => {
+        expect(
+          DORAClassificationService.classifyDeploymentFrequency(
+            deploymentsPerYear,
+            10,
+            benchmark,
+          ),
+        ).toBe(expected);
+      },
+    );
+
+    it("should report insufficient data without deployments", () => {
+      expect(DORAClassificationService.classifyDeploymentFrequency(0, 0)).toBe(
+        DORALevel.INSUFFICIENT_DATA,
+      );
+    });
+  });
+
+  describe("classifyLeadTime", () => {
+    it.each([
+      [edition2023, 2, DORALevel.ELITE],
+      [edition2023, 72, DORALevel.HIGH],
+      [edition2023, 24 * 14, DORALevel.MEDIUM],
+      [edition2023, 24 * 45, DORALevel.LOW],
+      [edition2022, 2, DORALevel.HIGH],
+      [edition2022, 24 * 45, DORALevel.MEDIUM],
+      [edition2021, 0.5, DORALevel.ELITE],
+      [edition2021, 2, DORALevel.HIGH],
+      [edition2021, 24 * 365, DORALevel.LOW],
+    ])("should classify a median lead time", (benchmark, hours, expected) => {
+      expect(DORAClassificationService.classifyLeadTime(hours, benchmark)).toBe(
+        expected,
+      );
+    });
+
+    it("should report insufficient data without deployed commits", () => {
+      expect(DORAClassificationService.classifyLeadTime(null)).toBe(
+        DORALevel.INSUFFICIENT_DATA,
+      );
+    });
+  });
+
+  describe("classifyChangeFailureRate", () => {
+    it.each([
+      [edition2023, 0, DORALevel.ELITE],
+      [edition2023, 10, DORALevel.HIGH],
+      [edition2023, 15, DORALevel.MEDIUM],
+      [edition2023, 25, DORALevel.LOW],
+      [edition2022, 10, DORALevel.HIGH],
+      [edition2022, 25, DORALevel.MEDIUM],
+      [edition2021, 10, DORALevel.ELITE],
+      [edition2021, 25, DORALevel.HIGH],
+      [edition2021, 40, DORALevel.LOW],
+    ])("should classify a failure rate", (benchmark, rate, expected) => {
+      expect(
+        DORAClassificationService.classifyChangeFailureRate(rate, benchmark),
+      ).toBe(expected);
+    });
+
+    it("should report insufficient data without deployments", () => {
+      expect(DORAClassificationService.classifyChangeFailureRate(null)).toBe(
+        DORALevel.INSUFFICIENT_DATA,
+      );
+    });
+  });
+
+  describe("classifyTimeToRestore", () => {
+    it.each([
+      [edition2023, 0.5, DORALevel.ELITE],
+      [edition2023, 12, DORALevel.HIGH],
+      [edition2023, 72, DORALevel.MEDIUM],
+      [edition2023, 24 * 10, DORALevel.LOW],
+      [edition2022, 0.5, DORALevel.HIGH],
+      [edition2022, 24 * 10, DORALevel.LOW],
+    ])(
+      "should classify a median restore time",
+      (benchmark, hours, expected) => {
+        expect(
+          DORAClassificationService.classifyTimeToRestore(hours, benchmark),
+        ).toBe(expected);
+      },
+    );
+
+    it("should report insufficient data without resolved incidents", () => {
+      expect(DORAClassificationService.classifyTimeToRestore(null)).toBe(
+        DORALevel.INSUFFICIENT_DATA,
+      );
+    });
+  });
+
+  describe("DORAPerformanceLevel", () => {
+    // 60 weekly deployments over ~413 days ≈ 53 per year
+    const frequency = DeploymentFrequency.create(
+      Array.from({ length: 60 }, (_, i) =>
+        DeploymentEvent.fromTag({
+          name: `v1.${i}.0`,
+          target: {
+            committedDate: new Date(Date.UTC(2024, 0, 1 + i * 7)).toISOString(),
+          },
+        }),
+      ),
+    );
+
+    it("should classify deployment frequency against the given benchmark", () => {
+      expect(
+        DORAPerformanceLevel.fromDeploymentFrequency(frequency, edition2023)
+          .level,
+      ).toBe(DORALevel.HIGH);
+      expect(
+        DORAPerformanceLevel.fromDeploymentFrequency(frequency, edition2022)
+          .level,
+      ).toBe(DORALevel.MEDIUM);
+    });
+
+    it("should describe the benchmark range of the level", () => {
+      expect(
+        DORAPerformanceLevel.fromDeploymentFrequency(frequency, edition2023)
+          .benchmarkRange,
+      ).toBe("52-729 deployments per year");
+    });
+  });
+
+  describe("DORABenchmark.isEdition", () => {
+    it.each([
+      ["2023", true],
+      ["2021", true],
+      ["2019", false],
+      [undefined, false],
+    ])("should recognize %s", (value, expected) => {
+      expect(DORABenchmark.isEdition(value)).toBe(expected);
+    });
+  });
+});
@@ -3,11 +3,21 @@
 export const AnalysisStatus = {
   IN_PROGRESS: "in_progress",
   COMPLETED: "completed",
+  PARTIAL: "partial", // Stopped early by the rate limit; can be resumed
   FAILED: "failed",
 } as const;
 export type AnalysisStatus =
   (typeof AnalysisStatus)[keyof typeof AnalysisStatus];
 
+// Data fetched for an analysis; a partial analysis lists the incomplete ones
+export const AnalysisSection = {
+  COMMITS: "commits",
+  PULL_REQUESTS: "pull_requests",
+  REVIEW_COMMENTS: "review_comments",
+} as const;
+export type AnalysisSection =
+  (typeof AnalysisSection)[keyof typeof AnalysisSection];
+
 export const Period = {
   DAY: "day",
   WEEK: "week",
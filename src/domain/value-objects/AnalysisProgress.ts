@@ -0,0 +1,162 @@
+import {
+  AnalysisProgressEvent,
+  AnalysisStage,
+  ProgressEventType,
+} from "@/domain/interfaces/IAnalysisProgress";
+
+/**
+ * Share of the overall progress reached when each stage starts
+ * Review comments dominate the runtime on large repositories.
+ */
+const STAGE_START: Record<AnalysisStage, number> = {
+  [AnalysisStage.VALIDATING]: 0,
+  [AnalysisStage.FETCHING]: 0.05,
+  [AnalysisStage.REVIEW_COMMENTS]: 0.3,
+  [AnalysisStage.CALCULATING]: 0.95,
+  [AnalysisStage.COMPLETED]: 1,
+};
+
+/**
+ * AnalysisProgress Value Object
+ *
+ * Accumulates the progress events of a running analysis (as received by the
+ * browser) and estimates the remaining time.
+ *
+ * The estimate is based on the rate at which pull requests are processed
+ * in the review comments stage, the only stage with a known total.
+ */
+export class AnalysisProgress {
+  private constructor(
+    public readonly stage: AnalysisStage,
+    public readonly stageStartedAt: number,
+    public readonly pullRequestsFetched: number,
+    public readonly commitsFetched: number,
+    public readonly pagesFetched: number,
+    public readonly pullRequestsProcessed: number,
+    public readonly pullRequestsTotal: number,
+    public readonly waitingUntil: number | null,
+  ) {}
+
+  /**
+   * Progress of an analysis that has just started
+   * @param now Start time (epoch ms)
+   */
+  static start(now: number = Date.now()): AnalysisProgress {
+    return new AnalysisProgress(
+      AnalysisStage.VALIDATING,
+      now,
+      0,
+      0,
+      0,
+      0,
+      0,
+      null,
+    );
+  }
+
+  /**
+   * Apply a progress event
+   * @param now Time the event was received (epoch ms)
+   * @returns Updated progress
+   */
+  apply(
+    event: AnalysisProgressEvent,
+    now: number = Date.now(),
+  ): AnalysisProgress {
+    const next = {
+      stage: this.stage,
+      stageStartedAt: this.stageStartedAt,
+      pullRequestsFetched: this.pullRequestsFetched,
+      commitsFetched: this.commitsFetched,
+      pagesFetched: this.pagesFetched,
+      pullRequestsProcessed: this.pullRequestsProcessed,
+      pullRequestsTotal: this.pullRequestsTotal,
+      // Any event other than a wait means requests are flowing again
+      waitingUntil: null as number | null,
+    };
+
+    switch (event.type) {
+      case ProgressEventType.STAGE:
+        if (event.stage !== this.stage) {
+          next.stage = event.stage;
+          next.stageStartedAt = now;
+        }
+        break;
+      case ProgressEventType.PAGE_FETCHED:
+        next.pagesFetched += 1;
+        if (event.resource === "pull_requests") {
+          next.pullRequestsFetched += event.items;
+        } else {
+          next.commitsFetched += event.items;
+        }
+        break;
+      case ProgressEventType.PULL_REQUESTS_PROCESSED:
+        next.pullRequestsProcessed = event.processed;
+        next.pullRequestsTotal = event.total;
+        break;
+      case ProgressEventType.RATE_LIMIT_WAIT:
+        next.waitingUntil = now + event.waitMs;
+        break;
+    }
+
+    return new AnalysisProgress(
+      next.stage,
+      next.stageStartedAt,
+      next.pullRequestsFetched,
+      next.commitsFetched,
+      next.pagesFetched,
+      next.pullRequestsProcessed,
+      next.pullRequestsTotal,
+      next.waitingUntil,
+    );
+  }
+
+  /**
+   * Estimated overall completion (0-1)
+   */
+  get fraction(): number {
+    const start = STAGE_START[this.stage];
+    if (
+      this.stage !== AnalysisStage.REVIEW_COMMENTS ||
+      this.pullRequestsTotal === 0
+    ) {
+      return start;
+    }
+
+    const stageShare = STAGE_START[AnalysisStage.CALCULATING] - start;
+    return (
+      start + stageShare * (this.pullRequestsProcessed / this.pullRequestsTotal)
+    );
+  }
+
+  /**
+   * Remaining rate limit wait in milliseconds (0 when not waiting)
+   */
+  getRemainingWaitMs(now: number = Date.now()): number {
+    return this.waitingUntil === null
+      ? 0
+      : Math.max(0, this.waitingUntil - now);
+  }
+
+  /**
+   * Estimated time until the analysis completes, in milliseconds
+   * Returns null until pull requests are being processed.
+   */
+  estimateRemainingMs(now: number = Date.now()): number | null {
+    if (this.stage === AnalysisStage.COMPLETED) {
+      return 0;
+    }
+    if (
+      this.stage !== AnalysisStage.REVIEW_COMMENTS ||
+      this.pullRequestsProcessed === 0
+    ) {
+      return null;
+    }
+
+    const elapsed = now - this.stageStartedAt;
+    const msPerPullRequest = elapsed / this.pullRequestsProcessed;
+    const remaining =
+      (this.pullRequestsTotal - this.pullRequestsProcessed) * msPerPullRequest;
+    return Math.round(Math.max(remaining, this.getRemainingWaitMs(now)));
+  }
+}
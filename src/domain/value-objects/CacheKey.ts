@@ -0,0 +1,75 @@
+import { format } from "date-fns";
+import { Result, ok, err } from "@/lib/result";
+import {
+  DataType,
+  CachedDateRange,
+} from "@/domain/interfaces/ICacheRepository";
+
+const REPOSITORY_ID_REGEX = /^[\w.-]+(?::\d+)?(?:\/[\w.-]+)+$/;
+const VALID_DATA_TYPES = Object.values(DataType) as string[];
+
+/**
+ * Cache key for GitHub data
+ *
+ * Format: "repo:{repositoryId}:type:{dataType}:range:{start}:{end}"
+ * where repositoryId is "{owner}/{name}" or "{host}/{owner}/{name}" (GHES, GitLab)
+ *
+ * Dates are encoded at day granularity (yyyy-MM-dd) so that ranges ending
+ * "now" resolve to the same key across requests made on the same day.
+ */
+export class CacheKey {
+  private constructor(
+    public readonly value: string,
+    public readonly repositoryId: string,
+    public readonly dataType: DataType,
+  ) {}
+
+  static create(
+    repositoryId: string,
+    dataType: DataType,
+    range?: CachedDateRange,
+  ): Result<CacheKey> {
+    if (!REPOSITORY_ID_REGEX.test(repositoryId)) {
+      return err(
+        new Error(
+          `Invalid repository identifier: "${repositoryId}". Expected: {owner}/{repo} or {host}/{owner}/{repo}`,
+        ),
+      );
+    }
+
+    if (!VALID_DATA_TYPES.includes(dataType)) {
+      return err(new Error(`Invalid cache data type: "${dataType}"`));
+    }
+
+    let value = `repo:${repositoryId}:type:${dataType}`;
+
+    if (range) {
+      if (range.start.getTime() > range.end.getTime()) {
+        return err(new Error("Cache key range start must be before end"));
+      }
+      value += `:range:${formatDay(range.start)}:${formatDay(range.end)}`;
+    }
+
+    return ok(new CacheKey(value, repositoryId, dataType));
+  }
+
+  /**
+   * Prefix shared by every key of a repository
+   * Useful for invalidating all cached data of one repository
+   */
+  static repositoryPrefix(repositoryId: string): string {
+    return `repo:${repositoryId}:`;
+  }
+
+  equals(other: CacheKey): boolean {
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+function formatDay(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
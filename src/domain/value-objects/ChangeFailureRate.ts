@@ -0,0 +1,208 @@
+/**
+ * ChangeFailureRate Value Object
+ *
+ * DORA change failure rate: the share of deployments that caused a failure
+ * in production. A deployment is considered failed when any enabled rule
+ * matches:
+ * - deployment_status: its latest GitHub deployment status is FAILURE/ERROR
+ * - revert: a revert commit or PR lands within the revert window after it
+ * - hotfix: a hotfix PR (label or branch prefix) merges within the hotfix
+ *   window after it
+ *
+ * Reverts and hotfixes are attributed to the most recent deployment before
+ * them, so each signal fails at most one deployment. A merged revert PR
+ * and the commits it landed as are one revert: a revert commit is skipped
+ * when it is the PR's merge commit, its subject names the PR number
+ * (squash merge) or repeats the PR title (revert commit of a merged branch).
+ *
+ * The rate is classified into a DORA level by DORAClassificationService.
+ *
+ * Immutable - all properties are readonly.
+ */
+
+import { GitCommit, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { ChangeFailureRules } from "./ChangeFailureRules";
+import { DeploymentEvent } from "./DeploymentEvent";
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * Subjects of `git revert` commits and conventional "revert:" commits
+ */
+const REVERT_PATTERNS: readonly RegExp[] = [/^Revert "/, /^revert[:(]/i];
+
+/**
+ * PR number GitHub appends to squash merge subjects ("... (#123)")
+ */
+const PULL_REQUEST_REFERENCE = /\(#(\d+)\)$/;
+
+export const FailureReason = {
+  DEPLOYMENT_STATUS: "deployment_status",
+  REVERT: "revert",
+  HOTFIX: "hotfix",
+} as const;
+export type FailureReason = (typeof FailureReason)[keyof typeof FailureReason];
+
+export interface FailureSignal {
+  reason: FailureReason;
+  /** Status state, commit subject or PR title that triggered the rule */
+  detail: string;
+}
+
+export interface FailedDeployment {
+  event: DeploymentEvent;
+  signals: readonly FailureSignal[];
+}
+
+/**
+ * Signal occurring at a point in time, waiting to be attributed
+ */
+interface TimedSignal extends FailureSignal {
+  occurredAt: number;
+  windowHours: number;
+}
+
+function isRevert(text: string): boolean {
+  return REVERT_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+function referencedPullRequest(subject: string): number | null {
+  const number = PULL_REQUEST_REFERENCE.exec(subject)?.[1];
+  return number === undefined ? null : Number(number);
+}
+
+export class ChangeFailureRate {
+  private constructor(
+    readonly totalDeployments: number,
+    readonly failedDeployments: readonly FailedDeployment[],
+  ) {}
+
+  /**
+   * Evaluate deployments against the change failure rules
+   *
+   * @param events Deduplicated deployment events (any order)
+   * @param commits Commits on the default branch (for revert commits)
+   * @param pullRequests Pull requests (for revert and hotfix PRs)
+   * @param rules Rules deciding which signals count as failures
+   */
+  static calculate(
+    events: DeploymentEvent[],
+    commits: GitCommit[],
+    pullRequests: PullRequest[],
+    rules: ChangeFailureRules,
+  ): ChangeFailureRate {
+    const deployments = [...events].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+    );
+    const signals = new Map<DeploymentEvent, FailureSignal[]>();
+
+    const addSignal = (event: DeploymentEvent, signal: FailureSignal) => {
+      const existing = signals.get(event) ?? [];
+      existing.push(signal);
+      signals.set(event, existing);
+    };
+
+    if (rules.deploymentStatus) {
+      for (const event of deployments) {
+        if (event.hasFailedStatus()) {
+          addSignal(event, {
+            reason: FailureReason.DEPLOYMENT_STATUS,
+            detail: event.status ?? "",
+          });
+        }
+      }
+    }
+
+    const timedSignals: TimedSignal[] = [];
+    const revertMergeCommits = new Set<string>();
+    const revertNumbers = new Set<number>();
+    const revertTitles = new Set<string>();
+
+    for (const pr of pullRequests) {
+      if (pr.state !== "merged" || !pr.mergedAt) {
+        continue;
+      }
+      if (rules.revertWindowHours > 0 && isRevert(pr.title)) {
+        timedSignals.push({
+          reason: FailureReason.REVERT,
+          detail: `#${pr.number} ${pr.title}`,
+          occurredAt: pr.mergedAt.getTime(),
+          windowHours: rules.revertWindowHours,
+        });
+        revertNumbers.add(pr.number);
+        revertTitles.add(pr.title);
+        if (pr.mergeCommitOid) {
+          revertMergeCommits.add(pr.mergeCommitOid);
+        }
+      } else if (
+        rules.hotfixWindowHours > 0 &&
+        rules.isHotfix(pr.labels ?? [], pr.headRefName)
+      ) {
+        timedSignals.push({
+          reason: FailureReason.HOTFIX,
+          detail: `#${pr.number} ${pr.title}`,
+          occurredAt: pr.mergedAt.getTime(),
+          windowHours: rules.hotfixWindowHours,
+        });
+      }
+    }
+
+    if (rules.revertWindowHours > 0) {
+      for (const commit of commits) {
+        const subject = commit.message.split("\n")[0] ?? "";
+        const number = referencedPullRequest(subject);
+        if (
+          !isRevert(subject) ||
+          // Already counted as the revert PR
+          revertMergeCommits.has(commit.hash) ||
+          (number !== null && revertNumbers.has(number)) ||
+          revertTitles.has(subject)
+        ) {
+          continue;
+        }
+        timedSignals.push({
+          reason: FailureReason.REVERT,
+          detail: subject,
+          occurredAt: commit.date.getTime(),
+          windowHours: rules.revertWindowHours,
+        });
+      }
+    }
+
+    for (const signal of timedSignals) {
+      // Most recent deployment at or before the signal
+      let deployment: DeploymentEvent | undefined;
+      for (const candidate of deployments) {
+        if (candidate.timestamp.getTime() > signal.occurredAt) {
+          break;
+        }
+        deployment = candidate;
+      }
+
+      if (
+        deployment &&
+        signal.occurredAt - deployment.timestamp.getTime() <=
+          signal.windowHours * MS_PER_HOUR
+      ) {
+        addSignal(deployment, { reason: signal.reason, detail: signal.detail });
+      }
+    }
+
+    const failedDeployments = deployments
+      .filter((event) => signals.has(event))
+      .reverse() // Newest first
+      .map((event) => ({ event, signals: signals.get(event) ?? [] }));
+
+    return new ChangeFailureRate(deployments.length, failedDeployments);
+  }
+
+  /**
+   * Failure rate as a percentage (null if there were no deployments)
+   */
+  get failureRate(): number | null {
+    if (this.totalDeployments === 0) {
+      return null;
+    }
+    return (this.failedDeployments.length / this.totalDeployments) * 100;
+  }
+}
@@ -0,0 +1,128 @@
+import { Result, ok, err } from "@/lib/result";
+
+/**
+ * Longest configurable attribution window (30 days)
+ */
+const MAX_WINDOW_HOURS = 24 * 30;
+
+export interface ChangeFailureRulesProps {
+  /** Count deployments whose latest status is FAILURE or ERROR */
+  deploymentStatus: boolean;
+  /** Hours after a deployment in which a revert marks it failed (0 disables) */
+  revertWindowHours: number;
+  /** Hours after a deployment in which a hotfix merge marks it failed (0 disables) */
+  hotfixWindowHours: number;
+  /** PR labels that identify a hotfix (case-insensitive) */
+  hotfixLabels: string[];
+  /** Head branch prefixes that identify a hotfix (e.g. "hotfix/") */
+  hotfixBranchPrefixes: string[];
+}
+
+/**
+ * ChangeFailureRules Value Object
+ *
+ * Per-repository rules deciding which signals mark a deployment as failed
+ * for the DORA change failure rate.
+ *
+ * Immutable - all properties are readonly.
+ */
+export class ChangeFailureRules {
+  private constructor(
+    readonly deploymentStatus: boolean,
+    readonly revertWindowHours: number,
+    readonly hotfixWindowHours: number,
+    readonly hotfixLabels: readonly string[],
+    readonly hotfixBranchPrefixes: readonly string[],
+  ) {}
+
+  /**
+   * Create rules after validating windows and normalizing lists
+   *
+   * @returns Result with ChangeFailureRules or error if a window is invalid
+   */
+  static create(props: ChangeFailureRulesProps): Result<ChangeFailureRules> {
+    for (const [name, hours] of [
+      ["revertWindowHours", props.revertWindowHours],
+      ["hotfixWindowHours", props.hotfixWindowHours],
+    ] as const) {
+      if (!Number.isFinite(hours) || hours < 0 || hours > MAX_WINDOW_HOURS) {
+        return err(
+          new Error(`${name} must be between 0 and ${MAX_WINDOW_HOURS} hours`),
+        );
+      }
+    }
+
+    const normalize = (values: string[]): string[] =>
+      Array.from(
+        new Set(values.map((value) => value.trim()).filter((v) => v !== "")),
+      );
+
+    return ok(
+      new ChangeFailureRules(
+        props.deploymentStatus,
+        props.revertWindowHours,
+        props.hotfixWindowHours,
+        normalize(props.hotfixLabels.map((label) => label.toLowerCase())),
+        normalize(props.hotfixBranchPrefixes),
+      ),
+    );
+  }
+
+  /**
+   * Check that a value has the shape of ChangeFailureRulesProps
+   * (client input and stored rules are not trusted)
+   */
+  static isProps(value: unknown): value is ChangeFailureRulesProps {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      return false;
+    }
+    const props = value as Record<string, unknown>;
+    const isStringList = (list: unknown): boolean =>
+      Array.isArray(list) && list.every((item) => typeof item === "string");
+    return (
+      typeof props.deploymentStatus === "boolean" &&
+      typeof props.revertWindowHours === "number" &&
+      typeof props.hotfixWindowHours === "number" &&
+      isStringList(props.hotfixLabels) &&
+      isStringList(props.hotfixBranchPrefixes)
+    );
+  }
+
+  /**
+   * Default rules: failed statuses, reverts within 3 days, hotfixes within 2 days
+   */
+  static defaults(): ChangeFailureRules {
+    return new ChangeFailureRules(true, 72, 48, ["hotfix"], ["hotfix/"]);
+  }
+
+  /**
+   * Check if a pull request counts as a hotfix by label or head branch
+   */
+  isHotfix(
+    labels: readonly string[],
+    headRefName: string | undefined,
+  ): boolean {
+    if (
+      labels.some((label) => this.hotfixLabels.includes(label.toLowerCase()))
+    ) {
+      return true;
+    }
+    return (
+      headRefName !== undefined &&
+      this.hotfixBranchPrefixes.some((prefix) => headRefName.startsWith(prefix))
+    );
+  }
+
+  /**
+   * Plain object representation (for storage and client components)
+   */
+  toProps(): ChangeFailureRulesProps {
+    return {
+      deploymentStatus: this.deploymentStatus,
+      revertWindowHours: this.revertWindowHours,
+      hotfixWindowHours: this.hotfixWindowHours,
+      hotfixLabels: [...this.hotfixLabels],
+      hotfixBranchPrefixes: [...this.hotfixBranchPrefixes],
+    };
+  }
+}
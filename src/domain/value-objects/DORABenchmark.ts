@@ -0,0 +1,200 @@
+/**
+ * DORABenchmark Value Object
+ *
+ * Performance bands of one edition of the State of DevOps report, used to
+ * classify the four DORA metrics. Editions differ in their clusters (2022
+ * has no elite cluster) and in where the bands start.
+ *
+ * Bands are listed best first. Deployment frequency is "higher is better"
+ * (a level is reached from its bound upwards); lead time, change failure
+ * rate and time to restore are "lower is better" (a level is reached up to
+ * and including its bound).
+ *
+ * Immutable - all properties are readonly.
+ */
+
+export const DORALevel = {
+  ELITE: "elite",
+  HIGH: "high",
+  MEDIUM: "medium",
+  LOW: "low",
+  INSUFFICIENT_DATA: "insufficient_data",
+} as const;
+export type DORALevel = (typeof DORALevel)[keyof typeof DORALevel];
+
+export const DORABenchmarkEdition = {
+  EDITION_2021: "2021",
+  EDITION_2022: "2022",
+  EDITION_2023: "2023",
+} as const;
+export type DORABenchmarkEdition =
+  (typeof DORABenchmarkEdition)[keyof typeof DORABenchmarkEdition];
+
+/**
+ * All editions, newest first (for settings menus)
+ */
+export const DORA_BENCHMARK_EDITIONS: readonly DORABenchmarkEdition[] = [
+  DORABenchmarkEdition.EDITION_2023,
+  DORABenchmarkEdition.EDITION_2022,
+  DORABenchmarkEdition.EDITION_2021,
+];
+
+export const DEFAULT_DORA_BENCHMARK_EDITION = DORABenchmarkEdition.EDITION_2023;
+
+export const DORAMetric = {
+  /** Deployments per year */
+  DEPLOYMENT_FREQUENCY: "deployment_frequency",
+  /** Median lead time for changes in hours */
+  LEAD_TIME: "lead_time",
+  /** Change failure rate in percent */
+  CHANGE_FAILURE_RATE: "change_failure_rate",
+  /** Median time to restore service in hours */
+  TIME_TO_RESTORE: "time_to_restore",
+} as const;
+export type DORAMetric = (typeof DORAMetric)[keyof typeof DORAMetric];
+
+/**
+ * A performance band: the level reached at its bound
+ * The last band of every metric is open-ended (low).
+ */
+export interface DORABand {
+  level: DORALevel;
+  bound: number;
+}
+
+const HOURS_PER_DAY = 24;
+const HOURS_PER_WEEK = 24 * 7;
+const HOURS_PER_MONTH = 24 * 30;
+const HOURS_PER_HALF_YEAR = (24 * 365) / 2;
+
+const { ELITE, HIGH, MEDIUM, LOW } = DORALevel;
+
+const EDITION_BANDS: Record<
+  DORABenchmarkEdition,
+  Record<DORAMetric, readonly DORABand[]>
+> = {
+  // 2021: elite deploys on demand, high weekly to monthly, medium monthly
+  // to every six months. The report gives the same 16-30% failure rate
+  // to high, medium and low performers, so rates above 30% count as low
+  // and medium is never reached.
+  [DORABenchmarkEdition.EDITION_2021]: {
+    [DORAMetric.DEPLOYMENT_FREQUENCY]: [
+      { level: ELITE, bound: 730 },
+      { level: HIGH, bound: 12 },
+      { level: MEDIUM, bound: 2 },
+      { level: LOW, bound: 0 },
+    ],
+    [DORAMetric.LEAD_TIME]: [
+      { level: ELITE, bound: 1 },
+      { level: HIGH, bound: HOURS_PER_WEEK },
+      { level: MEDIUM, bound: HOURS_PER_HALF_YEAR },
+      { level: LOW, bound: Infinity },
+    ],
+    [DORAMetric.CHANGE_FAILURE_RATE]: [
+      { level: ELITE, bound: 15 },
+      { level: HIGH, bound: 30 },
+      { level: LOW, bound: Infinity },
+    ],
+    [DORAMetric.TIME_TO_RESTORE]: [
+      { level: ELITE, bound: 1 },
+      { level: HIGH, bound: HOURS_PER_DAY },
+      { level: MEDIUM, bound: HOURS_PER_WEEK },
+      { level: LOW, bound: Infinity },
+    ],
+  },
+  // 2022: three clusters, no elite
+  [DORABenchmarkEdition.EDITION_2022]: {
+    [DORAMetric.DEPLOYMENT_FREQUENCY]: [
+      { level: HIGH, bound: 730 },
+      { level: MEDIUM, bound: 12 },
+      { level: LOW, bound: 0 },
+    ],
+    [DORAMetric.LEAD_TIME]: [
+      { level: HIGH, bound: HOURS_PER_WEEK },
+      { level: MEDIUM, bound: HOURS_PER_HALF_YEAR },
+      { level: LOW, bound: Infinity },
+    ],
+    [DORAMetric.CHANGE_FAILURE_RATE]: [
+      { level: HIGH, bound: 15 },
+      { level: MEDIUM, bound: 30 },
+      { level: LOW, bound: Infinity },
+    ],
+    [DORAMetric.TIME_TO_RESTORE]: [
+      { level: HIGH, bound: HOURS_PER_DAY },
+      { level: MEDIUM, bound: HOURS_PER_WEEK },
+      { level: LOW, bound: Infinity },
+    ],
+  },
+  [DORABenchmarkEdition.EDITION_2023]: {
+    [DORAMetric.DEPLOYMENT_FREQUENCY]: [
+      { level: ELITE, bound: 730 },
+      { level: HIGH, bound: 52 },
+      { level: MEDIUM, bound: 12 },
+      { level: LOW, bound: 0 },
+    ],
+    [DORAMetric.LEAD_TIME]: [
+      { level: ELITE, bound: HOURS_PER_DAY },
+      { level: HIGH, bound: HOURS_PER_WEEK },
+      { level: MEDIUM, bound: HOURS_PER_MONTH },
+      { level: LOW, bound: Infinity },
+    ],
+    [DORAMetric.CHANGE_FAILURE_RATE]: [
+      { level: ELITE, bound: 5 },
+      { level: HIGH, bound: 10 },
+      { level: MEDIUM, bound: 15 },
+      { level: LOW, bound: Infinity },
+    ],
+    [DORAMetric.TIME_TO_RESTORE]: [
+      { level: ELITE, bound: 1 },
+      { level: HIGH, bound: HOURS_PER_DAY },
+      { level: MEDIUM, bound: HOURS_PER_WEEK },
+      { level: LOW, bound: Infinity },
+    ],
+  },
+};
+
+export class DORABenchmark {
+  private constructor(readonly edition: DORABenchmarkEdition) {}
+
+  /**
+   * Get the benchmark of an edition
+   */
+  static forEdition(
+    edition: DORABenchmarkEdition = DEFAULT_DORA_BENCHMARK_EDITION,
+  ): DORABenchmark {
+    return new DORABenchmark(edition);
+  }
+
+  /**
+   * Check if a value names a known edition (e.g. a stored setting)
+   */
+  static isEdition(value: unknown): value is DORABenchmarkEdition {
+    return DORA_BENCHMARK_EDITIONS.includes(value as DORABenchmarkEdition);
+  }
+
+  /**
+   * Check if higher values of a metric are better
+   */
+  static isHigherBetter(metric: DORAMetric): boolean {
+    return metric === DORAMetric.DEPLOYMENT_FREQUENCY;
+  }
+
+  /**
+   * Performance bands of a metric, best first
+   */
+  getBands(metric: DORAMetric): readonly DORABand[] {
+    return EDITION_BANDS[this.edition][metric];
+  }
+
+  /**
+   * Find the band a metric value falls into
+   */
+  classify(metric: DORAMetric, value: number): DORALevel {
+    const bands = this.getBands(metric);
+    const higherIsBetter = DORABenchmark.isHigherBetter(metric);
+    const band = bands.find((candidate) =>
+      higherIsBetter ? value >= candidate.bound : value <= candidate.bound,
+    );
+    return (band ?? bands[bands.length - 1]!).level;
+  }
+}
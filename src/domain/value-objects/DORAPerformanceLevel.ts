@@ -2,9 +2,9 @@
  * DORAPerformanceLevel Value Object
  *
  * Classifies deployment frequency according to DORA (DevOps Research and Assessment)
- * performance benchmarks.
+ * performance benchmarks. The bands come from the selected benchmark
+ * edition (see DORABenchmark); with the default 2023 edition:
  *
- * DORA Levels:
  * - Elite: 730+ deployments/year (2+ per day)
  * - High: 52-729 deployments/year (1/week to <2/day)
  * - Medium: 12-51 deployments/year (1/month to <1/week)
@@ -14,16 +14,34 @@
  * Immutable - all properties are readonly.
  */
 
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
 import { DeploymentFrequency } from "./DeploymentFrequency";
+import { DORABenchmark, DORALevel, DORAMetric } from "./DORABenchmark";
 
-export const DORALevel = {
-  ELITE: "elite",
-  HIGH: "high",
-  MEDIUM: "medium",
-  LOW: "low",
-  INSUFFICIENT_DATA: "insufficient_data",
-} as const;
-export type DORALevel = (typeof DORALevel)[keyof typeof DORALevel];
+export { DORALevel } from "./DORABenchmark";
+
+/**
+ * Describe the deployments-per-year range of a level in a benchmark
+ */
+function describeBenchmarkRange(
+  benchmark: DORABenchmark,
+  level: DORALevel,
+): string {
+  const bands = benchmark.getBands(DORAMetric.DEPLOYMENT_FREQUENCY);
+  const index = bands.findIndex((band) => band.level === level);
+  const band = bands[index];
+  if (!band) {
+    return "0 deployments";
+  }
+  const better = bands[index - 1];
+  if (!better) {
+    return `${band.bound}+ deployments per year`;
+  }
+  if (band.bound === 0) {
+    return `Fewer than ${better.bound} deployments per year`;
+  }
+  return `${band.bound}-${better.bound - 1} deployments per year`;
+}
 
 export class DORAPerformanceLevel {
   private constructor(
@@ -37,84 +55,90 @@ export class DORAPerformanceLevel {
 
   /**
    * Classify deployment frequency according to DORA benchmarks
+   * @param benchmark Benchmark edition to classify against (2023 by default)
    */
   static fromDeploymentFrequency(
     frequency: DeploymentFrequency,
+    benchmark: DORABenchmark = DORABenchmark.forEdition(),
   ): DORAPerformanceLevel {
     const deploymentsPerYear = frequency.deploymentsPerYear;
+    const level = DORAClassificationService.classifyDeploymentFrequency(
+      deploymentsPerYear,
+      frequency.totalCount,
+      benchmark,
+    );
+    const benchmarkRange = describeBenchmarkRange(benchmark, level);
 
-    if (frequency.totalCount === 0) {
-      return new DORAPerformanceLevel(
-        DORALevel.INSUFFICIENT_DATA,
-        0,
-        "No deployment data available.",
-        "0 deployments",
-        "#64748B", // gray-500
-        [
-          "Start tracking deployments by creating GitHub Releases",
-          "Tag your commits with semantic versioning (v1.0.0)",
-          "Set up GitHub Actions to create Deployment events",
-        ],
-      );
-    }
+    switch (level) {
+      case DORALevel.INSUFFICIENT_DATA:
+        return new DORAPerformanceLevel(
+          DORALevel.INSUFFICIENT_DATA,
+          0,
+          "No deployment data available.",
+          benchmarkRange,
+          "#64748B", // gray-500
+          [
+            "Start tracking deployments by creating GitHub Releases",
+            "Tag your commits with semantic versioning (v1.0.0)",
+            "Set up GitHub Actions to create Deployment events",
+          ],
+        );
 
-    if (deploymentsPerYear >= 730) {
-      return new DORAPerformanceLevel(
-        DORALevel.ELITE,
-        deploymentsPerYear,
-        `Elite performance! Your team deploys ${Math.round(deploymentsPerYear)} times per year (${(deploymentsPerYear / 365).toFixed(1)} per day).`,
-        "730+ deployments per year (2+ per day)",
-        "#FFD700", // gold
-        [], // No suggestions - already elite
-      );
-    }
+      case DORALevel.ELITE:
+        return new DORAPerformanceLevel(
+          DORALevel.ELITE,
+          deploymentsPerYear,
+          `Elite performance! Your team deploys ${Math.round(deploymentsPerYear)} times per year (${(deploymentsPerYear / 365).toFixed(1)} per day).`,
+          benchmarkRange,
+          "#FFD700", // gold
+          [], // No suggestions - already elite
+        );
 
-    if (deploymentsPerYear >= 52) {
-      return new DORAPerformanceLevel(
-        DORALevel.HIGH,
-        deploymentsPerYear,
-        `High performance! Deploying ${Math.round(deploymentsPerYear)} times per year.`,
-        "52-729 deployments per year (1/week to <2/day)",
-        "#22C55E", // green-500
-        [
-          "Consider increasing deployment frequency to reach elite level (2+ per day)",
-          "Implement continuous deployment practices",
-          "Automate more of your deployment pipeline",
-        ],
-      );
-    }
+      case DORALevel.HIGH:
+        return new DORAPerformanceLevel(
+          DORALevel.HIGH,
+          deploymentsPerYear,
+          `High performance! Deploying ${Math.round(deploymentsPerYear)} times per year.`,
+          benchmarkRange,
+          "#22C55E", // green-500
+          [
+            "Consider deploying on demand, multiple times per day",
+            "Implement continuous deployment practices",
+            "Automate more of your deployment pipeline",
+          ],
+        );
 
-    if (deploymentsPerYear >= 12) {
-      return new DORAPerformanceLevel(
-        DORALevel.MEDIUM,
-        deploymentsPerYear,
-        `Medium performance. Deploying ${Math.round(deploymentsPerYear)} times per year.`,
-        "12-51 deployments per year (1/month to <1/week)",
-        "#F59E0B", // amber-500
-        [
-          "Increase deployment frequency by deploying smaller changes more often",
-          "Improve CI/CD automation to reduce deployment friction",
-          "Consider feature flags to decouple deployment from release",
-          "Reduce batch sizes to enable more frequent deployments",
-        ],
-      );
-    }
+      case DORALevel.MEDIUM:
+        return new DORAPerformanceLevel(
+          DORALevel.MEDIUM,
+          deploymentsPerYear,
+          `Medium performance. Deploying ${Math.round(deploymentsPerYear)} times per year.`,
+          benchmarkRange,
+          "#F59E0B", // amber-500
+          [
+            "Increase deployment frequency by deploying smaller changes more often",
+            "Improve CI/CD automation to reduce deployment friction",
+            "Consider feature flags to decouple deployment from release",
+            "Reduce batch sizes to enable more frequent deployments",
+          ],
+        );
 
-    // Low: 1-11 deployments per year
-    return new DORAPerformanceLevel(
-      DORALevel.LOW,
-      deploymentsPerYear,
-      `Low performance. Only ${Math.round(deploymentsPerYear)} deployments per year.`,
-      "1-11 deployments per year (<1/month)",
-      "#EF4444", // red-500
-      [
-        "Establish a regular deployment cadence (at least monthly)",
-        "Invest in CI/CD automation to make deployments easier",
-        "Break down large changes into smaller, deployable increments",
-        "Build confidence through automated testing",
-        "Consider implementing continuous deployment",
-      ],
-    );
+      case DORALevel.LOW:
+        return new DORAPerformanceLevel(
+          DORALevel.LOW,
+          deploymentsPerYear,
+          `Low performance. Only ${Math.round(deploymentsPerYear)} deployments per year.`,
+          benchmarkRange,
+          "#EF4444", // red-500
+          [
+            "Establish a regular deployment cadence (at least monthly)",
+            "Invest in CI/CD automation to make deployments easier",
+            "Break down large changes into smaller, deployable increments",
+            "Build confidence through automated testing",
+            "Consider implementing continuous deployment",
+          ],
+        );
+    }
   }
 
   /**
@@ -190,6 +190,33 @@ export class DateRange {
     return chunks;
   }
 
+  /**
+   * Get the period of equal length immediately before this range
+   *
+   * @returns DateRange ending where this range starts
+   *
+   * @example
+   * const range = DateRange.last30Days();
+   * range.previousPeriod(); // The 30 days before that
+   */
+  previousPeriod(): DateRange {
+    const durationMs = this.end.getTime() - this.start.getTime();
+    return new DateRange(
+      new Date(this.start.getTime() - durationMs),
+      new Date(this.start),
+    );
+  }
+
+  /**
+   * Extend this range back over its previous period
+   * Covers both periods, so they can be fetched at once and compared.
+   *
+   * @returns DateRange from the previous period's start to this range's end
+   */
+  withPreviousPeriod(): DateRange {
+    return new DateRange(this.previousPeriod().start, new Date(this.end));
+  }
+
   /**
    * Convert to ISO string representation
    *
@@ -23,6 +23,20 @@ export const DeploymentSource = {
 export type DeploymentSource =
   (typeof DeploymentSource)[keyof typeof DeploymentSource];
 
+/**
+ * Deployment status states that mark a failed deployment
+ */
+const FAILED_STATUS_STATES: readonly string[] = ["FAILURE", "ERROR"];
+
+/**
+ * Raw deployment sources of a repository
+ */
+export interface DeploymentSources {
+  releases: Release[];
+  deployments: Deployment[];
+  tags: Tag[];
+}
+
 /**
  * Normalize tag name for deduplication
  * Removes common prefixes and converts to lowercase
@@ -44,6 +58,8 @@ export class DeploymentEvent {
     readonly source: DeploymentSource,
     readonly environment?: string,
     readonly displayName: string = "",
+    readonly commitOid: string | null = null,
+    readonly status: string | null = null,
   ) {
     // Validation
     if (!id) {
@@ -64,6 +80,8 @@ export class DeploymentEvent {
     source: DeploymentSource,
     environment?: string,
     displayName: string = "",
+    commitOid: string | null = null,
+    status: string | null = null,
   ): DeploymentEvent {
     return new DeploymentEvent(
       id,
@@ -72,6 +90,8 @@ export class DeploymentEvent {
       source,
       environment,
       displayName,
+      commitOid,
+      status,
     );
   }
 
@@ -89,11 +109,13 @@ export class DeploymentEvent {
       DeploymentSource.RELEASE,
       undefined,
       release.name ?? release.tagName,
+      release.commitOid ?? null,
     );
   }
 
   /**
    * Create DeploymentEvent from GitHub Deployment
+   * The latest deployment status state is kept (e.g. "SUCCESS", "FAILURE").
    */
   static fromDeployment(deployment: Deployment): DeploymentEvent {
     const timestamp = new Date(deployment.createdAt);
@@ -106,6 +128,8 @@ export class DeploymentEvent {
       DeploymentSource.DEPLOYMENT,
       deployment.environment ?? undefined,
       deployment.ref ?? deployment.id,
+      deployment.commitOid ?? null,
+      deployment.latestStatus?.state ?? null,
     );
   }
 
@@ -126,9 +150,44 @@ export class DeploymentEvent {
       DeploymentSource.TAG,
       undefined,
       tag.name,
+      tag.commitOid ?? null,
+    );
+  }
+
+  /**
+   * Create deduplicated DeploymentEvents from all deployment sources
+   * Draft releases are skipped.
+   *
+   * @returns Unique events sorted by timestamp (newest first)
+   */
+  static fromSources(sources: DeploymentSources): DeploymentEvent[] {
+    return DeploymentEvent.deduplicate(
+      sources.releases
+        .filter((r) => !r.isDraft)
+        .map(DeploymentEvent.fromRelease),
+      sources.deployments.map(DeploymentEvent.fromDeployment),
+      sources.tags.map(DeploymentEvent.fromTag),
+    );
+  }
+
+  /**
+   * Check if the latest deployment status reports a failure
+   * Always false for releases and tags, which have no status.
+   */
+  hasFailedStatus(): boolean {
+    return (
+      this.status !== null &&
+      FAILED_STATUS_STATES.includes(this.status.toUpperCase())
     );
   }
 
+  /**
+   * Check if the latest deployment status reports a success
+   */
+  hasSucceededStatus(): boolean {
+    return this.status !== null && this.status.toUpperCase() === "SUCCESS";
+  }
+
   /**
    * Get ISO 8601 week key for aggregation (e.g., "2024-W03")
    */
@@ -160,6 +219,58 @@ export class DeploymentEvent {
     return true;
   }
 
+  /**
+   * Deduplicate deployment events by normalized tag name
+   * Priority: Releases > Deployments > Tags
+   *
+   * Deployments are only merged into a release of the same tag. Other
+   * deployments are kept individually, since repeated deployments of a
+   * branch (e.g. "main") share a ref but are separate rollouts. Releases
+   * and tags without a tag name are dropped.
+   *
+   * @returns Unique events sorted by timestamp (newest first)
+   */
+  static deduplicate(
+    releases: DeploymentEvent[],
+    deployments: DeploymentEvent[],
+    tags: DeploymentEvent[],
+  ): DeploymentEvent[] {
+    const eventMap = new Map<string, DeploymentEvent>();
+    const seenTagNames = new Set<string>();
+
+    // Process releases first (highest priority)
+    for (const event of releases) {
+      if (event.tagName) {
+        eventMap.set(`tag:${event.tagName}`, event);
+        seenTagNames.add(event.tagName);
+      }
+    }
+
+    // Add deployments (only if no matching release)
+    const releasedTagNames = new Set(seenTagNames);
+    for (const event of deployments) {
+      if (event.tagName && releasedTagNames.has(event.tagName)) {
+        continue;
+      }
+      eventMap.set(`deployment:${event.id}`, event);
+      if (event.tagName) {
+        seenTagNames.add(event.tagName);
+      }
+    }
+
+    // Add tags (only if no release/deployment)
+    for (const event of tags) {
+      if (event.tagName && !seenTagNames.has(event.tagName)) {
+        eventMap.set(`tag:${event.tagName}`, event);
+        seenTagNames.add(event.tagName);
+      }
+    }
+
+    return Array.from(eventMap.values()).sort(
+      DeploymentEvent.compareByTimestamp,
+    );
+  }
+
   /**
    * Compare two events by timestamp (for sorting)
    */
@@ -1,5 +1,10 @@
 import { Result, ok, err } from "@/lib/result";
 
+/**
+ * GitHub's noreply commit emails ("12345+login@users.noreply.github.com")
+ */
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/;
+
 export class Email {
   private constructor(public readonly value: string) {}
 
@@ -24,6 +29,13 @@ export class Email {
     return ok(new Email(normalized));
   }
 
+  /**
+   * GitHub username of a noreply commit email (null for other emails)
+   */
+  get noreplyLogin(): string | null {
+    return this.value.match(NOREPLY_EMAIL)?.[1] ?? null;
+  }
+
   equals(other: Email): boolean {
     return this.value === other.value;
   }
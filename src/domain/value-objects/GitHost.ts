@@ -0,0 +1,98 @@
+import { Result, ok, err } from "@/lib/result";
+
+export const GITHUB_DOTCOM_HOST = "github.com";
+
+/**
+ * Git hosting provider
+ */
+export const GitProvider = {
+  GITHUB: "github",
+  GITLAB: "gitlab",
+} as const;
+
+export type GitProvider = (typeof GitProvider)[keyof typeof GitProvider];
+
+/**
+ * Git host (github.com, GitHub Enterprise Server or a GitLab instance)
+ *
+ * Resolves the web, REST and GraphQL endpoints for the host.
+ * - GHES serves REST under /api/v3 and GraphQL under /api/graphql
+ * - GitLab serves REST under /api/v4 and GraphQL under /api/graphql
+ */
+export class GitHost {
+  private constructor(
+    public readonly hostname: string,
+    public readonly provider: GitProvider,
+  ) {}
+
+  /**
+   * Create a host from a hostname (optionally with port)
+   * A leading https:// and trailing slashes are tolerated so that
+   * host environment variables can be configured either way.
+   */
+  static create(
+    value: string,
+    provider: GitProvider = GitProvider.GITHUB,
+  ): Result<GitHost> {
+    const normalized = value
+      .trim()
+      .toLowerCase()
+      .replace(/^https:\/\//, "")
+      .replace(/\/+$/, "");
+
+    const hostnameRegex =
+      /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*(?::\d{1,5})?$/;
+    if (!hostnameRegex.test(normalized)) {
+      return err(new Error(`Invalid ${provider} host: ${value}`));
+    }
+
+    if (provider === GitProvider.GITLAB && normalized === GITHUB_DOTCOM_HOST) {
+      return err(new Error(`${GITHUB_DOTCOM_HOST} is not a GitLab host`));
+    }
+
+    return ok(new GitHost(normalized, provider));
+  }
+
+  static dotcom(): GitHost {
+    return new GitHost(GITHUB_DOTCOM_HOST, GitProvider.GITHUB);
+  }
+
+  /**
+   * True for GitHub Enterprise Server instances
+   */
+  get isEnterprise(): boolean {
+    return (
+      this.provider === GitProvider.GITHUB &&
+      this.hostname !== GITHUB_DOTCOM_HOST
+    );
+  }
+
+  get webUrl(): string {
+    return `https://${this.hostname}`;
+  }
+
+  /**
+   * REST API base URL
+   */
+  get apiUrl(): string {
+    if (this.provider === GitProvider.GITLAB) {
+      return `https://${this.hostname}/api/v4`;
+    }
+    return this.isEnterprise
+      ? `https://${this.hostname}/api/v3`
+      : "https://api.github.com";
+  }
+
+  /**
+   * Base URL for @octokit/graphql (the client appends /graphql)
+   */
+  get graphqlBaseUrl(): string {
+    return this.hostname === GITHUB_DOTCOM_HOST
+      ? "https://api.github.com"
+      : `https://${this.hostname}/api`;
+  }
+
+  equals(other: GitHost): boolean {
+    return this.hostname === other.hostname && this.provider === other.provider;
+  }
+}
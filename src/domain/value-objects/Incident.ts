@@ -0,0 +1,159 @@
+import { Result, ok, err } from "@/lib/result";
+import { Deployment } from "@/domain/interfaces/IGitHubRepository";
+import { DeploymentEvent } from "./DeploymentEvent";
+
+/**
+ * Where an incident was detected
+ */
+export const IncidentSource = {
+  /** Failed deployment status followed by a successful one */
+  DEPLOYMENT: "deployment",
+  /** Imported from a file upload or the incident webhook */
+  IMPORT: "import",
+} as const;
+export type IncidentSource =
+  (typeof IncidentSource)[keyof typeof IncidentSource];
+
+export interface IncidentProps {
+  id: string;
+  title: string;
+  openedAt: Date;
+  resolvedAt: Date | null;
+  source: IncidentSource;
+  url?: string;
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * Incident Value Object
+ *
+ * A period of degraded service, from the moment it was opened until it
+ * was resolved. Unresolved incidents have no restore time.
+ *
+ * Immutable - all properties are readonly.
+ */
+export class Incident {
+  private constructor(
+    readonly id: string,
+    readonly title: string,
+    readonly openedAt: Date,
+    readonly resolvedAt: Date | null,
+    readonly source: IncidentSource,
+    readonly url: string | undefined,
+  ) {}
+
+  /**
+   * Create an incident
+   *
+   * @returns Result with Incident or error if the id or timestamps are invalid
+   */
+  static create(props: IncidentProps): Result<Incident> {
+    if (!props.id.trim()) {
+      return err(new Error("Incident id cannot be empty"));
+    }
+    if (isNaN(props.openedAt.getTime())) {
+      return err(new Error(`Incident ${props.id} has an invalid open time`));
+    }
+    if (props.resolvedAt) {
+      if (isNaN(props.resolvedAt.getTime())) {
+        return err(
+          new Error(`Incident ${props.id} has an invalid resolve time`),
+        );
+      }
+      if (props.resolvedAt.getTime() < props.openedAt.getTime()) {
+        return err(
+          new Error(`Incident ${props.id} is resolved before it was opened`),
+        );
+      }
+    }
+
+    return ok(
+      new Incident(
+        props.id.trim(),
+        props.title.trim() || props.id.trim(),
+        props.openedAt,
+        props.resolvedAt,
+        props.source,
+        props.url,
+      ),
+    );
+  }
+
+  /**
+   * Derive incidents from deployment status transitions
+   *
+   * Per environment, an incident opens with the first deployment whose
+   * latest status is FAILURE/ERROR and is resolved by the next deployment
+   * whose latest status is SUCCESS. Status times are used where available,
+   * otherwise deployment creation times. Deployments without a final
+   * status (queued, in progress, inactive) neither open nor resolve.
+   */
+  static fromDeployments(deployments: Deployment[]): Incident[] {
+    const timed = deployments
+      .map((deployment) => ({
+        event: DeploymentEvent.fromDeployment(deployment),
+        at: new Date(
+          deployment.latestStatus?.createdAt ?? deployment.createdAt,
+        ),
+      }))
+      .filter(({ at }) => !isNaN(at.getTime()))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    const open = new Map<string, { event: DeploymentEvent; at: Date }>();
+    const incidents: Incident[] = [];
+
+    const toIncident = (
+      failure: { event: DeploymentEvent; at: Date },
+      resolvedAt: Date | null,
+    ): Incident =>
+      new Incident(
+        failure.event.id,
+        failure.event.environment
+          ? `${failure.event.environment}: ${failure.event.displayName}`
+          : failure.event.displayName,
+        failure.at,
+        resolvedAt,
+        IncidentSource.DEPLOYMENT,
+        undefined,
+      );
+
+    for (const entry of timed) {
+      const environment = entry.event.environment ?? "";
+      const failure = open.get(environment);
+
+      if (!failure && entry.event.hasFailedStatus()) {
+        open.set(environment, entry);
+      } else if (failure && entry.event.hasSucceededStatus()) {
+        incidents.push(toIncident(failure, entry.at));
+        open.delete(environment);
+      }
+    }
+
+    for (const failure of open.values()) {
+      incidents.push(toIncident(failure, null));
+    }
+
+    return incidents.sort(
+      (a, b) => a.openedAt.getTime() - b.openedAt.getTime(),
+    );
+  }
+
+  /**
+   * Hours from opening to resolution (null while unresolved)
+   */
+  get restoreHours(): number | null {
+    if (!this.resolvedAt) {
+      return null;
+    }
+    return (this.resolvedAt.getTime() - this.openedAt.getTime()) / MS_PER_HOUR;
+  }
+
+  /**
+   * Check if the incident was opened within a time range (inclusive)
+   */
+  isOpenedWithin(start: Date, end: Date): boolean {
+    const openedAt = this.openedAt.getTime();
+    return openedAt >= start.getTime() && openedAt <= end.getTime();
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * LeadTimeForChanges Value Object
+ *
+ * DORA lead time for changes: the time from a commit landing on the
+ * default branch to the first deployment event (release, deployment or
+ * tag) that contains it.
+ *
+ * Commits are placed by their position in the newest-first default-branch
+ * history: a deployment of commit X (its commitOid) contains X and every
+ * older commit. When that commit is unknown or outside the analyzed
+ * commits, the deployment contains the commits that landed at or before its
+ * timestamp. Deployments whose latest status is FAILURE or ERROR ship
+ * nothing. Lead time starts when the commit landed (its committer date, set
+ * when it was merged, squashed or rebased onto the branch); commits without
+ * a committer date use their author date.
+ *
+ * The median is classified into a DORA level by DORAClassificationService.
+ *
+ * Immutable - all properties are readonly.
+ */
+
+import { GitCommit } from "@/domain/interfaces/IGitHubRepository";
+import { median, percentile } from "@/lib/utils/statistics";
+import { DeploymentEvent } from "./DeploymentEvent";
+
+const HOURS_PER_DAY = 24;
+const HOURS_PER_WEEK = 24 * 7;
+const HOURS_PER_MONTH = 24 * 30;
+
+export const LeadTimeBucket = {
+  UNDER_HOUR: "under_hour",
+  UNDER_DAY: "under_day",
+  UNDER_WEEK: "under_week",
+  UNDER_MONTH: "under_month",
+  OVER_MONTH: "over_month",
+} as const;
+export type LeadTimeBucket =
+  (typeof LeadTimeBucket)[keyof typeof LeadTimeBucket];
+
+/**
+ * Upper bound (exclusive, in hours) of each distribution bucket
+ */
+const BUCKET_UPPER_BOUNDS: ReadonlyArray<[LeadTimeBucket, number]> = [
+  [LeadTimeBucket.UNDER_HOUR, 1],
+  [LeadTimeBucket.UNDER_DAY, HOURS_PER_DAY],
+  [LeadTimeBucket.UNDER_WEEK, HOURS_PER_WEEK],
+  [LeadTimeBucket.UNDER_MONTH, HOURS_PER_MONTH],
+  [LeadTimeBucket.OVER_MONTH, Infinity],
+];
+
+export interface LeadTimeDistributionBucket {
+  bucket: LeadTimeBucket;
+  commitCount: number;
+  percentage: number; // 0-100
+}
+
+/**
+ * Time a commit landed on the default branch (committer date, falling back
+ * to the author date)
+ */
+function landingTime(commit: GitCommit): number {
+  return (commit.committedAt ?? commit.date).getTime();
+}
+
+/**
+ * Indexes of the commits each deployment ships for the first time
+ *
+ * A deployment of commit X contains X and every older commit in the
+ * history. Deployments whose commit is unknown or outside the analyzed
+ * commits contain the commits that landed at or before their timestamp.
+ * Deployments are walked oldest first; the deployed commits always form
+ * the oldest part of the history, so each deployment ships the commits
+ * between its position and the oldest part deployed so far. Failed
+ * deployments do not extend the deployed part.
+ */
+function shipIndexes(
+  commits: GitCommit[],
+  events: DeploymentEvent[],
+): Map<DeploymentEvent, number[]> {
+  const positions = new Map(
+    commits.map((commit, index) => [commit.hash, index]),
+  );
+  const landedAt = commits.map(landingTime);
+
+  const positionOf = (event: DeploymentEvent): number => {
+    const position = event.commitOid
+      ? positions.get(event.commitOid)
+      : undefined;
+    if (position !== undefined) {
+      return position;
+    }
+    const timestamp = event.timestamp.getTime();
+    const index = landedAt.findIndex((time) => time <= timestamp);
+    return index === -1 ? commits.length : index;
+  };
+
+  const shipped = new Map<DeploymentEvent, number[]>();
+  // commits[deployedFrom..] are contained in a successful deployment
+  let deployedFrom = commits.length;
+  const deployments = [...events].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+
+  for (const event of deployments) {
+    const position = positionOf(event);
+    const indexes: number[] = [];
+    for (let index = position; index < deployedFrom; index++) {
+      indexes.push(index);
+    }
+    shipped.set(event, indexes);
+    if (!event.hasFailedStatus()) {
+      deployedFrom = Math.min(deployedFrom, position);
+    }
+  }
+
+  return shipped;
+}
+
+export class LeadTimeForChanges {
+  private constructor(
+    readonly leadTimesHours: readonly number[],
+    readonly undeployedCount: number,
+  ) {}
+
+  /**
+   * Match commits to the first deployment that contains them
+   *
+   * @param commits Commits on the default branch, newest first (as
+   *   returned by getLog)
+   * @param events Deduplicated deployment events (any order)
+   */
+  static calculate(
+    commits: GitCommit[],
+    events: DeploymentEvent[],
+  ): LeadTimeForChanges {
+    const leadTimesHours: number[] = [];
+    let undeployedCount = 0;
+
+    LeadTimeForChanges.matchDeployments(commits, events).forEach(
+      (deployment, index) => {
+        if (deployment) {
+          const landedAt = landingTime(commits[index] as GitCommit);
+          leadTimesHours.push(
+            Math.max(0, deployment.timestamp.getTime() - landedAt) /
+              (1000 * 60 * 60),
+          );
+        } else {
+          undeployedCount++;
+        }
+      },
+    );
+
+    return new LeadTimeForChanges(leadTimesHours, undeployedCount);
+  }
+
+  /**
+   * Find the first successful deployment that contains each commit
+   *
+   * @param commits Commits on the default branch, newest first (as
+   *   returned by getLog)
+   * @param events Deduplicated deployment events (any order)
+   * @returns The deployment of each commit (in commit order), or null when
+   *   no deployment contains it yet
+   */
+  static matchDeployments(
+    commits: GitCommit[],
+    events: DeploymentEvent[],
+  ): Array<DeploymentEvent | null> {
+    const matches = new Array<DeploymentEvent | null>(commits.length).fill(
+      null,
+    );
+    for (const [event, indexes] of shipIndexes(commits, events)) {
+      if (!event.hasFailedStatus()) {
+        for (const index of indexes) {
+          matches[index] = event;
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Commits each deployment shipped for the first time
+   * Failed deployments list the commits they tried to ship; those commits
+   * are still shipped by the next successful deployment.
+   *
+   * @param commits Commits on the default branch, newest first (as
+   *   returned by getLog)
+   * @param events Deduplicated deployment events (any order)
+   */
+  static shippedCommits(
+    commits: GitCommit[],
+    events: DeploymentEvent[],
+  ): Map<DeploymentEvent, GitCommit[]> {
+    const shipped = new Map<DeploymentEvent, GitCommit[]>();
+    for (const [event, indexes] of shipIndexes(commits, events)) {
+      shipped.set(
+        event,
+        indexes.map((index) => commits[index] as GitCommit),
+      );
+    }
+    return shipped;
+  }
+
+  /**
+   * Number of commits that reached a deployment
+   */
+  get deployedCommitCount(): number {
+    return this.leadTimesHours.length;
+  }
+
+  /**
+   * Median lead time in hours (null if no commit was deployed)
+   */
+  get medianHours(): number | null {
+    return median([...this.leadTimesHours]);
+  }
+
+  /**
+   * 85th percentile lead time in hours (null if no commit was deployed)
+   */
+  get p85Hours(): number | null {
+    return percentile([...this.leadTimesHours], 85);
+  }
+
+  /**
+   * Count deployed commits per lead-time bucket (always all 5 buckets)
+   */
+  getDistribution(): LeadTimeDistributionBucket[] {
+    const total = this.leadTimesHours.length;
+
+    return BUCKET_UPPER_BOUNDS.map(([bucket, upperBound], index) => {
+      const lowerBound = index > 0 ? BUCKET_UPPER_BOUNDS[index - 1]![1] : 0;
+      const commitCount = this.leadTimesHours.filter(
+        (hours) => hours >= lowerBound && hours < upperBound,
+      ).length;
+
+      return {
+        bucket,
+        commitCount,
+        percentage: total > 0 ? (commitCount / total) * 100 : 0,
+      };
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import { Result, ok, err } from "@/lib/result";
+import {
+  PullRequest,
+  PullRequestReview,
+  ReviewState,
+} from "@/domain/interfaces/IGitHubRepository";
+
+/**
+ * Phases of a pull request's cycle time
+ */
+export const CyclePhase = {
+  CODING: "coding",
+  PICKUP: "pickup",
+  REVIEW: "review",
+  MERGE: "merge",
+} as const;
+
+export type CyclePhase = (typeof CyclePhase)[keyof typeof CyclePhase];
+
+/**
+ * All phases in chronological order
+ */
+export const CYCLE_PHASES: readonly CyclePhase[] = [
+  CyclePhase.CODING,
+  CyclePhase.PICKUP,
+  CyclePhase.REVIEW,
+  CyclePhase.MERGE,
+];
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * Hours between two dates, clamped at zero
+ * Rebased commits and reviews on drafts can precede the phase start.
+ */
+function hoursBetween(start: Date, end: Date): number {
+  return Math.max(0, (end.getTime() - start.getTime()) / MS_PER_HOUR);
+}
+
+/**
+ * PRCycleTime Value Object
+ *
+ * Splits a merged PR's lifetime into four phases:
+ * - coding: first commit → PR opened
+ * - pickup: opened (or marked ready for review) → first review
+ * - review: first review → final approval
+ * - merge: final approval → merged
+ *
+ * Only reviews by someone other than the PR author, submitted before the
+ * merge, are considered. A phase is null when its timestamps are not
+ * available (no first commit date, no review, or no approval). For PRs
+ * opened as drafts, the draft period is part of neither coding nor pickup.
+ */
+export class PRCycleTime {
+  private constructor(
+    public readonly prNumber: number,
+    public readonly mergedAt: Date,
+    public readonly codingHours: number | null,
+    public readonly pickupHours: number | null,
+    public readonly reviewHours: number | null,
+    public readonly mergeHours: number | null,
+  ) {}
+
+  /**
+   * Create PRCycleTime from a merged pull request
+   *
+   * @param pr - Pull request with mergedAt and (optionally) reviews,
+   *             firstCommitAt and readyForReviewAt
+   * @returns Result with PRCycleTime or error if the PR is not merged
+   */
+  static fromPullRequest(pr: PullRequest): Result<PRCycleTime> {
+    const mergedAt = pr.mergedAt;
+    if (pr.state !== "merged" || !mergedAt) {
+      return err(new Error(`PR #${pr.number} is not merged`));
+    }
+
+    const reviews = (pr.reviews ?? [])
+      .filter(
+        (review) =>
+          review.author !== pr.author &&
+          review.submittedAt.getTime() <= mergedAt.getTime(),
+      )
+      .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+
+    const firstReview: PullRequestReview | undefined = reviews[0];
+    const approvals = reviews.filter(
+      (review) => review.state === ReviewState.APPROVED,
+    );
+    const finalApproval = approvals[approvals.length - 1];
+    const pickupStart = pr.readyForReviewAt ?? pr.createdAt;
+
+    return ok(
+      new PRCycleTime(
+        pr.number,
+        mergedAt,
+        pr.firstCommitAt ? hoursBetween(pr.firstCommitAt, pr.createdAt) : null,
+        firstReview ? hoursBetween(pickupStart, firstReview.submittedAt) : null,
+        firstReview && finalApproval
+          ? hoursBetween(firstReview.submittedAt, finalApproval.submittedAt)
+          : null,
+        finalApproval
+          ? hoursBetween(finalApproval.submittedAt, mergedAt)
+          : null,
+      ),
+    );
+  }
+
+  /**
+   * Duration of a phase in hours (null if not measurable)
+   */
+  phaseHours(phase: CyclePhase): number | null {
+    switch (phase) {
+      case CyclePhase.CODING:
+        return this.codingHours;
+      case CyclePhase.PICKUP:
+        return this.pickupHours;
+      case CyclePhase.REVIEW:
+        return this.reviewHours;
+      case CyclePhase.MERGE:
+        return this.mergeHours;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+
+/**
+ * Which date places a pull request inside an analyzed window
+ *
+ * Metrics declare the semantics they use, so a PR opened before the
+ * window but merged inside it counts toward throughput and lead time
+ * without inflating "opened" counts.
+ */
+export const PullRequestDateSemantics = {
+  /** Opened within the window */
+  CREATED: "created",
+  /** Merged within the window */
+  MERGED: "merged",
+  /** Opened, merged or closed within the window */
+  ACTIVITY: "activity",
+} as const;
+export type PullRequestDateSemantics =
+  (typeof PullRequestDateSemantics)[keyof typeof PullRequestDateSemantics];
+
+/**
+ * PullRequestDateFilter Value Object
+ *
+ * Selects the pull requests of a window under one date semantics.
+ * Bounds are inclusive; a missing bound leaves that side open.
+ *
+ * Immutable - all properties are readonly.
+ */
+export class PullRequestDateFilter {
+  private constructor(
+    readonly semantics: PullRequestDateSemantics,
+    readonly start: Date | undefined,
+    readonly end: Date | undefined,
+  ) {}
+
+  /**
+   * Create a filter for a window
+   * @param semantics Date semantics of the consuming metric
+   * @param start Window start (undefined = open)
+   * @param end Window end (undefined = open)
+   */
+  static create(
+    semantics: PullRequestDateSemantics,
+    start?: Date,
+    end?: Date,
+  ): PullRequestDateFilter {
+    return new PullRequestDateFilter(semantics, start, end);
+  }
+
+  /**
+   * Check if a pull request belongs to the window
+   */
+  matches(pr: PullRequest): boolean {
+    switch (this.semantics) {
+      case PullRequestDateSemantics.CREATED:
+        return this.contains(pr.createdAt);
+      case PullRequestDateSemantics.MERGED:
+        return this.contains(pr.mergedAt);
+      case PullRequestDateSemantics.ACTIVITY:
+        return (
+          this.contains(pr.createdAt) ||
+          this.contains(pr.mergedAt) ||
+          this.contains(pr.closedAt)
+        );
+    }
+  }
+
+  /**
+   * Keep the pull requests that belong to the window
+   */
+  apply(prs: PullRequest[]): PullRequest[] {
+    return prs.filter((pr) => this.matches(pr));
+  }
+
+  private contains(date: Date | undefined): boolean {
+    if (!date) {
+      return false;
+    }
+    if (this.start && date.getTime() < this.start.getTime()) {
+      return false;
+    }
+    if (this.end && date.getTime() > this.end.getTime()) {
+      return false;
+    }
+    return true;
+  }
+}
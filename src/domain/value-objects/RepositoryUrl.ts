@@ -1,13 +1,25 @@
 import { Result, ok, err } from "@/lib/result";
+import { GitHost, GitProvider, GITHUB_DOTCOM_HOST } from "./GitHost";
 
 export class RepositoryUrl {
   private constructor(
     public readonly value: string,
     public readonly owner: string,
     public readonly repo: string,
+    public readonly host: GitHost,
   ) {}
 
-  static create(url: string): Result<RepositoryUrl> {
+  /**
+   * Create a repository URL
+   *
+   * @param url Repository URL (https://{host}/{owner}/{repo});
+   *   on GitLab hosts the owner is the project namespace and may contain subgroups
+   * @param allowedHosts Hosts the URL may point to (default: github.com only)
+   */
+  static create(
+    url: string,
+    allowedHosts: GitHost[] = [GitHost.dotcom()],
+  ): Result<RepositoryUrl> {
     // Trim whitespace
     const trimmed = url.trim();
 
@@ -18,9 +30,9 @@ export class RepositoryUrl {
       );
     }
 
-    // Validate GitHub HTTPS format
-    const githubUrlRegex = /^https:\/\/github\.com\/([\w-]+)\/([\w-]+)$/;
-    const match = trimmed.match(githubUrlRegex);
+    // Validate HTTPS format
+    const urlRegex = /^https:\/\/([^\/\s?#]+)\/([^\s?#]+)$/;
+    const match = trimmed.match(urlRegex);
 
     if (!match) {
       return err(
@@ -30,8 +42,37 @@ export class RepositoryUrl {
       );
     }
 
-    const owner = match[1];
-    const repo = match[2];
+    const hostname = match[1]!.toLowerCase();
+    const host = allowedHosts.find((allowed) => allowed.hostname === hostname);
+    if (!host) {
+      return err(
+        new Error(
+          `Unsupported host: ${hostname}. Allowed hosts: ${allowedHosts
+            .map((allowed) => allowed.hostname)
+            .join(", ")}`,
+        ),
+      );
+    }
+
+    // GitHub: {owner}/{repo}
+    // GitLab: {namespace}/{project}, where namespace may contain subgroups
+    const pathMatch =
+      host.provider === GitProvider.GITLAB
+        ? match[2]!.match(/^((?:[\w.-]+\/)*[\w.-]+)\/([\w.-]+)$/)
+        : match[2]!.match(/^([\w-]+)\/([\w.-]+)$/);
+
+    if (!pathMatch) {
+      return err(
+        new Error(
+          host.provider === GitProvider.GITLAB
+            ? `Invalid GitLab project URL format. Expected: ${host.webUrl}/{namespace}/{project}`
+            : `Invalid GitHub repository URL format. Expected: ${host.webUrl}/{owner}/{repo}`,
+        ),
+      );
+    }
+
+    const owner = pathMatch[1];
+    const repo = pathMatch[2];
 
     if (!owner || !repo) {
       return err(
@@ -41,11 +82,77 @@ export class RepositoryUrl {
       );
     }
 
-    return ok(new RepositoryUrl(trimmed, owner, repo));
+    return ok(
+      new RepositoryUrl(`${host.webUrl}/${owner}/${repo}`, owner, repo, host),
+    );
+  }
+
+  /**
+   * Create a repository URL from a repository identifier
+   *
+   * @param identifier "owner/repo" (github.com) or "host/owner/repo"
+   *   ("host/group/subgroup/project" on GitLab)
+   * @param allowedHosts Hosts the identifier may point to (default: github.com only)
+   *
+   * @example
+   * RepositoryUrl.fromIdentifier("owner/repo") // https://github.com/owner/repo
+   * RepositoryUrl.fromIdentifier("ghe.example.com/owner/repo", hosts) // https://ghe.example.com/owner/repo
+   */
+  static fromIdentifier(
+    identifier: string,
+    allowedHosts: GitHost[] = [GitHost.dotcom()],
+  ): Result<RepositoryUrl> {
+    const segments = identifier.trim().split("/");
+
+    if (segments.length === 2) {
+      return RepositoryUrl.create(
+        `${GitHost.dotcom().webUrl}/${segments.join("/")}`,
+        allowedHosts,
+      );
+    }
+    if (segments.length >= 3) {
+      return RepositoryUrl.create(
+        `https://${segments.join("/")}`,
+        allowedHosts,
+      );
+    }
+
+    return err(
+      new Error(
+        `Invalid repository identifier: ${identifier}. Expected: {owner}/{repo} or {host}/{owner}/{repo}`,
+      ),
+    );
+  }
+
+  /**
+   * Repository identifier carrying the host
+   * "owner/repo" for github.com, "host/owner/repo" for GitHub Enterprise Server and GitLab
+   */
+  get identifier(): string {
+    return this.host.hostname !== GITHUB_DOTCOM_HOST
+      ? `${this.host.hostname}/${this.owner}/${this.repo}`
+      : `${this.owner}/${this.repo}`;
+  }
+
+  /**
+   * Owner identifier carrying the host (teams are defined per owner)
+   * "owner" for github.com, "host/owner" otherwise
+   */
+  get ownerIdentifier(): string {
+    return this.host.hostname !== GITHUB_DOTCOM_HOST
+      ? `${this.host.hostname}/${this.owner}`
+      : this.owner;
+  }
+
+  get provider(): GitProvider {
+    return this.host.provider;
   }
 
   get apiBase(): string {
-    return `https://api.github.com/repos/${this.owner}/${this.repo}`;
+    if (this.host.provider === GitProvider.GITLAB) {
+      return `${this.host.apiUrl}/projects/${encodeURIComponent(`${this.owner}/${this.repo}`)}`;
+    }
+    return `${this.host.apiUrl}/repos/${this.owner}/${this.repo}`;
   }
 
   equals(other: RepositoryUrl): boolean {
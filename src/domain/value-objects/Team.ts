@@ -0,0 +1,234 @@
+import { Result, ok, err } from "@/lib/result";
+import { GitCommit, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { DeploymentEvent, DeploymentSources } from "./DeploymentEvent";
+import { Email } from "./Email";
+import { LeadTimeForChanges } from "./LeadTimeForChanges";
+
+/**
+ * Where a team definition came from
+ */
+export const TeamSource = {
+  /** Defined by hand */
+  MANUAL: "manual",
+  /** Imported from the organization's teams on the git host */
+  GITHUB: "github",
+} as const;
+export type TeamSource = (typeof TeamSource)[keyof typeof TeamSource];
+
+export interface TeamProps {
+  /** Slug (derived from the name when empty) */
+  id: string;
+  name: string;
+  /** Usernames or commit emails */
+  members: string[];
+  source: TeamSource;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_MEMBERS = 500;
+
+/**
+ * Usernames on GitHub and GitLab (letters, digits, ".", "_" and "-")
+ */
+const USERNAME = /^[a-z\d][\w.-]*$/;
+
+/**
+ * Derive a URL-safe team id from a name
+ */
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\d]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Team Value Object
+ *
+ * A named group of contributors of an organization. Members are
+ * identified by username or commit email; commits match a member by
+ * email, by the username of a GitHub noreply email, or by an author name
+ * equal to a member's username.
+ *
+ * Metrics are scoped to a team by keeping the PRs its members authored
+ * (with their reviews only), their commits, and the deployments that
+ * shipped at least one of their commits.
+ *
+ * Immutable - all properties are readonly.
+ */
+export class Team {
+  private constructor(
+    readonly id: string,
+    readonly name: string,
+    readonly members: readonly string[],
+    readonly source: TeamSource,
+  ) {}
+
+  /**
+   * Create a team after validating the name and normalizing members
+   * (trimmed, lowercased, without a leading "@", deduplicated)
+   *
+   * @returns Result with Team or error if the name or a member is invalid
+   */
+  static create(props: TeamProps): Result<Team> {
+    const name = props.name.trim();
+    if (!name) {
+      return err(new Error("Team name cannot be empty"));
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      return err(new Error(`Team name exceeds ${MAX_NAME_LENGTH} characters`));
+    }
+
+    const id = slugify(props.id.trim() || name);
+    if (!id) {
+      return err(new Error(`Team name needs a letter or digit: ${name}`));
+    }
+
+    const members = Array.from(
+      new Set(
+        props.members
+          .map((member) => member.trim().replace(/^@/, "").toLowerCase())
+          .filter((member) => member !== ""),
+      ),
+    );
+    if (members.length > MAX_MEMBERS) {
+      return err(new Error(`A team may have at most ${MAX_MEMBERS} members`));
+    }
+    for (const member of members) {
+      const valid = member.includes("@")
+        ? Email.create(member).ok
+        : USERNAME.test(member);
+      if (!valid) {
+        return err(new Error(`Invalid team member: ${member}`));
+      }
+    }
+
+    return ok(new Team(id, name, members, props.source));
+  }
+
+  /**
+   * Check if a username belongs to a member (case-insensitive)
+   */
+  includesLogin(login: string): boolean {
+    return this.members.includes(login.toLowerCase());
+  }
+
+  /**
+   * Check if a commit email belongs to a member, directly or through the
+   * username of a GitHub noreply email
+   */
+  includesEmail(email: string): boolean {
+    const emailResult = Email.create(email);
+    if (!emailResult.ok) {
+      return false;
+    }
+    const { value, noreplyLogin } = emailResult.value;
+    return (
+      this.members.includes(value) ||
+      (noreplyLogin !== null && this.includesLogin(noreplyLogin))
+    );
+  }
+
+  /**
+   * The member who authored a commit (null when not a member's commit)
+   */
+  commitMember(commit: GitCommit): string | null {
+    const emailResult = Email.create(commit.email);
+    const candidates = emailResult.ok
+      ? [emailResult.value.value, emailResult.value.noreplyLogin]
+      : [];
+    candidates.push(commit.author.toLowerCase());
+    return (
+      candidates.find(
+        (candidate): candidate is string =>
+          candidate !== null && this.members.includes(candidate),
+      ) ?? null
+    );
+  }
+
+  /**
+   * Check if a commit was authored by a member
+   */
+  includesCommit(commit: GitCommit): boolean {
+    return this.commitMember(commit) !== null;
+  }
+
+  /**
+   * PRs authored by members, keeping only the reviews of members
+   */
+  filterPullRequests(prs: PullRequest[]): PullRequest[] {
+    return prs
+      .filter((pr) => this.includesLogin(pr.author))
+      .map((pr) =>
+        pr.reviews
+          ? {
+              ...pr,
+              reviews: pr.reviews.filter((review) =>
+                this.includesLogin(review.author),
+              ),
+            }
+          : pr,
+      );
+  }
+
+  /**
+   * Commits authored by members
+   */
+  filterCommits(commits: GitCommit[]): GitCommit[] {
+    return commits.filter((commit) => this.includesCommit(commit));
+  }
+
+  /**
+   * Deployment sources that shipped at least one member commit
+   * A commit ships with the first deployment that contains it; failed
+   * deployments are kept when they tried to ship one (see
+   * LeadTimeForChanges.shippedCommits).
+   *
+   * @param sources Releases, deployments and tags within the analyzed range
+   * @param commits All commits within the analyzed range (not only
+   *   members'), newest first
+   */
+  filterDeploymentSources(
+    sources: DeploymentSources,
+    commits: GitCommit[],
+  ): DeploymentSources {
+    const events = DeploymentEvent.fromSources(sources);
+    const shipped = new Set<string>();
+    for (const [event, eventCommits] of LeadTimeForChanges.shippedCommits(
+      commits,
+      events,
+    )) {
+      if (eventCommits.some((commit) => this.includesCommit(commit))) {
+        shipped.add(event.id);
+      }
+    }
+
+    // Sources dropped by deduplication are never kept; the source they
+    // were merged into stands for them when the result is deduplicated
+    const isShipped = (event: DeploymentEvent) => shipped.has(event.id);
+
+    return {
+      releases: sources.releases.filter((release) =>
+        isShipped(DeploymentEvent.fromRelease(release)),
+      ),
+      deployments: sources.deployments.filter((deployment) =>
+        isShipped(DeploymentEvent.fromDeployment(deployment)),
+      ),
+      tags: sources.tags.filter((tag) =>
+        isShipped(DeploymentEvent.fromTag(tag)),
+      ),
+    };
+  }
+
+  /**
+   * Plain object representation (for storage and client components)
+   */
+  toProps(): TeamProps {
+    return {
+      id: this.id,
+      name: this.name,
+      members: [...this.members],
+      source: this.source,
+    };
+  }
+}
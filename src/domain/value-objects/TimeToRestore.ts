@@ -0,0 +1,55 @@
+/**
+ * TimeToRestore Value Object
+ *
+ * DORA time to restore service: how long it takes to recover from a
+ * failure in production, measured per resolved incident from opening to
+ * resolution. Unresolved incidents are reported but not measured.
+ *
+ * The median is classified into a DORA level by DORAClassificationService.
+ *
+ * Immutable - all properties are readonly.
+ */
+
+import { median } from "@/lib/utils/statistics";
+import { Incident } from "./Incident";
+
+export class TimeToRestore {
+  private constructor(readonly incidents: readonly Incident[]) {}
+
+  /**
+   * Measure time to restore over a set of incidents
+   *
+   * @param incidents Incidents from all sources (any order)
+   */
+  static calculate(incidents: Incident[]): TimeToRestore {
+    return new TimeToRestore(
+      [...incidents].sort(
+        (a, b) => b.openedAt.getTime() - a.openedAt.getTime(),
+      ),
+    );
+  }
+
+  /**
+   * Restore times of resolved incidents in hours
+   */
+  get restoreHours(): number[] {
+    return this.incidents
+      .map((incident) => incident.restoreHours)
+      .filter((hours): hours is number => hours !== null);
+  }
+
+  /**
+   * Number of incidents that have not been resolved yet
+   */
+  get unresolvedCount(): number {
+    return this.incidents.filter((incident) => incident.resolvedAt === null)
+      .length;
+  }
+
+  /**
+   * Median time to restore in hours (null if nothing was resolved)
+   */
+  get medianHours(): number | null {
+    return median(this.restoreHours);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Repository data a token may or may not be allowed to read
+ * Values match GitHub's fine-grained permission names.
+ */
+export const RepositoryPermission = {
+  CONTENTS: "contents", // Commits, tags and releases
+  PULL_REQUESTS: "pull_requests",
+  DEPLOYMENTS: "deployments",
+} as const;
+export type RepositoryPermission =
+  (typeof RepositoryPermission)[keyof typeof RepositoryPermission];
+
+/**
+ * Kind of token, which decides how a missing permission is granted
+ */
+export const TokenKind = {
+  CLASSIC: "classic", // Personal access token (classic), ghp_
+  OAUTH: "oauth", // OAuth app user token, gho_
+  FINE_GRAINED: "fine_grained", // Fine-grained personal access token, github_pat_
+  GITHUB_APP: "github_app", // GitHub App installation or user token, ghs_ / ghu_
+  UNKNOWN: "unknown",
+} as const;
+export type TokenKind = (typeof TokenKind)[keyof typeof TokenKind];
+
+/**
+ * Outcome of probing one permission
+ */
+export const PermissionStatus = {
+  GRANTED: "granted",
+  MISSING: "missing",
+  SSO_REQUIRED: "sso_required", // Token not authorized for the organization's SAML SSO
+  UNKNOWN: "unknown", // Probe failed for another reason (outage, rate limit)
+} as const;
+export type PermissionStatus =
+  (typeof PermissionStatus)[keyof typeof PermissionStatus];
+
+/**
+ * Probe result for one permission
+ */
+export interface PermissionCheck {
+  permission: RepositoryPermission;
+  status: PermissionStatus;
+  ssoUrl?: string; // Where to authorize the token (SSO_REQUIRED)
+  requiredGrant?: string; // Permission GitHub asked for, e.g. "deployments=read"
+}
+
+/**
+ * Token prefixes identifying the token kind
+ * See https://github.blog/2021-04-05-behind-githubs-new-authentication-token-formats/
+ */
+const TOKEN_PREFIXES: ReadonlyArray<[string, TokenKind]> = [
+  ["github_pat_", TokenKind.FINE_GRAINED],
+  ["ghp_", TokenKind.CLASSIC],
+  ["gho_", TokenKind.OAUTH],
+  ["ghu_", TokenKind.GITHUB_APP],
+  ["ghs_", TokenKind.GITHUB_APP],
+];
+
+/**
+ * TokenCapabilities Value Object
+ *
+ * What the current token can read in one repository: the token kind, the
+ * OAuth scopes GitHub reports for classic and OAuth tokens, and the probed
+ * status of each repository permission. Widgets compare it against the
+ * permissions they need to explain missing data.
+ *
+ * Immutable - all properties are readonly.
+ */
+export class TokenCapabilities {
+  private constructor(
+    readonly kind: TokenKind,
+    readonly scopes: readonly string[] | null, // null when GitHub does not report scopes
+    private readonly checks: ReadonlyMap<RepositoryPermission, PermissionCheck>,
+  ) {}
+
+  /**
+   * Create capabilities from probe results
+   * Permissions without a check are unknown.
+   */
+  static create(
+    kind: TokenKind,
+    scopes: string[] | null,
+    checks: PermissionCheck[],
+  ): TokenCapabilities {
+    return new TokenCapabilities(
+      kind,
+      scopes,
+      new Map(checks.map((check) => [check.permission, check])),
+    );
+  }
+
+  /**
+   * Capabilities that were not probed (e.g. GitLab, probe failed)
+   * Reports nothing as missing.
+   */
+  static unknown(): TokenCapabilities {
+    return new TokenCapabilities(TokenKind.UNKNOWN, null, new Map());
+  }
+
+  /**
+   * Identify the token kind from its prefix
+   */
+  static kindOf(token: string): TokenKind {
+    const match = TOKEN_PREFIXES.find(([prefix]) => token.startsWith(prefix));
+    return match ? match[1] : TokenKind.UNKNOWN;
+  }
+
+  /**
+   * Parse the X-OAuth-Scopes header ("repo, read:org")
+   * @returns Scopes, or null when the header is absent
+   */
+  static parseScopes(header: string | null): string[] | null {
+    if (header === null) {
+      return null;
+    }
+    return header
+      .split(",")
+      .map((scope) => scope.trim())
+      .filter((scope) => scope !== "");
+  }
+
+  /**
+   * Probe result for a permission (unknown when not probed)
+   */
+  check(permission: RepositoryPermission): PermissionCheck {
+    return (
+      this.checks.get(permission) ?? {
+        permission,
+        status: PermissionStatus.UNKNOWN,
+      }
+    );
+  }
+
+  /**
+   * Permissions the token lacks among those a feature needs
+   * Unknown permissions are not reported.
+   */
+  missing(permissions: readonly RepositoryPermission[]): PermissionCheck[] {
+    return permissions
+      .map((permission) => this.check(permission))
+      .filter(
+        (check) =>
+          check.status === PermissionStatus.MISSING ||
+          check.status === PermissionStatus.SSO_REQUIRED,
+      );
+  }
+}
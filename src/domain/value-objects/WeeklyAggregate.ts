@@ -1,5 +1,15 @@
 import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
 
+/**
+ * Change totals of the PRs merged in a week
+ */
+export interface WeeklyChangeTotals {
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  prCount: number;
+}
+
 /**
  * WeeklyAggregate Value Object
  *
@@ -27,19 +37,8 @@ export class WeeklyAggregate {
    * @throws Error if weekStart is not a Monday
    */
   static fromPRs(weekStart: Date, prs: PullRequest[]): WeeklyAggregate {
-    // Validate weekStart is Monday
-    if (weekStart.getDay() !== 1) {
-      throw new Error("weekStart must be a Monday (ISO week definition)");
-    }
-
-    // Calculate week boundaries
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
-
-    // Normalize weekStart to start of day
-    const normalizedWeekStart = new Date(weekStart);
-    normalizedWeekStart.setHours(0, 0, 0, 0);
+    const { start: normalizedWeekStart, end: weekEnd } =
+      WeeklyAggregate.getWeekBounds(weekStart);
 
     // Filter PRs to this week and exclude PRs with missing data
     const weekPRs = prs.filter((pr) => {
@@ -56,31 +55,71 @@ export class WeeklyAggregate {
     });
 
     // Aggregate metrics
-    const additions = weekPRs.reduce((sum, pr) => sum + (pr.additions ?? 0), 0);
-    const deletions = weekPRs.reduce((sum, pr) => sum + (pr.deletions ?? 0), 0);
-    const changedFilesTotal = weekPRs.reduce(
-      (sum, pr) => sum + (pr.changedFiles ?? 0),
-      0,
-    );
+    return WeeklyAggregate.fromTotals(normalizedWeekStart, {
+      additions: weekPRs.reduce((sum, pr) => sum + (pr.additions ?? 0), 0),
+      deletions: weekPRs.reduce((sum, pr) => sum + (pr.deletions ?? 0), 0),
+      changedFiles: weekPRs.reduce(
+        (sum, pr) => sum + (pr.changedFiles ?? 0),
+        0,
+      ),
+      prCount: weekPRs.length,
+    });
+  }
+
+  /**
+   * Create a WeeklyAggregate from change totals summed up elsewhere
+   * (e.g. incrementally while PRs are streamed)
+   * @param weekStart Monday (00:00:00) of the week
+   * @param totals Change totals of the PRs merged in the week
+   * @returns WeeklyAggregate instance
+   * @throws Error if weekStart is not a Monday
+   */
+  static fromTotals(
+    weekStart: Date,
+    totals: WeeklyChangeTotals,
+  ): WeeklyAggregate {
+    const { start, end } = WeeklyAggregate.getWeekBounds(weekStart);
+    const { additions, deletions, changedFiles, prCount } = totals;
 
     const totalChanges = additions + deletions;
     const netChange = additions - deletions;
-    const prCount = weekPRs.length;
     const averagePRSize = prCount > 0 ? totalChanges / prCount : 0;
 
     return new WeeklyAggregate(
-      normalizedWeekStart,
-      weekEnd,
+      start,
+      end,
       additions,
       deletions,
       totalChanges,
       netChange,
       prCount,
       averagePRSize,
-      changedFilesTotal,
+      changedFiles,
     );
   }
 
+  /**
+   * Start (00:00:00) and end (Sunday 23:59:59.999) of a week
+   * @throws Error if weekStart is not a Monday
+   */
+  private static getWeekBounds(weekStart: Date): { start: Date; end: Date } {
+    // Validate weekStart is Monday
+    if (weekStart.getDay() !== 1) {
+      throw new Error("weekStart must be a Monday (ISO week definition)");
+    }
+
+    // Calculate week boundaries
+    const end = new Date(weekStart);
+    end.setDate(end.getDate() + 6);
+    end.setHours(23, 59, 59, 999);
+
+    // Normalize weekStart to start of day
+    const start = new Date(weekStart);
+    start.setHours(0, 0, 0, 0);
+
+    return { start, end };
+  }
+
   /**
    * Get the Monday (00:00:00) of the week containing the given date
    * Uses ISO 8601 week definition (Monday start)
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for AnalysisProgress value object
+ */
+
+import { describe, it, expect } from "vitest";
+import { AnalysisProgress } from "../AnalysisProgress";
+import {
+  AnalysisStage,
+  ProgressEventType,
+} from "@/domain/interfaces/IAnalysisProgress";
+
+describe("AnalysisProgress", () => {
+  const t0 = Date.parse("2024-01-01T00:00:00Z");
+
+  it("should start in the validating stage without an estimate", () => {
+    const progress = AnalysisProgress.start(t0);
+
+    expect(progress.stage).toBe(AnalysisStage.VALIDATING);
+    expect(progress.fraction).toBe(0);
+    expect(progress.estimateRemainingMs(t0)).toBeNull();
+  });
+
+  it("should count fetched pages per resource", () => {
+    const progress = AnalysisProgress.start(t0)
+      .apply({ type: ProgressEventType.STAGE, stage: AnalysisStage.FETCHING })
+      .apply({
+        type: ProgressEventType.PAGE_FETCHED,
+        resource: "pull_requests",
+        items: 100,
+      })
+      .apply({
+        type: ProgressEventType.PAGE_FETCHED,
+        resource: "commits",
+        items: 42,
+      });
+
+    expect(progress.pagesFetched).toBe(2);
+    expect(progress.pullRequestsFetched).toBe(100);
+    expect(progress.commitsFetched).toBe(42);
+  });
+
+  it("should estimate the remaining time from the pull request rate", () => {
+    const progress = AnalysisProgress.start(t0)
+      .apply(
+        {
+          type: ProgressEventType.STAGE,
+          stage: AnalysisStage.REVIEW_COMMENTS,
+        },
+        t0 + 5_000,
+      )
+      .apply(
+        {
+          type: ProgressEventType.PULL_REQUESTS_PROCESSED,
+          processed: 50,
+          total: 200,
+        },
+        t0 + 15_000,
+      );
+
+    // 50 PRs in 10s -> 150 remaining PRs take 30s
+    expect(progress.estimateRemainingMs(t0 + 15_000)).toBe(30_000);
+    expect(progress.fraction).toBeCloseTo(0.3 + 0.65 * 0.25);
+  });
+
+  it("should not estimate less than a pending rate limit wait", () => {
+    const progress = AnalysisProgress.start(t0)
+      .apply(
+        {
+          type: ProgressEventType.STAGE,
+          stage: AnalysisStage.REVIEW_COMMENTS,
+        },
+        t0,
+      )
+      .apply(
+        {
+          type: ProgressEventType.PULL_REQUESTS_PROCESSED,
+          processed: 90,
+          total: 100,
+        },
+        t0 + 9_000,
+      )
+      .apply(
+        { type: ProgressEventType.RATE_LIMIT_WAIT, waitMs: 60_000 },
+        t0 + 9_000,
+      );
+
+    expect(progress.getRemainingWaitMs(t0 + 10_000)).toBe(59_000);
+    expect(progress.estimateRemainingMs(t0 + 10_000)).toBe(59_000);
+  });
+
+  it("should clear the wait once requests resume", () => {
+    const progress = AnalysisProgress.start(t0)
+      .apply({ type: ProgressEventType.RATE_LIMIT_WAIT, waitMs: 60_000 }, t0)
+      .apply(
+        {
+          type: ProgressEventType.PAGE_FETCHED,
+          resource: "commits",
+          items: 100,
+        },
+        t0 + 1_000,
+      );
+
+    expect(progress.getRemainingWaitMs(t0 + 1_000)).toBe(0);
+  });
+
+  it("should report completion", () => {
+    const progress = AnalysisProgress.start(t0).apply({
+      type: ProgressEventType.STAGE,
+      stage: AnalysisStage.COMPLETED,
+    });
+
+    expect(progress.fraction).toBe(1);
+    expect(progress.estimateRemainingMs()).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { CacheKey } from "@/domain/value-objects/CacheKey";
+import { DataType } from "@/domain/interfaces/ICacheRepository";
+
+describe("CacheKey", () => {
+  describe("create", () => {
+    it("should build key with date range at day granularity", () => {
+      const result = CacheKey.create("owner/repo", DataType.PULL_REQUESTS, {
+        start: new Date(2024, 0, 1, 10, 30),
+        end: new Date(2024, 0, 31, 23, 59),
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.value).toBe(
+          "repo:owner/repo:type:pull_requests:range:2024-01-01:2024-01-31",
+        );
+        expect(result.value.repositoryId).toBe("owner/repo");
+        expect(result.value.dataType).toBe(DataType.PULL_REQUESTS);
+      }
+    });
+
+    it("should produce the same key for ranges on the same days", () => {
+      const a = CacheKey.create("owner/repo", DataType.COMMITS, {
+        start: new Date(2024, 0, 1, 8),
+        end: new Date(2024, 0, 31, 9),
+      });
+      const b = CacheKey.create("owner/repo", DataType.COMMITS, {
+        start: new Date(2024, 0, 1, 20),
+        end: new Date(2024, 0, 31, 21),
+      });
+
+      expect(a.ok && b.ok && a.value.equals(b.value)).toBe(true);
+    });
+
+    it("should build key without range", () => {
+      const result = CacheKey.create("owner/repo", DataType.DEPLOYMENTS);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.toString()).toBe(
+          "repo:owner/repo:type:deployments",
+        );
+      }
+    });
+
+    it("should accept host-prefixed repository identifier", () => {
+      const result = CacheKey.create(
+        "ghe.example.com/owner/repo",
+        DataType.COMMITS,
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.toString()).toBe(
+          "repo:ghe.example.com/owner/repo:type:commits",
+        );
+      }
+    });
+
+    it("should reject invalid repository identifier", () => {
+      const result = CacheKey.create("not-a-repo", DataType.COMMITS);
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject inverted range", () => {
+      const result = CacheKey.create("owner/repo", DataType.COMMITS, {
+        start: new Date(2024, 1, 1),
+        end: new Date(2024, 0, 1),
+      });
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe("repositoryPrefix", () => {
+    it("should match keys of the repository", () => {
+      const result = CacheKey.create("owner/repo", DataType.COMMITS);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(
+          result.value.value.startsWith(
+            CacheKey.repositoryPrefix("owner/repo"),
+          ),
+        ).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect } from "vitest";
+import { ChangeFailureRate, FailureReason } from "../ChangeFailureRate";
+import { ChangeFailureRules } from "../ChangeFailureRules";
+import { DeploymentEvent, DeploymentSource } from "../DeploymentEvent";
+import { GitCommit, PullRequest } from "@/domain/interfaces/IGitHubRepository";
+
+function createEvent(
+  id: string,
+  timestamp: string,
+  status: string | null = null,
+): DeploymentEvent {
+  return DeploymentEvent.create(
+    id,
+    id,
+    new Date(timestamp),
+    DeploymentSource.DEPLOYMENT,
+    "production",
+    id,
+    null,
+    status,
+  );
+}
+
+function createCommit(message: string, date: string): GitCommit {
+  return {
+    hash: message,
+    author: "Ada",
+    email: "ada@example.com",
+    date: new Date(date),
+    message,
+    filesChanged: 1,
+    linesAdded: 1,
+    linesDeleted: 0,
+  };
+}
+
+function createPR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    number: 1,
+    title: "Add feature",
+    author: "ada",
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    state: "merged",
+    reviewCommentCount: 0,
+    mergedAt: new Date("2024-01-01T12:00:00Z"),
+    labels: [],
+    headRefName: "feature/x",
+    ...overrides,
+  };
+}
+
+describe("ChangeFailureRate", () => {
+  const rules = ChangeFailureRules.defaults();
+
+  describe("calculate", () => {
+    it("should fail deployments with a failed status", () => {
+      const rate = ChangeFailureRate.calculate(
+        [
+          createEvent("v1", "2024-01-01T00:00:00Z", "SUCCESS"),
+          createEvent("v2", "2024-01-02T00:00:00Z", "FAILURE"),
+        ],
+        [],
+        [],
+        rules,
+      );
+
+      expect(rate.failedDeployments).toHaveLength(1);
+      expect(rate.failedDeployments[0]?.event.id).toBe("v2");
+      expect(rate.failedDeployments[0]?.signals).toEqual([
+        { reason: FailureReason.DEPLOYMENT_STATUS, detail: "FAILURE" },
+      ]);
+      expect(rate.failureRate).toBe(50);
+    });
+
+    it("should attribute reverts to the most recent deployment within the window", () => {
+      const rate = ChangeFailureRate.calculate(
+        [
+          createEvent("v1", "2024-01-01T00:00:00Z"),
+          createEvent("v2", "2024-01-02T00:00:00Z"),
+        ],
+        [
+          createCommit(
+            'Revert "Add cache"\n\nThis reverts commit abc.',
+            "2024-01-02T06:00:00Z",
+          ),
+          // Outside the 72 hour window of v2
+          createCommit("revert: drop flag", "2024-01-08T00:00:00Z"),
+        ],
+        [],
+        rules,
+      );
+
+      expect(rate.failedDeployments.map((f) => f.event.id)).toEqual(["v2"]);
+      expect(rate.failedDeployments[0]?.signals).toEqual([
+        { reason: FailureReason.REVERT, detail: 'Revert "Add cache"' },
+      ]);
+    });
+
+    it("should count a revert pull request and the commits it landed as once", () => {
+      const rate = ChangeFailureRate.calculate(
+        [createEvent("v1", "2024-01-01T00:00:00Z")],
+        [
+          // Squash merge of #12
+          createCommit('Revert "Add cache" (#12)', "2024-01-01T06:00:00Z"),
+          // Revert commit of #13's branch, merged with a merge commit
+          createCommit('Revert "Add flag"', "2024-01-01T07:00:00Z"),
+          // Rebase merge of #14 (its merge commit)
+          createCommit('Revert "Add queue"', "2024-01-01T08:00:00Z"),
+          createCommit("revert: drop banner", "2024-01-01T09:00:00Z"),
+        ],
+        [
+          createPR({
+            number: 12,
+            title: 'Revert "Add cache"',
+            mergedAt: new Date("2024-01-01T06:00:00Z"),
+          }),
+          createPR({
+            number: 13,
+            title: 'Revert "Add flag"',
+            mergedAt: new Date("2024-01-01T07:30:00Z"),
+          }),
+          createPR({
+            number: 14,
+            title: 'Revert "Add queue" and its migration',
+            mergeCommitOid: 'Revert "Add queue"',
+            mergedAt: new Date("2024-01-01T08:00:00Z"),
+          }),
+        ],
+        rules,
+      );
+
+      expect(rate.failedDeployments[0]?.signals).toEqual([
+        { reason: FailureReason.REVERT, detail: '#12 Revert "Add cache"' },
+        { reason: FailureReason.REVERT, detail: '#13 Revert "Add flag"' },
+        {
+          reason: FailureReason.REVERT,
+          detail: '#14 Revert "Add queue" and its migration',
+        },
+        { reason: FailureReason.REVERT, detail: "revert: drop banner" },
+      ]);
+    });
+
+    it("should detect hotfix pull requests by label and branch", () => {
+      const rate = ChangeFailureRate.calculate(
+        [
+          createEvent("v1", "2024-01-01T00:00:00Z"),
+          createEvent("v2", "2024-01-03T00:00:00Z"),
+          createEvent("v3", "2024-01-05T00:00:00Z"),
+        ],
+        [],
+        [
+          createPR({
+            number: 7,
+            title: "Fix checkout",
+            labels: ["hotfix"],
+            mergedAt: new Date("2024-01-01T12:00:00Z"),
+          }),
+          createPR({
+            number: 8,
+            title: "Patch login",
+            headRefName: "hotfix/login",
+            mergedAt: new Date("2024-01-03T06:00:00Z"),
+          }),
+          createPR({
+            number: 9,
+            title: "Unmerged hotfix",
+            labels: ["hotfix"],
+            state: "open",
+            mergedAt: undefined,
+          }),
+        ],
+        rules,
+      );
+
+      expect(rate.failedDeployments.map((f) => f.event.id)).toEqual([
+        "v2",
+        "v1",
+      ]);
+      expect(rate.failedDeployments[1]?.signals).toEqual([
+        { reason: FailureReason.HOTFIX, detail: "#7 Fix checkout" },
+      ]);
+    });
+
+    it("should ignore disabled rules", () => {
+      const disabledResult = ChangeFailureRules.create({
+        deploymentStatus: false,
+        revertWindowHours: 0,
+        hotfixWindowHours: 0,
+        hotfixLabels: ["hotfix"],
+        hotfixBranchPrefixes: ["hotfix/"],
+      });
+      if (!disabledResult.ok) throw disabledResult.error;
+
+      const rate = ChangeFailureRate.calculate(
+        [createEvent("v1", "2024-01-01T00:00:00Z", "ERROR")],
+        [createCommit('Revert "x"', "2024-01-01T01:00:00Z")],
+        [createPR({ labels: ["hotfix"] })],
+        disabledResult.value,
+      );
+
+      expect(rate.failedDeployments).toHaveLength(0);
+      expect(rate.failureRate).toBe(0);
+    });
+  });
+
+  describe("failureRate", () => {
+    it.each([
+      [0, 0],
+      [2, 10],
+      [3, 15],
+      [5, 25],
+    ])("should rate %i failures out of 20 at %i%%", (failures, expected) => {
+      const events = Array.from({ length: 20 }, (_, i) =>
+        createEvent(
+          `v${i}`,
+          new Date(Date.UTC(2024, 0, i + 1)).toISOString(),
+          i < failures ? "FAILURE" : "SUCCESS",
+        ),
+      );
+
+      const rate = ChangeFailureRate.calculate(events, [], [], rules);
+
+      expect(rate.failureRate).toBeCloseTo(expected);
+    });
+
+    it("should be null without deployments", () => {
+      const rate = ChangeFailureRate.calculate([], [], [], rules);
+
+      expect(rate.failureRate).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { ChangeFailureRules } from "../ChangeFailureRules";
+
+describe("ChangeFailureRules", () => {
+  describe("create", () => {
+    it("should normalize labels and branch prefixes", () => {
+      const result = ChangeFailureRules.create({
+        deploymentStatus: false,
+        revertWindowHours: 24,
+        hotfixWindowHours: 0,
+        hotfixLabels: [" HotFix ", "hotfix", "", "incident"],
+        hotfixBranchPrefixes: ["hotfix/", " fix/ "],
+      });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.toProps()).toEqual({
+        deploymentStatus: false,
+        revertWindowHours: 24,
+        hotfixWindowHours: 0,
+        hotfixLabels: ["hotfix", "incident"],
+        hotfixBranchPrefixes: ["hotfix/", "fix/"],
+      });
+    });
+
+    it.each([-1, 24 * 31, Number.NaN])(
+      "should reject a window of %s hours",
+      (hours) => {
+        const result = ChangeFailureRules.create({
+          ...ChangeFailureRules.defaults().toProps(),
+          revertWindowHours: hours,
+        });
+
+        expect(result.ok).toBe(false);
+      },
+    );
+  });
+
+  describe("isProps", () => {
+    it("should accept rules props", () => {
+      expect(
+        ChangeFailureRules.isProps(ChangeFailureRules.defaults().toProps()),
+      ).toBe(true);
+    });
+
+    it.each([
+      null,
+      "rules",
+      [],
+      { ...ChangeFailureRules.defaults().toProps(), hotfixLabels: "hotfix" },
+      { ...ChangeFailureRules.defaults().toProps(), revertWindowHours: "72" },
+      { deploymentStatus: true },
+    ])("should reject %j", (value) => {
+      expect(ChangeFailureRules.isProps(value)).toBe(false);
+    });
+  });
+
+  describe("isHotfix", () => {
+    const rules = ChangeFailureRules.defaults();
+
+    it("should match hotfix labels case-insensitively", () => {
+      expect(rules.isHotfix(["bug", "HOTFIX"], "feature/x")).toBe(true);
+    });
+
+    it("should match hotfix branch prefixes", () => {
+      expect(rules.isHotfix([], "hotfix/payment-timeout")).toBe(true);
+    });
+
+    it("should not match regular pull requests", () => {
+      expect(rules.isHotfix(["bug"], "fix/hotfix-typo")).toBe(false);
+      expect(rules.isHotfix([], undefined)).toBe(false);
+    });
+  });
+});
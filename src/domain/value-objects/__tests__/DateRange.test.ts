@@ -251,4 +251,37 @@ describe("DateRange", () => {
       }
     });
   });
+
+  describe("previousPeriod", () => {
+    it("should return the equal-length period ending at the start", () => {
+      const result = DateRange.create(
+        new Date("2024-01-11"),
+        new Date("2024-01-21"),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const previous = result.value.previousPeriod();
+        expect(previous.start).toEqual(new Date("2024-01-01"));
+        expect(previous.end).toEqual(new Date("2024-01-11"));
+      }
+    });
+  });
+
+  describe("withPreviousPeriod", () => {
+    it("should cover the previous period and the range itself", () => {
+      const result = DateRange.create(
+        new Date("2024-01-11"),
+        new Date("2024-01-21"),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const union = result.value.withPreviousPeriod();
+        expect(union.start).toEqual(new Date("2024-01-01"));
+        expect(union.end).toEqual(new Date("2024-01-21"));
+        expect(union.durationInDays).toBe(20);
+      }
+    });
+  });
 });
@@ -97,6 +97,27 @@ describe("DeploymentEvent", () => {
       expect(event.source).toBe(DeploymentSource.DEPLOYMENT);
       expect(event.environment).toBe("production");
       expect(event.displayName).toBe("v1.0.0");
+      expect(event.status).toBe("success");
+      expect(event.hasFailedStatus()).toBe(false);
+    });
+
+    it("should report failed deployment statuses", () => {
+      const deployment: Deployment = {
+        id: "dep-789",
+        createdAt: "2024-01-15T10:00:00Z",
+        environment: "production",
+        state: "FAILURE",
+        ref: "v1.0.1",
+        latestStatus: {
+          state: "ERROR",
+          createdAt: "2024-01-15T10:05:00Z",
+        },
+      };
+
+      const event = DeploymentEvent.fromDeployment(deployment);
+
+      expect(event.status).toBe("ERROR");
+      expect(event.hasFailedStatus()).toBe(true);
     });
 
     it("should handle null environment and ref", () => {
@@ -148,6 +169,21 @@ describe("DeploymentEvent", () => {
       const event = DeploymentEvent.fromTag(tag);
 
       expect(event.timestamp).toEqual(new Date("2024-01-20T14:00:00Z"));
+      expect(event.commitOid).toBeNull();
+    });
+
+    it("should carry the commit the tag points at", () => {
+      const tag: Tag = {
+        name: "v2.1.0",
+        target: {
+          committedDate: "2024-01-21T14:00:00Z",
+        },
+        commitOid: "abc123",
+      };
+
+      const event = DeploymentEvent.fromTag(tag);
+
+      expect(event.commitOid).toBe("abc123");
     });
   });
 
@@ -247,6 +283,87 @@ describe("DeploymentEvent", () => {
     });
   });
 
+  describe("deduplicate", () => {
+    it("should prefer releases over deployments and tags with the same tag", () => {
+      const release = DeploymentEvent.fromRelease({
+        name: "Release 1.0",
+        tagName: "v1.0.0",
+        createdAt: "2024-01-15T10:00:00Z",
+        publishedAt: "2024-01-15T10:00:00Z",
+        isPrerelease: false,
+        isDraft: false,
+        commitOid: "abc123",
+      });
+      const tag = DeploymentEvent.fromTag({
+        name: "1.0.0",
+        target: { committedDate: "2024-01-14T10:00:00Z" },
+      });
+      const otherTag = DeploymentEvent.fromTag({
+        name: "v1.1.0",
+        target: { committedDate: "2024-01-20T10:00:00Z" },
+      });
+
+      const unique = DeploymentEvent.deduplicate(
+        [release],
+        [],
+        [tag, otherTag],
+      );
+
+      expect(unique).toEqual([otherTag, release]); // Newest first
+      expect(unique[1]?.commitOid).toBe("abc123");
+    });
+
+    it("should keep deployments without a matching release individually", () => {
+      const first = DeploymentEvent.fromDeployment({
+        id: "d1",
+        createdAt: "2024-01-15T10:00:00Z",
+        environment: "production",
+        state: "ACTIVE",
+        ref: "main",
+        latestStatus: null,
+      });
+      const second = DeploymentEvent.fromDeployment({
+        id: "d2",
+        createdAt: "2024-01-16T10:00:00Z",
+        environment: "production",
+        state: "ACTIVE",
+        ref: "main",
+        latestStatus: null,
+      });
+      const withoutRef = DeploymentEvent.fromDeployment({
+        id: "d3",
+        createdAt: "2024-01-17T10:00:00Z",
+        environment: "production",
+        state: "ACTIVE",
+        ref: null,
+        latestStatus: null,
+      });
+
+      expect(
+        DeploymentEvent.deduplicate([], [first, second, withoutRef], []),
+      ).toEqual([withoutRef, second, first]);
+    });
+
+    it("should drop tags already covered by a deployment", () => {
+      const deployment = DeploymentEvent.fromDeployment({
+        id: "d1",
+        createdAt: "2024-01-15T10:00:00Z",
+        environment: "production",
+        state: "ACTIVE",
+        ref: "v1.0.0",
+        latestStatus: null,
+      });
+      const tag = DeploymentEvent.fromTag({
+        name: "v1.0.0",
+        target: { committedDate: "2024-01-14T10:00:00Z" },
+      });
+
+      expect(DeploymentEvent.deduplicate([], [deployment], [tag])).toEqual([
+        deployment,
+      ]);
+    });
+  });
+
   describe("validation", () => {
     it("should throw error for empty id", () => {
       expect(() => {
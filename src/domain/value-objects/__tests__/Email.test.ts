@@ -108,4 +108,20 @@ describe("Email", () => {
       }
     });
   });
+
+  describe("noreplyLogin", () => {
+    it("should return the GitHub username of noreply emails", () => {
+      const withId = Email.create("12345+Octocat@users.noreply.github.com");
+      const withoutId = Email.create("octocat@users.noreply.github.com");
+
+      expect(withId.ok && withId.value.noreplyLogin).toBe("octocat");
+      expect(withoutId.ok && withoutId.value.noreplyLogin).toBe("octocat");
+    });
+
+    it("should return null for other emails", () => {
+      const result = Email.create("octocat@example.com");
+
+      expect(result.ok && result.value.noreplyLogin).toBeNull();
+    });
+  });
 });
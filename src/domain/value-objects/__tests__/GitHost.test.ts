@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { GitHost, GitProvider } from "../GitHost";
+
+describe("GitHost", () => {
+  describe("create", () => {
+    it("should create host from hostname", () => {
+      const result = GitHost.create("ghe.example.com");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.hostname).toBe("ghe.example.com");
+        expect(result.value.isEnterprise).toBe(true);
+      }
+    });
+
+    it("should normalize protocol, case and trailing slash", () => {
+      const result = GitHost.create(" https://GHE.Example.com/ ");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.hostname).toBe("ghe.example.com");
+      }
+    });
+
+    it("should accept hostname with port", () => {
+      const result = GitHost.create("ghe.example.com:8443");
+
+      expect(result.ok).toBe(true);
+    });
+
+    it("should reject hostname with path", () => {
+      const result = GitHost.create("ghe.example.com/owner");
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject empty hostname", () => {
+      const result = GitHost.create("");
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe("endpoints", () => {
+    it("should use api.github.com for github.com", () => {
+      const host = GitHost.dotcom();
+
+      expect(host.isEnterprise).toBe(false);
+      expect(host.webUrl).toBe("https://github.com");
+      expect(host.apiUrl).toBe("https://api.github.com");
+      expect(host.graphqlBaseUrl).toBe("https://api.github.com");
+    });
+
+    it("should use /api/v3 and /api for GitHub Enterprise Server", () => {
+      const result = GitHost.create("ghe.example.com");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.webUrl).toBe("https://ghe.example.com");
+        expect(result.value.apiUrl).toBe("https://ghe.example.com/api/v3");
+        expect(result.value.graphqlBaseUrl).toBe("https://ghe.example.com/api");
+      }
+    });
+  });
+
+  describe("GitLab", () => {
+    it("should use /api/v4 for GitLab hosts", () => {
+      const result = GitHost.create("gitlab.example.com", GitProvider.GITLAB);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.provider).toBe(GitProvider.GITLAB);
+        expect(result.value.isEnterprise).toBe(false);
+        expect(result.value.apiUrl).toBe("https://gitlab.example.com/api/v4");
+      }
+    });
+
+    it("should reject github.com as a GitLab host", () => {
+      const result = GitHost.create("github.com", GitProvider.GITLAB);
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should not equal a GitHub host with the same hostname", () => {
+      const gitlab = GitHost.create("git.example.com", GitProvider.GITLAB);
+      const github = GitHost.create("git.example.com");
+
+      if (gitlab.ok && github.ok) {
+        expect(gitlab.value.equals(github.value)).toBe(false);
+      }
+    });
+  });
+});
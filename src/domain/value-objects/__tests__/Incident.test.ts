@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { Incident, IncidentSource } from "../Incident";
+import { Deployment } from "@/domain/interfaces/IGitHubRepository";
+
+function createDeployment(
+  id: string,
+  at: string,
+  status: string | null,
+  environment: string | null = "production",
+): Deployment {
+  return {
+    id,
+    createdAt: at,
+    environment,
+    state: status ?? "PENDING",
+    ref: id,
+    latestStatus: status ? { state: status, createdAt: at } : null,
+  };
+}
+
+describe("Incident", () => {
+  describe("create", () => {
+    it("should measure the restore time of resolved incidents", () => {
+      const result = Incident.create({
+        id: "INC-1",
+        title: "",
+        openedAt: new Date("2024-01-01T00:00:00Z"),
+        resolvedAt: new Date("2024-01-01T03:30:00Z"),
+        source: IncidentSource.IMPORT,
+      });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.title).toBe("INC-1");
+      expect(result.value.restoreHours).toBe(3.5);
+    });
+
+    it("should reject incidents resolved before they were opened", () => {
+      const result = Incident.create({
+        id: "INC-1",
+        title: "Outage",
+        openedAt: new Date("2024-01-02T00:00:00Z"),
+        resolvedAt: new Date("2024-01-01T00:00:00Z"),
+        source: IncidentSource.IMPORT,
+      });
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe("fromDeployments", () => {
+    it("should resolve a failure with the next success in the same environment", () => {
+      const incidents = Incident.fromDeployments([
+        createDeployment("d1", "2024-01-01T00:00:00Z", "SUCCESS"),
+        createDeployment("d2", "2024-01-01T10:00:00Z", "FAILURE"),
+        createDeployment("d3", "2024-01-01T11:00:00Z", "ERROR"),
+        createDeployment("s1", "2024-01-01T11:30:00Z", "SUCCESS", "staging"),
+        createDeployment("d4", "2024-01-01T12:00:00Z", "IN_PROGRESS"),
+        createDeployment("d5", "2024-01-01T14:00:00Z", "SUCCESS"),
+      ]);
+
+      expect(incidents).toHaveLength(1);
+      expect(incidents[0]?.id).toBe("deployment-d2");
+      expect(incidents[0]?.title).toBe("production: d2");
+      expect(incidents[0]?.source).toBe(IncidentSource.DEPLOYMENT);
+      expect(incidents[0]?.restoreHours).toBe(4);
+    });
+
+    it("should keep failures without a later success unresolved", () => {
+      const incidents = Incident.fromDeployments([
+        createDeployment("d1", "2024-01-01T00:00:00Z", "FAILURE"),
+        createDeployment("s1", "2024-01-01T01:00:00Z", "SUCCESS", "staging"),
+      ]);
+
+      expect(incidents).toHaveLength(1);
+      expect(incidents[0]?.resolvedAt).toBeNull();
+      expect(incidents[0]?.restoreHours).toBeNull();
+    });
+  });
+});
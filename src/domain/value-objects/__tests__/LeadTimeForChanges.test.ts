@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import { LeadTimeForChanges, LeadTimeBucket } from "../LeadTimeForChanges";
+import { DeploymentEvent, DeploymentSource } from "../DeploymentEvent";
+import { GitCommit } from "@/domain/interfaces/IGitHubRepository";
+
+function createCommit(
+  hash: string,
+  date: string,
+  committedAt?: string,
+): GitCommit {
+  return {
+    hash,
+    author: "Ada",
+    email: "ada@example.com",
+    date: new Date(date),
+    committedAt: committedAt ? new Date(committedAt) : undefined,
+    message: `Commit ${hash}`,
+    filesChanged: 1,
+    linesAdded: 1,
+    linesDeleted: 0,
+  };
+}
+
+function createEvent(
+  id: string,
+  timestamp: string,
+  commitOid: string | null = null,
+  status: string | null = null,
+): DeploymentEvent {
+  return DeploymentEvent.create(
+    id,
+    id,
+    new Date(timestamp),
+    DeploymentSource.RELEASE,
+    undefined,
+    id,
+    commitOid,
+    status,
+  );
+}
+
+describe("LeadTimeForChanges", () => {
+  describe("calculate", () => {
+    it("should attribute commits to the first deployment containing them", () => {
+      const commits = [
+        createCommit("c", "2024-01-02T00:00:00Z"),
+        createCommit("b", "2024-01-01T06:00:00Z"),
+        createCommit("a", "2024-01-01T00:00:00Z"),
+      ];
+      const events = [
+        // Points at b: contains a and b only, although c predates it
+        createEvent("v1", "2024-01-02T12:00:00Z", "b"),
+        createEvent("v2", "2024-01-03T00:00:00Z", "c"),
+      ];
+
+      const leadTime = LeadTimeForChanges.calculate(commits, events);
+
+      expect([...leadTime.leadTimesHours]).toEqual([24, 30, 36]);
+      expect(leadTime.undeployedCount).toBe(0);
+      expect(leadTime.medianHours).toBe(30);
+    });
+
+    it("should place commits by history order and measure from landing", () => {
+      const commits = [
+        // Written long ago, merged after v1
+        createCommit("c", "2023-12-01T00:00:00Z", "2024-01-05T00:00:00Z"),
+        createCommit("b", "2024-01-02T00:00:00Z", "2024-01-02T00:00:00Z"),
+      ];
+      const events = [
+        createEvent("v1", "2024-01-03T00:00:00Z", "b"),
+        createEvent("v2", "2024-01-06T00:00:00Z", "c"),
+      ];
+
+      const matches = LeadTimeForChanges.matchDeployments(commits, events);
+      const leadTime = LeadTimeForChanges.calculate(commits, events);
+
+      expect(matches.map((event) => event?.id)).toEqual(["v2", "v1"]);
+      expect([...leadTime.leadTimesHours]).toEqual([24, 24]);
+    });
+
+    it("should ignore failed deployments", () => {
+      const commits = [createCommit("a", "2024-01-01T00:00:00Z")];
+      const events = [
+        createEvent("v1", "2024-01-01T12:00:00Z", "a", "FAILURE"),
+        createEvent("v2", "2024-01-02T00:00:00Z", "a", "SUCCESS"),
+      ];
+
+      const leadTime = LeadTimeForChanges.calculate(commits, events);
+
+      expect([...leadTime.leadTimesHours]).toEqual([24]);
+    });
+
+    it("should fall back to the deployment time when the commit is unknown", () => {
+      const commits = [
+        createCommit("b", "2024-01-01T12:00:00Z"),
+        createCommit("a", "2024-01-01T00:00:00Z"),
+      ];
+      const events = [
+        createEvent("v1", "2024-01-01T06:00:00Z", "merge-commit"),
+        createEvent("v2", "2024-01-01T18:00:00Z"),
+      ];
+
+      const leadTime = LeadTimeForChanges.calculate(commits, events);
+
+      expect([...leadTime.leadTimesHours]).toEqual([6, 6]);
+    });
+
+    it("should count commits after the last deployment as undeployed", () => {
+      const commits = [
+        createCommit("b", "2024-01-05T00:00:00Z"),
+        createCommit("a", "2024-01-01T00:00:00Z"),
+      ];
+      const events = [createEvent("v1", "2024-01-02T00:00:00Z", "a")];
+
+      const leadTime = LeadTimeForChanges.calculate(commits, events);
+
+      expect(leadTime.deployedCommitCount).toBe(1);
+      expect(leadTime.undeployedCount).toBe(1);
+    });
+  });
+
+  describe("shippedCommits", () => {
+    it("should list the commits a failed deployment tried to ship", () => {
+      const commits = [
+        createCommit("b", "2024-01-02T00:00:00Z"),
+        createCommit("a", "2024-01-01T00:00:00Z"),
+      ];
+      const v1 = createEvent("v1", "2024-01-01T12:00:00Z", "a");
+      const v2 = createEvent("v2", "2024-01-02T12:00:00Z", "b", "ERROR");
+      const v3 = createEvent("v3", "2024-01-03T00:00:00Z", "b");
+
+      const shipped = LeadTimeForChanges.shippedCommits(commits, [v3, v2, v1]);
+
+      expect(shipped.get(v1)?.map((commit) => commit.hash)).toEqual(["a"]);
+      expect(shipped.get(v2)?.map((commit) => commit.hash)).toEqual(["b"]);
+      expect(shipped.get(v3)?.map((commit) => commit.hash)).toEqual(["b"]);
+    });
+  });
+
+  describe("medianHours", () => {
+    it.each([2, 72, 24 * 14, 24 * 45])(
+      "should measure a median of %i hours",
+      (hours) => {
+        const deployedAt = new Date("2024-03-01T00:00:00Z");
+        const committedAt = new Date(deployedAt.getTime() - hours * 3600000);
+
+        const leadTime = LeadTimeForChanges.calculate(
+          [createCommit("a", committedAt.toISOString())],
+          [createEvent("v1", deployedAt.toISOString(), "a")],
+        );
+
+        expect(leadTime.medianHours).toBe(hours);
+      },
+    );
+
+    it("should be null without deployed commits", () => {
+      const leadTime = LeadTimeForChanges.calculate(
+        [createCommit("a", "2024-01-01T00:00:00Z")],
+        [],
+      );
+
+      expect(leadTime.medianHours).toBeNull();
+    });
+  });
+
+  describe("getDistribution", () => {
+    it("should count commits per bucket", () => {
+      const commits = [
+        createCommit("a", "2024-01-01T23:30:00Z"), // 30 minutes
+        createCommit("b", "2024-01-01T12:00:00Z"), // 12 hours
+        createCommit("c", "2023-12-01T00:00:00Z"), // 32 days
+      ];
+
+      const leadTime = LeadTimeForChanges.calculate(commits, [
+        createEvent("v1", "2024-01-02T00:00:00Z"),
+      ]);
+      const distribution = leadTime.getDistribution();
+
+      expect(distribution.map((b) => b.bucket)).toEqual([
+        LeadTimeBucket.UNDER_HOUR,
+        LeadTimeBucket.UNDER_DAY,
+        LeadTimeBucket.UNDER_WEEK,
+        LeadTimeBucket.UNDER_MONTH,
+        LeadTimeBucket.OVER_MONTH,
+      ]);
+      expect(distribution.map((b) => b.commitCount)).toEqual([1, 1, 0, 0, 1]);
+      expect(distribution[0]?.percentage).toBeCloseTo(33.33, 1);
+    });
+  });
+});
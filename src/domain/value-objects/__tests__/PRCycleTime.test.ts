@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { PRCycleTime, CyclePhase } from "../PRCycleTime";
+import {
+  PullRequest,
+  ReviewState,
+} from "@/domain/interfaces/IGitHubRepository";
+
+/**
+ * Creates a merged PullRequest opened 2024-01-01T10:00Z and merged 2 days later.
+ */
+function createMergedPR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    number: 1,
+    title: "Test PR",
+    author: "alice",
+    createdAt: new Date("2024-01-01T10:00:00Z"),
+    state: "merged",
+    reviewCommentCount: 0,
+    mergedAt: new Date("2024-01-03T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("PRCycleTime", () => {
+  describe("fromPullRequest", () => {
+    it("should split a reviewed PR into all four phases", () => {
+      const result = PRCycleTime.fromPullRequest(
+        createMergedPR({
+          firstCommitAt: new Date("2024-01-01T04:00:00Z"),
+          reviews: [
+            {
+              author: "bob",
+              state: ReviewState.CHANGES_REQUESTED,
+              submittedAt: new Date("2024-01-01T12:00:00Z"),
+            },
+            {
+              author: "bob",
+              state: ReviewState.APPROVED,
+              submittedAt: new Date("2024-01-02T12:00:00Z"),
+            },
+          ],
+        }),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.codingHours).toBe(6);
+        expect(result.value.pickupHours).toBe(2);
+        expect(result.value.reviewHours).toBe(24);
+        expect(result.value.mergeHours).toBe(22);
+        expect(result.value.phaseHours(CyclePhase.REVIEW)).toBe(24);
+      }
+    });
+
+    it("should start pickup at ready for review for draft PRs", () => {
+      const result = PRCycleTime.fromPullRequest(
+        createMergedPR({
+          readyForReviewAt: new Date("2024-01-02T10:00:00Z"),
+          reviews: [
+            {
+              author: "bob",
+              state: ReviewState.APPROVED,
+              submittedAt: new Date("2024-01-02T13:00:00Z"),
+            },
+          ],
+        }),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.codingHours).toBeNull();
+        expect(result.value.pickupHours).toBe(3);
+        expect(result.value.reviewHours).toBe(0);
+        expect(result.value.mergeHours).toBe(21);
+      }
+    });
+
+    it("should use the last approval before merge as final approval", () => {
+      const result = PRCycleTime.fromPullRequest(
+        createMergedPR({
+          reviews: [
+            {
+              author: "bob",
+              state: ReviewState.APPROVED,
+              submittedAt: new Date("2024-01-01T12:00:00Z"),
+            },
+            {
+              author: "carol",
+              state: ReviewState.APPROVED,
+              submittedAt: new Date("2024-01-02T10:00:00Z"),
+            },
+            {
+              author: "dave",
+              state: ReviewState.APPROVED,
+              submittedAt: new Date("2024-01-04T10:00:00Z"), // after merge
+            },
+          ],
+        }),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.reviewHours).toBe(22);
+        expect(result.value.mergeHours).toBe(24);
+      }
+    });
+
+    it("should ignore the author's own reviews", () => {
+      const result = PRCycleTime.fromPullRequest(
+        createMergedPR({
+          reviews: [
+            {
+              author: "alice",
+              state: ReviewState.COMMENTED,
+              submittedAt: new Date("2024-01-01T11:00:00Z"),
+            },
+          ],
+        }),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.pickupHours).toBeNull();
+        expect(result.value.reviewHours).toBeNull();
+        expect(result.value.mergeHours).toBeNull();
+      }
+    });
+
+    it("should clamp negative durations to zero", () => {
+      const result = PRCycleTime.fromPullRequest(
+        createMergedPR({
+          firstCommitAt: new Date("2024-01-01T11:00:00Z"), // rebased after opening
+        }),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.codingHours).toBe(0);
+      }
+    });
+
+    it("should return error for PRs that are not merged", () => {
+      const result = PRCycleTime.fromPullRequest(
+        createMergedPR({ state: "open", mergedAt: undefined }),
+      );
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe("PR #1 is not merged");
+      }
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for PullRequestDateFilter value object
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "../PullRequestDateFilter";
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+
+function createPR(
+  number: number,
+  createdAt: string,
+  mergedAt?: string,
+  closedAt?: string,
+): PullRequest {
+  return {
+    number,
+    title: `PR ${number}`,
+    author: "alice",
+    createdAt: new Date(createdAt),
+    state: mergedAt ? "merged" : closedAt ? "closed" : "open",
+    reviewCommentCount: 0,
+    mergedAt: mergedAt ? new Date(mergedAt) : undefined,
+    closedAt: closedAt
+      ? new Date(closedAt)
+      : mergedAt
+        ? new Date(mergedAt)
+        : undefined,
+  };
+}
+
+describe("PullRequestDateFilter", () => {
+  const start = new Date("2024-02-01T00:00:00Z");
+  const end = new Date("2024-02-29T23:59:59Z");
+
+  const openedBeforeMergedInside = createPR(
+    1,
+    "2024-01-20T00:00:00Z",
+    "2024-02-05T00:00:00Z",
+  );
+  const openedInsideMergedAfter = createPR(
+    2,
+    "2024-02-20T00:00:00Z",
+    "2024-03-05T00:00:00Z",
+  );
+  const openedBeforeClosedInside = createPR(
+    3,
+    "2024-01-10T00:00:00Z",
+    undefined,
+    "2024-02-10T00:00:00Z",
+  );
+  const openedBeforeStillOpen = createPR(4, "2024-01-05T00:00:00Z");
+  const prs = [
+    openedBeforeMergedInside,
+    openedInsideMergedAfter,
+    openedBeforeClosedInside,
+    openedBeforeStillOpen,
+  ];
+
+  it("should select PRs opened in the window with CREATED", () => {
+    const filter = PullRequestDateFilter.create(
+      PullRequestDateSemantics.CREATED,
+      start,
+      end,
+    );
+
+    expect(filter.apply(prs).map((pr) => pr.number)).toEqual([2]);
+  });
+
+  it("should select PRs merged in the window with MERGED", () => {
+    const filter = PullRequestDateFilter.create(
+      PullRequestDateSemantics.MERGED,
+      start,
+      end,
+    );
+
+    expect(filter.apply(prs).map((pr) => pr.number)).toEqual([1]);
+  });
+
+  it("should select PRs opened, merged or closed in the window with ACTIVITY", () => {
+    const filter = PullRequestDateFilter.create(
+      PullRequestDateSemantics.ACTIVITY,
+      start,
+      end,
+    );
+
+    expect(filter.apply(prs).map((pr) => pr.number)).toEqual([1, 2, 3]);
+  });
+
+  it("should include both bounds", () => {
+    const filter = PullRequestDateFilter.create(
+      PullRequestDateSemantics.CREATED,
+      start,
+      end,
+    );
+
+    expect(filter.matches(createPR(5, start.toISOString()))).toBe(true);
+    expect(filter.matches(createPR(6, end.toISOString()))).toBe(true);
+  });
+
+  it("should leave missing bounds open", () => {
+    const filter = PullRequestDateFilter.create(
+      PullRequestDateSemantics.CREATED,
+      start,
+    );
+
+    expect(filter.matches(openedInsideMergedAfter)).toBe(true);
+    expect(filter.matches(createPR(7, "2030-01-01T00:00:00Z"))).toBe(true);
+    expect(filter.matches(openedBeforeStillOpen)).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import { GitHost, GitProvider } from "@/domain/value-objects/GitHost";
 import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
 
 describe("RepositoryUrl", () => {
@@ -151,4 +152,134 @@ describe("RepositoryUrl", () => {
       }
     });
   });
+  describe("GitHub Enterprise Server", () => {
+    const enterpriseHostResult = GitHost.create("ghe.example.com");
+    if (!enterpriseHostResult.ok) throw enterpriseHostResult.error;
+    const allowedHosts = [GitHost.dotcom(), enterpriseHostResult.value];
+
+    it("should accept URL on an allowed enterprise host", () => {
+      const result = RepositoryUrl.create(
+        "https://ghe.example.com/owner/repo",
+        allowedHosts,
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.host.hostname).toBe("ghe.example.com");
+        expect(result.value.identifier).toBe("ghe.example.com/owner/repo");
+        expect(result.value.ownerIdentifier).toBe("ghe.example.com/owner");
+        expect(result.value.apiBase).toBe(
+          "https://ghe.example.com/api/v3/repos/owner/repo",
+        );
+      }
+    });
+
+    it("should reject enterprise host that is not allowed", () => {
+      const result = RepositoryUrl.create("https://ghe.example.com/owner/repo");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("Unsupported host");
+      }
+    });
+
+    it("should keep owner/repo identifier for github.com", () => {
+      const result = RepositoryUrl.create(
+        "https://github.com/owner/repo",
+        allowedHosts,
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.identifier).toBe("owner/repo");
+        expect(result.value.ownerIdentifier).toBe("owner");
+      }
+    });
+  });
+
+  describe("GitLab", () => {
+    const gitLabHostResult = GitHost.create(
+      "gitlab.example.com",
+      GitProvider.GITLAB,
+    );
+    if (!gitLabHostResult.ok) throw gitLabHostResult.error;
+    const allowedHosts = [GitHost.dotcom(), gitLabHostResult.value];
+
+    it("should accept project in nested groups", () => {
+      const result = RepositoryUrl.create(
+        "https://gitlab.example.com/platform/backend/api",
+        allowedHosts,
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.provider).toBe(GitProvider.GITLAB);
+        expect(result.value.owner).toBe("platform/backend");
+        expect(result.value.repo).toBe("api");
+        expect(result.value.identifier).toBe(
+          "gitlab.example.com/platform/backend/api",
+        );
+        expect(result.value.apiBase).toBe(
+          "https://gitlab.example.com/api/v4/projects/platform%2Fbackend%2Fapi",
+        );
+      }
+    });
+
+    it("should resolve nested identifier to the GitLab host", () => {
+      const result = RepositoryUrl.fromIdentifier(
+        "gitlab.example.com/platform/backend/api",
+        allowedHosts,
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.value).toBe(
+          "https://gitlab.example.com/platform/backend/api",
+        );
+      }
+    });
+
+    it("should still require owner/repo on GitHub hosts", () => {
+      const result = RepositoryUrl.create(
+        "https://github.com/platform/backend/api",
+        allowedHosts,
+      );
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe("fromIdentifier", () => {
+    it("should resolve owner/repo to github.com", () => {
+      const result = RepositoryUrl.fromIdentifier("owner/repo");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.value).toBe("https://github.com/owner/repo");
+      }
+    });
+
+    it("should resolve host/owner/repo to the given host", () => {
+      const hostResult = GitHost.create("ghe.example.com");
+      if (!hostResult.ok) throw hostResult.error;
+
+      const result = RepositoryUrl.fromIdentifier(
+        "ghe.example.com/owner/repo",
+        [GitHost.dotcom(), hostResult.value],
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.value).toBe("https://ghe.example.com/owner/repo");
+        expect(result.value.owner).toBe("owner");
+        expect(result.value.repo).toBe("repo");
+      }
+    });
+
+    it("should reject identifier with wrong number of segments", () => {
+      const result = RepositoryUrl.fromIdentifier("owner");
+
+      expect(result.ok).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for Team value object
+ */
+
+import { describe, it, expect } from "vitest";
+import { Team, TeamSource, TeamProps } from "../Team";
+import {
+  GitCommit,
+  PullRequest,
+  ReviewState,
+  Tag,
+} from "@/domain/interfaces/IGitHubRepository";
+
+function createTeam(props: Partial<TeamProps> = {}): Team {
+  const result = Team.create({
+    id: "",
+    name: "Platform",
+    members: ["alice", "bob@example.com"],
+    source: TeamSource.MANUAL,
+    ...props,
+  });
+  if (!result.ok) throw result.error;
+  return result.value;
+}
+
+function createCommit(overrides: Partial<GitCommit> = {}): GitCommit {
+  return {
+    hash: "abc",
+    author: "Someone",
+    email: "someone@example.com",
+    date: new Date("2024-01-10T00:00:00Z"),
+    message: "Change",
+    filesChanged: 1,
+    linesAdded: 1,
+    linesDeleted: 0,
+    ...overrides,
+  };
+}
+
+function createTag(name: string, date: string): Tag {
+  return { name, target: { committedDate: date } };
+}
+
+describe("Team", () => {
+  describe("create", () => {
+    it("should derive the id from the name and normalize members", () => {
+      const team = createTeam({
+        name: "  Platform Core ",
+        members: ["@Alice", " alice ", "Bob@Example.com", ""],
+      });
+
+      expect(team.toProps()).toEqual({
+        id: "platform-core",
+        name: "Platform Core",
+        members: ["alice", "bob@example.com"],
+        source: TeamSource.MANUAL,
+      });
+    });
+
+    it("should keep a given id as a slug", () => {
+      expect(createTeam({ id: "Web_Frontend" }).id).toBe("web-frontend");
+    });
+
+    it("should reject an empty name", () => {
+      const result = Team.create({
+        id: "",
+        name: "  ",
+        members: [],
+        source: TeamSource.MANUAL,
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject a name without letters or digits", () => {
+      const result = Team.create({
+        id: "",
+        name: "!!!",
+        members: [],
+        source: TeamSource.MANUAL,
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject invalid members", () => {
+      const result = Team.create({
+        id: "",
+        name: "Platform",
+        members: ["not a login", "broken@"],
+        source: TeamSource.MANUAL,
+      });
+
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error.message).toContain("Invalid team member");
+    });
+  });
+
+  describe("includesEmail", () => {
+    it("should match member emails case-insensitively", () => {
+      expect(createTeam().includesEmail("BOB@example.com")).toBe(true);
+    });
+
+    it("should match the username of a GitHub noreply email", () => {
+      const team = createTeam();
+
+      expect(team.includesEmail("12345+Alice@users.noreply.github.com")).toBe(
+        true,
+      );
+      expect(team.includesEmail("carol@users.noreply.github.com")).toBe(false);
+    });
+  });
+
+  describe("commitMember", () => {
+    it("should find the member by email, noreply username or author name", () => {
+      const team = createTeam();
+
+      expect(
+        team.commitMember(createCommit({ email: "bob@example.com" })),
+      ).toBe("bob@example.com");
+      expect(
+        team.commitMember(
+          createCommit({ email: "alice@users.noreply.github.com" }),
+        ),
+      ).toBe("alice");
+      expect(team.commitMember(createCommit({ author: "Alice" }))).toBe(
+        "alice",
+      );
+    });
+
+    it("should return null for commits of non-members", () => {
+      expect(createTeam().commitMember(createCommit())).toBeNull();
+    });
+  });
+
+  describe("filterPullRequests", () => {
+    it("should keep member PRs with member reviews only", () => {
+      const review = (author: string) => ({
+        author,
+        state: ReviewState.APPROVED,
+        submittedAt: new Date("2024-01-11T00:00:00Z"),
+      });
+      const prs: PullRequest[] = [
+        {
+          number: 1,
+          title: "Member PR",
+          author: "Alice",
+          createdAt: new Date("2024-01-10T00:00:00Z"),
+          state: "open",
+          reviewCommentCount: 0,
+          reviews: [review("bob@example.com"), review("carol")],
+        },
+        {
+          number: 2,
+          title: "Other PR",
+          author: "carol",
+          createdAt: new Date("2024-01-10T00:00:00Z"),
+          state: "open",
+          reviewCommentCount: 0,
+        },
+      ];
+      const team = createTeam({ members: ["alice", "dave"] });
+      const withReviewer = createTeam({ members: ["alice", "carol"] });
+
+      expect(team.filterPullRequests(prs)).toEqual([
+        { ...prs[0], reviews: [] },
+      ]);
+      expect(withReviewer.filterPullRequests(prs)[0]?.reviews).toEqual([
+        review("carol"),
+      ]);
+    });
+  });
+
+  describe("filterDeploymentSources", () => {
+    it("should keep deployments that shipped a member commit", () => {
+      const commits = [
+        createCommit({
+          hash: "c",
+          author: "alice",
+          date: new Date("2024-01-06T00:00:00Z"),
+        }),
+        createCommit({
+          hash: "b",
+          author: "carol",
+          date: new Date("2024-01-04T00:00:00Z"),
+        }),
+        createCommit({
+          hash: "a",
+          author: "alice",
+          date: new Date("2024-01-02T00:00:00Z"),
+        }),
+      ];
+      const sources = {
+        releases: [],
+        deployments: [],
+        tags: [
+          createTag("v1.0.0", "2024-01-03T00:00:00Z"),
+          createTag("v1.1.0", "2024-01-05T00:00:00Z"),
+          createTag("v1.2.0", "2024-01-07T00:00:00Z"),
+        ],
+      };
+
+      const filtered = createTeam().filterDeploymentSources(sources, commits);
+
+      expect(filtered.tags.map((tag) => tag.name)).toEqual([
+        "v1.0.0",
+        "v1.2.0",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { TimeToRestore } from "../TimeToRestore";
+import { Incident, IncidentSource } from "../Incident";
+
+function createIncident(id: string, hours: number | null): Incident {
+  const openedAt = new Date("2024-01-01T00:00:00Z");
+  const result = Incident.create({
+    id,
+    title: id,
+    openedAt,
+    resolvedAt:
+      hours === null ? null : new Date(openedAt.getTime() + hours * 3600000),
+    source: IncidentSource.IMPORT,
+  });
+  if (!result.ok) throw result.error;
+  return result.value;
+}
+
+describe("TimeToRestore", () => {
+  it("should take the median over resolved incidents only", () => {
+    const timeToRestore = TimeToRestore.calculate([
+      createIncident("a", 2),
+      createIncident("b", 6),
+      createIncident("c", null),
+    ]);
+
+    expect(timeToRestore.medianHours).toBe(4);
+    expect(timeToRestore.unresolvedCount).toBe(1);
+  });
+
+  it("should be null without resolved incidents", () => {
+    const timeToRestore = TimeToRestore.calculate([createIncident("a", null)]);
+
+    expect(timeToRestore.medianHours).toBeNull();
+    expect(timeToRestore.unresolvedCount).toBe(1);
+  });
+
+  it("should list incidents newest first", () => {
+    const older = createIncident("older", 1);
+    const newerResult = Incident.create({
+      id: "newer",
+      title: "newer",
+      openedAt: new Date("2024-02-01T00:00:00Z"),
+      resolvedAt: null,
+      source: IncidentSource.IMPORT,
+    });
+    if (!newerResult.ok) throw newerResult.error;
+
+    const timeToRestore = TimeToRestore.calculate([older, newerResult.value]);
+
+    expect(timeToRestore.incidents.map((incident) => incident.id)).toEqual([
+      "newer",
+      "older",
+    ]);
+  });
+});
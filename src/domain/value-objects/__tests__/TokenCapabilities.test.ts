@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  PermissionStatus,
+  RepositoryPermission,
+  TokenCapabilities,
+  TokenKind,
+} from "../TokenCapabilities";
+
+describe("TokenCapabilities", () => {
+  describe("kindOf", () => {
+    it("should identify the token kind from its prefix", () => {
+      expect(TokenCapabilities.kindOf("ghp_abc")).toBe(TokenKind.CLASSIC);
+      expect(TokenCapabilities.kindOf("gho_abc")).toBe(TokenKind.OAUTH);
+      expect(TokenCapabilities.kindOf("github_pat_11AB")).toBe(
+        TokenKind.FINE_GRAINED,
+      );
+      expect(TokenCapabilities.kindOf("ghs_abc")).toBe(TokenKind.GITHUB_APP);
+      expect(TokenCapabilities.kindOf("ghu_abc")).toBe(TokenKind.GITHUB_APP);
+      expect(TokenCapabilities.kindOf("0123456789abcdef")).toBe(
+        TokenKind.UNKNOWN,
+      );
+    });
+  });
+
+  describe("parseScopes", () => {
+    it("should split the X-OAuth-Scopes header", () => {
+      expect(TokenCapabilities.parseScopes("repo, read:org")).toEqual([
+        "repo",
+        "read:org",
+      ]);
+      expect(TokenCapabilities.parseScopes("")).toEqual([]);
+      expect(TokenCapabilities.parseScopes(null)).toBeNull();
+    });
+  });
+
+  describe("missing", () => {
+    const capabilities = TokenCapabilities.create(
+      TokenKind.CLASSIC,
+      ["repo"],
+      [
+        {
+          permission: RepositoryPermission.CONTENTS,
+          status: PermissionStatus.GRANTED,
+        },
+        {
+          permission: RepositoryPermission.PULL_REQUESTS,
+          status: PermissionStatus.SSO_REQUIRED,
+          ssoUrl: "https://github.com/orgs/acme/sso",
+        },
+        {
+          permission: RepositoryPermission.DEPLOYMENTS,
+          status: PermissionStatus.MISSING,
+        },
+      ],
+    );
+
+    it("should list missing and SSO-blocked permissions a feature needs", () => {
+      const missing = capabilities.missing([
+        RepositoryPermission.CONTENTS,
+        RepositoryPermission.PULL_REQUESTS,
+        RepositoryPermission.DEPLOYMENTS,
+      ]);
+
+      expect(missing.map((check) => check.permission)).toEqual([
+        RepositoryPermission.PULL_REQUESTS,
+        RepositoryPermission.DEPLOYMENTS,
+      ]);
+      expect(capabilities.missing([RepositoryPermission.CONTENTS])).toEqual([]);
+    });
+
+    it("should not report permissions that were not probed", () => {
+      const unknown = TokenCapabilities.unknown();
+
+      expect(unknown.missing(Object.values(RepositoryPermission))).toEqual([]);
+      expect(unknown.check(RepositoryPermission.DEPLOYMENTS).status).toBe(
+        PermissionStatus.UNKNOWN,
+      );
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { IGitHubRepository } from "@/domain/interfaces/IGitHubRepository";
+import { GitHost, GitProvider } from "@/domain/value-objects/GitHost";
+import { createSessionProvider } from "./auth/SessionProviderFactory";
+import { LocalGitAdapter } from "./git/LocalGitAdapter";
+import { MixedRepositoryAdapter } from "./git/MixedRepositoryAdapter";
+import { OctokitAdapter, OctokitAdapterOptions } from "./github/OctokitAdapter";
+import { GitLabAdapter } from "./gitlab/GitLabAdapter";
+import { getSyncStorageForToken } from "./storage/CacheRepositoryFactory";
+
+/**
+ * Create the repository adapter for a host
+ *
+ * Selection Logic:
+ * - GitLab hosts → GitLabAdapter (authenticated with GITLAB_TOKEN)
+ * - GitHub hosts → OctokitAdapter (session token, incremental sync storage)
+ * - If LOCAL_GIT_DIR is set, the API adapter is wrapped in
+ *   MixedRepositoryAdapter so commits and tags come from local clones
+ *
+ * @param host Host of the repository (must be one of getAllowedHosts())
+ * @param options Cancellation signal, progress listener and request priority
+ *   for one analysis (GitHub only)
+ * @returns IGitHubRepository implementation for the host's provider
+ */
+export function createGitRepository(
+  host: GitHost,
+  options: Pick<
+    OctokitAdapterOptions,
+    "signal" | "onProgress" | "priority"
+  > = {},
+): IGitHubRepository {
+  const remote: IGitHubRepository =
+    host.provider === GitProvider.GITLAB
+      ? new GitLabAdapter(createSessionProvider(GitProvider.GITLAB), { host })
+      : new OctokitAdapter(createSessionProvider(GitProvider.GITHUB), {
+          syncStorage: getSyncStorageForToken,
+          host,
+          ...options,
+        });
+
+  const localGitDir = process.env.LOCAL_GIT_DIR;
+  if (!localGitDir) {
+    return remote;
+  }
+
+  return new MixedRepositoryAdapter(
+    new LocalGitAdapter({ baseDir: localGitDir, host }),
+    remote,
+  );
+}
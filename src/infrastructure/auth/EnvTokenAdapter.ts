@@ -2,6 +2,7 @@ import { graphql, GraphqlResponseError } from "@octokit/graphql";
 import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
 import { Result, ok, err } from "@/lib/result";
 import { logger } from "@/lib/utils/logger";
+import { getEnvTokenHost } from "@/infrastructure/hostConfig";
 
 /**
  * GitHub user information retrieved from the API
@@ -47,6 +48,7 @@ interface ViewerResponse {
  * - Validates token format on initialization
  * - Lazy-loads and caches user info from GitHub API
  * - Masks tokens in logs
+ * - Validates against GITHUB_ENTERPRISE_HOST when configured (GHES tokens)
  *
  * @example
  * ```typescript
@@ -90,7 +92,7 @@ export class EnvTokenAdapter implements ISessionProvider {
     if (!token) {
       throw new Error(
         "GITHUB_TOKEN environment variable is not set. " +
-          "Generate a token at: https://github.com/settings/tokens",
+          `Generate a token at: ${getEnvTokenHost().webUrl}/settings/tokens`,
       );
     }
 
@@ -146,6 +148,7 @@ export class EnvTokenAdapter implements ISessionProvider {
       logger.debug("Fetching GitHub user info to validate token...");
 
       const response = await graphql<ViewerResponse>(VIEWER_QUERY, {
+        baseUrl: getEnvTokenHost().graphqlBaseUrl,
         headers: {
           authorization: `token ${this.token}`,
         },
@@ -175,7 +178,7 @@ export class EnvTokenAdapter implements ISessionProvider {
         return err(
           new Error(
             `Invalid or expired GitHub token (${maskedToken}). ` +
-              `Please generate a new token at: https://github.com/settings/tokens`,
+              `Please generate a new token at: ${getEnvTokenHost().webUrl}/settings/tokens`,
           ),
         );
       }
@@ -0,0 +1,333 @@
+import { createSign } from "crypto";
+import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+/**
+ * GitHub App configuration
+ */
+export interface GitHubAppConfig {
+  appId: string;
+  privateKey: string; // PEM private key of the app
+  installationId?: number; // Installation used when no repository owner is given
+  host?: GitHost; // Host the app is registered on (default: github.com)
+}
+
+/**
+ * Installation access token and its expiry
+ */
+interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * GitHub REST response for GET /app/installations
+ */
+interface InstallationResponse {
+  id: number;
+  account: { login: string } | null;
+}
+
+/**
+ * GitHub REST response for POST /app/installations/{id}/access_tokens
+ */
+interface AccessTokenResponse {
+  token: string;
+  expires_at: string;
+}
+
+/**
+ * App JWT lifetime (GitHub accepts at most 10 minutes)
+ */
+const JWT_LIFETIME_SECONDS = 9 * 60;
+
+/**
+ * JWTs are issued this far in the past to allow for clock drift
+ */
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+
+/**
+ * Installation tokens are renewed this long before they expire, so a token
+ * handed out never runs out during a request
+ */
+const TOKEN_RENEWAL_MARGIN_MS = 5 * 60_000;
+
+/**
+ * How long the owner → installation lookup is trusted; an unknown owner
+ * after that reloads it (picks up newly installed accounts)
+ */
+const INSTALLATIONS_TTL_MS = 5 * 60_000;
+
+/**
+ * Encode a string as base64url (JWT segments)
+ */
+function base64url(value: string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * GitHubAppAdapter
+ *
+ * ISessionProvider implementation that authenticates as a GitHub App.
+ * Intended for shared deployments: every user's requests run on the app's
+ * installation tokens, which have higher rate limits than OAuth tokens and
+ * do not depend on anybody's personal credentials. Users still sign in with
+ * OAuth to reach the app.
+ *
+ * Features:
+ * - Signs a short-lived JWT (RS256) with the app private key
+ * - Exchanges it for an installation access token per repository owner
+ * - Caches tokens until shortly before they expire (one hour)
+ * - Maps owners to installations via GET /app/installations
+ * - Stable credential ids per installation, so caches survive token renewal
+ *
+ * @example
+ * ```typescript
+ * const sessionProvider = new GitHubAppAdapter({
+ *   appId: "123456",
+ *   privateKey: process.env.GITHUB_APP_PRIVATE_KEY,
+ * });
+ * const tokenResult = await sessionProvider.getAccessToken("my-org");
+ * ```
+ */
+export class GitHubAppAdapter implements ISessionProvider {
+  private readonly host: GitHost;
+  private readonly tokens = new Map<number, Promise<InstallationToken>>();
+  private installations = new Map<string, number>(); // Lowercase owner login → installation ID
+  private installationsLoadedAt = 0;
+
+  /**
+   * @param config App ID, private key and optional default installation
+   * @param now Clock (injectable for tests)
+   */
+  constructor(
+    private readonly config: GitHubAppConfig,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.host = config.host ?? GitHost.dotcom();
+  }
+
+  /**
+   * Retrieve an installation access token
+   *
+   * @param owner Repository owner; selects the installation on that
+   *   account. Without an owner, the configured default installation (or
+   *   the app's only installation) is used.
+   * @returns Result<string> containing the token, or an error if the app is
+   *   not installed for the owner or GitHub rejects the app credentials
+   */
+  async getAccessToken(owner?: string): Promise<Result<string>> {
+    const installationResult = await this.resolveInstallation(owner);
+    if (!installationResult.ok) {
+      return installationResult;
+    }
+
+    try {
+      const { token } = await this.getInstallationToken(
+        installationResult.value,
+      );
+      return ok(token);
+    } catch (error: unknown) {
+      logger.error("Failed to create GitHub App installation token", {
+        installationId: installationResult.value,
+        error: getErrorMessage(error),
+      });
+      return err(
+        new Error(
+          `Failed to create GitHub App installation token: ${getErrorMessage(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Identity of the app (without an owner) or of the owner's installation
+   * Does not depend on the current installation token.
+   */
+  async getCredentialId(owner?: string): Promise<Result<string>> {
+    const appId = `github-app:${this.host.hostname}:${this.config.appId}`;
+    if (owner === undefined) {
+      return ok(appId);
+    }
+
+    const installationResult = await this.resolveInstallation(owner);
+    if (!installationResult.ok) {
+      return installationResult;
+    }
+    return ok(`${appId}:${installationResult.value}`);
+  }
+
+  /**
+   * Find the installation for an owner, or the default installation
+   */
+  private async resolveInstallation(owner?: string): Promise<Result<number>> {
+    if (owner === undefined && this.config.installationId !== undefined) {
+      return ok(this.config.installationId);
+    }
+
+    try {
+      if (owner === undefined) {
+        await this.loadInstallations();
+        const ids = [...new Set(this.installations.values())];
+        if (ids.length === 1 && ids[0] !== undefined) {
+          return ok(ids[0]);
+        }
+        return err(
+          new Error(
+            `The GitHub App has ${ids.length} installations. Set GITHUB_APP_INSTALLATION_ID to choose the default one.`,
+          ),
+        );
+      }
+
+      const key = owner.toLowerCase();
+      if (!this.installations.has(key)) {
+        await this.loadInstallations();
+      }
+      const installationId = this.installations.get(key);
+      if (installationId === undefined) {
+        return err(
+          new Error(
+            `The GitHub App is not installed on ${owner}. Install it on the account to analyze its repositories.`,
+          ),
+        );
+      }
+      return ok(installationId);
+    } catch (error: unknown) {
+      logger.error("Failed to list GitHub App installations", {
+        error: getErrorMessage(error),
+      });
+      return err(
+        new Error(
+          `Failed to list GitHub App installations: ${getErrorMessage(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Load the app's installations unless the lookup is still fresh
+   */
+  private async loadInstallations(): Promise<void> {
+    if (
+      this.installationsLoadedAt > 0 &&
+      this.now() - this.installationsLoadedAt < INSTALLATIONS_TTL_MS
+    ) {
+      return;
+    }
+
+    const installations = new Map<string, number>();
+    for (let page = 1; ; page++) {
+      const response = await this.request<InstallationResponse[]>(
+        "GET",
+        `/app/installations?per_page=100&page=${page}`,
+      );
+      for (const installation of response) {
+        if (installation.account) {
+          installations.set(
+            installation.account.login.toLowerCase(),
+            installation.id,
+          );
+        }
+      }
+      if (response.length < 100) {
+        break;
+      }
+    }
+
+    this.installations = installations;
+    this.installationsLoadedAt = this.now();
+    logger.debug("GitHub App installations loaded", {
+      count: installations.size,
+    });
+  }
+
+  /**
+   * Get a cached installation token, creating one when missing or expiring
+   * Concurrent callers share one token request.
+   */
+  private async getInstallationToken(
+    installationId: number,
+  ): Promise<InstallationToken> {
+    const cached = this.tokens.get(installationId);
+    if (cached) {
+      try {
+        const token = await cached;
+        if (token.expiresAt.getTime() - this.now() > TOKEN_RENEWAL_MARGIN_MS) {
+          return token;
+        }
+      } catch {
+        // A failed request is retried below
+      }
+      if (this.tokens.get(installationId) !== cached) {
+        return this.getInstallationToken(installationId); // Renewed meanwhile
+      }
+    }
+
+    const pending = this.createInstallationToken(installationId);
+    this.tokens.set(installationId, pending);
+    return pending;
+  }
+
+  private async createInstallationToken(
+    installationId: number,
+  ): Promise<InstallationToken> {
+    const response = await this.request<AccessTokenResponse>(
+      "POST",
+      `/app/installations/${installationId}/access_tokens`,
+    );
+    logger.info("GitHub App installation token created", {
+      installationId,
+      expiresAt: response.expires_at,
+    });
+    return { token: response.token, expiresAt: new Date(response.expires_at) };
+  }
+
+  /**
+   * Call a GitHub App REST endpoint authenticated with the app JWT
+   * @throws Error with GitHub's message on non-2xx responses
+   */
+  private async request<T>(method: "GET" | "POST", path: string): Promise<T> {
+    const response = await fetch(`${this.host.apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.createJwt()}`,
+        Accept: "application/vnd.github+json",
+      },
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = (await response.json()) as { message?: unknown };
+        message = String(body.message ?? message);
+      } catch {
+        // Body is not JSON; keep the status text
+      }
+      throw new Error(`${response.status} ${message}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Sign the app JWT (RS256, issued by the app ID)
+   */
+  private createJwt(): string {
+    const issuedAt = Math.floor(this.now() / 1000) - JWT_CLOCK_DRIFT_SECONDS;
+    const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const payload = base64url(
+      JSON.stringify({
+        iat: issuedAt,
+        exp: issuedAt + JWT_LIFETIME_SECONDS,
+        iss: this.config.appId,
+      }),
+    );
+    const signature = createSign("RSA-SHA256")
+      .update(`${header}.${payload}`)
+      .sign(this.config.privateKey, "base64url");
+    return `${header}.${payload}.${signature}`;
+  }
+}
@@ -0,0 +1,202 @@
+import { createHash } from "crypto";
+import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+/**
+ * How long a user's access to a repository is trusted
+ * Losing access shows up after this long.
+ */
+const ACCESS_TTL_MS = 5 * 60_000;
+
+/**
+ * Access checks give up after this long (the request then fails)
+ */
+const ACCESS_TIMEOUT_MS = 10_000;
+
+/**
+ * Access check results by hashed user token and repository (process-wide)
+ * Only definite answers are kept; failed checks are retried.
+ */
+const accessChecks = new Map<
+  string,
+  { promise: Promise<Result<boolean>>; checkedAt: number }
+>();
+
+/**
+ * Read a repository with the user's token
+ *
+ * @returns true on 2xx, false on 403 or 404 (GitHub hides private
+ *   repositories with 404), or an error when access cannot be determined
+ */
+async function checkRepositoryAccess(
+  host: GitHost,
+  token: string,
+  owner: string,
+  repo: string,
+): Promise<Result<boolean>> {
+  try {
+    const response = await fetch(
+      `${host.apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
+      {
+        headers: {
+          Authorization: `token ${token}`,
+          Accept: "application/vnd.github+json",
+        },
+        signal: AbortSignal.timeout(ACCESS_TIMEOUT_MS),
+      },
+    );
+    if (response.ok) {
+      return ok(true);
+    }
+    const rateLimited = response.headers.get("x-ratelimit-remaining") === "0";
+    if ((response.status === 403 && !rateLimited) || response.status === 404) {
+      return ok(false);
+    }
+    return err(
+      new Error(
+        `Failed to check access to ${owner}/${repo}: ${response.status} ${response.statusText}`,
+      ),
+    );
+  } catch (error: unknown) {
+    return err(
+      new Error(
+        `Failed to check access to ${owner}/${repo}: ${getErrorMessage(error)}`,
+      ),
+    );
+  }
+}
+
+/**
+ * GitHubAppUserAdapter
+ *
+ * ISessionProvider for GitHub App mode that acts on behalf of the signed-in
+ * user. The app's installation tokens can read every repository the app is
+ * installed on, so they are only handed out for repositories the user can
+ * read with their own OAuth token:
+ * - Every request needs a signed-in session
+ * - Repository requests check the user's access (GET /repos/{owner}/{repo},
+ *   cached for a few minutes), then use the owner's installation token
+ * - Requests without a repository (owner listings, rate limits, the cache
+ *   partition of the session) use the user's own token and credentials
+ *
+ * @example
+ * ```typescript
+ * const sessionProvider = new GitHubAppUserAdapter(
+ *   gitHubAppAdapter,
+ *   new NextAuthAdapter(),
+ *   GitHost.dotcom(),
+ * );
+ * const tokenResult = await sessionProvider.getAccessToken("acme", "api");
+ * ```
+ */
+export class GitHubAppUserAdapter implements ISessionProvider {
+  /**
+   * @param app Installation tokens of the GitHub App
+   * @param user OAuth session of the signed-in user
+   * @param host Host the app is registered on
+   * @param now Clock (injectable for tests)
+   */
+  constructor(
+    private readonly app: ISessionProvider,
+    private readonly user: ISessionProvider,
+    private readonly host: GitHost,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Retrieve the installation token for a repository the user can read,
+   * or the user's token when no repository is given
+   */
+  async getAccessToken(owner?: string, repo?: string): Promise<Result<string>> {
+    const userResult = await this.user.getAccessToken();
+    if (!userResult.ok || owner === undefined || repo === undefined) {
+      return userResult;
+    }
+
+    const accessResult = await this.verifyAccess(userResult.value, owner, repo);
+    if (!accessResult.ok) {
+      return accessResult;
+    }
+    return this.app.getAccessToken(owner, repo);
+  }
+
+  /**
+   * Identity of the owner's installation for a repository the user can
+   * read, or of the user's token when no repository is given (so caches
+   * without a repository are never shared between users)
+   */
+  async getCredentialId(
+    owner?: string,
+    repo?: string,
+  ): Promise<Result<string>> {
+    const userResult = await this.user.getAccessToken();
+    if (!userResult.ok || owner === undefined || repo === undefined) {
+      return userResult;
+    }
+
+    const accessResult = await this.verifyAccess(userResult.value, owner, repo);
+    if (!accessResult.ok) {
+      return accessResult;
+    }
+    return this.app.getCredentialId
+      ? this.app.getCredentialId(owner, repo)
+      : this.app.getAccessToken(owner, repo);
+  }
+
+  /**
+   * Check that the user's token can read the repository
+   */
+  private async verifyAccess(
+    token: string,
+    owner: string,
+    repo: string,
+  ): Promise<Result<void>> {
+    const now = this.now();
+    const key = `${createHash("sha256")
+      .update(token)
+      .digest("hex")
+      .slice(0, 16)}:${this.host.hostname}/${owner}/${repo}`.toLowerCase();
+
+    let cached = accessChecks.get(key);
+    if (!cached || now - cached.checkedAt >= ACCESS_TTL_MS) {
+      // Drop expired checks of other users and repositories
+      for (const [staleKey, stale] of accessChecks) {
+        if (now - stale.checkedAt >= ACCESS_TTL_MS) {
+          accessChecks.delete(staleKey);
+        }
+      }
+
+      const entry = {
+        promise: checkRepositoryAccess(this.host, token, owner, repo),
+        checkedAt: now,
+      };
+      accessChecks.set(key, entry);
+      void entry.promise.then((result) => {
+        if (!result.ok && accessChecks.get(key) === entry) {
+          accessChecks.delete(key);
+        }
+      });
+      cached = entry;
+    }
+
+    const accessResult = await cached.promise;
+    if (!accessResult.ok) {
+      return accessResult;
+    }
+    if (!accessResult.value) {
+      logger.warn("Repository access denied for the signed-in user", {
+        owner,
+        repo,
+      });
+      return err(
+        new Error(
+          `Repository not found or access denied: ${owner}/${repo}. Your GitHub account needs read access to analyze it.`,
+        ),
+      );
+    }
+    return ok(undefined);
+  }
+}
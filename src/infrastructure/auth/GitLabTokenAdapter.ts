@@ -0,0 +1,32 @@
+import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
+import { Result, ok, err } from "@/lib/result";
+
+/**
+ * GitLabTokenAdapter
+ *
+ * ISessionProvider implementation for GitLab using the GITLAB_TOKEN
+ * environment variable (personal, group or project access token).
+ *
+ * Unlike EnvTokenAdapter this is not development-only: GitLab has no
+ * OAuth sign-in in this app, so a server-side token is the only option.
+ * The token is validated lazily by the first API call (401 → invalid token).
+ */
+export class GitLabTokenAdapter implements ISessionProvider {
+  /**
+   * Retrieve the GitLab access token from environment.
+   *
+   * @returns Result<string> containing the token, or an error if GITLAB_TOKEN is not set
+   */
+  async getAccessToken(): Promise<Result<string>> {
+    const token = process.env.GITLAB_TOKEN;
+    if (!token) {
+      return err(
+        new Error(
+          "GITLAB_TOKEN environment variable is not set. Create an access token with the read_api scope.",
+        ),
+      );
+    }
+
+    return ok(token);
+  }
+}
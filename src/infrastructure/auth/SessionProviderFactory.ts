@@ -1,16 +1,56 @@
 import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
 import { EnvTokenAdapter } from "./EnvTokenAdapter";
 import { NextAuthAdapter } from "./NextAuthAdapter";
+import { GitLabTokenAdapter } from "./GitLabTokenAdapter";
+import { GitHubAppAdapter } from "./GitHubAppAdapter";
+import { GitHubAppUserAdapter } from "./GitHubAppUserAdapter";
+import { isGitHubAppMode } from "./env.schema";
+import { GitProvider } from "@/domain/value-objects/GitHost";
+import { getEnvTokenHost } from "@/infrastructure/hostConfig";
 import { logger } from "@/lib/utils/logger";
 
+/**
+ * Process-wide GitHub App providers, one per app ID
+ * Installation tokens are cached by the provider, so it outlives requests.
+ */
+const gitHubAppAdapters = new Map<string, GitHubAppAdapter>();
+
+/**
+ * Get the GitHub App provider configured by GITHUB_APP_* variables
+ */
+function getGitHubAppAdapter(appId: string): GitHubAppAdapter {
+  let adapter = gitHubAppAdapters.get(appId);
+  if (!adapter) {
+    const installationId = process.env.GITHUB_APP_INSTALLATION_ID;
+    adapter = new GitHubAppAdapter({
+      appId,
+      // Newlines are commonly escaped in single-line environment values
+      privateKey: (process.env.GITHUB_APP_PRIVATE_KEY ?? "").replace(
+        /\\n/g,
+        "\n",
+      ),
+      installationId: installationId ? Number(installationId) : undefined,
+      host: getEnvTokenHost(),
+    });
+    gitHubAppAdapters.set(appId, adapter);
+  }
+  return adapter;
+}
+
 /**
  * Factory function to create the appropriate session provider based on environment configuration.
  *
  * Selection Logic:
- * 1. If GITHUB_TOKEN is set and NODE_ENV=development → EnvTokenAdapter
- * 2. Otherwise → NextAuthAdapter (OAuth)
+ * 1. If provider is GitLab → GitLabTokenAdapter (GITLAB_TOKEN)
+ * 2. If GITHUB_TOKEN is set and NODE_ENV=development → EnvTokenAdapter
+ * 3. If GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY are set →
+ *    GitHubAppUserAdapter (the shared GitHubAppAdapter's installation
+ *    tokens, for signed-in users and repositories they can read)
+ * 4. Otherwise → NextAuthAdapter (OAuth)
  *
- * @returns ISessionProvider instance (EnvTokenAdapter or NextAuthAdapter)
+ * @param provider Provider of the repository host (default: GitHub)
+ * @returns ISessionProvider instance (GitLabTokenAdapter, EnvTokenAdapter,
+ *   GitHubAppUserAdapter or NextAuthAdapter)
  * @throws Error if GITHUB_TOKEN is set but NODE_ENV is not development
  *
  * @example
@@ -27,7 +67,16 @@ import { logger } from "@/lib/utils/logger";
  * const octokit = new Octokit({ auth: tokenResult.value });
  * ```
  */
-export function createSessionProvider(): ISessionProvider {
+export function createSessionProvider(
+  provider: GitProvider = GitProvider.GITHUB,
+): ISessionProvider {
+  if (provider === GitProvider.GITLAB) {
+    logger.info(
+      "Creating GitLabTokenAdapter (authentication via GITLAB_TOKEN environment variable)",
+    );
+    return new GitLabTokenAdapter();
+  }
+
   const hasGitHubToken = !!process.env.GITHUB_TOKEN;
   const nodeEnv = process.env.NODE_ENV;
 
@@ -48,7 +97,29 @@ export function createSessionProvider(): ISessionProvider {
     return new EnvTokenAdapter();
   }
 
+  // GitHub App mode (shared deployments)
+  const appId = process.env.GITHUB_APP_ID;
+  if (appId && isGitHubAppMode()) {
+    logger.debug("Using GitHubAppAdapter (GitHub App installation tokens)");
+    return new GitHubAppUserAdapter(
+      getGitHubAppAdapter(appId),
+      new NextAuthAdapter(),
+      getEnvTokenHost(),
+    );
+  }
+
   // OAuth mode (default)
   logger.info("Creating NextAuthAdapter (authentication via OAuth)");
   return new NextAuthAdapter();
 }
+
+/**
+ * Create the session provider of the signed-in user
+ *
+ * Same as createSessionProvider(), except in GitHub App mode: installation
+ * tokens cannot list "the user's" repositories, so repository pickers use
+ * the user's OAuth token instead.
+ */
+export function createUserSessionProvider(): ISessionProvider {
+  return isGitHubAppMode() ? new NextAuthAdapter() : createSessionProvider();
+}
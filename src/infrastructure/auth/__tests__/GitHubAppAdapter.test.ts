@@ -0,0 +1,210 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type MockInstance,
+} from "vitest";
+import { createVerify, generateKeyPairSync } from "crypto";
+import { GitHubAppAdapter } from "../GitHubAppAdapter";
+import { GitHost } from "@/domain/value-objects/GitHost";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs1", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+const NOW = Date.parse("2026-10-01T12:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+const INSTALLATIONS = [
+  { id: 11, account: { login: "acme" } },
+  { id: 22, account: { login: "Octo-User" } },
+];
+
+// Helper to create a JSON fetch response
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// Helper to decode a JWT segment
+function decodeSegment(segment: string | undefined): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment ?? "", "base64url").toString());
+}
+
+describe("GitHubAppAdapter", () => {
+  let now: number;
+  let fetchMock: MockInstance<typeof fetch>;
+  let tokenCount: number;
+
+  const createAdapter = (installationId?: number) =>
+    new GitHubAppAdapter(
+      { appId: "123456", privateKey, installationId },
+      () => now,
+    );
+
+  beforeEach(() => {
+    now = NOW;
+    tokenCount = 0;
+    fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async (input, init) => {
+        const url = String(input);
+        if (url.includes("/app/installations?")) {
+          return jsonResponse(INSTALLATIONS);
+        }
+        const match = url.match(/\/app\/installations\/(\d+)\/access_tokens$/);
+        if (match && init?.method === "POST") {
+          tokenCount++;
+          return jsonResponse({
+            token: `ghs_installation${match[1]}_${tokenCount}`,
+            expires_at: new Date(now + HOUR_MS).toISOString(),
+          });
+        }
+        return jsonResponse({ message: "Not Found" }, 404);
+      });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe("getAccessToken", () => {
+    it("should exchange a signed app JWT for the owner's installation token", async () => {
+      const result = await createAdapter().getAccessToken("acme");
+
+      expect(result).toEqual({ ok: true, value: "ghs_installation11_1" });
+      const [url, init] = fetchMock.mock.calls[1] ?? [];
+      expect(url).toBe(
+        "https://api.github.com/app/installations/11/access_tokens",
+      );
+
+      const jwt = String(
+        (init?.headers as Record<string, string>).Authorization,
+      ).replace("Bearer ", "");
+      const [header, payload, signature] = jwt.split(".");
+      expect(decodeSegment(payload)).toEqual({
+        iat: NOW / 1000 - 60,
+        exp: NOW / 1000 - 60 + 9 * 60,
+        iss: "123456",
+      });
+      expect(
+        createVerify("RSA-SHA256")
+          .update(`${header}.${payload}`)
+          .verify(publicKey, signature ?? "", "base64url"),
+      ).toBe(true);
+    });
+
+    it("should match owners case-insensitively", async () => {
+      const result = await createAdapter().getAccessToken("octo-user");
+
+      expect(result).toEqual({ ok: true, value: "ghs_installation22_1" });
+    });
+
+    it("should reuse a token until shortly before it expires", async () => {
+      const adapter = createAdapter();
+
+      await adapter.getAccessToken("acme");
+      now += 50 * 60 * 1000;
+      const cached = await adapter.getAccessToken("acme");
+      now += 6 * 60 * 1000;
+      const renewed = await adapter.getAccessToken("acme");
+
+      expect(cached).toEqual({ ok: true, value: "ghs_installation11_1" });
+      expect(renewed).toEqual({ ok: true, value: "ghs_installation11_2" });
+    });
+
+    it("should request one token for concurrent callers", async () => {
+      const adapter = createAdapter();
+
+      await Promise.all([
+        adapter.getAccessToken("acme"),
+        adapter.getAccessToken("acme"),
+      ]);
+
+      expect(tokenCount).toBe(1);
+    });
+
+    it("should return an error when the app is not installed on the owner", async () => {
+      const result = await createAdapter().getAccessToken("unknown-org");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("not installed on unknown-org");
+      }
+    });
+
+    it("should use the configured installation without an owner", async () => {
+      const result = await createAdapter(22).getAccessToken();
+
+      expect(result).toEqual({ ok: true, value: "ghs_installation22_1" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should require a default installation when there are several", async () => {
+      const result = await createAdapter().getAccessToken();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("GITHUB_APP_INSTALLATION_ID");
+      }
+    });
+
+    it("should return an error when GitHub rejects the app", async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({ message: "A JSON web token could not be decoded" }, 401),
+      );
+
+      const result = await createAdapter(11).getAccessToken();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain(
+          "401 A JSON web token could not be decoded",
+        );
+      }
+    });
+
+    it("should call the enterprise REST API for an app on GHES", async () => {
+      const host = GitHost.create("ghe.example.com");
+      if (!host.ok) throw host.error;
+      const adapter = new GitHubAppAdapter(
+        { appId: "7", privateKey, installationId: 11, host: host.value },
+        () => now,
+      );
+
+      await adapter.getAccessToken();
+
+      expect(fetchMock.mock.calls[0]?.[0]).toBe(
+        "https://ghe.example.com/api/v3/app/installations/11/access_tokens",
+      );
+    });
+  });
+
+  describe("getCredentialId", () => {
+    it("should stay the same when the installation token is renewed", async () => {
+      const adapter = createAdapter();
+
+      const before = await adapter.getCredentialId("acme");
+      now += 2 * HOUR_MS;
+      await adapter.getAccessToken("acme");
+      const after = await adapter.getCredentialId("acme");
+
+      expect(before).toEqual({
+        ok: true,
+        value: "github-app:github.com:123456:11",
+      });
+      expect(after).toEqual(before);
+      expect(await adapter.getCredentialId()).toEqual({
+        ok: true,
+        value: "github-app:github.com:123456",
+      });
+    });
+  });
+});
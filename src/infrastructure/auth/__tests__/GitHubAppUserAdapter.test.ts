@@ -0,0 +1,125 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type MockInstance,
+} from "vitest";
+import { GitHubAppUserAdapter } from "../GitHubAppUserAdapter";
+import { MockSessionProvider } from "../__mocks__/MockSessionProvider";
+import { GitHost } from "@/domain/value-objects/GitHost";
+
+const NOW = Date.parse("2026-10-01T12:00:00Z");
+
+describe("GitHubAppUserAdapter", () => {
+  let fetchMock: MockInstance<typeof fetch>;
+  let status: number;
+
+  const createAdapter = (userToken?: string, now = NOW) =>
+    new GitHubAppUserAdapter(
+      new MockSessionProvider("ghs_installation"),
+      new MockSessionProvider(userToken),
+      GitHost.dotcom(),
+      () => now,
+    );
+
+  beforeEach(() => {
+    status = 200;
+    fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(
+        async () => new Response("{}", { status, statusText: "Status" }),
+      );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe("getAccessToken", () => {
+    it("should require a signed-in user", async () => {
+      const result = await createAdapter().getAccessToken("acme", "api");
+
+      expect(result.ok).toBe(false);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should use the user's token without a repository", async () => {
+      const result = await createAdapter("gho_owner").getAccessToken("acme");
+
+      expect(result).toEqual({ ok: true, value: "gho_owner" });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should use the installation token for repositories the user can read", async () => {
+      const adapter = createAdapter("gho_reader");
+
+      const result = await adapter.getAccessToken("acme", "api");
+      await adapter.getAccessToken("acme", "api");
+
+      expect(result).toEqual({ ok: true, value: "ghs_installation" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0] ?? [];
+      expect(String(url)).toBe("https://api.github.com/repos/acme/api");
+      expect(new Headers(init?.headers).get("authorization")).toBe(
+        "token gho_reader",
+      );
+    });
+
+    it("should check access again after the TTL", async () => {
+      await createAdapter("gho_expiring").getAccessToken("acme", "api");
+      await createAdapter("gho_expiring", NOW + 6 * 60_000).getAccessToken(
+        "acme",
+        "api",
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should refuse repositories the user cannot read", async () => {
+      status = 404;
+
+      const result = await createAdapter("gho_outsider").getAccessToken(
+        "acme",
+        "private",
+      );
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("access denied");
+      }
+    });
+
+    it("should not cache checks that failed", async () => {
+      status = 502;
+      const adapter = createAdapter("gho_outage");
+
+      const result = await adapter.getAccessToken("acme", "api");
+      status = 200;
+      const retried = await adapter.getAccessToken("acme", "api");
+
+      expect(result.ok).toBe(false);
+      expect(retried).toEqual({ ok: true, value: "ghs_installation" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getCredentialId", () => {
+    it("should partition by user without a repository", async () => {
+      const result = await createAdapter("gho_partition").getCredentialId();
+
+      expect(result).toEqual({ ok: true, value: "gho_partition" });
+    });
+
+    it("should use the installation credentials for a readable repository", async () => {
+      const result = await createAdapter("gho_partition").getCredentialId(
+        "acme",
+        "api",
+      );
+
+      expect(result).toEqual({ ok: true, value: "ghs_installation" });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type MockInstance,
+} from "vitest";
+import type { JWT } from "next-auth/jwt";
+import {
+  SessionError,
+  needsRefresh,
+  refreshAccessToken,
+  type OAuthClientCredentials,
+} from "../tokenRefresh";
+
+const NOW = Date.parse("2026-10-01T12:00:00Z");
+const NOW_SECONDS = NOW / 1000;
+
+const CLIENT: OAuthClientCredentials = {
+  tokenUrl: "https://github.com/login/oauth/access_token",
+  clientId: "Iv1.client",
+  clientSecret: "secret",
+};
+
+// Helper to create a JSON fetch response
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// Helper to create a JWT whose access token expires in the given seconds
+function createToken(refreshToken: string, expiresIn = 60): JWT {
+  return {
+    sub: "123",
+    accessToken: "ghu_expiring",
+    refreshToken,
+    accessTokenExpiresAt: NOW_SECONDS + expiresIn,
+    githubHost: "github.com",
+    exp: NOW_SECONDS + 86400,
+    iat: NOW_SECONDS - 3600,
+  };
+}
+
+describe("tokenRefresh", () => {
+  let fetchMock: MockInstance<typeof fetch>;
+
+  beforeEach(() => {
+    fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async () =>
+      jsonResponse({
+        access_token: `ghu_refreshed${fetchMock.mock.calls.length}`,
+        expires_in: 28800,
+        refresh_token: `ghr_rotated${fetchMock.mock.calls.length}`,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe("needsRefresh", () => {
+    it("should refresh only shortly before expiry", () => {
+      expect(needsRefresh(createToken("ghr_a", 60 * 60), NOW)).toBe(false);
+      expect(needsRefresh(createToken("ghr_a", 4 * 60), NOW)).toBe(true);
+      expect(needsRefresh(createToken("ghr_a", -60), NOW)).toBe(true);
+    });
+
+    it("should not refresh tokens without expiry or after a failed refresh", () => {
+      const token = createToken("ghr_a", -60);
+
+      expect(
+        needsRefresh({ ...token, accessTokenExpiresAt: undefined }, NOW),
+      ).toBe(false);
+      expect(
+        needsRefresh(
+          { ...token, error: SessionError.REFRESH_ACCESS_TOKEN_ERROR },
+          NOW,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("refreshAccessToken", () => {
+    it("should redeem the refresh token and store the rotated tokens", async () => {
+      const result = await refreshAccessToken(
+        createToken("ghr_redeem"),
+        CLIENT,
+        NOW,
+      );
+
+      expect(result).toMatchObject({
+        accessToken: "ghu_refreshed1",
+        refreshToken: "ghr_rotated1",
+        accessTokenExpiresAt: NOW_SECONDS + 28800,
+        githubHost: "github.com",
+        error: undefined,
+      });
+      const [url, init] = fetchMock.mock.calls[0] ?? [];
+      expect(url).toBe(CLIENT.tokenUrl);
+      expect(Object.fromEntries(init?.body as URLSearchParams)).toEqual({
+        grant_type: "refresh_token",
+        refresh_token: "ghr_redeem",
+        client_id: "Iv1.client",
+        client_secret: "secret",
+      });
+    });
+
+    it("should redeem a refresh token once for concurrent requests", async () => {
+      const results = await Promise.all([
+        refreshAccessToken(createToken("ghr_concurrent"), CLIENT, NOW),
+        refreshAccessToken(createToken("ghr_concurrent"), CLIENT, NOW),
+      ]);
+      // A request still carrying the old cookie shortly afterwards
+      const late = await refreshAccessToken(
+        createToken("ghr_concurrent"),
+        CLIENT,
+        NOW + 5000,
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(results[0]?.accessToken).toBe("ghu_refreshed1");
+      expect(results[1]?.accessToken).toBe("ghu_refreshed1");
+      expect(late.accessToken).toBe("ghu_refreshed1");
+    });
+
+    it("should set a session error when GitHub rejects the refresh token", async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          error: "bad_refresh_token",
+          error_description:
+            "The refresh token passed is incorrect or expired.",
+        }),
+      );
+      const token = createToken("ghr_expired");
+
+      const result = await refreshAccessToken(token, CLIENT, NOW);
+
+      expect(result).toEqual({
+        ...token,
+        error: SessionError.REFRESH_ACCESS_TOKEN_ERROR,
+      });
+    });
+
+    it("should set a session error without a refresh token or OAuth client", async () => {
+      const token = createToken("ghr_unused");
+
+      const withoutRefreshToken = await refreshAccessToken(
+        { ...token, refreshToken: undefined },
+        CLIENT,
+        NOW,
+      );
+      const withoutClient = await refreshAccessToken(token, undefined, NOW);
+
+      expect(withoutRefreshToken.error).toBe(
+        SessionError.REFRESH_ACCESS_TOKEN_ERROR,
+      );
+      expect(withoutClient.error).toBe(SessionError.REFRESH_ACCESS_TOKEN_ERROR);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
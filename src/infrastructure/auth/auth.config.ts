@@ -1,37 +1,92 @@
 import NextAuth from "next-auth";
 import GitHub from "next-auth/providers/github";
+import type { Provider } from "next-auth/providers";
+import { GITHUB_DOTCOM_HOST, GitHost } from "@/domain/value-objects/GitHost";
+import {
+  GITHUB_ENTERPRISE_PROVIDER_ID,
+  getEnterpriseHost,
+} from "@/infrastructure/hostConfig";
+import { GITHUB_SCOPE } from "./oauthScopes";
+import {
+  OAuthClientCredentials,
+  needsRefresh,
+  refreshAccessToken,
+} from "./tokenRefresh";
+
+const enterpriseHost = getEnterpriseHost();
+
+const providers: Provider[] = [
+  GitHub({
+    clientId: process.env.AUTH_GITHUB_ID,
+    clientSecret: process.env.AUTH_GITHUB_SECRET,
+    authorization: { params: { scope: GITHUB_SCOPE } },
+  }),
+];
+
+// GitHub Enterprise Server uses its own OAuth app and endpoints
+if (enterpriseHost && process.env.AUTH_GITHUB_ENTERPRISE_ID) {
+  providers.push(
+    GitHub({
+      id: GITHUB_ENTERPRISE_PROVIDER_ID,
+      name: "GitHub Enterprise",
+      clientId: process.env.AUTH_GITHUB_ENTERPRISE_ID,
+      clientSecret: process.env.AUTH_GITHUB_ENTERPRISE_SECRET,
+      enterprise: { baseUrl: enterpriseHost.webUrl },
+      authorization: { params: { scope: GITHUB_SCOPE } },
+    }),
+  );
+}
+
+/**
+ * OAuth app that issued the tokens for a host, used to refresh them
+ */
+function getOAuthClient(
+  githubHost: string,
+): OAuthClientCredentials | undefined {
+  const client =
+    enterpriseHost && githubHost === enterpriseHost.hostname
+      ? {
+          webUrl: enterpriseHost.webUrl,
+          clientId: process.env.AUTH_GITHUB_ENTERPRISE_ID,
+          clientSecret: process.env.AUTH_GITHUB_ENTERPRISE_SECRET,
+        }
+      : {
+          webUrl: GitHost.dotcom().webUrl,
+          clientId: process.env.AUTH_GITHUB_ID,
+          clientSecret: process.env.AUTH_GITHUB_SECRET,
+        };
+  if (!client.clientId || !client.clientSecret) {
+    return undefined;
+  }
+
+  return {
+    tokenUrl: `${client.webUrl}/login/oauth/access_token`,
+    clientId: client.clientId,
+    clientSecret: client.clientSecret,
+  };
+}
 
 /**
  * NextAuth.js v5 Configuration
  *
  * Features:
  * - GitHub OAuth provider with custom scopes (read:user, user:email, repo)
+ * - Optional GitHub Enterprise Server provider (GITHUB_ENTERPRISE_HOST)
  * - JWT-based session strategy (no database required)
  * - 7-day session expiry with 24-hour activity-based extension
  * - Access token stored in encrypted JWT
+ * - Expiring user tokens (GitHub Apps) refreshed shortly before expiry
  * - Custom error pages for authentication failures
  *
  * Environment Variables Required:
  * - AUTH_GITHUB_ID: GitHub OAuth app client ID
  * - AUTH_GITHUB_SECRET: GitHub OAuth app client secret
  * - AUTH_SECRET: Secret for JWT encryption (min 32 characters)
+ * - GITHUB_ENTERPRISE_HOST, AUTH_GITHUB_ENTERPRISE_ID, AUTH_GITHUB_ENTERPRISE_SECRET:
+ *   GitHub Enterprise Server OAuth app (optional)
  */
 export const { auth, handlers, signIn, signOut } = NextAuth({
-  providers: [
-    GitHub({
-      clientId: process.env.AUTH_GITHUB_ID,
-      clientSecret: process.env.AUTH_GITHUB_SECRET,
-      authorization: {
-        params: {
-          // Request GitHub OAuth scopes for repository analysis
-          // read:user - Read user profile information
-          // user:email - Access user email addresses
-          // repo - Full control of private repositories (required for private repo access)
-          scope: "read:user user:email repo",
-        },
-      },
-    }),
-  ],
+  providers,
   session: {
     strategy: "jwt", // JWT-based sessions (no database required)
     maxAge: 7 * 24 * 60 * 60, // 7 days in seconds
@@ -45,7 +100,9 @@ export const { auth, handlers, signIn, signOut } = NextAuth({
     /**
      * JWT Callback
      * Called when a JWT is created or updated.
-     * Stores the GitHub OAuth access token in the JWT.
+     * Stores the GitHub OAuth access token and the host that issued it in the JWT.
+     * Tokens issued by GitHub Apps expire after 8 hours; they are stored with
+     * their refresh token and expiry, and refreshed shortly before expiry.
      */
     async jwt({ token, account }) {
       // On initial sign-in, account will contain the OAuth access token
@@ -53,9 +110,24 @@ export const { auth, handlers, signIn, signOut } = NextAuth({
         return {
           ...token,
           accessToken: account.access_token,
+          refreshToken: account.refresh_token,
+          accessTokenExpiresAt: account.expires_at,
+          githubHost:
+            account.provider === GITHUB_ENTERPRISE_PROVIDER_ID && enterpriseHost
+              ? enterpriseHost.hostname
+              : GITHUB_DOTCOM_HOST,
+          error: undefined,
         };
       }
 
+      // Refresh an expiring access token; failures set token.error
+      if (needsRefresh(token)) {
+        return refreshAccessToken(
+          token,
+          getOAuthClient(token.githubHost ?? GITHUB_DOTCOM_HOST),
+        );
+      }
+
       // For subsequent requests, return the existing token
       return token;
     },
@@ -63,13 +135,16 @@ export const { auth, handlers, signIn, signOut } = NextAuth({
     /**
      * Session Callback
      * Called when a session is checked.
-     * Adds the access token from JWT to the session object.
+     * Adds the user id, the access token and its host from JWT to the
+     * session object.
      */
     async session({ session, token }) {
       return {
         ...session,
+        user: { ...session.user, id: token.sub },
         accessToken: token.accessToken as string,
-        error: token.error as string | undefined,
+        githubHost: token.githubHost ?? GITHUB_DOTCOM_HOST,
+        error: token.error,
       };
     },
   },
@@ -0,0 +1,22 @@
+import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
+import { Result } from "@/lib/result";
+
+/**
+ * Identify the credentials of a session provider
+ *
+ * Caches, sync state and request schedulers are partitioned by this value
+ * (always hashed before use). It is the provider's credential id when it
+ * has one (rotating GitHub App tokens), otherwise the access token.
+ *
+ * @param owner Repository owner, for providers with per-owner credentials
+ * @param repo Repository, for providers checking the user's access to it
+ */
+export async function getCredentialId(
+  sessionProvider: ISessionProvider,
+  owner?: string,
+  repo?: string,
+): Promise<Result<string>> {
+  return sessionProvider.getCredentialId
+    ? sessionProvider.getCredentialId(owner, repo)
+    : sessionProvider.getAccessToken(owner, repo);
+}
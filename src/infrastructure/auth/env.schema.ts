@@ -1,17 +1,30 @@
 import { z } from "zod";
+import { GitHost, GitProvider } from "@/domain/value-objects/GitHost";
 
 /**
  * Environment Variable Validation Schema
  *
- * Supports two authentication modes:
- * 1. OAuth Mode (default): Requires AUTH_GITHUB_ID, AUTH_GITHUB_SECRET, AUTH_SECRET
+ * Supports three authentication modes:
+ * 1. OAuth Mode (default): Requires AUTH_SECRET and OAuth credentials for
+ *    github.com (AUTH_GITHUB_ID, AUTH_GITHUB_SECRET) and/or GitHub Enterprise
+ *    Server (GITHUB_ENTERPRISE_HOST, AUTH_GITHUB_ENTERPRISE_ID, AUTH_GITHUB_ENTERPRISE_SECRET)
  * 2. Environment Token Mode (dev-only): Requires GITHUB_TOKEN
+ * 3. GitHub App Mode: OAuth sign-in as in 1, but API requests use the
+ *    installation tokens of a GitHub App (GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY)
  *
  * Environment Variables:
  * - GITHUB_TOKEN: (Optional, dev-only) GitHub Personal Access Token
  * - AUTH_GITHUB_ID: GitHub OAuth app client ID (required if GITHUB_TOKEN not set)
  * - AUTH_GITHUB_SECRET: GitHub OAuth app client secret (required if GITHUB_TOKEN not set)
  * - AUTH_SECRET: Secret for JWT encryption (required if GITHUB_TOKEN not set)
+ * - GITHUB_ENTERPRISE_HOST: (Optional) GitHub Enterprise Server hostname (e.g. ghe.example.com)
+ * - AUTH_GITHUB_ENTERPRISE_ID: GHES OAuth app client ID (required with GITHUB_ENTERPRISE_HOST in OAuth mode)
+ * - AUTH_GITHUB_ENTERPRISE_SECRET: GHES OAuth app client secret
+ * - GITHUB_APP_ID: (Optional) GitHub App ID; API requests use the app's installation tokens
+ * - GITHUB_APP_PRIVATE_KEY: PEM private key of the app (required with GITHUB_APP_ID)
+ * - GITHUB_APP_INSTALLATION_ID: (Optional) Installation used for requests without a repository owner
+ * - GITLAB_HOST: (Optional) GitLab hostname (e.g. gitlab.example.com or gitlab.com)
+ * - GITLAB_TOKEN: GitLab access token with read_api scope (required with GITLAB_HOST)
  * - NEXTAUTH_URL: (Optional) Base URL for OAuth callbacks
  */
 const baseAuthEnvSchema = z.object({
@@ -34,6 +47,63 @@ const baseAuthEnvSchema = z.object({
     .optional()
     .describe("GitHub OAuth application client secret"),
 
+  GITHUB_ENTERPRISE_HOST: z
+    .string()
+    .refine(
+      (value) => GitHost.create(value).ok,
+      "Invalid GITHUB_ENTERPRISE_HOST. Expected a hostname such as ghe.example.com",
+    )
+    .optional()
+    .describe("GitHub Enterprise Server hostname"),
+
+  AUTH_GITHUB_ENTERPRISE_ID: z
+    .string()
+    .optional()
+    .describe("GitHub Enterprise Server OAuth application client ID"),
+
+  AUTH_GITHUB_ENTERPRISE_SECRET: z
+    .string()
+    .optional()
+    .describe("GitHub Enterprise Server OAuth application client secret"),
+
+  GITHUB_APP_ID: z
+    .string()
+    .regex(/^\d+$/, "Invalid GITHUB_APP_ID. Expected the numeric app ID")
+    .optional()
+    .describe("GitHub App ID"),
+
+  GITHUB_APP_PRIVATE_KEY: z
+    .string()
+    .refine(
+      (value) => value.includes("PRIVATE KEY"),
+      "Invalid GITHUB_APP_PRIVATE_KEY. Expected a PEM private key",
+    )
+    .optional()
+    .describe("GitHub App private key (PEM, newlines may be escaped as \\n)"),
+
+  GITHUB_APP_INSTALLATION_ID: z
+    .string()
+    .regex(
+      /^\d+$/,
+      "Invalid GITHUB_APP_INSTALLATION_ID. Expected the numeric installation ID",
+    )
+    .optional()
+    .describe("Default GitHub App installation ID"),
+
+  GITLAB_HOST: z
+    .string()
+    .refine(
+      (value) => GitHost.create(value, GitProvider.GITLAB).ok,
+      "Invalid GITLAB_HOST. Expected a hostname such as gitlab.example.com",
+    )
+    .optional()
+    .describe("GitLab hostname"),
+
+  GITLAB_TOKEN: z
+    .string()
+    .optional()
+    .describe("GitLab access token with read_api scope"),
+
   AUTH_SECRET: z
     .string()
     .optional()
@@ -70,9 +140,82 @@ export const authEnvSchema = baseAuthEnvSchema.superRefine((data, ctx) => {
     });
   }
 
+  const hasEnterpriseId = !!data.AUTH_GITHUB_ENTERPRISE_ID;
+  const hasEnterpriseSecret = !!data.AUTH_GITHUB_ENTERPRISE_SECRET;
+
+  // Enterprise OAuth credentials only make sense together with a host
+  if (
+    (hasEnterpriseId || hasEnterpriseSecret) &&
+    !data.GITHUB_ENTERPRISE_HOST
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      message:
+        "GITHUB_ENTERPRISE_HOST is required when GitHub Enterprise OAuth credentials are set.",
+      path: ["GITHUB_ENTERPRISE_HOST"],
+    });
+  }
+
+  if (hasEnterpriseId !== hasEnterpriseSecret) {
+    ctx.addIssue({
+      code: "custom",
+      message:
+        "AUTH_GITHUB_ENTERPRISE_ID and AUTH_GITHUB_ENTERPRISE_SECRET must be set together.",
+      path: [
+        hasEnterpriseId
+          ? "AUTH_GITHUB_ENTERPRISE_SECRET"
+          : "AUTH_GITHUB_ENTERPRISE_ID",
+      ],
+    });
+  }
+
+  // GitHub App credentials are configured together and replace GITHUB_TOKEN
+  const hasAppId = !!data.GITHUB_APP_ID;
+  if (hasAppId !== !!data.GITHUB_APP_PRIVATE_KEY) {
+    ctx.addIssue({
+      code: "custom",
+      message: "GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY must be set together.",
+      path: [hasAppId ? "GITHUB_APP_PRIVATE_KEY" : "GITHUB_APP_ID"],
+    });
+  }
+
+  if (data.GITHUB_APP_INSTALLATION_ID && !hasAppId) {
+    ctx.addIssue({
+      code: "custom",
+      message:
+        "GITHUB_APP_ID is required when GITHUB_APP_INSTALLATION_ID is set.",
+      path: ["GITHUB_APP_ID"],
+    });
+  }
+
+  if (hasAppId && hasGitHubToken) {
+    ctx.addIssue({
+      code: "custom",
+      message:
+        "GITHUB_TOKEN and GITHUB_APP_ID cannot be used together. Remove GITHUB_TOKEN to authenticate as the GitHub App.",
+      path: ["GITHUB_TOKEN"],
+    });
+  }
+
+  // GitLab access is token-based; host and token are configured together
+  if (!!data.GITLAB_HOST !== !!data.GITLAB_TOKEN) {
+    ctx.addIssue({
+      code: "custom",
+      message: "GITLAB_HOST and GITLAB_TOKEN must be set together.",
+      path: [data.GITLAB_HOST ? "GITLAB_TOKEN" : "GITLAB_HOST"],
+    });
+  }
+
+  const hasEnterpriseOAuth =
+    !!data.GITHUB_ENTERPRISE_HOST && hasEnterpriseId && hasEnterpriseSecret;
+
   // If GITHUB_TOKEN is NOT set, require OAuth credentials
+  // (github.com credentials are optional when GitHub Enterprise OAuth is configured)
   if (!hasGitHubToken) {
-    if (!data.AUTH_GITHUB_ID || data.AUTH_GITHUB_ID.length === 0) {
+    if (
+      !hasEnterpriseOAuth &&
+      (!data.AUTH_GITHUB_ID || data.AUTH_GITHUB_ID.length === 0)
+    ) {
       ctx.addIssue({
         code: "custom",
         message:
@@ -81,7 +224,10 @@ export const authEnvSchema = baseAuthEnvSchema.superRefine((data, ctx) => {
       });
     }
 
-    if (!data.AUTH_GITHUB_SECRET || data.AUTH_GITHUB_SECRET.length === 0) {
+    if (
+      !hasEnterpriseOAuth &&
+      (!data.AUTH_GITHUB_SECRET || data.AUTH_GITHUB_SECRET.length === 0)
+    ) {
       ctx.addIssue({
         code: "custom",
         message:
@@ -131,6 +277,14 @@ export function validateAuthEnv(): AuthEnv {
     GITHUB_TOKEN: process.env.GITHUB_TOKEN,
     AUTH_GITHUB_ID: process.env.AUTH_GITHUB_ID,
     AUTH_GITHUB_SECRET: process.env.AUTH_GITHUB_SECRET,
+    GITHUB_ENTERPRISE_HOST: process.env.GITHUB_ENTERPRISE_HOST,
+    AUTH_GITHUB_ENTERPRISE_ID: process.env.AUTH_GITHUB_ENTERPRISE_ID,
+    AUTH_GITHUB_ENTERPRISE_SECRET: process.env.AUTH_GITHUB_ENTERPRISE_SECRET,
+    GITHUB_APP_ID: process.env.GITHUB_APP_ID,
+    GITHUB_APP_PRIVATE_KEY: process.env.GITHUB_APP_PRIVATE_KEY,
+    GITHUB_APP_INSTALLATION_ID: process.env.GITHUB_APP_INSTALLATION_ID,
+    GITLAB_HOST: process.env.GITLAB_HOST,
+    GITLAB_TOKEN: process.env.GITLAB_TOKEN,
     AUTH_SECRET: process.env.AUTH_SECRET,
     NEXTAUTH_URL: process.env.NEXTAUTH_URL,
     NODE_ENV: process.env.NODE_ENV,
@@ -165,6 +319,14 @@ export function safeValidateAuthEnv():
     GITHUB_TOKEN: process.env.GITHUB_TOKEN,
     AUTH_GITHUB_ID: process.env.AUTH_GITHUB_ID,
     AUTH_GITHUB_SECRET: process.env.AUTH_GITHUB_SECRET,
+    GITHUB_ENTERPRISE_HOST: process.env.GITHUB_ENTERPRISE_HOST,
+    AUTH_GITHUB_ENTERPRISE_ID: process.env.AUTH_GITHUB_ENTERPRISE_ID,
+    AUTH_GITHUB_ENTERPRISE_SECRET: process.env.AUTH_GITHUB_ENTERPRISE_SECRET,
+    GITHUB_APP_ID: process.env.GITHUB_APP_ID,
+    GITHUB_APP_PRIVATE_KEY: process.env.GITHUB_APP_PRIVATE_KEY,
+    GITHUB_APP_INSTALLATION_ID: process.env.GITHUB_APP_INSTALLATION_ID,
+    GITLAB_HOST: process.env.GITLAB_HOST,
+    GITLAB_TOKEN: process.env.GITLAB_TOKEN,
     AUTH_SECRET: process.env.AUTH_SECRET,
     NEXTAUTH_URL: process.env.NEXTAUTH_URL,
     NODE_ENV: process.env.NODE_ENV,
@@ -198,3 +360,15 @@ export function isEnvTokenMode(): boolean {
       process.env.NODE_ENV === undefined)
   );
 }
+
+/**
+ * Check if GitHub App mode is active.
+ *
+ * Returns true if the GitHub App credentials are set. Users still sign in
+ * with OAuth; API requests use the app's installation tokens.
+ *
+ * @returns True if API requests authenticate as the GitHub App
+ */
+export function isGitHubAppMode(): boolean {
+  return !!process.env.GITHUB_APP_ID && !!process.env.GITHUB_APP_PRIVATE_KEY;
+}
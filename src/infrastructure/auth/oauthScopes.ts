@@ -0,0 +1,14 @@
+/**
+ * GitHub OAuth scopes requested at sign-in, for repository analysis
+ * - read:user: Read user profile information
+ * - user:email: Access user email addresses
+ * - repo: Full control of private repositories (required for private repo access)
+ */
+export const GITHUB_SCOPE = "read:user user:email repo";
+
+/**
+ * GitHub OAuth scope for reading organization teams and their members
+ * Only requested when a user imports teams, so signing in does not ask
+ * everyone for access to their organizations.
+ */
+export const GITHUB_ORG_SCOPE = "read:org";
@@ -0,0 +1,19 @@
+import { auth } from "./auth.config";
+import { isEnvTokenMode } from "./env.schema";
+
+/**
+ * Check that the current request comes from a signed-in user
+ *
+ * Route handlers under /api are not covered by the middleware, and server
+ * actions can be called directly, so both check this before using shared
+ * credentials or storage. Environment token mode (development only) has
+ * no sessions and always passes.
+ */
+export async function isAuthenticated(): Promise<boolean> {
+  if (isEnvTokenMode()) {
+    return true;
+  }
+
+  const session = await auth();
+  return !!session?.accessToken && !session.error;
+}
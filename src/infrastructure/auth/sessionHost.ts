@@ -0,0 +1,23 @@
+import { auth } from "./auth.config";
+import { GitHost, GitProvider } from "@/domain/value-objects/GitHost";
+import { findAllowedHost, getEnvTokenHost } from "@/infrastructure/hostConfig";
+
+/**
+ * Get the GitHub host that issued the current access token
+ *
+ * - Environment token mode: GITHUB_ENTERPRISE_HOST when configured, else github.com
+ * - OAuth mode: host recorded in the session at sign-in
+ *
+ * Falls back to github.com when the session host is no longer allowed
+ * (GitLab hosts never issue session tokens).
+ */
+export async function getSessionHost(): Promise<GitHost> {
+  if (process.env.GITHUB_TOKEN) {
+    return getEnvTokenHost();
+  }
+
+  const session = await auth();
+  const hostname = session?.githubHost;
+  const host = hostname ? findAllowedHost(hostname) : null;
+  return host?.provider === GitProvider.GITHUB ? host : GitHost.dotcom();
+}
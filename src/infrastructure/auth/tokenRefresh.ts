@@ -0,0 +1,183 @@
+import type { JWT } from "next-auth/jwt";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+/**
+ * Session error codes
+ * Set on the JWT and copied to the session; the middleware redirects to
+ * auth/error with the code, which selects the message shown to the user.
+ */
+export const SessionError = {
+  REFRESH_ACCESS_TOKEN_ERROR: "RefreshAccessTokenError",
+} as const;
+
+export type SessionError = (typeof SessionError)[keyof typeof SessionError];
+
+/**
+ * OAuth app credentials used to refresh user tokens
+ */
+export interface OAuthClientCredentials {
+  tokenUrl: string; // e.g. https://github.com/login/oauth/access_token
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Tokens returned by a successful refresh
+ */
+interface RefreshedTokens {
+  accessToken: string;
+  accessTokenExpiresAt?: number; // Unix seconds
+  refreshToken: string;
+}
+
+/**
+ * GitHub response for POST /login/oauth/access_token
+ * Errors are reported with status 200 and an `error` field.
+ */
+interface RefreshTokenResponse {
+  access_token?: string;
+  expires_in?: number; // Seconds
+  refresh_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Access tokens are refreshed this long before they expire, so a token
+ * read from the session never runs out during a request
+ */
+const TOKEN_REFRESH_MARGIN_SECONDS = 5 * 60;
+
+/**
+ * How long a finished refresh is reused for its refresh token. Requests
+ * that started with the previous session cookie still present the old
+ * (already redeemed) refresh token and receive the same new tokens.
+ */
+const REFRESH_REUSE_WINDOW_MS = 60_000;
+
+/**
+ * Refreshes by refresh token (process-wide)
+ * GitHub refresh tokens are single-use, so concurrent requests must not
+ * redeem the same one twice.
+ */
+const refreshes = new Map<
+  string,
+  { promise: Promise<RefreshedTokens>; startedAt: number }
+>();
+
+/**
+ * Check whether the access token in a JWT expires within the refresh margin
+ * Tokens without an expiry (OAuth apps without expiring tokens) never do.
+ *
+ * @param now Current time in milliseconds
+ */
+export function needsRefresh(token: JWT, now: number = Date.now()): boolean {
+  if (token.accessTokenExpiresAt === undefined || token.error) {
+    return false;
+  }
+  return token.accessTokenExpiresAt - now / 1000 < TOKEN_REFRESH_MARGIN_SECONDS;
+}
+
+/**
+ * Refresh the access token stored in a JWT
+ *
+ * Concurrent calls with the same refresh token share one request.
+ *
+ * @param token JWT with the expiring access token and its refresh token
+ * @param client OAuth app that issued the token
+ * @param now Current time in milliseconds
+ * @returns JWT with the new tokens, or the given JWT with
+ *   SessionError.REFRESH_ACCESS_TOKEN_ERROR when the refresh failed
+ */
+export async function refreshAccessToken(
+  token: JWT,
+  client: OAuthClientCredentials | undefined,
+  now: number = Date.now(),
+): Promise<JWT> {
+  const { refreshToken } = token;
+  if (!refreshToken || !client) {
+    logger.warn("Access token expired and cannot be refreshed", {
+      hasRefreshToken: !!refreshToken,
+      hasClient: !!client,
+    });
+    return { ...token, error: SessionError.REFRESH_ACCESS_TOKEN_ERROR };
+  }
+
+  for (const [key, entry] of refreshes) {
+    if (now - entry.startedAt > REFRESH_REUSE_WINDOW_MS) {
+      refreshes.delete(key);
+    }
+  }
+
+  let entry = refreshes.get(refreshToken);
+  if (!entry) {
+    entry = {
+      promise: requestTokens(refreshToken, client, now),
+      startedAt: now,
+    };
+    refreshes.set(refreshToken, entry);
+  }
+
+  try {
+    const refreshed = await entry.promise;
+    return {
+      ...token,
+      accessToken: refreshed.accessToken,
+      accessTokenExpiresAt: refreshed.accessTokenExpiresAt,
+      refreshToken: refreshed.refreshToken,
+      error: undefined,
+    };
+  } catch (error: unknown) {
+    refreshes.delete(refreshToken);
+    logger.error("Failed to refresh access token", {
+      error: getErrorMessage(error),
+    });
+    return { ...token, error: SessionError.REFRESH_ACCESS_TOKEN_ERROR };
+  }
+}
+
+/**
+ * Redeem a refresh token at the OAuth token endpoint
+ * @throws Error with GitHub's error code on failure
+ */
+async function requestTokens(
+  refreshToken: string,
+  client: OAuthClientCredentials,
+  now: number,
+): Promise<RefreshedTokens> {
+  const response = await fetch(client.tokenUrl, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: client.clientId,
+      client_secret: client.clientSecret,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  const body = (await response.json()) as RefreshTokenResponse;
+  if (body.error || !body.access_token) {
+    throw new Error(
+      body.error_description ?? body.error ?? "No access token in response",
+    );
+  }
+
+  logger.info("Access token refreshed", { expiresIn: body.expires_in });
+  return {
+    accessToken: body.access_token,
+    accessTokenExpiresAt:
+      body.expires_in !== undefined
+        ? Math.floor(now / 1000) + body.expires_in
+        : undefined,
+    refreshToken: body.refresh_token ?? refreshToken,
+  };
+}
@@ -0,0 +1,268 @@
+import { execFile, spawn } from "child_process";
+import { existsSync } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import { promisify } from "util";
+import { GitCommit, Tag } from "@/domain/interfaces/IGitHubRepository";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import {
+  LOG_FORMAT,
+  ParsedCommit,
+  TAG_FORMAT,
+  isMergeCommit,
+  parseLogLine,
+  parseTags,
+} from "./mappers/cliMappers";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Maximum size of git output read into memory (256 MB)
+ * The commit log is streamed instead (see streamLog).
+ */
+const MAX_OUTPUT_BYTES = 256 * 1024 * 1024;
+
+/**
+ * LocalGitAdapter configuration
+ */
+export interface LocalGitAdapterOptions {
+  /** Directory containing the clones (LOCAL_GIT_DIR) */
+  baseDir: string;
+
+  /** Host the clones were made from */
+  host: GitHost;
+}
+
+/**
+ * Local git adapter
+ * Reads commit history and tags from a local clone with the git binary
+ *
+ * Clone layout: `{baseDir}/{host}/{owner}/{repo}` — a working copy, or a
+ * bare mirror with a `.git` suffix (`git clone --mirror {url} {host}/{owner}/{repo}.git`).
+ * Keeping the clone up to date (e.g. `git remote update` from cron) is
+ * left to the operator.
+ *
+ * Only available when the server can run git (self-hosted deployments);
+ * use MixedRepositoryAdapter to combine it with an API adapter for PRs,
+ * reviews, releases and deployments.
+ */
+export class LocalGitAdapter {
+  constructor(private options: LocalGitAdapterOptions) {}
+
+  get host(): GitHost {
+    return this.options.host;
+  }
+
+  /**
+   * Find the local clone of a repository
+   *
+   * @returns Absolute path of the clone, or null if there is none
+   */
+  findClone(owner: string, repo: string): string | null {
+    const segments = [...owner.split("/"), repo];
+    if (segments.some((segment) => segment === "." || segment === "..")) {
+      return null;
+    }
+
+    const repositoryDir = path.resolve(
+      this.options.baseDir,
+      this.options.host.hostname,
+      ...segments,
+    );
+    for (const candidate of [repositoryDir, `${repositoryDir}.git`]) {
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get commit log of the clone's HEAD (merge commits excluded)
+   * Collects streamLog.
+   *
+   * @param repoPath Repository URL on this adapter's host
+   */
+  async getLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<GitCommit[]>> {
+    const commits: GitCommit[] = [];
+    try {
+      for await (const commit of this.streamLog(
+        repoPath,
+        sinceDate,
+        untilDate,
+      )) {
+        commits.push(commit);
+      }
+    } catch (error: unknown) {
+      return err(
+        error instanceof Error ? error : new Error(getErrorMessage(error)),
+      );
+    }
+    return ok(commits);
+  }
+
+  /**
+   * Stream commit log of the clone's HEAD (merge commits excluded)
+   *
+   * git's output is read line by line and each commit is yielded once its
+   * numstat lines are parsed, so only one commit is held at a time.
+   * Commits are filtered by author date, matching the API adapters.
+   * git's --since (committer date) only prunes history: a commit's
+   * committer date is never earlier than its author date in practice.
+   *
+   * @param repoPath Repository URL on this adapter's host
+   */
+  async *streamLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): AsyncIterable<GitCommit> {
+    const urlResult = RepositoryUrl.create(repoPath, [this.options.host]);
+    if (!urlResult.ok) {
+      throw urlResult.error;
+    }
+
+    const { owner, repo } = urlResult.value;
+    const cloneDir = this.findClone(owner, repo);
+    if (!cloneDir) {
+      throw new Error(`Local clone not found for ${owner}/${repo}`);
+    }
+
+    const args = ["log", "--numstat", "--no-renames", LOG_FORMAT];
+    if (sinceDate) {
+      args.push(`--since=${sinceDate.toISOString()}`);
+    }
+    const isIncluded = (parsed: ParsedCommit) =>
+      !isMergeCommit(parsed) &&
+      (!sinceDate || parsed.commit.date >= sinceDate) &&
+      (!untilDate || parsed.commit.date <= untilDate);
+
+    const child = spawn("git", ["-C", cloneDir, ...args], {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let stderr = "";
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      stderr = (stderr + chunk).slice(-4096);
+    });
+    const exited = new Promise<number | null>((resolve, reject) => {
+      child.once("error", reject);
+      child.once("close", resolve);
+    });
+    // Awaited after the output is read; keep an early failure handled
+    exited.catch(() => {});
+
+    let count = 0;
+    try {
+      let current: ParsedCommit | null = null;
+      for await (const line of createInterface({
+        input: child.stdout,
+        crlfDelay: Infinity,
+      })) {
+        const next = parseLogLine(line, current);
+        if (!next) {
+          continue;
+        }
+        if (current && isIncluded(current)) {
+          count++;
+          yield current.commit;
+        }
+        current = next;
+      }
+
+      const exitCode = await exited;
+      if (exitCode !== 0) {
+        throw new Error(stderr.trim() || `git exited with code ${exitCode}`);
+      }
+      if (current && isIncluded(current)) {
+        count++;
+        yield current.commit;
+      }
+
+      logger.info(`Read ${count} commits from local clone`, { cloneDir });
+    } catch (error: unknown) {
+      const result = this.handleGitError(error, "reading commits");
+      throw result.ok ? error : result.error;
+    } finally {
+      // The consumer stopped early (or reading failed)
+      if (child.exitCode === null) {
+        child.kill();
+      }
+    }
+  }
+
+  /**
+   * Get tags (most recently created first)
+   */
+  async getTags(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<Tag[]>> {
+    const cloneDir = this.findClone(owner, repo);
+    if (!cloneDir) {
+      return err(new Error(`Local clone not found for ${owner}/${repo}`));
+    }
+
+    try {
+      const output = await this.runGit(cloneDir, [
+        "for-each-ref",
+        "--sort=-creatordate",
+        TAG_FORMAT,
+        "refs/tags",
+      ]);
+
+      // Annotated tags carry their own date; lightweight tags use the commit date
+      const tags = parseTags(output).filter((tag) => {
+        const tagDate = new Date(
+          tag.target.tagger?.date ?? tag.target.committedDate ?? "",
+        );
+        return (
+          (!sinceDate || tagDate >= sinceDate) &&
+          (!untilDate || tagDate <= untilDate)
+        );
+      });
+
+      logger.info(`Read ${tags.length} tags from local clone`, { cloneDir });
+      return ok(tags);
+    } catch (error: unknown) {
+      return this.handleGitError(error, "reading tags");
+    }
+  }
+
+  /**
+   * Run a git command in a clone
+   * @throws Error if git is missing or exits with a non-zero status
+   */
+  private async runGit(cloneDir: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync("git", ["-C", cloneDir, ...args], {
+      maxBuffer: MAX_OUTPUT_BYTES,
+      encoding: "utf8",
+    });
+    return stdout;
+  }
+
+  private handleGitError(error: unknown, operation: string): Result<never> {
+    const errorMessage = getErrorMessage(error);
+    logger.error(`git error while ${operation}`, { error: errorMessage });
+
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return err(
+        new Error(
+          "git executable not found. Install git or unset LOCAL_GIT_DIR.",
+        ),
+      );
+    }
+
+    return err(new Error(`Failed ${operation}: ${errorMessage}`));
+  }
+}
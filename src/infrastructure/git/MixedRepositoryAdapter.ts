@@ -0,0 +1,173 @@
+import {
+  IGitHubRepository,
+  GitCommit,
+  PullRequest,
+  ReviewComment,
+  RateLimitInfo,
+  Release,
+  Deployment,
+  Tag,
+  OwnerRepository,
+  OrganizationTeam,
+} from "@/domain/interfaces/IGitHubRepository";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+import { TokenCapabilities } from "@/domain/value-objects/TokenCapabilities";
+import { Result, ok, err } from "@/lib/result";
+import { LocalGitAdapter } from "./LocalGitAdapter";
+
+/**
+ * Mixed mode repository adapter
+ *
+ * - Commits and tags: local clone (LocalGitAdapter) when one exists
+ * - Everything else (PRs, reviews, releases, deployments): API adapter
+ *
+ * Repositories without a local clone are served entirely by the API adapter,
+ * so clones can be added for the largest repositories only.
+ */
+export class MixedRepositoryAdapter implements IGitHubRepository {
+  constructor(
+    private local: LocalGitAdapter,
+    private remote: IGitHubRepository,
+  ) {}
+
+  async validateAccess(owner: string, repo: string): Promise<Result<boolean>> {
+    return this.remote.validateAccess(owner, repo);
+  }
+
+  async getLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<GitCommit[]>> {
+    const urlResult = RepositoryUrl.create(repoPath, [this.local.host]);
+    if (
+      urlResult.ok &&
+      this.local.findClone(urlResult.value.owner, urlResult.value.repo)
+    ) {
+      return this.local.getLog(repoPath, sinceDate, untilDate);
+    }
+    return this.remote.getLog(repoPath, sinceDate, untilDate);
+  }
+
+  streamLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): AsyncIterable<GitCommit> {
+    const urlResult = RepositoryUrl.create(repoPath, [this.local.host]);
+    if (
+      urlResult.ok &&
+      this.local.findClone(urlResult.value.owner, urlResult.value.repo)
+    ) {
+      return this.local.streamLog(repoPath, sinceDate, untilDate);
+    }
+    return this.remote.streamLog(repoPath, sinceDate, untilDate);
+  }
+
+  async getPullRequests(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+    semantics?: PullRequestDateSemantics,
+  ): Promise<Result<PullRequest[]>> {
+    return this.remote.getPullRequests(
+      owner,
+      repo,
+      sinceDate,
+      untilDate,
+      semantics,
+    );
+  }
+
+  streamPullRequests(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+    semantics?: PullRequestDateSemantics,
+  ): AsyncIterable<PullRequest> {
+    return this.remote.streamPullRequests(
+      owner,
+      repo,
+      sinceDate,
+      untilDate,
+      semantics,
+    );
+  }
+
+  async getReviewComments(
+    owner: string,
+    repo: string,
+    pullRequestNumbers: number[],
+  ): Promise<Result<ReviewComment[]>> {
+    return this.remote.getReviewComments(owner, repo, pullRequestNumbers);
+  }
+
+  async getRateLimitStatus(): Promise<Result<RateLimitInfo>> {
+    return this.remote.getRateLimitStatus();
+  }
+
+  async getTokenCapabilities(
+    owner: string,
+    repo: string,
+  ): Promise<Result<TokenCapabilities>> {
+    return this.remote.getTokenCapabilities
+      ? this.remote.getTokenCapabilities(owner, repo)
+      : ok(TokenCapabilities.unknown());
+  }
+
+  async getOwnerRepositories(
+    owner: string,
+    mergedSince: Date,
+  ): Promise<Result<OwnerRepository[]>> {
+    return this.remote.getOwnerRepositories
+      ? this.remote.getOwnerRepositories(owner, mergedSince)
+      : err(new Error("Listing repositories is not supported for this host"));
+  }
+
+  async getOrganizationTeams(
+    organization: string,
+  ): Promise<Result<OrganizationTeam[]>> {
+    return this.remote.getOrganizationTeams
+      ? this.remote.getOrganizationTeams(organization)
+      : err(new Error("Listing teams is not supported for this host"));
+  }
+
+  async isOwnerMember(owner: string): Promise<Result<boolean>> {
+    return this.remote.isOwnerMember
+      ? this.remote.isOwnerMember(owner)
+      : err(new Error("Checking membership is not supported for this host"));
+  }
+
+  async getReleases(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<Release[]>> {
+    return this.remote.getReleases(owner, repo, sinceDate, untilDate);
+  }
+
+  async getDeployments(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<Deployment[]>> {
+    return this.remote.getDeployments(owner, repo, sinceDate, untilDate);
+  }
+
+  async getTags(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<Tag[]>> {
+    if (this.local.findClone(owner, repo)) {
+      return this.local.getTags(owner, repo, sinceDate, untilDate);
+    }
+    return this.remote.getTags(owner, repo, sinceDate, untilDate);
+  }
+}
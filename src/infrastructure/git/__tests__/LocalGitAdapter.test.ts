@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { LocalGitAdapter } from "../LocalGitAdapter";
+import { MixedRepositoryAdapter } from "../MixedRepositoryAdapter";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import { IGitHubRepository } from "@/domain/interfaces/IGitHubRepository";
+import { ok } from "@/lib/result";
+
+const REPO_URL = "https://github.com/acme/widgets";
+
+/**
+ * Run git in the test repository with fixed author and committer dates
+ */
+function git(cwd: string, args: string[], date?: string): string {
+  return execFileSync(
+    "git",
+    [
+      "-c",
+      "user.name=Ada Lovelace",
+      "-c",
+      "user.email=ada@example.com",
+      "-c",
+      "commit.gpgsign=false",
+      "-c",
+      "tag.gpgsign=false",
+      ...args,
+    ],
+    {
+      cwd,
+      encoding: "utf8",
+      env: date
+        ? { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+        : process.env,
+    },
+  );
+}
+
+describe("LocalGitAdapter", () => {
+  let baseDir: string;
+  let repoDir: string;
+  let adapter: LocalGitAdapter;
+
+  beforeAll(() => {
+    baseDir = mkdtempSync(path.join(os.tmpdir(), "local-git-adapter-"));
+    repoDir = path.join(baseDir, "github.com", "acme", "widgets");
+    mkdirSync(repoDir, { recursive: true });
+
+    git(repoDir, ["init", "-q", "-b", "main"]);
+
+    // 2026-09-01: two files, one of them binary
+    writeFileSync(path.join(repoDir, "a.txt"), "one\ntwo\nthree\n");
+    writeFileSync(path.join(repoDir, "logo.bin"), Buffer.from([0, 1, 2, 0]));
+    git(repoDir, ["add", "."]);
+    git(
+      repoDir,
+      ["commit", "-q", "-m", "Initial commit\n\nWith a body"],
+      "2026-09-01T10:00:00Z",
+    );
+    git(repoDir, ["tag", "v1.0.0"], "2026-09-01T10:00:00Z");
+
+    // 2026-09-10: feature branch merged with a merge commit
+    git(repoDir, ["checkout", "-q", "-b", "feature"]);
+    writeFileSync(path.join(repoDir, "a.txt"), "one\n2\nthree\nfour\n");
+    git(
+      repoDir,
+      ["commit", "-q", "-am", "Update a.txt"],
+      "2026-09-10T10:00:00Z",
+    );
+    git(repoDir, ["checkout", "-q", "main"]);
+    writeFileSync(path.join(repoDir, "b.txt"), "b\n");
+    git(repoDir, ["add", "."]);
+    git(repoDir, ["commit", "-q", "-m", "Add b.txt"], "2026-09-11T10:00:00Z");
+    git(
+      repoDir,
+      ["merge", "-q", "--no-ff", "-m", "Merge branch 'feature'", "feature"],
+      "2026-09-12T10:00:00Z",
+    );
+    git(
+      repoDir,
+      ["tag", "-a", "v1.1.0", "-m", "Release v1.1.0"],
+      "2026-09-13T10:00:00Z",
+    );
+
+    adapter = new LocalGitAdapter({ baseDir, host: GitHost.dotcom() });
+  });
+
+  afterAll(() => {
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  describe("findClone", () => {
+    it("should find a working copy under {host}/{owner}/{repo}", () => {
+      expect(adapter.findClone("acme", "widgets")).toBe(repoDir);
+    });
+
+    it("should find a bare mirror with .git suffix", () => {
+      const mirrorDir = path.join(baseDir, "github.com", "acme", "mirror.git");
+      execFileSync("git", ["clone", "-q", "--mirror", repoDir, mirrorDir]);
+
+      expect(adapter.findClone("acme", "mirror")).toBe(mirrorDir);
+    });
+
+    it("should return null for missing clones and path traversal", () => {
+      expect(adapter.findClone("acme", "missing")).toBeNull();
+      expect(adapter.findClone("..", "widgets")).toBeNull();
+    });
+  });
+
+  describe("getLog", () => {
+    it("should read commits with numstat and skip merge commits", async () => {
+      const result = await adapter.getLog(REPO_URL);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((c) => c.message)).toEqual([
+          "Add b.txt",
+          "Update a.txt",
+          "Initial commit",
+        ]);
+
+        const initial = result.value[2];
+        expect(initial).toMatchObject({
+          author: "Ada Lovelace",
+          email: "ada@example.com",
+          date: new Date("2026-09-01T10:00:00Z"),
+          filesChanged: 2,
+          linesAdded: 3, // binary file counts as changed without lines
+          linesDeleted: 0,
+        });
+        expect(initial?.hash).toMatch(/^[0-9a-f]{40}$/);
+        expect(result.value[1]).toMatchObject({
+          filesChanged: 1,
+          linesAdded: 2,
+          linesDeleted: 1,
+        });
+      }
+    });
+
+    it("should filter by author date range", async () => {
+      const result = await adapter.getLog(
+        REPO_URL,
+        new Date("2026-09-05T00:00:00Z"),
+        new Date("2026-09-10T23:59:59Z"),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((c) => c.message)).toEqual(["Update a.txt"]);
+      }
+    });
+
+    it("should return error when no clone exists", async () => {
+      const result = await adapter.getLog("https://github.com/acme/missing");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("Local clone not found");
+      }
+    });
+  });
+
+  describe("streamLog", () => {
+    it("should yield commits while git is still writing the log", async () => {
+      const getLog = vi.spyOn(adapter, "getLog");
+      const iterator = adapter.streamLog(REPO_URL)[Symbol.asyncIterator]();
+
+      const first = await iterator.next();
+      await iterator.return?.();
+
+      expect(first.value).toMatchObject({
+        message: "Add b.txt",
+        filesChanged: 1,
+        linesAdded: 1,
+      });
+      expect(getLog).not.toHaveBeenCalled();
+      getLog.mockRestore();
+    });
+
+    it("should throw when no clone exists", async () => {
+      const stream = adapter.streamLog("https://github.com/acme/missing");
+
+      await expect(async () => {
+        for await (const _commit of stream) {
+          // drain
+        }
+      }).rejects.toThrow("Local clone not found");
+    });
+  });
+
+  describe("getTags", () => {
+    it("should read annotated and lightweight tags", async () => {
+      const result = await adapter.getTags("acme", "widgets");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(2);
+        const annotated = result.value.find((tag) => tag.name === "v1.1.0");
+        const lightweight = result.value.find((tag) => tag.name === "v1.0.0");
+        expect(
+          new Date(annotated?.target.tagger?.date ?? "").toISOString(),
+        ).toBe("2026-09-13T10:00:00.000Z");
+        expect(annotated?.target.committedDate).toBeDefined();
+        expect(lightweight?.target.tagger).toBeNull();
+        // Both tags resolve to commits, annotated tags peeled
+        expect(annotated?.commitOid).toBe(
+          git(repoDir, ["rev-parse", "v1.1.0^{commit}"]).trim(),
+        );
+        expect(lightweight?.commitOid).toBe(
+          git(repoDir, ["rev-parse", "v1.0.0"]).trim(),
+        );
+        expect(
+          new Date(lightweight?.target.committedDate ?? "").toISOString(),
+        ).toBe("2026-09-01T10:00:00.000Z");
+      }
+    });
+
+    it("should filter tags older than sinceDate", async () => {
+      const result = await adapter.getTags(
+        "acme",
+        "widgets",
+        new Date("2026-09-05T00:00:00Z"),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((tag) => tag.name)).toEqual(["v1.1.0"]);
+      }
+    });
+  });
+
+  describe("MixedRepositoryAdapter", () => {
+    function createRemote(): IGitHubRepository {
+      return {
+        validateAccess: vi.fn().mockResolvedValue(ok(true)),
+        getLog: vi.fn().mockResolvedValue(ok([])),
+        getPullRequests: vi.fn().mockResolvedValue(ok([])),
+        streamLog: vi.fn(),
+        streamPullRequests: vi.fn(),
+        getReviewComments: vi.fn().mockResolvedValue(ok([])),
+        getRateLimitStatus: vi.fn(),
+        getReleases: vi.fn().mockResolvedValue(ok([])),
+        getDeployments: vi.fn().mockResolvedValue(ok([])),
+        getTags: vi.fn().mockResolvedValue(ok([])),
+      };
+    }
+
+    it("should read commits and tags from the local clone", async () => {
+      const remote = createRemote();
+      const mixed = new MixedRepositoryAdapter(adapter, remote);
+
+      const log = await mixed.getLog(REPO_URL);
+      const tags = await mixed.getTags("acme", "widgets");
+
+      expect(log.ok && log.value).toHaveLength(3);
+      expect(tags.ok && tags.value).toHaveLength(2);
+      expect(remote.getLog).not.toHaveBeenCalled();
+      expect(remote.getTags).not.toHaveBeenCalled();
+    });
+
+    it("should stream commits from the local clone", async () => {
+      const remote = createRemote();
+      const mixed = new MixedRepositoryAdapter(adapter, remote);
+
+      const hashes: string[] = [];
+      for await (const commit of mixed.streamLog(REPO_URL)) {
+        hashes.push(commit.hash);
+      }
+
+      expect(hashes).toHaveLength(3);
+      expect(remote.streamLog).not.toHaveBeenCalled();
+    });
+
+    it("should use the API for pull requests and reviews", async () => {
+      const remote = createRemote();
+      const mixed = new MixedRepositoryAdapter(adapter, remote);
+
+      await mixed.getPullRequests("acme", "widgets");
+      await mixed.getReviewComments("acme", "widgets", [1]);
+
+      expect(remote.getPullRequests).toHaveBeenCalledWith(
+        "acme",
+        "widgets",
+        undefined,
+        undefined,
+        undefined,
+      );
+      expect(remote.getReviewComments).toHaveBeenCalledWith(
+        "acme",
+        "widgets",
+        [1],
+      );
+    });
+
+    it("should fall back to the API for repositories without a clone", async () => {
+      const remote = createRemote();
+      const mixed = new MixedRepositoryAdapter(adapter, remote);
+
+      await mixed.getLog("https://github.com/acme/missing");
+      await mixed.getTags("acme", "missing");
+
+      expect(remote.getLog).toHaveBeenCalled();
+      expect(remote.getTags).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * git CLI Output to Domain Model Mappers
+ *
+ * This module contains pure functions that parse the output of the git
+ * commands LocalGitAdapter runs into the same domain models the API
+ * adapters produce. Fields are separated with ASCII control characters
+ * (record separator 0x1e, unit separator 0x1f) so that commit subjects
+ * and tag names never need escaping.
+ */
+
+import { GitCommit, Tag } from "@/domain/interfaces/IGitHubRepository";
+
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+
+/**
+ * `git log` pretty format: hash, parents, author name/email/date,
+ * committer date, subject
+ * Each commit header is followed by its --numstat lines.
+ */
+export const LOG_FORMAT = `--format=%x1e%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%cI%x1f%s`;
+
+/**
+ * `git for-each-ref` format for tags
+ * objecttype is "tag" for annotated tags; *committerdate and *objectname
+ * are the peeled commit's date and hash.
+ */
+export const TAG_FORMAT =
+  "--format=%(refname:short)%1f%(objecttype)%1f%(taggerdate:iso-strict)%1f%(*committerdate:iso-strict)%1f%(committerdate:iso-strict)%1f%(*objectname)%1f%(objectname)";
+
+/**
+ * Commit parsed from `git log`, before merge filtering
+ */
+export interface ParsedCommit {
+  commit: GitCommit;
+  parents: string[];
+}
+
+/**
+ * Check if a commit is a merge commit
+ */
+export function isMergeCommit(parsed: ParsedCommit): boolean {
+  return parsed.parents.length > 1;
+}
+
+/**
+ * Parse one line of `git log --numstat` output produced with LOG_FORMAT
+ *
+ * A commit header starts a new commit, which is returned; numstat lines
+ * are added to the current commit. A commit is complete once the next
+ * header (or the end of the output) is reached. Binary files are reported
+ * by git as "-\t-\tpath"; they count as a changed file without line
+ * changes.
+ *
+ * @param line One line of output (without the newline)
+ * @param current Commit the previous lines belong to
+ * @returns The commit a header line starts, or null for other lines
+ */
+export function parseLogLine(
+  line: string,
+  current: ParsedCommit | null,
+): ParsedCommit | null {
+  if (line.startsWith(RECORD_SEPARATOR)) {
+    const [
+      hash = "",
+      parents = "",
+      author,
+      email,
+      date = "",
+      committedAt,
+      subject,
+    ] = line.slice(RECORD_SEPARATOR.length).split(FIELD_SEPARATOR);
+
+    return {
+      commit: {
+        hash,
+        author: author || "Unknown",
+        email: email || "",
+        date: new Date(date),
+        committedAt: committedAt ? new Date(committedAt) : undefined,
+        message: subject ?? "",
+        filesChanged: 0,
+        linesAdded: 0,
+        linesDeleted: 0,
+      },
+      parents: parents.split(" ").filter((parent) => parent.length > 0),
+    };
+  }
+
+  const numstat = line.match(/^(\d+|-)\t(\d+|-)\t/);
+  if (current && numstat) {
+    current.commit.filesChanged += 1;
+    current.commit.linesAdded += numstat[1] === "-" ? 0 : Number(numstat[1]);
+    current.commit.linesDeleted += numstat[2] === "-" ? 0 : Number(numstat[2]);
+  }
+  return null;
+}
+
+/**
+ * Parse `git for-each-ref refs/tags` output produced with TAG_FORMAT
+ */
+export function parseTags(output: string): Tag[] {
+  return output
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [
+        name = "",
+        objectType,
+        taggerDate,
+        peeledCommitDate,
+        commitDate,
+        peeledObjectName,
+        objectName,
+      ] = line.split(FIELD_SEPARATOR);
+      const isAnnotated = objectType === "tag";
+
+      return {
+        name,
+        target: {
+          committedDate:
+            (isAnnotated ? peeledCommitDate : commitDate) || undefined,
+          tagger: isAnnotated && taggerDate ? { date: taggerDate } : null,
+        },
+        commitOid: (isAnnotated ? peeledObjectName : objectName) || undefined,
+      };
+    });
+}
@@ -8,12 +8,38 @@ import {
   Release,
   Deployment,
   Tag,
+  OwnerRepository,
+  OrganizationTeam,
 } from "@/domain/interfaces/IGitHubRepository";
 import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
+import { getCredentialId } from "@/infrastructure/auth/credentialId";
+import {
+  AnalysisProgressEvent,
+  AnalysisProgressListener,
+  ProgressEventType,
+} from "@/domain/interfaces/IAnalysisProgress";
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "@/domain/value-objects/PullRequestDateFilter";
+import { TokenCapabilities } from "@/domain/value-objects/TokenCapabilities";
 import { Result, ok, err } from "@/lib/result";
 import { logger } from "@/lib/utils/logger";
 import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { isAbortError, sleep, throwIfAborted } from "@/lib/utils/abort";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
+import { MissingScopeError } from "@/lib/errors/MissingScopeError";
+import { GITHUB_ORG_SCOPE } from "@/infrastructure/auth/oauthScopes";
 import { RateLimiter } from "./RateLimiter";
+import { RetryPolicy } from "./RetryPolicy";
+import {
+  RequestPriority,
+  RequestScheduler,
+  getRequestScheduler,
+} from "./RequestScheduler";
+import { getTokenCapabilities } from "./TokenCapabilityProbe";
 
 // GraphQL queries and types
 import {
@@ -23,12 +49,24 @@ import {
 import { RATE_LIMIT_QUERY, RateLimitResponse } from "./graphql/rateLimit";
 import {
   PULL_REQUESTS_QUERY,
+  PULL_REQUESTS_BY_UPDATED_QUERY,
+  SEARCH_PULL_REQUESTS_QUERY,
   GitHubGraphQLPullRequestsResponse,
+  GitHubGraphQLPullRequestsByUpdatedResponse,
+  GitHubGraphQLSearchPullRequestsResponse,
+  GitHubGraphQLPullRequestSummary,
 } from "./graphql/pullRequests";
-import { COMMITS_QUERY, GitHubGraphQLCommitsResponse } from "./graphql/commits";
+import {
+  COMMITS_QUERY,
+  GitHubGraphQLCommitsResponse,
+  GitHubGraphQLCommit,
+} from "./graphql/commits";
 import {
   REVIEW_COMMENTS_QUERY,
   GitHubGraphQLReviewCommentsResponse,
+  GitHubGraphQLReviewCommentsBatchResponse,
+  buildReviewCommentsBatchQuery,
+  reviewCommentsAlias,
 } from "./graphql/reviewComments";
 import {
   RELEASES_QUERY,
@@ -39,22 +77,153 @@ import {
   GitHubGraphQLDeploymentsResponse,
 } from "./graphql/deployments";
 import { TAGS_QUERY, GitHubGraphQLTagsResponse } from "./graphql/tags";
+import {
+  OWNER_REPOSITORIES_QUERY,
+  OWNER_REPOSITORY_RECENT_ITEMS,
+  GitHubGraphQLOwnerRepositoriesResponse,
+  GitHubGraphQLMergedPullRequestCountsResponse,
+  buildMergedPullRequestCountsQuery,
+} from "./graphql/ownerRepositories";
+import {
+  ORGANIZATION_TEAMS_QUERY,
+  TEAM_MEMBERS_QUERY,
+  TEAM_MEMBERS_PAGE_SIZE,
+  OWNER_MEMBERSHIP_QUERY,
+  GitHubGraphQLOrganizationTeamsResponse,
+  GitHubGraphQLTeamMembersResponse,
+  GitHubGraphQLOwnerMembershipResponse,
+} from "./graphql/teams";
 
 // Data mappers
 import {
   mapPullRequest,
   mapCommit,
   isMergeCommit,
-  mapReviewComment,
+  mapPullRequestComments,
   mapRateLimit,
   mapRelease,
   mapDeployment,
   mapTag,
+  mapOwnerRepository,
+  mapOrganizationTeam,
 } from "./mappers/graphqlMappers";
 
 // Utilities
-import { createBatches } from "./utils/paginationHelpers";
+import {
+  AdaptiveBatchBounds,
+  adjustBatchSize,
+  createBatches,
+  isWithinWindow,
+} from "./utils/paginationHelpers";
 import { handleGraphQLError, parseGitHubUrl } from "./utils/errorHandlers";
+import {
+  PullRequestSyncState,
+  CommitSyncState,
+  getSyncStateKey,
+  coversSince,
+  mergePullRequests,
+  mergeCommits,
+  getLatestUpdatedAt,
+} from "./utils/syncHelpers";
+import {
+  PullRequestCheckpoint,
+  CommitCheckpoint,
+  ReviewCommentCheckpoint,
+  getCheckpointKey,
+  isCheckpointUsable,
+} from "./utils/checkpointHelpers";
+import {
+  SEARCH_RESULT_LIMIT,
+  buildMergedPullRequestsSinceQuery,
+  buildPullRequestSearchQuery,
+  getSearchDateFields,
+  splitSearchWindow,
+} from "./utils/searchHelpers";
+
+/**
+ * Review comment batch sizing
+ * Each PR selects up to ~10,200 nodes (100 threads x 100 comments plus
+ * conversation comments), so 40 PRs stay below the 500,000 node limit.
+ */
+const REVIEW_COMMENT_BATCH: AdaptiveBatchBounds & { initial: number } = {
+  initial: 20,
+  min: 1,
+  max: 40,
+  targetCost: 30,
+};
+
+/**
+ * Optional OctokitAdapter configuration
+ */
+export interface OctokitAdapterOptions {
+  /**
+   * Resolves persistent storage for incremental sync state.
+   * Receives the credential id (the access token unless the session provider
+   * has one) so stored data can be partitioned per user or installation.
+   * When omitted, pull requests and commits are fetched in full every time.
+   */
+  syncStorage?: (accessToken: string) => IStoragePort;
+
+  /**
+   * GitHub host to talk to (default: github.com).
+   * Pass the GitHub Enterprise Server host to use its GraphQL endpoint.
+   */
+  host?: GitHost;
+
+  /**
+   * Retry policy for GraphQL requests (default: new RetryPolicy() with
+   * maxRateLimitWaitMs as its longest wait).
+   * The retry budget is shared by all requests made through this adapter.
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * Scheduler for the adapter's requests (default: the process-wide
+   * scheduler of the session token, shared with every other adapter
+   * using that token)
+   */
+  scheduler?: RequestScheduler;
+
+  /**
+   * Scheduling lane of the adapter's requests (default: interactive)
+   */
+  priority?: RequestPriority;
+
+  /**
+   * Cancels the adapter's work: pending requests are aborted, rate limit
+   * waits end early and pagination loops stop with an AbortError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Receives pages fetched, review comment batches finished and rate
+   * limit waits
+   */
+  onProgress?: AnalysisProgressListener;
+
+  /**
+   * Longest rate limit wait before giving up (default: 60 seconds).
+   * A longer wait ends the request with a RateLimitExhaustedError that
+   * carries the data fetched so far; synced pagination is checkpointed
+   * and resumes from the saved cursor on the next run.
+   */
+  maxRateLimitWaitMs?: number;
+}
+
+/**
+ * Authenticated GraphQL client of an adapter
+ */
+interface AuthenticatedClient {
+  scope?: string; // Lowercase "owner/repo" (or "owner/") the token was requested for
+  token: string;
+  credentialId: string;
+  graphql: typeof graphql;
+}
+
+/**
+ * Default longest rate limit wait (the primary limit resets hourly)
+ */
+const DEFAULT_MAX_RATE_LIMIT_WAIT_MS = 60_000;
 
 /**
  * GitHub repository adapter using Octokit
@@ -66,41 +235,172 @@ import { handleGraphQLError, parseGitHubUrl } from "./utils/errorHandlers";
  * - Pull request fetching
  * - Review comment fetching
  * - Rate limit management
+ * - Token capability probing (REST, cached per token and repository)
+ * - Listing an owner's repositories with recent activity (health overview)
+ * - Listing an organization's teams and their members (team import)
+ * - Incremental sync of pull requests and commits (when sync storage is configured)
+ * - Request scheduling shared by all adapters of a token (concurrency cap,
+ *   priority lanes, shared rate limit state, identical requests sent once)
  *
  * Suitable for serverless environments (no git binary required).
  */
 export class OctokitAdapter implements IGitHubRepository {
-  private rateLimiter = new RateLimiter();
-  private readonly BATCH_SIZE = 15; // Number of PRs to fetch in parallel per batch
-  private graphqlWithAuth?: typeof graphql; // Cached authenticated graphql instance
+  private readonly rateLimiter: RateLimiter;
+  private readonly retryPolicy: RetryPolicy;
+  private client?: AuthenticatedClient; // Cached authenticated graphql instance
+  private scheduler?: RequestScheduler; // Resolved with the token
+
+  private readonly host: GitHost;
+
+  constructor(
+    private sessionProvider: ISessionProvider,
+    private options: OctokitAdapterOptions = {},
+  ) {
+    this.host = options.host ?? GitHost.dotcom();
+    const maxWaitMs =
+      options.maxRateLimitWaitMs ?? DEFAULT_MAX_RATE_LIMIT_WAIT_MS;
+    this.rateLimiter = new RateLimiter({
+      sleep: (ms) => this.wait(ms),
+      maxWaitMs,
+    });
+    this.retryPolicy =
+      options.retryPolicy ??
+      new RetryPolicy({ sleep: (ms) => this.wait(ms), maxWaitMs });
+  }
+
+  /**
+   * Pause requests (rate limit or retry backoff); ends early on abort
+   */
+  private async wait(ms: number): Promise<void> {
+    this.report({ type: ProgressEventType.RATE_LIMIT_WAIT, waitMs: ms });
+    await sleep(ms, this.options.signal);
+  }
 
-  constructor(private sessionProvider: ISessionProvider) {}
+  /**
+   * Forward a progress event to the listener, if any
+   */
+  private report(event: AnalysisProgressEvent): void {
+    this.options.onProgress?.(event);
+  }
 
   /**
-   * Get GitHub access token from session
+   * Get authenticated graphql instance (cached per adapter instance)
+   *
+   * Also resolves the token's request scheduler and joins its rate limit
+   * state. The token is requested for the repository (GitHub App
+   * installations are per owner and only serve repositories the user can
+   * read; other providers ignore it), so a request for another repository
+   * replaces the cached instance. Without an owner, any cached instance is
+   * used.
+   *
    * @throws Error if token retrieval fails
    */
-  private async getToken(): Promise<string> {
-    const tokenResult = await this.sessionProvider.getAccessToken();
+  private async getClient(
+    owner?: string,
+    repo?: string,
+  ): Promise<AuthenticatedClient> {
+    const key =
+      owner === undefined ? undefined : `${owner}/${repo ?? ""}`.toLowerCase();
+    if (this.client && (key === undefined || this.client.scope === key)) {
+      return this.client;
+    }
+
+    const tokenResult = await this.sessionProvider.getAccessToken(owner, repo);
     if (!tokenResult.ok) {
       throw tokenResult.error;
     }
-    return tokenResult.value;
+    const credentialResult = await getCredentialId(
+      this.sessionProvider,
+      owner,
+      repo,
+    );
+    if (!credentialResult.ok) {
+      throw credentialResult.error;
+    }
+
+    this.scheduler =
+      this.options.scheduler ?? getRequestScheduler(credentialResult.value);
+    this.rateLimiter.share(this.scheduler.rateLimitState);
+    this.client = {
+      scope: key,
+      token: tokenResult.value,
+      credentialId: credentialResult.value,
+      graphql: graphql.defaults({
+        baseUrl: this.host.graphqlBaseUrl,
+        headers: {
+          authorization: `token ${tokenResult.value}`,
+        },
+        ...(this.options.signal && {
+          request: { signal: this.options.signal },
+        }),
+      }),
+    };
+    return this.client;
+  }
+
+  private async getGraphqlWithAuth(
+    owner?: string,
+    repo?: string,
+  ): Promise<typeof graphql> {
+    return (await this.getClient(owner, repo)).graphql;
   }
 
   /**
-   * Get authenticated graphql instance (cached per adapter instance)
+   * Run a GraphQL query through the retry policy
+   * Throws an AbortError once the adapter's signal is aborted.
+   * A `first` variable is capped at the page size the policy allows for the
+   * operation (halved after queries that were too large).
+   *
+   * Each attempt waits for a slot of the token's scheduler; an identical
+   * query already in flight for the token is shared instead of sent again.
    */
-  private async getGraphqlWithAuth(): Promise<typeof graphql> {
-    if (!this.graphqlWithAuth) {
-      const token = await this.getToken();
-      this.graphqlWithAuth = graphql.defaults({
-        headers: {
-          authorization: `token ${token}`,
-        },
-      });
+  private async query<T>(
+    graphqlWithAuth: typeof graphql,
+    operation: string,
+    query: string,
+    variables?: Record<string, unknown>,
+  ): Promise<T> {
+    throwIfAborted(this.options.signal);
+
+    const scheduler = this.scheduler;
+    const send = (request: () => Promise<T>): Promise<T> =>
+      scheduler
+        ? scheduler.run(request, {
+            priority: this.options.priority,
+            signal: this.options.signal,
+          })
+        : request();
+
+    const first = variables?.first;
+    const execute = () =>
+      typeof first !== "number"
+        ? this.retryPolicy.execute(
+            operation,
+            () =>
+              send(() =>
+                variables
+                  ? graphqlWithAuth<T>(query, variables)
+                  : graphqlWithAuth<T>(query),
+              ),
+            false,
+          )
+        : this.retryPolicy.execute(operation, (pageSize) =>
+            send(() =>
+              graphqlWithAuth<T>(query, {
+                ...variables,
+                first: Math.min(first, pageSize),
+              }),
+            ),
+          );
+
+    if (!scheduler) {
+      return await execute();
     }
-    return this.graphqlWithAuth;
+    return await scheduler.share(
+      JSON.stringify([this.host.graphqlBaseUrl, query, variables ?? null]),
+      execute,
+      this.options.signal,
+    );
   }
 
   /**
@@ -108,12 +408,17 @@ export class OctokitAdapter implements IGitHubRepository {
    */
   async validateAccess(owner: string, repo: string): Promise<Result<boolean>> {
     try {
-      const graphqlWithAuth = await this.getGraphqlWithAuth();
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
 
-      await graphqlWithAuth<RepositoryAccessResponse>(REPOSITORY_ACCESS_QUERY, {
-        owner,
-        repo,
-      });
+      await this.query<RepositoryAccessResponse>(
+        graphqlWithAuth,
+        "repositoryAccess",
+        REPOSITORY_ACCESS_QUERY,
+        {
+          owner,
+          repo,
+        },
+      );
 
       return ok(true);
     } catch (error: unknown) {
@@ -148,7 +453,9 @@ export class OctokitAdapter implements IGitHubRepository {
     repo: string,
     cursor: string | null,
   ): Promise<GitHubGraphQLPullRequestsResponse> {
-    return await graphqlWithAuth<GitHubGraphQLPullRequestsResponse>(
+    return await this.query<GitHubGraphQLPullRequestsResponse>(
+      graphqlWithAuth,
+      "pullRequests",
       PULL_REQUESTS_QUERY,
       {
         owner,
@@ -161,71 +468,345 @@ export class OctokitAdapter implements IGitHubRepository {
 
   /**
    * Get pull requests from repository with pagination (GraphQL)
+   *
+   * With a window, pull requests are found via search qualifiers (one
+   * search per date field of the semantics) so that a PR opened before the
+   * window but merged or closed inside it is included without paging
+   * through older ones. Without a window, every pull request is synced
+   * (with sync storage) or paged through.
    */
   async getPullRequests(
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
+    semantics: PullRequestDateSemantics = PullRequestDateSemantics.ACTIVITY,
   ): Promise<Result<PullRequest[]>> {
     try {
-      const graphqlWithAuth = await this.getGraphqlWithAuth();
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
+      const filter = PullRequestDateFilter.create(
+        semantics,
+        sinceDate,
+        untilDate,
+      );
       logger.debug("Fetching pull requests via GraphQL", {
         owner,
         repo,
         sinceDate: sinceDate?.toISOString(),
+        untilDate: untilDate?.toISOString(),
+        semantics,
       });
 
-      const allPullRequests: PullRequest[] = [];
-      let hasNextPage = true;
-      let cursor: string | null = null;
-
-      while (hasNextPage) {
-        // Wait if rate limit is low
-        await this.rateLimiter.waitIfNeeded();
-
-        // Execute GraphQL query
-        const response = await this.fetchPullRequestsPage(
-          graphqlWithAuth,
-          owner,
-          repo,
-          cursor,
+      if (sinceDate) {
+        return ok(
+          filter.apply(
+            await this.searchPullRequests(
+              graphqlWithAuth,
+              owner,
+              repo,
+              semantics,
+              sinceDate,
+              untilDate ?? new Date(),
+            ),
+          ),
         );
+      }
 
-        // Transform GraphQL response to domain entities using mapper
-        const prs = response.repository.pullRequests.nodes.map(mapPullRequest);
-
-        // Filter by date if provided (early termination)
-        const filteredPRs = sinceDate
-          ? prs.filter((pr: PullRequest) => pr.createdAt >= sinceDate)
-          : prs;
-
-        allPullRequests.push(...filteredPRs);
-
-        // Early termination: Stop if we've reached PRs older than sinceDate
-        if (sinceDate && filteredPRs.length < prs.length) {
-          logger.info("Reached PRs older than sinceDate, stopping pagination");
-          break;
+      const syncStorage = await this.getSyncStorage(owner, repo);
+      if (syncStorage) {
+        try {
+          const synced = await this.syncPullRequests(
+            syncStorage,
+            graphqlWithAuth,
+            owner,
+            repo,
+          );
+          return ok(filter.apply(synced));
+        } catch (error: unknown) {
+          // Narrow the partial result to the requested window
+          if (error instanceof RateLimitExhaustedError) {
+            throw error.withPartial(
+              filter.apply(error.partial as PullRequest[]),
+            );
+          }
+          throw error;
         }
+      }
 
-        // Check if more pages exist
-        hasNextPage = response.repository.pullRequests.pageInfo.hasNextPage;
-        cursor = response.repository.pullRequests.pageInfo.endCursor;
-
-        // Update rate limit info from GraphQL response
-        this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+      const allPullRequests: PullRequest[] = [];
+      for await (const page of this.pullRequestPages(
+        graphqlWithAuth,
+        owner,
+        repo,
+      )) {
+        allPullRequests.push(...page);
       }
 
       logger.info(
         `Fetched ${allPullRequests.length} pull requests via GraphQL`,
       );
-      return ok(allPullRequests);
+      return ok(filter.apply(allPullRequests));
     } catch (error: unknown) {
       return handleGraphQLError(error, "fetching pull requests");
     }
   }
 
+  /**
+   * Stream pull requests from repository (GraphQL)
+   *
+   * With sync storage, pull requests come from the incremental sync (see
+   * syncedPages). Without it, pages are yielded as they arrive so only one
+   * page is held at a time; with a window, pull requests are found via
+   * search qualifiers so that a PR opened before the window but merged or
+   * closed inside it is included without paging through older ones.
+   */
+  async *streamPullRequests(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+    semantics: PullRequestDateSemantics = PullRequestDateSemantics.ACTIVITY,
+  ): AsyncIterable<PullRequest> {
+    try {
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
+      const filter = PullRequestDateFilter.create(
+        semantics,
+        sinceDate,
+        untilDate,
+      );
+      logger.debug("Streaming pull requests via GraphQL", {
+        owner,
+        repo,
+        sinceDate: sinceDate?.toISOString(),
+        untilDate: untilDate?.toISOString(),
+        semantics,
+      });
+
+      const syncStorage = await this.getSyncStorage(owner, repo);
+      const pages = syncStorage
+        ? this.syncedPages(() =>
+            this.syncPullRequests(
+              syncStorage,
+              graphqlWithAuth,
+              owner,
+              repo,
+              sinceDate,
+            ),
+          )
+        : sinceDate
+          ? this.searchPullRequestPages(
+              graphqlWithAuth,
+              owner,
+              repo,
+              semantics,
+              sinceDate,
+              untilDate ?? new Date(),
+            )
+          : this.pullRequestPages(graphqlWithAuth, owner, repo);
+
+      for await (const page of pages) {
+        yield* filter.apply(page);
+      }
+    } catch (error: unknown) {
+      const result = handleGraphQLError(error, "streaming pull requests");
+      throw result.ok ? error : result.error;
+    }
+  }
+
+  /**
+   * Page through all pull requests of a repository (newest first)
+   */
+  private async *pullRequestPages(
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repo: string,
+  ): AsyncGenerator<PullRequest[]> {
+    let hasNextPage = true;
+    let cursor: string | null = null;
+
+    while (hasNextPage) {
+      // Wait if rate limit is low
+      await this.rateLimiter.waitIfNeeded();
+
+      // Execute GraphQL query
+      const response = await this.fetchPullRequestsPage(
+        graphqlWithAuth,
+        owner,
+        repo,
+        cursor,
+      );
+
+      // Update rate limit info from GraphQL response
+      this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+      this.report({
+        type: ProgressEventType.PAGE_FETCHED,
+        resource: "pull_requests",
+        items: response.repository.pullRequests.nodes.length,
+      });
+
+      // Check if more pages exist
+      hasNextPage = response.repository.pullRequests.pageInfo.hasNextPage;
+      cursor = response.repository.pullRequests.pageInfo.endCursor;
+
+      // Transform GraphQL response to domain entities using mapper
+      yield response.repository.pullRequests.nodes.map(mapPullRequest);
+    }
+  }
+
+  /**
+   * Find pull requests of a window via search qualifiers
+   *
+   * Runs one search per date field of the semantics and merges the
+   * results by PR number (newest first). When the rate limit runs out,
+   * the pull requests found so far are kept as the partial result.
+   */
+  private async searchPullRequests(
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repo: string,
+    semantics: PullRequestDateSemantics,
+    start: Date,
+    end: Date,
+  ): Promise<PullRequest[]> {
+    const pullRequests: PullRequest[] = [];
+    try {
+      for await (const page of this.searchPullRequestPages(
+        graphqlWithAuth,
+        owner,
+        repo,
+        semantics,
+        start,
+        end,
+      )) {
+        pullRequests.push(...page);
+      }
+    } catch (error: unknown) {
+      if (error instanceof RateLimitExhaustedError) {
+        throw error.withPartial(pullRequests);
+      }
+      throw error;
+    }
+
+    pullRequests.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    logger.info(
+      `Found ${pullRequests.length} pull requests via GraphQL search`,
+    );
+    return pullRequests;
+  }
+
+  /**
+   * Page through the searches of a window, one per date field of the
+   * semantics, skipping pull requests an earlier search already returned
+   */
+  private async *searchPullRequestPages(
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repo: string,
+    semantics: PullRequestDateSemantics,
+    start: Date,
+    end: Date,
+  ): AsyncGenerator<PullRequest[]> {
+    const seen = new Set<number>();
+
+    for (const field of getSearchDateFields(semantics)) {
+      for await (const page of this.searchPullRequestsInWindow(
+        graphqlWithAuth,
+        owner,
+        repo,
+        field,
+        start,
+        end,
+      )) {
+        const unseen = page.filter((pr) => !seen.has(pr.number));
+        unseen.forEach((pr) => seen.add(pr.number));
+        yield unseen;
+      }
+    }
+  }
+
+  /**
+   * Page through one search query, halving the window while it matches
+   * more results than search can return
+   */
+  private async *searchPullRequestsInWindow(
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repo: string,
+    field: "created" | "merged" | "closed",
+    start: Date,
+    end: Date,
+  ): AsyncGenerator<PullRequest[]> {
+    const query = buildPullRequestSearchQuery(owner, repo, field, start, end);
+    let hasNextPage = true;
+    let cursor: string | null = null;
+
+    while (hasNextPage) {
+      await this.rateLimiter.waitIfNeeded();
+
+      const response: GitHubGraphQLSearchPullRequestsResponse =
+        await this.query<GitHubGraphQLSearchPullRequestsResponse>(
+          graphqlWithAuth,
+          "searchPullRequests",
+          SEARCH_PULL_REQUESTS_QUERY,
+          {
+            query,
+            first: 100,
+            after: cursor,
+          },
+        );
+
+      this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+
+      // Results beyond the search limit are unreachable: split the window
+      if (cursor === null && response.search.issueCount > SEARCH_RESULT_LIMIT) {
+        const halves = splitSearchWindow(start, end);
+        if (halves) {
+          logger.debug("Splitting pull request search window", {
+            query,
+            issueCount: response.search.issueCount,
+          });
+          const [first, second] = halves;
+          yield* this.searchPullRequestsInWindow(
+            graphqlWithAuth,
+            owner,
+            repo,
+            field,
+            first[0],
+            first[1],
+          );
+          yield* this.searchPullRequestsInWindow(
+            graphqlWithAuth,
+            owner,
+            repo,
+            field,
+            second[0],
+            second[1],
+          );
+          return;
+        }
+      }
+
+      this.report({
+        type: ProgressEventType.PAGE_FETCHED,
+        resource: "pull_requests",
+        items: response.search.nodes.length,
+      });
+
+      hasNextPage = response.search.pageInfo.hasNextPage;
+      cursor = response.search.pageInfo.endCursor;
+
+      yield response.search.nodes.map(mapPullRequest);
+    }
+  }
+
   /**
    * Get review comments for specific pull requests (GraphQL)
+   *
+   * PRs are packed into aliased batch queries; the batch size follows the
+   * rate limit cost reported for the previous batch.
+   *
+   * With sync storage, running out of rate limit checkpoints the PRs
+   * processed so far; the next call skips them and reuses their comments.
    */
   async getReviewComments(
     owner: string,
@@ -234,48 +815,110 @@ export class OctokitAdapter implements IGitHubRepository {
   ): Promise<Result<ReviewComment[]>> {
     try {
       // Validate token access first (even for empty arrays)
-      await this.getToken();
+      await this.getClient(owner, repo);
 
       const startTime = Date.now();
 
-      logger.debug("Fetching review comments via GraphQL (parallel batching)", {
+      logger.debug("Fetching review comments via GraphQL (batched queries)", {
         owner,
         repo,
         prCount: pullRequestNumbers.length,
-        batchSize: this.BATCH_SIZE,
+        initialBatchSize: REVIEW_COMMENT_BATCH.initial,
       });
 
-      const allComments: ReviewComment[] = [];
+      const storage = await this.getSyncStorage(owner, repo);
+      const checkpointKey = getCheckpointKey(owner, repo, "review_comments");
+      const checkpoint = storage
+        ? await this.loadCheckpoint<ReviewCommentCheckpoint>(
+            storage,
+            checkpointKey,
+          )
+        : null;
+      const processedNumbers = new Set(
+        checkpoint?.processed.filter((number) =>
+          pullRequestNumbers.includes(number),
+        ),
+      );
+
+      const allComments: ReviewComment[] = (checkpoint?.comments ?? [])
+        .filter((comment) => processedNumbers.has(comment.pullRequestNumber))
+        .map((comment) => ({
+          ...comment,
+          createdAt: new Date(comment.createdAt),
+        }));
       const allErrors: Error[] = [];
+      const pending = pullRequestNumbers.filter(
+        (number) => !processedNumbers.has(number),
+      );
+      let batchSize = REVIEW_COMMENT_BATCH.initial;
+      let queryCount = 0;
+      let processed = processedNumbers.size;
 
-      // Split PRs into batches for parallel processing
-      const batches = createBatches(pullRequestNumbers, this.BATCH_SIZE);
+      if (processed > 0) {
+        logger.info(
+          `Resuming review comments from checkpoint (${processed} PRs already processed)`,
+        );
+      }
 
-      logger.debug(
-        `Processing ${batches.length} batches of ${this.BATCH_SIZE} PRs each`,
-      );
+      try {
+        while (pending.length > 0) {
+          throwIfAborted(this.options.signal);
+          const batch = pending.splice(0, batchSize);
+
+          // Check rate limit before processing batch
+          if (this.rateLimiter.getRemainingPercentage() < 10) {
+            logger.warn("Rate limit running low, waiting before next batch", {
+              remaining: this.rateLimiter.getRateLimitInfo()?.remaining,
+            });
+            await this.rateLimiter.waitIfNeeded();
+          }
 
-      // Process batches sequentially, PRs within batch in parallel
-      for (let i = 0; i < batches.length; i++) {
-        const batch = batches[i]!;
+          const { comments, errors, cost } = await this.fetchCommentsForBatch(
+            owner,
+            repo,
+            batch,
+          );
 
-        // Check rate limit before processing batch
-        if (this.rateLimiter.getRemainingPercentage() < 10) {
-          logger.warn("Rate limit running low, waiting before next batch", {
-            remaining: this.rateLimiter.getRateLimitInfo()?.remaining,
+          allComments.push(...comments);
+          allErrors.push(...errors);
+          batch.forEach((number) => processedNumbers.add(number));
+          queryCount++;
+          processed += batch.length;
+          this.report({
+            type: ProgressEventType.PULL_REQUESTS_PROCESSED,
+            processed,
+            total: pullRequestNumbers.length,
           });
-          await this.rateLimiter.waitIfNeeded();
-        }
 
-        // Fetch comments for all PRs in this batch concurrently
-        const { comments, errors } = await this.fetchCommentsForBatch(
-          owner,
-          repo,
-          batch,
-        );
+          // A failed batch was split; continue with smaller batches
+          batchSize =
+            cost === null
+              ? Math.max(REVIEW_COMMENT_BATCH.min, Math.floor(batch.length / 2))
+              : adjustBatchSize(batch.length, cost, REVIEW_COMMENT_BATCH);
+        }
+      } catch (error: unknown) {
+        if (!(error instanceof RateLimitExhaustedError)) {
+          throw error;
+        }
+        if (storage) {
+          await this.saveSyncState<ReviewCommentCheckpoint>(
+            storage,
+            checkpointKey,
+            {
+              processed: [...processedNumbers],
+              comments: allComments.map((comment) => ({
+                ...comment,
+                createdAt: comment.createdAt.toISOString(),
+              })),
+              savedAt: new Date().toISOString(),
+            },
+          );
+        }
+        throw error.withPartial(allComments);
+      }
 
-        allComments.push(...comments);
-        allErrors.push(...errors);
+      if (storage && checkpoint) {
+        await this.removeCheckpoint(storage, checkpointKey);
       }
 
       // Calculate performance metrics
@@ -292,7 +935,7 @@ export class OctokitAdapter implements IGitHubRepository {
       }
 
       logger.info(
-        `Fetched ${allComments.length} review comments from ${pullRequestNumbers.length} PRs in ${durationSeconds}s`,
+        `Fetched ${allComments.length} review comments from ${pullRequestNumbers.length} PRs in ${queryCount} batches (${durationSeconds}s)`,
       );
 
       return ok(allComments);
@@ -319,7 +962,9 @@ export class OctokitAdapter implements IGitHubRepository {
     prNumber: number,
     cursor: string | null,
   ): Promise<GitHubGraphQLReviewCommentsResponse> {
-    return await graphqlWithAuth<GitHubGraphQLReviewCommentsResponse>(
+    return await this.query<GitHubGraphQLReviewCommentsResponse>(
+      graphqlWithAuth,
+      "reviewComments",
       REVIEW_COMMENTS_QUERY,
       {
         owner,
@@ -327,25 +972,29 @@ export class OctokitAdapter implements IGitHubRepository {
         prNumber,
         first: 100,
         after: cursor,
+        includeThreads: cursor === null,
       },
     );
   }
 
   /**
-   * Fetch review comments for a single PR with pagination
+   * Fetch review comments (conversation and inline review-thread comments)
+   * for a single PR with pagination
+   * Starting from a cursor continues a PR whose first page came from a batch.
    * Returns Result type for error handling
    */
   private async fetchCommentsForPR(
     owner: string,
     repo: string,
     prNumber: number,
+    startCursor: string | null = null,
   ): Promise<Result<ReviewComment[]>> {
     const comments: ReviewComment[] = [];
     let hasNextPage = true;
-    let cursor: string | null = null;
+    let cursor: string | null = startCursor;
 
     try {
-      const graphqlWithAuth = await this.getGraphqlWithAuth();
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
 
       while (hasNextPage) {
         await this.rateLimiter.waitIfNeeded();
@@ -359,12 +1008,10 @@ export class OctokitAdapter implements IGitHubRepository {
         );
 
         // Transform GraphQL response to domain entities using mapper
-        const pageComments = response.repository.pullRequest.comments.nodes.map(
-          (comment) => mapReviewComment(comment, prNumber),
+        comments.push(
+          ...mapPullRequestComments(response.repository.pullRequest, prNumber),
         );
 
-        comments.push(...pageComments);
-
         // Check if more pages exist
         hasNextPage =
           response.repository.pullRequest.comments.pageInfo.hasNextPage;
@@ -376,6 +1023,9 @@ export class OctokitAdapter implements IGitHubRepository {
 
       return ok(comments);
     } catch (error: unknown) {
+      if (isAbortError(error) || error instanceof RateLimitExhaustedError) {
+        throw error;
+      }
       logger.error(`Failed to fetch comments for PR #${prNumber}`, {
         error: error instanceof Error ? error.message : String(error),
       });
@@ -386,43 +1036,119 @@ export class OctokitAdapter implements IGitHubRepository {
   }
 
   /**
-   * Fetch review comments for a batch of PRs in parallel
+   * Fetch review comments for a batch of PRs with one aliased query
+   *
+   * Only PRs with more conversation comments are paginated further. A
+   * failing batch is split in half until the failing PR is isolated.
+   * Returns the query cost, or null when the batch had to be split.
    */
   private async fetchCommentsForBatch(
     owner: string,
     repo: string,
     prNumbers: number[],
-  ): Promise<{ comments: ReviewComment[]; errors: Error[] }> {
-    const results = await Promise.allSettled(
-      prNumbers.map((prNumber) =>
-        this.fetchCommentsForPR(owner, repo, prNumber),
-      ),
-    );
-
-    const comments: ReviewComment[] = [];
-    const errors: Error[] = [];
-
-    for (const result of results) {
-      if (result.status === "fulfilled" && result.value.ok) {
-        comments.push(...result.value.value);
-      } else if (result.status === "fulfilled" && !result.value.ok) {
-        errors.push(result.value.error);
-      } else if (result.status === "rejected") {
-        errors.push(new Error(String(result.reason)));
-      }
+  ): Promise<{
+    comments: ReviewComment[];
+    errors: Error[];
+    cost: number | null;
+  }> {
+    if (prNumbers.length === 0) {
+      return { comments: [], errors: [], cost: null };
     }
 
-    return { comments, errors };
-  }
-
-  /**
+    let response: GitHubGraphQLReviewCommentsBatchResponse;
+    try {
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
+      await this.rateLimiter.waitIfNeeded();
+
+      response = await this.query<GitHubGraphQLReviewCommentsBatchResponse>(
+        graphqlWithAuth,
+        "reviewCommentsBatch",
+        buildReviewCommentsBatchQuery(prNumbers),
+        { owner, repo },
+      );
+      this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+    } catch (error: unknown) {
+      if (isAbortError(error) || error instanceof RateLimitExhaustedError) {
+        throw error;
+      }
+      if (prNumbers.length === 1) {
+        logger.error(`Failed to fetch comments for PR #${prNumbers[0]}`, {
+          error: getErrorMessage(error),
+        });
+        return {
+          comments: [],
+          errors: [
+            new Error(
+              `Failed to fetch comments for PR #${prNumbers[0]}: ${error}`,
+            ),
+          ],
+          cost: null,
+        };
+      }
+
+      logger.warn("Review comment batch failed, splitting", {
+        batchSize: prNumbers.length,
+        error: getErrorMessage(error),
+      });
+      const middle = Math.ceil(prNumbers.length / 2);
+      const first = await this.fetchCommentsForBatch(
+        owner,
+        repo,
+        prNumbers.slice(0, middle),
+      );
+      const second = await this.fetchCommentsForBatch(
+        owner,
+        repo,
+        prNumbers.slice(middle),
+      );
+      return {
+        comments: [...first.comments, ...second.comments],
+        errors: [...first.errors, ...second.errors],
+        cost: null,
+      };
+    }
+
+    const comments: ReviewComment[] = [];
+    const errors: Error[] = [];
+
+    for (const prNumber of prNumbers) {
+      const pullRequest = response.repository[reviewCommentsAlias(prNumber)];
+      if (!pullRequest) {
+        continue;
+      }
+
+      comments.push(...mapPullRequestComments(pullRequest, prNumber));
+
+      const { hasNextPage, endCursor } = pullRequest.comments.pageInfo;
+      if (hasNextPage && endCursor) {
+        const remaining = await this.fetchCommentsForPR(
+          owner,
+          repo,
+          prNumber,
+          endCursor,
+        );
+        if (remaining.ok) {
+          comments.push(...remaining.value);
+        } else {
+          errors.push(remaining.error);
+        }
+      }
+    }
+
+    return { comments, errors, cost: response.rateLimit.cost };
+  }
+
+  /**
    * Get current rate limit status using GraphQL
    */
   async getRateLimitStatus(): Promise<Result<RateLimitInfo>> {
     try {
       const graphqlWithAuth = await this.getGraphqlWithAuth();
-      const response =
-        await graphqlWithAuth<RateLimitResponse>(RATE_LIMIT_QUERY);
+      const response = await this.query<RateLimitResponse>(
+        graphqlWithAuth,
+        "rateLimit",
+        RATE_LIMIT_QUERY,
+      );
 
       const rateLimitInfo = mapRateLimit(response.rateLimit);
 
@@ -448,6 +1174,273 @@ export class OctokitAdapter implements IGitHubRepository {
     }
   }
 
+  /**
+   * Probe what the session token can read in a repository
+   * Probed over REST (GraphQL reports neither scopes nor missing
+   * permissions) through the token's scheduler, and reused for a few
+   * minutes per token and repository.
+   */
+  async getTokenCapabilities(
+    owner: string,
+    repo: string,
+  ): Promise<Result<TokenCapabilities>> {
+    try {
+      const client = await this.getClient(owner, repo);
+      return ok(
+        await getTokenCapabilities(
+          client.credentialId,
+          client.token,
+          this.host,
+          owner,
+          repo,
+          Date.now(),
+          this.scheduler,
+        ),
+      );
+    } catch (error: unknown) {
+      logger.error("Failed to probe token capabilities", {
+        owner,
+        repo,
+        error: getErrorMessage(error),
+      });
+      return err(
+        new Error(
+          `Failed to probe token capabilities: ${getErrorMessage(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * List every repository of an organization or user (GraphQL)
+   * Pages through all repositories, most recently pushed first; each
+   * carries its open PRs and latest releases and deployments. Merged PRs
+   * are counted with one search per repository, batched per page.
+   */
+  async getOwnerRepositories(
+    owner: string,
+    mergedSince: Date,
+  ): Promise<Result<OwnerRepository[]>> {
+    try {
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner);
+      logger.debug("Fetching owner repositories via GraphQL", { owner });
+
+      const repositories: OwnerRepository[] = [];
+      let hasNextPage = true;
+      let cursor: string | null = null;
+
+      while (hasNextPage) {
+        // Wait if rate limit is low
+        await this.rateLimiter.waitIfNeeded();
+
+        const response: GitHubGraphQLOwnerRepositoriesResponse =
+          await this.query<GitHubGraphQLOwnerRepositoriesResponse>(
+            graphqlWithAuth,
+            "owner repositories",
+            OWNER_REPOSITORIES_QUERY,
+            {
+              owner,
+              first: 25,
+              after: cursor,
+              recent: OWNER_REPOSITORY_RECENT_ITEMS,
+            },
+          );
+
+        if (!response.repositoryOwner) {
+          return err(new Error(`Organization or user not found: ${owner}`));
+        }
+
+        const page = response.repositoryOwner.repositories;
+        hasNextPage = page.pageInfo.hasNextPage;
+        cursor = page.pageInfo.endCursor;
+
+        // Update rate limit info from GraphQL response
+        this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+
+        const mergedCounts = await this.countMergedPullRequests(
+          graphqlWithAuth,
+          owner,
+          page.nodes.map((node) => node.name),
+          mergedSince,
+        );
+        repositories.push(
+          ...page.nodes.map((node, index) =>
+            mapOwnerRepository(
+              node,
+              OWNER_REPOSITORY_RECENT_ITEMS,
+              mergedCounts[index] ?? 0,
+            ),
+          ),
+        );
+      }
+
+      logger.info(`Fetched ${repositories.length} repositories of ${owner}`);
+      return ok(repositories);
+    } catch (error: unknown) {
+      return handleGraphQLError(error, "fetching owner repositories");
+    }
+  }
+
+  /**
+   * Count the pull requests merged since a date in each repository
+   * @returns Counts in the order of the given repositories
+   */
+  private async countMergedPullRequests(
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repositories: string[],
+    since: Date,
+  ): Promise<number[]> {
+    if (repositories.length === 0) {
+      return [];
+    }
+
+    await this.rateLimiter.waitIfNeeded();
+    const response =
+      await this.query<GitHubGraphQLMergedPullRequestCountsResponse>(
+        graphqlWithAuth,
+        "merged pull request counts",
+        buildMergedPullRequestCountsQuery(repositories.length),
+        Object.fromEntries(
+          repositories.map((repo, index) => [
+            `q${index}`,
+            buildMergedPullRequestsSinceQuery(owner, repo, since),
+          ]),
+        ),
+      );
+    this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+
+    return repositories.map(
+      (_, index) => response[`r${index}`]?.issueCount ?? 0,
+    );
+  }
+
+  /**
+   * List the teams of an organization with their members
+   * Teams with more members than the first page holds page through the
+   * rest one team at a time.
+   *
+   * @param organization Organization login
+   * @returns Result with the organization's teams (by name), or a
+   *   MissingScopeError when the token may not read them
+   */
+  async getOrganizationTeams(
+    organization: string,
+  ): Promise<Result<OrganizationTeam[]>> {
+    try {
+      const graphqlWithAuth = await this.getGraphqlWithAuth(organization);
+      logger.debug("Fetching organization teams via GraphQL", {
+        organization,
+      });
+
+      const teams: OrganizationTeam[] = [];
+      let hasNextPage = true;
+      let cursor: string | null = null;
+
+      while (hasNextPage) {
+        // Wait if rate limit is low
+        await this.rateLimiter.waitIfNeeded();
+
+        const response: GitHubGraphQLOrganizationTeamsResponse =
+          await this.query<GitHubGraphQLOrganizationTeamsResponse>(
+            graphqlWithAuth,
+            "organization teams",
+            ORGANIZATION_TEAMS_QUERY,
+            {
+              organization,
+              first: 50,
+              after: cursor,
+              members: TEAM_MEMBERS_PAGE_SIZE,
+            },
+          );
+        this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+
+        if (!response.organization) {
+          return err(new Error(`Organization not found: ${organization}`));
+        }
+
+        const page = response.organization.teams;
+        for (const team of page.nodes) {
+          const moreMembers: string[] = [];
+          let membersPage = team.members.pageInfo;
+          while (membersPage.hasNextPage) {
+            await this.rateLimiter.waitIfNeeded();
+            const membersResponse =
+              await this.query<GitHubGraphQLTeamMembersResponse>(
+                graphqlWithAuth,
+                "team members",
+                TEAM_MEMBERS_QUERY,
+                {
+                  organization,
+                  slug: team.slug,
+                  first: TEAM_MEMBERS_PAGE_SIZE,
+                  after: membersPage.endCursor,
+                },
+              );
+            this.rateLimiter.updateRateLimit(
+              mapRateLimit(membersResponse.rateLimit),
+            );
+
+            const members = membersResponse.organization?.team?.members;
+            if (!members) {
+              break; // Team removed while paging
+            }
+            moreMembers.push(...members.nodes.map((member) => member.login));
+            membersPage = members.pageInfo;
+          }
+          teams.push(mapOrganizationTeam(team, moreMembers));
+        }
+
+        hasNextPage = page.pageInfo.hasNextPage;
+        cursor = page.pageInfo.endCursor;
+      }
+
+      logger.info(`Fetched ${teams.length} teams of ${organization}`);
+      return ok(teams);
+    } catch (error: unknown) {
+      // Teams need read:org (or the Members permission of a GitHub App),
+      // which is only requested when importing teams
+      if (
+        error instanceof GraphqlResponseError &&
+        error.errors?.some(
+          (e) => e.type === "INSUFFICIENT_SCOPES" || e.type === "FORBIDDEN",
+        )
+      ) {
+        logger.warn("Token cannot read organization teams", { organization });
+        return err(new MissingScopeError(GITHUB_ORG_SCOPE));
+      }
+      return handleGraphQLError(error, "fetching organization teams");
+    }
+  }
+
+  /**
+   * Check whether the viewer is the owner, or a member of the owner
+   * organization (or can read one of its private repositories)
+   *
+   * @param owner Organization or user login
+   * @returns Result with the membership
+   */
+  async isOwnerMember(owner: string): Promise<Result<boolean>> {
+    try {
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner);
+      const response = await this.query<GitHubGraphQLOwnerMembershipResponse>(
+        graphqlWithAuth,
+        "owner membership",
+        OWNER_MEMBERSHIP_QUERY,
+        { owner },
+      );
+
+      const organization = response.repositoryOwner;
+      return ok(
+        response.viewer.login.toLowerCase() === owner.toLowerCase() ||
+          organization?.viewerIsAMember === true ||
+          (organization?.repositories?.totalCount ?? 0) > 0,
+      );
+    } catch (error: unknown) {
+      return handleGraphQLError(error, "checking owner membership");
+    }
+  }
+
   /**
    * Fetch a single page of commits from GitHub GraphQL API
    */
@@ -459,14 +1452,19 @@ export class OctokitAdapter implements IGitHubRepository {
     sinceDate?: Date,
     untilDate?: Date,
   ): Promise<GitHubGraphQLCommitsResponse> {
-    return await graphqlWithAuth<GitHubGraphQLCommitsResponse>(COMMITS_QUERY, {
-      owner,
-      repo,
-      first: 100,
-      after: cursor,
-      since: sinceDate?.toISOString(),
-      until: untilDate?.toISOString(),
-    });
+    return await this.query<GitHubGraphQLCommitsResponse>(
+      graphqlWithAuth,
+      "commits",
+      COMMITS_QUERY,
+      {
+        owner,
+        repo,
+        first: 100,
+        after: cursor,
+        since: sinceDate?.toISOString(),
+        until: untilDate?.toISOString(),
+      },
+    );
   }
 
   /**
@@ -481,78 +1479,570 @@ export class OctokitAdapter implements IGitHubRepository {
     untilDate?: Date,
   ): Promise<Result<GitCommit[]>> {
     try {
-      const graphqlWithAuth = await this.getGraphqlWithAuth();
-      const parsed = parseGitHubUrl(repoPath);
-
-      if (!parsed) {
-        return err(new Error(`Invalid GitHub URL: ${repoPath}`));
+      const parsed = this.parseRepoPath(repoPath);
+      if (!parsed.ok) {
+        return parsed;
       }
 
-      const { owner, repo } = parsed;
+      const { owner, repo } = parsed.value;
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
       const startTime = Date.now();
 
+      const syncStorage = await this.getSyncStorage(owner, repo);
+      if (syncStorage) {
+        const synced = await this.syncCommits(
+          syncStorage,
+          graphqlWithAuth,
+          owner,
+          repo,
+          sinceDate,
+          untilDate,
+        );
+        const duration = Date.now() - startTime;
+        logger.info(
+          `Successfully synced ${synced.length} commits via GraphQL in ${(duration / 1000).toFixed(2)}s`,
+        );
+        return ok(synced);
+      }
+
       const commits: GitCommit[] = [];
+      for await (const page of this.commitPages(
+        graphqlWithAuth,
+        owner,
+        repo,
+        sinceDate,
+        untilDate,
+      )) {
+        commits.push(...page);
+      }
 
-      let hasNextPage = true;
-      let cursor: string | null = null;
+      const duration = Date.now() - startTime;
+      logger.info(
+        `Successfully fetched ${commits.length} commits via GraphQL in ${(duration / 1000).toFixed(2)}s`,
+      );
+      return ok(commits);
+    } catch (error: any) {
+      logger.error("Failed to fetch commits via GraphQL", {
+        error: getErrorMessage(error),
+        status: error?.status,
+      });
+
+      return handleGraphQLError(error, "fetching commits");
+    }
+  }
+
+  /**
+   * Stream commit log from GitHub API
+   * With sync storage, commits come from the incremental sync (see
+   * syncedPages); without it, only one page is held at a time.
+   * @param repoPath Repository URL (not a local path in this implementation)
+   * @param sinceDate Optional date to filter commits (inclusive)
+   * @param untilDate Optional end date to filter commits (inclusive)
+   */
+  async *streamLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): AsyncIterable<GitCommit> {
+    const parsed = this.parseRepoPath(repoPath);
+    if (!parsed.ok) {
+      throw parsed.error;
+    }
+
+    try {
+      const { owner, repo } = parsed.value;
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
+
+      const syncStorage = await this.getSyncStorage(owner, repo);
+      const pages = syncStorage
+        ? this.syncedPages(() =>
+            this.syncCommits(
+              syncStorage,
+              graphqlWithAuth,
+              owner,
+              repo,
+              sinceDate,
+              untilDate,
+            ),
+          )
+        : this.commitPages(graphqlWithAuth, owner, repo, sinceDate, untilDate);
+
+      for await (const page of pages) {
+        yield* page;
+      }
+    } catch (error: unknown) {
+      const result = handleGraphQLError(error, "streaming commits");
+      throw result.ok ? error : result.error;
+    }
+  }
+
+  /**
+   * Yield the result of a sync as a single page
+   *
+   * Synced data is stored as one list, so it is held in memory as a whole;
+   * in exchange, only items changed since the watermark are fetched. When
+   * the rate limit runs out, the sync has checkpointed its cursor: the
+   * partial items are yielded, then the error is rethrown (without them)
+   * so the next run resumes from the cursor.
+   */
+  private async *syncedPages<T>(sync: () => Promise<T[]>): AsyncGenerator<T[]> {
+    let items: T[];
+    try {
+      items = await sync();
+    } catch (error: unknown) {
+      if (error instanceof RateLimitExhaustedError) {
+        yield error.partial as T[];
+        throw error.withPartial([]);
+      }
+      throw error;
+    }
+    yield items;
+  }
+
+  /**
+   * Parse a repository URL on the configured GitHub host
+   */
+  private parseRepoPath(
+    repoPath: string,
+  ): Result<{ owner: string; repo: string }> {
+    const parsed = parseGitHubUrl(repoPath);
+    if (!parsed) {
+      return err(new Error(`Invalid GitHub URL: ${repoPath}`));
+    }
+
+    // Never send the token to a host other than the one it was issued for
+    if (parsed.host !== this.host.hostname) {
+      return err(
+        new Error(
+          `Repository host ${parsed.host} does not match configured GitHub host ${this.host.hostname}`,
+        ),
+      );
+    }
+
+    return ok({ owner: parsed.owner, repo: parsed.repo });
+  }
+
+  /**
+   * Page through the default branch history (merge commits excluded)
+   */
+  private async *commitPages(
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): AsyncGenerator<GitCommit[]> {
+    let hasNextPage = true;
+    let cursor: string | null = null;
+
+    while (hasNextPage) {
+      await this.rateLimiter.waitIfNeeded();
+
+      // Execute GraphQL query with all commit details in one request
+      const response = await this.fetchCommitsPage(
+        graphqlWithAuth,
+        owner,
+        repo,
+        cursor,
+        sinceDate,
+        untilDate,
+      );
+
+      // Check if repository has a default branch
+      if (!response.repository.defaultBranchRef) {
+        logger.warn("Repository has no default branch or is empty");
+        return;
+      }
+
+      // Update rate limit info from GraphQL response
+      this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+
+      const { nodes, pageInfo } =
+        response.repository.defaultBranchRef.target.history;
+      this.report({
+        type: ProgressEventType.PAGE_FETCHED,
+        resource: "commits",
+        items: nodes.length,
+      });
 
+      // Update pagination state
+      hasNextPage = pageInfo.hasNextPage;
+      cursor = pageInfo.endCursor;
+
+      // Transform GraphQL response to domain entities (skipping merge commits)
+      yield nodes
+        .filter((commitData) => !isMergeCommit(commitData))
+        .map(mapCommit);
+    }
+  }
+
+  /**
+   * Resolve sync storage for the owner's credentials, if configured
+   */
+  private async getSyncStorage(
+    owner: string,
+    repo: string,
+  ): Promise<IStoragePort | null> {
+    if (!this.options.syncStorage) {
+      return null;
+    }
+    return this.options.syncStorage(
+      (await this.getClient(owner, repo)).credentialId,
+    );
+  }
+
+  /**
+   * Load stored sync state (failures are logged and treated as no state)
+   */
+  private async loadSyncState<T>(
+    storage: IStoragePort,
+    key: string,
+  ): Promise<T | null> {
+    const result = await storage.load<T>(key);
+    if (!result.ok) {
+      logger.warn("Failed to load sync state, running full sync", {
+        key,
+        error: result.error.message,
+      });
+      return null;
+    }
+    return result.value;
+  }
+
+  /**
+   * Save sync state (failures are logged; the next sync runs in full)
+   */
+  private async saveSyncState<T>(
+    storage: IStoragePort,
+    key: string,
+    state: T,
+  ): Promise<void> {
+    const result = await storage.save(key, state);
+    if (!result.ok) {
+      logger.warn("Failed to save sync state", {
+        key,
+        error: result.error.message,
+      });
+    }
+  }
+
+  /**
+   * Load a pagination checkpoint that can be resumed
+   * Stale checkpoints and checkpoints of a different run are ignored.
+   */
+  private async loadCheckpoint<T extends { savedAt: string; context?: string }>(
+    storage: IStoragePort,
+    key: string,
+    context?: string,
+  ): Promise<T | null> {
+    const checkpoint = await this.loadSyncState<T>(storage, key);
+    return checkpoint && isCheckpointUsable(checkpoint, context)
+      ? checkpoint
+      : null;
+  }
+
+  /**
+   * Remove a checkpoint once its run has completed
+   */
+  private async removeCheckpoint(
+    storage: IStoragePort,
+    key: string,
+  ): Promise<void> {
+    const result = await storage.remove(key);
+    if (!result.ok) {
+      logger.warn("Failed to remove checkpoint", {
+        key,
+        error: result.error.message,
+      });
+    }
+  }
+
+  /**
+   * Sync pull requests incrementally using the stored updatedAt watermark
+   * Returns every stored PR updated since sinceDate; callers filter by window.
+   *
+   * - First sync (or wider window than stored): pages back until PRs were
+   *   last updated before sinceDate
+   * - Later syncs: pages back only until the stored watermark and merges
+   *   the updated PRs into stored data
+   *
+   * If the rate limit runs out, the pages fetched so far and the next cursor
+   * are checkpointed and a RateLimitExhaustedError carries the merged
+   * partial result. The next sync with the same watermark resumes there.
+   */
+  private async syncPullRequests(
+    storage: IStoragePort,
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+  ): Promise<PullRequest[]> {
+    const key = getSyncStateKey(owner, repo, "pull_requests");
+    const stored = await this.loadSyncState<PullRequestSyncState>(storage, key);
+
+    // Stored data is only reusable if it covers the requested window
+    const base =
+      stored && coversSince(stored.watermark.coveredSince, sinceDate)
+        ? stored
+        : null;
+    const stopAt = base?.watermark.lastUpdatedAt
+      ? new Date(base.watermark.lastUpdatedAt)
+      : sinceDate;
+
+    logger.debug("Syncing pull requests via GraphQL", {
+      owner,
+      repo,
+      mode: base ? "incremental" : "full",
+      stopAt: stopAt?.toISOString(),
+    });
+
+    const checkpointKey = getCheckpointKey(owner, repo, "pull_requests");
+    const context = `${base?.watermark.lastUpdatedAt ?? ""}|${stopAt?.toISOString() ?? ""}`;
+    const checkpoint = await this.loadCheckpoint<PullRequestCheckpoint>(
+      storage,
+      checkpointKey,
+      context,
+    );
+
+    const fetched: GitHubGraphQLPullRequestSummary[] = [
+      ...(checkpoint?.items ?? []),
+    ];
+    let hasNextPage = true;
+    let cursor: string | null = checkpoint?.cursor ?? null;
+
+    if (checkpoint) {
+      logger.info(
+        `Resuming pull request sync from checkpoint (${fetched.length} already fetched)`,
+      );
+    }
+
+    try {
       while (hasNextPage) {
         await this.rateLimiter.waitIfNeeded();
 
-        // Execute GraphQL query with all commit details in one request
+        const response: GitHubGraphQLPullRequestsByUpdatedResponse =
+          await this.query<GitHubGraphQLPullRequestsByUpdatedResponse>(
+            graphqlWithAuth,
+            "pullRequestsByUpdated",
+            PULL_REQUESTS_BY_UPDATED_QUERY,
+            {
+              owner,
+              repo,
+              first: 100,
+              after: cursor,
+            },
+          );
+
+        this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+
+        const nodes = response.repository.pullRequests.nodes;
+        const updated = stopAt
+          ? nodes.filter((pr) => new Date(pr.updatedAt) >= stopAt)
+          : nodes;
+        fetched.push(...updated);
+        this.report({
+          type: ProgressEventType.PAGE_FETCHED,
+          resource: "pull_requests",
+          items: updated.length,
+        });
+
+        // Early termination: everything past this point is already stored
+        if (updated.length < nodes.length) {
+          break;
+        }
+
+        hasNextPage = response.repository.pullRequests.pageInfo.hasNextPage;
+        cursor = response.repository.pullRequests.pageInfo.endCursor;
+      }
+    } catch (error: unknown) {
+      if (error instanceof RateLimitExhaustedError) {
+        await this.saveSyncState<PullRequestCheckpoint>(
+          storage,
+          checkpointKey,
+          {
+            context,
+            cursor,
+            items: fetched,
+            savedAt: new Date().toISOString(),
+          },
+        );
+        throw error.withPartial(
+          mergePullRequests(base?.pullRequests ?? [], fetched).map(
+            mapPullRequest,
+          ),
+        );
+      }
+      throw error;
+    }
+
+    if (checkpoint) {
+      await this.removeCheckpoint(storage, checkpointKey);
+    }
+
+    const pullRequests = mergePullRequests(base?.pullRequests ?? [], fetched);
+    await this.saveSyncState<PullRequestSyncState>(storage, key, {
+      watermark: {
+        lastUpdatedAt: getLatestUpdatedAt(
+          fetched,
+          base?.watermark.lastUpdatedAt ?? null,
+        ),
+        coveredSince: base
+          ? base.watermark.coveredSince
+          : (sinceDate?.toISOString() ?? null),
+        syncedAt: new Date().toISOString(),
+      },
+      pullRequests,
+    });
+
+    logger.info(
+      `Synced ${fetched.length} updated pull requests via GraphQL (${pullRequests.length} stored)`,
+    );
+
+    return pullRequests.map(mapPullRequest);
+  }
+
+  /**
+   * Sync default-branch commits incrementally using the last seen oid
+   *
+   * - First sync (or wider window than stored): pages back to sinceDate
+   * - Later syncs: pages back only until the previously seen head commit
+   *   and prepends the new commits to stored data. If that commit is no
+   *   longer in history (force push), the fetched window replaces stored data.
+   *
+   * Running out of rate limit is checkpointed like syncPullRequests.
+   */
+  private async syncCommits(
+    storage: IStoragePort,
+    graphqlWithAuth: typeof graphql,
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<GitCommit[]> {
+    const key = getSyncStateKey(owner, repo, "commits");
+    const stored = await this.loadSyncState<CommitSyncState>(storage, key);
+
+    const base =
+      stored && coversSince(stored.watermark.coveredSince, sinceDate)
+        ? stored
+        : null;
+    const since = base
+      ? base.watermark.coveredSince
+        ? new Date(base.watermark.coveredSince)
+        : undefined
+      : sinceDate;
+    const lastSeenOid = base?.watermark.lastSeenOid ?? null;
+
+    logger.debug("Syncing commits via GraphQL", {
+      owner,
+      repo,
+      mode: base ? "incremental" : "full",
+      lastSeenOid,
+    });
+
+    const checkpointKey = getCheckpointKey(owner, repo, "commits");
+    const context = `${lastSeenOid ?? ""}|${since?.toISOString() ?? ""}`;
+    const checkpoint = await this.loadCheckpoint<CommitCheckpoint>(
+      storage,
+      checkpointKey,
+      context,
+    );
+
+    const fetched: GitHubGraphQLCommit[] = [...(checkpoint?.items ?? [])];
+    let headOid: string | null = checkpoint?.headOid ?? null;
+    let reachedWatermark = false;
+    let hasNextPage = true;
+    let cursor: string | null = checkpoint?.cursor ?? null;
+
+    if (checkpoint) {
+      logger.info(
+        `Resuming commit sync from checkpoint (${fetched.length} already fetched)`,
+      );
+    }
+
+    const inWindow = (commit: GitCommit) =>
+      (!sinceDate || commit.date >= sinceDate) &&
+      (!untilDate || commit.date <= untilDate);
+
+    try {
+      while (hasNextPage && !reachedWatermark) {
+        await this.rateLimiter.waitIfNeeded();
+
+        // Fetch up to the branch head; untilDate is applied after merging
         const response = await this.fetchCommitsPage(
           graphqlWithAuth,
           owner,
           repo,
           cursor,
-          sinceDate,
-          untilDate,
+          since,
         );
 
-        // Check if repository has a default branch
         if (!response.repository.defaultBranchRef) {
           logger.warn("Repository has no default branch or is empty");
           break;
         }
 
-        // Transform GraphQL response to domain entities using mapper
-        const commitNodes =
-          response.repository.defaultBranchRef.target.history.nodes;
+        this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
 
-        for (const commitData of commitNodes) {
+        const history = response.repository.defaultBranchRef.target.history;
+        for (const commitData of history.nodes) {
+          headOid ??= commitData.oid;
+          if (commitData.oid === lastSeenOid) {
+            reachedWatermark = true;
+            break;
+          }
           // Skip merge commits
-          if (isMergeCommit(commitData)) {
-            continue;
+          if (!isMergeCommit(commitData)) {
+            fetched.push(commitData);
           }
-
-          commits.push(mapCommit(commitData));
         }
+        this.report({
+          type: ProgressEventType.PAGE_FETCHED,
+          resource: "commits",
+          items: history.nodes.length,
+        });
 
-        // Update pagination state
-        hasNextPage =
-          response.repository.defaultBranchRef.target.history.pageInfo
-            .hasNextPage;
-        cursor =
-          response.repository.defaultBranchRef.target.history.pageInfo
-            .endCursor;
-
-        // Update rate limit info from GraphQL response
-        this.rateLimiter.updateRateLimit(mapRateLimit(response.rateLimit));
+        hasNextPage = history.pageInfo.hasNextPage;
+        cursor = history.pageInfo.endCursor;
       }
+    } catch (error: unknown) {
+      if (error instanceof RateLimitExhaustedError) {
+        await this.saveSyncState<CommitCheckpoint>(storage, checkpointKey, {
+          context,
+          cursor,
+          headOid,
+          items: fetched,
+          savedAt: new Date().toISOString(),
+        });
+        throw error.withPartial(
+          mergeCommits(fetched, base?.commits ?? [])
+            .map(mapCommit)
+            .filter(inWindow),
+        );
+      }
+      throw error;
+    }
 
-      const duration = Date.now() - startTime;
-      logger.info(
-        `Successfully fetched ${commits.length} commits via GraphQL in ${(duration / 1000).toFixed(2)}s`,
-      );
-      return ok(commits);
-    } catch (error: any) {
-      logger.error("Failed to fetch commits via GraphQL", {
-        error: getErrorMessage(error),
-        status: error?.status,
-      });
-
-      return handleGraphQLError(error, "fetching commits");
+    if (checkpoint) {
+      await this.removeCheckpoint(storage, checkpointKey);
     }
+
+    const commits =
+      base && reachedWatermark ? mergeCommits(fetched, base.commits) : fetched;
+    await this.saveSyncState<CommitSyncState>(storage, key, {
+      watermark: {
+        lastSeenOid: headOid ?? lastSeenOid,
+        coveredSince: since?.toISOString() ?? null,
+        syncedAt: new Date().toISOString(),
+      },
+      commits,
+    });
+
+    logger.info(
+      `Synced ${fetched.length} new commits via GraphQL (${commits.length} stored)`,
+    );
+
+    return commits.map(mapCommit).filter(inWindow);
   }
 
   /**
@@ -562,13 +2052,15 @@ export class OctokitAdapter implements IGitHubRepository {
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
   ): Promise<Result<Release[]>> {
     try {
-      const graphqlWithAuth = await this.getGraphqlWithAuth();
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
       logger.debug("Fetching releases via GraphQL", {
         owner,
         repo,
         sinceDate: sinceDate?.toISOString(),
+        untilDate: untilDate?.toISOString(),
       });
 
       const allReleases: Release[] = [];
@@ -581,30 +2073,35 @@ export class OctokitAdapter implements IGitHubRepository {
 
         // Execute GraphQL query
         const response: GitHubGraphQLReleasesResponse =
-          await graphqlWithAuth<GitHubGraphQLReleasesResponse>(RELEASES_QUERY, {
-            owner,
-            repo,
-            first: 100,
-            after: cursor,
-          });
+          await this.query<GitHubGraphQLReleasesResponse>(
+            graphqlWithAuth,
+            "releases",
+            RELEASES_QUERY,
+            {
+              owner,
+              repo,
+              first: 100,
+              after: cursor,
+            },
+          );
 
         // Transform GraphQL response to domain entities using mapper
         const releases = response.repository.releases.nodes.map(mapRelease);
 
         // Filter by date if provided (early termination)
-        const filteredReleases = sinceDate
-          ? releases.filter((release: Release) => {
-              const releaseDate = new Date(
-                release.publishedAt ?? release.createdAt,
-              );
-              return releaseDate >= sinceDate;
-            })
-          : releases;
-
-        allReleases.push(...filteredReleases);
+        const releaseDate = (release: Release) =>
+          new Date(release.publishedAt ?? release.createdAt);
+        allReleases.push(
+          ...releases.filter((release) =>
+            isWithinWindow(releaseDate(release), sinceDate, untilDate),
+          ),
+        );
 
         // Early termination: Stop if we've reached releases older than sinceDate
-        if (sinceDate && filteredReleases.length < releases.length) {
+        if (
+          sinceDate &&
+          releases.some((release) => releaseDate(release) < sinceDate)
+        ) {
           logger.info(
             "Reached releases older than sinceDate, stopping pagination",
           );
@@ -633,13 +2130,15 @@ export class OctokitAdapter implements IGitHubRepository {
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
   ): Promise<Result<Deployment[]>> {
     try {
-      const graphqlWithAuth = await this.getGraphqlWithAuth();
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
       logger.debug("Fetching deployments via GraphQL", {
         owner,
         repo,
         sinceDate: sinceDate?.toISOString(),
+        untilDate: untilDate?.toISOString(),
       });
 
       const allDeployments: Deployment[] = [];
@@ -652,7 +2151,9 @@ export class OctokitAdapter implements IGitHubRepository {
 
         // Execute GraphQL query
         const response: GitHubGraphQLDeploymentsResponse =
-          await graphqlWithAuth<GitHubGraphQLDeploymentsResponse>(
+          await this.query<GitHubGraphQLDeploymentsResponse>(
+            graphqlWithAuth,
+            "deployments",
             DEPLOYMENTS_QUERY,
             {
               owner,
@@ -667,17 +2168,21 @@ export class OctokitAdapter implements IGitHubRepository {
           response.repository.deployments.nodes.map(mapDeployment);
 
         // Filter by date if provided (early termination)
-        const filteredDeployments = sinceDate
-          ? deployments.filter((deployment: Deployment) => {
-              const deploymentDate = new Date(deployment.createdAt);
-              return deploymentDate >= sinceDate;
-            })
-          : deployments;
-
-        allDeployments.push(...filteredDeployments);
+        const deploymentDate = (deployment: Deployment) =>
+          new Date(deployment.createdAt);
+        allDeployments.push(
+          ...deployments.filter((deployment) =>
+            isWithinWindow(deploymentDate(deployment), sinceDate, untilDate),
+          ),
+        );
 
         // Early termination: Stop if we've reached deployments older than sinceDate
-        if (sinceDate && filteredDeployments.length < deployments.length) {
+        if (
+          sinceDate &&
+          deployments.some(
+            (deployment) => deploymentDate(deployment) < sinceDate,
+          )
+        ) {
           logger.info(
             "Reached deployments older than sinceDate, stopping pagination",
           );
@@ -706,13 +2211,15 @@ export class OctokitAdapter implements IGitHubRepository {
     owner: string,
     repo: string,
     sinceDate?: Date,
+    untilDate?: Date,
   ): Promise<Result<Tag[]>> {
     try {
-      const graphqlWithAuth = await this.getGraphqlWithAuth();
+      const graphqlWithAuth = await this.getGraphqlWithAuth(owner, repo);
       logger.debug("Fetching tags via GraphQL", {
         owner,
         repo,
         sinceDate: sinceDate?.toISOString(),
+        untilDate: untilDate?.toISOString(),
       });
 
       const allTags: Tag[] = [];
@@ -725,31 +2232,33 @@ export class OctokitAdapter implements IGitHubRepository {
 
         // Execute GraphQL query
         const response: GitHubGraphQLTagsResponse =
-          await graphqlWithAuth<GitHubGraphQLTagsResponse>(TAGS_QUERY, {
-            owner,
-            repo,
-            first: 100,
-            after: cursor,
-          });
+          await this.query<GitHubGraphQLTagsResponse>(
+            graphqlWithAuth,
+            "tags",
+            TAGS_QUERY,
+            {
+              owner,
+              repo,
+              first: 100,
+              after: cursor,
+            },
+          );
 
         // Transform GraphQL response to domain entities using mapper
         const tags = response.repository.refs.nodes.map(mapTag);
 
         // Filter by date if provided (early termination)
-        const filteredTags = sinceDate
-          ? tags.filter((tag: Tag) => {
-              // Get date from either annotated tag or lightweight tag (commit)
-              const tagDate = new Date(
-                tag.target.tagger?.date ?? tag.target.committedDate ?? "",
-              );
-              return tagDate >= sinceDate;
-            })
-          : tags;
-
-        allTags.push(...filteredTags);
+        // Get date from either annotated tag or lightweight tag (commit)
+        const tagDate = (tag: Tag) =>
+          new Date(tag.target.tagger?.date ?? tag.target.committedDate ?? "");
+        allTags.push(
+          ...tags.filter((tag) =>
+            isWithinWindow(tagDate(tag), sinceDate, untilDate),
+          ),
+        );
 
         // Early termination: Stop if we've reached tags older than sinceDate
-        if (sinceDate && filteredTags.length < tags.length) {
+        if (sinceDate && tags.some((tag) => tagDate(tag) < sinceDate)) {
           logger.info("Reached tags older than sinceDate, stopping pagination");
           break;
         }
@@ -1,27 +1,79 @@
 import { RateLimitInfo } from "@/domain/interfaces/IGitHubRepository";
 import { logger } from "@/lib/utils/logger";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
+
+/**
+ * Rate limit state of a token
+ * Shared by the RateLimiters of all adapters using the token.
+ */
+export interface RateLimitState {
+  info: RateLimitInfo | null;
+  requestCount: number;
+}
+
+/**
+ * RateLimiter configuration
+ */
+export interface RateLimiterOptions {
+  /**
+   * Waits between requests (injectable so callers can report or cancel waits)
+   */
+  sleep?: (ms: number) => Promise<void>;
+
+  /**
+   * Longest wait worth sitting through (default: no limit).
+   * Longer waits throw RateLimitExhaustedError instead.
+   */
+  maxWaitMs?: number;
+}
 
 /**
  * Rate limiter for GitHub API requests
  * Tracks rate limit status and delays requests when necessary
  */
 export class RateLimiter {
-  private rateLimitInfo: RateLimitInfo | null = null;
-  private requestCount = 0;
+  private state: RateLimitState = { info: null, requestCount: 0 };
+
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly maxWaitMs: number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.sleep =
+      options.sleep ??
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.maxWaitMs = options.maxWaitMs ?? Infinity;
+  }
+
+  /**
+   * Track the rate limit state shared with other limiters of the same token
+   * (e.g. RequestScheduler.rateLimitState)
+   */
+  share(state: RateLimitState): void {
+    this.state = state;
+  }
 
   /**
    * Update rate limit information
    * Should be called after each API request to track current status
+   * With a shared state, responses that arrive out of order do not raise
+   * the remaining budget of the same reset window.
    */
   updateRateLimit(rateLimitInfo: RateLimitInfo): void {
-    this.rateLimitInfo = rateLimitInfo;
-    this.requestCount++;
+    const current = this.state.info;
+    const isStale =
+      current !== null &&
+      current.resetAt.getTime() === rateLimitInfo.resetAt.getTime() &&
+      current.remaining < rateLimitInfo.remaining;
+    if (!isStale) {
+      this.state.info = rateLimitInfo;
+    }
+    this.state.requestCount++;
 
     logger.debug("Rate limit updated", {
       remaining: rateLimitInfo.remaining,
       limit: rateLimitInfo.limit,
       resetAt: rateLimitInfo.resetAt.toISOString(),
-      requestCount: this.requestCount,
+      requestCount: this.state.requestCount,
     });
   }
 
@@ -30,11 +82,11 @@ export class RateLimiter {
    * Returns delay in milliseconds, or 0 if no delay needed
    */
   getDelay(): number {
-    if (!this.rateLimitInfo) {
+    if (!this.state.info) {
       return 0; // No rate limit info yet
     }
 
-    const { remaining, resetAt } = this.rateLimitInfo;
+    const { remaining, resetAt } = this.state.info;
 
     // If we have plenty of requests remaining, no delay
     if (remaining > 100) {
@@ -83,10 +135,19 @@ export class RateLimiter {
   /**
    * Wait if necessary before making next request
    * Returns a promise that resolves when it's safe to proceed
+   * @throws RateLimitExhaustedError if the wait is longer than maxWaitMs
    */
   async waitIfNeeded(): Promise<void> {
     const delay = this.getDelay();
 
+    if (delay > this.maxWaitMs) {
+      logger.warn("Rate limit wait too long, giving up until reset", {
+        waitMs: delay,
+        maxWaitMs: this.maxWaitMs,
+      });
+      throw new RateLimitExhaustedError(new Date(Date.now() + delay));
+    }
+
     if (delay > 0) {
       logger.info(`Waiting ${delay}ms before next request due to rate limit`);
       await this.sleep(delay);
@@ -97,25 +158,25 @@ export class RateLimiter {
    * Check if rate limit is exhausted
    */
   isExhausted(): boolean {
-    if (!this.rateLimitInfo) {
+    if (!this.state.info) {
       return false;
     }
 
-    return this.rateLimitInfo.remaining === 0;
+    return this.state.info.remaining === 0;
   }
 
   /**
    * Get current rate limit information
    */
   getRateLimitInfo(): RateLimitInfo | null {
-    return this.rateLimitInfo;
+    return this.state.info;
   }
 
   /**
    * Get total number of requests made
    */
   getRequestCount(): number {
-    return this.requestCount;
+    return this.state.requestCount;
   }
 
   /**
@@ -123,39 +184,32 @@ export class RateLimiter {
    * Useful for testing or when switching tokens
    */
   reset(): void {
-    this.rateLimitInfo = null;
-    this.requestCount = 0;
+    this.state.info = null;
+    this.state.requestCount = 0;
     logger.debug("Rate limiter reset");
   }
 
-  /**
-   * Sleep for specified milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   /**
    * Calculate percentage of rate limit remaining
    */
   getRemainingPercentage(): number {
-    if (!this.rateLimitInfo) {
+    if (!this.state.info) {
       return 100;
     }
 
-    return (this.rateLimitInfo.remaining / this.rateLimitInfo.limit) * 100;
+    return (this.state.info.remaining / this.state.info.limit) * 100;
   }
 
   /**
    * Get time remaining until rate limit reset
    */
   getTimeUntilReset(): number {
-    if (!this.rateLimitInfo) {
+    if (!this.state.info) {
       return 0;
     }
 
     const now = new Date();
-    const msUntilReset = this.rateLimitInfo.resetAt.getTime() - now.getTime();
+    const msUntilReset = this.state.info.resetAt.getTime() - now.getTime();
 
     return Math.max(0, msUntilReset);
   }
@@ -164,11 +218,11 @@ export class RateLimiter {
    * Format rate limit status as human-readable string
    */
   getStatusMessage(): string {
-    if (!this.rateLimitInfo) {
+    if (!this.state.info) {
       return "No rate limit information available";
     }
 
-    const { remaining, limit, resetAt } = this.rateLimitInfo;
+    const { remaining, limit, resetAt } = this.state.info;
     const percentage = this.getRemainingPercentage().toFixed(1);
     const timeUntilReset = Math.ceil(this.getTimeUntilReset() / 1000 / 60); // minutes
 
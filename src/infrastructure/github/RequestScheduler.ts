@@ -0,0 +1,281 @@
+import { createHash } from "crypto";
+import { createAbortError, isAbortError } from "@/lib/utils/abort";
+import { logger } from "@/lib/utils/logger";
+import { RateLimitState } from "./RateLimiter";
+
+/**
+ * Scheduling lane of a GitHub request
+ * Queued interactive requests always start before queued background ones.
+ */
+export const RequestPriority = {
+  /** Dashboard widgets a user is waiting for */
+  INTERACTIVE: "interactive",
+  /** Long-running work such as the full contributor analysis */
+  BACKGROUND: "background",
+} as const;
+export type RequestPriority =
+  (typeof RequestPriority)[keyof typeof RequestPriority];
+
+/**
+ * RequestScheduler configuration
+ */
+export interface RequestSchedulerOptions {
+  maxConcurrency?: number; // Requests running at once (default: 4)
+}
+
+/**
+ * Options of one scheduled request
+ */
+export interface ScheduleOptions {
+  priority?: RequestPriority; // Default: interactive
+  signal?: AbortSignal; // Leaves the queue while waiting for a slot
+}
+
+/**
+ * Default request concurrency per token
+ * GitHub's secondary rate limits punish bursts of concurrent requests, and
+ * every request of a token draws from the same hourly budget.
+ */
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * How long an idle scheduler is kept for its token
+ * Rate limits reset hourly, so an older state is stale anyway; rotating
+ * OAuth tokens would otherwise leave one scheduler per token behind.
+ */
+const IDLE_SCHEDULER_TTL_MS = 60 * 60_000;
+
+/**
+ * A request waiting for a free slot
+ */
+interface QueuedRequest {
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Scheduler for the GitHub requests of one token
+ *
+ * All adapters using the same token (e.g. the EnvTokenAdapter token or a
+ * shared GitHub App token) share one scheduler, so concurrent users of
+ * that token:
+ * - Run at most maxConcurrency requests at once
+ * - Queue interactive requests ahead of background ones
+ * - See the same rate limit state (remaining budget and reset time)
+ * - Share identical in-flight requests instead of sending them twice
+ *
+ * Usage:
+ * ```typescript
+ * const scheduler = getRequestScheduler(token);
+ * const response = await scheduler.share(key, () =>
+ *   scheduler.run(() => graphqlWithAuth(query, variables), { signal }),
+ * );
+ * ```
+ */
+export class RequestScheduler {
+  /**
+   * Rate limit state shared by the RateLimiters of this token's adapters
+   */
+  readonly rateLimitState: RateLimitState = {
+    info: null,
+    requestCount: 0,
+  };
+
+  private readonly maxConcurrency: number;
+  private running = 0;
+  private readonly queues: Record<RequestPriority, QueuedRequest[]> = {
+    [RequestPriority.INTERACTIVE]: [],
+    [RequestPriority.BACKGROUND]: [],
+  };
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private lastActiveAt = Date.now();
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrency = Math.max(
+      1,
+      options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY,
+    );
+  }
+
+  /**
+   * Number of requests currently running
+   */
+  get activeCount(): number {
+    return this.running;
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  get queuedCount(): number {
+    return (
+      this.queues[RequestPriority.INTERACTIVE].length +
+      this.queues[RequestPriority.BACKGROUND].length
+    );
+  }
+
+  /**
+   * Check if nothing ran, waited or was shared since the given time
+   */
+  isIdleSince(time: number): boolean {
+    return (
+      this.running === 0 &&
+      this.queuedCount === 0 &&
+      this.inFlight.size === 0 &&
+      this.lastActiveAt < time
+    );
+  }
+
+  /**
+   * Record that the scheduler is in use (it is not evicted while idle
+   * for less than the TTL afterwards)
+   */
+  touch(now: number = Date.now()): void {
+    this.lastActiveAt = Math.max(this.lastActiveAt, now);
+  }
+
+  /**
+   * Run a request once a slot is free
+   * Rejects with an AbortError if the signal is aborted while queued.
+   */
+  async run<T>(
+    request: () => Promise<T>,
+    options: ScheduleOptions = {},
+  ): Promise<T> {
+    await this.acquire(
+      options.priority ?? RequestPriority.INTERACTIVE,
+      options.signal,
+    );
+    try {
+      return await request();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Share an identical request that is already in flight
+   *
+   * Callers passing the same key while a request is running receive its
+   * result instead of sending their own. When the shared request was
+   * cancelled by the caller that started it, the others send their own
+   * request unless they were cancelled too.
+   */
+  async share<T>(
+    key: string,
+    request: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (pending) {
+      try {
+        return await pending;
+      } catch (error: unknown) {
+        if (!isAbortError(error) || signal?.aborted) {
+          throw error;
+        }
+        logger.debug("Shared request was cancelled, sending it again", {
+          key,
+        });
+      }
+      return this.share(key, request, signal);
+    }
+
+    const promise = request();
+    this.inFlight.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Wait for a free slot in the given lane
+   */
+  private acquire(
+    priority: RequestPriority,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    this.touch();
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+    if (this.running < this.maxConcurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const queue = this.queues[priority];
+      const onAbort = () => entry.cancel();
+      const entry: QueuedRequest = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        cancel: () => {
+          const index = queue.indexOf(entry);
+          if (index >= 0) {
+            queue.splice(index, 1);
+          }
+          reject(createAbortError());
+        },
+      };
+      queue.push(entry);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Hand the slot to the next queued request, interactive lane first
+   */
+  private release(): void {
+    this.touch();
+    const next =
+      this.queues[RequestPriority.INTERACTIVE].shift() ??
+      this.queues[RequestPriority.BACKGROUND].shift();
+    if (next) {
+      next.start(); // The slot passes on; the running count is unchanged
+    } else {
+      this.running--;
+    }
+  }
+}
+
+/**
+ * Process-wide schedulers, one per token
+ */
+const schedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Get the scheduler shared by all requests made with an access token
+ * Schedulers are keyed by a truncated hash; the token itself is not kept.
+ * Schedulers idle for longer than the TTL are evicted when a new one is
+ * created.
+ *
+ * @param now Clock (injectable for tests)
+ */
+export function getRequestScheduler(
+  accessToken: string,
+  now: number = Date.now(),
+): RequestScheduler {
+  const key = createHash("sha256")
+    .update(accessToken)
+    .digest("hex")
+    .slice(0, 16);
+  let scheduler = schedulers.get(key);
+  if (!scheduler) {
+    for (const [staleKey, stale] of schedulers) {
+      if (stale.isIdleSince(now - IDLE_SCHEDULER_TTL_MS)) {
+        schedulers.delete(staleKey);
+      }
+    }
+    scheduler = new RequestScheduler();
+    schedulers.set(key, scheduler);
+  }
+  scheduler.touch(now);
+  return scheduler;
+}
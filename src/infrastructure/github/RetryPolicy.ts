@@ -0,0 +1,320 @@
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { isAbortError } from "@/lib/utils/abort";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
+
+/**
+ * Why a GitHub request is retried
+ */
+export const RetryReason = {
+  /** Abuse detection (403/429 with "secondary rate limit") */
+  SECONDARY_RATE_LIMIT: "secondary_rate_limit",
+  /** Primary limit exhausted (GraphQL RATE_LIMITED, remaining 0) */
+  RATE_LIMITED: "rate_limited",
+  /** Query too large for GitHub (502/504, timeout, RESOURCE_LIMITS_EXCEEDED) */
+  QUERY_TOO_LARGE: "query_too_large",
+  /** Transient server failure (500/503) */
+  SERVER_ERROR: "server_error",
+} as const;
+export type RetryReason = (typeof RetryReason)[keyof typeof RetryReason];
+
+/**
+ * Classification of a retryable failure
+ */
+export interface RetryableFailure {
+  reason: RetryReason;
+  retryAfterMs: number | null; // Server-requested wait (Retry-After / reset)
+}
+
+/**
+ * RetryPolicy configuration
+ */
+export interface RetryPolicyOptions {
+  maxAttempts?: number; // Attempts per request, including the first
+  baseDelayMs?: number; // Backoff base for the first retry
+  maxDelayMs?: number; // Backoff cap (server-requested waits are honored up to maxWaitMs)
+  maxWaitMs?: number; // Longest server-requested wait worth honoring
+  retryBudget?: number; // Retries shared by all requests of this policy
+  minPageSize?: number; // Page size is never halved below this
+  random?: () => number; // Jitter source
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Wait assumed for a rate limit without Retry-After or reset headers
+ * (GitHub asks clients to wait at least a minute after a secondary limit)
+ */
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60_000;
+
+const DEFAULT_OPTIONS: Required<RetryPolicyOptions> = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  maxWaitMs: 5 * 60_000,
+  retryBudget: 20,
+  minPageSize: 10,
+  random: Math.random,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * Header lookup on @octokit errors
+ * RequestError carries response.headers; GraphqlResponseError carries headers.
+ */
+function getHeader(error: object, name: string): string | undefined {
+  const headers =
+    ("response" in error &&
+    error.response &&
+    typeof error.response === "object" &&
+    "headers" in error.response
+      ? error.response.headers
+      : "headers" in error
+        ? error.headers
+        : undefined) ?? {};
+  const value = (headers as Record<string, unknown>)[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * HTTP status of an @octokit error (RequestError.status or headers.status)
+ */
+function getStatus(error: object): number | undefined {
+  if ("status" in error && typeof error.status === "number") {
+    return error.status;
+  }
+  const status = getHeader(error, "status");
+  return status ? parseInt(status, 10) : undefined;
+}
+
+/**
+ * GraphQL error types of a GraphqlResponseError
+ */
+function getGraphQLErrorTypes(error: object): string[] {
+  if (!("errors" in error) || !Array.isArray(error.errors)) {
+    return [];
+  }
+  return error.errors
+    .map((e: { type?: unknown }) => e?.type)
+    .filter((type): type is string => typeof type === "string");
+}
+
+/**
+ * Server-requested wait: Retry-After seconds, else the rate limit reset
+ * when no requests remain
+ */
+function getRetryAfterMs(error: object, now: number): number | null {
+  const retryAfter = getHeader(error, "retry-after");
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = getHeader(error, "x-ratelimit-reset");
+  if (getHeader(error, "x-ratelimit-remaining") === "0" && reset) {
+    return Math.max(0, parseInt(reset, 10) * 1000 - now);
+  }
+
+  return null;
+}
+
+/**
+ * Classify an error thrown by @octokit/graphql
+ * Returns null for errors that a retry cannot fix (auth, not found, ...).
+ */
+export function classifyRetryableError(
+  error: unknown,
+  now: number = Date.now(),
+): RetryableFailure | null {
+  // Cancelled requests (fetch reports them with status 500) are final
+  if (!error || typeof error !== "object" || isAbortError(error)) {
+    return null;
+  }
+
+  const status = getStatus(error);
+  const types = getGraphQLErrorTypes(error);
+  const message =
+    "message" in error && typeof error.message === "string"
+      ? error.message.toLowerCase()
+      : "";
+  const retryAfterMs = getRetryAfterMs(error, now);
+
+  if (
+    message.includes("secondary rate limit") ||
+    message.includes("abuse detection") ||
+    status === 429
+  ) {
+    return { reason: RetryReason.SECONDARY_RATE_LIMIT, retryAfterMs };
+  }
+
+  if (
+    types.includes("RATE_LIMITED") ||
+    (status === 403 && getHeader(error, "x-ratelimit-remaining") === "0")
+  ) {
+    return { reason: RetryReason.RATE_LIMITED, retryAfterMs };
+  }
+
+  if (
+    types.includes("RESOURCE_LIMITS_EXCEEDED") ||
+    status === 502 ||
+    status === 504 ||
+    message.includes("timeout")
+  ) {
+    return { reason: RetryReason.QUERY_TOO_LARGE, retryAfterMs };
+  }
+
+  if (status === 500 || status === 503) {
+    return { reason: RetryReason.SERVER_ERROR, retryAfterMs };
+  }
+
+  return null;
+}
+
+/**
+ * Retry policy for GitHub GraphQL requests
+ *
+ * - Jittered exponential backoff, or the server-requested wait
+ *   (Retry-After / rate limit reset) when one is given
+ * - Queries that are too large are retried with half the page size; the
+ *   smaller size is kept for later pages of the same operation
+ * - All retries draw from one budget, so a struggling API fails the
+ *   analysis instead of retrying indefinitely
+ * - Rate limits that cannot be waited out throw RateLimitExhaustedError
+ */
+export class RetryPolicy {
+  private readonly options: Required<RetryPolicyOptions>;
+  private readonly pageSizes = new Map<string, number>();
+  private budget: number;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.budget = this.options.retryBudget;
+  }
+
+  /**
+   * Run a request, retrying retryable failures
+   *
+   * @param operation Name of the operation (page size is tracked per operation)
+   * @param request Request to run; receives the page size to use
+   * @param paged Whether the request takes a page size (otherwise oversized
+   *   queries are not retried and the caller has to shrink them)
+   */
+  async execute<T>(
+    operation: string,
+    request: (pageSize: number) => Promise<T>,
+    paged = true,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const pageSize = this.getPageSize(operation);
+      try {
+        return await request(pageSize);
+      } catch (error: unknown) {
+        const failure = classifyRetryableError(error);
+        if (!failure || !this.canRetry(failure, attempt, paged, pageSize)) {
+          throw this.toFinalError(error, failure);
+        }
+
+        const delayMs = this.getDelay(failure, attempt);
+        if (failure.reason === RetryReason.QUERY_TOO_LARGE) {
+          this.pageSizes.set(
+            operation,
+            Math.max(this.options.minPageSize, Math.floor(pageSize / 2)),
+          );
+        }
+        this.budget--;
+
+        logger.warn("Retrying GitHub request", {
+          operation,
+          attempt,
+          reason: failure.reason,
+          delayMs,
+          pageSize: this.getPageSize(operation),
+          retryBudget: this.budget,
+          error: getErrorMessage(error),
+        });
+
+        await this.options.sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Page size currently used for an operation
+   */
+  getPageSize(operation: string): number {
+    return this.pageSizes.get(operation) ?? DEFAULT_PAGE_SIZE;
+  }
+
+  /**
+   * Retries left in the budget
+   */
+  getRemainingBudget(): number {
+    return this.budget;
+  }
+
+  private canRetry(
+    failure: RetryableFailure,
+    attempt: number,
+    paged: boolean,
+    pageSize: number,
+  ): boolean {
+    if (attempt >= this.options.maxAttempts || this.budget <= 0) {
+      return false;
+    }
+    if (
+      failure.reason === RetryReason.QUERY_TOO_LARGE &&
+      (!paged || pageSize <= this.options.minPageSize)
+    ) {
+      return false;
+    }
+    if (
+      failure.retryAfterMs !== null &&
+      failure.retryAfterMs > this.options.maxWaitMs
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Rate limits that could not be waited out end the run until the reset
+   */
+  private toFinalError(
+    error: unknown,
+    failure: RetryableFailure | null,
+  ): unknown {
+    if (
+      failure?.reason !== RetryReason.SECONDARY_RATE_LIMIT &&
+      failure?.reason !== RetryReason.RATE_LIMITED
+    ) {
+      return error;
+    }
+    return new RateLimitExhaustedError(
+      new Date(
+        Date.now() + (failure.retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT_MS),
+      ),
+    );
+  }
+
+  /**
+   * Server-requested wait, else equal-jitter exponential backoff
+   */
+  private getDelay(failure: RetryableFailure, attempt: number): number {
+    if (failure.retryAfterMs !== null) {
+      return failure.retryAfterMs;
+    }
+
+    const cap = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.floor(cap / 2 + this.options.random() * (cap / 2));
+  }
+}
@@ -0,0 +1,217 @@
+import { createHash } from "crypto";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import {
+  PermissionCheck,
+  PermissionStatus,
+  RepositoryPermission,
+  TokenCapabilities,
+} from "@/domain/value-objects/TokenCapabilities";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { RequestScheduler, getRequestScheduler } from "./RequestScheduler";
+
+/**
+ * REST endpoint read to probe each permission (one item is enough)
+ */
+const PROBE_PATHS: Record<RepositoryPermission, string> = {
+  [RepositoryPermission.CONTENTS]: "commits?per_page=1",
+  [RepositoryPermission.PULL_REQUESTS]: "pulls?state=all&per_page=1",
+  [RepositoryPermission.DEPLOYMENTS]: "deployments?per_page=1",
+};
+
+/**
+ * How long probe results are reused for a token and repository
+ * Granting a permission shows up after this long (or a restart).
+ */
+const CAPABILITIES_TTL_MS = 10 * 60_000;
+
+/**
+ * Probe requests give up after this long, including the wait for a slot
+ * of the token's scheduler (the permission is then unknown)
+ */
+const PROBE_TIMEOUT_MS = 10_000;
+
+/**
+ * Probe results by hashed credential id and repository (process-wide)
+ */
+const probes = new Map<
+  string,
+  { promise: Promise<TokenCapabilities>; probedAt: number }
+>();
+
+/**
+ * Probe one permission by reading its endpoint
+ *
+ * - 2xx (and 409, an empty repository's commits): granted
+ * - 403 with X-GitHub-SSO: token not authorized for the organization's SSO
+ * - 403 or 404: missing (GitHub hides private repositories with 404);
+ *   fine-grained tokens receive X-Accepted-GitHub-Permissions
+ * - Anything else, including an exhausted rate limit: unknown
+ */
+async function probePermission(
+  token: string,
+  repositoryUrl: string,
+  permission: RepositoryPermission,
+  scheduler: RequestScheduler,
+): Promise<{ check: PermissionCheck; scopes: string | null }> {
+  try {
+    const signal = AbortSignal.timeout(PROBE_TIMEOUT_MS);
+    const response = await scheduler.run(
+      () =>
+        fetch(`${repositoryUrl}/${PROBE_PATHS[permission]}`, {
+          headers: {
+            Authorization: `token ${token}`,
+            Accept: "application/vnd.github+json",
+          },
+          signal,
+        }),
+      { signal },
+    );
+    const scopes = response.headers.get("x-oauth-scopes");
+
+    if (response.ok || response.status === 409) {
+      return {
+        check: { permission, status: PermissionStatus.GRANTED },
+        scopes,
+      };
+    }
+
+    // "required; url=https://github.com/orgs/{org}/sso?authorization_request=…"
+    const sso = response.headers.get("x-github-sso");
+    if (response.status === 403 && sso?.startsWith("required")) {
+      return {
+        check: {
+          permission,
+          status: PermissionStatus.SSO_REQUIRED,
+          ssoUrl: sso.match(/url=(\S+)/)?.[1],
+        },
+        scopes,
+      };
+    }
+
+    const rateLimited = response.headers.get("x-ratelimit-remaining") === "0";
+    if ((response.status === 403 && !rateLimited) || response.status === 404) {
+      const requiredGrant =
+        response.headers.get("x-accepted-github-permissions") ?? undefined;
+      return {
+        check: { permission, status: PermissionStatus.MISSING, requiredGrant },
+        scopes,
+      };
+    }
+
+    return { check: { permission, status: PermissionStatus.UNKNOWN }, scopes };
+  } catch (error: unknown) {
+    logger.warn("Token capability probe failed", {
+      permission,
+      error: getErrorMessage(error),
+    });
+    return {
+      check: { permission, status: PermissionStatus.UNKNOWN },
+      scopes: null,
+    };
+  }
+}
+
+/**
+ * Probe what a token can read in a repository
+ *
+ * Reads one item from each permission's REST endpoint in parallel and
+ * records the token's OAuth scopes (X-OAuth-Scopes, classic and OAuth
+ * tokens only), SSO authorization status and, for fine-grained tokens,
+ * the permission GitHub asked for. The requests wait for slots of the
+ * token's scheduler like every other request of the token.
+ *
+ * @param token Access token
+ * @param host Host of the repository
+ * @param scheduler Scheduler of the token (see getRequestScheduler)
+ */
+export async function probeTokenCapabilities(
+  token: string,
+  host: GitHost,
+  owner: string,
+  repo: string,
+  scheduler: RequestScheduler = getRequestScheduler(token),
+): Promise<TokenCapabilities> {
+  const repositoryUrl = `${host.apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const results = await Promise.all(
+    Object.values(RepositoryPermission).map((permission) =>
+      probePermission(token, repositoryUrl, permission, scheduler),
+    ),
+  );
+
+  const scopesHeader =
+    results.find((result) => result.scopes !== null)?.scopes ?? null;
+  const capabilities = TokenCapabilities.create(
+    TokenCapabilities.kindOf(token),
+    TokenCapabilities.parseScopes(scopesHeader),
+    results.map((result) => result.check),
+  );
+
+  logger.info("Token capabilities probed", {
+    owner,
+    repo,
+    kind: capabilities.kind,
+    missing: capabilities
+      .missing(Object.values(RepositoryPermission))
+      .map((check) => check.permission),
+  });
+  return capabilities;
+}
+
+/**
+ * Get the capabilities of a token in a repository, probing at most once
+ * per TTL. Results with an unknown permission are not reused once they
+ * settle. Results are keyed by a truncated hash of the credential id; the
+ * token itself is not kept.
+ *
+ * Permissions are per repository, so nothing is probed at sign-in: the
+ * first widget explaining missing data for a repository starts the probe,
+ * and the other widgets of the page share it.
+ *
+ * @param credentialId Stable identity of the token (see getCredentialId)
+ * @param now Clock (injectable for tests)
+ * @param scheduler Scheduler of the credential (see getRequestScheduler)
+ */
+export function getTokenCapabilities(
+  credentialId: string,
+  token: string,
+  host: GitHost,
+  owner: string,
+  repo: string,
+  now: number = Date.now(),
+  scheduler: RequestScheduler = getRequestScheduler(credentialId),
+): Promise<TokenCapabilities> {
+  const key = `${createHash("sha256")
+    .update(credentialId)
+    .digest("hex")
+    .slice(0, 16)}:${host.hostname}/${owner}/${repo}`.toLowerCase();
+
+  const cached = probes.get(key);
+  if (cached && now - cached.probedAt < CAPABILITIES_TTL_MS) {
+    return cached.promise;
+  }
+
+  // Drop expired results of other tokens and repositories
+  for (const [staleKey, stale] of probes) {
+    if (now - stale.probedAt >= CAPABILITIES_TTL_MS) {
+      probes.delete(staleKey);
+    }
+  }
+
+  const promise = probeTokenCapabilities(token, host, owner, repo, scheduler);
+  const entry = { promise, probedAt: now };
+  probes.set(key, entry);
+
+  // Probe again next time when a permission could not be determined
+  // (rate limited, timed out or an outage)
+  void promise.then((capabilities) => {
+    const unknown = Object.values(RepositoryPermission).some(
+      (permission) =>
+        capabilities.check(permission).status === PermissionStatus.UNKNOWN,
+    );
+    if (unknown && probes.get(key) === entry) {
+      probes.delete(key);
+    }
+  });
+  return promise;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { MockSessionProvider } from "../../auth/__mocks__/MockSessionProvider";
+import { MockStoragePort } from "../../storage/__mocks__/MockStoragePort";
 
 // Mock the @octokit/graphql module BEFORE importing OctokitAdapter
 vi.mock("@octokit/graphql");
@@ -7,6 +8,16 @@ vi.mock("@octokit/graphql");
 // Now we can import and get the mocked graphql
 import { graphql, GraphqlResponseError } from "@octokit/graphql";
 import { OctokitAdapter } from "../OctokitAdapter";
+import { RetryPolicy } from "../RetryPolicy";
+import { RequestScheduler } from "../RequestScheduler";
+import { getCheckpointKey } from "../utils/checkpointHelpers";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
+import { MissingScopeError } from "@/lib/errors/MissingScopeError";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import { ProgressEventType } from "@/domain/interfaces/IAnalysisProgress";
+import { Result, ok, err } from "@/lib/result";
 
 const mockGraphql = vi.mocked(graphql);
 const mockGraphqlDefaults = vi.fn();
@@ -35,18 +46,49 @@ function createGraphqlError(
   return error;
 }
 
+// Helper to collect a stream into the result getPullRequests would return
+async function collect<T>(items: AsyncIterable<T>): Promise<Result<T[]>> {
+  const collected: T[] = [];
+  try {
+    for await (const item of items) {
+      collected.push(item);
+    }
+  } catch (error) {
+    return err(
+      error instanceof RateLimitExhaustedError
+        ? error.withPartial(collected)
+        : (error as Error),
+    );
+  }
+  return ok(collected);
+}
+
 // Helper function to create mock GraphQL response for pull requests
 interface MockPRNode {
   number?: number;
   title?: string;
   author?: { login: string } | null;
   createdAt?: string;
+  updatedAt?: string;
   state?: "OPEN" | "CLOSED" | "MERGED";
   mergedAt?: string | null;
+  closedAt?: string | null;
   additions?: number;
   deletions?: number;
   changedFiles?: number;
-  reviews?: { totalCount: number };
+  reviews?: {
+    totalCount: number;
+    nodes: Array<{
+      author: { login: string } | null;
+      state: string;
+      submittedAt: string | null;
+    }>;
+  };
+  headRefName?: string;
+  mergeCommit?: { oid: string } | null;
+  labels?: { nodes: Array<{ name: string }> };
+  commits?: { nodes: Array<{ commit: { authoredDate: string } }> };
+  timelineItems?: { nodes: Array<{ createdAt: string }> };
   comments?: {
     nodes: Array<{
       id: string;
@@ -58,6 +100,32 @@ interface MockPRNode {
   };
 }
 
+function createMockPRNode(pr: MockPRNode) {
+  return {
+    number: pr.number ?? 1,
+    title: pr.title ?? "Test PR",
+    author: pr.author ?? { login: "testuser" },
+    createdAt: pr.createdAt ?? "2024-01-01T00:00:00Z",
+    updatedAt: pr.updatedAt ?? pr.createdAt ?? "2024-01-01T00:00:00Z",
+    state: pr.state ?? "OPEN",
+    mergedAt: pr.mergedAt ?? null,
+    closedAt: pr.closedAt ?? pr.mergedAt ?? null,
+    additions: pr.additions ?? 0,
+    deletions: pr.deletions ?? 0,
+    changedFiles: pr.changedFiles ?? 0,
+    headRefName: pr.headRefName ?? "feature/test",
+    mergeCommit: pr.mergeCommit ?? null,
+    labels: pr.labels ?? { nodes: [] },
+    reviews: pr.reviews ?? { totalCount: 0, nodes: [] },
+    commits: pr.commits ?? { nodes: [] },
+    timelineItems: pr.timelineItems ?? { nodes: [] },
+    comments: pr.comments ?? {
+      nodes: [],
+      pageInfo: { hasNextPage: false, endCursor: null },
+    },
+  };
+}
+
 function createMockGraphQLPRResponse(
   prs: MockPRNode[],
   pageInfo?: { hasNextPage: boolean; endCursor: string | null },
@@ -65,22 +133,7 @@ function createMockGraphQLPRResponse(
   return {
     repository: {
       pullRequests: {
-        nodes: prs.map((pr) => ({
-          number: pr.number ?? 1,
-          title: pr.title ?? "Test PR",
-          author: pr.author ?? { login: "testuser" },
-          createdAt: pr.createdAt ?? "2024-01-01T00:00:00Z",
-          state: pr.state ?? "OPEN",
-          mergedAt: pr.mergedAt ?? null,
-          additions: pr.additions ?? 0,
-          deletions: pr.deletions ?? 0,
-          changedFiles: pr.changedFiles ?? 0,
-          reviews: pr.reviews ?? { totalCount: 0 },
-          comments: pr.comments ?? {
-            nodes: [],
-            pageInfo: { hasNextPage: false, endCursor: null },
-          },
-        })),
+        nodes: prs.map(createMockPRNode),
         pageInfo: pageInfo ?? { hasNextPage: false, endCursor: null },
       },
     },
@@ -93,6 +146,27 @@ function createMockGraphQLPRResponse(
   };
 }
 
+// Helper function to create mock GraphQL search response for pull requests
+function createMockGraphQLSearchResponse(
+  prs: MockPRNode[],
+  issueCount = prs.length,
+  pageInfo?: { hasNextPage: boolean; endCursor: string | null },
+) {
+  return {
+    search: {
+      issueCount,
+      nodes: prs.map(createMockPRNode),
+      pageInfo: pageInfo ?? { hasNextPage: false, endCursor: null },
+    },
+    rateLimit: {
+      limit: 5000,
+      cost: 1,
+      remaining: 4999,
+      resetAt: new Date(Date.now() + 3600000).toISOString(),
+    },
+  };
+}
+
 // Helper function to create mock GraphQL response for commits
 function createMockGraphQLCommitsResponse(
   commits: Array<{
@@ -138,6 +212,62 @@ function createMockGraphQLCommitsResponse(
   };
 }
 
+// Helper to answer batched review comment queries
+// Builds one aliased PR per `prN: pullRequest(number: N)` field in the query.
+function mockBatchedReviewComments(
+  options: {
+    costPerPR?: number;
+    failing?: number[];
+    comments?: (prNumber: number) => Array<{
+      id: string;
+      author: { login: string } | null;
+      createdAt: string;
+      body: string;
+    }>;
+  } = {},
+) {
+  mockGraphql.mockImplementation((async (query: string) => {
+    const prNumbers = Array.from(
+      query.matchAll(/pr(\d+): pullRequest/g),
+      (match) => Number(match[1]),
+    );
+    if (prNumbers.some((n) => options.failing?.includes(n))) {
+      throw new Error("Something went wrong");
+    }
+    return {
+      repository: Object.fromEntries(
+        prNumbers.map((n) => [
+          `pr${n}`,
+          {
+            number: n,
+            reviewThreads: { nodes: [] },
+            comments: {
+              nodes: options.comments?.(n) ?? [
+                {
+                  id: String(n),
+                  author: { login: "user" },
+                  createdAt: "2024-01-01T00:00:00Z",
+                  body: `Comment on PR ${n}`,
+                },
+              ],
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          },
+        ]),
+      ),
+      rateLimit: {
+        limit: 5000,
+        cost: Math.max(
+          1,
+          Math.round(prNumbers.length * (options.costPerPR ?? 0)),
+        ),
+        remaining: 4999,
+        resetAt: new Date(Date.now() + 3600000).toISOString(),
+      },
+    };
+  }) as any);
+}
+
 /**
  * OctokitAdapter Unit Tests
  *
@@ -178,6 +308,15 @@ describe("OctokitAdapter", () => {
       );
     });
 
+    it("should request the token for the repository", async () => {
+      const getAccessToken = vi.spyOn(mockSessionProvider, "getAccessToken");
+      mockGraphql.mockResolvedValue({ repository: { id: "123" } });
+
+      await adapter.validateAccess("owner", "repo");
+
+      expect(getAccessToken).toHaveBeenCalledWith("owner", "repo");
+    });
+
     it("should return error when session is not available", async () => {
       mockSessionProvider.clearToken();
 
@@ -283,10 +422,87 @@ describe("OctokitAdapter", () => {
           additions: 0,
           deletions: 0,
           changedFiles: 0,
+          reviews: [],
+          labels: [],
+          headRefName: "feature/test",
         });
       }
     });
 
+    it("should map submitted reviews and drop pending ones", async () => {
+      mockGraphql.mockResolvedValue(
+        createMockGraphQLPRResponse([
+          {
+            number: 3,
+            reviews: {
+              totalCount: 3,
+              nodes: [
+                {
+                  author: { login: "reviewer1" },
+                  state: "APPROVED",
+                  submittedAt: "2024-01-02T00:00:00Z",
+                },
+                {
+                  author: null,
+                  state: "CHANGES_REQUESTED",
+                  submittedAt: "2024-01-03T00:00:00Z",
+                },
+                {
+                  author: { login: "reviewer2" },
+                  state: "PENDING",
+                  submittedAt: null,
+                },
+              ],
+            },
+          },
+        ]),
+      );
+
+      const result = await adapter.getPullRequests("owner", "repo");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value[0]?.reviews).toEqual([
+          {
+            author: "reviewer1",
+            state: "APPROVED",
+            submittedAt: new Date("2024-01-02T00:00:00Z"),
+          },
+          {
+            author: "unknown",
+            state: "CHANGES_REQUESTED",
+            submittedAt: new Date("2024-01-03T00:00:00Z"),
+          },
+        ]);
+      }
+    });
+
+    it("should map first commit and ready-for-review dates", async () => {
+      mockGraphql.mockResolvedValue(
+        createMockGraphQLPRResponse([
+          {
+            number: 4,
+            commits: {
+              nodes: [{ commit: { authoredDate: "2023-12-30T08:00:00Z" } }],
+            },
+            timelineItems: { nodes: [{ createdAt: "2024-01-01T06:00:00Z" }] },
+          },
+        ]),
+      );
+
+      const result = await adapter.getPullRequests("owner", "repo");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value[0]?.firstCommitAt).toEqual(
+          new Date("2023-12-30T08:00:00Z"),
+        );
+        expect(result.value[0]?.readyForReviewAt).toEqual(
+          new Date("2024-01-01T06:00:00Z"),
+        );
+      }
+    });
+
     it("should fetch detailed stats for merged PRs", async () => {
       mockGraphql.mockResolvedValue(
         createMockGraphQLPRResponse([
@@ -300,6 +516,7 @@ describe("OctokitAdapter", () => {
             additions: 100,
             deletions: 50,
             changedFiles: 5,
+            mergeCommit: { oid: "merge1" },
           },
         ]),
       );
@@ -317,9 +534,14 @@ describe("OctokitAdapter", () => {
           state: "merged",
           reviewCommentCount: 0,
           mergedAt: new Date("2024-01-02T00:00:00Z"),
+          closedAt: new Date("2024-01-02T00:00:00Z"),
           additions: 100,
           deletions: 50,
           changedFiles: 5,
+          reviews: [],
+          labels: [],
+          headRefName: "feature/test",
+          mergeCommitOid: "merge1",
         });
       }
     });
@@ -374,31 +596,264 @@ describe("OctokitAdapter", () => {
       );
     });
 
-    it("should filter PRs by sinceDate", async () => {
-      mockGraphql.mockResolvedValue(
-        createMockGraphQLPRResponse([
-          {
-            number: 1,
-            title: "Recent PR",
-            createdAt: "2024-01-10T00:00:00Z",
-            state: "OPEN",
-          },
-          {
-            number: 2,
-            title: "Old PR",
-            createdAt: "2024-01-01T00:00:00Z",
-            state: "OPEN",
-          },
-        ]),
+    it("should page through the PR history when no window is given", async () => {
+      mockGraphql
+        .mockResolvedValueOnce(
+          createMockGraphQLPRResponse(
+            [{ number: 2, createdAt: "2024-01-10T00:00:00Z" }],
+            { hasNextPage: true, endCursor: "cursor1" },
+          ),
+        )
+        .mockResolvedValueOnce(
+          createMockGraphQLPRResponse([
+            { number: 1, createdAt: "2024-01-01T00:00:00Z" },
+          ]),
+        );
+
+      const result = await adapter.getPullRequests("owner", "repo");
+
+      expect(mockGraphql).toHaveBeenCalledTimes(2);
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("GetPullRequests"),
+        expect.objectContaining({ after: "cursor1" }),
+      );
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((pr) => pr.number)).toEqual([2, 1]);
+      }
+    });
+
+    it("should search PRs opened or closed in the window when sinceDate is given", async () => {
+      mockGraphql.mockImplementation((async (
+        _query: string,
+        variables: { query: string },
+      ) =>
+        variables.query.includes(" created:")
+          ? createMockGraphQLSearchResponse([
+              {
+                number: 2,
+                createdAt: "2024-01-10T00:00:00Z",
+                mergedAt: "2024-01-12T00:00:00Z",
+                state: "MERGED",
+              },
+            ])
+          : createMockGraphQLSearchResponse([
+              {
+                number: 2,
+                createdAt: "2024-01-10T00:00:00Z",
+                mergedAt: "2024-01-12T00:00:00Z",
+                state: "MERGED",
+              },
+              {
+                number: 1,
+                title: "Opened before, merged inside",
+                createdAt: "2023-12-20T00:00:00Z",
+                mergedAt: "2024-01-08T00:00:00Z",
+                state: "MERGED",
+              },
+            ])) as any);
+
+      const result = await adapter.getPullRequests(
+        "owner",
+        "repo",
+        new Date("2024-01-05T00:00:00Z"),
+        new Date("2024-01-31T00:00:00Z"),
+      );
+
+      // One page per search; PR history is never paged through
+      expect(mockGraphql).toHaveBeenCalledTimes(2);
+      expect(mockGraphql).toHaveBeenCalledWith(
+        expect.stringContaining("SearchPullRequests"),
+        expect.objectContaining({
+          query:
+            "repo:owner/repo is:pr created:2024-01-05T00:00:00Z..2024-01-31T00:00:00Z",
+        }),
+      );
+      expect(mockGraphql).toHaveBeenCalledWith(
+        expect.stringContaining("SearchPullRequests"),
+        expect.objectContaining({
+          query:
+            "repo:owner/repo is:pr closed:2024-01-05T00:00:00Z..2024-01-31T00:00:00Z",
+        }),
       );
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((pr) => pr.number)).toEqual([2, 1]);
+      }
+    });
+
+    it("should search by merge date with sync storage configured", async () => {
+      const syncAdapter = new OctokitAdapter(mockSessionProvider, {
+        syncStorage: () => new MockStoragePort(),
+      });
+      mockGraphql
+        .mockResolvedValueOnce(
+          createMockGraphQLSearchResponse(
+            [
+              {
+                number: 2,
+                createdAt: "2024-01-02T00:00:00Z",
+                mergedAt: "2024-01-20T00:00:00Z",
+                state: "MERGED",
+              },
+            ],
+            2,
+            { hasNextPage: true, endCursor: "cursor1" },
+          ),
+        )
+        .mockResolvedValueOnce(
+          createMockGraphQLSearchResponse(
+            [
+              {
+                number: 1,
+                createdAt: "2023-12-20T00:00:00Z",
+                mergedAt: "2024-01-08T00:00:00Z",
+                state: "MERGED",
+              },
+            ],
+            2,
+          ),
+        );
 
-      const sinceDate = new Date("2024-01-05T00:00:00Z");
-      const result = await adapter.getPullRequests("owner", "repo", sinceDate);
+      const result = await syncAdapter.getPullRequests(
+        "owner",
+        "repo",
+        new Date("2024-01-05T00:00:00Z"),
+        new Date("2024-01-31T00:00:00Z"),
+        PullRequestDateSemantics.MERGED,
+      );
 
+      expect(mockGraphql).toHaveBeenCalledTimes(2);
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("SearchPullRequests"),
+        expect.objectContaining({
+          query:
+            "repo:owner/repo is:pr merged:2024-01-05T00:00:00Z..2024-01-31T00:00:00Z",
+          after: "cursor1",
+        }),
+      );
       expect(result.ok).toBe(true);
       if (result.ok) {
-        expect(result.value).toHaveLength(1);
-        expect(result.value[0]?.number).toBe(1);
+        expect(result.value.map((pr) => pr.number)).toEqual([2, 1]);
+      }
+    });
+
+    it("should retry a timed out query with half the page size", async () => {
+      const retryingAdapter = new OctokitAdapter(mockSessionProvider, {
+        retryPolicy: new RetryPolicy({ sleep: async () => {} }),
+      });
+      mockGraphql
+        .mockRejectedValueOnce(
+          Object.assign(new Error("Gateway Timeout"), { status: 504 }),
+        )
+        .mockResolvedValueOnce(
+          createMockGraphQLPRResponse([{ number: 1 }], {
+            hasNextPage: true,
+            endCursor: "cursor1",
+          }),
+        )
+        .mockResolvedValueOnce(createMockGraphQLPRResponse([{ number: 2 }]));
+
+      const result = await retryingAdapter.getPullRequests("owner", "repo");
+
+      expect(result.ok).toBe(true);
+      expect(
+        mockGraphql.mock.calls.map(
+          ([, variables]) => (variables as { first: number }).first,
+        ),
+      ).toEqual([100, 50, 50]);
+    });
+
+    it("should report a rate limit error when secondary limit retries run out", async () => {
+      const retryingAdapter = new OctokitAdapter(mockSessionProvider, {
+        retryPolicy: new RetryPolicy({ sleep: async () => {}, retryBudget: 1 }),
+      });
+      mockGraphql.mockRejectedValue(
+        createGraphqlError(
+          "You have exceeded a secondary rate limit",
+          [],
+          "403",
+        ),
+      );
+
+      const result = await retryingAdapter.getPullRequests("owner", "repo");
+
+      expect(mockGraphql).toHaveBeenCalledTimes(2);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("rate limit exceeded");
+      }
+    });
+
+    it("should not wait out a rate limit longer than maxRateLimitWaitMs by default", async () => {
+      const onProgress = vi.fn();
+      const cappedAdapter = new OctokitAdapter(mockSessionProvider, {
+        onProgress,
+        maxRateLimitWaitMs: 30_000,
+      });
+      const error = createGraphqlError(
+        "You have exceeded a secondary rate limit",
+        [],
+        "403",
+      );
+      (error as any).headers["retry-after"] = "120";
+      mockGraphql.mockRejectedValue(error);
+
+      const result = await cappedAdapter.getPullRequests("owner", "repo");
+
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+      expect(onProgress).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: ProgressEventType.RATE_LIMIT_WAIT }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBeInstanceOf(RateLimitExhaustedError);
+      }
+    });
+
+    it("should report each fetched page to the progress listener", async () => {
+      const onProgress = vi.fn();
+      const reportingAdapter = new OctokitAdapter(mockSessionProvider, {
+        onProgress,
+      });
+      mockGraphql
+        .mockResolvedValueOnce(
+          createMockGraphQLPRResponse([{ number: 1 }, { number: 2 }], {
+            hasNextPage: true,
+            endCursor: "cursor1",
+          }),
+        )
+        .mockResolvedValueOnce(createMockGraphQLPRResponse([{ number: 3 }]));
+
+      await reportingAdapter.getPullRequests("owner", "repo");
+
+      expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+        { type: "page_fetched", resource: "pull_requests", items: 2 },
+        { type: "page_fetched", resource: "pull_requests", items: 1 },
+      ]);
+    });
+
+    it("should stop paginating once the signal is aborted", async () => {
+      const controller = new AbortController();
+      const cancellableAdapter = new OctokitAdapter(mockSessionProvider, {
+        signal: controller.signal,
+      });
+      mockGraphql.mockImplementationOnce(async () => {
+        controller.abort();
+        return createMockGraphQLPRResponse([{ number: 1 }], {
+          hasNextPage: true,
+          endCursor: "cursor1",
+        });
+      });
+
+      const result = await cancellableAdapter.getPullRequests("owner", "repo");
+
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.name).toBe("AbortError");
       }
     });
 
@@ -452,26 +907,7 @@ describe("OctokitAdapter", () => {
 
   describe("getReviewComments", () => {
     it("should return empty array when no comments exist", async () => {
-      mockGraphql.mockResolvedValue({
-        repository: {
-          pullRequest: {
-            number: 1,
-            comments: {
-              nodes: [],
-              pageInfo: {
-                hasNextPage: false,
-                endCursor: null,
-              },
-            },
-          },
-        },
-        rateLimit: {
-          limit: 5000,
-          cost: 1,
-          remaining: 4999,
-          resetAt: new Date(Date.now() + 3600000).toISOString(),
-        },
-      });
+      mockBatchedReviewComments({ comments: () => [] });
 
       const result = await adapter.getReviewComments("owner", "repo", [1]);
 
@@ -482,32 +918,15 @@ describe("OctokitAdapter", () => {
     });
 
     it("should fetch and transform review comments correctly", async () => {
-      mockGraphql.mockResolvedValue({
-        repository: {
-          pullRequest: {
-            number: 1,
-            comments: {
-              nodes: [
-                {
-                  id: "123",
-                  author: { login: "reviewer" },
-                  createdAt: "2024-01-01T00:00:00Z",
-                  body: "Please fix this",
-                },
-              ],
-              pageInfo: {
-                hasNextPage: false,
-                endCursor: null,
-              },
-            },
+      mockBatchedReviewComments({
+        comments: () => [
+          {
+            id: "123",
+            author: { login: "reviewer" },
+            createdAt: "2024-01-01T00:00:00Z",
+            body: "Please fix this",
           },
-        },
-        rateLimit: {
-          limit: 5000,
-          cost: 1,
-          remaining: 4999,
-          resetAt: new Date(Date.now() + 3600000).toISOString(),
-        },
+        ],
       });
 
       const result = await adapter.getReviewComments("owner", "repo", [1]);
@@ -525,62 +944,65 @@ describe("OctokitAdapter", () => {
       }
     });
 
-    it("should fetch comments for multiple PRs", async () => {
-      mockGraphql
-        .mockResolvedValueOnce({
-          repository: {
-            pullRequest: {
-              number: 1,
-              comments: {
-                nodes: [
-                  {
-                    id: "1",
-                    author: { login: "reviewer1" },
-                    createdAt: "2024-01-01T00:00:00Z",
-                    body: "Comment on PR 1",
-                  },
-                ],
-                pageInfo: {
-                  hasNextPage: false,
-                  endCursor: null,
+    it("should include inline review-thread comments", async () => {
+      mockGraphql.mockResolvedValue({
+        repository: {
+          pr1: {
+            number: 1,
+            comments: {
+              nodes: [
+                {
+                  id: "123",
+                  author: { login: "reviewer" },
+                  createdAt: "2024-01-01T00:00:00Z",
+                  body: "Looks good overall",
                 },
-              },
+              ],
+              pageInfo: { hasNextPage: false, endCursor: null },
             },
-          },
-          rateLimit: {
-            limit: 5000,
-            cost: 1,
-            remaining: 4999,
-            resetAt: new Date(Date.now() + 3600000).toISOString(),
-          },
-        })
-        .mockResolvedValueOnce({
-          repository: {
-            pullRequest: {
-              number: 2,
-              comments: {
-                nodes: [
-                  {
-                    id: "2",
-                    author: { login: "reviewer2" },
-                    createdAt: "2024-01-02T00:00:00Z",
-                    body: "Comment on PR 2",
+            reviewThreads: {
+              nodes: [
+                {
+                  comments: {
+                    nodes: [
+                      {
+                        id: "456",
+                        author: { login: "reviewer" },
+                        createdAt: "2024-01-01T01:00:00Z",
+                        body: "Nit: rename this",
+                      },
+                    ],
                   },
-                ],
-                pageInfo: {
-                  hasNextPage: false,
-                  endCursor: null,
                 },
-              },
+              ],
             },
           },
-          rateLimit: {
-            limit: 5000,
-            cost: 1,
-            remaining: 4998,
-            resetAt: new Date(Date.now() + 3600000).toISOString(),
-          },
-        });
+        },
+        rateLimit: {
+          limit: 5000,
+          cost: 1,
+          remaining: 4999,
+          resetAt: new Date(Date.now() + 3600000).toISOString(),
+        },
+      });
+
+      const result = await adapter.getReviewComments("owner", "repo", [1]);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((c) => c.body)).toEqual([
+          "Looks good overall",
+          "Nit: rename this",
+        ]);
+      }
+      expect(mockGraphql).toHaveBeenCalledWith(
+        expect.stringContaining("reviewThreads(first: 100)"),
+        { owner: "owner", repo: "repo" },
+      );
+    });
+
+    it("should fetch comments for multiple PRs with one aliased query", async () => {
+      mockBatchedReviewComments();
 
       const result = await adapter.getReviewComments("owner", "repo", [1, 2]);
 
@@ -590,6 +1012,26 @@ describe("OctokitAdapter", () => {
         expect(result.value[0]?.pullRequestNumber).toBe(1);
         expect(result.value[1]?.pullRequestNumber).toBe(2);
       }
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+      const query = mockGraphql.mock.calls[0]?.[0] as string;
+      expect(query).toContain("pr1: pullRequest(number: 1)");
+      expect(query).toContain("pr2: pullRequest(number: 2)");
+    });
+
+    it("should skip PRs that resolve to null", async () => {
+      mockGraphql.mockResolvedValue({
+        repository: { pr404: null },
+        rateLimit: {
+          limit: 5000,
+          cost: 1,
+          remaining: 4999,
+          resetAt: new Date(Date.now() + 3600000).toISOString(),
+        },
+      });
+
+      const result = await adapter.getReviewComments("owner", "repo", [404]);
+
+      expect(result).toEqual({ ok: true, value: [] });
     });
 
     it("should return error when session is not available", async () => {
@@ -675,6 +1117,331 @@ describe("OctokitAdapter", () => {
     });
   });
 
+  describe("getOwnerRepositories", () => {
+    const rateLimit = {
+      limit: 5000,
+      cost: 1,
+      remaining: 4999,
+      resetAt: new Date(Date.now() + 3600000).toISOString(),
+    };
+
+    function createOwnerRepositoryNode(name: string) {
+      return {
+        name,
+        description: null,
+        isPrivate: false,
+        isArchived: false,
+        isFork: false,
+        pushedAt: "2024-01-10T00:00:00Z",
+        primaryLanguage: { name: "TypeScript" },
+        openPullRequests: {
+          totalCount: 3,
+          nodes: [{ createdAt: "2024-01-01T00:00:00Z" }],
+        },
+        latestRelease: {
+          tagName: "v1.0.0",
+          publishedAt: "2024-01-05T00:00:00Z",
+        },
+        releases: { nodes: [] },
+        deployments: { nodes: [] },
+      };
+    }
+
+    const mergedSince = new Date("2024-01-01T00:00:00Z");
+
+    it("should page through every repository of the owner", async () => {
+      mockGraphql
+        .mockResolvedValueOnce({
+          repositoryOwner: {
+            repositories: {
+              nodes: [createOwnerRepositoryNode("api")],
+              pageInfo: { hasNextPage: true, endCursor: "cursor1" },
+            },
+          },
+          rateLimit,
+        })
+        .mockResolvedValueOnce({ r0: { issueCount: 57 }, rateLimit })
+        .mockResolvedValueOnce({
+          repositoryOwner: {
+            repositories: {
+              nodes: [createOwnerRepositoryNode("web")],
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          },
+          rateLimit,
+        })
+        .mockResolvedValueOnce({ r0: { issueCount: 0 }, rateLimit });
+
+      const result = await adapter.getOwnerRepositories("acme", mergedSince);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((repository) => repository.name)).toEqual([
+          "api",
+          "web",
+        ]);
+        expect(result.value[0]).toMatchObject({
+          primaryLanguage: "TypeScript",
+          openPullRequestCount: 3,
+          oldestOpenPullRequestAt: "2024-01-01T00:00:00Z",
+          mergedPullRequestCount: 57,
+          latestRelease: {
+            tagName: "v1.0.0",
+            publishedAt: "2024-01-05T00:00:00Z",
+          },
+        });
+      }
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        3,
+        expect.any(String),
+        expect.objectContaining({ owner: "acme", after: "cursor1" }),
+      );
+    });
+
+    it("should count merged PRs with one search per repository", async () => {
+      mockGraphql
+        .mockResolvedValueOnce({
+          repositoryOwner: {
+            repositories: {
+              nodes: [
+                createOwnerRepositoryNode("api"),
+                createOwnerRepositoryNode("web"),
+              ],
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          },
+          rateLimit,
+        })
+        .mockResolvedValueOnce({
+          r0: { issueCount: 120 },
+          r1: { issueCount: 3 },
+          rateLimit,
+        });
+
+      const result = await adapter.getOwnerRepositories("acme", mergedSince);
+
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("r1: search(type: ISSUE, query: $q1"),
+        expect.objectContaining({
+          q0: "repo:acme/api is:pr is:merged merged:>=2024-01-01T00:00:00Z",
+          q1: "repo:acme/web is:pr is:merged merged:>=2024-01-01T00:00:00Z",
+        }),
+      );
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(
+          result.value.map((repository) => repository.mergedPullRequestCount),
+        ).toEqual([120, 3]);
+      }
+    });
+
+    it("should return error when the owner does not exist", async () => {
+      mockGraphql.mockResolvedValueOnce({ repositoryOwner: null, rateLimit });
+
+      const result = await adapter.getOwnerRepositories("missing", mergedSince);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain(
+          "Organization or user not found",
+        );
+      }
+    });
+  });
+
+  describe("getOrganizationTeams", () => {
+    const rateLimit = {
+      limit: 5000,
+      cost: 1,
+      remaining: 4999,
+      resetAt: new Date(Date.now() + 3600000).toISOString(),
+    };
+
+    function createMembersPage(logins: string[], endCursor: string | null) {
+      return {
+        nodes: logins.map((login) => ({ login })),
+        pageInfo: { hasNextPage: endCursor !== null, endCursor },
+      };
+    }
+
+    it("should page through teams and the members of large teams", async () => {
+      mockGraphql
+        .mockResolvedValueOnce({
+          organization: {
+            teams: {
+              nodes: [
+                {
+                  slug: "platform",
+                  name: "Platform",
+                  members: createMembersPage(["alice"], "members1"),
+                },
+              ],
+              pageInfo: { hasNextPage: true, endCursor: "cursor1" },
+            },
+          },
+          rateLimit,
+        })
+        .mockResolvedValueOnce({
+          organization: {
+            team: { members: createMembersPage(["bob"], null) },
+          },
+          rateLimit,
+        })
+        .mockResolvedValueOnce({
+          organization: {
+            teams: {
+              nodes: [
+                {
+                  slug: "mobile",
+                  name: "Mobile",
+                  members: createMembersPage(["carol"], null),
+                },
+              ],
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          },
+          rateLimit,
+        });
+
+      const result = await adapter.getOrganizationTeams("acme");
+
+      expect(result).toEqual({
+        ok: true,
+        value: [
+          { slug: "platform", name: "Platform", members: ["alice", "bob"] },
+          { slug: "mobile", name: "Mobile", members: ["carol"] },
+        ],
+      });
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("GetTeamMembers"),
+        expect.objectContaining({ slug: "platform", after: "members1" }),
+      );
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        3,
+        expect.stringContaining("GetOrganizationTeams"),
+        expect.objectContaining({ organization: "acme", after: "cursor1" }),
+      );
+    });
+
+    it("should report a missing read:org scope", async () => {
+      mockGraphql.mockRejectedValue(
+        createGraphqlError("Insufficient scopes", [
+          {
+            type: "INSUFFICIENT_SCOPES",
+            message:
+              "Your token has not been granted the required scopes to execute this query.",
+          },
+        ]),
+      );
+
+      const result = await adapter.getOrganizationTeams("acme");
+
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error).toBeInstanceOf(MissingScopeError);
+      expect((result.error as MissingScopeError).scope).toBe("read:org");
+    });
+
+    it("should return error when the owner is not an organization", async () => {
+      mockGraphql.mockResolvedValueOnce({ organization: null, rateLimit });
+
+      const result = await adapter.getOrganizationTeams("someone");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("Organization not found");
+      }
+    });
+  });
+
+  describe("isOwnerMember", () => {
+    it("should accept the owner itself", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        viewer: { login: "Alice" },
+        repositoryOwner: {},
+      });
+
+      expect(await adapter.isOwnerMember("alice")).toEqual({
+        ok: true,
+        value: true,
+      });
+    });
+
+    it("should accept members and users with private repository access", async () => {
+      mockGraphql
+        .mockResolvedValueOnce({
+          viewer: { login: "alice" },
+          repositoryOwner: {
+            viewerIsAMember: true,
+            repositories: { totalCount: 0 },
+          },
+        })
+        .mockResolvedValueOnce({
+          viewer: { login: "alice" },
+          repositoryOwner: {
+            viewerIsAMember: false,
+            repositories: { totalCount: 2 },
+          },
+        });
+
+      expect(await adapter.isOwnerMember("acme")).toEqual({
+        ok: true,
+        value: true,
+      });
+      expect(await adapter.isOwnerMember("acme")).toEqual({
+        ok: true,
+        value: true,
+      });
+    });
+
+    it("should reject outsiders", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        viewer: { login: "mallory" },
+        repositoryOwner: {
+          viewerIsAMember: false,
+          repositories: { totalCount: 0 },
+        },
+      });
+
+      expect(await adapter.isOwnerMember("acme")).toEqual({
+        ok: true,
+        value: false,
+      });
+    });
+  });
+
+  describe("GitHub Enterprise Server", () => {
+    it("should send requests to the enterprise GraphQL endpoint", async () => {
+      const hostResult = GitHost.create("ghe.example.com");
+      if (!hostResult.ok) throw hostResult.error;
+      const enterpriseAdapter = new OctokitAdapter(mockSessionProvider, {
+        host: hostResult.value,
+      });
+      mockGraphql.mockResolvedValue(createMockGraphQLCommitsResponse([]));
+
+      const result = await enterpriseAdapter.getLog(
+        "https://ghe.example.com/owner/repo",
+      );
+
+      expect(result.ok).toBe(true);
+      expect(mockGraphqlDefaults).toHaveBeenCalledWith(
+        expect.objectContaining({ baseUrl: "https://ghe.example.com/api" }),
+      );
+    });
+
+    it("should default to the github.com GraphQL endpoint", async () => {
+      mockGraphql.mockResolvedValue(createMockGraphQLCommitsResponse([]));
+
+      await adapter.getLog("https://github.com/owner/repo");
+
+      expect(mockGraphqlDefaults).toHaveBeenCalledWith(
+        expect.objectContaining({ baseUrl: "https://api.github.com" }),
+      );
+    });
+  });
+
   describe("getLog", () => {
     it("should parse GitHub URL correctly", async () => {
       mockGraphql.mockResolvedValue(createMockGraphQLCommitsResponse([]));
@@ -700,6 +1467,16 @@ describe("OctokitAdapter", () => {
       }
     });
 
+    it("should reject URL on a different host than the adapter", async () => {
+      const result = await adapter.getLog("https://ghe.example.com/owner/repo");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("does not match");
+      }
+      expect(mockGraphql).not.toHaveBeenCalled();
+    });
+
     it("should fetch and transform commits correctly", async () => {
       mockGraphql.mockResolvedValue(
         createMockGraphQLCommitsResponse([
@@ -800,16 +1577,212 @@ describe("OctokitAdapter", () => {
         ),
       );
 
-      const result = await adapter.getLog("https://github.com/owner/repo");
+      const result = await adapter.getLog("https://github.com/owner/repo");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("Repository not found");
+      }
+    });
+  });
+
+  describe("request scheduling", () => {
+    it("should send an identical query from two adapters once", async () => {
+      const scheduler = new RequestScheduler();
+      const adapters = [
+        new OctokitAdapter(mockSessionProvider, { scheduler }),
+        new OctokitAdapter(mockSessionProvider, { scheduler }),
+      ];
+      mockGraphql.mockResolvedValue({ repository: { id: "123" } });
+
+      const results = await Promise.all(
+        adapters.map((a) => a.validateAccess("owner", "repo")),
+      );
+
+      expect(results.every((result) => result.ok)).toBe(true);
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+    });
+
+    it("should hold back an adapter once another used up the token's budget", async () => {
+      const scheduler = new RequestScheduler();
+      const [first, second] = [
+        new OctokitAdapter(mockSessionProvider, { scheduler }),
+        new OctokitAdapter(mockSessionProvider, { scheduler }),
+      ];
+      mockGraphql.mockResolvedValueOnce({
+        ...createMockGraphQLPRResponse([{ number: 1 }]),
+        rateLimit: {
+          limit: 5000,
+          cost: 1,
+          remaining: 0,
+          resetAt: new Date(Date.now() + 3600000).toISOString(),
+        },
+      });
+
+      await first.getPullRequests("owner", "repo");
+      const result = await second.getPullRequests("owner", "other");
+
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBeInstanceOf(RateLimitExhaustedError);
+      }
+    });
+  });
+
+  describe("streaming", () => {
+    it("should fetch the next commit page only when the consumer reaches it", async () => {
+      mockGraphql
+        .mockResolvedValueOnce(
+          createMockGraphQLCommitsResponse(
+            [{ oid: "c2" }, { oid: "merge", parents: { totalCount: 2 } }],
+            { hasNextPage: true, endCursor: "cursor1" },
+          ),
+        )
+        .mockResolvedValueOnce(
+          createMockGraphQLCommitsResponse([{ oid: "c1" }]),
+        );
+
+      const iterator = adapter
+        .streamLog("https://github.com/owner/repo")
+        [Symbol.asyncIterator]();
+
+      expect((await iterator.next()).value).toMatchObject({ hash: "c2" });
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+
+      expect((await iterator.next()).value).toMatchObject({ hash: "c1" });
+      expect(mockGraphql).toHaveBeenCalledTimes(2);
+      expect((await iterator.next()).done).toBe(true);
+    });
+
+    it("should throw for an invalid GitHub URL", async () => {
+      const stream = adapter.streamLog("invalid-url");
+
+      await expect(async () => {
+        for await (const _commit of stream) {
+          // drain
+        }
+      }).rejects.toThrow("Invalid GitHub URL");
+    });
+
+    it("should yield each pull request once across searches", async () => {
+      mockGraphql.mockImplementation((async (
+        _query: string,
+        variables: { query: string },
+      ) =>
+        variables.query.includes(" created:")
+          ? createMockGraphQLSearchResponse([
+              { number: 2, createdAt: "2024-01-10T00:00:00Z" },
+            ])
+          : createMockGraphQLSearchResponse([
+              { number: 2, createdAt: "2024-01-10T00:00:00Z" },
+              {
+                number: 1,
+                createdAt: "2023-12-20T00:00:00Z",
+                mergedAt: "2024-01-08T00:00:00Z",
+                state: "MERGED",
+              },
+            ])) as any);
+
+      const numbers: number[] = [];
+      for await (const pr of adapter.streamPullRequests(
+        "owner",
+        "repo",
+        new Date("2024-01-05T00:00:00Z"),
+        new Date("2024-01-31T00:00:00Z"),
+      )) {
+        numbers.push(pr.number);
+      }
+
+      expect(numbers).toEqual([2, 1]);
+    });
+
+    it("should search by merge date with MERGED semantics", async () => {
+      mockGraphql.mockResolvedValue(
+        createMockGraphQLSearchResponse([
+          {
+            number: 1,
+            createdAt: "2023-12-20T00:00:00Z",
+            mergedAt: "2024-01-08T00:00:00Z",
+            state: "MERGED",
+          },
+        ]),
+      );
+
+      const pullRequests: PullRequest[] = [];
+      for await (const pr of adapter.streamPullRequests(
+        "owner",
+        "repo",
+        new Date("2024-01-05T00:00:00Z"),
+        new Date("2024-01-31T00:00:00Z"),
+        PullRequestDateSemantics.MERGED,
+      )) {
+        pullRequests.push(pr);
+      }
+
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+      expect(mockGraphql).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          query:
+            "repo:owner/repo is:pr merged:2024-01-05T00:00:00Z..2024-01-31T00:00:00Z",
+        }),
+      );
+      expect(pullRequests).toHaveLength(1);
+      expect(pullRequests[0]?.closedAt).toEqual(
+        new Date("2024-01-08T00:00:00Z"),
+      );
+    });
+
+    it("should split the search window when it matches more than 1000 PRs", async () => {
+      mockGraphql
+        .mockResolvedValueOnce(createMockGraphQLSearchResponse([], 1500))
+        .mockResolvedValueOnce(
+          createMockGraphQLSearchResponse(
+            [{ number: 1, createdAt: "2024-01-02T00:00:00Z" }],
+            700,
+          ),
+        )
+        .mockResolvedValueOnce(
+          createMockGraphQLSearchResponse(
+            [{ number: 2, createdAt: "2024-01-04T00:00:00Z" }],
+            800,
+          ),
+        );
 
-      expect(result.ok).toBe(false);
-      if (!result.ok) {
-        expect(result.error.message).toContain("Repository not found");
+      const numbers: number[] = [];
+      for await (const pr of adapter.streamPullRequests(
+        "owner",
+        "repo",
+        new Date("2024-01-01T00:00:00Z"),
+        new Date("2024-01-05T00:00:00Z"),
+        PullRequestDateSemantics.CREATED,
+      )) {
+        numbers.push(pr.number);
       }
+
+      expect(mockGraphql).toHaveBeenCalledTimes(3);
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        2,
+        expect.any(String),
+        expect.objectContaining({
+          query:
+            "repo:owner/repo is:pr created:2024-01-01T00:00:00Z..2024-01-03T00:00:00Z",
+        }),
+      );
+      expect(mockGraphql).toHaveBeenNthCalledWith(
+        3,
+        expect.any(String),
+        expect.objectContaining({
+          query:
+            "repo:owner/repo is:pr created:2024-01-03T00:00:01Z..2024-01-05T00:00:00Z",
+        }),
+      );
+      expect(numbers).toEqual([1, 2]);
     });
   });
 
-  describe("Parallel Batching Helper Functions", () => {
+  describe("Batching Helper Functions", () => {
     describe("createBatches", () => {
       it("should split 165 items into 11 batches of 15", () => {
         const items = Array.from({ length: 165 }, (_, i) => i + 1);
@@ -966,54 +1939,30 @@ describe("OctokitAdapter", () => {
     });
 
     describe("fetchCommentsForBatch", () => {
-      it("should fetch comments for multiple PRs in parallel", async () => {
-        // Mock successful responses for all 3 PRs
-        mockGraphql.mockResolvedValue({
-          repository: {
-            pullRequest: {
-              number: 1,
-              comments: {
-                nodes: [
-                  {
-                    id: "1",
-                    body: "Comment",
-                    author: { login: "user" },
-                    createdAt: "2024-01-01T00:00:00Z",
-                  },
-                ],
-                pageInfo: { hasNextPage: false, endCursor: null },
-              },
-            },
-          },
-          rateLimit: {
-            limit: 5000,
-            cost: 1,
-            remaining: 4999,
-            resetAt: new Date(Date.now() + 3600000).toISOString(),
-          },
-        });
+      it("should fetch comments for multiple PRs with one query", async () => {
+        mockBatchedReviewComments({ costPerPR: 1 });
 
-        const { comments, errors } = await (adapter as any)[
+        const { comments, errors, cost } = await (adapter as any)[
           "fetchCommentsForBatch"
         ]("owner", "repo", [1, 2, 3]);
 
         expect(comments).toHaveLength(3);
         expect(errors).toHaveLength(0);
-        expect(mockGraphql).toHaveBeenCalledTimes(3);
+        expect(cost).toBe(3);
+        expect(mockGraphql).toHaveBeenCalledTimes(1);
       });
 
-      it("should handle partial failures gracefully", async () => {
-        // PR 1: success
+      it("should paginate only PRs with more comments", async () => {
         mockGraphql
           .mockResolvedValueOnce({
             repository: {
-              pullRequest: {
+              pr1: {
                 number: 1,
                 comments: {
                   nodes: [
                     {
                       id: "1",
-                      body: "Success",
+                      body: "Only page",
                       author: { login: "user" },
                       createdAt: "2024-01-01T00:00:00Z",
                     },
@@ -1021,28 +1970,39 @@ describe("OctokitAdapter", () => {
                   pageInfo: { hasNextPage: false, endCursor: null },
                 },
               },
+              pr2: {
+                number: 2,
+                comments: {
+                  nodes: [
+                    {
+                      id: "2",
+                      body: "First page",
+                      author: { login: "user" },
+                      createdAt: "2024-01-01T00:00:00Z",
+                    },
+                  ],
+                  pageInfo: { hasNextPage: true, endCursor: "cursor2" },
+                },
+              },
             },
             rateLimit: {
               limit: 5000,
-              cost: 1,
-              remaining: 4999,
+              cost: 2,
+              remaining: 4998,
               resetAt: new Date(Date.now() + 3600000).toISOString(),
             },
           })
-          // PR 2: failure
-          .mockRejectedValueOnce(new Error("Failed PR 2"))
-          // PR 3: success
           .mockResolvedValueOnce({
             repository: {
               pullRequest: {
-                number: 3,
+                number: 2,
                 comments: {
                   nodes: [
                     {
                       id: "3",
-                      body: "Success",
+                      body: "Second page",
                       author: { login: "user" },
-                      createdAt: "2024-01-03T00:00:00Z",
+                      createdAt: "2024-01-02T00:00:00Z",
                     },
                   ],
                   pageInfo: { hasNextPage: false, endCursor: null },
@@ -1052,18 +2012,49 @@ describe("OctokitAdapter", () => {
             rateLimit: {
               limit: 5000,
               cost: 1,
-              remaining: 4998,
+              remaining: 4997,
               resetAt: new Date(Date.now() + 3600000).toISOString(),
             },
           });
 
         const { comments, errors } = await (adapter as any)[
           "fetchCommentsForBatch"
+        ]("owner", "repo", [1, 2]);
+
+        expect(errors).toHaveLength(0);
+        expect(comments.map((c: { body: string }) => c.body)).toEqual([
+          "Only page",
+          "First page",
+          "Second page",
+        ]);
+        expect(mockGraphql).toHaveBeenCalledTimes(2);
+        expect(mockGraphql).toHaveBeenLastCalledWith(
+          expect.stringContaining("GetReviewComments("),
+          expect.objectContaining({
+            prNumber: 2,
+            after: "cursor2",
+            includeThreads: false,
+          }),
+        );
+      });
+
+      it("should split a failing batch to isolate the failing PR", async () => {
+        mockBatchedReviewComments({ failing: [2] });
+
+        const { comments, errors, cost } = await (adapter as any)[
+          "fetchCommentsForBatch"
         ]("owner", "repo", [1, 2, 3]);
 
-        expect(comments.length).toBeGreaterThan(0); // Some succeeded
-        expect(errors).toHaveLength(1); // One failed
-        expect(errors[0].message).toContain("Failed to fetch comments");
+        expect(
+          comments.map(
+            (c: { pullRequestNumber: number }) => c.pullRequestNumber,
+          ),
+        ).toEqual([1, 3]);
+        expect(errors).toHaveLength(1);
+        expect(errors[0].message).toContain(
+          "Failed to fetch comments for PR #2",
+        );
+        expect(cost).toBeNull();
       });
 
       it("should handle empty PR list", async () => {
@@ -1078,28 +2069,30 @@ describe("OctokitAdapter", () => {
     });
   });
 
-  describe("getReviewComments (parallel batching)", () => {
-    it("should fetch comments for large PR list in batches", async () => {
-      const prNumbers = Array.from({ length: 45 }, (_, i) => i + 1); // 3 batches of 15
+  describe("getReviewComments (batched queries)", () => {
+    const aliasCount = (call: unknown[]) =>
+      ((call[0] as string).match(/: pullRequest\(/g) ?? []).length;
 
-      // Mock successful responses for all PRs
-      mockGraphql.mockResolvedValue({
-        repository: {
-          pullRequest: {
-            number: 1,
-            comments: {
-              nodes: [],
-              pageInfo: { hasNextPage: false, endCursor: null },
-            },
-          },
-        },
-        rateLimit: {
-          limit: 5000,
-          cost: 1,
-          remaining: 4999,
-          resetAt: new Date(Date.now() + 3600000).toISOString(),
-        },
-      });
+    it("should grow batches while queries are cheap", async () => {
+      const prNumbers = Array.from({ length: 45 }, (_, i) => i + 1);
+      mockBatchedReviewComments({ costPerPR: 0.05 });
+
+      const result = await adapter.getReviewComments(
+        "owner",
+        "repo",
+        prNumbers,
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(45);
+      }
+      expect(mockGraphql.mock.calls.map(aliasCount)).toEqual([20, 25]);
+    });
+
+    it("should shrink batches when queries are expensive", async () => {
+      const prNumbers = Array.from({ length: 45 }, (_, i) => i + 1);
+      mockBatchedReviewComments({ costPerPR: 2 });
 
       const result = await adapter.getReviewComments(
         "owner",
@@ -1108,36 +2101,52 @@ describe("OctokitAdapter", () => {
       );
 
       expect(result.ok).toBe(true);
-      expect(mockGraphql).toHaveBeenCalledTimes(45); // All PRs fetched
+      expect(mockGraphql.mock.calls.map(aliasCount)).toEqual([20, 15, 10]);
+    });
+
+    it("should report processed pull requests after each batch", async () => {
+      const onProgress = vi.fn();
+      const reportingAdapter = new OctokitAdapter(mockSessionProvider, {
+        onProgress,
+      });
+      const prNumbers = Array.from({ length: 45 }, (_, i) => i + 1);
+      mockBatchedReviewComments({ costPerPR: 2 });
+
+      await reportingAdapter.getReviewComments("owner", "repo", prNumbers);
+
+      expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+        { type: "pull_requests_processed", processed: 20, total: 45 },
+        { type: "pull_requests_processed", processed: 35, total: 45 },
+        { type: "pull_requests_processed", processed: 45, total: 45 },
+      ]);
+    });
+
+    it("should not split batches once the signal is aborted", async () => {
+      const controller = new AbortController();
+      const cancellableAdapter = new OctokitAdapter(mockSessionProvider, {
+        signal: controller.signal,
+      });
+      const prNumbers = Array.from({ length: 45 }, (_, i) => i + 1);
+      mockBatchedReviewComments();
+      controller.abort();
+
+      const result = await cancellableAdapter.getReviewComments(
+        "owner",
+        "repo",
+        prNumbers,
+      );
+
+      expect(mockGraphql).not.toHaveBeenCalled();
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.name).toBe("AbortError");
+      }
     });
 
     it("should complete successfully with no errors for typical case", async () => {
       const prNumbers = [1, 2, 3];
 
-      mockGraphql.mockResolvedValue({
-        repository: {
-          pullRequest: {
-            number: 1,
-            comments: {
-              nodes: [
-                {
-                  id: "1",
-                  body: "Test comment",
-                  author: { login: "user" },
-                  createdAt: "2024-01-01T00:00:00Z",
-                },
-              ],
-              pageInfo: { hasNextPage: false, endCursor: null },
-            },
-          },
-        },
-        rateLimit: {
-          limit: 5000,
-          cost: 1,
-          remaining: 4999,
-          resetAt: new Date(Date.now() + 3600000).toISOString(),
-        },
-      });
+      mockBatchedReviewComments();
 
       const result = await adapter.getReviewComments(
         "owner",
@@ -1161,4 +2170,348 @@ describe("OctokitAdapter", () => {
       expect(mockGraphql).not.toHaveBeenCalled();
     });
   });
+
+  describe("incremental sync", () => {
+    let storage: MockStoragePort;
+    let syncAdapter: OctokitAdapter;
+
+    beforeEach(() => {
+      storage = new MockStoragePort();
+      syncAdapter = new OctokitAdapter(mockSessionProvider, {
+        syncStorage: () => storage,
+      });
+    });
+
+    describe("streamPullRequests", () => {
+      it("should stop at PRs last updated before sinceDate on first sync", async () => {
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLPRResponse(
+            [
+              { number: 3, updatedAt: "2024-03-01T00:00:00Z" },
+              { number: 2, updatedAt: "2023-12-01T00:00:00Z" },
+            ],
+            { hasNextPage: true, endCursor: "cursor1" },
+          ),
+        );
+
+        const result = await collect(
+          syncAdapter.streamPullRequests(
+            "owner",
+            "repo",
+            new Date("2024-01-01T00:00:00Z"),
+          ),
+        );
+
+        expect(result.ok).toBe(true);
+        expect(mockGraphql).toHaveBeenCalledTimes(1);
+        expect(mockGraphql).toHaveBeenCalledWith(
+          expect.stringContaining("GetPullRequestsByUpdated"),
+          expect.objectContaining({ owner: "owner", repo: "repo" }),
+        );
+      });
+
+      it("should fetch only PRs updated since the watermark and merge them", async () => {
+        const sinceDate = new Date("2024-01-01T00:00:00Z");
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLPRResponse([
+            {
+              number: 2,
+              title: "Second",
+              createdAt: "2024-02-01T00:00:00Z",
+              updatedAt: "2024-02-02T00:00:00Z",
+            },
+            {
+              number: 1,
+              title: "First",
+              createdAt: "2024-01-10T00:00:00Z",
+              updatedAt: "2024-01-11T00:00:00Z",
+            },
+          ]),
+        );
+        await collect(
+          syncAdapter.streamPullRequests("owner", "repo", sinceDate),
+        );
+
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLPRResponse(
+            [
+              {
+                number: 1,
+                title: "First (merged)",
+                state: "MERGED",
+                createdAt: "2024-01-10T00:00:00Z",
+                updatedAt: "2024-03-01T00:00:00Z",
+                mergedAt: "2024-03-01T00:00:00Z",
+              },
+              {
+                number: 2,
+                title: "Second",
+                createdAt: "2024-02-01T00:00:00Z",
+                updatedAt: "2024-02-02T00:00:00Z",
+              },
+              {
+                number: 0,
+                title: "Older",
+                createdAt: "2023-12-01T00:00:00Z",
+                updatedAt: "2023-12-02T00:00:00Z",
+              },
+            ],
+            { hasNextPage: true, endCursor: "cursor1" },
+          ),
+        );
+        mockGraphql.mockClear();
+
+        const result = await collect(
+          syncAdapter.streamPullRequests("owner", "repo", sinceDate),
+        );
+
+        // Second page is never requested: PR #0 is older than the watermark
+        expect(mockGraphql).toHaveBeenCalledTimes(1);
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.value.map((pr) => pr.number)).toEqual([2, 1]);
+          expect(result.value[1]!.title).toBe("First (merged)");
+          expect(result.value[1]!.state).toBe("merged");
+        }
+      });
+
+      it("should run a full sync when the requested window is wider than stored", async () => {
+        mockGraphql.mockResolvedValue(createMockGraphQLPRResponse([]));
+        await collect(
+          syncAdapter.streamPullRequests(
+            "owner",
+            "repo",
+            new Date("2024-01-01T00:00:00Z"),
+          ),
+        );
+
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLPRResponse([
+            {
+              number: 1,
+              createdAt: "2023-06-01T00:00:00Z",
+              updatedAt: "2023-06-02T00:00:00Z",
+            },
+          ]),
+        );
+
+        const result = await collect(
+          syncAdapter.streamPullRequests(
+            "owner",
+            "repo",
+            new Date("2023-01-01T00:00:00Z"),
+          ),
+        );
+
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.value).toHaveLength(1);
+        }
+      });
+    });
+
+    describe("getLog", () => {
+      const commit = (oid: string, date: string) => ({
+        oid,
+        author: { name: "Dev", email: "dev@example.com", date },
+      });
+
+      it("should fetch only commits newer than the last seen oid", async () => {
+        const sinceDate = new Date("2024-01-01T00:00:00Z");
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLCommitsResponse([
+            commit("b", "2024-01-20T00:00:00Z"),
+            commit("a", "2024-01-10T00:00:00Z"),
+          ]),
+        );
+        await syncAdapter.getLog("https://github.com/owner/repo", sinceDate);
+
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLCommitsResponse(
+            [
+              commit("c", "2024-02-01T00:00:00Z"),
+              commit("b", "2024-01-20T00:00:00Z"),
+            ],
+            { hasNextPage: true, endCursor: "cursor1" },
+          ),
+        );
+        mockGraphql.mockClear();
+
+        const result = await syncAdapter.getLog(
+          "https://github.com/owner/repo",
+          sinceDate,
+        );
+
+        expect(mockGraphql).toHaveBeenCalledTimes(1);
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.value.map((c) => c.hash)).toEqual(["c", "b", "a"]);
+        }
+      });
+
+      it("should replace stored commits when the last seen oid is gone", async () => {
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLCommitsResponse([
+            commit("old", "2024-01-10T00:00:00Z"),
+          ]),
+        );
+        await syncAdapter.getLog("https://github.com/owner/repo");
+
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLCommitsResponse([
+            commit("rewritten", "2024-01-10T00:00:00Z"),
+          ]),
+        );
+
+        const result = await syncAdapter.getLog(
+          "https://github.com/owner/repo",
+        );
+
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.value.map((c) => c.hash)).toEqual(["rewritten"]);
+        }
+      });
+
+      it("should apply untilDate to synced commits", async () => {
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLCommitsResponse([
+            commit("b", "2024-02-10T00:00:00Z"),
+            commit("a", "2024-01-10T00:00:00Z"),
+          ]),
+        );
+
+        const result = await syncAdapter.getLog(
+          "https://github.com/owner/repo",
+          new Date("2024-01-01T00:00:00Z"),
+          new Date("2024-01-31T00:00:00Z"),
+        );
+
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.value.map((c) => c.hash)).toEqual(["a"]);
+        }
+      });
+    });
+
+    describe("rate limit checkpoints", () => {
+      const secondaryRateLimitError = () =>
+        createGraphqlError(
+          "You have exceeded a secondary rate limit",
+          [],
+          "403",
+        );
+
+      beforeEach(() => {
+        syncAdapter = new OctokitAdapter(mockSessionProvider, {
+          syncStorage: () => storage,
+          retryPolicy: new RetryPolicy({
+            sleep: async () => {},
+            retryBudget: 0,
+          }),
+        });
+      });
+
+      it("should return partial pull requests and resume from the saved cursor", async () => {
+        const sinceDate = new Date("2024-01-01T00:00:00Z");
+        mockGraphql
+          .mockResolvedValueOnce(
+            createMockGraphQLPRResponse(
+              [
+                {
+                  number: 3,
+                  createdAt: "2024-03-01T00:00:00Z",
+                  updatedAt: "2024-03-01T00:00:00Z",
+                },
+              ],
+              { hasNextPage: true, endCursor: "cursor1" },
+            ),
+          )
+          .mockRejectedValueOnce(secondaryRateLimitError());
+
+        const partial = await collect(
+          syncAdapter.streamPullRequests("owner", "repo", sinceDate),
+        );
+
+        expect(partial.ok).toBe(false);
+        if (!partial.ok) {
+          expect(partial.error).toBeInstanceOf(RateLimitExhaustedError);
+          expect(
+            (partial.error as RateLimitExhaustedError<{ number: number }>)
+              .partial,
+          ).toEqual([expect.objectContaining({ number: 3 })]);
+        }
+
+        mockGraphql.mockClear();
+        mockGraphql.mockResolvedValueOnce(
+          createMockGraphQLPRResponse([
+            {
+              number: 2,
+              createdAt: "2024-02-01T00:00:00Z",
+              updatedAt: "2024-02-01T00:00:00Z",
+            },
+          ]),
+        );
+
+        const resumed = await collect(
+          syncAdapter.streamPullRequests("owner", "repo", sinceDate),
+        );
+
+        expect(mockGraphql).toHaveBeenCalledTimes(1);
+        expect(mockGraphql).toHaveBeenCalledWith(
+          expect.stringContaining("GetPullRequestsByUpdated"),
+          expect.objectContaining({ after: "cursor1" }),
+        );
+        expect(resumed.ok).toBe(true);
+        if (resumed.ok) {
+          expect(resumed.value.map((pr) => pr.number).sort()).toEqual([2, 3]);
+        }
+        const checkpoint = await storage.load(
+          getCheckpointKey("owner", "repo", "pull_requests"),
+        );
+        expect(checkpoint.ok && checkpoint.value).toBeNull();
+      });
+
+      it("should resume review comments without refetching processed PRs", async () => {
+        const aliasCount = (call: unknown[]) =>
+          ((call[0] as string).match(/: pullRequest\(/g) ?? []).length;
+        const prNumbers = Array.from({ length: 25 }, (_, i) => i + 1);
+        mockBatchedReviewComments();
+        const batched = mockGraphql.getMockImplementation()!;
+        mockGraphql
+          .mockImplementationOnce(batched)
+          .mockImplementationOnce(() =>
+            Promise.reject(secondaryRateLimitError()),
+          );
+
+        const partial = await syncAdapter.getReviewComments(
+          "owner",
+          "repo",
+          prNumbers,
+        );
+
+        expect(partial.ok).toBe(false);
+        if (!partial.ok) {
+          expect(partial.error).toBeInstanceOf(RateLimitExhaustedError);
+          expect(
+            (partial.error as RateLimitExhaustedError).partial,
+          ).toHaveLength(20);
+        }
+
+        mockGraphql.mockClear();
+        const resumed = await syncAdapter.getReviewComments(
+          "owner",
+          "repo",
+          prNumbers,
+        );
+
+        expect(mockGraphql.mock.calls.map(aliasCount)).toEqual([5]);
+        expect(resumed.ok).toBe(true);
+        if (resumed.ok) {
+          expect(resumed.value).toHaveLength(25);
+          expect(resumed.value[0]!.createdAt).toBeInstanceOf(Date);
+        }
+      });
+    });
+  });
 });
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  RequestPriority,
+  RequestScheduler,
+  getRequestScheduler,
+} from "../RequestScheduler";
+import { RateLimiter } from "../RateLimiter";
+import { createAbortError } from "@/lib/utils/abort";
+
+// Helper to create a request that resolves when the test says so
+function createDeferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Let queued microtasks (slot handoffs) run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("RequestScheduler", () => {
+  describe("run", () => {
+    it("should cap the number of concurrent requests", async () => {
+      const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+      const gates = [createDeferred(), createDeferred(), createDeferred()];
+      const started: number[] = [];
+
+      const runs = gates.map((gate, index) =>
+        scheduler.run(async () => {
+          started.push(index);
+          return gate.promise;
+        }),
+      );
+      await flush();
+
+      expect(started).toEqual([0, 1]);
+      expect(scheduler.queuedCount).toBe(1);
+
+      gates[0]?.resolve("first");
+      await flush();
+
+      expect(started).toEqual([0, 1, 2]);
+      gates[1]?.resolve("second");
+      gates[2]?.resolve("third");
+      await expect(Promise.all(runs)).resolves.toEqual([
+        "first",
+        "second",
+        "third",
+      ]);
+      expect(scheduler.activeCount).toBe(0);
+    });
+
+    it("should start queued interactive requests before background ones", async () => {
+      const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+      const gate = createDeferred();
+      const order: string[] = [];
+
+      const blocking = scheduler.run(() => gate.promise);
+      const background = scheduler.run(async () => order.push("background"), {
+        priority: RequestPriority.BACKGROUND,
+      });
+      const interactive = scheduler.run(async () => order.push("interactive"), {
+        priority: RequestPriority.INTERACTIVE,
+      });
+
+      gate.resolve(undefined);
+      await Promise.all([blocking, background, interactive]);
+
+      expect(order).toEqual(["interactive", "background"]);
+    });
+
+    it("should release the slot when a request fails", async () => {
+      const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+
+      await expect(
+        scheduler.run(async () => {
+          throw new Error("Bad credentials");
+        }),
+      ).rejects.toThrow("Bad credentials");
+
+      await expect(scheduler.run(async () => "next")).resolves.toBe("next");
+    });
+
+    it("should leave the queue when the signal is aborted", async () => {
+      const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+      const gate = createDeferred();
+      const controller = new AbortController();
+      const request = vi.fn(async () => "never");
+
+      const blocking = scheduler.run(() => gate.promise);
+      const queued = scheduler.run(request, { signal: controller.signal });
+      controller.abort();
+
+      await expect(queued).rejects.toMatchObject({ name: "AbortError" });
+      expect(scheduler.queuedCount).toBe(0);
+      gate.resolve(undefined);
+      await blocking;
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("share", () => {
+    it("should send identical in-flight requests once", async () => {
+      const scheduler = new RequestScheduler();
+      const gate = createDeferred<string>();
+      const request = vi.fn(() => gate.promise);
+
+      const first = scheduler.share("query", request);
+      const second = scheduler.share("query", request);
+      gate.resolve("response");
+
+      await expect(Promise.all([first, second])).resolves.toEqual([
+        "response",
+        "response",
+      ]);
+      expect(request).toHaveBeenCalledTimes(1);
+
+      // Finished requests are not reused
+      expect(await scheduler.share("query", async () => "again")).toBe("again");
+    });
+
+    it("should send its own request when the shared one was cancelled", async () => {
+      const scheduler = new RequestScheduler();
+      const gate = createDeferred<string>();
+
+      const cancelled = scheduler.share("query", () => gate.promise);
+      const waiting = scheduler.share("query", async () => "own response");
+      gate.reject(createAbortError());
+
+      await expect(cancelled).rejects.toMatchObject({ name: "AbortError" });
+      await expect(waiting).resolves.toBe("own response");
+    });
+  });
+
+  describe("getRequestScheduler", () => {
+    it("should share one scheduler and rate limit state per token", () => {
+      const scheduler = getRequestScheduler("ghp_sharedToken");
+      const limiters = [new RateLimiter(), new RateLimiter()];
+      limiters.forEach((limiter) => limiter.share(scheduler.rateLimitState));
+
+      limiters[0]?.updateRateLimit({
+        limit: 5000,
+        remaining: 42,
+        resetAt: new Date("2024-01-01T01:00:00Z"),
+      });
+
+      expect(getRequestScheduler("ghp_sharedToken")).toBe(scheduler);
+      expect(getRequestScheduler("ghp_otherToken")).not.toBe(scheduler);
+      expect(limiters[1]?.getRateLimitInfo()?.remaining).toBe(42);
+    });
+
+    it("should evict schedulers idle for longer than an hour", () => {
+      const now = Date.now();
+      const idle = getRequestScheduler("ghp_idleToken", now);
+
+      getRequestScheduler("ghp_laterToken", now + 61 * 60_000);
+
+      expect(getRequestScheduler("ghp_idleToken", now + 62 * 60_000)).not.toBe(
+        idle,
+      );
+    });
+
+    it("should keep schedulers with running requests", async () => {
+      const now = Date.now();
+      const busy = getRequestScheduler("ghp_busyToken", now);
+      const gate = createDeferred();
+      const running = busy.run(() => gate.promise);
+
+      getRequestScheduler("ghp_otherLaterToken", now + 61 * 60_000);
+
+      expect(getRequestScheduler("ghp_busyToken", now + 62 * 60_000)).toBe(
+        busy,
+      );
+      gate.resolve(undefined);
+      await running;
+    });
+  });
+});
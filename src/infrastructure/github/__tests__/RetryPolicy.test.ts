@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  RetryPolicy,
+  RetryReason,
+  classifyRetryableError,
+} from "../RetryPolicy";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
+
+// Helper to create an @octokit/request style HTTP error
+function createHttpError(
+  status: number,
+  message: string,
+  headers: Record<string, string> = {},
+) {
+  return Object.assign(new Error(message), {
+    status,
+    response: { headers },
+  });
+}
+
+// Helper to create a GraphqlResponseError style error
+function createGraphQLTypeError(type: string, message = type) {
+  return Object.assign(new Error(message), {
+    errors: [{ type, message }],
+    headers: {},
+  });
+}
+
+function createPolicy(options: ConstructorParameters<typeof RetryPolicy>[0]) {
+  const sleep = vi.fn(async (_ms: number) => {});
+  const policy = new RetryPolicy({ random: () => 0.5, sleep, ...options });
+  return { policy, sleep };
+}
+
+describe("classifyRetryableError", () => {
+  it("should detect secondary rate limits and honor Retry-After", () => {
+    const failure = classifyRetryableError(
+      createHttpError(403, "You have exceeded a secondary rate limit", {
+        "retry-after": "30",
+      }),
+    );
+
+    expect(failure).toEqual({
+      reason: RetryReason.SECONDARY_RATE_LIMIT,
+      retryAfterMs: 30_000,
+    });
+  });
+
+  it("should wait for the reset when no requests remain", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    const failure = classifyRetryableError(
+      createHttpError(403, "API rate limit exceeded", {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(now / 1000 + 60),
+      }),
+      now,
+    );
+
+    expect(failure).toEqual({
+      reason: RetryReason.RATE_LIMITED,
+      retryAfterMs: 60_000,
+    });
+  });
+
+  it.each([
+    [createHttpError(502, "Bad Gateway")],
+    [createHttpError(504, "Gateway Timeout")],
+    [createGraphQLTypeError("RESOURCE_LIMITS_EXCEEDED")],
+  ])("should treat %s as a query that is too large", (error) => {
+    expect(classifyRetryableError(error)?.reason).toBe(
+      RetryReason.QUERY_TOO_LARGE,
+    );
+  });
+
+  it.each([
+    [createHttpError(401, "Bad credentials")],
+    [createHttpError(403, "Resource not accessible by integration")],
+    [createGraphQLTypeError("NOT_FOUND")],
+    [new Error("Network down")],
+  ])("should not retry %s", (error) => {
+    expect(classifyRetryableError(error)).toBeNull();
+  });
+});
+
+describe("RetryPolicy", () => {
+  it("should retry with jittered exponential backoff", async () => {
+    const { policy, sleep } = createPolicy({ baseDelayMs: 1000 });
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(createHttpError(503, "Service Unavailable"))
+      .mockRejectedValueOnce(createHttpError(503, "Service Unavailable"))
+      .mockResolvedValueOnce("ok");
+
+    await expect(policy.execute("pullRequests", request)).resolves.toBe("ok");
+
+    // Equal jitter: half the cap plus random (0.5) times half the cap
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([750, 1500]);
+  });
+
+  it("should wait as long as Retry-After requests", async () => {
+    const { policy, sleep } = createPolicy({});
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(
+        createHttpError(429, "Too Many Requests", { "retry-after": "12" }),
+      )
+      .mockResolvedValueOnce("ok");
+
+    await policy.execute("commits", request);
+
+    expect(sleep).toHaveBeenCalledWith(12_000);
+  });
+
+  it("should halve the page size after a timeout and keep it for the operation", async () => {
+    const { policy } = createPolicy({});
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(createHttpError(504, "Gateway Timeout"))
+      .mockResolvedValue("ok");
+
+    await policy.execute("pullRequests", request);
+    await policy.execute("pullRequests", request);
+
+    expect(request.mock.calls.map(([pageSize]) => pageSize)).toEqual([
+      100, 50, 50,
+    ]);
+    expect(policy.getPageSize("commits")).toBe(100);
+  });
+
+  it("should not retry oversized queries without a page size", async () => {
+    const { policy } = createPolicy({});
+    const error = createGraphQLTypeError("RESOURCE_LIMITS_EXCEEDED");
+    const request = vi.fn().mockRejectedValue(error);
+
+    await expect(
+      policy.execute("reviewCommentsBatch", request, false),
+    ).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after maxAttempts", async () => {
+    const { policy } = createPolicy({ maxAttempts: 3 });
+    const request = vi.fn().mockRejectedValue(createHttpError(500, "Boom"));
+
+    await expect(policy.execute("tags", request)).rejects.toThrow("Boom");
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("should share the retry budget across requests", async () => {
+    const { policy } = createPolicy({ retryBudget: 2 });
+    const request = vi.fn().mockRejectedValue(createHttpError(500, "Boom"));
+
+    await expect(policy.execute("releases", request)).rejects.toThrow();
+    await expect(policy.execute("deployments", request)).rejects.toThrow();
+
+    // 3 attempts for the first request (2 retries), 1 for the second
+    expect(request).toHaveBeenCalledTimes(4);
+    expect(policy.getRemainingBudget()).toBe(0);
+  });
+
+  it("should not wait longer than maxWaitMs", async () => {
+    const { policy, sleep } = createPolicy({ maxWaitMs: 60_000 });
+    const request = vi
+      .fn()
+      .mockRejectedValue(
+        createHttpError(403, "secondary rate limit", { "retry-after": "600" }),
+      );
+
+    await expect(policy.execute("commits", request)).rejects.toThrow();
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("should report an exhausted rate limit with its reset time", async () => {
+    const now = Date.now();
+    const { policy } = createPolicy({ maxWaitMs: 60_000 });
+    const request = vi
+      .fn()
+      .mockRejectedValue(
+        createHttpError(403, "secondary rate limit", { "retry-after": "600" }),
+      );
+
+    const error = await policy.execute("commits", request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitExhaustedError);
+    expect(
+      (error as RateLimitExhaustedError).resetAt.getTime(),
+    ).toBeGreaterThanOrEqual(now + 600_000);
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type MockInstance,
+} from "vitest";
+import {
+  getTokenCapabilities,
+  probeTokenCapabilities,
+} from "../TokenCapabilityProbe";
+import { RequestScheduler } from "../RequestScheduler";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import {
+  PermissionStatus,
+  RepositoryPermission,
+  TokenKind,
+} from "@/domain/value-objects/TokenCapabilities";
+
+const NOW = Date.parse("2026-10-01T12:00:00Z");
+
+// Helper to create a REST response with headers
+function restResponse(
+  status: number,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(status === 200 ? "[]" : '{"message":"Forbidden"}', {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+describe("TokenCapabilityProbe", () => {
+  let fetchMock: MockInstance<typeof fetch>;
+  let responses: Record<string, Response>;
+
+  beforeEach(() => {
+    responses = {};
+    fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async (input) => {
+        const url = String(input);
+        const endpoint = Object.keys(responses).find((path) =>
+          url.includes(`/${path}?`),
+        );
+        return endpoint
+          ? (responses[endpoint] as Response).clone()
+          : restResponse(200, { "x-oauth-scopes": "repo, read:org" });
+      });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe("probeTokenCapabilities", () => {
+    it("should record the scopes of a classic token with full access", async () => {
+      const capabilities = await probeTokenCapabilities(
+        "ghp_classic",
+        GitHost.dotcom(),
+        "acme",
+        "api",
+      );
+
+      expect(capabilities.kind).toBe(TokenKind.CLASSIC);
+      expect(capabilities.scopes).toEqual(["repo", "read:org"]);
+      expect(capabilities.missing(Object.values(RepositoryPermission))).toEqual(
+        [],
+      );
+      expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+        "https://api.github.com/repos/acme/api/commits?per_page=1",
+        "https://api.github.com/repos/acme/api/pulls?state=all&per_page=1",
+        "https://api.github.com/repos/acme/api/deployments?per_page=1",
+      ]);
+    });
+
+    it("should report the permission a fine-grained token lacks", async () => {
+      responses.deployments = restResponse(403, {
+        "x-accepted-github-permissions": "deployments=read",
+      });
+
+      const capabilities = await probeTokenCapabilities(
+        "github_pat_fine",
+        GitHost.dotcom(),
+        "acme",
+        "api",
+      );
+
+      expect(capabilities.missing([RepositoryPermission.DEPLOYMENTS])).toEqual([
+        {
+          permission: RepositoryPermission.DEPLOYMENTS,
+          status: PermissionStatus.MISSING,
+          requiredGrant: "deployments=read",
+        },
+      ]);
+    });
+
+    it("should detect organizations that require SSO authorization", async () => {
+      responses.pulls = restResponse(403, {
+        "x-github-sso":
+          "required; url=https://github.com/orgs/acme/sso?authorization_request=abc",
+      });
+
+      const capabilities = await probeTokenCapabilities(
+        "gho_oauth",
+        GitHost.dotcom(),
+        "acme",
+        "api",
+      );
+
+      expect(capabilities.check(RepositoryPermission.PULL_REQUESTS)).toEqual({
+        permission: RepositoryPermission.PULL_REQUESTS,
+        status: PermissionStatus.SSO_REQUIRED,
+        ssoUrl: "https://github.com/orgs/acme/sso?authorization_request=abc",
+      });
+    });
+
+    it("should not blame permissions for an exhausted rate limit or outage", async () => {
+      responses.commits = restResponse(403, { "x-ratelimit-remaining": "0" });
+      responses.pulls = restResponse(502);
+
+      const capabilities = await probeTokenCapabilities(
+        "ghp_classic",
+        GitHost.dotcom(),
+        "acme",
+        "api",
+      );
+
+      expect(capabilities.missing(Object.values(RepositoryPermission))).toEqual(
+        [],
+      );
+      expect(capabilities.check(RepositoryPermission.CONTENTS).status).toBe(
+        PermissionStatus.UNKNOWN,
+      );
+    });
+    it("should wait for slots of the token's request scheduler", async () => {
+      const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+      let release = () => {};
+      const busy = scheduler.run(
+        () => new Promise<void>((resolve) => (release = resolve)),
+      );
+
+      const probe = probeTokenCapabilities(
+        "ghp_classic",
+        GitHost.dotcom(),
+        "acme",
+        "api",
+        scheduler,
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(scheduler.queuedCount).toBe(3);
+
+      release();
+      await busy;
+      const capabilities = await probe;
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(capabilities.missing(Object.values(RepositoryPermission))).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe("getTokenCapabilities", () => {
+    it("should probe a token and repository once per TTL", async () => {
+      const probe = (now: number) =>
+        getTokenCapabilities(
+          "ghp_cachedToken",
+          "ghp_cachedToken",
+          GitHost.dotcom(),
+          "acme",
+          "cached",
+          now,
+        );
+
+      await probe(NOW);
+      await probe(NOW + 60_000);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      await probe(NOW + 11 * 60_000);
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+    });
+
+    it("should probe again after a permission came back unknown", async () => {
+      responses.pulls = restResponse(502);
+      const probe = () =>
+        getTokenCapabilities(
+          "ghp_unknownToken",
+          "ghp_unknownToken",
+          GitHost.dotcom(),
+          "acme",
+          "unknown",
+          NOW,
+        );
+
+      await probe();
+      await probe();
+
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+    });
+  });
+});
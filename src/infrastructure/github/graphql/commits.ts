@@ -23,6 +23,7 @@ export const COMMITS_QUERY = `
                   email
                   date
                 }
+                committedDate
                 message
                 additions
                 deletions
@@ -59,6 +60,8 @@ export interface GitHubGraphQLCommit {
     email: string;
     date: string;
   } | null;
+  /** Absent in commits synced before it was queried */
+  committedDate?: string;
   message: string;
   additions: number;
   deletions: number;
@@ -21,6 +21,7 @@ export const DEPLOYMENTS_QUERY = `
           createdAt
           environment
           state
+          commitOid
           ref {
             name
           }
@@ -52,6 +53,7 @@ export interface GitHubGraphQLDeployment {
   createdAt: string; // ISO 8601 date string
   environment: string | null;
   state: string;
+  commitOid: string;
   ref: {
     name: string;
   } | null;
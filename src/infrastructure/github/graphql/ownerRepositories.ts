@@ -0,0 +1,194 @@
+/**
+ * Owner Repositories GraphQL Query and Types
+ *
+ * This module contains the query and types for listing an organization's
+ * (or user's) repositories with the recent activity of each.
+ */
+
+import type { GitHubGraphQLRelease } from "./releases";
+import type { GitHubGraphQLDeployment } from "./deployments";
+
+/**
+ * Latest items read per repository for the health summary
+ * (releases and deployments)
+ */
+export const OWNER_REPOSITORY_RECENT_ITEMS = 30;
+
+/**
+ * Query to fetch a page of an owner's repositories
+ * Nested connections make each repository costly, so pages are small.
+ */
+export const OWNER_REPOSITORIES_QUERY = `
+  query GetOwnerRepositories($owner: String!, $first: Int!, $after: String, $recent: Int!) {
+    repositoryOwner(login: $owner) {
+      repositories(
+        first: $first
+        after: $after
+        orderBy: { field: PUSHED_AT, direction: DESC }
+      ) {
+        nodes {
+          name
+          description
+          isPrivate
+          isArchived
+          isFork
+          pushedAt
+          primaryLanguage {
+            name
+          }
+          openPullRequests: pullRequests(
+            states: OPEN
+            first: 1
+            orderBy: { field: CREATED_AT, direction: ASC }
+          ) {
+            totalCount
+            nodes {
+              createdAt
+            }
+          }
+          latestRelease {
+            tagName
+            publishedAt
+          }
+          releases(
+            first: $recent
+            orderBy: { field: CREATED_AT, direction: DESC }
+          ) {
+            nodes {
+              name
+              tagName
+              createdAt
+              publishedAt
+              isPrerelease
+              isDraft
+              tagCommit {
+                oid
+              }
+            }
+          }
+          deployments(
+            first: $recent
+            orderBy: { field: CREATED_AT, direction: DESC }
+          ) {
+            nodes {
+              id
+              createdAt
+              environment
+              state
+              commitOid
+              ref {
+                name
+              }
+              latestStatus {
+                state
+                createdAt
+              }
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+    rateLimit {
+      limit
+      cost
+      remaining
+      resetAt
+    }
+  }
+`;
+
+/**
+ * Repository response from GitHub GraphQL API
+ */
+export interface GitHubGraphQLOwnerRepository {
+  name: string;
+  description: string | null;
+  isPrivate: boolean;
+  isArchived: boolean;
+  isFork: boolean;
+  pushedAt: string | null; // ISO 8601 date string
+  primaryLanguage: {
+    name: string;
+  } | null;
+  openPullRequests: {
+    totalCount: number;
+    nodes: Array<{ createdAt: string }>; // Oldest open PR
+  };
+  latestRelease: {
+    tagName: string;
+    publishedAt: string | null;
+  } | null;
+  releases: {
+    nodes: GitHubGraphQLRelease[];
+  };
+  deployments: {
+    nodes: GitHubGraphQLDeployment[];
+  };
+}
+
+/**
+ * Owner repositories query response
+ * repositoryOwner is null when no organization or user has the login
+ */
+export interface GitHubGraphQLOwnerRepositoriesResponse {
+  repositoryOwner: {
+    repositories: {
+      nodes: GitHubGraphQLOwnerRepository[];
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+  rateLimit: {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string; // ISO 8601 date string
+  };
+}
+
+/**
+ * Build a query counting the merged pull requests of several repositories
+ * Repository connections cannot filter pull requests by merge date, so
+ * each repository gets an aliased search (r0, r1, ...) whose query is
+ * passed as a variable ($q0, $q1, ...).
+ *
+ * @param count Number of repositories (searches)
+ */
+export function buildMergedPullRequestCountsQuery(count: number): string {
+  const indexes = Array.from({ length: count }, (_, index) => index);
+  return `
+  query GetMergedPullRequestCounts(${indexes.map((index) => `$q${index}: String!`).join(", ")}) {
+    ${indexes
+      .map(
+        (index) =>
+          `r${index}: search(type: ISSUE, query: $q${index}, first: 1) { issueCount }`,
+      )
+      .join("\n    ")}
+    rateLimit {
+      limit
+      cost
+      remaining
+      resetAt
+    }
+  }
+`;
+}
+
+/**
+ * Merged pull request counts response (one search per repository)
+ */
+export type GitHubGraphQLMergedPullRequestCountsResponse = {
+  [alias: `r${number}`]: { issueCount: number };
+  rateLimit: {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string; // ISO 8601 date string
+  };
+};
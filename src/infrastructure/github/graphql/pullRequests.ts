@@ -5,32 +5,75 @@
  */
 
 /**
- * Query to fetch pull requests with all required data
- * Includes pagination support and fetches up to 100 comments per PR
+ * Submitted reviews of a pull request (pending reviews excluded)
+ * Up to 100 reviews per PR are fetched; PRs with more are truncated.
  */
-export const PULL_REQUESTS_QUERY = `
-  query GetPullRequests($owner: String!, $repo: String!, $first: Int!, $after: String) {
-    repository(owner: $owner, name: $repo) {
-      pullRequests(
-        first: $first
-        after: $after
-        orderBy: { field: CREATED_AT, direction: DESC }
-      ) {
-        nodes {
+const REVIEWS_SELECTION = `
+          reviews(first: 100, states: [APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED]) {
+            totalCount
+            nodes {
+              author {
+                login
+              }
+              state
+              submittedAt
+            }
+          }`;
+
+/**
+ * Cycle-time timestamps of a pull request
+ * The first commit marks the start of coding; the last ready_for_review
+ * event replaces createdAt as the start of pickup for PRs opened as drafts.
+ */
+const CYCLE_TIME_SELECTION = `
+          commits(first: 1) {
+            nodes {
+              commit {
+                authoredDate
+              }
+            }
+          }
+          timelineItems(itemTypes: [READY_FOR_REVIEW_EVENT], last: 1) {
+            nodes {
+              ... on ReadyForReviewEvent {
+                createdAt
+              }
+            }
+          }`;
+
+/**
+ * Fields of a pull request shared by list, incremental sync and search
+ */
+const PULL_REQUEST_FIELDS = `
           number
           title
           state
           createdAt
+          updatedAt
           mergedAt
+          closedAt
           author {
             login
           }
           additions
           deletions
           changedFiles
-          reviews {
-            totalCount
+          headRefName
+          mergeCommit {
+            oid
           }
+          labels(first: 20) {
+            nodes {
+              name
+            }
+          }
+          ${REVIEWS_SELECTION}
+          ${CYCLE_TIME_SELECTION}`;
+
+/**
+ * First page of conversation comments of a pull request
+ */
+const COMMENTS_SELECTION = `
           comments(first: 100) {
             nodes {
               id
@@ -44,7 +87,23 @@ export const PULL_REQUESTS_QUERY = `
               hasNextPage
               endCursor
             }
-          }
+          }`;
+
+/**
+ * Query to fetch pull requests with all required data
+ * Includes pagination support and fetches up to 100 comments per PR
+ */
+export const PULL_REQUESTS_QUERY = `
+  query GetPullRequests($owner: String!, $repo: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(
+        first: $first
+        after: $after
+        orderBy: { field: CREATED_AT, direction: DESC }
+      ) {
+        nodes {
+          ${PULL_REQUEST_FIELDS}
+          ${COMMENTS_SELECTION}
         }
         pageInfo {
           hasNextPage
@@ -61,6 +120,22 @@ export const PULL_REQUESTS_QUERY = `
   }
 `;
 
+/**
+ * Pull request review from GitHub GraphQL API
+ */
+export interface GitHubGraphQLReview {
+  author: {
+    login: string;
+  } | null; // null if user deleted
+  state:
+    | "APPROVED"
+    | "CHANGES_REQUESTED"
+    | "COMMENTED"
+    | "DISMISSED"
+    | "PENDING";
+  submittedAt: string | null; // null while pending
+}
+
 /**
  * Pull Request response from GitHub GraphQL API
  */
@@ -69,15 +144,39 @@ export interface GitHubGraphQLPullRequest {
   title: string;
   state: "OPEN" | "CLOSED" | "MERGED";
   createdAt: string; // ISO 8601 date string
+  updatedAt: string; // ISO 8601 date string
   mergedAt: string | null; // null if not merged
+  closedAt: string | null; // null while open (also set for merged PRs)
   author: {
     login: string;
   } | null; // null if user deleted
   additions: number;
   deletions: number;
   changedFiles: number;
+  headRefName: string;
+  mergeCommit: {
+    oid: string;
+  } | null; // null unless merged
+  labels: {
+    nodes: Array<{
+      name: string;
+    }>;
+  };
   reviews: {
     totalCount: number;
+    nodes: GitHubGraphQLReview[];
+  };
+  commits: {
+    nodes: Array<{
+      commit: {
+        authoredDate: string; // ISO 8601 date string
+      };
+    }>;
+  };
+  timelineItems: {
+    nodes: Array<{
+      createdAt: string; // ISO 8601 date string
+    }>;
   };
   comments: {
     nodes: Array<{
@@ -95,6 +194,15 @@ export interface GitHubGraphQLPullRequest {
   };
 }
 
+/**
+ * Pull request without inline comments
+ * Used by incremental sync, which does not need comment bodies
+ */
+export type GitHubGraphQLPullRequestSummary = Omit<
+  GitHubGraphQLPullRequest,
+  "comments"
+>;
+
 /**
  * Pull Requests query response
  */
@@ -115,3 +223,105 @@ export interface GitHubGraphQLPullRequestsResponse {
     resetAt: string; // ISO 8601 date string
   };
 }
+
+/**
+ * Query to fetch pull requests ordered by last update (newest first)
+ * Used by incremental sync: pagination stops once PRs older than the
+ * stored watermark are reached. Comments are omitted to reduce query cost.
+ */
+export const PULL_REQUESTS_BY_UPDATED_QUERY = `
+  query GetPullRequestsByUpdated($owner: String!, $repo: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(
+        first: $first
+        after: $after
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        nodes {
+          ${PULL_REQUEST_FIELDS}
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+    rateLimit {
+      limit
+      cost
+      remaining
+      resetAt
+    }
+  }
+`;
+
+/**
+ * Pull Requests by updated query response
+ */
+export interface GitHubGraphQLPullRequestsByUpdatedResponse {
+  repository: {
+    pullRequests: {
+      nodes: GitHubGraphQLPullRequestSummary[];
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+    };
+  };
+  rateLimit: {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string; // ISO 8601 date string
+  };
+}
+
+/**
+ * Query to search pull requests with GitHub search qualifiers
+ * (e.g. "repo:owner/repo is:pr merged:2024-01-01..2024-01-31")
+ * Search returns at most 1,000 results per query; callers split windows
+ * whose issueCount exceeds that.
+ */
+export const SEARCH_PULL_REQUESTS_QUERY = `
+  query SearchPullRequests($query: String!, $first: Int!, $after: String) {
+    search(query: $query, type: ISSUE, first: $first, after: $after) {
+      issueCount
+      nodes {
+        ... on PullRequest {
+          ${PULL_REQUEST_FIELDS}
+          ${COMMENTS_SELECTION}
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+    rateLimit {
+      limit
+      cost
+      remaining
+      resetAt
+    }
+  }
+`;
+
+/**
+ * Search pull requests query response
+ */
+export interface GitHubGraphQLSearchPullRequestsResponse {
+  search: {
+    issueCount: number;
+    nodes: GitHubGraphQLPullRequest[];
+    pageInfo: {
+      hasNextPage: boolean;
+      endCursor: string | null;
+    };
+  };
+  rateLimit: {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string; // ISO 8601 date string
+  };
+}
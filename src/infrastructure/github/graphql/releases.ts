@@ -23,6 +23,9 @@ export const RELEASES_QUERY = `
           publishedAt
           isPrerelease
           isDraft
+          tagCommit {
+            oid
+          }
         }
         pageInfo {
           hasNextPage
@@ -49,6 +52,9 @@ export interface GitHubGraphQLRelease {
   publishedAt: string | null; // null if not published
   isPrerelease: boolean;
   isDraft: boolean;
+  tagCommit: {
+    oid: string;
+  } | null; // null if the tag no longer exists
 }
 
 /**
@@ -1,27 +1,59 @@
 /**
  * Review Comments GraphQL Query and Types
  *
- * This module contains the query and types for fetching review comments.
+ * This module contains the queries and types for fetching review comments.
  */
 
+/**
+ * Fields selected for every comment node
+ */
+const COMMENT_FIELDS = `
+  id
+  body
+  createdAt
+  author {
+    login
+  }
+`;
+
+/**
+ * Inline review-thread comments: up to 100 threads with 100 comments each
+ */
+const REVIEW_THREADS_SELECTION = `
+  reviewThreads(first: 100) {
+    nodes {
+      comments(first: 100) {
+        nodes {
+          ${COMMENT_FIELDS}
+        }
+      }
+    }
+  }
+`;
+
 /**
  * Query to fetch review comments for a specific PR
- * Used when a PR has 100+ comments requiring pagination
+ * Conversation comments are paginated; inline review-thread comments are
+ * included on the first page only ($includeThreads).
  */
 export const REVIEW_COMMENTS_QUERY = `
-  query GetReviewComments($owner: String!, $repo: String!, $prNumber: Int!, $first: Int!, $after: String) {
+  query GetReviewComments($owner: String!, $repo: String!, $prNumber: Int!, $first: Int!, $after: String, $includeThreads: Boolean!) {
     repository(owner: $owner, name: $repo) {
       pullRequest(number: $prNumber) {
         number
-        comments(first: $first, after: $after) {
+        reviewThreads(first: 100) @include(if: $includeThreads) {
           nodes {
-            id
-            body
-            createdAt
-            author {
-              login
+            comments(first: 100) {
+              nodes {
+                ${COMMENT_FIELDS}
+              }
             }
           }
+        }
+        comments(first: $first, after: $after) {
+          nodes {
+            ${COMMENT_FIELDS}
+          }
           pageInfo {
             hasNextPage
             endCursor
@@ -39,28 +71,111 @@ export const REVIEW_COMMENTS_QUERY = `
 `;
 
 /**
- * Review comments query response
+ * Alias of a PR within a batched review comments query
+ *
+ * @example
+ * reviewCommentsAlias(123) // "pr123"
  */
-export interface GitHubGraphQLReviewCommentsResponse {
-  repository: {
-    pullRequest: {
-      number: number;
+export function reviewCommentsAlias(prNumber: number): string {
+  return `pr${prNumber}`;
+}
+
+/**
+ * Build a query that fetches the first page of review comments for many
+ * PRs at once, one aliased `prN: pullRequest(number: N)` field per PR
+ *
+ * PRs whose conversation comments have more pages are continued with
+ * REVIEW_COMMENTS_QUERY.
+ */
+export function buildReviewCommentsBatchQuery(prNumbers: number[]): string {
+  const fields = prNumbers.map((prNumber) => {
+    if (!Number.isInteger(prNumber) || prNumber <= 0) {
+      throw new Error(`Invalid pull request number: ${prNumber}`);
+    }
+    return `
+      ${reviewCommentsAlias(prNumber)}: pullRequest(number: ${prNumber}) {
+        number
+        ${REVIEW_THREADS_SELECTION}
+        comments(first: 100) {
+          nodes {
+            ${COMMENT_FIELDS}
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }`;
+  });
+
+  return `
+  query GetReviewCommentsBatch($owner: String!, $repo: String!) {
+    repository(owner: $owner, name: $repo) {${fields.join("")}
+    }
+    rateLimit {
+      limit
+      cost
+      remaining
+      resetAt
+    }
+  }
+`;
+}
+
+/**
+ * Comment node (conversation or review-thread comment)
+ */
+export interface GitHubGraphQLComment {
+  id: string;
+  body: string;
+  createdAt: string;
+  author: {
+    login: string;
+  } | null;
+}
+
+/**
+ * Pull request with its review comments
+ */
+export interface GitHubGraphQLReviewCommentsPullRequest {
+  number: number;
+  reviewThreads?: {
+    nodes: Array<{
       comments: {
-        nodes: Array<{
-          id: string;
-          body: string;
-          createdAt: string;
-          author: {
-            login: string;
-          } | null;
-        }>;
-        pageInfo: {
-          hasNextPage: boolean;
-          endCursor: string | null;
-        };
+        nodes: GitHubGraphQLComment[];
       };
+    }>;
+  }; // Only present on the first page
+  comments: {
+    nodes: GitHubGraphQLComment[];
+    pageInfo: {
+      hasNextPage: boolean;
+      endCursor: string | null;
     };
   };
+}
+
+/**
+ * Review comments query response
+ */
+export interface GitHubGraphQLReviewCommentsResponse {
+  repository: {
+    pullRequest: GitHubGraphQLReviewCommentsPullRequest;
+  };
+  rateLimit: {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string;
+  };
+}
+
+/**
+ * Batched review comments query response
+ * Keyed by alias; unknown PRs resolve to null.
+ */
+export interface GitHubGraphQLReviewCommentsBatchResponse {
+  repository: Record<string, GitHubGraphQLReviewCommentsPullRequest | null>;
   rateLimit: {
     limit: number;
     cost: number;
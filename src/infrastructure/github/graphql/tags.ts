@@ -22,12 +22,16 @@ export const TAGS_QUERY = `
           name
           target {
             ... on Commit {
+              oid
               committedDate
             }
             ... on Tag {
               tagger {
                 date
               }
+              target {
+                oid
+              }
             }
           }
         }
@@ -52,10 +56,14 @@ export const TAGS_QUERY = `
 export interface GitHubGraphQLTag {
   name: string;
   target: {
+    oid?: string; // Commit oid for lightweight tags
     committedDate?: string; // For lightweight tags (commit)
     tagger?: {
       date: string; // For annotated tags
     } | null;
+    target?: {
+      oid: string; // Tagged object oid for annotated tags
+    };
   };
 }
 
@@ -0,0 +1,174 @@
+/**
+ * Organization Teams GraphQL Queries and Types
+ *
+ * This module contains the queries and types for listing an organization's
+ * teams and their members, and for checking that the viewer belongs to the
+ * organization. Reading teams needs the read:org scope (or the Members
+ * organization permission for GitHub Apps).
+ */
+
+/**
+ * Members read with each team; larger teams page through
+ * TEAM_MEMBERS_QUERY for the rest
+ */
+export const TEAM_MEMBERS_PAGE_SIZE = 100;
+
+/**
+ * Query to fetch a page of an organization's teams with their first members
+ * membership: ALL includes members of child teams.
+ */
+export const ORGANIZATION_TEAMS_QUERY = `
+  query GetOrganizationTeams($organization: String!, $first: Int!, $after: String, $members: Int!) {
+    organization(login: $organization) {
+      teams(first: $first, after: $after, orderBy: { field: NAME, direction: ASC }) {
+        nodes {
+          slug
+          name
+          members(first: $members, membership: ALL) {
+            nodes {
+              login
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+    rateLimit {
+      limit
+      cost
+      remaining
+      resetAt
+    }
+  }
+`;
+
+/**
+ * Query to fetch the next page of a team's members
+ */
+export const TEAM_MEMBERS_QUERY = `
+  query GetTeamMembers($organization: String!, $slug: String!, $first: Int!, $after: String) {
+    organization(login: $organization) {
+      team(slug: $slug) {
+        members(first: $first, after: $after, membership: ALL) {
+          nodes {
+            login
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+    rateLimit {
+      limit
+      cost
+      remaining
+      resetAt
+    }
+  }
+`;
+
+/**
+ * Page of team members from GitHub GraphQL API
+ */
+export interface GitHubGraphQLTeamMembers {
+  nodes: Array<{ login: string }>;
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+/**
+ * Team response from GitHub GraphQL API
+ */
+export interface GitHubGraphQLTeam {
+  slug: string;
+  name: string;
+  members: GitHubGraphQLTeamMembers;
+}
+
+/**
+ * Organization teams query response
+ * organization is null when no organization has the login (e.g. a user)
+ */
+export interface GitHubGraphQLOrganizationTeamsResponse {
+  organization: {
+    teams: {
+      nodes: GitHubGraphQLTeam[];
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+  rateLimit: {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string; // ISO 8601 date string
+  };
+}
+
+/**
+ * Team members query response
+ */
+export interface GitHubGraphQLTeamMembersResponse {
+  organization: {
+    team: {
+      members: GitHubGraphQLTeamMembers;
+    } | null;
+  } | null;
+  rateLimit: {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string; // ISO 8601 date string
+  };
+}
+
+/**
+ * Query to check that the viewer is the owner, or a member of the owner
+ * organization. Private memberships are only visible with the read:org
+ * scope, so access to a private repository of the organization counts too.
+ */
+export const OWNER_MEMBERSHIP_QUERY = `
+  query GetOwnerMembership($owner: String!) {
+    viewer {
+      login
+    }
+    repositoryOwner(login: $owner) {
+      ... on Organization {
+        viewerIsAMember
+        repositories(privacy: PRIVATE) {
+          totalCount
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Owner membership query response
+ * repositoryOwner is null when no user or organization has the login;
+ * organization fields are missing for users.
+ */
+export interface GitHubGraphQLOwnerMembershipResponse {
+  viewer: {
+    login: string;
+  };
+  repositoryOwner: {
+    viewerIsAMember?: boolean;
+    repositories?: {
+      totalCount: number;
+    };
+  } | null;
+}
@@ -12,17 +12,26 @@
 import {
   GitCommit,
   PullRequest,
+  PullRequestReview,
   ReviewComment,
   RateLimitInfo,
   Release,
   Deployment,
   Tag,
+  OwnerRepository,
+  OrganizationTeam,
 } from "@/domain/interfaces/IGitHubRepository";
-import { GitHubGraphQLPullRequest } from "../graphql/pullRequests";
+import {
+  GitHubGraphQLPullRequestSummary,
+  GitHubGraphQLReview,
+} from "../graphql/pullRequests";
 import { GitHubGraphQLCommit } from "../graphql/commits";
 import { GitHubGraphQLRelease } from "../graphql/releases";
 import { GitHubGraphQLDeployment } from "../graphql/deployments";
 import { GitHubGraphQLTag } from "../graphql/tags";
+import { GitHubGraphQLOwnerRepository } from "../graphql/ownerRepositories";
+import { GitHubGraphQLTeam } from "../graphql/teams";
+import { GitHubGraphQLReviewCommentsPullRequest } from "../graphql/reviewComments";
 
 /**
  * Map GraphQL PR state to domain PR state
@@ -38,10 +47,33 @@ function mapPRState(
   return "open";
 }
 
+/**
+ * Map GraphQL reviews to domain PullRequestReviews
+ * Pending reviews (not yet submitted) are dropped.
+ */
+export function mapReviews(
+  gqlReviews: GitHubGraphQLReview[],
+): PullRequestReview[] {
+  const reviews: PullRequestReview[] = [];
+  for (const review of gqlReviews) {
+    if (review.state === "PENDING" || !review.submittedAt) {
+      continue;
+    }
+    reviews.push({
+      author: review.author?.login ?? "unknown",
+      state: review.state,
+      submittedAt: new Date(review.submittedAt),
+    });
+  }
+  return reviews;
+}
+
 /**
  * Map GraphQL PullRequest to domain PullRequest
  */
-export function mapPullRequest(gqlPR: GitHubGraphQLPullRequest): PullRequest {
+export function mapPullRequest(
+  gqlPR: GitHubGraphQLPullRequestSummary,
+): PullRequest {
   // Handle null author (deleted users)
   const author = gqlPR.author?.login ?? "unknown";
 
@@ -52,18 +84,38 @@ export function mapPullRequest(gqlPR: GitHubGraphQLPullRequest): PullRequest {
     createdAt: new Date(gqlPR.createdAt),
     state: mapPRState(gqlPR.state),
     reviewCommentCount: gqlPR.reviews.totalCount,
+    reviews: mapReviews(gqlPR.reviews.nodes),
+    labels: gqlPR.labels.nodes.map((label) => label.name),
+    headRefName: gqlPR.headRefName,
   };
 
-  // Add optional fields for merged PRs
+  // Add optional fields for merged and closed PRs
   if (gqlPR.mergedAt) {
     pullRequest.mergedAt = new Date(gqlPR.mergedAt);
   }
+  if (gqlPR.closedAt) {
+    pullRequest.closedAt = new Date(gqlPR.closedAt);
+  }
+  if (gqlPR.mergeCommit) {
+    pullRequest.mergeCommitOid = gqlPR.mergeCommit.oid;
+  }
 
   // Add code change statistics (always available in GraphQL)
   pullRequest.additions = gqlPR.additions;
   pullRequest.deletions = gqlPR.deletions;
   pullRequest.changedFiles = gqlPR.changedFiles;
 
+  // Add cycle-time timestamps when available
+  const firstCommit = gqlPR.commits.nodes[0];
+  if (firstCommit) {
+    pullRequest.firstCommitAt = new Date(firstCommit.commit.authoredDate);
+  }
+
+  const readyForReview = gqlPR.timelineItems.nodes[0];
+  if (readyForReview) {
+    pullRequest.readyForReviewAt = new Date(readyForReview.createdAt);
+  }
+
   return pullRequest;
 }
 
@@ -81,6 +133,9 @@ export function mapCommit(gqlCommit: GitHubGraphQLCommit): GitCommit {
     author,
     email,
     date,
+    committedAt: gqlCommit.committedDate
+      ? new Date(gqlCommit.committedDate)
+      : undefined,
     message,
     filesChanged: gqlCommit.changedFilesIfAvailable,
     linesAdded: gqlCommit.additions,
@@ -118,6 +173,28 @@ export function mapReviewComment(
   };
 }
 
+/**
+ * Map a page of PR comments to domain ReviewComments
+ * Conversation comments come first, then inline review-thread comments
+ * (present on the first page only).
+ */
+export function mapPullRequestComments(
+  gqlPullRequest: GitHubGraphQLReviewCommentsPullRequest,
+  pullRequestNumber: number,
+): ReviewComment[] {
+  const conversationComments = gqlPullRequest.comments.nodes.map((comment) =>
+    mapReviewComment(comment, pullRequestNumber),
+  );
+  const threadComments = (gqlPullRequest.reviewThreads?.nodes ?? []).flatMap(
+    (thread) =>
+      thread.comments.nodes.map((comment) =>
+        mapReviewComment(comment, pullRequestNumber),
+      ),
+  );
+
+  return [...conversationComments, ...threadComments];
+}
+
 /**
  * Map GraphQL rate limit response to domain RateLimitInfo
  */
@@ -144,6 +221,7 @@ export function mapRelease(gqlRelease: GitHubGraphQLRelease): Release {
     publishedAt: gqlRelease.publishedAt,
     isPrerelease: gqlRelease.isPrerelease,
     isDraft: gqlRelease.isDraft,
+    commitOid: gqlRelease.tagCommit?.oid,
   };
 }
 
@@ -160,6 +238,7 @@ export function mapDeployment(
     state: gqlDeployment.state,
     ref: gqlDeployment.ref?.name ?? null,
     latestStatus: gqlDeployment.latestStatus,
+    commitOid: gqlDeployment.commitOid,
   };
 }
 
@@ -173,5 +252,52 @@ export function mapTag(gqlTag: GitHubGraphQLTag): Tag {
       committedDate: gqlTag.target.committedDate,
       tagger: gqlTag.target.tagger,
     },
+    commitOid: gqlTag.target.oid ?? gqlTag.target.target?.oid,
+  };
+}
+
+/**
+ * Map GraphQL owner repository to domain OwnerRepository
+ * @param mergedPullRequestCount PRs merged since the requested date (search)
+ */
+export function mapOwnerRepository(
+  gqlRepository: GitHubGraphQLOwnerRepository,
+  recentItemLimit: number,
+  mergedPullRequestCount: number,
+): OwnerRepository {
+  return {
+    name: gqlRepository.name,
+    description: gqlRepository.description,
+    isPrivate: gqlRepository.isPrivate,
+    isArchived: gqlRepository.isArchived,
+    isFork: gqlRepository.isFork,
+    primaryLanguage: gqlRepository.primaryLanguage?.name ?? null,
+    pushedAt: gqlRepository.pushedAt,
+    openPullRequestCount: gqlRepository.openPullRequests.totalCount,
+    oldestOpenPullRequestAt:
+      gqlRepository.openPullRequests.nodes[0]?.createdAt ?? null,
+    mergedPullRequestCount,
+    latestRelease: gqlRepository.latestRelease,
+    recentReleases: gqlRepository.releases.nodes.map(mapRelease),
+    recentDeployments: gqlRepository.deployments.nodes.map(mapDeployment),
+    recentItemLimit,
+  };
+}
+
+/**
+ * Map GraphQL team to domain OrganizationTeam
+ * @param moreMembers Members read from further member pages
+ */
+export function mapOrganizationTeam(
+  gqlTeam: GitHubGraphQLTeam,
+  moreMembers: string[] = [],
+): OrganizationTeam {
+  return {
+    slug: gqlTeam.slug,
+    name: gqlTeam.name,
+    members: [
+      ...gqlTeam.members.nodes.map((member) => member.login),
+      ...moreMembers,
+    ],
   };
 }
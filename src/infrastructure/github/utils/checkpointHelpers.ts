@@ -0,0 +1,89 @@
+/**
+ * Pagination Checkpoint Utilities
+ *
+ * When the rate limit runs out in the middle of a sync, OctokitAdapter
+ * stores what it fetched so far together with the cursor of the next page.
+ * The next run with the same context continues from that cursor instead of
+ * starting over. Checkpoints live next to the sync state.
+ */
+
+import { GitHubGraphQLPullRequestSummary } from "../graphql/pullRequests";
+import { GitHubGraphQLCommit } from "../graphql/commits";
+import { SYNC_STATE_VERSION } from "./syncHelpers";
+
+/**
+ * Checkpoints older than this are ignored (the data has moved on)
+ */
+export const CHECKPOINT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Progress of an interrupted pagination run
+ */
+export interface PaginationCheckpoint<T> {
+  context: string; // Identifies the run; only a run with the same context resumes
+  cursor: string | null; // Cursor of the next page to fetch
+  items: T[]; // Items fetched before the interruption
+  savedAt: string; // ISO 8601
+}
+
+/**
+ * Interrupted pull request sync
+ */
+export type PullRequestCheckpoint =
+  PaginationCheckpoint<GitHubGraphQLPullRequestSummary>;
+
+/**
+ * Interrupted commit sync
+ */
+export interface CommitCheckpoint extends PaginationCheckpoint<GitHubGraphQLCommit> {
+  headOid: string | null; // Branch head seen on the first page
+}
+
+/**
+ * Review comments fetched before an interruption (dates as ISO strings)
+ * Resuming skips the pull requests listed in `processed`.
+ */
+export interface ReviewCommentCheckpoint {
+  processed: number[];
+  comments: Array<{
+    id: number;
+    author: string;
+    createdAt: string;
+    body: string;
+    pullRequestNumber: number;
+  }>;
+  savedAt: string;
+}
+
+/**
+ * Build the storage key for a repository's checkpoint
+ *
+ * @example
+ * getCheckpointKey("owner", "repo", "commits") // "checkpoint:v5:owner/repo:commits"
+ */
+export function getCheckpointKey(
+  owner: string,
+  repo: string,
+  kind: "pull_requests" | "commits" | "review_comments",
+): string {
+  return `checkpoint:v${SYNC_STATE_VERSION}:${owner}/${repo}:${kind}`;
+}
+
+/**
+ * Whether a stored checkpoint can be resumed
+ *
+ * @param checkpoint Stored checkpoint
+ * @param context Context of the current run (undefined: any context)
+ * @param now Current time (epoch ms)
+ */
+export function isCheckpointUsable(
+  checkpoint: { savedAt: string; context?: string },
+  context?: string,
+  now: number = Date.now(),
+): boolean {
+  const age = now - new Date(checkpoint.savedAt).getTime();
+  if (!(age >= 0 && age <= CHECKPOINT_MAX_AGE_MS)) {
+    return false;
+  }
+  return context === undefined || checkpoint.context === context;
+}
@@ -8,6 +8,9 @@
 import { GraphqlResponseError } from "@octokit/graphql";
 import { Result, err } from "@/lib/result";
 import { logger } from "@/lib/utils/logger";
+import { isAbortError } from "@/lib/utils/abort";
+import { RateLimitExhaustedError } from "@/lib/errors/RateLimitExhaustedError";
+import { RetryReason, classifyRetryableError } from "../RetryPolicy";
 
 /**
  * Handle GraphQL errors and map to REST-equivalent error messages
@@ -21,6 +24,21 @@ export function handleGraphQLError(
   error: unknown,
   operation: string,
 ): Result<never> {
+  // Cancellation is reported as is, not as a failed operation
+  if (isAbortError(error)) {
+    logger.info(`Cancelled while ${operation}`);
+    return err(error as Error);
+  }
+
+  // Carries partial results and the reset time for callers to resume
+  if (error instanceof RateLimitExhaustedError) {
+    logger.warn(`Rate limit exhausted while ${operation}`, {
+      resetAt: error.resetAt.toISOString(),
+      partialItems: error.partial.length,
+    });
+    return err(error);
+  }
+
   if (error instanceof GraphqlResponseError) {
     const status = error.headers.status;
 
@@ -29,6 +47,19 @@ export function handleGraphQLError(
       status,
     });
 
+    // Retries were exhausted (or not worth waiting for) by the retry policy
+    const failure = classifyRetryableError(error);
+    if (
+      failure?.reason === RetryReason.SECONDARY_RATE_LIMIT ||
+      failure?.reason === RetryReason.RATE_LIMITED
+    ) {
+      return err(
+        new Error(
+          "GitHub API rate limit exceeded. Please wait a few minutes and try again.",
+        ),
+      );
+    }
+
     if (status === "401") {
       return err(new Error("Invalid GitHub token. Please sign in again."));
     }
@@ -64,26 +95,31 @@ export function handleGraphQLError(
 }
 
 /**
- * Parse owner and repo from GitHub URL
- * Supports multiple GitHub URL formats
+ * Parse host, owner and repo from GitHub URL
+ * Supports multiple GitHub URL formats on github.com and GitHub Enterprise Server
  *
  * @param url GitHub repository URL
- * @returns Object with owner and repo, or null if invalid
+ * @returns Object with host, owner and repo, or null if invalid
  *
  * @example
- * parseGitHubUrl("https://github.com/owner/repo") // { owner: "owner", repo: "repo" }
- * parseGitHubUrl("git@github.com:owner/repo.git") // { owner: "owner", repo: "repo" }
+ * parseGitHubUrl("https://github.com/owner/repo") // { host: "github.com", owner: "owner", repo: "repo" }
+ * parseGitHubUrl("git@github.com:owner/repo.git") // { host: "github.com", owner: "owner", repo: "repo" }
+ * parseGitHubUrl("https://ghe.example.com/owner/repo") // { host: "ghe.example.com", owner: "owner", repo: "repo" }
  */
 export function parseGitHubUrl(
   url: string,
-): { owner: string; repo: string } | null {
+): { host: string; owner: string; repo: string } | null {
   // Match patterns like:
-  // - https://github.com/owner/repo
-  // - https://github.com/owner/repo.git
-  // - git@github.com:owner/repo.git
-  const httpsMatch = url.match(/github\.com\/([^\/]+)\/([^\/\.]+)/);
-  if (httpsMatch && httpsMatch[1] && httpsMatch[2]) {
-    return { owner: httpsMatch[1], repo: httpsMatch[2] };
+  // - https://{host}/owner/repo
+  // - https://{host}/owner/repo.git
+  // - git@{host}:owner/repo.git
+  const match = url
+    .trim()
+    .match(
+      /^(?:https?:\/\/|git@)([^\/:@\s]+(?::\d+)?)[\/:]([^\/]+)\/([^\/]+?)(?:\.git)?(?:\/|$)/,
+    );
+  if (match && match[1] && match[2] && match[3]) {
+    return { host: match[1].toLowerCase(), owner: match[2], repo: match[3] };
   }
   return null;
 }
@@ -46,3 +46,52 @@ export function shouldContinuePagination(pageInfo: PageInfo): boolean {
 export function getNextCursor(pageInfo: PageInfo): string | null {
   return shouldContinuePagination(pageInfo) ? pageInfo.endCursor : null;
 }
+
+/**
+ * Bounds for batch sizes adjusted from GraphQL query costs
+ */
+export interface AdaptiveBatchBounds {
+  min: number;
+  max: number;
+  targetCost: number; // Rate limit points one batched query should cost
+}
+
+/**
+ * Size the next batch from the rate limit cost of the previous one
+ * Scales the batch so a query costs about targetCost points.
+ *
+ * @param batchSize Number of items in the previous batch
+ * @param cost Rate limit cost reported for the previous batch
+ * @param bounds Allowed batch sizes and target cost
+ * @returns Next batch size within bounds
+ *
+ * @example
+ * adjustBatchSize(20, 40, { min: 1, max: 40, targetCost: 20 }) // 10
+ */
+export function adjustBatchSize(
+  batchSize: number,
+  cost: number,
+  bounds: AdaptiveBatchBounds,
+): number {
+  if (batchSize <= 0 || cost <= 0) {
+    return bounds.max;
+  }
+
+  const costPerItem = cost / batchSize;
+  const next = Math.floor(bounds.targetCost / costPerItem);
+  return Math.min(bounds.max, Math.max(bounds.min, next));
+}
+
+/**
+ * Check whether a date falls in an optional window (both ends inclusive)
+ *
+ * @example
+ * isWithinWindow(new Date("2024-01-15"), new Date("2024-01-01")) // true
+ */
+export function isWithinWindow(
+  date: Date,
+  sinceDate?: Date,
+  untilDate?: Date,
+): boolean {
+  return (!sinceDate || date >= sinceDate) && (!untilDate || date <= untilDate);
+}
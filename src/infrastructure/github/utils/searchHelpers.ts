@@ -0,0 +1,96 @@
+/**
+ * Search Utilities
+ *
+ * This module builds GitHub search queries for pull requests in a date window.
+ * Search returns at most 1,000 results per query, so callers split windows
+ * that match more than SEARCH_RESULT_LIMIT pull requests.
+ */
+
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+
+/**
+ * Maximum number of results GitHub search returns for a single query
+ */
+export const SEARCH_RESULT_LIMIT = 1000;
+
+/**
+ * Search qualifiers (date fields) covering a date semantics
+ *
+ * Merged pull requests are also closed, so `closed:` covers merges for
+ * ACTIVITY. One query is needed per returned field.
+ */
+export function getSearchDateFields(
+  semantics: PullRequestDateSemantics,
+): Array<"created" | "merged" | "closed"> {
+  switch (semantics) {
+    case PullRequestDateSemantics.CREATED:
+      return ["created"];
+    case PullRequestDateSemantics.MERGED:
+      return ["merged"];
+    case PullRequestDateSemantics.ACTIVITY:
+      return ["created", "closed"];
+  }
+}
+
+/**
+ * Format a date for a search range qualifier (second precision, UTC)
+ *
+ * @example
+ * formatSearchDate(new Date("2024-01-01T00:00:00.000Z")) // "2024-01-01T00:00:00Z"
+ */
+export function formatSearchDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Build a pull request search query for one date field and window
+ *
+ * @example
+ * buildPullRequestSearchQuery("owner", "repo", "merged", start, end)
+ * // "repo:owner/repo is:pr merged:2024-01-01T00:00:00Z..2024-01-31T00:00:00Z"
+ */
+export function buildPullRequestSearchQuery(
+  owner: string,
+  repo: string,
+  field: "created" | "merged" | "closed",
+  start: Date,
+  end: Date,
+): string {
+  return `repo:${owner}/${repo} is:pr ${field}:${formatSearchDate(start)}..${formatSearchDate(end)}`;
+}
+
+/**
+ * Build a search query for pull requests merged since a date
+ *
+ * @example
+ * buildMergedPullRequestsSinceQuery("owner", "repo", since)
+ * // "repo:owner/repo is:pr is:merged merged:>=2024-01-01T00:00:00Z"
+ */
+export function buildMergedPullRequestsSinceQuery(
+  owner: string,
+  repo: string,
+  since: Date,
+): string {
+  return `repo:${owner}/${repo} is:pr is:merged merged:>=${formatSearchDate(since)}`;
+}
+
+/**
+ * Split a search window in two halves that do not overlap
+ * Returns null when the window cannot be split further (one second).
+ */
+export function splitSearchWindow(
+  start: Date,
+  end: Date,
+): [[Date, Date], [Date, Date]] | null {
+  const startSeconds = Math.floor(start.getTime() / 1000);
+  const endSeconds = Math.floor(end.getTime() / 1000);
+  if (endSeconds - startSeconds < 1) {
+    return null;
+  }
+
+  const midSeconds = Math.floor((startSeconds + endSeconds) / 2);
+  return [
+    [start, new Date(midSeconds * 1000)],
+    [new Date((midSeconds + 1) * 1000), end],
+  ];
+}
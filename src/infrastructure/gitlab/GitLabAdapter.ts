@@ -0,0 +1,552 @@
+import {
+  IGitHubRepository,
+  GitCommit,
+  PullRequest,
+  ReviewComment,
+  RateLimitInfo,
+  Release,
+  Deployment,
+  Tag,
+} from "@/domain/interfaces/IGitHubRepository";
+import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
+import { GitHost } from "@/domain/value-objects/GitHost";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "@/domain/value-objects/PullRequestDateFilter";
+import { Result, ok, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { RateLimiter } from "../github/RateLimiter";
+import { createBatches } from "../github/utils/paginationHelpers";
+import {
+  GitLabApiError,
+  GitLabClient,
+  GitLabPage,
+  GitLabQuery,
+} from "./GitLabClient";
+import {
+  GitLabCommit,
+  GitLabDeployment,
+  GitLabMergeRequest,
+  GitLabNote,
+  GitLabProject,
+  GitLabRelease,
+  GitLabTag,
+} from "./api/types";
+import {
+  mapMergeRequest,
+  mapCommit,
+  isMergeCommit,
+  mapNote,
+  mapRelease,
+  mapDeployment,
+  mapTag,
+} from "./mappers/restMappers";
+import { handleGitLabError } from "./utils/errorHandlers";
+
+/**
+ * GitLabAdapter configuration
+ */
+export interface GitLabAdapterOptions {
+  /** GitLab instance the adapter talks to */
+  host: GitHost;
+
+  /**
+   * REST API base URL override (default: host.apiUrl).
+   * Used to point the adapter at a local stand-in server in tests.
+   */
+  apiUrl?: string;
+}
+
+/**
+ * Options for collecting a paginated collection
+ */
+interface CollectOptions<TRaw, T> {
+  map: (raw: TRaw) => T;
+  /** Drop raw items before mapping (e.g. merge commits, system notes) */
+  skip?: (raw: TRaw) => boolean;
+  /** Stop paging once items (sorted newest first) are older than sinceDate */
+  sinceDate?: Date;
+  /** Drop items newer than untilDate */
+  untilDate?: Date;
+  getDate?: (item: T) => Date;
+}
+
+/**
+ * GitLab repository adapter
+ * Implements IGitHubRepository on top of the GitLab REST API (v4)
+ *
+ * Maps GitLab concepts onto the domain types used for GitHub:
+ * - Projects: owner is the project namespace (may contain subgroups)
+ * - Merge requests → pull requests (iid is used as the PR number)
+ * - Merge request notes → review comments (system notes excluded)
+ * - Releases, deployments and tags → releases, deployments and tags
+ */
+export class GitLabAdapter implements IGitHubRepository {
+  private rateLimiter = new RateLimiter();
+  private readonly BATCH_SIZE = 15; // Number of MRs to fetch notes for in parallel
+  private client?: GitLabClient; // Cached authenticated client
+
+  constructor(
+    private sessionProvider: ISessionProvider,
+    private options: GitLabAdapterOptions,
+  ) {}
+
+  /**
+   * Get authenticated client (cached per adapter instance)
+   * @throws Error if token retrieval fails
+   */
+  private async getClient(): Promise<GitLabClient> {
+    if (!this.client) {
+      const tokenResult = await this.sessionProvider.getAccessToken();
+      if (!tokenResult.ok) {
+        throw tokenResult.error;
+      }
+      this.client = new GitLabClient(
+        this.options.apiUrl ?? this.options.host.apiUrl,
+        tokenResult.value,
+      );
+    }
+    return this.client;
+  }
+
+  /**
+   * Build the API path prefix for a project
+   */
+  private projectPath(owner: string, repo: string): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  /**
+   * Extract the project path ("namespace/project") from a repository URL
+   * on this adapter's host
+   */
+  private parseProjectUrl(repoPath: string): string | null {
+    const prefix = `${this.options.host.webUrl}/`;
+    const trimmed = repoPath.trim();
+    if (!trimmed.toLowerCase().startsWith(prefix)) {
+      return null;
+    }
+
+    const path = trimmed
+      .slice(prefix.length)
+      .replace(/\/+$/, "")
+      .replace(/\.git$/, "");
+    return /^(?:[\w.-]+\/)+[\w.-]+$/.test(path) ? path : null;
+  }
+
+  /**
+   * Page through a collection, newest first
+   */
+  private async collectPages<TRaw, T>(
+    path: string,
+    query: GitLabQuery,
+    options: CollectOptions<TRaw, T>,
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.pages(path, query, options)) {
+      items.push(...page);
+    }
+    return items;
+  }
+
+  /**
+   * Yield a collection page by page, newest first
+   */
+  private async *pages<TRaw, T>(
+    path: string,
+    query: GitLabQuery,
+    options: CollectOptions<TRaw, T>,
+  ): AsyncGenerator<T[]> {
+    const client = await this.getClient();
+    const { map, skip, sinceDate, untilDate, getDate } = options;
+    let page: number | null = 1;
+
+    while (page !== null) {
+      await this.rateLimiter.waitIfNeeded();
+
+      const response: GitLabPage<TRaw> = await client.getPage<TRaw>(
+        path,
+        query,
+        page,
+      );
+      if (response.rateLimit) {
+        this.rateLimiter.updateRateLimit(response.rateLimit);
+      }
+
+      const pageItems = response.data.filter((raw) => !skip?.(raw)).map(map);
+
+      // Filter by date if provided (early termination)
+      const filteredItems = getDate
+        ? pageItems.filter(
+            (item) =>
+              (!sinceDate || getDate(item) >= sinceDate) &&
+              (!untilDate || getDate(item) <= untilDate),
+          )
+        : pageItems;
+
+      yield filteredItems;
+
+      if (
+        sinceDate &&
+        getDate &&
+        pageItems.some((item) => getDate(item) < sinceDate)
+      ) {
+        logger.debug(`Reached items older than sinceDate at ${path}`);
+        return;
+      }
+
+      page = response.nextPage;
+    }
+  }
+
+  /**
+   * Validate the token has access to the project
+   */
+  async validateAccess(owner: string, repo: string): Promise<Result<boolean>> {
+    try {
+      const client = await this.getClient();
+      await client.get<GitLabProject>(this.projectPath(owner, repo));
+      return ok(true);
+    } catch (error: unknown) {
+      return handleGitLabError(error, "validating access");
+    }
+  }
+
+  /**
+   * Check whether the token's user owns or belongs to a namespace
+   * GET /namespaces/:id only finds namespaces the user is a member of.
+   */
+  async isOwnerMember(owner: string): Promise<Result<boolean>> {
+    try {
+      const client = await this.getClient();
+      await client.get<unknown>(`/namespaces/${encodeURIComponent(owner)}`);
+      return ok(true);
+    } catch (error: unknown) {
+      if (
+        error instanceof GitLabApiError &&
+        (error.status === 403 || error.status === 404)
+      ) {
+        return ok(false);
+      }
+      return handleGitLabError(error, "checking namespace membership");
+    }
+  }
+
+  /**
+   * Get commit log of the default branch (merge commits excluded)
+   * @param repoPath Project URL (https://{host}/{namespace}/{project})
+   */
+  async getLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<GitCommit[]>> {
+    const projectPath = this.parseProjectUrl(repoPath);
+    if (!projectPath) {
+      return err(new Error(`Invalid GitLab URL: ${repoPath}`));
+    }
+
+    try {
+      const commits = await this.collectPages(
+        ...this.commitsRequest(projectPath, sinceDate, untilDate),
+      );
+
+      logger.info(`Fetched ${commits.length} commits via GitLab API`);
+      return ok(commits);
+    } catch (error: unknown) {
+      return handleGitLabError(error, "fetching commits");
+    }
+  }
+
+  /**
+   * Stream commit log of the default branch (merge commits excluded)
+   * @param repoPath Project URL (https://{host}/{namespace}/{project})
+   */
+  async *streamLog(
+    repoPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): AsyncIterable<GitCommit> {
+    const projectPath = this.parseProjectUrl(repoPath);
+    if (!projectPath) {
+      throw new Error(`Invalid GitLab URL: ${repoPath}`);
+    }
+
+    try {
+      for await (const page of this.pages(
+        ...this.commitsRequest(projectPath, sinceDate, untilDate),
+      )) {
+        yield* page;
+      }
+    } catch (error: unknown) {
+      const result = handleGitLabError(error, "streaming commits");
+      throw result.ok ? error : result.error;
+    }
+  }
+
+  /**
+   * Commits collection of a project, with its query and options
+   */
+  private commitsRequest(
+    projectPath: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): [string, GitLabQuery, CollectOptions<GitLabCommit, GitCommit>] {
+    return [
+      `/projects/${encodeURIComponent(projectPath)}/repository/commits`,
+      {
+        with_stats: true,
+        since: sinceDate?.toISOString(),
+        until: untilDate?.toISOString(),
+      },
+      { map: mapCommit, skip: isMergeCommit },
+    ];
+  }
+
+  /**
+   * Get merge requests as pull requests
+   * MRs updated since sinceDate cover every MR opened, merged or closed in
+   * the window; the window filter then applies the requested semantics.
+   */
+  async getPullRequests(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+    semantics: PullRequestDateSemantics = PullRequestDateSemantics.ACTIVITY,
+  ): Promise<Result<PullRequest[]>> {
+    try {
+      const pullRequests = await this.collectPages(
+        ...this.mergeRequestsRequest(owner, repo, sinceDate),
+      );
+
+      const filtered = PullRequestDateFilter.create(
+        semantics,
+        sinceDate,
+        untilDate,
+      ).apply(pullRequests);
+
+      logger.info(`Fetched ${filtered.length} merge requests via GitLab API`);
+      return ok(filtered);
+    } catch (error: unknown) {
+      return handleGitLabError(error, "fetching merge requests");
+    }
+  }
+
+  /**
+   * Stream merge requests as pull requests
+   * Same window and semantics as getPullRequests, one page at a time.
+   */
+  async *streamPullRequests(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+    semantics: PullRequestDateSemantics = PullRequestDateSemantics.ACTIVITY,
+  ): AsyncIterable<PullRequest> {
+    const filter = PullRequestDateFilter.create(
+      semantics,
+      sinceDate,
+      untilDate,
+    );
+
+    try {
+      for await (const page of this.pages(
+        ...this.mergeRequestsRequest(owner, repo, sinceDate),
+      )) {
+        yield* filter.apply(page);
+      }
+    } catch (error: unknown) {
+      const result = handleGitLabError(error, "streaming merge requests");
+      throw result.ok ? error : result.error;
+    }
+  }
+
+  /**
+   * Merge requests updated since sinceDate, with their query and options
+   */
+  private mergeRequestsRequest(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+  ): [string, GitLabQuery, CollectOptions<GitLabMergeRequest, PullRequest>] {
+    return [
+      `${this.projectPath(owner, repo)}/merge_requests`,
+      {
+        state: "all",
+        order_by: "updated_at",
+        sort: "desc",
+        updated_after: sinceDate?.toISOString(),
+      },
+      { map: mapMergeRequest },
+    ];
+  }
+
+  /**
+   * Get merge request notes as review comments
+   * MRs are processed in batches; failures for single MRs are logged and skipped.
+   */
+  async getReviewComments(
+    owner: string,
+    repo: string,
+    pullRequestNumbers: number[],
+  ): Promise<Result<ReviewComment[]>> {
+    try {
+      // Validate token access first (even for empty arrays)
+      await this.getClient();
+
+      const allComments: ReviewComment[] = [];
+      const allErrors: Error[] = [];
+
+      for (const batch of createBatches(pullRequestNumbers, this.BATCH_SIZE)) {
+        const results = await Promise.allSettled(
+          batch.map((iid) =>
+            this.collectPages<GitLabNote, ReviewComment>(
+              `${this.projectPath(owner, repo)}/merge_requests/${iid}/notes`,
+              { sort: "asc" },
+              {
+                map: (note) => mapNote(note, iid),
+                skip: (note) => note.system,
+              },
+            ),
+          ),
+        );
+
+        for (const result of results) {
+          if (result.status === "fulfilled") {
+            allComments.push(...result.value);
+          } else {
+            allErrors.push(
+              result.reason instanceof Error
+                ? result.reason
+                : new Error(String(result.reason)),
+            );
+          }
+        }
+      }
+
+      if (allErrors.length > 0) {
+        logger.warn(`Completed with ${allErrors.length} errors`, {
+          totalComments: allComments.length,
+          totalErrors: allErrors.length,
+          errorMessages: allErrors.map((e) => e.message),
+        });
+      }
+
+      logger.info(
+        `Fetched ${allComments.length} notes from ${pullRequestNumbers.length} merge requests`,
+      );
+      return ok(allComments);
+    } catch (error: unknown) {
+      return handleGitLabError(error, "fetching review comments");
+    }
+  }
+
+  /**
+   * Get current rate limit status
+   * Instances without rate limiting report an unlimited budget.
+   */
+  async getRateLimitStatus(): Promise<Result<RateLimitInfo>> {
+    try {
+      const client = await this.getClient();
+      const { rateLimit } = await client.get<unknown>("/user");
+
+      return ok(
+        rateLimit ?? {
+          limit: Number.POSITIVE_INFINITY,
+          remaining: Number.POSITIVE_INFINITY,
+          resetAt: new Date(),
+        },
+      );
+    } catch (error: unknown) {
+      return handleGitLabError(error, "fetch rate limit status");
+    }
+  }
+
+  /**
+   * Get releases (newest first)
+   */
+  async getReleases(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<Release[]>> {
+    try {
+      const releases = await this.collectPages<GitLabRelease, Release>(
+        `${this.projectPath(owner, repo)}/releases`,
+        { order_by: "created_at", sort: "desc" },
+        {
+          map: mapRelease,
+          sinceDate,
+          untilDate,
+          getDate: (release) => new Date(release.createdAt),
+        },
+      );
+
+      logger.info(`Fetched ${releases.length} releases via GitLab API`);
+      return ok(releases);
+    } catch (error: unknown) {
+      return handleGitLabError(error, "fetching releases");
+    }
+  }
+
+  /**
+   * Get deployments across environments (newest first)
+   */
+  async getDeployments(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<Deployment[]>> {
+    try {
+      const deployments = await this.collectPages<GitLabDeployment, Deployment>(
+        `${this.projectPath(owner, repo)}/deployments`,
+        { order_by: "created_at", sort: "desc" },
+        {
+          map: mapDeployment,
+          sinceDate,
+          untilDate,
+          getDate: (deployment) => new Date(deployment.createdAt),
+        },
+      );
+
+      logger.info(`Fetched ${deployments.length} deployments via GitLab API`);
+      return ok(deployments);
+    } catch (error: unknown) {
+      return handleGitLabError(error, "fetching deployments");
+    }
+  }
+
+  /**
+   * Get tags (most recently updated first)
+   */
+  async getTags(
+    owner: string,
+    repo: string,
+    sinceDate?: Date,
+    untilDate?: Date,
+  ): Promise<Result<Tag[]>> {
+    try {
+      const tags = await this.collectPages<GitLabTag, Tag>(
+        `${this.projectPath(owner, repo)}/repository/tags`,
+        { order_by: "updated", sort: "desc" },
+        {
+          map: mapTag,
+          sinceDate,
+          untilDate,
+          // Annotated tags carry their own date; lightweight tags use the commit date
+          getDate: (tag) =>
+            new Date(tag.target.tagger?.date ?? tag.target.committedDate ?? ""),
+        },
+      );
+
+      logger.info(`Fetched ${tags.length} tags via GitLab API`);
+      return ok(tags);
+    } catch (error: unknown) {
+      return handleGitLabError(error, "fetching tags");
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { RateLimitInfo } from "@/domain/interfaces/IGitHubRepository";
+
+/**
+ * Error returned by the GitLab REST API
+ */
+export class GitLabApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "GitLabApiError";
+  }
+}
+
+/**
+ * A single page of results from a paginated GitLab endpoint
+ */
+export interface GitLabPage<T> {
+  data: T[];
+  nextPage: number | null;
+  rateLimit: RateLimitInfo | null;
+}
+
+/**
+ * Query parameters accepted by the client
+ * Undefined values are omitted from the request.
+ */
+export type GitLabQuery = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Minimal GitLab REST API (v4) client
+ *
+ * - Authenticates with a PRIVATE-TOKEN header
+ * - Follows GitLab's page-number pagination (x-next-page header)
+ * - Reads RateLimit-* headers when the instance has rate limiting enabled
+ */
+export class GitLabClient {
+  /**
+   * @param apiUrl REST API base URL (e.g. https://gitlab.example.com/api/v4)
+   * @param token Personal, group or project access token
+   */
+  constructor(
+    private readonly apiUrl: string,
+    private readonly token: string,
+  ) {}
+
+  /**
+   * GET a single resource
+   */
+  async get<T>(
+    path: string,
+    query: GitLabQuery = {},
+  ): Promise<{ data: T; rateLimit: RateLimitInfo | null }> {
+    const response = await this.request(path, query);
+    return {
+      data: (await response.json()) as T,
+      rateLimit: parseRateLimit(response.headers),
+    };
+  }
+
+  /**
+   * GET one page of a paginated collection
+   */
+  async getPage<T>(
+    path: string,
+    query: GitLabQuery,
+    page: number,
+  ): Promise<GitLabPage<T>> {
+    const response = await this.request(path, {
+      per_page: 100,
+      ...query,
+      page,
+    });
+    const nextPage = Number(response.headers.get("x-next-page"));
+
+    return {
+      data: (await response.json()) as T[],
+      nextPage: Number.isInteger(nextPage) && nextPage > 0 ? nextPage : null,
+      rateLimit: parseRateLimit(response.headers),
+    };
+  }
+
+  private async request(path: string, query: GitLabQuery): Promise<Response> {
+    const url = new URL(`${this.apiUrl}${path}`);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const response = await fetch(url, {
+      headers: {
+        "PRIVATE-TOKEN": this.token,
+        Accept: "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = (await response.json()) as {
+          message?: unknown;
+          error?: unknown;
+        };
+        message = String(body.message ?? body.error ?? message);
+      } catch {
+        // Body is not JSON; keep the status text
+      }
+      throw new GitLabApiError(message, response.status);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Parse RateLimit-* response headers
+ * Returns null when the instance does not send them (rate limiting disabled)
+ */
+function parseRateLimit(headers: Headers): RateLimitInfo | null {
+  const limit = headers.get("ratelimit-limit");
+  const remaining = headers.get("ratelimit-remaining");
+  const reset = headers.get("ratelimit-reset");
+  if (limit === null || remaining === null || reset === null) {
+    return null;
+  }
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: new Date(Number(reset) * 1000),
+  };
+}
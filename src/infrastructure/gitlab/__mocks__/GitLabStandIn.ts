@@ -0,0 +1,158 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Request received by the stand-in
+ */
+export interface RecordedRequest {
+  path: string;
+  query: URLSearchParams;
+  token: string | undefined;
+}
+
+/**
+ * GitLabStandIn
+ *
+ * Local HTTP server that serves recorded GitLab REST API (v4) responses.
+ * Used to exercise GitLabAdapter end to end (URL building, headers,
+ * pagination and error handling) without a real GitLab instance.
+ *
+ * - Routes are keyed by the path below /api/v4 (project IDs stay URL-encoded)
+ * - Array responses are paginated by the `page` query parameter with an
+ *   `x-next-page` header, using the stand-in's own page size
+ * - Any route can be made to fail with a given status
+ *
+ * @example
+ * ```typescript
+ * const standIn = new GitLabStandIn();
+ * standIn.route("/projects/group%2Fproject/merge_requests", mergeRequests);
+ * const apiUrl = await standIn.start();
+ * const adapter = new GitLabAdapter(sessionProvider, { host, apiUrl });
+ * // ...
+ * await standIn.stop();
+ * ```
+ */
+export class GitLabStandIn {
+  private server?: Server;
+  private routes = new Map<string, unknown>();
+  private failures = new Map<string, { status: number; message: string }>();
+  private rateLimitHeaders: Record<string, string> | null = null;
+
+  /** Requests received, in order */
+  readonly requests: RecordedRequest[] = [];
+
+  /**
+   * @param pageSize Items per page for array responses
+   */
+  constructor(private pageSize = 2) {}
+
+  /**
+   * Serve a recorded response for a path
+   */
+  route(path: string, body: unknown): this {
+    this.routes.set(path, body);
+    return this;
+  }
+
+  /**
+   * Respond to a path with an error status
+   */
+  fail(path: string, status: number, message = "Error"): this {
+    this.failures.set(path, { status, message });
+    return this;
+  }
+
+  /**
+   * Send RateLimit-* headers with every response
+   */
+  withRateLimit(limit: number, remaining: number, resetAt: Date): this {
+    this.rateLimitHeaders = {
+      "ratelimit-limit": String(limit),
+      "ratelimit-remaining": String(remaining),
+      "ratelimit-reset": String(Math.floor(resetAt.getTime() / 1000)),
+    };
+    return this;
+  }
+
+  /**
+   * Start listening on a random local port
+   * @returns REST API base URL (http://127.0.0.1:{port}/api/v4)
+   */
+  async start(): Promise<string> {
+    const server = createServer((req, res) => this.handle(req, res));
+    this.server = server;
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/api/v4`;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve())),
+    );
+    this.server = undefined;
+  }
+
+  /**
+   * Requests received for a path
+   */
+  requestsTo(path: string): RecordedRequest[] {
+    return this.requests.filter((request) => request.path === path);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    const path = url.pathname.replace(/^\/api\/v4/, "");
+    const token = req.headers["private-token"];
+    this.requests.push({
+      path,
+      query: url.searchParams,
+      token: Array.isArray(token) ? token[0] : token,
+    });
+
+    const headers: Record<string, string> = {
+      "content-type": "application/json",
+      ...(this.rateLimitHeaders ?? {}),
+    };
+
+    const failure = this.failures.get(path);
+    if (failure) {
+      res.writeHead(failure.status, headers);
+      res.end(JSON.stringify({ message: failure.message }));
+      return;
+    }
+
+    if (!this.routes.has(path)) {
+      res.writeHead(404, headers);
+      res.end(JSON.stringify({ message: "404 Not Found" }));
+      return;
+    }
+
+    const body = this.routes.get(path);
+    if (!Array.isArray(body)) {
+      res.writeHead(200, headers);
+      res.end(JSON.stringify(body));
+      return;
+    }
+
+    const page = Number(url.searchParams.get("page") ?? "1");
+    const start = (page - 1) * this.pageSize;
+    const hasNext = start + this.pageSize < body.length;
+
+    res.writeHead(200, {
+      ...headers,
+      "x-page": String(page),
+      "x-next-page": hasNext ? String(page + 1) : "",
+    });
+    res.end(JSON.stringify(body.slice(start, start + this.pageSize)));
+  }
+}
@@ -0,0 +1,425 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { MockSessionProvider } from "../../auth/__mocks__/MockSessionProvider";
+import { GitLabStandIn } from "../__mocks__/GitLabStandIn";
+import { GitLabAdapter } from "../GitLabAdapter";
+import { GitHost, GitProvider } from "@/domain/value-objects/GitHost";
+import { PullRequestDateSemantics } from "@/domain/value-objects/PullRequestDateFilter";
+import project from "../__mocks__/fixtures/project.json";
+import mergeRequests from "../__mocks__/fixtures/merge_requests.json";
+import mergeRequest1Notes from "../__mocks__/fixtures/merge_request_1_notes.json";
+import mergeRequest2Notes from "../__mocks__/fixtures/merge_request_2_notes.json";
+import commits from "../__mocks__/fixtures/commits.json";
+import releases from "../__mocks__/fixtures/releases.json";
+import deployments from "../__mocks__/fixtures/deployments.json";
+import tags from "../__mocks__/fixtures/tags.json";
+
+const TOKEN = "glpat-testToken123";
+const OWNER = "platform/backend";
+const REPO = "api";
+const PROJECT = "/projects/platform%2Fbackend%2Fapi";
+
+describe("GitLabAdapter", () => {
+  const host = GitHost.create("gitlab.example.com", GitProvider.GITLAB);
+  if (!host.ok) throw host.error;
+
+  let standIn: GitLabStandIn;
+  let adapter: GitLabAdapter;
+
+  beforeEach(async () => {
+    standIn = new GitLabStandIn()
+      .route(PROJECT, project)
+      .route(`${PROJECT}/merge_requests`, mergeRequests)
+      .route(`${PROJECT}/merge_requests/1/notes`, mergeRequest1Notes)
+      .route(`${PROJECT}/merge_requests/2/notes`, mergeRequest2Notes)
+      .route(`${PROJECT}/repository/commits`, commits)
+      .route(`${PROJECT}/releases`, releases)
+      .route(`${PROJECT}/deployments`, deployments)
+      .route(`${PROJECT}/repository/tags`, tags)
+      .route("/user", { id: 17, username: "hsato" });
+    const apiUrl = await standIn.start();
+    adapter = new GitLabAdapter(new MockSessionProvider(TOKEN), {
+      host: host.value,
+      apiUrl,
+    });
+  });
+
+  afterEach(async () => {
+    await standIn.stop();
+  });
+
+  describe("validateAccess", () => {
+    it("should return true when the project is accessible", async () => {
+      const result = await adapter.validateAccess(OWNER, REPO);
+
+      expect(result.ok).toBe(true);
+      expect(standIn.requests[0]).toMatchObject({
+        path: PROJECT,
+        token: TOKEN,
+      });
+    });
+
+    it("should return repository not found error on 404", async () => {
+      const result = await adapter.validateAccess(OWNER, "missing");
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("Repository not found");
+      }
+    });
+
+    it("should return invalid token error on 401", async () => {
+      standIn.fail(PROJECT, 401, "401 Unauthorized");
+
+      const result = await adapter.validateAccess(OWNER, REPO);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("Invalid GitLab token");
+      }
+    });
+
+    it("should return error when session has no token", async () => {
+      const unauthenticated = new GitLabAdapter(new MockSessionProvider(), {
+        host: host.value,
+        apiUrl: "http://127.0.0.1:1/api/v4",
+      });
+
+      const result = await unauthenticated.validateAccess(OWNER, REPO);
+
+      expect(result.ok).toBe(false);
+      expect(standIn.requests).toHaveLength(0);
+    });
+  });
+
+  describe("getPullRequests", () => {
+    it("should map merge requests across pages", async () => {
+      const result = await adapter.getPullRequests(OWNER, REPO);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((pr) => [pr.number, pr.state])).toEqual([
+          [3, "open"],
+          [2, "closed"],
+          [1, "merged"],
+        ]);
+        expect(result.value[2]).toMatchObject({
+          title: "Introduce idempotency keys for payments",
+          author: "hsato",
+          reviewCommentCount: 2,
+          mergedAt: new Date("2026-09-17T11:05:37.000Z"),
+          labels: ["payments", "backend"],
+          headRefName: "feature/idempotency",
+        });
+        expect(result.value[0]?.mergedAt).toBeUndefined();
+      }
+      expect(standIn.requestsTo(`${PROJECT}/merge_requests`)).toHaveLength(2);
+    });
+
+    it("should request all states by last update with updated_after", async () => {
+      const sinceDate = new Date("2026-09-01T00:00:00Z");
+
+      await adapter.getPullRequests(OWNER, REPO, sinceDate);
+
+      const query = standIn.requestsTo(`${PROJECT}/merge_requests`)[0]?.query;
+      expect(query?.get("state")).toBe("all");
+      expect(query?.get("order_by")).toBe("updated_at");
+      expect(query?.get("sort")).toBe("desc");
+      expect(query?.get("updated_after")).toBe(sinceDate.toISOString());
+    });
+
+    it("should keep merge requests opened before the window but merged inside", async () => {
+      const result = await adapter.getPullRequests(
+        OWNER,
+        REPO,
+        new Date("2026-09-16T00:00:00Z"),
+        new Date("2026-09-21T00:00:00Z"),
+        PullRequestDateSemantics.MERGED,
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((pr) => pr.number)).toEqual([1]);
+        expect(result.value[0]?.closedAt).toEqual(
+          new Date("2026-09-17T11:05:37.000Z"),
+        );
+      }
+    });
+
+    it("should return rate limit error on 429", async () => {
+      standIn.fail(`${PROJECT}/merge_requests`, 429, "Retry later");
+
+      const result = await adapter.getPullRequests(OWNER, REPO);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("rate limit");
+      }
+    });
+  });
+
+  describe("getReviewComments", () => {
+    it("should map user notes and skip system notes", async () => {
+      const result = await adapter.getReviewComments(OWNER, REPO, [1, 2]);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(3);
+        expect(result.value.map((c) => c.id)).not.toContain(551219);
+        expect(result.value[0]).toEqual({
+          id: 551201,
+          author: "kmori",
+          createdAt: new Date("2026-09-15T06:12:40.000Z"),
+          body: "Should the key expire after 24h?",
+          pullRequestNumber: 1,
+        });
+        expect(result.value[2]?.pullRequestNumber).toBe(2);
+      }
+    });
+
+    it("should skip merge requests whose notes fail to load", async () => {
+      standIn.fail(`${PROJECT}/merge_requests/2/notes`, 500);
+
+      const result = await adapter.getReviewComments(OWNER, REPO, [1, 2]);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(2);
+      }
+    });
+
+    it("should return empty array without requests for no merge requests", async () => {
+      const result = await adapter.getReviewComments(OWNER, REPO, []);
+
+      expect(result).toEqual({ ok: true, value: [] });
+      expect(standIn.requests).toHaveLength(0);
+    });
+  });
+
+  describe("getLog", () => {
+    const repoUrl = "https://gitlab.example.com/platform/backend/api";
+
+    it("should map commits and skip merge commits", async () => {
+      const result = await adapter.getLog(repoUrl);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(2);
+        expect(result.value[0]).toEqual({
+          hash: "7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b",
+          author: "Hana Sato",
+          email: "hana.sato@example.com",
+          date: new Date("2026-09-15T08:00:41.000Z"),
+          committedAt: new Date("2026-09-15T08:00:41.000Z"),
+          message: "Expire idempotency keys after 24h",
+          filesChanged: 0,
+          linesAdded: 12,
+          linesDeleted: 3,
+        });
+      }
+    });
+
+    it("should pass the date range and request stats", async () => {
+      const sinceDate = new Date("2026-09-01T00:00:00Z");
+      const untilDate = new Date("2026-09-30T00:00:00Z");
+
+      await adapter.getLog(`${repoUrl}.git`, sinceDate, untilDate);
+
+      const query = standIn.requestsTo(`${PROJECT}/repository/commits`)[0]
+        ?.query;
+      expect(query?.get("with_stats")).toBe("true");
+      expect(query?.get("since")).toBe(sinceDate.toISOString());
+      expect(query?.get("until")).toBe(untilDate.toISOString());
+    });
+
+    it("should reject repositories on other hosts", async () => {
+      const result = await adapter.getLog(
+        "https://gitlab.other.com/platform/backend/api",
+      );
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain("Invalid GitLab URL");
+      }
+      expect(standIn.requests).toHaveLength(0);
+    });
+  });
+
+  describe("streaming", () => {
+    it("should stream the same commits as getLog", async () => {
+      const streamed = [];
+      for await (const commit of adapter.streamLog(
+        "https://gitlab.example.com/platform/backend/api",
+      )) {
+        streamed.push(commit.hash);
+      }
+
+      expect(streamed).toHaveLength(2);
+      expect(streamed[0]).toBe("7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b");
+    });
+
+    it("should stream merge requests across pages", async () => {
+      const numbers = [];
+      for await (const pr of adapter.streamPullRequests(OWNER, REPO)) {
+        numbers.push(pr.number);
+      }
+
+      expect(numbers).toEqual([3, 2, 1]);
+      expect(standIn.requestsTo(`${PROJECT}/merge_requests`)).toHaveLength(2);
+    });
+
+    it("should throw when the stream fails", async () => {
+      standIn.fail(`${PROJECT}/merge_requests`, 401, "401 Unauthorized");
+
+      const iterate = async () => {
+        for await (const pr of adapter.streamPullRequests(OWNER, REPO)) {
+          expect(pr).toBeDefined();
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow("Invalid GitLab token");
+    });
+  });
+
+  describe("getReleases", () => {
+    it("should map releases", async () => {
+      const result = await adapter.getReleases(OWNER, REPO);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual([
+          {
+            name: "v2.4.0",
+            tagName: "v2.4.0",
+            createdAt: "2026-09-18T03:00:00.000Z",
+            publishedAt: "2026-09-18T03:00:00.000Z",
+            isPrerelease: false,
+            isDraft: false,
+            commitOid: "9f2c1e7d4b3a5f6e8d7c9b0a1e2f3d4c5b6a7e8f",
+          },
+          expect.objectContaining({ tagName: "v2.3.1" }),
+        ]);
+      }
+    });
+
+    it("should stop at releases older than sinceDate", async () => {
+      const result = await adapter.getReleases(
+        OWNER,
+        REPO,
+        new Date("2026-09-01T00:00:00Z"),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((r) => r.tagName)).toEqual(["v2.4.0"]);
+      }
+    });
+  });
+
+  describe("getDeployments", () => {
+    it("should map deployment statuses onto GitHub states", async () => {
+      const result = await adapter.getDeployments(OWNER, REPO);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(3);
+        expect(result.value[0]).toEqual({
+          id: "70021",
+          createdAt: "2026-09-18T03:10:00.000Z",
+          environment: "production",
+          state: "FAILURE",
+          ref: "main",
+          latestStatus: {
+            state: "FAILURE",
+            createdAt: "2026-09-18T03:16:44.000Z",
+          },
+          commitOid: "9f2c1e7d4b3a5f6e8d7c9b0a1e2f3d4c5b6a7e8f",
+        });
+        expect(result.value[1]).toMatchObject({
+          environment: "staging",
+          state: "ACTIVE",
+          latestStatus: { state: "SUCCESS" },
+        });
+      }
+    });
+
+    it("should not request further pages once past sinceDate", async () => {
+      const result = await adapter.getDeployments(
+        OWNER,
+        REPO,
+        new Date("2026-09-18T00:00:00Z"),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((d) => d.id)).toEqual(["70021"]);
+      }
+      expect(standIn.requestsTo(`${PROJECT}/deployments`)).toHaveLength(1);
+    });
+
+    it("should drop deployments newer than untilDate", async () => {
+      const result = await adapter.getDeployments(
+        OWNER,
+        REPO,
+        undefined,
+        new Date("2026-09-18T00:00:00Z"),
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(2);
+        expect(result.value.map((d) => d.id)).not.toContain("70021");
+      }
+    });
+  });
+
+  describe("getTags", () => {
+    it("should map annotated and lightweight tags", async () => {
+      const result = await adapter.getTags(OWNER, REPO);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual([
+          {
+            name: "v2.4.0",
+            target: {
+              committedDate: "2026-09-17T11:05:37.000Z",
+              tagger: { date: "2026-09-18T02:58:30.000Z" },
+            },
+            commitOid: "9f2c1e7d4b3a5f6e8d7c9b0a1e2f3d4c5b6a7e8f",
+          },
+          {
+            name: "v2.3.1",
+            target: {
+              committedDate: "2026-08-30T22:39:02.000Z",
+              tagger: null,
+            },
+            commitOid: "c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9",
+          },
+        ]);
+      }
+    });
+  });
+
+  describe("getRateLimitStatus", () => {
+    it("should read RateLimit headers", async () => {
+      const resetAt = new Date("2026-10-19T12:00:00Z");
+      standIn.withRateLimit(2000, 1990, resetAt);
+
+      const result = await adapter.getRateLimitStatus();
+
+      expect(result).toEqual({
+        ok: true,
+        value: { limit: 2000, remaining: 1990, resetAt },
+      });
+    });
+
+    it("should report an unlimited budget when rate limiting is disabled", async () => {
+      const result = await adapter.getRateLimitStatus();
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.remaining).toBe(Number.POSITIVE_INFINITY);
+      }
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * GitLab REST API (v4) Response Types
+ *
+ * This module contains the subset of GitLab REST API response fields
+ * the adapter reads. Field names follow the API (snake_case).
+ */
+
+/**
+ * User reference embedded in merge requests and notes
+ */
+export interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+}
+
+/**
+ * Project response (GET /projects/:id)
+ */
+export interface GitLabProject {
+  id: number;
+  path_with_namespace: string;
+  default_branch: string | null;
+}
+
+/**
+ * Merge request response (GET /projects/:id/merge_requests)
+ */
+export interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  state: "opened" | "closed" | "merged" | "locked";
+  created_at: string;
+  updated_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  author: GitLabUser | null;
+  user_notes_count: number;
+  source_branch: string;
+  labels: string[];
+  merge_commit_sha: string | null; // null unless merged with a merge commit
+  squash_commit_sha: string | null; // null unless squashed
+}
+
+/**
+ * Note response (GET /projects/:id/merge_requests/:iid/notes)
+ * System notes (e.g. "added 1 commit") are generated by GitLab itself.
+ */
+export interface GitLabNote {
+  id: number;
+  body: string;
+  created_at: string;
+  system: boolean;
+  author: GitLabUser | null;
+}
+
+/**
+ * Commit response (GET /projects/:id/repository/commits?with_stats=true)
+ */
+export interface GitLabCommit {
+  id: string;
+  title: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+  committed_date: string;
+  parent_ids: string[];
+  stats?: {
+    additions: number;
+    deletions: number;
+    total: number;
+  };
+}
+
+/**
+ * Release response (GET /projects/:id/releases)
+ */
+export interface GitLabRelease {
+  name: string | null;
+  tag_name: string;
+  created_at: string;
+  released_at: string | null;
+  upcoming_release: boolean;
+  commit?: {
+    id: string;
+  } | null; // omitted for users without repository access
+}
+
+/**
+ * Deployment status values
+ */
+export type GitLabDeploymentStatus =
+  | "created"
+  | "running"
+  | "success"
+  | "failed"
+  | "canceled"
+  | "skipped"
+  | "blocked";
+
+/**
+ * Deployment response (GET /projects/:id/deployments)
+ */
+export interface GitLabDeployment {
+  id: number;
+  iid: number;
+  ref: string | null;
+  sha: string;
+  status: GitLabDeploymentStatus;
+  created_at: string;
+  updated_at: string;
+  finished_at?: string | null;
+  environment: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+/**
+ * Tag response (GET /projects/:id/repository/tags)
+ * created_at is only set for annotated tags.
+ */
+export interface GitLabTag {
+  name: string;
+  created_at?: string | null;
+  commit: {
+    id: string;
+    committed_date: string;
+  };
+}
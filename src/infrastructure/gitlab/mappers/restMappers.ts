@@ -0,0 +1,190 @@
+/**
+ * GitLab REST to Domain Model Mappers
+ *
+ * This module contains pure functions that transform GitLab REST API responses
+ * into the same domain models the GitHub adapter produces:
+ * - Merge requests → PullRequest (iid becomes the PR number)
+ * - Notes → ReviewComment
+ * - Deployment statuses → GitHub deployment state vocabulary
+ */
+
+import {
+  GitCommit,
+  PullRequest,
+  ReviewComment,
+  Release,
+  Deployment,
+  Tag,
+} from "@/domain/interfaces/IGitHubRepository";
+import {
+  GitLabCommit,
+  GitLabDeployment,
+  GitLabDeploymentStatus,
+  GitLabMergeRequest,
+  GitLabNote,
+  GitLabRelease,
+  GitLabTag,
+} from "../api/types";
+
+/**
+ * Map GitLab merge request state to domain PR state
+ * "locked" MRs are open MRs whose discussion is locked.
+ */
+function mapMergeRequestState(
+  state: GitLabMergeRequest["state"],
+): PullRequest["state"] {
+  if (state === "merged") {
+    return "merged";
+  } else if (state === "closed") {
+    return "closed";
+  }
+  return "open";
+}
+
+/**
+ * Map GitLab MergeRequest to domain PullRequest
+ * The list endpoint has no diff statistics, so additions/deletions are omitted.
+ */
+export function mapMergeRequest(mr: GitLabMergeRequest): PullRequest {
+  const pullRequest: PullRequest = {
+    number: mr.iid,
+    title: mr.title,
+    author: mr.author?.username ?? "unknown",
+    createdAt: new Date(mr.created_at),
+    state: mapMergeRequestState(mr.state),
+    reviewCommentCount: mr.user_notes_count,
+    labels: mr.labels,
+    headRefName: mr.source_branch,
+  };
+
+  if (mr.merged_at) {
+    pullRequest.mergedAt = new Date(mr.merged_at);
+  }
+  // GitLab leaves closed_at unset for merged MRs
+  const closedAt = mr.closed_at ?? mr.merged_at;
+  if (closedAt) {
+    pullRequest.closedAt = new Date(closedAt);
+  }
+  // A squashed MR's changes land in the squash commit
+  const mergeCommitOid = mr.squash_commit_sha ?? mr.merge_commit_sha;
+  if (mergeCommitOid) {
+    pullRequest.mergeCommitOid = mergeCommitOid;
+  }
+
+  return pullRequest;
+}
+
+/**
+ * Map GitLab Commit to domain GitCommit
+ * The commits endpoint reports line stats only, so filesChanged is 0.
+ */
+export function mapCommit(commit: GitLabCommit): GitCommit {
+  return {
+    hash: commit.id,
+    author: commit.author_name || "Unknown",
+    email: commit.author_email || "",
+    date: new Date(commit.authored_date),
+    committedAt: new Date(commit.committed_date),
+    message: commit.title || commit.message.split("\n")[0] || "",
+    filesChanged: 0,
+    linesAdded: commit.stats?.additions ?? 0,
+    linesDeleted: commit.stats?.deletions ?? 0,
+  };
+}
+
+/**
+ * Check if a commit is a merge commit
+ */
+export function isMergeCommit(commit: GitLabCommit): boolean {
+  return commit.parent_ids.length > 1;
+}
+
+/**
+ * Map GitLab merge request note to domain ReviewComment
+ */
+export function mapNote(
+  note: GitLabNote,
+  pullRequestNumber: number,
+): ReviewComment {
+  return {
+    id: note.id,
+    author: note.author?.username ?? "unknown",
+    createdAt: new Date(note.created_at),
+    body: note.body,
+    pullRequestNumber,
+  };
+}
+
+/**
+ * Map GitLab Release to domain Release
+ * GitLab has no prerelease flag; upcoming (scheduled) releases are treated as drafts.
+ */
+export function mapRelease(release: GitLabRelease): Release {
+  return {
+    name: release.name,
+    tagName: release.tag_name,
+    createdAt: release.created_at,
+    publishedAt: release.released_at,
+    isPrerelease: false,
+    isDraft: release.upcoming_release,
+    commitOid: release.commit?.id,
+  };
+}
+
+/**
+ * GitLab deployment status → GitHub DeploymentState
+ */
+const DEPLOYMENT_STATE: Record<GitLabDeploymentStatus, string> = {
+  created: "PENDING",
+  running: "IN_PROGRESS",
+  success: "ACTIVE",
+  failed: "FAILURE",
+  canceled: "ABANDONED",
+  skipped: "ABANDONED",
+  blocked: "WAITING",
+};
+
+/**
+ * GitLab deployment status → GitHub DeploymentStatusState
+ */
+const DEPLOYMENT_STATUS_STATE: Record<GitLabDeploymentStatus, string> = {
+  created: "QUEUED",
+  running: "IN_PROGRESS",
+  success: "SUCCESS",
+  failed: "FAILURE",
+  canceled: "INACTIVE",
+  skipped: "INACTIVE",
+  blocked: "WAITING",
+};
+
+/**
+ * Map GitLab Deployment to domain Deployment
+ */
+export function mapDeployment(deployment: GitLabDeployment): Deployment {
+  return {
+    id: String(deployment.id),
+    createdAt: deployment.created_at,
+    environment: deployment.environment?.name ?? null,
+    state: DEPLOYMENT_STATE[deployment.status] ?? deployment.status,
+    ref: deployment.ref,
+    latestStatus: {
+      state: DEPLOYMENT_STATUS_STATE[deployment.status] ?? deployment.status,
+      createdAt: deployment.finished_at ?? deployment.updated_at,
+    },
+    commitOid: deployment.sha,
+  };
+}
+
+/**
+ * Map GitLab Tag to domain Tag
+ */
+export function mapTag(tag: GitLabTag): Tag {
+  return {
+    name: tag.name,
+    target: {
+      committedDate: tag.commit.committed_date,
+      tagger: tag.created_at ? { date: tag.created_at } : null,
+    },
+    commitOid: tag.commit.id,
+  };
+}
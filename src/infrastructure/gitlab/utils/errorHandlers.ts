@@ -0,0 +1,63 @@
+/**
+ * GitLab REST Error Handling Utilities
+ *
+ * Maps GitLab API errors to the same user-facing messages the GitHub
+ * adapter uses, so error classification works for both providers.
+ */
+
+import { Result, err } from "@/lib/result";
+import { logger } from "@/lib/utils/logger";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { GitLabApiError } from "../GitLabClient";
+
+/**
+ * Handle GitLab API errors
+ *
+ * @param error The error that occurred
+ * @param operation Description of the operation that failed (e.g., "fetching merge requests")
+ * @returns Result type with appropriate error message
+ */
+export function handleGitLabError(
+  error: unknown,
+  operation: string,
+): Result<never> {
+  if (error instanceof GitLabApiError) {
+    logger.error(`GitLab API error while ${operation}`, {
+      error: error.message,
+      status: error.status,
+    });
+
+    if (error.status === 401) {
+      return err(new Error("Invalid GitLab token. Please check GITLAB_TOKEN."));
+    }
+
+    if (error.status === 403) {
+      return err(
+        new Error(
+          "You do not have permission to access this project. Please verify the token has the read_api scope.",
+        ),
+      );
+    }
+
+    if (error.status === 404) {
+      return err(
+        new Error(
+          "Repository not found or you do not have permission to access it. Please check the repository URL and your access rights.",
+        ),
+      );
+    }
+
+    if (error.status === 429) {
+      return err(new Error("GitLab API rate limit exceeded"));
+    }
+
+    return err(new Error(`Failed to ${operation}: ${error.message}`));
+  }
+
+  const errorMessage = getErrorMessage(error);
+  logger.error(`GitLab API error while ${operation}`, {
+    error: errorMessage,
+  });
+
+  return err(new Error(`Failed to ${operation}: ${errorMessage}`));
+}
@@ -0,0 +1,94 @@
+import { GitHost, GitProvider } from "@/domain/value-objects/GitHost";
+import { RepositoryUrl } from "@/domain/value-objects/RepositoryUrl";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * NextAuth provider ID for the GitHub Enterprise Server OAuth app
+ */
+export const GITHUB_ENTERPRISE_PROVIDER_ID = "github-enterprise";
+
+/**
+ * Read a host from an environment variable
+ * Invalid values are logged and ignored.
+ */
+function readHostFromEnv(name: string, provider: GitProvider): GitHost | null {
+  const configured = process.env[name];
+  if (!configured) {
+    return null;
+  }
+
+  const hostResult = GitHost.create(configured, provider);
+  if (!hostResult.ok) {
+    logger.warn(`Ignoring ${name}: ${hostResult.error.message}`);
+    return null;
+  }
+  return hostResult.value;
+}
+
+/**
+ * Get the configured GitHub Enterprise Server host
+ *
+ * @returns Host from GITHUB_ENTERPRISE_HOST, or null when not configured
+ */
+export function getEnterpriseHost(): GitHost | null {
+  return readHostFromEnv("GITHUB_ENTERPRISE_HOST", GitProvider.GITHUB);
+}
+
+/**
+ * Get the configured GitLab host
+ *
+ * @returns Host from GITLAB_HOST (e.g. gitlab.example.com or gitlab.com), or null when not configured
+ */
+export function getGitLabHost(): GitHost | null {
+  return readHostFromEnv("GITLAB_HOST", GitProvider.GITLAB);
+}
+
+/**
+ * Get the hosts repositories may be analyzed on
+ *
+ * github.com is always allowed; the GitHub Enterprise and GitLab hosts are
+ * added when configured. Access tokens are only ever sent to hosts in this list.
+ */
+export function getAllowedHosts(): GitHost[] {
+  return [GitHost.dotcom(), getEnterpriseHost(), getGitLabHost()].filter(
+    (host): host is GitHost => host !== null,
+  );
+}
+
+/**
+ * Get the host GITHUB_TOKEN was issued by (or the GitHub App is registered on)
+ * The token belongs to the enterprise host when one is configured.
+ */
+export function getEnvTokenHost(): GitHost {
+  return getEnterpriseHost() ?? GitHost.dotcom();
+}
+
+/**
+ * Resolve a hostname to one of the allowed hosts
+ *
+ * @returns Allowed host, or null if the hostname is not allowed
+ */
+export function findAllowedHost(hostname: string): GitHost | null {
+  return (
+    getAllowedHosts().find(
+      (host) => host.hostname === hostname.toLowerCase(),
+    ) ?? null
+  );
+}
+
+/**
+ * Build the web URL of a repository from its identifier
+ *
+ * @example
+ * getRepositoryWebUrl("owner/repo") // "https://github.com/owner/repo"
+ * getRepositoryWebUrl("ghe.example.com/owner/repo") // "https://ghe.example.com/owner/repo"
+ */
+export function getRepositoryWebUrl(repositoryId: string): string {
+  const urlResult = RepositoryUrl.fromIdentifier(
+    repositoryId,
+    getAllowedHosts(),
+  );
+  return urlResult.ok
+    ? urlResult.value.value
+    : `${GitHost.dotcom().webUrl}/${repositoryId}`;
+}
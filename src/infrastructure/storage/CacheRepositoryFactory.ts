@@ -0,0 +1,185 @@
+import { createHash } from "crypto";
+import path from "path";
+import { IChangeFailureRulesRepository } from "@/domain/interfaces/IChangeFailureRulesRepository";
+import { ICacheRepository } from "@/domain/interfaces/ICacheRepository";
+import { IDoraBenchmarkRepository } from "@/domain/interfaces/IDoraBenchmarkRepository";
+import { IIncidentRepository } from "@/domain/interfaces/IIncidentRepository";
+import { ISessionProvider } from "@/domain/interfaces/ISessionProvider";
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import { ITeamRepository } from "@/domain/interfaces/ITeamRepository";
+import { getCredentialId } from "@/infrastructure/auth/credentialId";
+import { ChangeFailureRulesStorageAdapter } from "./ChangeFailureRulesStorageAdapter";
+import { DoraBenchmarkStorageAdapter } from "./DoraBenchmarkStorageAdapter";
+import { FileCacheAdapter } from "./FileCacheAdapter";
+import { FileStorageAdapter } from "./FileStorageAdapter";
+import { IncidentStorageAdapter } from "./IncidentStorageAdapter";
+import { TeamStorageAdapter } from "./TeamStorageAdapter";
+import { CACHE_CONFIG } from "@/config/cache";
+
+/**
+ * Process-wide cache and sync storage instances, one per namespace
+ */
+const repositories = new Map<string, ICacheRepository>();
+const syncStorages = new Map<string, FileStorageAdapter>();
+let incidentRepository: IIncidentRepository | null = null;
+let teamRepository: ITeamRepository | null = null;
+let changeFailureRulesRepository: IChangeFailureRulesRepository | null = null;
+let doraBenchmarkRepository: IDoraBenchmarkRepository | null = null;
+
+/**
+ * Resolve the server-side storage directory for a namespace
+ * (CACHE_DIR defaults to `.cache/team-insights` under the working directory)
+ */
+function getNamespaceDirectory(namespace: string): string {
+  const baseDir = process.env.CACHE_DIR ?? CACHE_CONFIG.SERVER_CACHE_DIR;
+  return path.resolve(process.cwd(), baseDir, namespace);
+}
+
+/**
+ * Derive a cache namespace from an access token
+ *
+ * Cached responses are partitioned per token so that data fetched with one
+ * user's credentials (e.g. private repositories) is never served to another.
+ * Only a truncated hash is used; the token itself is never written to disk.
+ */
+export function getCacheNamespace(accessToken: string): string {
+  return createHash("sha256").update(accessToken).digest("hex").slice(0, 16);
+}
+
+/**
+ * Get the server-side persistent cache for a namespace
+ *
+ * Storage location: `${CACHE_DIR}/{namespace}/cache.json`
+ *
+ * @param namespace Cache namespace from getCacheNamespace()
+ * @returns Shared ICacheRepository instance for the namespace
+ */
+export function getServerCacheRepository(namespace: string): ICacheRepository {
+  let repository = repositories.get(namespace);
+  if (!repository) {
+    repository = new FileCacheAdapter(getNamespaceDirectory(namespace));
+    repositories.set(namespace, repository);
+  }
+  return repository;
+}
+
+/**
+ * Get the cache namespace of the current session's credentials
+ * (the token; in GitHub App mode the signed-in user's token, so users
+ * never share or clear each other's cached responses)
+ *
+ * @returns Namespace, or null if no credentials are available
+ */
+export async function getCacheNamespaceForSession(
+  sessionProvider: ISessionProvider,
+): Promise<string | null> {
+  const credentialResult = await getCredentialId(sessionProvider);
+  return credentialResult.ok ? getCacheNamespace(credentialResult.value) : null;
+}
+
+/**
+ * Get the server-side cache for the current session's token
+ *
+ * @returns Cache repository, or null if no token is available
+ */
+export async function getServerCacheForSession(
+  sessionProvider: ISessionProvider,
+): Promise<ICacheRepository | null> {
+  const namespace = await getCacheNamespaceForSession(sessionProvider);
+  return namespace ? getServerCacheRepository(namespace) : null;
+}
+
+/**
+ * Get the server-side storage for incremental GitHub sync state
+ *
+ * Storage location: `${CACHE_DIR}/{namespace}/sync/`
+ *
+ * @param namespace Cache namespace from getCacheNamespace()
+ */
+export function getServerSyncStorage(namespace: string): FileStorageAdapter {
+  let storage = syncStorages.get(namespace);
+  if (!storage) {
+    storage = new FileStorageAdapter(
+      path.join(getNamespaceDirectory(namespace), "sync"),
+    );
+    syncStorages.set(namespace, storage);
+  }
+  return storage;
+}
+
+/**
+ * Get the sync storage for an access token (or credential id)
+ * Intended as the OctokitAdapter `syncStorage` option
+ */
+export function getSyncStorageForToken(accessToken: string): IStoragePort {
+  return getServerSyncStorage(getCacheNamespace(accessToken));
+}
+
+/**
+ * Get the server-side incident repository
+ *
+ * Storage location: `${CACHE_DIR}/incidents/`
+ *
+ * Unlike cached API responses, imported incidents are not partitioned per
+ * user: the incident webhook has no session, and incidents describe the
+ * repository rather than what a user's token can see.
+ */
+export function getIncidentRepository(): IIncidentRepository {
+  if (!incidentRepository) {
+    incidentRepository = new IncidentStorageAdapter(
+      new FileStorageAdapter(getNamespaceDirectory("incidents")),
+    );
+  }
+  return incidentRepository;
+}
+
+/**
+ * Get the server-side team repository
+ *
+ * Storage location: `${CACHE_DIR}/teams/`
+ *
+ * Like incidents, teams are shared by everyone using the deployment: they
+ * describe the organization rather than what a user's token can see.
+ */
+export function getTeamRepository(): ITeamRepository {
+  if (!teamRepository) {
+    teamRepository = new TeamStorageAdapter(
+      new FileStorageAdapter(getNamespaceDirectory("teams")),
+    );
+  }
+  return teamRepository;
+}
+
+/**
+ * Get the server-side change failure rules repository
+ *
+ * Storage location: `${CACHE_DIR}/change-failure-rules/`
+ *
+ * Rules are stored per repository and shared by everyone using the
+ * deployment, so the change failure rate is the same for every user.
+ */
+export function getChangeFailureRulesRepository(): IChangeFailureRulesRepository {
+  if (!changeFailureRulesRepository) {
+    changeFailureRulesRepository = new ChangeFailureRulesStorageAdapter(
+      new FileStorageAdapter(getNamespaceDirectory("change-failure-rules")),
+    );
+  }
+  return changeFailureRulesRepository;
+}
+
+/**
+ * Get the server-side DORA benchmark repository
+ *
+ * Storage location: `${CACHE_DIR}/dora-benchmarks/`
+ *
+ * Like teams, the edition is selected per owner and shared by everyone
+ * using the deployment, so every user sees the same DORA levels.
+ */
+export function getDoraBenchmarkRepository(): IDoraBenchmarkRepository {
+  if (!doraBenchmarkRepository) {
+    doraBenchmarkRepository = new DoraBenchmarkStorageAdapter(
+      new FileStorageAdapter(getNamespaceDirectory("dora-benchmarks")),
+    );
+  }
+  return doraBenchmarkRepository;
+}
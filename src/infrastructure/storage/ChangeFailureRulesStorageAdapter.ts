@@ -0,0 +1,47 @@
+import { Result, ok, err } from "@/lib/result";
+import { IChangeFailureRulesRepository } from "@/domain/interfaces/IChangeFailureRulesRepository";
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import { ChangeFailureRules } from "@/domain/value-objects/ChangeFailureRules";
+
+/**
+ * Change failure rules storage adapter
+ * Implements IChangeFailureRulesRepository on top of any IStoragePort,
+ * storing one entry per repository under `change-failure-rules:{repositoryId}`
+ */
+export class ChangeFailureRulesStorageAdapter implements IChangeFailureRulesRepository {
+  constructor(private readonly storage: IStoragePort) {}
+
+  private getKey(repositoryId: string): string {
+    return `change-failure-rules:${repositoryId}`;
+  }
+
+  async getRules(
+    repositoryId: string,
+  ): Promise<Result<ChangeFailureRules | null>> {
+    const loadResult = await this.storage.load<unknown>(
+      this.getKey(repositoryId),
+    );
+    if (!loadResult.ok) {
+      return err(loadResult.error);
+    }
+
+    // Rules that no longer validate fall back to the defaults
+    const stored = loadResult.value;
+    if (!ChangeFailureRules.isProps(stored)) {
+      return ok(null);
+    }
+    const rulesResult = ChangeFailureRules.create(stored);
+    return ok(rulesResult.ok ? rulesResult.value : null);
+  }
+
+  async saveRules(
+    repositoryId: string,
+    rules: ChangeFailureRules,
+  ): Promise<Result<void>> {
+    return await this.storage.save(this.getKey(repositoryId), rules.toProps());
+  }
+
+  async removeRules(repositoryId: string): Promise<Result<void>> {
+    return await this.storage.remove(this.getKey(repositoryId));
+  }
+}
@@ -0,0 +1,44 @@
+import { Result, ok, err } from "@/lib/result";
+import { IDoraBenchmarkRepository } from "@/domain/interfaces/IDoraBenchmarkRepository";
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import {
+  DORABenchmark,
+  DORABenchmarkEdition,
+} from "@/domain/value-objects/DORABenchmark";
+
+/**
+ * DORA benchmark storage adapter
+ * Implements IDoraBenchmarkRepository on top of any IStoragePort, storing
+ * one entry per owner under `dora-benchmark:{ownerId}` (owner lowercased)
+ */
+export class DoraBenchmarkStorageAdapter implements IDoraBenchmarkRepository {
+  constructor(private readonly storage: IStoragePort) {}
+
+  private getKey(ownerId: string): string {
+    return `dora-benchmark:${ownerId.toLowerCase()}`;
+  }
+
+  async getEdition(
+    ownerId: string,
+  ): Promise<Result<DORABenchmarkEdition | null>> {
+    const loadResult = await this.storage.load<unknown>(this.getKey(ownerId));
+    if (!loadResult.ok) {
+      return err(loadResult.error);
+    }
+
+    // Editions that are no longer offered fall back to the default
+    const stored = loadResult.value;
+    return ok(DORABenchmark.isEdition(stored) ? stored : null);
+  }
+
+  async saveEdition(
+    ownerId: string,
+    edition: DORABenchmarkEdition,
+  ): Promise<Result<void>> {
+    return await this.storage.save(this.getKey(ownerId), edition);
+  }
+
+  async removeEdition(ownerId: string): Promise<Result<void>> {
+    return await this.storage.remove(this.getKey(ownerId));
+  }
+}
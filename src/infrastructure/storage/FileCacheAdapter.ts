@@ -0,0 +1,127 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { CachedDataEntry } from "@/domain/interfaces/ICacheRepository";
+import { InMemoryCacheAdapter } from "@/infrastructure/storage/InMemoryCacheAdapter";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { logger } from "@/lib/utils/logger";
+
+const CACHE_FILE_NAME = "cache.json";
+const CACHE_FILE_VERSION = 1;
+
+/**
+ * Serialized cache entry (Dates as ISO strings)
+ */
+interface StoredCacheEntry extends Omit<
+  CachedDataEntry,
+  "dateRange" | "cachedAt" | "expiresAt" | "lastAccessedAt"
+> {
+  dateRange: { start: string; end: string };
+  cachedAt: string;
+  expiresAt: string;
+  lastAccessedAt: string;
+}
+
+interface StoredCacheFile {
+  version: number;
+  entries: StoredCacheEntry[];
+}
+
+/**
+ * File-backed cache adapter for server-side persistence
+ *
+ * Keeps entries in memory and mirrors them to a single JSON file so that
+ * cached GitHub responses survive server restarts. Writes are serialized
+ * and atomic (temp file + rename) to avoid corrupting the file.
+ */
+export class FileCacheAdapter extends InMemoryCacheAdapter {
+  private readonly filePath: string;
+  private loadPromise: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string) {
+    super();
+    this.filePath = path.join(directory, CACHE_FILE_NAME);
+  }
+
+  protected override ready(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  protected override persist(): Promise<void> {
+    const write = this.writeChain.then(() => this.write());
+    // Keep the chain alive even if a write fails
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(content) as StoredCacheFile;
+
+      if (parsed.version !== CACHE_FILE_VERSION) {
+        logger.info("Discarding cache file with unsupported version", {
+          version: parsed.version,
+        });
+        return;
+      }
+
+      for (const stored of parsed.entries) {
+        const entry = deserializeEntry(stored);
+        this.entries.set(entry.key, entry);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      // A corrupt cache file is not fatal - start with an empty cache
+      logger.warn("Failed to load cache file, starting empty", {
+        filePath: this.filePath,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  private async write(): Promise<void> {
+    const payload: StoredCacheFile = {
+      version: CACHE_FILE_VERSION,
+      entries: Array.from(this.entries.values()).map(serializeEntry),
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(payload), "utf-8");
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+function serializeEntry(entry: CachedDataEntry): StoredCacheEntry {
+  return {
+    ...entry,
+    dateRange: {
+      start: entry.dateRange.start.toISOString(),
+      end: entry.dateRange.end.toISOString(),
+    },
+    cachedAt: entry.cachedAt.toISOString(),
+    expiresAt: entry.expiresAt.toISOString(),
+    lastAccessedAt: entry.lastAccessedAt.toISOString(),
+    // Revalidation state is process-local
+    isRevalidating: false,
+  };
+}
+
+function deserializeEntry(stored: StoredCacheEntry): CachedDataEntry {
+  return {
+    ...stored,
+    dateRange: {
+      start: new Date(stored.dateRange.start),
+      end: new Date(stored.dateRange.end),
+    },
+    cachedAt: new Date(stored.cachedAt),
+    expiresAt: new Date(stored.expiresAt),
+    lastAccessedAt: new Date(stored.lastAccessedAt),
+  };
+}
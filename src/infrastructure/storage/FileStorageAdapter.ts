@@ -0,0 +1,95 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Result, ok, err } from "@/lib/result";
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+
+/**
+ * File storage adapter for server-side storage
+ * Implements IStoragePort by writing one JSON file per key
+ */
+export class FileStorageAdapter implements IStoragePort {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Get file path for a key (keys are URL-encoded to be filesystem safe)
+   */
+  private getPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  async save<T>(key: string, value: T): Promise<Result<void>> {
+    try {
+      const filePath = this.getPath(key);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      // Write atomically so readers never see a partial file
+      await fs.writeFile(tmpPath, JSON.stringify(value), "utf-8");
+      await fs.rename(tmpPath, filePath);
+
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        new Error(`Failed to save to file storage: ${getErrorMessage(error)}`),
+      );
+    }
+  }
+
+  async load<T>(key: string): Promise<Result<T | null>> {
+    try {
+      const content = await fs.readFile(this.getPath(key), "utf-8");
+      return ok(JSON.parse(content) as T);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return ok(null);
+      }
+      return err(
+        new Error(
+          `Failed to load from file storage: ${getErrorMessage(error)}`,
+        ),
+      );
+    }
+  }
+
+  async remove(key: string): Promise<Result<void>> {
+    try {
+      await fs.rm(this.getPath(key), { force: true });
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        new Error(
+          `Failed to remove from file storage: ${getErrorMessage(error)}`,
+        ),
+      );
+    }
+  }
+
+  async exists(key: string): Promise<Result<boolean>> {
+    try {
+      await fs.access(this.getPath(key));
+      return ok(true);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return ok(false);
+      }
+      return err(
+        new Error(`Failed to check file storage: ${getErrorMessage(error)}`),
+      );
+    }
+  }
+
+  /**
+   * Remove all stored keys
+   */
+  async clear(): Promise<Result<void>> {
+    try {
+      await fs.rm(this.directory, { recursive: true, force: true });
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        new Error(`Failed to clear file storage: ${getErrorMessage(error)}`),
+      );
+    }
+  }
+}
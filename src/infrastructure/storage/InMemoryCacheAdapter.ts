@@ -0,0 +1,166 @@
+import {
+  ICacheRepository,
+  CachedDataEntry,
+  CachedDateRange,
+  CacheStats,
+  DataType,
+} from "@/domain/interfaces/ICacheRepository";
+import { CacheKey } from "@/domain/value-objects/CacheKey";
+
+/**
+ * In-memory cache adapter
+ *
+ * Non-persistent implementation of ICacheRepository backed by a Map.
+ * Used as a fallback when persistent storage is unavailable and as the
+ * base class for FileCacheAdapter.
+ */
+export class InMemoryCacheAdapter implements ICacheRepository {
+  protected readonly entries = new Map<string, CachedDataEntry>();
+
+  /**
+   * Ensure entries are available before access
+   * Overridden by persistent subclasses to load from disk
+   */
+  protected async ready(): Promise<void> {}
+
+  /**
+   * Called after every mutation
+   * Overridden by persistent subclasses to write to disk
+   */
+  protected async persist(): Promise<void> {}
+
+  async get(key: string): Promise<CachedDataEntry | null> {
+    await this.ready();
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Track access for LRU eviction (not persisted on read)
+    entry.lastAccessedAt = new Date();
+    return entry;
+  }
+
+  async getByRepository(repositoryId: string): Promise<CachedDataEntry[]> {
+    await this.ready();
+    return Array.from(this.entries.values()).filter(
+      (entry) => entry.repositoryId === repositoryId,
+    );
+  }
+
+  async getByDateRange(
+    repositoryId: string,
+    dataType: DataType,
+    range: CachedDateRange,
+  ): Promise<CachedDataEntry | null> {
+    const keyResult = CacheKey.create(repositoryId, dataType, range);
+    if (!keyResult.ok) {
+      return null;
+    }
+    return this.get(keyResult.value.value);
+  }
+
+  async set(entry: CachedDataEntry): Promise<void> {
+    await this.ready();
+    this.entries.set(entry.key, entry);
+    await this.persist();
+  }
+
+  async setMany(entries: CachedDataEntry[]): Promise<void> {
+    await this.ready();
+    for (const entry of entries) {
+      this.entries.set(entry.key, entry);
+    }
+    await this.persist();
+  }
+
+  async evict(keys: string[]): Promise<void> {
+    await this.ready();
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+    await this.persist();
+  }
+
+  async evictStale(): Promise<number> {
+    await this.ready();
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt.getTime() < now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.evict([key]);
+  }
+
+  async clearRepository(repositoryId: string): Promise<void> {
+    await this.ready();
+    for (const [key, entry] of this.entries) {
+      if (entry.repositoryId === repositoryId) {
+        this.entries.delete(key);
+      }
+    }
+    await this.persist();
+  }
+
+  async clearAll(): Promise<void> {
+    await this.ready();
+    this.entries.clear();
+    await this.persist();
+  }
+
+  async getAll(): Promise<CachedDataEntry[]> {
+    await this.ready();
+    return Array.from(this.entries.values());
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const all = await this.getAll();
+    return computeCacheStats(all);
+  }
+
+  async getTotalSize(): Promise<number> {
+    const all = await this.getAll();
+    return all.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  }
+
+  async getEntryCount(): Promise<number> {
+    await this.ready();
+    return this.entries.size;
+  }
+}
+
+/**
+ * Compute cache statistics from a list of entries
+ */
+export function computeCacheStats(entries: CachedDataEntry[]): CacheStats {
+  let totalSizeBytes = 0;
+  let oldestEntry: Date | null = null;
+  let newestEntry: Date | null = null;
+
+  for (const entry of entries) {
+    totalSizeBytes += entry.sizeBytes;
+    if (!oldestEntry || entry.cachedAt < oldestEntry) {
+      oldestEntry = entry.cachedAt;
+    }
+    if (!newestEntry || entry.cachedAt > newestEntry) {
+      newestEntry = entry.cachedAt;
+    }
+  }
+
+  return {
+    totalEntries: entries.length,
+    totalSizeBytes,
+    oldestEntry,
+    newestEntry,
+  };
+}
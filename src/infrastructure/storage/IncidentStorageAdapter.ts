@@ -0,0 +1,72 @@
+import { Result, ok, err } from "@/lib/result";
+import { IIncidentRepository } from "@/domain/interfaces/IIncidentRepository";
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import { Incident, IncidentSource } from "@/domain/value-objects/Incident";
+
+/**
+ * Serialized incident (dates as ISO 8601 strings)
+ */
+interface StoredIncident {
+  id: string;
+  title: string;
+  openedAt: string;
+  resolvedAt: string | null;
+  url?: string;
+}
+
+/**
+ * Incident storage adapter
+ * Implements IIncidentRepository on top of any IStoragePort, storing one
+ * entry per repository under `incidents:{repositoryId}`
+ */
+export class IncidentStorageAdapter implements IIncidentRepository {
+  constructor(private readonly storage: IStoragePort) {}
+
+  private getKey(repositoryId: string): string {
+    return `incidents:${repositoryId}`;
+  }
+
+  async getIncidents(repositoryId: string): Promise<Result<Incident[]>> {
+    const loadResult = await this.storage.load<StoredIncident[]>(
+      this.getKey(repositoryId),
+    );
+    if (!loadResult.ok) {
+      return err(loadResult.error);
+    }
+
+    const incidents: Incident[] = [];
+    for (const stored of loadResult.value ?? []) {
+      const incidentResult = Incident.create({
+        id: stored.id,
+        title: stored.title,
+        openedAt: new Date(stored.openedAt),
+        resolvedAt: stored.resolvedAt ? new Date(stored.resolvedAt) : null,
+        source: IncidentSource.IMPORT,
+        url: stored.url,
+      });
+      // Skip entries that no longer validate instead of failing the whole list
+      if (incidentResult.ok) {
+        incidents.push(incidentResult.value);
+      }
+    }
+    return ok(incidents);
+  }
+
+  async saveIncidents(
+    repositoryId: string,
+    incidents: Incident[],
+  ): Promise<Result<void>> {
+    const stored: StoredIncident[] = incidents.map((incident) => ({
+      id: incident.id,
+      title: incident.title,
+      openedAt: incident.openedAt.toISOString(),
+      resolvedAt: incident.resolvedAt?.toISOString() ?? null,
+      ...(incident.url !== undefined && { url: incident.url }),
+    }));
+    return await this.storage.save(this.getKey(repositoryId), stored);
+  }
+
+  async clearIncidents(repositoryId: string): Promise<Result<void>> {
+    return await this.storage.remove(this.getKey(repositoryId));
+  }
+}
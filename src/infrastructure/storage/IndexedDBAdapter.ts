@@ -0,0 +1,145 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import {
+  ICacheRepository,
+  CachedDataEntry,
+  CachedDateRange,
+  CacheStats,
+  DataType,
+} from "@/domain/interfaces/ICacheRepository";
+import { CacheKey } from "@/domain/value-objects/CacheKey";
+import { computeCacheStats } from "@/infrastructure/storage/InMemoryCacheAdapter";
+import { CACHE_CONFIG } from "@/config/cache";
+
+interface CacheDBSchema extends DBSchema {
+  [CACHE_CONFIG.STORE_NAME]: {
+    key: string;
+    value: CachedDataEntry;
+    indexes: {
+      repositoryId: string;
+      expiresAt: Date;
+    };
+  };
+}
+
+type CacheDB = IDBPDatabase<CacheDBSchema>;
+
+const STORE = CACHE_CONFIG.STORE_NAME;
+
+/**
+ * IndexedDB cache adapter for browser-side persistence
+ *
+ * Dates are stored natively via structured clone, so entries round-trip
+ * without manual serialization.
+ */
+export class IndexedDBAdapter implements ICacheRepository {
+  private constructor(private readonly db: CacheDB) {}
+
+  /**
+   * Open (and upgrade if needed) the cache database
+   * @throws Error if IndexedDB is unavailable or the database cannot be opened
+   */
+  static async open(
+    dbName: string = CACHE_CONFIG.DB_NAME,
+  ): Promise<IndexedDBAdapter> {
+    const db = await openDB<CacheDBSchema>(dbName, CACHE_CONFIG.DB_VERSION, {
+      upgrade(database) {
+        if (!database.objectStoreNames.contains(STORE)) {
+          const store = database.createObjectStore(STORE, { keyPath: "key" });
+          store.createIndex("repositoryId", "repositoryId");
+          store.createIndex("expiresAt", "expiresAt");
+        }
+      },
+    });
+    return new IndexedDBAdapter(db);
+  }
+
+  async get(key: string): Promise<CachedDataEntry | null> {
+    const entry = await this.db.get(STORE, key);
+    if (!entry) {
+      return null;
+    }
+
+    // Track access for LRU eviction
+    entry.lastAccessedAt = new Date();
+    await this.db.put(STORE, entry);
+    return entry;
+  }
+
+  async getByRepository(repositoryId: string): Promise<CachedDataEntry[]> {
+    return this.db.getAllFromIndex(STORE, "repositoryId", repositoryId);
+  }
+
+  async getByDateRange(
+    repositoryId: string,
+    dataType: DataType,
+    range: CachedDateRange,
+  ): Promise<CachedDataEntry | null> {
+    const keyResult = CacheKey.create(repositoryId, dataType, range);
+    if (!keyResult.ok) {
+      return null;
+    }
+    return this.get(keyResult.value.value);
+  }
+
+  async set(entry: CachedDataEntry): Promise<void> {
+    await this.db.put(STORE, entry);
+  }
+
+  async setMany(entries: CachedDataEntry[]): Promise<void> {
+    const tx = this.db.transaction(STORE, "readwrite");
+    await Promise.all([...entries.map((e) => tx.store.put(e)), tx.done]);
+  }
+
+  async evict(keys: string[]): Promise<void> {
+    const tx = this.db.transaction(STORE, "readwrite");
+    await Promise.all([...keys.map((k) => tx.store.delete(k)), tx.done]);
+  }
+
+  async evictStale(): Promise<number> {
+    const expiredKeys = await this.db.getAllKeysFromIndex(
+      STORE,
+      "expiresAt",
+      IDBKeyRange.upperBound(new Date(), true),
+    );
+    await this.evict(expiredKeys);
+    return expiredKeys.length;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.delete(STORE, key);
+  }
+
+  async clearRepository(repositoryId: string): Promise<void> {
+    const keys = await this.db.getAllKeysFromIndex(
+      STORE,
+      "repositoryId",
+      repositoryId,
+    );
+    await this.evict(keys);
+  }
+
+  async clearAll(): Promise<void> {
+    await this.db.clear(STORE);
+  }
+
+  async getAll(): Promise<CachedDataEntry[]> {
+    return this.db.getAll(STORE);
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return computeCacheStats(await this.getAll());
+  }
+
+  async getTotalSize(): Promise<number> {
+    const all = await this.getAll();
+    return all.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  }
+
+  async getEntryCount(): Promise<number> {
+    return this.db.count(STORE);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
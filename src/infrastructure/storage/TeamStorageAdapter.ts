@@ -0,0 +1,86 @@
+import { Result, ok, err } from "@/lib/result";
+import { ITeamRepository } from "@/domain/interfaces/ITeamRepository";
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import { Team, TeamProps } from "@/domain/value-objects/Team";
+
+/**
+ * Team storage adapter
+ * Implements ITeamRepository on top of any IStoragePort, storing one
+ * entry per owner under `teams:{ownerId}` (owner lowercased)
+ */
+export class TeamStorageAdapter implements ITeamRepository {
+  /**
+   * Pending update per storage key; updates of an owner chain onto it
+   */
+  private readonly updateChains = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly storage: IStoragePort) {}
+
+  private getKey(ownerId: string): string {
+    return `teams:${ownerId.toLowerCase()}`;
+  }
+
+  async getTeams(ownerId: string): Promise<Result<Team[]>> {
+    const loadResult = await this.storage.load<TeamProps[]>(
+      this.getKey(ownerId),
+    );
+    if (!loadResult.ok) {
+      return err(loadResult.error);
+    }
+
+    const teams: Team[] = [];
+    for (const stored of loadResult.value ?? []) {
+      const teamResult = Team.create(stored);
+      // Skip entries that no longer validate instead of failing the whole list
+      if (teamResult.ok) {
+        teams.push(teamResult.value);
+      }
+    }
+    return ok(teams);
+  }
+
+  async updateTeams(
+    ownerId: string,
+    update: (teams: Team[]) => Result<Team[]>,
+  ): Promise<Result<Team[]>> {
+    const key = this.getKey(ownerId);
+    const pending = this.updateChains.get(key) ?? Promise.resolve();
+    const next = pending.then(() => this.applyUpdate(ownerId, update));
+    // Keep the chain alive even if an update throws
+    const chain = next.catch(() => undefined);
+    this.updateChains.set(key, chain);
+    void chain.then(() => {
+      if (this.updateChains.get(key) === chain) {
+        this.updateChains.delete(key);
+      }
+    });
+    return next;
+  }
+
+  /**
+   * Read, update and write the teams of an owner (runs one at a time per owner)
+   */
+  private async applyUpdate(
+    ownerId: string,
+    update: (teams: Team[]) => Result<Team[]>,
+  ): Promise<Result<Team[]>> {
+    const storedResult = await this.getTeams(ownerId);
+    if (!storedResult.ok) {
+      return storedResult;
+    }
+
+    const updateResult = update(storedResult.value);
+    if (!updateResult.ok) {
+      return updateResult;
+    }
+
+    const saveResult = await this.storage.save(
+      this.getKey(ownerId),
+      updateResult.value.map((team) => team.toProps()),
+    );
+    if (!saveResult.ok) {
+      return err(saveResult.error);
+    }
+    return updateResult;
+  }
+}
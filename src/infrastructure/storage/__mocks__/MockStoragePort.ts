@@ -0,0 +1,38 @@
+import { IStoragePort } from "@/domain/interfaces/IStoragePort";
+import { Result, ok } from "@/lib/result";
+
+/**
+ * MockStoragePort
+ *
+ * In-memory implementation of IStoragePort for unit testing.
+ * Values are JSON round-tripped to match persistent storage behavior.
+ *
+ * @example
+ * ```typescript
+ * const storage = new MockStoragePort();
+ * await storage.save("key", { value: 1 });
+ * const result = await storage.load("key");
+ * ```
+ */
+export class MockStoragePort implements IStoragePort {
+  private readonly data = new Map<string, string>();
+
+  async save<T>(key: string, value: T): Promise<Result<void>> {
+    this.data.set(key, JSON.stringify(value));
+    return ok(undefined);
+  }
+
+  async load<T>(key: string): Promise<Result<T | null>> {
+    const stored = this.data.get(key);
+    return ok(stored === undefined ? null : (JSON.parse(stored) as T));
+  }
+
+  async remove(key: string): Promise<Result<void>> {
+    this.data.delete(key);
+    return ok(undefined);
+  }
+
+  async exists(key: string): Promise<Result<boolean>> {
+    return ok(this.data.has(key));
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DoraBenchmarkStorageAdapter } from "@/infrastructure/storage/DoraBenchmarkStorageAdapter";
+import { MockStoragePort } from "@/infrastructure/storage/__mocks__/MockStoragePort";
+import { DORABenchmarkEdition } from "@/domain/value-objects/DORABenchmark";
+
+describe("DoraBenchmarkStorageAdapter", () => {
+  let storage: MockStoragePort;
+  let repository: DoraBenchmarkStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MockStoragePort();
+    repository = new DoraBenchmarkStorageAdapter(storage);
+  });
+
+  it("should return null for an owner without a selected edition", async () => {
+    const result = await repository.getEdition("acme");
+
+    expect(result).toEqual({ ok: true, value: null });
+  });
+
+  it("should store the edition per owner, ignoring case", async () => {
+    await repository.saveEdition("Acme", DORABenchmarkEdition.EDITION_2021);
+
+    expect(await repository.getEdition("acme")).toEqual({
+      ok: true,
+      value: DORABenchmarkEdition.EDITION_2021,
+    });
+    expect(await repository.getEdition("other")).toEqual({
+      ok: true,
+      value: null,
+    });
+  });
+
+  it("should fall back to the default for an unknown stored edition", async () => {
+    await storage.save("dora-benchmark:acme", "2019");
+
+    const result = await repository.getEdition("acme");
+
+    expect(result).toEqual({ ok: true, value: null });
+  });
+
+  it("should remove the stored edition", async () => {
+    await repository.saveEdition("acme", DORABenchmarkEdition.EDITION_2022);
+
+    await repository.removeEdition("acme");
+
+    expect(await repository.getEdition("acme")).toEqual({
+      ok: true,
+      value: null,
+    });
+  });
+});
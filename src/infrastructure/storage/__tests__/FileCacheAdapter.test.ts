@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FileCacheAdapter } from "@/infrastructure/storage/FileCacheAdapter";
+import {
+  CachedDataEntry,
+  DataType,
+} from "@/domain/interfaces/ICacheRepository";
+
+function createEntry(
+  key: string,
+  overrides: Partial<CachedDataEntry> = {},
+): CachedDataEntry {
+  return {
+    key,
+    repositoryId: "owner/repo",
+    dataType: DataType.COMMITS,
+    dateRange: {
+      start: new Date("2024-01-01T00:00:00Z"),
+      end: new Date("2024-01-31T00:00:00Z"),
+    },
+    data: [{ hash: "abc" }],
+    cachedAt: new Date("2024-02-01T00:00:00Z"),
+    expiresAt: new Date(Date.now() + 60_000),
+    lastAccessedAt: new Date("2024-02-01T00:00:00Z"),
+    sizeBytes: 16,
+    isRevalidating: false,
+    ...overrides,
+  };
+}
+
+describe("FileCacheAdapter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "cache-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should persist entries across instances", async () => {
+    await new FileCacheAdapter(directory).set(createEntry("key-1"));
+
+    const reloaded = new FileCacheAdapter(directory);
+    const entry = await reloaded.get("key-1");
+
+    expect(entry).not.toBeNull();
+    expect(entry!.data).toEqual([{ hash: "abc" }]);
+    expect(entry!.cachedAt).toBeInstanceOf(Date);
+    expect(entry!.dateRange.start.toISOString()).toBe(
+      "2024-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("should start empty when no cache file exists", async () => {
+    const adapter = new FileCacheAdapter(path.join(directory, "missing"));
+
+    expect(await adapter.getEntryCount()).toBe(0);
+  });
+
+  it("should start empty when the cache file is corrupt", async () => {
+    await fs.writeFile(path.join(directory, "cache.json"), "{not json");
+
+    const adapter = new FileCacheAdapter(directory);
+
+    expect(await adapter.getEntryCount()).toBe(0);
+  });
+
+  it("should remove expired entries", async () => {
+    const adapter = new FileCacheAdapter(directory);
+    await adapter.setMany([
+      createEntry("fresh"),
+      createEntry("expired", { expiresAt: new Date(Date.now() - 1000) }),
+    ]);
+
+    const removed = await adapter.evictStale();
+
+    expect(removed).toBe(1);
+    expect(await new FileCacheAdapter(directory).get("expired")).toBeNull();
+  });
+
+  it("should clear entries of a single repository", async () => {
+    const adapter = new FileCacheAdapter(directory);
+    await adapter.setMany([
+      createEntry("a"),
+      createEntry("b", { repositoryId: "other/repo" }),
+    ]);
+
+    await adapter.clearRepository("owner/repo");
+
+    const remaining = await adapter.getAll();
+    expect(remaining.map((e) => e.key)).toEqual(["b"]);
+  });
+
+  it("should report stats", async () => {
+    const adapter = new FileCacheAdapter(directory);
+    await adapter.setMany([
+      createEntry("a", { cachedAt: new Date("2024-01-01T00:00:00Z") }),
+      createEntry("b", { cachedAt: new Date("2024-03-01T00:00:00Z") }),
+    ]);
+
+    const stats = await adapter.getStats();
+
+    expect(stats.totalEntries).toBe(2);
+    expect(stats.totalSizeBytes).toBe(32);
+    expect(stats.oldestEntry?.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+    expect(stats.newestEntry?.toISOString()).toBe("2024-03-01T00:00:00.000Z");
+  });
+});
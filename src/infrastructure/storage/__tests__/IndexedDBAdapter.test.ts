@@ -0,0 +1,117 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { IndexedDBAdapter } from "@/infrastructure/storage/IndexedDBAdapter";
+import {
+  CachedDataEntry,
+  DataType,
+} from "@/domain/interfaces/ICacheRepository";
+
+function createEntry(
+  key: string,
+  overrides: Partial<CachedDataEntry> = {},
+): CachedDataEntry {
+  return {
+    key,
+    repositoryId: "owner/repo",
+    dataType: DataType.PULL_REQUESTS,
+    dateRange: {
+      start: new Date("2024-01-01T00:00:00Z"),
+      end: new Date("2024-01-31T00:00:00Z"),
+    },
+    data: [{ number: 1 }],
+    cachedAt: new Date("2024-02-01T00:00:00Z"),
+    expiresAt: new Date(Date.now() + 60_000),
+    lastAccessedAt: new Date("2024-02-01T00:00:00Z"),
+    sizeBytes: 14,
+    isRevalidating: false,
+    ...overrides,
+  };
+}
+
+describe("IndexedDBAdapter", () => {
+  let adapter: IndexedDBAdapter;
+  let dbName: string;
+
+  beforeEach(async () => {
+    dbName = `test-cache-${Math.random()}`;
+    adapter = await IndexedDBAdapter.open(dbName);
+  });
+
+  afterEach(() => {
+    adapter.close();
+  });
+
+  it("should store and retrieve entries with Dates intact", async () => {
+    await adapter.set(createEntry("key-1"));
+
+    const entry = await adapter.get("key-1");
+
+    expect(entry).not.toBeNull();
+    expect(entry!.data).toEqual([{ number: 1 }]);
+    expect(entry!.cachedAt).toBeInstanceOf(Date);
+  });
+
+  it("should update lastAccessedAt on read", async () => {
+    await adapter.set(createEntry("key-1"));
+
+    await adapter.get("key-1");
+    const all = await adapter.getAll();
+
+    expect(all[0]!.lastAccessedAt.getTime()).toBeGreaterThan(
+      new Date("2024-02-01T00:00:00Z").getTime(),
+    );
+  });
+
+  it("should look up entries by date range", async () => {
+    await adapter.set(
+      createEntry(
+        "repo:owner/repo:type:pull_requests:range:2024-01-01:2024-01-31",
+      ),
+    );
+
+    const entry = await adapter.getByDateRange(
+      "owner/repo",
+      DataType.PULL_REQUESTS,
+      { start: new Date(2024, 0, 1), end: new Date(2024, 0, 31) },
+    );
+
+    expect(entry).not.toBeNull();
+  });
+
+  it("should remove expired entries", async () => {
+    await adapter.setMany([
+      createEntry("fresh"),
+      createEntry("expired", { expiresAt: new Date(Date.now() - 1000) }),
+    ]);
+
+    const removed = await adapter.evictStale();
+
+    expect(removed).toBe(1);
+    expect(await adapter.getEntryCount()).toBe(1);
+  });
+
+  it("should clear entries of a single repository", async () => {
+    await adapter.setMany([
+      createEntry("a"),
+      createEntry("b", { repositoryId: "other/repo" }),
+    ]);
+
+    await adapter.clearRepository("owner/repo");
+
+    expect((await adapter.getByRepository("owner/repo")).length).toBe(0);
+    expect((await adapter.getByRepository("other/repo")).length).toBe(1);
+  });
+
+  it("should clear all entries", async () => {
+    await adapter.setMany([createEntry("a"), createEntry("b")]);
+
+    await adapter.clearAll();
+
+    expect(await adapter.getStats()).toEqual({
+      totalEntries: 0,
+      totalSizeBytes: 0,
+      oldestEntry: null,
+      newestEntry: null,
+    });
+  });
+});
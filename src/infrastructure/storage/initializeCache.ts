@@ -0,0 +1,98 @@
+import { ICacheRepository } from "@/domain/interfaces/ICacheRepository";
+import { IndexedDBAdapter } from "./IndexedDBAdapter";
+import { InMemoryCacheAdapter } from "./InMemoryCacheAdapter";
+import { getErrorMessage } from "@/lib/utils/errorUtils";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Cache initialization errors
+ */
+export const CacheInitError = {
+  INDEXEDDB_NOT_SUPPORTED: "indexeddb_not_supported", // Browser doesn't support IndexedDB
+  INDEXEDDB_DISABLED: "indexeddb_disabled", // Safari private mode, storage disabled
+  QUOTA_EXCEEDED: "quota_exceeded", // Storage quota exceeded during initialization
+  OPEN_FAILED: "open_failed", // Database open failed (corruption, version mismatch)
+} as const;
+export type CacheInitError =
+  (typeof CacheInitError)[keyof typeof CacheInitError];
+
+/**
+ * Result of browser cache initialization
+ */
+export type CacheInitResult =
+  | { success: true; adapter: ICacheRepository }
+  | { success: false; fallback: ICacheRepository; reason: CacheInitError };
+
+let browserCache: Promise<ICacheRepository> | null = null;
+
+/**
+ * Initialize the browser cache
+ *
+ * Opens IndexedDB, falling back to an in-memory cache when IndexedDB is
+ * unsupported or blocked (e.g. Safari private mode).
+ */
+export async function initializeCache(): Promise<CacheInitResult> {
+  if (typeof indexedDB === "undefined") {
+    return {
+      success: false,
+      fallback: new InMemoryCacheAdapter(),
+      reason: CacheInitError.INDEXEDDB_NOT_SUPPORTED,
+    };
+  }
+
+  try {
+    const adapter = await IndexedDBAdapter.open();
+    return { success: true, adapter };
+  } catch (error) {
+    return {
+      success: false,
+      fallback: new InMemoryCacheAdapter(),
+      reason: classifyOpenError(error),
+    };
+  }
+}
+
+/**
+ * Get the shared browser cache instance (initialized once per page load)
+ */
+export function getBrowserCache(): Promise<ICacheRepository> {
+  if (!browserCache) {
+    browserCache = initializeCache().then((result) => {
+      if (result.success) {
+        return result.adapter;
+      }
+      logger.warn("Browser cache unavailable, using in-memory fallback", {
+        reason: result.reason,
+      });
+      return result.fallback;
+    });
+  }
+  return browserCache;
+}
+
+/**
+ * Remove everything cached in the browser (e.g. when the user signs out,
+ * so the next user of the browser does not see their repositories)
+ */
+export async function clearBrowserCache(): Promise<void> {
+  try {
+    const cache = await getBrowserCache();
+    await cache.clearAll();
+  } catch (error) {
+    logger.warn("Failed to clear browser cache", {
+      error: getErrorMessage(error),
+    });
+  }
+}
+
+function classifyOpenError(error: unknown): CacheInitError {
+  const name = error instanceof DOMException ? error.name : "";
+  if (name === "QuotaExceededError") {
+    return CacheInitError.QUOTA_EXCEEDED;
+  }
+  if (name === "SecurityError" || name === "InvalidStateError") {
+    return CacheInitError.INDEXEDDB_DISABLED;
+  }
+  logger.warn("Failed to open IndexedDB", { error: getErrorMessage(error) });
+  return CacheInitError.OPEN_FAILED;
+}
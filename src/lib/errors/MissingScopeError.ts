@@ -0,0 +1,12 @@
+/**
+ * Thrown when the token lacks an OAuth scope a request needs
+ * (e.g. read:org for an organization's teams)
+ *
+ * Carries the scope, so callers can ask the user to grant it.
+ */
+export class MissingScopeError extends Error {
+  constructor(public readonly scope: string) {
+    super(`The token has not been granted the ${scope} scope`);
+    this.name = "MissingScopeError";
+  }
+}
@@ -0,0 +1,45 @@
+import { Result, ok } from "@/lib/result";
+
+/**
+ * Thrown when the GitHub rate limit is exhausted for longer than is worth
+ * waiting for
+ *
+ * Carries the items fetched before the limit was hit, so callers can
+ * continue with partial data and resume after resetAt.
+ */
+export class RateLimitExhaustedError<T = unknown> extends Error {
+  constructor(
+    public readonly resetAt: Date,
+    public readonly partial: T[] = [],
+  ) {
+    super(
+      `GitHub API rate limit exceeded until ${resetAt.toISOString()}. Partial results are shown; resume after the limit resets.`,
+    );
+    this.name = "RateLimitExhaustedError";
+  }
+
+  /**
+   * Same error carrying the items fetched so far
+   */
+  withPartial<U>(partial: U[]): RateLimitExhaustedError<U> {
+    return new RateLimitExhaustedError(this.resetAt, partial);
+  }
+}
+
+/**
+ * Fall back to the partial items of a result the rate limit cut short
+ *
+ * @param result Result of a fetch
+ * @param onPartial Called with the reset time when the items are partial
+ * @returns The result itself, or ok(partial items)
+ */
+export function recoverPartial<T>(
+  result: Result<T[]>,
+  onPartial: (resetAt: Date) => void,
+): Result<T[]> {
+  if (result.ok || !(result.error instanceof RateLimitExhaustedError)) {
+    return result;
+  }
+  onPartial(result.error.resetAt);
+  return ok(result.error.partial as T[]);
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { groupBy } from "../collection";
+import { groupBy, mapWithConcurrency } from "../collection";
 
 describe("groupBy", () => {
   it("should group items by a numeric key", () => {
@@ -121,3 +121,29 @@ describe("groupBy", () => {
     ]);
   });
 });
+
+describe("mapWithConcurrency", () => {
+  it("should keep item order and never exceed the limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const result = await mapWithConcurrency(
+      [30, 10, 20, 5, 15],
+      2,
+      async (ms) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        inFlight--;
+        return ms * 2;
+      },
+    );
+
+    expect(result).toEqual([60, 20, 40, 10, 30]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("should return an empty array for no items", async () => {
+    expect(await mapWithConcurrency([], 4, async (item) => item)).toEqual([]);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { median, percentile } from "../statistics";
+
+describe("percentile", () => {
+  it("should return null for an empty sample", () => {
+    expect(percentile([], 85)).toBeNull();
+  });
+
+  it("should interpolate between closest ranks", () => {
+    expect(percentile([10, 20, 30], 85)).toBeCloseTo(27);
+    expect(percentile([4, 1, 3, 2], 50)).toBe(2.5);
+  });
+
+  it("should return the extremes for 0 and 100", () => {
+    expect(percentile([5, 1, 9], 0)).toBe(1);
+    expect(percentile([5, 1, 9], 100)).toBe(9);
+  });
+});
+
+describe("median", () => {
+  it("should return the middle value of an odd sample", () => {
+    expect(median([3, 1, 2])).toBe(2);
+  });
+
+  it("should return null for an empty sample", () => {
+    expect(median([])).toBeNull();
+  });
+});
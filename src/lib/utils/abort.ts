@@ -0,0 +1,71 @@
+/**
+ * Utility functions for cancelling long-running work with an AbortSignal
+ */
+
+/**
+ * Message of the error thrown when an analysis is cancelled
+ */
+export const CANCELLED_MESSAGE = "Analysis cancelled";
+
+/**
+ * Creates the error thrown when a signal is aborted.
+ * Named "AbortError" like the errors fetch() throws for aborted requests.
+ */
+export const createAbortError = (): Error => {
+  const error = new Error(CANCELLED_MESSAGE);
+  error.name = "AbortError";
+  return error;
+};
+
+/**
+ * Checks whether an error was caused by cancellation
+ * (createAbortError() or an aborted fetch)
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    "name" in error &&
+    error.name === "AbortError"
+  );
+};
+
+/**
+ * Throws an abort error if the signal has been aborted.
+ *
+ * @example
+ * ```typescript
+ * while (hasNextPage) {
+ *   throwIfAborted(signal);
+ *   // fetch next page
+ * }
+ * ```
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+/**
+ * Waits for the given time; rejects with an abort error as soon as the
+ * signal is aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
@@ -53,3 +53,40 @@ export const groupBy = <T, K extends string | number>(
 
   return grouped;
 };
+
+/**
+ * Maps items with an async function, running at most `limit` at a time.
+ * Results keep the order of the items.
+ *
+ * @param items - The items to map
+ * @param limit - Maximum number of calls in flight
+ * @param mapper - Async function applied to each item
+ * @returns The mapped results in item order
+ *
+ * @example
+ * ```typescript
+ * const results = await mapWithConcurrency(repositoryIds, 4, (id) =>
+ *   fetchRepository(id),
+ * );
+ * ```
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index] as T, index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker),
+  );
+  return results;
+};
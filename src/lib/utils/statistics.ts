@@ -0,0 +1,40 @@
+/**
+ * Statistics utility functions for distribution summaries
+ */
+
+/**
+ * Calculate a percentile using linear interpolation between closest ranks.
+ *
+ * @param values - Sample values (need not be sorted)
+ * @param p - Percentile between 0 and 100
+ * @returns The percentile value, or null for an empty sample
+ *
+ * @example
+ * ```typescript
+ * percentile([1, 2, 3, 4], 50); // 2.5
+ * percentile([10, 20, 30], 85); // 27
+ * ```
+ */
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+
+  return lowerValue + (upperValue - lowerValue) * (rank - lower);
+};
+
+/**
+ * Calculate the median (50th percentile) of a sample.
+ *
+ * @param values - Sample values (need not be sorted)
+ * @returns The median, or null for an empty sample
+ */
+export const median = (values: number[]): number | null =>
+  percentile(values, 50);
@@ -57,10 +57,11 @@ export default auth((req) => {
     pathname === `/${locale}/terms`;
 
   // Handle session errors (skip in env token mode)
+  // The error code (e.g. RefreshAccessTokenError) selects the message shown
   if (!isEnvToken && req.auth?.error && pathname !== `/${locale}/auth/error`) {
-    return NextResponse.redirect(
-      new URL(`/${locale}/auth/error`, req.nextUrl.origin),
-    );
+    const errorUrl = new URL(`/${locale}/auth/error`, req.nextUrl.origin);
+    errorUrl.searchParams.set("error", req.auth.error);
+    return NextResponse.redirect(errorUrl);
   }
 
   // Redirect authenticated users from homepage to analytics
@@ -10,6 +10,7 @@ import { LogIn } from "lucide-react";
  *
  * Client component that triggers GitHub OAuth sign-in flow.
  * Uses NextAuth's signIn function to redirect to GitHub authorization.
+ * Pass provider="github-enterprise" to sign in with GitHub Enterprise Server.
  *
  * Features:
  * - Triggers OAuth flow on click
@@ -21,14 +22,21 @@ import { LogIn } from "lucide-react";
  * @example
  * ```tsx
  * <SignInButton />
+ * <SignInButton provider="github-enterprise" host="ghe.example.com" />
  * ```
  */
-export function SignInButton() {
+export function SignInButton({
+  provider = "github",
+  host,
+}: {
+  provider?: "github" | "github-enterprise";
+  host?: string;
+}) {
   const t = useTranslations("auth");
 
   const handleSignIn = async () => {
     try {
-      await signIn("github", {
+      await signIn(provider, {
         callbackUrl: "/analytics",
       });
     } catch (error) {
@@ -39,7 +47,9 @@ export function SignInButton() {
   return (
     <Button onClick={handleSignIn} variant="default" size="default">
       <LogIn className="mr-2 h-4 w-4" />
-      {t("signIn")}
+      {provider === "github-enterprise"
+        ? t("signInEnterprise", { host: host ?? "" })
+        : t("signIn")}
     </Button>
   );
 }
@@ -1,15 +1,16 @@
 "use client";
 
-import { signOut } from "next-auth/react";
 import { useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
+import { signOutUser } from "./signOutUser";
 
 /**
  * SignOutButton Component
  *
  * Client component that signs out the current user and redirects to homepage.
- * Uses NextAuth's signOut function to clear session.
+ * Uses NextAuth's signOut function to clear session, after clearing the
+ * GitHub data cached in the browser.
  *
  * Features:
  * - Signs out user on click
@@ -28,7 +29,7 @@ export function SignOutButton() {
 
   const handleSignOut = async () => {
     try {
-      await signOut({
+      await signOutUser({
         callbackUrl: "/",
       });
     } catch (error) {
@@ -1,6 +1,6 @@
 "use client";
 
-import { useSession, signOut } from "next-auth/react";
+import { useSession } from "next-auth/react";
 import { useEffect } from "react";
 import { useRouter } from "@/i18n/navigation";
 import { useTranslations } from "next-intl";
@@ -16,6 +16,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { LogOut } from "lucide-react";
+import { signOutUser } from "./signOutUser";
 
 /**
  * UserProfile Component
@@ -96,7 +97,7 @@ export function UserProfile() {
         <DropdownMenuSeparator />
         <DropdownMenuItem
           className="cursor-pointer"
-          onClick={() => signOut({ callbackUrl: "/" })}
+          onClick={() => signOutUser({ callbackUrl: "/" })}
         >
           <LogOut className="mr-2 h-4 w-4" />
           <span>{t("signOut")}</span>
@@ -0,0 +1,16 @@
+import { signOut } from "next-auth/react";
+import { clearBrowserCache } from "@/infrastructure/storage/initializeCache";
+
+/**
+ * Sign out and clear the GitHub data cached in the browser
+ *
+ * The browser cache holds the user's repository list and analytics of
+ * private repositories; it is cleared first so the next user of a shared
+ * browser does not see them.
+ */
+export async function signOutUser(
+  options?: Parameters<typeof signOut>[0],
+): Promise<void> {
+  await clearBrowserCache();
+  await signOut(options);
+}
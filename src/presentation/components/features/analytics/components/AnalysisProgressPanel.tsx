@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Loader2, RotateCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { AnalysisProgress } from "@/domain/value-objects/AnalysisProgress";
+import type { AnalysisProgressEvent } from "@/domain/interfaces/IAnalysisProgress";
+
+/**
+ * AnalysisProgressPanel Component
+ *
+ * Purpose: Live progress of a Team tab analysis that is not cached yet
+ *
+ * Features:
+ * - Streams progress from /api/analysis/progress (Server-Sent Events)
+ * - Current stage, pages fetched, PRs processed and rate limit waits
+ * - Estimated time remaining
+ * - Cancel closes the stream, which cancels the analysis on the server
+ * - Refreshes the page when done so TeamTab renders the cached result
+ *
+ * Usage:
+ * ```tsx
+ * <AnalysisProgressPanel
+ *   repositoryId="owner/repo"
+ *   start={dateRange.start.toISOString()}
+ *   end={dateRange.end.toISOString()}
+ * />
+ * ```
+ */
+
+interface AnalysisProgressPanelProps {
+  repositoryId: string;
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+}
+
+type PanelStatus = "running" | "cancelled" | "failed";
+
+export function AnalysisProgressPanel({
+  repositoryId,
+  start,
+  end,
+}: AnalysisProgressPanelProps) {
+  const t = useTranslations("analytics.team.progress");
+  const router = useRouter();
+  const sourceRef = useRef<EventSource | null>(null);
+  const [progress, setProgress] = useState(() => AnalysisProgress.start());
+  const [status, setStatus] = useState<PanelStatus>("running");
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const connect = useCallback(() => {
+    const params = new URLSearchParams({
+      repository: repositoryId,
+      start,
+      end,
+    });
+    const source = new EventSource(`/api/analysis/progress?${params}`);
+    sourceRef.current = source;
+    setProgress(AnalysisProgress.start());
+    setStatus("running");
+    setError(null);
+
+    source.addEventListener("progress", (message) => {
+      const event = JSON.parse(
+        (message as MessageEvent<string>).data,
+      ) as AnalysisProgressEvent;
+      setProgress((current) => current.apply(event));
+    });
+    source.addEventListener("done", () => {
+      source.close();
+      router.refresh();
+    });
+    source.addEventListener("error", (message) => {
+      // Named "error" events carry a message; connection errors do not
+      const data = (message as MessageEvent<string | undefined>).data;
+      source.close();
+      setError(data ? (JSON.parse(data) as { message: string }).message : null);
+      setStatus("failed");
+    });
+  }, [repositoryId, start, end, router]);
+
+  useEffect(() => {
+    connect();
+    return () => sourceRef.current?.close();
+  }, [connect]);
+
+  // Tick once per second so the ETA and wait countdown stay current
+  useEffect(() => {
+    if (status !== "running") {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  const handleCancel = () => {
+    sourceRef.current?.close();
+    setStatus("cancelled");
+  };
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return seconds < 60
+      ? t("seconds", { count: seconds })
+      : t("minutes", { count: Math.ceil(seconds / 60) });
+  };
+
+  if (status !== "running") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {status === "cancelled" ? t("cancelled") : t("failed")}
+          </CardTitle>
+          {error && <CardDescription>{error}</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={connect}>
+            <RotateCw className="mr-2 h-4 w-4" />
+            {t("restart")}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const remainingMs = progress.estimateRemainingMs(now);
+  const waitMs = progress.getRemainingWaitMs(now);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          {t("title")}
+        </CardTitle>
+        <CardDescription>{t(`stages.${progress.stage}`)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={Math.round(progress.fraction * 100)} />
+
+        <div className="grid gap-2 text-sm sm:grid-cols-2">
+          <p>
+            {t("fetched", {
+              pullRequests: progress.pullRequestsFetched,
+              commits: progress.commitsFetched,
+              pages: progress.pagesFetched,
+            })}
+          </p>
+          {progress.pullRequestsTotal > 0 && (
+            <p>
+              {t("processed", {
+                processed: progress.pullRequestsProcessed,
+                total: progress.pullRequestsTotal,
+              })}
+            </p>
+          )}
+          {waitMs > 0 && (
+            <p className="text-amber-600 dark:text-amber-400">
+              {t("waiting", { duration: formatDuration(waitMs) })}
+            </p>
+          )}
+          <p className="text-muted-foreground">
+            {remainingMs === null
+              ? t("estimating")
+              : t("eta", { duration: formatDuration(remainingMs) })}
+          </p>
+        </div>
+
+        <Button variant="outline" onClick={handleCancel}>
+          <XCircle className="mr-2 h-4 w-4" />
+          {t("cancel")}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
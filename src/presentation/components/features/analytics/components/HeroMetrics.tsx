@@ -1,13 +1,57 @@
 import { getTranslations } from "next-intl/server";
 import { HeroMetricCard } from "./HeroMetricCard";
+import { PartialResultNotice } from "./PartialResultNotice";
+import { MissingPermissionNotice } from "../shared/MissingPermissionNotice";
+import { WidgetPermissions } from "../shared/widgetPermissions";
 import { TrendIndicator } from "@/domain/value-objects/TrendIndicator";
 import { DateRange } from "@/domain/value-objects/DateRange";
 import { Rocket, GitPullRequest, Activity, Users } from "lucide-react";
 import {
-  getCachedPRs,
-  getCachedCommits,
-  getCachedDeployments,
+  getCachedPRPeriods,
+  getCachedCommitPeriods,
+  getCachedDeploymentSourcePeriods,
+  getCachedTokenCapabilities,
 } from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { getCachedDoraBenchmark } from "@/app/[locale]/(app)/analytics/_lib/dora-benchmark-fetcher";
+import { PullRequest } from "@/domain/interfaces/IGitHubRepository";
+import {
+  PullRequestDateFilter,
+  PullRequestDateSemantics,
+} from "@/domain/value-objects/PullRequestDateFilter";
+import { AnalysisSection } from "@/domain/types";
+import { Result } from "@/lib/result";
+import { recoverPartial } from "@/lib/errors/RateLimitExhaustedError";
+
+/**
+ * PR throughput of a period: PRs merged in it, and the share of PRs
+ * opened in it that have been merged
+ */
+function summarizePullRequests(
+  prs: PullRequest[],
+  range: DateRange,
+): { merged: number; mergeRate: number } {
+  const merged = PullRequestDateFilter.create(
+    PullRequestDateSemantics.MERGED,
+    range.start,
+    range.end,
+  ).apply(prs).length;
+  const opened = PullRequestDateFilter.create(
+    PullRequestDateSemantics.CREATED,
+    range.start,
+    range.end,
+  ).apply(prs);
+  const openedAndMerged = opened.filter((pr) => pr.state === "merged").length;
+
+  return {
+    merged,
+    mergeRate:
+      opened.length > 0
+        ? Math.round((openedAndMerged / opened.length) * 100)
+        : 0,
+  };
+}
 
 /**
  * HeroMetrics Component
@@ -15,16 +59,19 @@ import {
  * Purpose: Display 4 key metrics prominently at top of analytics page
  *
  * Metrics:
- * 1. Deployment Frequency (DORA metric)
- * 2. PR Throughput (merged PRs with merge rate)
+ * 1. Deployment Frequency (DORA metric, with level from the owner's benchmark)
+ * 2. PR Throughput (PRs merged in the period, merge rate of PRs opened in it)
  * 3. Team Velocity (commits + PRs per week)
  * 4. Active Contributors
  *
  * Features:
  * - Async Server Component
- * - Calculates trends vs previous equal period
+ * - Calculates trends vs previous equal period (both periods are
+ *   fetched together and split in memory)
  * - Color-coded trend indicators
  * - Responsive grid layout
+ * - Shows partial data (with a resume notice) when the rate limit ran out
+ * - Scoped to a team's PRs, commits and deployments when one is selected
  *
  * Usage:
  * ```tsx
@@ -37,42 +84,69 @@ import {
 interface HeroMetricsProps {
   repositoryId: string;
   dateRange: DateRange;
+  /** Team id (whole repository when omitted) */
+  team?: string;
 }
 
 export async function HeroMetrics({
   repositoryId,
   dateRange,
+  team,
 }: HeroMetricsProps) {
   const t = await getTranslations("analytics.heroMetrics");
+  const tDora = await getTranslations("analytics.widgets.doraMetrics");
 
   try {
-    // Calculate previous period (same duration, shifted back)
-    const durationMs = dateRange.end.getTime() - dateRange.start.getTime();
-    const previousStart = new Date(dateRange.start.getTime() - durationMs);
-    const previousEnd = new Date(dateRange.start.getTime());
-    const previousPeriodResult = DateRange.create(previousStart, previousEnd);
+    // Previous period (same duration, shifted back)
+    const previousPeriod = dateRange.previousPeriod();
 
-    if (!previousPeriodResult.ok) {
-      throw new Error("Failed to create previous period range");
-    }
-    const previousPeriod = previousPeriodResult.value;
+    // Fetch data for both current and previous periods at once
+    const [prPeriods, commitPeriods, deploymentPeriods, benchmark] =
+      await Promise.all([
+        getCachedPRPeriods(repositoryId, dateRange, team),
+        getCachedCommitPeriods(repositoryId, dateRange, team),
+        getCachedDeploymentSourcePeriods(repositoryId, dateRange, team),
+        getCachedDoraBenchmark(repositoryId),
+      ]);
+    const { current: rawCurrentPrsResult, previous: rawPreviousPrsResult } =
+      prPeriods;
+    const {
+      current: rawCurrentCommitsResult,
+      previous: rawPreviousCommitsResult,
+    } = commitPeriods;
+    const {
+      current: currentDeploymentsResult,
+      previous: previousDeploymentsResult,
+    } = deploymentPeriods;
 
-    // Fetch data for both current and previous periods
-    const [
-      currentPrsResult,
-      currentCommitsResult,
-      currentDeploymentsResult,
-      previousPrsResult,
-      previousCommitsResult,
-      previousDeploymentsResult,
-    ] = await Promise.all([
-      getCachedPRs(repositoryId, dateRange),
-      getCachedCommits(repositoryId, dateRange),
-      getCachedDeployments(repositoryId, dateRange),
-      getCachedPRs(repositoryId, previousPeriod),
-      getCachedCommits(repositoryId, previousPeriod),
-      getCachedDeployments(repositoryId, previousPeriod),
-    ]);
+    // Fall back to the data fetched before the rate limit ran out
+    const incompleteSections: AnalysisSection[] = [];
+    let resumeAt = new Date(0);
+    const recover = <T,>(result: Result<T[]>, section: AnalysisSection) =>
+      recoverPartial(result, (resetAt) => {
+        if (!incompleteSections.includes(section)) {
+          incompleteSections.push(section);
+        }
+        if (resetAt > resumeAt) {
+          resumeAt = resetAt;
+        }
+      });
+    const currentPrsResult = recover(
+      rawCurrentPrsResult,
+      AnalysisSection.PULL_REQUESTS,
+    );
+    const currentCommitsResult = recover(
+      rawCurrentCommitsResult,
+      AnalysisSection.COMMITS,
+    );
+    const previousPrsResult = recover(
+      rawPreviousPrsResult,
+      AnalysisSection.PULL_REQUESTS,
+    );
+    const previousCommitsResult = recover(
+      rawPreviousCommitsResult,
+      AnalysisSection.COMMITS,
+    );
 
     // Handle errors
     if (
@@ -80,52 +154,68 @@ export async function HeroMetrics({
       !currentCommitsResult.ok ||
       !currentDeploymentsResult.ok
     ) {
-      // Return empty state or error - for now, show zeros
+      // Show zeros, explaining missing token permissions if any
       return (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-          <HeroMetricCard
-            title={t("deployments.title")}
-            value="—"
-            subtitle={t("deployments.subtitle")}
-            icon={Rocket}
-            accentColor="primary"
-          />
-          <HeroMetricCard
-            title={t("prThroughput.title")}
-            value="—"
-            subtitle={t("prThroughput.subtitle")}
-            icon={GitPullRequest}
-            accentColor="success"
-          />
-          <HeroMetricCard
-            title={t("teamVelocity.title")}
-            value="—"
-            subtitle={t("teamVelocity.subtitle")}
-            icon={Activity}
-            accentColor="info"
-          />
-          <HeroMetricCard
-            title={t("contributors.title")}
-            value="—"
-            subtitle={t("contributors.subtitle")}
-            icon={Users}
-            accentColor="warning"
+        <div className="space-y-4">
+          <MissingPermissionNotice
+            capabilities={await getCachedTokenCapabilities(repositoryId)}
+            permissions={WidgetPermissions.HERO_METRICS}
           />
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <HeroMetricCard
+              title={t("deployments.title")}
+              value="—"
+              subtitle={t("deployments.subtitle")}
+              icon={Rocket}
+              accentColor="primary"
+            />
+            <HeroMetricCard
+              title={t("prThroughput.title")}
+              value="—"
+              subtitle={t("prThroughput.subtitle")}
+              icon={GitPullRequest}
+              accentColor="success"
+            />
+            <HeroMetricCard
+              title={t("teamVelocity.title")}
+              value="—"
+              subtitle={t("teamVelocity.subtitle")}
+              icon={Activity}
+              accentColor="info"
+            />
+            <HeroMetricCard
+              title={t("contributors.title")}
+              value="—"
+              subtitle={t("contributors.subtitle")}
+              icon={Users}
+              accentColor="warning"
+            />
+          </div>
         </div>
       );
     }
 
     const currentPrs = currentPrsResult.value;
     const currentCommits = currentCommitsResult.value;
-    const currentDeployments = currentDeploymentsResult.value;
+    const currentDeployments = DeploymentEvent.fromSources(
+      currentDeploymentsResult.value,
+    );
 
     // Calculate current period metrics
     const totalDeployments = currentDeployments.length;
-    const mergedPRs = currentPrs.filter((pr) => pr.state === "merged").length;
-    const mergeRate =
-      currentPrs.length > 0
-        ? Math.round((mergedPRs / currentPrs.length) * 100)
-        : 0;
+    const deploymentLevel =
+      DORAClassificationService.classifyDeploymentFrequency(
+        DORAClassificationService.toDeploymentsPerYear(
+          totalDeployments,
+          dateRange,
+        ),
+        totalDeployments,
+        benchmark,
+      );
+    const { merged: mergedPRs, mergeRate } = summarizePullRequests(
+      currentPrs,
+      dateRange,
+    );
     const totalActivity = currentCommits.length + currentPrs.length;
     const uniqueContributors = new Set([
       ...currentPrs.map((pr) => pr.author),
@@ -157,12 +247,15 @@ export async function HeroMetrics({
     ) {
       const previousPrs = previousPrsResult.value;
       const previousCommits = previousCommitsResult.value;
-      const previousDeployments = previousDeploymentsResult.value;
+      const previousDeployments = DeploymentEvent.fromSources(
+        previousDeploymentsResult.value,
+      );
 
       // Previous period calculations
-      const prevMergedPRs = previousPrs.filter(
-        (pr) => pr.state === "merged",
-      ).length;
+      const { merged: prevMergedPRs } = summarizePullRequests(
+        previousPrs,
+        previousPeriod,
+      );
       const prevActivity = previousCommits.length + previousPrs.length;
       const prevContributors = new Set([
         ...previousPrs.map((pr) => pr.author),
@@ -211,46 +304,57 @@ export async function HeroMetrics({
     }
 
     return (
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {/* Deployment Frequency */}
-        <HeroMetricCard
-          title={t("deployments.title")}
-          value={`${deploymentsPerWeek}/week`}
-          subtitle={`${totalDeployments} ${t("deployments.total")}`}
-          trend={deploymentTrend}
-          icon={Rocket}
-          accentColor="primary"
-        />
+      <div className="space-y-4">
+        {incompleteSections.length > 0 && (
+          <PartialResultNotice
+            sections={incompleteSections}
+            resumeAt={resumeAt.toISOString()}
+          />
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {/* Deployment Frequency */}
+          <HeroMetricCard
+            title={t("deployments.title")}
+            value={`${deploymentsPerWeek}/week`}
+            subtitle={`${totalDeployments} ${t("deployments.total")} · ${t(
+              "deployments.level",
+              { level: tDora(`levels.${deploymentLevel}`) },
+            )}`}
+            trend={deploymentTrend}
+            icon={Rocket}
+            accentColor="primary"
+          />
 
-        {/* PR Throughput */}
-        <HeroMetricCard
-          title={t("prThroughput.title")}
-          value={mergedPRs}
-          subtitle={`${mergeRate}% ${t("prThroughput.mergeRate")}`}
-          trend={prThroughputTrend}
-          icon={GitPullRequest}
-          accentColor="success"
-        />
+          {/* PR Throughput */}
+          <HeroMetricCard
+            title={t("prThroughput.title")}
+            value={mergedPRs}
+            subtitle={`${mergeRate}% ${t("prThroughput.mergeRate")}`}
+            trend={prThroughputTrend}
+            icon={GitPullRequest}
+            accentColor="success"
+          />
 
-        {/* Team Velocity */}
-        <HeroMetricCard
-          title={t("teamVelocity.title")}
-          value={`${activityPerWeek}/week`}
-          subtitle={`${totalActivity} ${t("teamVelocity.total")}`}
-          trend={velocityTrend}
-          icon={Activity}
-          accentColor="info"
-        />
+          {/* Team Velocity */}
+          <HeroMetricCard
+            title={t("teamVelocity.title")}
+            value={`${activityPerWeek}/week`}
+            subtitle={`${totalActivity} ${t("teamVelocity.total")}`}
+            trend={velocityTrend}
+            icon={Activity}
+            accentColor="info"
+          />
 
-        {/* Active Contributors */}
-        <HeroMetricCard
-          title={t("contributors.title")}
-          value={uniqueContributors}
-          subtitle={t("contributors.subtitle")}
-          trend={contributorsTrend}
-          icon={Users}
-          accentColor="warning"
-        />
+          {/* Active Contributors */}
+          <HeroMetricCard
+            title={t("contributors.title")}
+            value={uniqueContributors}
+            subtitle={t("contributors.subtitle")}
+            trend={contributorsTrend}
+            icon={Users}
+            accentColor="warning"
+          />
+        </div>
       </div>
     );
   } catch (error) {
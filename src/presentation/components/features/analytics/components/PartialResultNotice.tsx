@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { AlertTriangle, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { AnalysisSection } from "@/domain/types";
+import { resumeAnalysis } from "@/app/actions/resumeAnalysis";
+
+/**
+ * PartialResultNotice Component
+ *
+ * Purpose: Flag data cut short by the GitHub rate limit and offer a resume
+ *
+ * Features:
+ * - Lists the incomplete sections
+ * - Resume is enabled once the rate limit has reset
+ * - Resuming re-renders the page; the GitHub adapter continues from the
+ *   cursors it checkpointed instead of starting over
+ * - With `analysis`, the cached partial Team tab analysis is dropped first
+ *
+ * Usage:
+ * ```tsx
+ * <PartialResultNotice
+ *   sections={["review_comments"]}
+ *   resumeAt="2024-01-01T12:00:00Z"
+ *   analysis={{ repositoryId, start, end }}
+ * />
+ * ```
+ */
+
+interface PartialResultNoticeProps {
+  sections: AnalysisSection[];
+  resumeAt: string; // ISO 8601
+  analysis?: {
+    repositoryId: string;
+    start: string; // ISO 8601
+    end: string; // ISO 8601
+  };
+}
+
+export function PartialResultNotice({
+  sections,
+  resumeAt,
+  analysis,
+}: PartialResultNoticeProps) {
+  const t = useTranslations("analytics.partial");
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [now, setNow] = useState(() => Date.now());
+  const resumeAtMs = new Date(resumeAt).getTime();
+  const canResume = now >= resumeAtMs;
+
+  // Enable the resume button when the rate limit resets
+  useEffect(() => {
+    if (canResume) {
+      return;
+    }
+    const timer = setTimeout(() => setNow(Date.now()), resumeAtMs - now);
+    return () => clearTimeout(timer);
+  }, [canResume, resumeAtMs, now]);
+
+  const handleResume = () => {
+    startTransition(async () => {
+      if (analysis) {
+        await resumeAnalysis(
+          analysis.repositoryId,
+          analysis.start,
+          analysis.end,
+        );
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <div
+      role="status"
+      className="flex flex-col gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900 sm:flex-row sm:items-center sm:justify-between dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100"
+    >
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+        <div>
+          <p className="font-medium">{t("title")}</p>
+          <p>
+            {t("description", {
+              sections: sections
+                .map((section) => t(`sections.${section}`))
+                .join(", "),
+            })}
+          </p>
+          <p className="text-xs opacity-80">
+            {canResume
+              ? t("ready")
+              : t("resumeAt", {
+                  time: new Date(resumeAt).toLocaleTimeString(),
+                })}
+          </p>
+        </div>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleResume}
+        disabled={!canResume || isPending}
+      >
+        <RotateCw
+          className={`mr-2 h-4 w-4 ${isPending ? "animate-spin" : ""}`}
+        />
+        {t("resume")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+import Link from "next/link";
+import { getTranslations } from "next-intl/server";
+import { format } from "date-fns";
+import {
+  Activity,
+  Calendar,
+  GitPullRequest,
+  Layers,
+  Rocket,
+  Users,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { HeroMetricCard } from "./HeroMetricCard";
+import { PartialResultNotice } from "./PartialResultNotice";
+import { MetricCardError } from "../shared/MetricCardError";
+import { DeploymentFrequencyBarChart } from "../widgets/components/DeploymentFrequencyBarChart";
+import { PRTrendsChart } from "../widgets/components/PRTrendsChart";
+import { getCachedPortfolio } from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import type { DateRange } from "@/domain/value-objects/DateRange";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { AnalysisSection } from "@/domain/types";
+import { getCachedPortfolioDoraBenchmark } from "@/app/[locale]/(app)/analytics/_lib/dora-benchmark-fetcher";
+
+/**
+ * Contributors listed before the rest are summarized
+ */
+const MAX_CONTRIBUTORS = 25;
+
+/**
+ * PortfolioView Component
+ *
+ * Purpose: Analytics combined across a set of repositories
+ *
+ * Sections:
+ * 1. Hero metrics (deployment frequency, merged PRs, velocity, contributors)
+ * 2. Weekly merged PRs and deployments across all repositories
+ * 3. Per-repository breakdown (linking to each repository's dashboard)
+ * 4. Contributors matched across repositories
+ *
+ * Features:
+ * - Async Server Component
+ * - Repositories are fetched in parallel within the token's rate limit
+ *   budget (PortfolioService)
+ * - Repositories that fail are flagged in the breakdown; the rest still show
+ * - Shows partial data (with a resume notice) when the rate limit ran out
+ *
+ * Usage:
+ * ```tsx
+ * <Suspense fallback={<HeroMetricsSkeleton />}>
+ *   <PortfolioView repositoryIds={["acme/api", "acme/web"]} dateRange={dateRange} />
+ * </Suspense>
+ * ```
+ */
+
+interface PortfolioViewProps {
+  /**
+   * Repository identifiers ("owner/repo" or "host/owner/repo")
+   */
+  repositoryIds: string[];
+
+  /**
+   * Date range to combine
+   */
+  dateRange: DateRange;
+}
+
+export async function PortfolioView({
+  repositoryIds,
+  dateRange,
+}: PortfolioViewProps) {
+  const t = await getTranslations("analytics.portfolio");
+  const tHero = await getTranslations("analytics.heroMetrics");
+  const tDora = await getTranslations("analytics.widgets.doraMetrics");
+
+  const [result, benchmark] = await Promise.all([
+    getCachedPortfolio(repositoryIds.join(","), dateRange),
+    getCachedPortfolioDoraBenchmark(repositoryIds.join(",")),
+  ]);
+
+  if (!result.ok) {
+    return <MetricCardError icon={Layers} error={result.error.message} />;
+  }
+
+  const { totals, weeks, contributors, repositories, resumeAt } = result.value;
+  const deploymentLevel = DORAClassificationService.classifyDeploymentFrequency(
+    DORAClassificationService.toDeploymentsPerYear(
+      totals.deployments,
+      dateRange,
+    ),
+    totals.deployments,
+    benchmark,
+  );
+  const incompleteSections = Object.values(AnalysisSection).filter((section) =>
+    repositories.some((repository) =>
+      repository.incompleteSections.includes(section),
+    ),
+  );
+  const dateQuery = `start=${format(dateRange.start, "yyyy-MM-dd")}&end=${format(
+    dateRange.end,
+    "yyyy-MM-dd",
+  )}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          {t("title")}
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          {t("description", { count: repositories.length })}
+        </p>
+      </div>
+
+      {resumeAt && incompleteSections.length > 0 && (
+        <PartialResultNotice
+          sections={incompleteSections}
+          resumeAt={resumeAt}
+        />
+      )}
+
+      {/* Combined hero metrics */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <HeroMetricCard
+          title={tHero("deployments.title")}
+          value={`${totals.deploymentsPerWeek}/week`}
+          subtitle={`${totals.deployments} ${tHero("deployments.total")} · ${tHero(
+            "deployments.level",
+            { level: tDora(`levels.${deploymentLevel}`) },
+          )}`}
+          icon={Rocket}
+          accentColor="primary"
+        />
+        <HeroMetricCard
+          title={tHero("prThroughput.title")}
+          value={totals.mergedPullRequests}
+          subtitle={`${totals.mergeRate}% ${tHero("prThroughput.mergeRate")}`}
+          icon={GitPullRequest}
+          accentColor="success"
+        />
+        <HeroMetricCard
+          title={tHero("teamVelocity.title")}
+          value={`${totals.activityPerWeek}/week`}
+          subtitle={`${totals.activity} ${tHero("teamVelocity.total")}`}
+          icon={Activity}
+          accentColor="info"
+        />
+        <HeroMetricCard
+          title={tHero("contributors.title")}
+          value={totals.contributors}
+          subtitle={t("contributors.matched")}
+          icon={Users}
+          accentColor="warning"
+        />
+      </div>
+
+      {/* Throughput and deployment frequency */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitPullRequest className="h-5 w-5" />
+              {t("throughput.title")}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t("throughput.description")}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <PRTrendsChart
+              data={weeks.map((week) => ({
+                weekStart: week.weekStart,
+                prCount: week.mergedPullRequests,
+              }))}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                {t("deployments.title")}
+              </CardTitle>
+              <Badge variant="outline" className="text-sm">
+                {tDora("level", { level: tDora(`levels.${deploymentLevel}`) })}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t("deployments.description")}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <DeploymentFrequencyBarChart
+              data={weeks.map((week) => ({
+                weekStart: week.weekStart,
+                deploymentCount: week.deploymentCount,
+              }))}
+              aggregationLevel="weekly"
+              height={300}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per-repository breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("breakdown.title")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("breakdown.repository")}</TableHead>
+                <TableHead className="text-right">
+                  {t("breakdown.deployments")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("breakdown.mergedPullRequests")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("breakdown.mergeRate")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("breakdown.commits")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("breakdown.contributors")}
+                </TableHead>
+                <TableHead>{t("breakdown.status")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {repositories.map((repository) => (
+                <TableRow key={repository.repositoryId}>
+                  <TableCell className="font-medium">
+                    <Link
+                      href={`/analytics?repo=${encodeURIComponent(repository.repositoryId)}&${dateQuery}`}
+                      className="hover:underline"
+                    >
+                      {repository.repositoryId}
+                    </Link>
+                  </TableCell>
+                  {repository.error ? (
+                    <TableCell
+                      colSpan={5}
+                      className="text-sm text-muted-foreground"
+                    >
+                      {repository.error}
+                    </TableCell>
+                  ) : (
+                    <>
+                      <TableCell className="text-right">
+                        {repository.deployments} (
+                        {repository.deploymentsPerWeek}/week)
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {repository.mergedPullRequests}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {repository.mergeRate}%
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {repository.commits}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {repository.contributors}
+                      </TableCell>
+                    </>
+                  )}
+                  <TableCell>
+                    {repository.error ? (
+                      <Badge variant="destructive">
+                        {t("breakdown.failed")}
+                      </Badge>
+                    ) : repository.incompleteSections.length > 0 ? (
+                      <Badge variant="outline">{t("breakdown.partial")}</Badge>
+                    ) : (
+                      <Badge variant="secondary">
+                        {t("breakdown.complete")}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Contributors matched across repositories */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {t("contributors.title")}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {t("contributors.description")}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("contributors.name")}</TableHead>
+                <TableHead>{t("contributors.repositories")}</TableHead>
+                <TableHead className="text-right">
+                  {t("contributors.commits")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("contributors.pullRequests")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("contributors.lines")}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contributors.slice(0, MAX_CONTRIBUTORS).map((contributor) => (
+                <TableRow key={contributor.id}>
+                  <TableCell>
+                    <div className="font-medium">{contributor.displayName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {contributor.id}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {contributor.repositories.map((repositoryId) => (
+                        <Badge
+                          key={repositoryId}
+                          variant="outline"
+                          className="text-xs"
+                        >
+                          {repositoryId}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {contributor.commitCount}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {contributor.pullRequestCount}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <span className="text-green-600">
+                      +{contributor.linesAdded}
+                    </span>{" "}
+                    <span className="text-red-600">
+                      -{contributor.linesDeleted}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {contributors.length > MAX_CONTRIBUTORS && (
+            <p className="text-xs text-muted-foreground">
+              {t("contributors.more", {
+                count: contributors.length - MAX_CONTRIBUTORS,
+              })}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useTransition } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { UsersRound } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/**
+ * Select value of the unfiltered view (team ids are slugs, never empty)
+ */
+const ALL_TEAMS = "__all__";
+
+interface TeamFilterProps {
+  /**
+   * Teams of the repository's owner
+   */
+  teams: Array<{ id: string; name: string }>;
+
+  /**
+   * Id of the selected team (all contributors when omitted)
+   */
+  selected?: string;
+
+  /**
+   * Team management page of the repository's owner
+   */
+  manageHref: string;
+}
+
+/**
+ * TeamFilter Component
+ *
+ * Purpose: Restrict the Overview and Team tabs to one team
+ *
+ * Features:
+ * - Sets the `team` URL parameter, keeping repository, range and tab
+ * - Links to the team management page (to define the first team when
+ *   there is none)
+ */
+export function TeamFilter({ teams, selected, manageHref }: TeamFilterProps) {
+  const t = useTranslations("analytics.teams.filter");
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value === ALL_TEAMS) {
+      params.delete("team");
+    } else {
+      params.set("team", value);
+    }
+    startTransition(() => {
+      router.push(`?${params.toString()}`);
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <UsersRound className="h-4 w-4 text-muted-foreground" />
+      {teams.length > 0 && (
+        <Select
+          value={selected ?? ALL_TEAMS}
+          onValueChange={handleChange}
+          disabled={isPending}
+        >
+          <SelectTrigger className="w-[220px]" aria-label={t("label")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TEAMS}>{t("all")}</SelectItem>
+            {teams.map((team) => (
+              <SelectItem key={team.id} value={team.id}>
+                {team.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Link
+        href={manageHref}
+        className="text-sm text-muted-foreground hover:text-foreground hover:underline"
+      >
+        {teams.length > 0 ? t("manage") : t("define")}
+      </Link>
+    </div>
+  );
+}
@@ -6,11 +6,17 @@ export { HeroMetricCard } from "./components/HeroMetricCard";
 export { AnalyticsEmptyState } from "./components/AnalyticsEmptyState";
 export { AnalyticsRedirect } from "./components/AnalyticsRedirect";
 export { IdentityMerger } from "./components/IdentityMerger";
+export { AnalysisProgressPanel } from "./components/AnalysisProgressPanel";
+export { PartialResultNotice } from "./components/PartialResultNotice";
+export { PortfolioView } from "./components/PortfolioView";
+export { TeamFilter } from "./components/TeamFilter";
 
 // Tabs
 export { TeamTab } from "./tabs/TeamTab";
+export { TeamTabLoader } from "./tabs/TeamTabLoader";
 export { TeamTabHeader } from "./tabs/TeamTabHeader";
 export { OverviewTab } from "./tabs/OverviewTab";
+export { TeamsTab } from "./tabs/TeamsTab";
 
 // Shared
 export { MetricCardError } from "./shared/MetricCardError";
@@ -28,3 +34,5 @@ export * from "./widgets/DeploymentFrequencyWidget";
 // Widget components
 export { PRTrendsChart } from "./widgets/components/PRTrendsChart";
 export { DeploymentFrequencyBarChart } from "./widgets/components/DeploymentFrequencyBarChart";
+export { TeamActivityBarChart } from "./widgets/components/TeamActivityBarChart";
+export { TeamThroughputChart } from "./widgets/components/TeamThroughputChart";
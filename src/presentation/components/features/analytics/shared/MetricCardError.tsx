@@ -2,6 +2,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertCircle } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { useTranslations } from "next-intl";
+import {
+  MissingPermissionNotice,
+  type MissingPermissionNoticeProps,
+} from "./MissingPermissionNotice";
 
 /**
  * MetricCardError Component
@@ -13,6 +17,7 @@ import { useTranslations } from "next-intl";
  * - Maintains metric card layout and dimensions
  * - Non-blocking: other widgets continue loading
  * - Graceful degradation for failed widgets
+ * - Explains missing token permissions when capabilities are given
  *
  * Usage:
  * ```typescript
@@ -20,6 +25,13 @@ import { useTranslations } from "next-intl";
  * if (!result.ok) {
  *   return <MetricCardError icon={GitPullRequest} error={result.error.message} />;
  * }
+ *
+ * // With the permissions the widget needs
+ * <MetricCardError
+ *   icon={GitPullRequest}
+ *   error={result.error.message}
+ *   permissions={{ capabilities, permissions: WidgetPermissions.PR_TRENDS }}
+ * />
  * ```
  */
 
@@ -35,9 +47,19 @@ interface MetricCardErrorProps {
    * If not provided, shows default "Failed to load" message
    */
   error?: string;
+
+  /**
+   * Optional token capabilities and the permissions the widget needs
+   * Missing permissions are explained below the error message.
+   */
+  permissions?: MissingPermissionNoticeProps;
 }
 
-export function MetricCardError({ icon: Icon, error }: MetricCardErrorProps) {
+export function MetricCardError({
+  icon: Icon,
+  error,
+  permissions,
+}: MetricCardErrorProps) {
   const t = useTranslations("analytics.errors");
 
   return (
@@ -48,11 +70,12 @@ export function MetricCardError({ icon: Icon, error }: MetricCardErrorProps) {
         </CardTitle>
         <Icon className="h-4 w-4 text-destructive" />
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-3">
         <div className="flex items-center gap-2 text-sm text-destructive">
           <AlertCircle className="h-4 w-4" />
           <p className="text-xs">{error || t("failedToLoad")}</p>
         </div>
+        {permissions && <MissingPermissionNotice {...permissions} />}
       </CardContent>
     </Card>
   );
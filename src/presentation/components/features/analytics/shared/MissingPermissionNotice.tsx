@@ -0,0 +1,114 @@
+import { ShieldAlert } from "lucide-react";
+import { useTranslations } from "next-intl";
+import {
+  PermissionStatus,
+  RepositoryPermission,
+  TokenCapabilities,
+} from "@/domain/value-objects/TokenCapabilities";
+
+/**
+ * MissingPermissionNotice Component
+ *
+ * Purpose: Explain which permission a widget's token lacks and how to grant it
+ *
+ * Features:
+ * - Lists each missing permission with instructions for the token kind
+ *   (classic scope, fine-grained permission, OAuth app approval, GitHub App)
+ * - Links to the SSO authorization page when the organization requires it
+ * - Shows the permission GitHub asked for and the granted OAuth scopes
+ *
+ * Usage:
+ * ```tsx
+ * const capabilities = await getCachedTokenCapabilities(repositoryId);
+ * <MissingPermissionNotice
+ *   capabilities={capabilities}
+ *   permissions={WidgetPermissions.PR_TRENDS}
+ * />
+ * ```
+ */
+
+export interface MissingPermissionNoticeProps {
+  /**
+   * What the token can read in the repository
+   */
+  capabilities: TokenCapabilities;
+
+  /**
+   * Permissions the widget needs (see WidgetPermissions)
+   * Renders nothing when the token has all of them or they are unknown.
+   */
+  permissions: readonly RepositoryPermission[];
+}
+
+export function MissingPermissionNotice({
+  capabilities,
+  permissions,
+}: MissingPermissionNoticeProps) {
+  const t = useTranslations("analytics.permissions");
+  const missing = capabilities.missing(permissions);
+
+  if (missing.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100"
+    >
+      <div className="flex items-start gap-2">
+        <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+        <div className="space-y-2">
+          <p className="font-medium">{t("title")}</p>
+          <p>{t("description")}</p>
+          <ul className="space-y-2">
+            {missing.map((check) => {
+              const name = t(`names.${check.permission}`);
+              return (
+                <li key={check.permission}>
+                  <p className="font-medium">{name}</p>
+                  {check.status === PermissionStatus.SSO_REQUIRED ? (
+                    <p>
+                      {t("ssoRequired")}{" "}
+                      {check.ssoUrl && (
+                        <a
+                          href={check.ssoUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline"
+                        >
+                          {t("authorizeSso")}
+                        </a>
+                      )}
+                    </p>
+                  ) : (
+                    <p>
+                      {t(`howToGrant.${capabilities.kind}`, {
+                        permission: name,
+                      })}
+                    </p>
+                  )}
+                  {check.requiredGrant && (
+                    <p className="opacity-80">
+                      {t("requiredGrant", { grant: check.requiredGrant })}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {capabilities.scopes && (
+            <p className="opacity-80">
+              {t("scopes", {
+                scopes:
+                  capabilities.scopes.length > 0
+                    ? capabilities.scopes.join(", ")
+                    : t("noScopes"),
+              })}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { RepositoryPermission } from "@/domain/value-objects/TokenCapabilities";
+
+const { CONTENTS, PULL_REQUESTS, DEPLOYMENTS } = RepositoryPermission;
+
+/**
+ * Repository permissions each analytics widget reads
+ *
+ * Widgets compare these against the token's capabilities to explain
+ * failures and data sources that were skipped (e.g. releases and tags
+ * without contents access).
+ */
+export const WidgetPermissions = {
+  HERO_METRICS: [DEPLOYMENTS, CONTENTS, PULL_REQUESTS],
+  PR_TRENDS: [PULL_REQUESTS],
+  CYCLE_TIME: [PULL_REQUESTS],
+  DEPLOYMENT_FREQUENCY: [DEPLOYMENTS, CONTENTS],
+  DORA_METRICS: [DEPLOYMENTS, CONTENTS, PULL_REQUESTS],
+  TIME_TO_RESTORE: [DEPLOYMENTS],
+  TEAM: [CONTENTS, PULL_REQUESTS],
+} as const satisfies Record<string, readonly RepositoryPermission[]>;
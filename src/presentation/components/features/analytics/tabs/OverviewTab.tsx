@@ -4,6 +4,8 @@ import { SkeletonChart } from "@/presentation/components/shared/SkeletonChart";
 import { PRTrendsWidget } from "@/presentation/components/features/analytics/widgets/PRTrendsWidget";
 import { DORAMetricsWidget } from "@/presentation/components/features/analytics/widgets/DORAMetricsWidget";
 import { DeploymentFrequencyWidget } from "@/presentation/components/features/analytics/widgets/DeploymentFrequencyWidget";
+import { CycleTimeWidget } from "@/presentation/components/features/analytics/widgets/CycleTimeWidget";
+import { TimeToRestoreWidget } from "@/presentation/components/features/analytics/widgets/TimeToRestoreWidget";
 
 /**
  * OverviewTab Component
@@ -12,12 +14,15 @@ import { DeploymentFrequencyWidget } from "@/presentation/components/features/an
  *
  * Content:
  * - Row 1: PR Activity Trends (with code changes analysis) and DORA Metrics
- * - Row 2: Deployment Frequency (full width)
+ * - Row 2: PR Cycle Time breakdown (full width)
+ * - Row 3: Time to Restore (full width)
+ * - Row 4: Deployment Frequency (full width)
  *
  * Architecture:
  * - Server Component
  * - Each widget wrapped in individual Suspense boundary
  * - Progressive loading
+ * - Widgets are scoped to the selected team, if any
  *
  * Usage:
  * ```tsx
@@ -30,9 +35,15 @@ import { DeploymentFrequencyWidget } from "@/presentation/components/features/an
 interface OverviewTabProps {
   repositoryId: string;
   dateRange: DateRange;
+  /** Team id (whole repository when omitted) */
+  team?: string;
 }
 
-export function OverviewTab({ repositoryId, dateRange }: OverviewTabProps) {
+export function OverviewTab({
+  repositoryId,
+  dateRange,
+  team,
+}: OverviewTabProps) {
   return (
     <div className="space-y-6">
       {/* Row 1: Main Analytics (2 columns) */}
@@ -40,7 +51,11 @@ export function OverviewTab({ repositoryId, dateRange }: OverviewTabProps) {
         {/* Left column - 2/3 width */}
         <div className="lg:col-span-2">
           <Suspense fallback={<SkeletonChart height="h-96" />}>
-            <PRTrendsWidget repositoryId={repositoryId} dateRange={dateRange} />
+            <PRTrendsWidget
+              repositoryId={repositoryId}
+              dateRange={dateRange}
+              team={team}
+            />
           </Suspense>
         </div>
 
@@ -50,16 +65,36 @@ export function OverviewTab({ repositoryId, dateRange }: OverviewTabProps) {
             <DORAMetricsWidget
               repositoryId={repositoryId}
               dateRange={dateRange}
+              team={team}
             />
           </Suspense>
         </div>
       </div>
 
-      {/* Row 2: Deployment Frequency (full width) */}
+      {/* Row 2: PR Cycle Time (full width) */}
+      <Suspense fallback={<SkeletonChart height="h-96" />}>
+        <CycleTimeWidget
+          repositoryId={repositoryId}
+          dateRange={dateRange}
+          team={team}
+        />
+      </Suspense>
+
+      {/* Row 3: Time to Restore (full width) */}
+      <Suspense fallback={<SkeletonChart height="h-96" />}>
+        <TimeToRestoreWidget
+          repositoryId={repositoryId}
+          dateRange={dateRange}
+          team={team}
+        />
+      </Suspense>
+
+      {/* Row 4: Deployment Frequency (full width) */}
       <Suspense fallback={<SkeletonChart height="h-96" />}>
         <DeploymentFrequencyWidget
           repositoryId={repositoryId}
           dateRange={dateRange}
+          team={team}
         />
       </Suspense>
     </div>
@@ -1,6 +1,8 @@
 import type { DateRange } from "@/domain/value-objects/DateRange";
 import { getTranslations } from "next-intl/server";
 import { getCachedContributors } from "@/app/[locale]/(app)/analytics/_lib/contributor-fetcher";
+import { getCachedTokenCapabilities } from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import { getRepositoryWebUrl } from "@/infrastructure/hostConfig";
 import {
   ContributorList,
   ImplementationActivityChart,
@@ -14,6 +16,9 @@ import {
 } from "@/components/ui/card";
 import { Users, AlertCircle } from "lucide-react";
 import { TeamTabHeader } from "./TeamTabHeader";
+import { PartialResultNotice } from "../components/PartialResultNotice";
+import { MissingPermissionNotice } from "../shared/MissingPermissionNotice";
+import { WidgetPermissions } from "../shared/widgetPermissions";
 
 /**
  * TeamTab Component
@@ -24,6 +29,9 @@ import { TeamTabHeader } from "./TeamTabHeader";
  * - Implementation activity chart (commits, lines changed)
  * - Review activity breakdown
  * - Detailed contributor table with rankings and metrics
+ * - Notice with a resume button when the rate limit cut the analysis short
+ * - Explanation of missing token permissions when the analysis fails
+ * - Lists only the members of the selected team, if any
  *
  * Architecture:
  * - Server Component
@@ -41,16 +49,18 @@ import { TeamTabHeader } from "./TeamTabHeader";
 interface TeamTabProps {
   repositoryId: string;
   dateRange: DateRange;
+  /** Team id (all contributors when omitted) */
+  team?: string;
 }
 
-export async function TeamTab({ repositoryId, dateRange }: TeamTabProps) {
+export async function TeamTab({ repositoryId, dateRange, team }: TeamTabProps) {
   const t = await getTranslations("analytics.team");
 
   // Fetch contributor data
-  const result = await getCachedContributors(repositoryId, dateRange);
+  const result = await getCachedContributors(repositoryId, dateRange, team);
 
-  // Construct repository URL from repositoryId (owner/repo)
-  const repositoryUrl = `https://github.com/${repositoryId}`;
+  // Construct repository URL from repositoryId (owner/repo or host/owner/repo)
+  const repositoryUrl = getRepositoryWebUrl(repositoryId);
 
   // Handle error
   if (!result.ok) {
@@ -63,41 +73,63 @@ export async function TeamTab({ repositoryId, dateRange }: TeamTabProps) {
           </CardTitle>
           <CardDescription>{t("error.description")}</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="text-sm text-muted-foreground p-4 bg-muted rounded-lg">
             {result.error.message}
           </div>
+          <MissingPermissionNotice
+            capabilities={await getCachedTokenCapabilities(repositoryId)}
+            permissions={WidgetPermissions.TEAM}
+          />
         </CardContent>
       </Card>
     );
   }
 
-  const contributors = result.value;
+  const { contributors, incomplete } = result.value;
+  const partialNotice = incomplete && (
+    <PartialResultNotice
+      sections={incomplete.sections}
+      resumeAt={incomplete.resumeAt}
+      analysis={{
+        repositoryId,
+        start: dateRange.start.toISOString(),
+        end: dateRange.end.toISOString(),
+      }}
+    />
+  );
 
   // Handle empty state
   if (contributors.length === 0) {
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Users className="h-5 w-5" />
-            {t("title")}
-          </CardTitle>
-          <CardDescription>{t("description")}</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-12 text-muted-foreground">
-            <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
-            <p className="text-lg font-medium mb-2">{t("emptyState.title")}</p>
-            <p className="text-sm">{t("emptyState.description")}</p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-6">
+        {partialNotice}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              {t("title")}
+            </CardTitle>
+            <CardDescription>{t("description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center py-12 text-muted-foreground">
+              <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p className="text-lg font-medium mb-2">
+                {t("emptyState.title")}
+              </p>
+              <p className="text-sm">{t("emptyState.description")}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   return (
     <div className="space-y-6">
+      {partialNotice}
+
       {/* Header with Identity Merger */}
       <TeamTabHeader
         repositoryUrl={repositoryUrl}
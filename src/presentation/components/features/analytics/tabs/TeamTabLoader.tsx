@@ -0,0 +1,49 @@
+import type { DateRange } from "@/domain/value-objects/DateRange";
+import { hasCachedContributors } from "@/app/[locale]/(app)/analytics/_lib/contributor-fetcher";
+import { AnalysisProgressPanel } from "../components/AnalysisProgressPanel";
+import { TeamTab } from "./TeamTab";
+
+/**
+ * TeamTabLoader Component
+ *
+ * Purpose: Choose between the Team tab and a live analysis progress panel
+ *
+ * Behavior:
+ * - Cached analysis: renders TeamTab directly
+ * - Otherwise: renders AnalysisProgressPanel, which streams the analysis
+ *   and refreshes the page once its result is cached
+ *
+ * Usage:
+ * ```tsx
+ * <Suspense fallback={<TeamTabSkeleton />}>
+ *   <TeamTabLoader repositoryId={repositoryId} dateRange={dateRange} />
+ * </Suspense>
+ * ```
+ */
+
+interface TeamTabLoaderProps {
+  repositoryId: string;
+  dateRange: DateRange;
+  /** Team id (all contributors when omitted) */
+  team?: string;
+}
+
+export async function TeamTabLoader({
+  repositoryId,
+  dateRange,
+  team,
+}: TeamTabLoaderProps) {
+  if (!(await hasCachedContributors(repositoryId, dateRange))) {
+    return (
+      <AnalysisProgressPanel
+        repositoryId={repositoryId}
+        start={dateRange.start.toISOString()}
+        end={dateRange.end.toISOString()}
+      />
+    );
+  }
+
+  return (
+    <TeamTab repositoryId={repositoryId} dateRange={dateRange} team={team} />
+  );
+}
@@ -0,0 +1,207 @@
+import Link from "next/link";
+import { getTranslations } from "next-intl/server";
+import { format } from "date-fns";
+import { BarChart3, GitPullRequest, UsersRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MetricCardError } from "../shared/MetricCardError";
+import { TeamActivityBarChart } from "../widgets/components/TeamActivityBarChart";
+import { TeamThroughputChart } from "../widgets/components/TeamThroughputChart";
+import { getCachedTeamComparison } from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import type { DateRange } from "@/domain/value-objects/DateRange";
+
+/**
+ * TeamsTab Component
+ *
+ * Purpose: Compare the teams of the repository's owner side by side
+ *
+ * Content:
+ * - Activity per team (merged PRs, commits, reviews, deployments)
+ * - Weekly merged PRs per team
+ * - Table with members, time to merge and deployment level, linking each
+ *   team to the Overview scoped to it
+ *
+ * Architecture:
+ * - Server Component
+ * - Reuses the repository-wide fetches of the Overview tab and scopes
+ *   them per team (CompareTeams)
+ *
+ * Usage:
+ * ```tsx
+ * {activeTab === 'teams' && (
+ *   <TeamsTab repositoryId={repositoryId} dateRange={dateRange} manageHref="/org/acme/teams" />
+ * )}
+ * ```
+ */
+
+interface TeamsTabProps {
+  repositoryId: string;
+  dateRange: DateRange;
+  /** Team management page of the repository's owner */
+  manageHref: string;
+}
+
+export async function TeamsTab({
+  repositoryId,
+  dateRange,
+  manageHref,
+}: TeamsTabProps) {
+  const t = await getTranslations("analytics.teams");
+  const tDora = await getTranslations("analytics.widgets.doraMetrics");
+  const result = await getCachedTeamComparison(repositoryId, dateRange);
+
+  if (!result.ok) {
+    return <MetricCardError icon={UsersRound} error={result.error.message} />;
+  }
+
+  const { teams, weeks } = result.value;
+  const manageButton = (
+    <Button variant="outline" size="sm" asChild>
+      <Link href={manageHref}>{t("manage")}</Link>
+    </Button>
+  );
+
+  if (teams.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UsersRound className="h-5 w-5" />
+            {t("title")}
+          </CardTitle>
+          <CardDescription>{t("description")}</CardDescription>
+        </CardHeader>
+        <CardContent className="text-center py-12 space-y-4">
+          <p className="text-muted-foreground">{t("empty")}</p>
+          {manageButton}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const dateQuery = `start=${format(dateRange.start, "yyyy-MM-dd")}&end=${format(
+    dateRange.end,
+    "yyyy-MM-dd",
+  )}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <UsersRound className="h-5 w-5" />
+            {t("title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t("description")}</p>
+        </div>
+        {manageButton}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              {t("activity.title")}
+            </CardTitle>
+            <CardDescription>{t("activity.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TeamActivityBarChart teams={teams} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitPullRequest className="h-5 w-5" />
+              {t("throughput.title")}
+            </CardTitle>
+            <CardDescription>{t("throughput.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TeamThroughputChart teams={teams} weeks={weeks} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("columns.team")}</TableHead>
+                <TableHead className="text-right">
+                  {t("columns.members")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("columns.mergedPullRequests")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("columns.timeToMerge")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("columns.commits")}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t("columns.reviews")}
+                </TableHead>
+                <TableHead>{t("columns.deployments")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.map((team) => (
+                <TableRow key={team.teamId}>
+                  <TableCell className="font-medium">
+                    <Link
+                      href={`/analytics?repo=${encodeURIComponent(repositoryId)}&${dateQuery}&team=${encodeURIComponent(team.teamId)}`}
+                      className="hover:underline"
+                    >
+                      {team.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {t("activeMembers", {
+                      active: team.activeMembers,
+                      count: team.memberCount,
+                    })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {team.mergedPullRequests}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {team.medianHoursToMerge === null
+                      ? "-"
+                      : t("hours", { value: team.medianHoursToMerge })}
+                  </TableCell>
+                  <TableCell className="text-right">{team.commits}</TableCell>
+                  <TableCell className="text-right">{team.reviews}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <span className="mr-2">{team.deployments}</span>
+                    <Badge variant="outline">
+                      {tDora(`levels.${team.deploymentLevel}`)}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { getTranslations } from "next-intl/server";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Timer } from "lucide-react";
+import { MetricCardError } from "../shared/MetricCardError";
+import { WidgetPermissions } from "../shared/widgetPermissions";
+import {
+  getCachedPRs,
+  getCachedTokenCapabilities,
+} from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import type { DateRange } from "@/domain/value-objects/DateRange";
+import { getRepositoryWebUrl } from "@/infrastructure/hostConfig";
+import { CalculateCycleTime } from "@/application/use-cases/CalculateCycleTime";
+import { EmptyState } from "./components";
+import { CycleTimeTrendChart } from "./components/CycleTimeTrendChart";
+
+/**
+ * CycleTimeWidget Component
+ *
+ * Purpose: Break merged PRs down into coding, pickup, review and merge phases
+ *
+ * Features:
+ * - Async Server Component (fetches data independently)
+ * - Scoped to a team when one is selected (see data-fetchers)
+ * - Median and 85th percentile per phase
+ * - Weekly median trend per phase
+ * - Error handling without breaking page
+ *
+ * Data Flow:
+ * 1. Fetches PRs from GitHub API (cached, shared with PRTrendsWidget)
+ * 2. Calculates phase durations with CalculateCycleTime use case
+ * 3. Renders phase summary and CycleTimeTrendChart
+ * 4. Fails gracefully with MetricCardError
+ *
+ * Usage:
+ * ```typescript
+ * <Suspense fallback={<SkeletonChart height="h-96" />}>
+ *   <CycleTimeWidget repositoryId="owner/repo" dateRange={dateRange} />
+ * </Suspense>
+ * ```
+ */
+
+interface CycleTimeWidgetProps {
+  /**
+   * Repository identifier in "owner/repo" format
+   */
+  repositoryId: string;
+
+  /**
+   * Date range for filtering PRs
+   */
+  dateRange: DateRange;
+
+  /**
+   * Team id to restrict the widget to PRs authored by its members
+   * (whole repository when omitted)
+   */
+  team?: string;
+}
+
+export async function CycleTimeWidget({
+  repositoryId,
+  dateRange,
+  team,
+}: CycleTimeWidgetProps) {
+  const t = await getTranslations("analytics.widgets.cycleTime");
+
+  /**
+   * Format a duration as hours below two days, days otherwise
+   */
+  const formatDuration = (hours: number | null): string => {
+    if (hours === null) {
+      return t("notAvailable");
+    }
+    return hours < 48
+      ? t("hours", { value: hours.toFixed(1) })
+      : t("days", { value: (hours / 24).toFixed(1) });
+  };
+
+  try {
+    // Fetch PRs from cached data fetcher (prevents duplicate API calls)
+    const result = await getCachedPRs(
+      repositoryId,
+      dateRange,
+      CalculateCycleTime.dateSemantics,
+      team,
+    );
+
+    // Handle API errors, explaining missing token permissions
+    if (!result.ok) {
+      return (
+        <MetricCardError
+          icon={Timer}
+          error={result.error.message}
+          permissions={{
+            capabilities: await getCachedTokenCapabilities(repositoryId),
+            permissions: WidgetPermissions.CYCLE_TIME,
+          }}
+        />
+      );
+    }
+
+    const calculateCycleTime = new CalculateCycleTime();
+    const cycleTime = calculateCycleTime.execute(result.value);
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            {t("title")}
+          </CardTitle>
+          <CardDescription>{t("description")}</CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {cycleTime.totalMergedPRs === 0 ? (
+            <EmptyState
+              repositoryUrl={getRepositoryWebUrl(repositoryId)}
+              dateRange={{
+                start: dateRange.start.toISOString(),
+                end: dateRange.end.toISOString(),
+              }}
+              message={t("emptyState")}
+            />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {cycleTime.phases.map((stats) => (
+                  <div key={stats.phase} className="rounded-lg border p-4">
+                    <p className="text-sm font-medium">
+                      {t(`phases.${stats.phase}`)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t(`phaseDescriptions.${stats.phase}`)}
+                    </p>
+                    <p className="mt-2 text-2xl font-bold">
+                      {formatDuration(stats.medianHours)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("median")} · {t("p85")}{" "}
+                      {formatDuration(stats.p85Hours)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("sampleSize", { count: stats.sampleSize })}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="w-full overflow-x-auto">
+                <div className="min-w-[600px]">
+                  <CycleTimeTrendChart weeklyData={cycleTime.weeklyData} />
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  } catch (error) {
+    // Handle unexpected errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return <MetricCardError icon={Timer} error={errorMessage} />;
+  }
+}
@@ -2,34 +2,63 @@ import { getTranslations } from "next-intl/server";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Gauge } from "lucide-react";
 import { MetricCardError } from "../shared/MetricCardError";
-import { getCachedDeployments } from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import { MissingPermissionNotice } from "../shared/MissingPermissionNotice";
+import { WidgetPermissions } from "../shared/widgetPermissions";
+import {
+  getCachedCommits,
+  getCachedDeploymentSources,
+  getCachedPRs,
+  getCachedTokenCapabilities,
+} from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
 import type { DateRange } from "@/domain/value-objects/DateRange";
+import { DORALevel } from "@/domain/value-objects/DORABenchmark";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { CalculateLeadTimeForChanges } from "@/application/use-cases/CalculateLeadTimeForChanges";
+import type { LeadTimeResult } from "@/application/dto/LeadTimeResult";
+import { CalculateChangeFailureRate } from "@/application/use-cases/CalculateChangeFailureRate";
+import type { ChangeFailureResult } from "@/application/dto/ChangeFailureResult";
+import { ChangeFailureRules } from "@/domain/value-objects/ChangeFailureRules";
+import { getCachedChangeFailureRules } from "@/app/[locale]/(app)/analytics/_lib/change-failure-rules-fetcher";
+import { getCachedDoraBenchmark } from "@/app/[locale]/(app)/analytics/_lib/dora-benchmark-fetcher";
 import { Badge } from "@/components/ui/badge";
+import { LeadTimeDistributionChart } from "./components/LeadTimeDistributionChart";
+import { ChangeFailureRulesDialog } from "./components/ChangeFailureRulesDialog";
+
+/**
+ * Maximum number of failed deployments listed in the widget
+ */
+const MAX_LISTED_FAILURES = 5;
 
 /**
  * DORAMetricsWidget Component
  *
- * Purpose: Display DORA deployment frequency metrics
+ * Purpose: Display DORA deployment frequency, lead time for changes and
+ * change failure rate
  *
  * Features:
  * - Async Server Component (fetches data independently)
+ * - Scoped to a team when one is selected (see data-fetchers)
  * - Shows DORA deployment frequency level
- * - Displays deployment count and frequency
+ * - Displays deployment count (deduplicated releases, deployments and tags)
+ * - Shows lead time for changes (median, p85) with a distribution chart
+ * - Shows change failure rate with the most recent failed deployments and
+ *   per-repository failure rules
  * - Color-coded badges for performance levels
  * - Error handling without breaking page
  *
  * DORA Levels:
- * - Elite: Multiple deploys per day
- * - High: Once per day to once per week
- * - Medium: Once per week to once per month
- * - Low: Once per month to once every 6 months
+ * - Classified by DORAClassificationService against the benchmark
+ *   edition selected for the repository's owner (Teams page)
  *
  * Data Flow:
- * 1. Fetches deployments from GitHub API (cached)
- * 2. Calculates deployment frequency
- * 3. Determines DORA level
+ * 1. Fetches deployments, releases, tags, commits and PRs from GitHub API (cached)
+ * 2. Calculates deployment frequency, lead time and change failure rate
+ * 3. Determines DORA levels against the selected benchmark
  * 4. Renders immediately when data available
- * 5. Fails gracefully with MetricCardError
+ * 5. Fails gracefully with MetricCardError (lead time is omitted if
+ *    commits cannot be fetched, revert/hotfix rules are skipped for
+ *    sources that fail)
  *
  * Usage:
  * ```typescript
@@ -49,76 +78,26 @@ interface DORAMetricsWidgetProps {
    * Date range for filtering deployments
    */
   dateRange: DateRange;
-}
-
-type DORALevel = "Elite" | "High" | "Medium" | "Low";
-
-interface DORAMetrics {
-  level: DORALevel;
-  deploymentCount: number;
-  deploymentsPerDay: number;
-  description: string;
-}
-
-/**
- * Calculate DORA deployment frequency metrics
- */
-function calculateDORAMetrics(
-  deployments: Array<{ timestamp: Date }>,
-  dateRange: DateRange,
-): DORAMetrics {
-  const deploymentCount = deployments.length;
-
-  // Calculate days in range
-  const startTime = dateRange.start.getTime();
-  const endTime = dateRange.end.getTime();
-  const daysInRange = Math.max(
-    1,
-    (endTime - startTime) / (1000 * 60 * 60 * 24),
-  );
-
-  // Calculate deployments per day
-  const deploymentsPerDay = deploymentCount / daysInRange;
-
-  // Determine DORA level based on frequency
-  let level: DORALevel;
-  let description: string;
-
-  if (deploymentsPerDay >= 1) {
-    level = "Elite";
-    description = "Multiple deploys per day";
-  } else if (deploymentsPerDay >= 1 / 7) {
-    level = "High";
-    description = "Once per day to once per week";
-  } else if (deploymentsPerDay >= 1 / 30) {
-    level = "Medium";
-    description = "Once per week to once per month";
-  } else {
-    level = "Low";
-    description = "Less than once per month";
-  }
 
-  return {
-    level,
-    deploymentCount,
-    deploymentsPerDay,
-    description,
-  };
+  /**
+   * Team id to restrict the widget to its members' PRs and commits and the deployments that shipped them
+   * (whole repository when omitted)
+   */
+  team?: string;
 }
 
 /**
- * Get badge variant for DORA level
+ * Get badge variant for a DORA level
  */
-function getBadgeVariant(
+function getLevelBadgeVariant(
   level: DORALevel,
 ): "default" | "secondary" | "outline" {
   switch (level) {
-    case "Elite":
+    case DORALevel.ELITE:
       return "default";
-    case "High":
+    case DORALevel.HIGH:
       return "secondary";
-    case "Medium":
-    case "Low":
+    default:
       return "outline";
   }
 }
@@ -126,27 +105,91 @@ function getBadgeVariant(
 export async function DORAMetricsWidget({
   repositoryId,
   dateRange,
+  team,
 }: DORAMetricsWidgetProps) {
   const t = await getTranslations("analytics.widgets.doraMetrics");
 
+  /**
+   * Format a duration as hours below two days, days otherwise
+   */
+  const formatDuration = (hours: number): string =>
+    hours < 48
+      ? t("hours", { value: hours.toFixed(1) })
+      : t("days", { value: (hours / 24).toFixed(1) });
+
   try {
-    // Fetch deployments from cached data fetcher (prevents duplicate API calls)
-    const result = await getCachedDeployments(repositoryId, dateRange);
+    // Fetch from cached data fetchers (prevents duplicate API calls)
+    const [
+      sourcesResult,
+      commitsResult,
+      prsResult,
+      rulesResult,
+      benchmark,
+      capabilities,
+    ] = await Promise.all([
+      getCachedDeploymentSources(repositoryId, dateRange, team),
+      getCachedCommits(repositoryId, dateRange, team),
+      getCachedPRs(
+        repositoryId,
+        dateRange,
+        CalculateChangeFailureRate.dateSemantics,
+        team,
+      ),
+      getCachedChangeFailureRules(repositoryId),
+      getCachedDoraBenchmark(repositoryId),
+      getCachedTokenCapabilities(repositoryId),
+    ]);
 
-    // Handle API errors
-    if (!result.ok) {
-      return <MetricCardError icon={Gauge} error={result.error.message} />;
+    // Handle API errors, explaining missing token permissions
+    if (!sourcesResult.ok) {
+      return (
+        <MetricCardError
+          icon={Gauge}
+          error={sourcesResult.error.message}
+          permissions={{
+            capabilities,
+            permissions: WidgetPermissions.DORA_METRICS,
+          }}
+        />
+      );
     }
 
-    const deployments = result.value;
+    const sources = sourcesResult.value;
 
-    // Transform deployments to match expected format (timestamp: Date)
-    const deploymentsWithTimestamp = deployments.map((d) => ({
-      timestamp: new Date(d.createdAt),
-    }));
+    // Calculate deployment frequency
+    const deploymentCount = DeploymentEvent.fromSources(sources).length;
+    const deploymentsPerYear = DORAClassificationService.toDeploymentsPerYear(
+      deploymentCount,
+      dateRange,
+    );
+    const deploymentLevel =
+      DORAClassificationService.classifyDeploymentFrequency(
+        deploymentsPerYear,
+        deploymentCount,
+        benchmark,
+      );
+    const deploymentsPerDay = deploymentsPerYear / 365;
+
+    // Calculate lead time
+    const leadTime: LeadTimeResult | null = commitsResult.ok
+      ? new CalculateLeadTimeForChanges().execute(
+          commitsResult.value,
+          sources,
+          benchmark,
+        )
+      : null;
 
-    // Calculate DORA metrics
-    const metrics = calculateDORAMetrics(deploymentsWithTimestamp, dateRange);
+    // Calculate change failure rate (unreadable stored rules fall back to defaults)
+    const rules =
+      (rulesResult.ok && rulesResult.value) || ChangeFailureRules.defaults();
+    const changeFailure: ChangeFailureResult =
+      new CalculateChangeFailureRate().execute(
+        sources,
+        commitsResult.ok ? commitsResult.value : [],
+        prsResult.ok ? prsResult.value : [],
+        rules,
+        benchmark,
+      );
 
     return (
       <Card>
@@ -158,42 +201,163 @@ export async function DORAMetricsWidget({
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            {/* Data skipped for missing permissions (releases, tags, commits, PRs) */}
+            <MissingPermissionNotice
+              capabilities={capabilities}
+              permissions={WidgetPermissions.DORA_METRICS}
+            />
+
             {/* DORA Level Badge */}
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">
                 {t("deploymentFrequency")}
               </span>
               <Badge
-                variant={getBadgeVariant(metrics.level)}
+                variant={getLevelBadgeVariant(deploymentLevel)}
                 className="text-sm"
               >
-                {t("level", { level: metrics.level })}
+                {t("level", { level: t(`levels.${deploymentLevel}`) })}
               </Badge>
             </div>
 
             {/* Deployment Count */}
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">
-                {t("totalDeployments", { count: metrics.deploymentCount })}
-              </span>
-              <span className="text-2xl font-bold">
-                {metrics.deploymentCount}
+                {t("totalDeployments", { count: deploymentCount })}
               </span>
-            </div>
-
-            {/* Frequency Description */}
-            <div className="text-sm text-muted-foreground pt-2 border-t">
-              {metrics.description}
+              <span className="text-2xl font-bold">{deploymentCount}</span>
             </div>
 
             {/* Deployments per day (if useful) */}
-            {metrics.deploymentsPerDay < 1 && (
+            {deploymentsPerDay < 1 && (
               <div className="text-xs text-muted-foreground">
                 {t("frequency", {
-                  frequency: metrics.deploymentsPerDay.toFixed(2),
+                  frequency: deploymentsPerDay.toFixed(2),
                 })}
               </div>
             )}
+
+            {/* Benchmark Edition */}
+            <div className="text-xs text-muted-foreground pt-2 border-t">
+              {t("benchmark", { edition: benchmark.edition })}
+            </div>
+
+            {/* Lead Time for Changes */}
+            <div className="space-y-2 pt-4 border-t">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {t("leadTime")}
+                </span>
+                {leadTime && (
+                  <Badge
+                    variant={getLevelBadgeVariant(leadTime.level)}
+                    className="text-sm"
+                  >
+                    {t("level", { level: t(`levels.${leadTime.level}`) })}
+                  </Badge>
+                )}
+              </div>
+
+              {!leadTime ? (
+                <div className="text-xs text-muted-foreground">
+                  {t("leadTimeUnavailable")}
+                </div>
+              ) : leadTime.medianHours === null ||
+                leadTime.p85Hours === null ? (
+                <div className="text-xs text-muted-foreground">
+                  {t("leadTimeEmptyState")}
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-2xl font-bold">
+                      {formatDuration(leadTime.medianHours)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {t("leadTimeP85", {
+                        value: formatDuration(leadTime.p85Hours),
+                      })}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {t("deployedCommits", {
+                      deployed: leadTime.deployedCommits,
+                      total:
+                        leadTime.deployedCommits + leadTime.undeployedCommits,
+                    })}
+                  </div>
+                  <LeadTimeDistributionChart
+                    distribution={leadTime.distribution}
+                  />
+                </>
+              )}
+            </div>
+
+            {/* Change Failure Rate */}
+            <div className="space-y-2 pt-4 border-t">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                  {t("changeFailureRate")}
+                  <ChangeFailureRulesDialog
+                    repositoryId={repositoryId}
+                    rules={rules.toProps()}
+                  />
+                </span>
+                <Badge
+                  variant={getLevelBadgeVariant(changeFailure.level)}
+                  className="text-sm"
+                >
+                  {t("level", { level: t(`levels.${changeFailure.level}`) })}
+                </Badge>
+              </div>
+
+              {changeFailure.failureRate === null ? (
+                <div className="text-xs text-muted-foreground">
+                  {t("changeFailureEmptyState")}
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-2xl font-bold">
+                      {t("percentage", {
+                        value: changeFailure.failureRate.toFixed(1),
+                      })}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {t("failedDeployments", {
+                        failed: changeFailure.failedDeployments.length,
+                        total: changeFailure.totalDeployments,
+                      })}
+                    </span>
+                  </div>
+                  {changeFailure.failedDeployments.length > 0 && (
+                    <ul className="space-y-1 text-xs">
+                      {changeFailure.failedDeployments
+                        .slice(0, MAX_LISTED_FAILURES)
+                        .map((failure) => (
+                          <li
+                            key={`${failure.displayName}-${failure.timestamp}`}
+                          >
+                            <span className="font-medium">
+                              {failure.displayName}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {" — "}
+                              {failure.signals
+                                .map((signal) =>
+                                  t(`failureReasons.${signal.reason}`, {
+                                    detail: signal.detail,
+                                  }),
+                                )
+                                .join("; ")}
+                            </span>
+                          </li>
+                        ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -2,8 +2,17 @@ import { getTranslations } from "next-intl/server";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Calendar } from "lucide-react";
 import { MetricCardError } from "../shared/MetricCardError";
-import { getCachedDeployments } from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import { MissingPermissionNotice } from "../shared/MissingPermissionNotice";
+import { WidgetPermissions } from "../shared/widgetPermissions";
+import { Badge } from "@/components/ui/badge";
+import {
+  getCachedDeploymentSources,
+  getCachedTokenCapabilities,
+} from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
 import type { DateRange } from "@/domain/value-objects/DateRange";
+import { DeploymentEvent } from "@/domain/value-objects/DeploymentEvent";
+import { DORAClassificationService } from "@/domain/services/DORAClassificationService";
+import { getCachedDoraBenchmark } from "@/app/[locale]/(app)/analytics/_lib/dora-benchmark-fetcher";
 import { DeploymentFrequencyBarChart } from "./components/DeploymentFrequencyBarChart";
 import { format, startOfWeek, startOfMonth } from "date-fns";
 
@@ -14,16 +23,20 @@ import { format, startOfWeek, startOfMonth } from "date-fns";
  *
  * Features:
  * - Async Server Component (fetches data independently)
+ * - Scoped to a team when one is selected (see data-fetchers)
  * - Shows weekly or monthly deployment counts in a bar chart
  * - Automatically chooses aggregation level based on date range
+ * - DORA deployment frequency level against the owner's benchmark
  * - Full-width timeline visualization
  * - Error handling without breaking page
+ * - Explains data sources skipped for missing token permissions
  *
  * Data Flow:
- * 1. Fetches deployments from GitHub API (cached)
+ * 1. Fetches deployments, releases and tags from GitHub API (cached) and
+ *    deduplicates them into deployment events
  * 2. Aggregates by week or month depending on range length
  * 3. Renders immediately when data available
- * 4. Fails gracefully with MetricCardError
+ * 4. Fails gracefully with MetricCardError (explaining missing permissions)
  *
  * Usage:
  * ```typescript
@@ -43,6 +56,12 @@ interface DeploymentFrequencyWidgetProps {
    * Date range for filtering deployments
    */
   dateRange: DateRange;
+
+  /**
+   * Team id to restrict the widget to deployments that shipped a member commit
+   * (whole repository when omitted)
+   */
+  team?: string;
 }
 
 interface WeeklyData {
@@ -147,44 +166,71 @@ function aggregateByMonth(
 export async function DeploymentFrequencyWidget({
   repositoryId,
   dateRange,
+  team,
 }: DeploymentFrequencyWidgetProps) {
   const t = await getTranslations("analytics.widgets.deploymentFrequency");
+  const tDora = await getTranslations("analytics.widgets.doraMetrics");
 
   try {
-    // Fetch deployments from cached data fetcher (prevents duplicate API calls)
-    const result = await getCachedDeployments(repositoryId, dateRange);
-
-    // Handle API errors
+    // Fetch deployment sources from cached data fetcher (prevents duplicate API calls)
+    const [result, benchmark, capabilities] = await Promise.all([
+      getCachedDeploymentSources(repositoryId, dateRange, team),
+      getCachedDoraBenchmark(repositoryId),
+      getCachedTokenCapabilities(repositoryId),
+    ]);
+
+    // Handle API errors, explaining missing token permissions
     if (!result.ok) {
-      return <MetricCardError icon={Calendar} error={result.error.message} />;
+      return (
+        <MetricCardError
+          icon={Calendar}
+          error={result.error.message}
+          permissions={{
+            capabilities,
+            permissions: WidgetPermissions.DEPLOYMENT_FREQUENCY,
+          }}
+        />
+      );
     }
 
-    const deployments = result.value;
+    const events = DeploymentEvent.fromSources(result.value);
+
+    // Classify deployment frequency (same events as DORAMetricsWidget)
+    const level = DORAClassificationService.classifyDeploymentFrequency(
+      DORAClassificationService.toDeploymentsPerYear(events.length, dateRange),
+      events.length,
+      benchmark,
+    );
 
     // Determine aggregation level
     const aggregationLevel = getAggregationLevel(dateRange);
 
-    // Transform deployments to match expected format (timestamp: Date)
-    const deploymentsWithTimestamp = deployments.map((d) => ({
-      timestamp: new Date(d.createdAt),
-    }));
-
     // Aggregate data based on chosen level
     const aggregatedData =
       aggregationLevel === "monthly"
-        ? aggregateByMonth(deploymentsWithTimestamp, dateRange)
-        : aggregateByWeek(deploymentsWithTimestamp, dateRange);
+        ? aggregateByMonth(events, dateRange)
+        : aggregateByWeek(events, dateRange);
 
     return (
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Calendar className="h-5 w-5" />
-            {t("title")}
-          </CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              {t("title")}
+            </CardTitle>
+            <Badge variant="outline" className="text-sm">
+              {tDora("level", { level: tDora(`levels.${level}`) })}
+            </Badge>
+          </div>
           <p className="text-sm text-muted-foreground">{t("description")}</p>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {/* Releases and tags are skipped without contents access */}
+          <MissingPermissionNotice
+            capabilities={capabilities}
+            permissions={WidgetPermissions.DEPLOYMENT_FREQUENCY}
+          />
           <DeploymentFrequencyBarChart
             data={aggregatedData}
             aggregationLevel={aggregationLevel}
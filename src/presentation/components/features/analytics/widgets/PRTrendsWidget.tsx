@@ -8,8 +8,13 @@ import {
 } from "@/components/ui/card";
 import { TrendingUp } from "lucide-react";
 import { MetricCardError } from "../shared/MetricCardError";
-import { getCachedPRs } from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import { WidgetPermissions } from "../shared/widgetPermissions";
+import {
+  getCachedPRs,
+  getCachedTokenCapabilities,
+} from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
 import type { DateRange } from "@/domain/value-objects/DateRange";
+import { getRepositoryWebUrl } from "@/infrastructure/hostConfig";
 import { CalculateChangesTimeseries } from "@/application/use-cases/CalculateChangesTimeseries";
 import { TimeseriesChart, EmptyState } from "./components";
 
@@ -20,6 +25,7 @@ import { TimeseriesChart, EmptyState } from "./components";
  *
  * Features:
  * - Async Server Component (fetches data independently)
+ * - Scoped to a team when one is selected (see data-fetchers)
  * - Shows weekly code changes (additions/deletions) with PR count overlay
  * - Outlier week detection (statistical anomalies)
  * - Trend analysis visualization
@@ -49,21 +55,42 @@ interface PRTrendsWidgetProps {
    * Date range for filtering PRs
    */
   dateRange: DateRange;
+
+  /**
+   * Team id to restrict the widget to PRs authored by its members
+   * (whole repository when omitted)
+   */
+  team?: string;
 }
 
 export async function PRTrendsWidget({
   repositoryId,
   dateRange,
+  team,
 }: PRTrendsWidgetProps) {
   const t = await getTranslations("prTimeseries");
 
   try {
     // Fetch PRs from cached data fetcher (prevents duplicate API calls)
-    const result = await getCachedPRs(repositoryId, dateRange);
+    const result = await getCachedPRs(
+      repositoryId,
+      dateRange,
+      CalculateChangesTimeseries.dateSemantics,
+      team,
+    );
 
-    // Handle API errors
+    // Handle API errors, explaining missing token permissions
     if (!result.ok) {
-      return <MetricCardError icon={TrendingUp} error={result.error.message} />;
+      return (
+        <MetricCardError
+          icon={TrendingUp}
+          error={result.error.message}
+          permissions={{
+            capabilities: await getCachedTokenCapabilities(repositoryId),
+            permissions: WidgetPermissions.PR_TRENDS,
+          }}
+        />
+      );
     }
 
     const prs = result.value;
@@ -89,7 +116,7 @@ export async function PRTrendsWidget({
         <CardContent className="px-2 sm:px-6">
           {showEmptyState ? (
             <EmptyState
-              repositoryUrl={`https://github.com/${repositoryId}`}
+              repositoryUrl={getRepositoryWebUrl(repositoryId)}
               dateRange={{
                 start: dateRange.start.toISOString(),
                 end: dateRange.end.toISOString(),
@@ -0,0 +1,249 @@
+import { getTranslations } from "next-intl/server";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { LifeBuoy } from "lucide-react";
+import { MetricCardError } from "../shared/MetricCardError";
+import { WidgetPermissions } from "../shared/widgetPermissions";
+import {
+  getCachedDeployments,
+  getCachedTokenCapabilities,
+} from "@/app/[locale]/(app)/analytics/_lib/data-fetchers";
+import { getCachedIncidents } from "@/app/[locale]/(app)/analytics/_lib/incident-fetcher";
+import type { DateRange } from "@/domain/value-objects/DateRange";
+import { DORALevel } from "@/domain/value-objects/DORABenchmark";
+import { CalculateTimeToRestore } from "@/application/use-cases/CalculateTimeToRestore";
+import { getCachedDoraBenchmark } from "@/app/[locale]/(app)/analytics/_lib/dora-benchmark-fetcher";
+import { TimeToRestoreTrendChart } from "./components/TimeToRestoreTrendChart";
+import { IncidentImportDialog } from "./components/IncidentImportDialog";
+
+/**
+ * Maximum number of incidents listed in the widget
+ */
+const MAX_LISTED_INCIDENTS = 8;
+
+/**
+ * TimeToRestoreWidget Component
+ *
+ * Purpose: Display the DORA time to restore service
+ *
+ * Features:
+ * - Async Server Component (fetches data independently)
+ * - Stays repository-wide when a team is selected (incidents have no team)
+ * - Median time to restore with DORA level badge
+ * - Weekly median trend
+ * - Most recent incidents (deployment failures and imported incidents)
+ * - Incident import by file upload
+ * - Error handling without breaking page
+ *
+ * Data Flow:
+ * 1. Fetches deployments (cached, shared with DORAMetricsWidget) and
+ *    imported incidents
+ * 2. Calculates time to restore with CalculateTimeToRestore use case,
+ *    classified against the owner's DORA benchmark
+ * 3. Renders summary, TimeToRestoreTrendChart and incident list
+ * 4. Fails gracefully with MetricCardError (imported incidents are
+ *    omitted if they cannot be loaded)
+ *
+ * Usage:
+ * ```typescript
+ * <Suspense fallback={<SkeletonChart height="h-96" />}>
+ *   <TimeToRestoreWidget repositoryId="owner/repo" dateRange={dateRange} />
+ * </Suspense>
+ * ```
+ */
+
+interface TimeToRestoreWidgetProps {
+  /**
+   * Repository identifier in "owner/repo" format
+   */
+  repositoryId: string;
+
+  /**
+   * Date range for filtering deployments and incidents
+   */
+  dateRange: DateRange;
+
+  /**
+   * Selected team id; incidents and failed deployments are not attributed
+   * to teams, so the widget notes that it covers the whole repository
+   */
+  team?: string;
+}
+
+/**
+ * Get badge variant for a time to restore DORA level
+ */
+function getBadgeVariant(
+  level: DORALevel,
+): "default" | "secondary" | "outline" {
+  switch (level) {
+    case DORALevel.ELITE:
+      return "default";
+    case DORALevel.HIGH:
+      return "secondary";
+    default:
+      return "outline";
+  }
+}
+
+export async function TimeToRestoreWidget({
+  repositoryId,
+  dateRange,
+  team,
+}: TimeToRestoreWidgetProps) {
+  const t = await getTranslations("analytics.widgets.timeToRestore");
+  const tDora = await getTranslations("analytics.widgets.doraMetrics");
+
+  /**
+   * Format a duration as minutes below an hour, hours below two days,
+   * days otherwise
+   */
+  const formatDuration = (hours: number): string => {
+    if (hours < 1) {
+      return t("minutes", { value: Math.round(hours * 60) });
+    }
+    return hours < 48
+      ? t("hours", { value: hours.toFixed(1) })
+      : t("days", { value: (hours / 24).toFixed(1) });
+  };
+
+  try {
+    const [deploymentsResult, incidentsResult, benchmark] = await Promise.all([
+      getCachedDeployments(repositoryId, dateRange),
+      getCachedIncidents(repositoryId),
+      getCachedDoraBenchmark(repositoryId),
+    ]);
+
+    // Handle API errors, explaining missing token permissions
+    if (!deploymentsResult.ok) {
+      return (
+        <MetricCardError
+          icon={LifeBuoy}
+          error={deploymentsResult.error.message}
+          permissions={{
+            capabilities: await getCachedTokenCapabilities(repositoryId),
+            permissions: WidgetPermissions.TIME_TO_RESTORE,
+          }}
+        />
+      );
+    }
+
+    const timeToRestore = new CalculateTimeToRestore().execute(
+      deploymentsResult.value,
+      incidentsResult.ok ? incidentsResult.value : [],
+      dateRange,
+      benchmark,
+    );
+
+    return (
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <LifeBuoy className="h-5 w-5" />
+                {t("title")}
+              </CardTitle>
+              <CardDescription>{t("description")}</CardDescription>
+            </div>
+            <IncidentImportDialog repositoryId={repositoryId} />
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {team && (
+            <p className="text-xs text-muted-foreground">{t("teamScope")}</p>
+          )}
+          {timeToRestore.totalIncidents === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("emptyState")}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-6">
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("median")}</p>
+                  <p className="text-2xl font-bold">
+                    {timeToRestore.medianHours === null
+                      ? t("notAvailable")
+                      : formatDuration(timeToRestore.medianHours)}
+                  </p>
+                </div>
+                <Badge
+                  variant={getBadgeVariant(timeToRestore.level)}
+                  className="text-sm"
+                >
+                  {tDora("level", {
+                    level: tDora(`levels.${timeToRestore.level}`),
+                  })}
+                </Badge>
+                <p className="text-sm text-muted-foreground">
+                  {t("incidentCount", {
+                    count: timeToRestore.totalIncidents,
+                    unresolved: timeToRestore.unresolvedIncidents,
+                  })}
+                </p>
+              </div>
+
+              {timeToRestore.weeklyData.length > 0 && (
+                <div className="w-full overflow-x-auto">
+                  <div className="min-w-[600px]">
+                    <TimeToRestoreTrendChart
+                      weeklyData={timeToRestore.weeklyData}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <ul className="divide-y text-sm">
+                {timeToRestore.incidents
+                  .slice(0, MAX_LISTED_INCIDENTS)
+                  .map((incident) => (
+                    <li
+                      key={`${incident.source}-${incident.id}`}
+                      className="flex items-center justify-between gap-4 py-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">
+                          {incident.url ? (
+                            <a
+                              href={incident.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="hover:underline"
+                            >
+                              {incident.title}
+                            </a>
+                          ) : (
+                            incident.title
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {t(`sources.${incident.source}`)} ·{" "}
+                          {new Date(incident.openedAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <span className="shrink-0 text-muted-foreground">
+                        {incident.restoreHours === null
+                          ? t("unresolved")
+                          : formatDuration(incident.restoreHours)}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  } catch (error) {
+    // Handle unexpected errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return <MetricCardError icon={LifeBuoy} error={errorMessage} />;
+  }
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  resetChangeFailureRules,
+  updateChangeFailureRules,
+} from "@/app/actions/changeFailureRules";
+import type { ChangeFailureRulesProps } from "@/domain/value-objects/ChangeFailureRules";
+
+export interface ChangeFailureRulesDialogProps {
+  /** Repository identifier in "owner/repo" format */
+  repositoryId: string;
+  /** Rules currently applied to the repository */
+  rules: ChangeFailureRulesProps;
+}
+
+/**
+ * Split a comma-separated list into trimmed, non-empty values
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+/**
+ * Change Failure Rules Dialog Component
+ *
+ * Lets the user choose which signals mark a deployment as failed for the
+ * repository: failed deployment statuses, reverts and hotfixes (with their
+ * attribution windows, labels and branch prefixes). Saved rules are stored
+ * per repository and the page is refreshed to recalculate the rate.
+ */
+export function ChangeFailureRulesDialog({
+  repositoryId,
+  rules,
+}: ChangeFailureRulesDialogProps) {
+  const t = useTranslations("analytics.widgets.doraMetrics.rules");
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const [deploymentStatus, setDeploymentStatus] = useState(
+    rules.deploymentStatus,
+  );
+  const [revertWindowHours, setRevertWindowHours] = useState(
+    String(rules.revertWindowHours),
+  );
+  const [hotfixWindowHours, setHotfixWindowHours] = useState(
+    String(rules.hotfixWindowHours),
+  );
+  const [hotfixLabels, setHotfixLabels] = useState(
+    rules.hotfixLabels.join(", "),
+  );
+  const [hotfixBranchPrefixes, setHotfixBranchPrefixes] = useState(
+    rules.hotfixBranchPrefixes.join(", "),
+  );
+
+  const applyRules = (next: ChangeFailureRulesProps) => {
+    setDeploymentStatus(next.deploymentStatus);
+    setRevertWindowHours(String(next.revertWindowHours));
+    setHotfixWindowHours(String(next.hotfixWindowHours));
+    setHotfixLabels(next.hotfixLabels.join(", "));
+    setHotfixBranchPrefixes(next.hotfixBranchPrefixes.join(", "));
+  };
+
+  const handleSave = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await updateChangeFailureRules(repositoryId, {
+        deploymentStatus,
+        revertWindowHours: Number(revertWindowHours),
+        hotfixWindowHours: Number(hotfixWindowHours),
+        hotfixLabels: parseList(hotfixLabels),
+        hotfixBranchPrefixes: parseList(hotfixBranchPrefixes),
+      });
+
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      setIsOpen(false);
+      router.refresh();
+    });
+  };
+
+  const handleReset = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await resetChangeFailureRules(repositoryId);
+
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      applyRules(result.value);
+      setIsOpen(false);
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label={t("open")}>
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="cfr-deployment-status"
+              checked={deploymentStatus}
+              onCheckedChange={(checked) =>
+                setDeploymentStatus(checked === true)
+              }
+            />
+            <Label htmlFor="cfr-deployment-status">
+              {t("deploymentStatus")}
+            </Label>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="cfr-revert-window">{t("revertWindowHours")}</Label>
+            <Input
+              id="cfr-revert-window"
+              type="number"
+              min={0}
+              value={revertWindowHours}
+              onChange={(e) => setRevertWindowHours(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="cfr-hotfix-window">{t("hotfixWindowHours")}</Label>
+            <Input
+              id="cfr-hotfix-window"
+              type="number"
+              min={0}
+              value={hotfixWindowHours}
+              onChange={(e) => setHotfixWindowHours(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="cfr-hotfix-labels">{t("hotfixLabels")}</Label>
+            <Input
+              id="cfr-hotfix-labels"
+              value={hotfixLabels}
+              onChange={(e) => setHotfixLabels(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="cfr-hotfix-branches">
+              {t("hotfixBranchPrefixes")}
+            </Label>
+            <Input
+              id="cfr-hotfix-branches"
+              value={hotfixBranchPrefixes}
+              onChange={(e) => setHotfixBranchPrefixes(e.target.value)}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">{t("windowHint")}</p>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleReset} disabled={isPending}>
+            {t("reset")}
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {t("save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { Payload } from "recharts/types/component/DefaultTooltipContent";
+import { WeeklyCycleTimeDto } from "@/application/dto/CycleTimeResult";
+import { CYCLE_PHASES, CyclePhase } from "@/domain/value-objects/PRCycleTime";
+
+/**
+ * Line color per phase
+ */
+const PHASE_COLORS: Record<CyclePhase, string> = {
+  [CyclePhase.CODING]: "#3b82f6", // Blue 500
+  [CyclePhase.PICKUP]: "#f59e0b", // Amber 500
+  [CyclePhase.REVIEW]: "#8b5cf6", // Violet 500
+  [CyclePhase.MERGE]: "#22c55e", // Green 500
+};
+
+/**
+ * Custom Tooltip Props for Recharts
+ */
+interface CustomTooltipProps {
+  active?: boolean;
+  payload?: ReadonlyArray<Payload<number, string>>;
+  label?: string | number;
+}
+
+/**
+ * Custom Tooltip Component
+ *
+ * Displays the week, merged PR count and median hours per phase
+ */
+function CustomTooltip({ active, payload }: CustomTooltipProps) {
+  const t = useTranslations("analytics.widgets.cycleTime");
+
+  if (active && payload && payload.length > 0 && payload[0]) {
+    const data = payload[0].payload as WeeklyCycleTimeDto;
+
+    const weekDate = new Date(data.weekStart).toLocaleDateString(undefined, {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+    return (
+      <div className="bg-white p-3 border border-gray-300 rounded shadow-lg dark:bg-gray-800 dark:border-gray-600">
+        <p className="font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          {t("tooltip.week", { date: weekDate })}
+        </p>
+        <div className="space-y-1 text-sm">
+          {CYCLE_PHASES.map((phase) => {
+            const hours = data[phase];
+            return (
+              <p key={phase} style={{ color: PHASE_COLORS[phase] }}>
+                {t(`phases.${phase}`)}:{" "}
+                {hours === null
+                  ? t("notAvailable")
+                  : t("hours", { value: hours.toFixed(1) })}
+              </p>
+            );
+          })}
+          <p className="text-gray-600 dark:text-gray-400 text-xs mt-1">
+            {t("tooltip.prCount", { count: data.prCount })}
+          </p>
+        </div>
+      </div>
+    );
+  }
+  return null;
+}
+
+export interface CycleTimeTrendChartProps {
+  /** Weekly median hours per phase (chronological order) */
+  weeklyData: WeeklyCycleTimeDto[];
+  /** Chart height in pixels (default: 300) */
+  height?: number;
+}
+
+/**
+ * Cycle Time Trend Chart Component
+ *
+ * Displays one line per cycle-time phase with the weekly median in hours.
+ * Weeks where a phase could not be measured leave a gap in that line.
+ */
+export const CycleTimeTrendChart = React.memo(function CycleTimeTrendChart({
+  weeklyData,
+  height = 300,
+}: CycleTimeTrendChartProps) {
+  const t = useTranslations("analytics.widgets.cycleTime");
+
+  /**
+   * Format date for X-axis display (e.g., "Jan 20")
+   */
+  const formatXAxis = (dateString: string): string => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart
+        data={weeklyData}
+        margin={{
+          top: 20,
+          right: 30,
+          left: 20,
+          bottom: 20,
+        }}
+      >
+        <CartesianGrid strokeDasharray="3 3" />
+
+        <XAxis dataKey="weekStart" tickFormatter={formatXAxis} />
+
+        <YAxis
+          label={{
+            value: t("chart.yAxisLabel"),
+            angle: -90,
+            position: "insideLeft",
+            offset: -10,
+          }}
+        />
+
+        <Tooltip content={CustomTooltip} />
+
+        <Legend />
+
+        {CYCLE_PHASES.map((phase) => (
+          <Line
+            key={phase}
+            type="monotone"
+            dataKey={phase}
+            stroke={PHASE_COLORS[phase]}
+            strokeWidth={2}
+            dot={{ r: 3 }}
+            name={t(`phases.${phase}`)}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+});
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { clearIncidents, importIncidents } from "@/app/actions/incidents";
+import { IncidentImportFormat } from "@/application/dto/IncidentImport";
+
+export interface IncidentImportDialogProps {
+  /** Repository identifier in "owner/repo" format */
+  repositoryId: string;
+}
+
+/**
+ * Incident Import Dialog Component
+ *
+ * Uploads a JSON or CSV incident export (format detected from the file
+ * extension) for the repository, or removes all imported incidents.
+ * The page is refreshed afterwards to recalculate time to restore.
+ */
+export function IncidentImportDialog({
+  repositoryId,
+}: IncidentImportDialogProps) {
+  const t = useTranslations("analytics.widgets.timeToRestore.import");
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setFile(null);
+      setMessage(null);
+      setError(null);
+    }
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const format = file.name.toLowerCase().endsWith(".csv")
+        ? IncidentImportFormat.CSV
+        : IncidentImportFormat.JSON;
+      const result = await importIncidents(
+        repositoryId,
+        await file.text(),
+        format,
+      );
+
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      setMessage(
+        t("success", {
+          imported: result.value.imported,
+          skipped: result.value.skipped,
+        }),
+      );
+      router.refresh();
+    });
+  };
+
+  const handleClear = () => {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const result = await clearIncidents(repositoryId);
+
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      setMessage(t("cleared"));
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="mr-2 h-4 w-4" />
+          {t("open")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="incident-file">{t("file")}</Label>
+            <Input
+              id="incident-file"
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">{t("fields")}</p>
+          <p className="text-xs text-muted-foreground">{t("webhookHint")}</p>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {message && <p className="text-sm">{message}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClear} disabled={isPending}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            {t("clear")}
+          </Button>
+          <Button onClick={handleImport} disabled={isPending || !file}>
+            {t("submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
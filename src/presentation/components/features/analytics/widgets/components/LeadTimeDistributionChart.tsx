@@ -0,0 +1,94 @@
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { Payload } from "recharts/types/component/DefaultTooltipContent";
+import type { LeadTimeDistributionBucket } from "@/domain/value-objects/LeadTimeForChanges";
+
+/**
+ * Custom Tooltip Props for Recharts
+ */
+interface CustomTooltipProps {
+  active?: boolean;
+  payload?: ReadonlyArray<Payload<number, string>>;
+  label?: string | number;
+}
+
+/**
+ * Custom Tooltip Component
+ *
+ * Displays the commit count and share of a lead-time bucket
+ */
+function CustomTooltip({ active, payload }: CustomTooltipProps) {
+  const t = useTranslations("analytics.widgets.doraMetrics");
+
+  if (active && payload && payload.length > 0 && payload[0]) {
+    const data = payload[0].payload as LeadTimeDistributionBucket;
+
+    return (
+      <div className="bg-white p-2 border border-gray-300 rounded shadow-lg dark:bg-gray-800 dark:border-gray-600">
+        <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {t(`distribution.${data.bucket}`)}
+        </p>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          {t("distributionTooltip", {
+            count: data.commitCount,
+            percentage: data.percentage.toFixed(0),
+          })}
+        </p>
+      </div>
+    );
+  }
+  return null;
+}
+
+export interface LeadTimeDistributionChartProps {
+  /** Deployed commits per lead-time bucket (fastest first) */
+  distribution: LeadTimeDistributionBucket[];
+  /** Chart height in pixels (default: 160) */
+  height?: number;
+}
+
+/**
+ * Lead Time Distribution Chart Component
+ *
+ * Displays how many deployed commits fall into each lead-time bucket
+ * (< 1 hour, < 1 day, < 1 week, < 1 month, > 1 month).
+ */
+export const LeadTimeDistributionChart = React.memo(
+  function LeadTimeDistributionChart({
+    distribution,
+    height = 160,
+  }: LeadTimeDistributionChartProps) {
+    const t = useTranslations("analytics.widgets.doraMetrics");
+
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart
+          data={distribution}
+          layout="vertical"
+          margin={{ top: 0, right: 16, left: 0, bottom: 0 }}
+        >
+          <XAxis type="number" hide allowDecimals={false} />
+          <YAxis
+            type="category"
+            dataKey="bucket"
+            width={80}
+            tick={{ fontSize: 12 }}
+            tickFormatter={(bucket: string) => t(`distribution.${bucket}`)}
+          />
+          <Tooltip content={CustomTooltip} />
+          <Bar dataKey="commitCount" fill="#3b82f6" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  },
+);
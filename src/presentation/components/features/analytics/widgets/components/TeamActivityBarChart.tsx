@@ -0,0 +1,81 @@
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { TeamComparisonRow } from "@/application/dto/TeamResult";
+import { TEAM_COLORS } from "./TeamThroughputChart";
+
+/**
+ * Compared activity counts, in axis order
+ */
+const METRICS = [
+  "mergedPullRequests",
+  "commits",
+  "reviews",
+  "deployments",
+] as const;
+
+export interface TeamActivityBarChartProps {
+  /** Team metrics, in legend order */
+  teams: TeamComparisonRow[];
+  /** Chart height in pixels (default: 300) */
+  height?: number;
+}
+
+/**
+ * TeamActivityBarChart Component
+ *
+ * Compares the activity of teams side by side: one group per metric
+ * (merged PRs, commits, reviews, deployments) with one bar per team,
+ * colored like TeamThroughputChart
+ */
+export const TeamActivityBarChart = React.memo(function TeamActivityBarChart({
+  teams,
+  height = 300,
+}: TeamActivityBarChartProps) {
+  const t = useTranslations("analytics.teams.columns");
+
+  const data = METRICS.map((metric) => ({
+    metric: t(metric),
+    ...Object.fromEntries(teams.map((team) => [team.teamId, team[metric]])),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <BarChart
+        data={data}
+        margin={{
+          top: 5,
+          right: 30,
+          left: 20,
+          bottom: 5,
+        }}
+      >
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="metric" />
+        <YAxis allowDecimals={false} />
+        <Tooltip />
+        <Legend />
+        {teams.map((team, index) => (
+          <Bar
+            key={team.teamId}
+            dataKey={team.teamId}
+            name={team.name}
+            fill={TEAM_COLORS[index % TEAM_COLORS.length]}
+            radius={[4, 4, 0, 0]}
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+});
@@ -0,0 +1,119 @@
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { TeamComparisonWeek } from "@/application/dto/TeamResult";
+
+/**
+ * Line colors, assigned to teams in order (repeating after eight teams)
+ */
+export const TEAM_COLORS = [
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#9333ea",
+  "#06b6d4",
+  "#ec4899",
+  "#84cc16",
+];
+
+export interface TeamThroughputChartProps {
+  /** Teams to draw, in legend order */
+  teams: Array<{ teamId: string; name: string }>;
+  /** Weekly merged PRs per team id */
+  weeks: TeamComparisonWeek[];
+  /** Chart height in pixels (default: 300) */
+  height?: number;
+}
+
+/**
+ * TeamThroughputChart Component
+ *
+ * Displays the weekly merged PRs of each team as one line per team
+ *
+ * Features:
+ * - Shared tooltip listing every team for the hovered week
+ * - Legend with team names
+ * - Responsive layout
+ */
+export const TeamThroughputChart = React.memo(function TeamThroughputChart({
+  teams,
+  weeks,
+  height = 300,
+}: TeamThroughputChartProps) {
+  const t = useTranslations("analytics.teams.chart");
+
+  const data = weeks.map((week) => ({
+    weekStart: week.weekStart,
+    ...week.mergedPullRequests,
+  }));
+
+  /**
+   * Format date for X-axis display (e.g., "Jan 20")
+   */
+  const formatXAxis = (dateString: string): string =>
+    new Date(dateString).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart
+        data={data}
+        margin={{
+          top: 5,
+          right: 30,
+          left: 20,
+          bottom: 5,
+        }}
+      >
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="weekStart"
+          tickFormatter={formatXAxis}
+          angle={-45}
+          textAnchor="end"
+          height={60}
+        />
+        <YAxis
+          allowDecimals={false}
+          label={{
+            value: t("yAxisLabel"),
+            angle: -90,
+            position: "insideLeft",
+          }}
+        />
+        <Tooltip
+          labelFormatter={(label) =>
+            t("week", { date: formatXAxis(String(label)) })
+          }
+        />
+        <Legend />
+        {teams.map((team, index) => (
+          <Line
+            key={team.teamId}
+            type="monotone"
+            dataKey={team.teamId}
+            name={team.name}
+            stroke={TEAM_COLORS[index % TEAM_COLORS.length]}
+            strokeWidth={2}
+            dot={{ r: 3 }}
+            activeDot={{ r: 5 }}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+});
@@ -0,0 +1,131 @@
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { Payload } from "recharts/types/component/DefaultTooltipContent";
+import type { WeeklyRestoreTimeDto } from "@/application/dto/TimeToRestoreResult";
+
+/**
+ * Custom Tooltip Props for Recharts
+ */
+interface CustomTooltipProps {
+  active?: boolean;
+  payload?: ReadonlyArray<Payload<number, string>>;
+  label?: string | number;
+}
+
+/**
+ * Custom Tooltip Component
+ *
+ * Displays the week, median restore time and resolved incident count
+ */
+function CustomTooltip({ active, payload }: CustomTooltipProps) {
+  const t = useTranslations("analytics.widgets.timeToRestore");
+
+  if (active && payload && payload.length > 0 && payload[0]) {
+    const data = payload[0].payload as WeeklyRestoreTimeDto;
+
+    const weekDate = new Date(data.weekStart).toLocaleDateString(undefined, {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+    return (
+      <div className="bg-white p-3 border border-gray-300 rounded shadow-lg dark:bg-gray-800 dark:border-gray-600">
+        <p className="font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          {t("tooltip.week", { date: weekDate })}
+        </p>
+        <div className="space-y-1 text-sm">
+          <p className="text-red-500">
+            {t("median")}: {t("hours", { value: data.medianHours.toFixed(1) })}
+          </p>
+          <p className="text-gray-600 dark:text-gray-400 text-xs mt-1">
+            {t("tooltip.incidentCount", { count: data.incidentCount })}
+          </p>
+        </div>
+      </div>
+    );
+  }
+  return null;
+}
+
+export interface TimeToRestoreTrendChartProps {
+  /** Weekly median restore hours (chronological order) */
+  weeklyData: WeeklyRestoreTimeDto[];
+  /** Chart height in pixels (default: 240) */
+  height?: number;
+}
+
+/**
+ * Time To Restore Trend Chart Component
+ *
+ * Displays the weekly median time to restore in hours, grouped by the
+ * week incidents were resolved.
+ */
+export const TimeToRestoreTrendChart = React.memo(
+  function TimeToRestoreTrendChart({
+    weeklyData,
+    height = 240,
+  }: TimeToRestoreTrendChartProps) {
+    const t = useTranslations("analytics.widgets.timeToRestore");
+
+    /**
+     * Format date for X-axis display (e.g., "Jan 20")
+     */
+    const formatXAxis = (dateString: string): string => {
+      const date = new Date(dateString);
+      return date.toLocaleDateString(undefined, {
+        month: "short",
+        day: "numeric",
+      });
+    };
+
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart
+          data={weeklyData}
+          margin={{
+            top: 20,
+            right: 30,
+            left: 20,
+            bottom: 20,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" />
+
+          <XAxis dataKey="weekStart" tickFormatter={formatXAxis} />
+
+          <YAxis
+            label={{
+              value: t("chart.yAxisLabel"),
+              angle: -90,
+              position: "insideLeft",
+              offset: -10,
+            }}
+          />
+
+          <Tooltip content={CustomTooltip} />
+
+          <Line
+            type="monotone"
+            dataKey="medianHours"
+            stroke="#ef4444"
+            strokeWidth={2}
+            dot={{ r: 3 }}
+            name={t("median")}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    );
+  },
+);
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { updateDoraBenchmark } from "@/app/actions/doraBenchmark";
+import {
+  DORA_BENCHMARK_EDITIONS,
+  DORABenchmarkEdition,
+} from "@/domain/value-objects/DORABenchmark";
+
+interface DoraBenchmarkSettingsProps {
+  /**
+   * Owner identifier ("owner" or "host/owner")
+   */
+  ownerId: string;
+
+  /**
+   * Currently selected benchmark edition
+   */
+  edition: DORABenchmarkEdition;
+}
+
+/**
+ * DoraBenchmarkSettings Component
+ *
+ * Purpose: Select the State of DevOps edition that the DORA levels of an
+ * owner's repositories are classified against (stored on the server per
+ * owner and shared by all users)
+ */
+export function DoraBenchmarkSettings({
+  ownerId,
+  edition,
+}: DoraBenchmarkSettingsProps) {
+  const t = useTranslations("organization.doraBenchmark");
+  const router = useRouter();
+  const [selected, setSelected] = useState<string>(edition);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (value: string) => {
+    setSelected(value);
+    setError(null);
+    setSaved(false);
+    startTransition(async () => {
+      const result = await updateDoraBenchmark(ownerId, value);
+      if (!result.ok) {
+        setError(result.error.message);
+        setSelected(edition);
+        return;
+      }
+      setSaved(true);
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="font-medium">{t("label")}</p>
+        <p className="text-sm text-muted-foreground">
+          {error ?? (saved ? t("saved") : t("hint"))}
+        </p>
+      </div>
+      <Select
+        value={selected}
+        onValueChange={handleChange}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-[260px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DORA_BENCHMARK_EDITIONS.map((value) => (
+            <SelectItem key={value} value={value}>
+              {t(`editions.${value}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import Link from "next/link";
+import { getTranslations } from "next-intl/server";
+import { Building2, UsersRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MetricCardError } from "../analytics/shared/MetricCardError";
+import { RepositoryHealthTable } from "./RepositoryHealthTable";
+import { getCachedOrganizationOverview } from "@/app/[locale]/(app)/org/[owner]/_lib/data-fetchers";
+
+/**
+ * OrganizationOverview Component
+ *
+ * Purpose: Health overview of every repository of an organization or user
+ *
+ * Features:
+ * - Async Server Component
+ * - All repositories are listed with one paged GraphQL query (no
+ *   per-repository requests) and cached per owner
+ * - Sorting and filtering in RepositoryHealthTable (client-side)
+ * - Links to the owner's team definitions
+ *
+ * Usage:
+ * ```tsx
+ * <Suspense fallback={<OrganizationOverviewSkeleton />}>
+ *   <OrganizationOverview ownerId="acme" owner="acme" />
+ * </Suspense>
+ * ```
+ */
+
+interface OrganizationOverviewProps {
+  /**
+   * Owner identifier ("owner" or "host/owner")
+   */
+  ownerId: string;
+
+  /**
+   * Owner login shown in the heading
+   */
+  owner: string;
+}
+
+export async function OrganizationOverview({
+  ownerId,
+  owner,
+}: OrganizationOverviewProps) {
+  const t = await getTranslations("organization");
+  const result = await getCachedOrganizationOverview(ownerId);
+
+  if (!result.ok) {
+    return <MetricCardError icon={Building2} error={result.error.message} />;
+  }
+
+  const { repositories, windowDays } = result.value;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Building2 className="h-6 w-6" />
+            {owner}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {t("description", {
+              count: repositories.length,
+              days: windowDays,
+            })}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/org/${encodeURIComponent(owner)}/teams`}>
+            <UsersRound className="mr-2 h-4 w-4" />
+            {t("teams.open")}
+          </Link>
+        </Button>
+      </div>
+
+      <RepositoryHealthTable
+        repositories={repositories}
+        windowDays={windowDays}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+/**
+ * OrganizationOverviewSkeleton Component
+ *
+ * Purpose: Loading state skeleton for OrganizationOverview component
+ *
+ * Features:
+ * - Matches OrganizationOverview layout (heading, filters, repository table)
+ *
+ * Usage:
+ * ```tsx
+ * <Suspense fallback={<OrganizationOverviewSkeleton />}>
+ *   <OrganizationOverview ownerId={ownerId} owner={owner} />
+ * </Suspense>
+ * ```
+ */
+
+export function OrganizationOverviewSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-48" /> {/* Owner */}
+        <Skeleton className="h-4 w-80" /> {/* Description */}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap gap-4">
+            <Skeleton className="h-9 w-64" /> {/* Search */}
+            <Skeleton className="h-9 w-40" /> {/* Status */}
+            <Skeleton className="h-9 w-48" /> {/* Toggles */}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <Skeleton className="h-8 w-full" /> {/* Header row */}
+            {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, ArrowUpDown, Lock } from "lucide-react";
+import type {
+  RepositoryHealthStatus,
+  RepositoryHealthSummary,
+} from "@/application/dto/RepositoryHealthResult";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type SortKey =
+  | "name"
+  | "lastPush"
+  | "openPullRequests"
+  | "oldestOpenPullRequest"
+  | "mergedPullRequests"
+  | "latestRelease"
+  | "deployments";
+
+type SortDirection = "asc" | "desc";
+
+const STATUSES: RepositoryHealthStatus[] = [
+  "active",
+  "attention",
+  "stale",
+  "archived",
+];
+
+const STATUS_VARIANTS: Record<
+  RepositoryHealthStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  active: "default",
+  attention: "destructive",
+  stale: "secondary",
+  archived: "outline",
+};
+
+/**
+ * Sort value of a repository for a column
+ * Missing values (never pushed, no open PR, no release) sort last.
+ */
+function sortValue(
+  repository: RepositoryHealthSummary,
+  key: SortKey,
+): string | number | null {
+  switch (key) {
+    case "name":
+      return repository.name.toLowerCase();
+    case "lastPush":
+      return repository.daysSinceLastPush;
+    case "openPullRequests":
+      return repository.openPullRequests;
+    case "oldestOpenPullRequest":
+      return repository.oldestOpenPullRequestDays;
+    case "mergedPullRequests":
+      return repository.mergedPullRequests;
+    case "latestRelease":
+      return repository.latestRelease?.publishedAt ?? null;
+    case "deployments":
+      return repository.deployments;
+  }
+}
+
+interface RepositoryHealthTableProps {
+  /**
+   * Repository health summaries (most recently pushed first)
+   */
+  repositories: RepositoryHealthSummary[];
+
+  /**
+   * Window of merged PRs and deployments, in days
+   */
+  windowDays: number;
+}
+
+/**
+ * RepositoryHealthTable Component
+ *
+ * Purpose: Sortable, filterable list of an owner's repositories with their
+ * health summary, linking each repository to its analytics page
+ *
+ * Features:
+ * - Sort by any column (click the header again to reverse)
+ * - Filter by name or description, by status, and hide forks or archived
+ *   repositories
+ * - Counts read from a capped list of recent items show as "30+"
+ */
+export function RepositoryHealthTable({
+  repositories,
+  windowDays,
+}: RepositoryHealthTableProps) {
+  const t = useTranslations("organization");
+  const tDora = useTranslations("analytics.widgets.doraMetrics");
+  const [query, setQuery] = useState("");
+  const [status, setStatus] = useState<RepositoryHealthStatus | "all">("all");
+  const [hideForks, setHideForks] = useState(false);
+  const [hideArchived, setHideArchived] = useState(true);
+  const [sort, setSort] = useState<{ key: SortKey; direction: SortDirection }>({
+    key: "lastPush",
+    direction: "asc",
+  });
+
+  const visibleRepositories = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = repositories.filter(
+      (repository) =>
+        (status === "all" || repository.status === status) &&
+        !(hideForks && repository.isFork) &&
+        !(hideArchived && repository.isArchived && status !== "archived") &&
+        (needle === "" ||
+          repository.name.toLowerCase().includes(needle) ||
+          (repository.description ?? "").toLowerCase().includes(needle)),
+    );
+
+    const sign = sort.direction === "asc" ? 1 : -1;
+    return filtered.sort((a, b) => {
+      const valueA = sortValue(a, sort.key);
+      const valueB = sortValue(b, sort.key);
+      if (valueA === valueB) {
+        return a.name.localeCompare(b.name);
+      }
+      if (valueA === null) {
+        return 1;
+      }
+      if (valueB === null) {
+        return -1;
+      }
+      return (valueA < valueB ? -1 : 1) * sign;
+    });
+  }, [repositories, query, status, hideForks, hideArchived, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : // Names read A to Z and pushes most recent first; other columns
+          // read largest (or newest) first
+          {
+            key,
+            direction: key === "name" || key === "lastPush" ? "asc" : "desc",
+          },
+    );
+  };
+
+  const sortableHead = (key: SortKey, label: string, alignRight = false) => {
+    const Icon =
+      sort.key !== key
+        ? ArrowUpDown
+        : sort.direction === "asc"
+          ? ArrowUp
+          : ArrowDown;
+    return (
+      <TableHead
+        className={alignRight ? "text-right" : undefined}
+        aria-sort={
+          sort.key === key
+            ? sort.direction === "asc"
+              ? "ascending"
+              : "descending"
+            : "none"
+        }
+      >
+        <button
+          type="button"
+          onClick={() => toggleSort(key)}
+          className="inline-flex items-center gap-1 hover:text-foreground"
+        >
+          {label}
+          <Icon className="h-3 w-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  const count = (value: number, capped: boolean) =>
+    capped ? t("capped", { count: value }) : value;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center gap-4">
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder={t("filters.search")}
+            className="w-64"
+          />
+          <Select
+            value={status}
+            onValueChange={(value) =>
+              setStatus(value as RepositoryHealthStatus | "all")
+            }
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("filters.allStatuses")}</SelectItem>
+              {STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`status.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="org-hide-forks"
+              checked={hideForks}
+              onCheckedChange={(checked) => setHideForks(checked === true)}
+            />
+            <Label htmlFor="org-hide-forks">{t("filters.hideForks")}</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="org-hide-archived"
+              checked={hideArchived}
+              onCheckedChange={(checked) => setHideArchived(checked === true)}
+            />
+            <Label htmlFor="org-hide-archived">
+              {t("filters.hideArchived")}
+            </Label>
+          </div>
+          <span className="text-sm text-muted-foreground ml-auto">
+            {t("filters.showing", {
+              shown: visibleRepositories.length,
+              total: repositories.length,
+            })}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {sortableHead("name", t("columns.repository"))}
+              <TableHead>{t("columns.status")}</TableHead>
+              {sortableHead("lastPush", t("columns.lastPush"))}
+              {sortableHead(
+                "openPullRequests",
+                t("columns.openPullRequests"),
+                true,
+              )}
+              {sortableHead(
+                "oldestOpenPullRequest",
+                t("columns.oldestOpenPullRequest"),
+                true,
+              )}
+              {sortableHead(
+                "mergedPullRequests",
+                t("columns.mergedPullRequests", { days: windowDays }),
+                true,
+              )}
+              {sortableHead("latestRelease", t("columns.latestRelease"))}
+              {sortableHead(
+                "deployments",
+                t("columns.deployments", { days: windowDays }),
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRepositories.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={8}
+                  className="text-center text-sm text-muted-foreground"
+                >
+                  {t("empty")}
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleRepositories.map((repository) => (
+                <TableRow key={repository.repositoryId}>
+                  <TableCell>
+                    <Link
+                      href={`/analytics?repo=${encodeURIComponent(repository.repositoryId)}`}
+                      className="font-medium hover:underline inline-flex items-center gap-1"
+                    >
+                      {repository.name}
+                      {repository.isPrivate && (
+                        <Lock className="h-3 w-3 text-muted-foreground" />
+                      )}
+                    </Link>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {repository.language && (
+                        <span>{repository.language}</span>
+                      )}
+                      {repository.isFork && <span>{t("fork")}</span>}
+                      {repository.description && (
+                        <span className="truncate max-w-xs">
+                          {repository.description}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[repository.status]}>
+                      {t(`status.${repository.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {repository.daysSinceLastPush === null
+                      ? t("never")
+                      : t("daysAgo", { count: repository.daysSinceLastPush })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {repository.openPullRequests}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {repository.oldestOpenPullRequestDays === null
+                      ? "-"
+                      : t("days", {
+                          count: repository.oldestOpenPullRequestDays,
+                        })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {repository.mergedPullRequests}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {repository.latestRelease ? (
+                      <>
+                        <div>{repository.latestRelease.tagName}</div>
+                        {repository.latestRelease.publishedAt && (
+                          <div className="text-xs text-muted-foreground">
+                            {format(
+                              new Date(repository.latestRelease.publishedAt),
+                              "yyyy-MM-dd",
+                            )}
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {t("noRelease")}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <span className="mr-2">
+                      {count(
+                        repository.deployments,
+                        repository.deploymentsCapped,
+                      )}
+                    </span>
+                    <Badge variant="outline">
+                      {tDora(`levels.${repository.deploymentLevel}`)}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { deleteTeam, saveTeam } from "@/app/actions/teams";
+import { TeamSource, type TeamProps } from "@/domain/value-objects/Team";
+
+export interface TeamEditorDialogProps {
+  /** Owner identifier ("owner" or "host/owner") */
+  ownerId: string;
+  /** Team to edit; a new team is created when omitted */
+  team?: TeamProps;
+}
+
+/**
+ * Split a comma- or whitespace-separated list into non-empty values
+ */
+function parseMembers(value: string): string[] {
+  return value.split(/[\s,]+/).filter((member) => member !== "");
+}
+
+/**
+ * Team Editor Dialog Component
+ *
+ * Creates a team, or edits or deletes an existing one. Members are
+ * usernames or commit emails. Editing an imported team keeps it from
+ * being overwritten by the next import. The page is refreshed afterwards.
+ */
+export function TeamEditorDialog({ ownerId, team }: TeamEditorDialogProps) {
+  const t = useTranslations("organization.teams.editor");
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState(team?.name ?? "");
+  const [members, setMembers] = useState(team?.members.join(", ") ?? "");
+
+  // Start from the current definition every time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setName(team?.name ?? "");
+      setMembers(team?.members.join(", ") ?? "");
+      setError(null);
+    }
+  };
+
+  const handleSave = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await saveTeam(ownerId, {
+        id: team?.id,
+        name,
+        members: parseMembers(members),
+      });
+
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      setIsOpen(false);
+      router.refresh();
+    });
+  };
+
+  const handleDelete = () => {
+    if (!team) return;
+    setError(null);
+    startTransition(async () => {
+      const result = await deleteTeam(ownerId, team.id);
+
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+      setIsOpen(false);
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {team ? (
+          <Button variant="ghost" size="sm" aria-label={t("edit")}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button size="sm">
+            <Plus className="mr-2 h-4 w-4" />
+            {t("create")}
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{team ? t("editTitle") : t("createTitle")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="team-name">{t("name")}</Label>
+            <Input
+              id="team-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="team-members">{t("members")}</Label>
+            <Input
+              id="team-members"
+              value={members}
+              placeholder={t("membersPlaceholder")}
+              onChange={(e) => setMembers(e.target.value)}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">{t("membersHint")}</p>
+          {team?.source === TeamSource.GITHUB && (
+            <p className="text-xs text-muted-foreground">{t("importedHint")}</p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          {team && (
+            <Button
+              variant="outline"
+              onClick={handleDelete}
+              disabled={isPending}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t("delete")}
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={isPending || !name.trim()}>
+            {t("save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { signIn, useSession } from "next-auth/react";
+import { useTranslations } from "next-intl";
+import { Download, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { importGitHubTeams } from "@/app/actions/teams";
+import type { TeamImportError } from "@/application/dto/TeamResult";
+import { GITHUB_DOTCOM_HOST } from "@/domain/value-objects/GitHost";
+import { TokenKind } from "@/domain/value-objects/TokenCapabilities";
+import {
+  GITHUB_ORG_SCOPE,
+  GITHUB_SCOPE,
+} from "@/infrastructure/auth/oauthScopes";
+
+export interface TeamImportButtonProps {
+  /** Owner identifier ("owner" or "host/owner") */
+  ownerId: string;
+}
+
+/**
+ * Team Import Button Component
+ *
+ * Imports the organization's teams from GitHub (replacing previously
+ * imported teams) and reports how many were imported or skipped.
+ * The page is refreshed afterwards.
+ *
+ * Reading teams needs the read:org scope, which is not requested at sign-in.
+ * When the token lacks it, the button explains how to grant it for the
+ * token kind; OAuth sessions can sign in again with the scope added.
+ */
+export function TeamImportButton({ ownerId }: TeamImportButtonProps) {
+  const t = useTranslations("organization.teams.import");
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<TeamImportError | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleImport = () => {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const result = await importGitHubTeams(ownerId);
+
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setMessage(
+        t("success", {
+          imported: result.value.imported,
+          skipped: result.value.skipped,
+        }),
+      );
+      router.refresh();
+    });
+  };
+
+  const handleGrant = async () => {
+    const githubHost = session?.githubHost ?? GITHUB_DOTCOM_HOST;
+    try {
+      await signIn(
+        githubHost === GITHUB_DOTCOM_HOST ? "github" : "github-enterprise",
+        { callbackUrl: window.location.href },
+        { scope: `${GITHUB_SCOPE} ${GITHUB_ORG_SCOPE}` },
+      );
+    } catch (signInError) {
+      console.error("Sign in error:", signInError);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleImport}
+        disabled={isPending}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        {isPending ? t("importing") : t("submit")}
+      </Button>
+      {error &&
+        (error.missingScope ? (
+          <div
+            role="status"
+            className="max-w-sm rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100"
+          >
+            <div className="flex items-start gap-2">
+              <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+              <div className="space-y-2">
+                <p className="font-medium">{t("missingScope.title")}</p>
+                <p>
+                  {t(
+                    `missingScope.howToGrant.${error.tokenKind ?? TokenKind.UNKNOWN}`,
+                    { scope: error.missingScope },
+                  )}
+                </p>
+                {error.tokenKind === TokenKind.OAUTH && (
+                  <Button variant="outline" size="sm" onClick={handleGrant}>
+                    {t("missingScope.grant")}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ))}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import Link from "next/link";
+import { getTranslations } from "next-intl/server";
+import { ArrowLeft, Gauge, UsersRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MetricCardError } from "../analytics/shared/MetricCardError";
+import { DoraBenchmarkSettings } from "./DoraBenchmarkSettings";
+import { TeamEditorDialog } from "./TeamEditorDialog";
+import { TeamImportButton } from "./TeamImportButton";
+import {
+  getCachedDoraBenchmarkEdition,
+  getCachedTeams,
+} from "@/app/[locale]/(app)/org/[owner]/_lib/data-fetchers";
+
+/**
+ * Members listed in the table before the rest are counted
+ */
+const MAX_LISTED_MEMBERS = 8;
+
+/**
+ * TeamManagement Component
+ *
+ * Purpose: Define the teams of an organization or user and the DORA
+ * benchmark its repositories are classified against
+ *
+ * Features:
+ * - Async Server Component
+ * - Teams and the benchmark edition are stored on the server per owner
+ *   and shared by all users
+ * - Create, edit and delete teams by hand (TeamEditorDialog)
+ * - Import the organization's teams from GitHub (TeamImportButton)
+ * - Select the DORA benchmark edition (DoraBenchmarkSettings)
+ *
+ * Usage:
+ * ```tsx
+ * <TeamManagement ownerId="acme" owner="acme" />
+ * ```
+ */
+
+interface TeamManagementProps {
+  /**
+   * Owner identifier ("owner" or "host/owner")
+   */
+  ownerId: string;
+
+  /**
+   * Owner login shown in the heading
+   */
+  owner: string;
+}
+
+export async function TeamManagement({ ownerId, owner }: TeamManagementProps) {
+  const t = await getTranslations("organization.teams");
+  const tBenchmark = await getTranslations("organization.doraBenchmark");
+  const result = await getCachedTeams(ownerId);
+
+  if (!result.ok) {
+    return <MetricCardError icon={UsersRound} error={result.error.message} />;
+  }
+
+  const benchmarkEdition = await getCachedDoraBenchmarkEdition(ownerId);
+
+  const teams = result.value.map((team) => team.toProps());
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href={`/org/${encodeURIComponent(owner)}`}
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {t("back")}
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <UsersRound className="h-6 w-6" />
+            {t("title", { owner })}
+          </h1>
+          <p className="text-sm text-muted-foreground">{t("description")}</p>
+        </div>
+        <div className="flex items-start gap-2">
+          <TeamImportButton ownerId={ownerId} />
+          <TeamEditorDialog ownerId={ownerId} />
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("columns.name")}</TableHead>
+                <TableHead>{t("columns.source")}</TableHead>
+                <TableHead>{t("columns.members")}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={4}
+                    className="text-center text-sm text-muted-foreground"
+                  >
+                    {t("empty")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                teams.map((team) => (
+                  <TableRow key={team.id}>
+                    <TableCell>
+                      <div className="font-medium">{team.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {team.id}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {t(`source.${team.source}`)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>
+                        {t("memberCount", { count: team.members.length })}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {team.members.slice(0, MAX_LISTED_MEMBERS).join(", ")}
+                        {team.members.length > MAX_LISTED_MEMBERS &&
+                          ` ${t("moreMembers", {
+                            count: team.members.length - MAX_LISTED_MEMBERS,
+                          })}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <TeamEditorDialog ownerId={ownerId} team={team} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            {tBenchmark("title")}
+          </CardTitle>
+          <CardDescription>{tBenchmark("description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DoraBenchmarkSettings ownerId={ownerId} edition={benchmarkEdition} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export * from "./DoraBenchmarkSettings";
+export * from "./OrganizationOverview";
+export * from "./OrganizationOverviewSkeleton";
+export * from "./RepositoryHealthTable";
+export * from "./TeamEditorDialog";
+export * from "./TeamImportButton";
+export * from "./TeamManagement";
@@ -0,0 +1,126 @@
+"use client";
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { useFormatter, useTranslations } from "next-intl";
+import { Database, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getCacheStats, clearCache } from "@/app/actions/cache";
+import { getBrowserCache } from "@/infrastructure/storage/initializeCache";
+import type { CacheStats } from "@/domain/interfaces/ICacheRepository";
+
+/**
+ * CacheSettings Component
+ *
+ * Purpose: Show cache usage and let the user clear cached GitHub data
+ *
+ * Features:
+ * - Server cache statistics (persistent file cache, per user)
+ * - Browser cache statistics (IndexedDB)
+ * - Clear both caches with one action
+ */
+export function CacheSettings() {
+  const t = useTranslations("settings.cache");
+  const format = useFormatter();
+  const [serverStats, setServerStats] = useState<CacheStats | null>(null);
+  const [browserStats, setBrowserStats] = useState<CacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cleared, setCleared] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const loadStats = useCallback(async () => {
+    const [serverResult, browserCache] = await Promise.all([
+      getCacheStats(),
+      getBrowserCache(),
+    ]);
+
+    if (serverResult.ok) {
+      setServerStats(serverResult.value);
+    } else {
+      setError(serverResult.error.message);
+    }
+    setBrowserStats(await browserCache.getStats());
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const handleClear = () => {
+    setError(null);
+    setCleared(false);
+    startTransition(async () => {
+      const [serverResult, browserCache] = await Promise.all([
+        clearCache(),
+        getBrowserCache(),
+      ]);
+      await browserCache.clearAll();
+
+      if (!serverResult.ok) {
+        setError(serverResult.error.message);
+      } else {
+        setCleared(true);
+      }
+      await loadStats();
+    });
+  };
+
+  const formatSize = (bytes: number) =>
+    bytes < 1024 * 1024
+      ? t("sizeKB", {
+          size: format.number(bytes / 1024, { maximumFractionDigits: 1 }),
+        })
+      : t("sizeMB", {
+          size: format.number(bytes / (1024 * 1024), {
+            maximumFractionDigits: 1,
+          }),
+        });
+
+  const renderStats = (label: string, stats: CacheStats | null) => (
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="font-medium">{label}</p>
+        <p className="text-sm text-muted-foreground">
+          {stats === null
+            ? t("loading")
+            : stats.newestEntry
+              ? t("lastUpdated", {
+                  time: format.relativeTime(new Date(stats.newestEntry)),
+                })
+              : t("empty")}
+        </p>
+      </div>
+      {stats && (
+        <div className="text-right text-sm">
+          <p>{t("entries", { count: stats.totalEntries })}</p>
+          <p className="text-muted-foreground">
+            {formatSize(stats.totalSizeBytes)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {renderStats(t("server"), serverStats)}
+      {renderStats(t("browser"), browserStats)}
+
+      <div className="flex items-center justify-between border-t pt-4">
+        <div>
+          <p className="font-medium">{t("clear.label")}</p>
+          <p className="text-sm text-muted-foreground">
+            {error ?? (cleared ? t("clear.success") : t("clear.hint"))}
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleClear} disabled={isPending}>
+          {isPending ? (
+            <Database className="mr-2 h-4 w-4 animate-pulse" />
+          ) : (
+            <Trash2 className="mr-2 h-4 w-4" />
+          )}
+          {t("clear.button")}
+        </Button>
+      </div>
+    </div>
+  );
+}
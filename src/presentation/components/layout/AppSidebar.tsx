@@ -3,7 +3,13 @@
 import { useTranslations } from "next-intl";
 import { usePathname, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { BarChart3, Users, Settings } from "lucide-react";
+import {
+  BarChart3,
+  Building2,
+  Users,
+  UsersRound,
+  Settings,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 
 /**
@@ -15,11 +21,13 @@ import { cn } from "@/lib/utils";
  * - Material Design inspired fixed sidebar
  * - Navigation items with icons
  * - Active state highlighting
- * - Links maintain current repository and date range in URL
+ * - Links maintain current repository, date range and team in URL
  *
  * Navigation Structure:
  * - Overview (default analytics view)
  * - Team (detailed contributor analysis)
+ * - Teams (comparison of the owner's teams)
+ * - Organization (health of the current repository owner's repositories)
  * - Settings (future)
  *
  * Usage:
@@ -43,22 +51,33 @@ export function AppSidebar() {
 
   // Get current repository and date params to maintain in links
   const repo = searchParams.get("repo");
+  const repos = searchParams.get("repos"); // Portfolio of several repositories
   const start = searchParams.get("start");
   const end = searchParams.get("end");
   const range = searchParams.get("range");
+  const team = searchParams.get("team");
   const currentTab = searchParams.get("tab") || "overview";
 
   // Build query string for links
   const buildQueryString = (tab?: string) => {
     const params = new URLSearchParams();
     if (repo) params.set("repo", repo);
+    if (repos) params.set("repos", repos);
     if (tab) params.set("tab", tab);
     if (start) params.set("start", start);
     if (end) params.set("end", end);
     if (range) params.set("range", range);
+    if (team) params.set("team", team);
     return params.toString() ? `?${params.toString()}` : "";
   };
 
+  // Owner of the organization page or of the current repository
+  // ("host/owner/repo" on GitHub Enterprise Server)
+  const repoSegments = repo?.split("/") ?? [];
+  const organization =
+    pathname.match(/\/org\/([^/]+)/)?.[1] ??
+    (repoSegments.length === 2 ? repoSegments[0] : repoSegments[1]);
+
   const navigationItems: NavigationItem[] = [
     {
       id: "overview",
@@ -74,6 +93,24 @@ export function AppSidebar() {
       href: `/analytics${buildQueryString("team")}`,
       tab: "team",
     },
+    {
+      id: "teams",
+      label: t("teams"),
+      icon: UsersRound,
+      href: `/analytics${buildQueryString("teams")}`,
+      tab: "teams",
+    },
+    ...(organization
+      ? [
+          {
+            id: "organization",
+            label: t("organization"),
+            icon: Building2,
+            href: `/org/${organization}`,
+            tab: undefined,
+          },
+        ]
+      : []),
     {
       id: "settings",
       label: t("settings"),
@@ -87,16 +124,20 @@ export function AppSidebar() {
   const isActive = (item: NavigationItem) => {
     // If we're on settings page, only settings should be active
     const isSettingsPage = pathname.includes("/settings");
+    const isOrganizationPage = pathname.includes("/org/");
 
     if (item.tab) {
-      // Don't activate analytics tabs when on settings page
-      if (isSettingsPage) return false;
+      // Don't activate analytics tabs when on settings or organization page
+      if (isSettingsPage || isOrganizationPage) return false;
       return currentTab === item.tab;
     }
     // For settings page, check if pathname includes /settings
     if (item.id === "settings") {
       return isSettingsPage;
     }
+    if (item.id === "organization") {
+      return isOrganizationPage;
+    }
     return pathname === item.href;
   };
 
@@ -3,7 +3,13 @@
 import { useTranslations } from "next-intl";
 import { usePathname, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { BarChart3, Users, Settings } from "lucide-react";
+import {
+  BarChart3,
+  Building2,
+  Users,
+  UsersRound,
+  Settings,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 
 /**
@@ -40,21 +46,30 @@ export function MobileSidebar() {
   const searchParams = useSearchParams();
 
   const repo = searchParams.get("repo");
+  const repos = searchParams.get("repos"); // Portfolio of several repositories
   const start = searchParams.get("start");
   const end = searchParams.get("end");
   const range = searchParams.get("range");
+  const team = searchParams.get("team");
   const currentTab = searchParams.get("tab") || "overview";
 
   const buildQueryString = (tab?: string) => {
     const params = new URLSearchParams();
     if (repo) params.set("repo", repo);
+    if (repos) params.set("repos", repos);
     if (tab) params.set("tab", tab);
     if (start) params.set("start", start);
     if (end) params.set("end", end);
     if (range) params.set("range", range);
+    if (team) params.set("team", team);
     return params.toString() ? `?${params.toString()}` : "";
   };
 
+  const repoSegments = repo?.split("/") ?? [];
+  const organization =
+    pathname.match(/\/org\/([^/]+)/)?.[1] ??
+    (repoSegments.length === 2 ? repoSegments[0] : repoSegments[1]);
+
   const navigationItems: NavigationItem[] = [
     {
       id: "overview",
@@ -70,6 +85,24 @@ export function MobileSidebar() {
       href: `/analytics${buildQueryString("team")}`,
       tab: "team",
     },
+    {
+      id: "teams",
+      label: t("teams"),
+      icon: UsersRound,
+      href: `/analytics${buildQueryString("teams")}`,
+      tab: "teams",
+    },
+    ...(organization
+      ? [
+          {
+            id: "organization",
+            label: t("organization"),
+            icon: Building2,
+            href: `/org/${organization}`,
+            tab: undefined,
+          },
+        ]
+      : []),
     {
       id: "settings",
       label: t("settings"),
@@ -82,16 +115,20 @@ export function MobileSidebar() {
   const isActive = (item: NavigationItem) => {
     // If we're on settings page, only settings should be active
     const isSettingsPage = pathname.includes("/settings");
+    const isOrganizationPage = pathname.includes("/org/");
 
     if (item.tab) {
-      // Don't activate analytics tabs when on settings page
-      if (isSettingsPage) return false;
+      // Don't activate analytics tabs when on settings or organization page
+      if (isSettingsPage || isOrganizationPage) return false;
       return currentTab === item.tab;
     }
     // For settings page, check if pathname includes /settings
     if (item.id === "settings") {
       return isSettingsPage;
     }
+    if (item.id === "organization") {
+      return isOrganizationPage;
+    }
     return pathname === item.href;
   };
 
@@ -2,8 +2,9 @@
 
 import { useTranslations } from "next-intl";
 import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { useState, useEffect, useTransition } from "react";
-import { Check, ChevronsUpDown, GitBranch, Clock } from "lucide-react";
+import { Check, ChevronsUpDown, GitBranch, Clock, Layers } from "lucide-react";
 import { createPortal } from "react-dom";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,6 +25,10 @@ import {
   fetchUserRepositories,
   type Repository,
 } from "@/app/[locale]/(app)/analytics/_lib/actions";
+import { ResponseCacheService } from "@/application/services/cache";
+import type { CacheCodec } from "@/application/mappers/CacheMapper";
+import { DataType } from "@/domain/interfaces/ICacheRepository";
+import { getBrowserCache } from "@/infrastructure/storage/initializeCache";
 import { AppSidebar } from "./AppSidebar";
 import { AppHeader } from "./AppHeader";
 import { AppFooter } from "./AppFooter";
@@ -37,10 +42,14 @@ import { SkeletonChart } from "@/presentation/components/shared/SkeletonChart";
  *
  * Features:
  * - Fetches user's repositories from GitHub API
+ * - Caches the repository list in IndexedDB per signed-in user
+ *   (stale-while-revalidate; cleared on sign-out)
  * - Searchable repository list
  * - Recently viewed repositories (from localStorage)
  * - Current repository displayed in button
  * - Updates URL when repository changes
+ * - Combine mode selects several repositories for the portfolio view
+ *   (`repos=owner/a,owner/b`)
  *
  * Usage:
  * ```tsx
@@ -51,10 +60,26 @@ import { SkeletonChart } from "@/presentation/components/shared/SkeletonChart";
 const STORAGE_KEY = "team-insights:recent-repositories";
 const MAX_RECENT = 10;
 
+/**
+ * Cache identifier for the signed-in user's repository list
+ * Scoped to the user so another user of the browser never sees the list.
+ */
+function getViewerRepositoriesId(host: string, userId: string): string {
+  return `viewer/${host}/${userId}/repositories`;
+}
+
+const repositoriesCodec: CacheCodec<Repository[]> = {
+  serialize: (value) => value,
+  deserialize: (data) => data as Repository[],
+};
+
 export function RepositorySwitcher() {
   const t = useTranslations("layout.repositorySwitcher");
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const githubHost = session?.githubHost;
   const [open, setOpen] = useState(false);
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [recentRepoIds, setRecentRepoIds] = useState<string[]>([]);
@@ -63,13 +88,23 @@ export function RepositorySwitcher() {
   const [isPending, startTransition] = useTransition();
 
   const currentRepo = searchParams.get("repo");
+  const reposParam = searchParams.get("repos") ?? "";
+  const currentRepos = reposParam.split(",").filter((repo) => repo !== "");
+  const [combining, setCombining] = useState(currentRepos.length > 0);
+  const [selection, setSelection] = useState<string[]>(currentRepos);
 
-  // Load repositories and recent history on mount
+  // Load recent history on mount
   useEffect(() => {
-    loadRepositories();
     loadRecentRepositories();
   }, []);
 
+  // Load repositories once the signed-in user is known
+  useEffect(() => {
+    if (userId && githubHost) {
+      loadRepositories(getViewerRepositoriesId(githubHost, userId));
+    }
+  }, [userId, githubHost]);
+
   // Save current repo to recent history
   useEffect(() => {
     if (currentRepo) {
@@ -77,11 +112,26 @@ export function RepositorySwitcher() {
     }
   }, [currentRepo]);
 
-  const loadRepositories = async () => {
+  // Follow the portfolio in the URL (e.g. back navigation)
+  useEffect(() => {
+    const repos = reposParam.split(",").filter((repo) => repo !== "");
+    setSelection(repos);
+    if (repos.length > 0) {
+      setCombining(true);
+    }
+  }, [reposParam]);
+
+  const loadRepositories = async (viewerRepositoriesId: string) => {
     setLoading(true);
     setError(null);
 
-    const result = await fetchUserRepositories();
+    const cache = new ResponseCacheService(await getBrowserCache());
+    const result = await cache.getOrFetch({
+      repositoryId: viewerRepositoriesId,
+      dataType: DataType.REPOSITORIES,
+      codec: repositoriesCodec,
+      fetcher: fetchUserRepositories,
+    });
 
     if (result.ok) {
       setRepositories(result.value);
@@ -132,8 +182,26 @@ export function RepositorySwitcher() {
     }
   };
 
+  // Navigate to the analytics page with updated parameters
+  const navigate = (params: URLSearchParams) => {
+    // Navigate with transition to show loading state immediately
+    startTransition(() => {
+      router.push(`/analytics?${params.toString()}`);
+    });
+    setOpen(false);
+  };
+
   // Handle repository selection
   const handleSelect = (repoId: string) => {
+    if (combining) {
+      setSelection((selected) =>
+        selected.includes(repoId)
+          ? selected.filter((repo) => repo !== repoId)
+          : [...selected, repoId],
+      );
+      return;
+    }
+
     if (repoId === currentRepo) {
       setOpen(false);
       return;
@@ -144,15 +212,44 @@ export function RepositorySwitcher() {
 
     // Build new URL with updated repo parameter
     const params = new URLSearchParams(searchParams.toString());
+    params.delete("repos");
     params.set("repo", repoId);
+    navigate(params);
+  };
 
-    // Navigate with transition to show loading state immediately
-    startTransition(() => {
-      router.push(`/analytics?${params.toString()}`);
-    });
-    setOpen(false);
+  // Switch between one repository and combining several
+  const toggleCombining = () => {
+    if (!combining) {
+      setCombining(true);
+      setSelection(currentRepo ? [currentRepo] : []);
+      return;
+    }
+
+    setCombining(false);
+    setSelection([]);
+
+    // Leave the portfolio for its first repository
+    const [firstRepo] = currentRepos;
+    if (firstRepo) {
+      const params = new URLSearchParams(searchParams.toString());
+      params.delete("repos");
+      params.set("repo", firstRepo);
+      navigate(params);
+    }
+  };
+
+  // Show the selected repositories combined
+  const applySelection = () => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("repo");
+    params.delete("tab"); // The portfolio view has no tabs
+    params.set("repos", selection.join(","));
+    navigate(params);
   };
 
+  const isSelected = (repoId: string) =>
+    combining ? selection.includes(repoId) : currentRepo === repoId;
+
   // Get recent repositories with metadata
   const recentRepositories = recentRepoIds
     .map((id) => repositories.find((r) => r.fullName === id))
@@ -216,7 +313,14 @@ export function RepositorySwitcher() {
             aria-label={t("selectRepository")}
             className="justify-between min-w-[200px] max-w-[300px]"
           >
-            {currentRepo ? (
+            {currentRepos.length > 0 ? (
+              <span className="flex items-center gap-2 truncate">
+                <Layers className="h-4 w-4 flex-shrink-0" />
+                <span className="truncate">
+                  {t("repositoriesSelected", { count: currentRepos.length })}
+                </span>
+              </span>
+            ) : currentRepo ? (
               <span className="flex items-center gap-2 truncate">
                 <GitBranch className="h-4 w-4 flex-shrink-0" />
                 <span className="truncate">{currentRepo}</span>
@@ -251,7 +355,7 @@ export function RepositorySwitcher() {
                       <Check
                         className={cn(
                           "mr-2 h-4 w-4",
-                          currentRepo === repo.fullName
+                          isSelected(repo.fullName)
                             ? "opacity-100"
                             : "opacity-0",
                         )}
@@ -284,7 +388,7 @@ export function RepositorySwitcher() {
                       <Check
                         className={cn(
                           "mr-2 h-4 w-4",
-                          currentRepo === repo.fullName
+                          isSelected(repo.fullName)
                             ? "opacity-100"
                             : "opacity-0",
                         )}
@@ -304,6 +408,35 @@ export function RepositorySwitcher() {
                   ))}
                 </CommandGroup>
               )}
+
+              {/* Combine several repositories into a portfolio */}
+              <CommandGroup
+                heading={combining ? t("combining") : undefined}
+                forceMount
+              >
+                {combining && selection.length > 0 && (
+                  <CommandItem
+                    value="__apply-selection"
+                    onSelect={applySelection}
+                    forceMount
+                  >
+                    <Layers className="mr-2 h-4 w-4" />
+                    {t("applySelection", { count: selection.length })}
+                  </CommandItem>
+                )}
+                <CommandItem
+                  value="__toggle-combining"
+                  onSelect={toggleCombining}
+                  forceMount
+                >
+                  {combining ? (
+                    <GitBranch className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Layers className="mr-2 h-4 w-4" />
+                  )}
+                  {combining ? t("singleRepository") : t("combine")}
+                </CommandItem>
+              </CommandGroup>
             </CommandList>
           </Command>
         </PopoverContent>
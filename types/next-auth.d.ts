@@ -2,6 +2,7 @@
 // Extends Session and JWT types to include GitHub OAuth access token
 
 import NextAuth, { DefaultSession } from "next-auth";
+import type { SessionError } from "@/infrastructure/auth/tokenRefresh";
 
 declare module "next-auth" {
   /**
@@ -16,8 +17,9 @@ declare module "next-auth" {
       image?: string;
     };
     accessToken: string;
+    githubHost: string; // Host that issued the access token (github.com or GHES)
     expires: string; // ISO 8601 date string
-    error?: string;
+    error?: SessionError; // Set when the access token could not be refreshed
   }
 
   /**
@@ -33,15 +35,18 @@ declare module "next-auth" {
   }
 }
 
-declare module "@auth/core/jwt" {
+declare module "next-auth/jwt" {
   /**
    * Extended JWT interface
-   * Stores access token and error state in encrypted JWT
+   * Stores access and refresh tokens and error state in encrypted JWT
    */
   interface JWT {
     sub: string; // User ID
     accessToken?: string;
-    error?: string;
+    refreshToken?: string; // Only for expiring tokens (GitHub App user tokens)
+    accessTokenExpiresAt?: number; // Unix seconds; undefined if the token does not expire
+    githubHost?: string;
+    error?: SessionError;
     exp: number; // Expiration timestamp
     iat: number; // Issued at timestamp
   }